@@ -32,8 +32,9 @@ jest.mock('next/navigation', () => ({
   },
 }))
 
-// Mock NextResponse
+// Mock NextResponse and after()
 jest.mock('next/server', () => ({
+  after: jest.fn(),
   NextResponse: {
     json: jest.fn((data, init) => ({
       json: jest.fn().mockResolvedValue(data),
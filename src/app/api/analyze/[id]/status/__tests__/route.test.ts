@@ -0,0 +1,120 @@
+import { GET } from '../route';
+
+// Mock the supabase client
+jest.mock('@/lib/supabase', () => ({
+  supabaseAdmin: {
+    from: jest.fn(),
+  },
+}));
+
+describe('/api/analyze/[id]/status', () => {
+  const mockSupabaseFrom = require('@/lib/supabase').supabaseAdmin.from;
+  const mockSupabaseSelect = jest.fn();
+  const mockSupabaseEq = jest.fn();
+  const mockSupabaseSingle = jest.fn();
+
+  const createRequest = () => {
+    const mockRequest = {
+      url: 'http://localhost:3000/api/analyze/test-id/status',
+      method: 'GET',
+    };
+    return mockRequest as any;
+  };
+
+  const createMockParams = (id: string) => {
+    return Promise.resolve({ id });
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+
+    // Setup default mock chain
+    const mockChain = {
+      select: mockSupabaseSelect,
+      eq: mockSupabaseEq,
+      single: mockSupabaseSingle,
+    };
+
+    mockSupabaseFrom.mockReturnValue(mockChain);
+    mockSupabaseSelect.mockReturnValue(mockChain);
+    mockSupabaseEq.mockReturnValue(mockChain);
+  });
+
+  it('should return per-module progress for a processing analysis', async () => {
+    mockSupabaseSingle.mockResolvedValue({
+      data: {
+        id: 'test-id',
+        url: 'https://example.com/',
+        status: 'processing',
+        progress: {
+          modules: {
+            speed: { status: 'completed', score: 75 },
+            font: { status: 'running' },
+            image: { status: 'pending' },
+            cta: { status: 'pending' }
+          },
+          updated_at: '2026-10-18T09:00:00Z'
+        },
+        retry_count: 1,
+        error_message: null,
+        overall_score: null
+      },
+      error: null
+    });
+
+    const response = await GET(createRequest(), { params: createMockParams('test-id') });
+    const data = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(data.status).toBe('processing');
+    expect(data.percent).toBe(25);
+    expect(data.modules.speed).toEqual({ status: 'completed', score: 75 });
+    expect(data.retryCount).toBe(1);
+    expect(data.overallScore).toBeNull();
+    expect(data.reportUrl).toBeNull();
+    expect(mockSupabaseEq).toHaveBeenCalledWith('id', 'test-id');
+  });
+
+  it('should return the overall score and report URL once completed', async () => {
+    mockSupabaseSingle.mockResolvedValue({
+      data: {
+        id: 'test-id',
+        url: 'https://example.com/',
+        status: 'completed',
+        progress: { modules: { speed: { status: 'completed', score: 75 } }, updated_at: '2026-10-18T09:00:00Z' },
+        retry_count: 0,
+        error_message: null,
+        overall_score: 75
+      },
+      error: null
+    });
+
+    const response = await GET(createRequest(), { params: createMockParams('test-id') });
+    const data = await response.json();
+
+    expect(data.percent).toBe(100);
+    expect(data.overallScore).toBe(75);
+    expect(data.reportUrl).toBe('/reports/test-id');
+  });
+
+  it('should return 404 when the analysis does not exist', async () => {
+    mockSupabaseSingle.mockResolvedValue({
+      data: null,
+      error: { message: 'No rows found', code: 'PGRST116' }
+    });
+
+    const response = await GET(createRequest(), { params: createMockParams('missing-id') });
+    const data = await response.json();
+
+    expect(response.status).toBe(404);
+    expect(data.error).toBe('Analysis not found');
+  });
+
+  it('should return 400 when the analysis ID is missing', async () => {
+    const response = await GET(createRequest(), { params: createMockParams('') });
+    const data = await response.json();
+
+    expect(response.status).toBe(400);
+    expect(data.error).toBe('Analysis ID is required');
+  });
+});
@@ -0,0 +1,77 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { supabaseAdmin } from '@/lib/supabase';
+import { calculateProgressPercent, MAX_RETRIES } from '@/lib/analysis-queue';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+
+    if (!id) {
+      return NextResponse.json(
+        { error: 'Analysis ID is required' },
+        { status: 400 }
+      );
+    }
+
+    const { data: analysis, error } = await supabaseAdmin
+      .from('analyses')
+      .select(`
+        id,
+        url,
+        status,
+        progress,
+        retry_count,
+        error_message,
+        overall_score,
+        grade,
+        industry_adjusted_score,
+        scoring_weights,
+        created_at,
+        started_at,
+        completed_at
+      `)
+      .eq('id', id)
+      .single();
+
+    if (error || !analysis) {
+      if (error) {
+        console.error('Database error:', error);
+      }
+      return NextResponse.json(
+        { error: 'Analysis not found' },
+        { status: 404 }
+      );
+    }
+
+    const isCompleted = analysis.status === 'completed';
+
+    return NextResponse.json({
+      analysisId: analysis.id,
+      url: analysis.url,
+      status: analysis.status,
+      percent: isCompleted ? 100 : calculateProgressPercent(analysis.progress),
+      modules: analysis.progress?.modules || {},
+      retryCount: analysis.retry_count || 0,
+      maxRetries: MAX_RETRIES,
+      error: analysis.error_message || null,
+      overallScore: isCompleted ? analysis.overall_score : null,
+      grade: isCompleted ? analysis.grade ?? null : null,
+      industryAdjustedScore: isCompleted ? analysis.industry_adjusted_score ?? null : null,
+      scoringWeights: isCompleted ? analysis.scoring_weights ?? null : null,
+      createdAt: analysis.created_at,
+      startedAt: analysis.started_at,
+      completedAt: analysis.completed_at,
+      reportUrl: isCompleted ? `/reports/${analysis.id}` : null
+    });
+
+  } catch (error) {
+    console.error('Error fetching analysis status:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,130 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { supabaseAdmin } from '@/lib/supabase';
+import { ANALYZER_COLUMNS, getAnalyzerDefinition } from '@/lib/analyzers/definitions';
+import type { AnalyzerId } from '@/lib/analyzers/types';
+import { formatServerSentEvent, getModuleProgressEvents } from '@/lib/analysis-stream';
+import type { AnalysisProgress } from '@/types/database';
+
+const POLL_INTERVAL_MS = 1000;
+
+// Close before the function's maxDuration; clients fall back to polling /status
+const STREAM_TIMEOUT_MS = 280 * 1000;
+
+const STREAM_COLUMNS = `id, status, progress, overall_score, error_message, retry_count, ${ANALYZER_COLUMNS}`;
+
+/**
+ * Server-Sent Events stream of per-module progress for a queued analysis.
+ *
+ * Events:
+ * - `module`: a module started, completed or failed. Finished modules include
+ *   `resultKey` and `result` so the client can render the section right away.
+ * - `complete`: the analysis finished, with the overall score.
+ * - `failed`: the analysis failed after all retries.
+ * - `timeout`: the stream closed before the analysis finished.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+
+  if (!id) {
+    return NextResponse.json(
+      { error: 'Analysis ID is required' },
+      { status: 400 }
+    );
+  }
+
+  const { data: initial, error } = await supabaseAdmin
+    .from('analyses')
+    .select('id')
+    .eq('id', id)
+    .single();
+
+  if (error || !initial) {
+    return NextResponse.json(
+      { error: 'Analysis not found' },
+      { status: 404 }
+    );
+  }
+
+  const encoder = new TextEncoder();
+
+  const stream = new ReadableStream({
+    async start(controller) {
+      const send = (event: string, data: unknown) => {
+        controller.enqueue(encoder.encode(formatServerSentEvent(event, data)));
+      };
+
+      const deadline = Date.now() + STREAM_TIMEOUT_MS;
+      let previousProgress: AnalysisProgress | null = null;
+
+      try {
+        while (!request.signal.aborted && Date.now() < deadline) {
+          const { data: analysis, error: fetchError } = await supabaseAdmin
+            .from('analyses')
+            .select(STREAM_COLUMNS)
+            .eq('id', id)
+            .single();
+
+          if (fetchError || !analysis) {
+            console.error(`⚠️ Failed to read progress for analysis ${id}:`, fetchError);
+          } else {
+            const row = analysis as Record<string, any>;
+
+            for (const moduleEvent of getModuleProgressEvents(previousProgress, row.progress)) {
+              const analyzer = getAnalyzerDefinition(moduleEvent.moduleId as AnalyzerId);
+              const isFinished = moduleEvent.status === 'completed' || moduleEvent.status === 'failed';
+              send('module', {
+                ...moduleEvent,
+                resultKey: analyzer.resultKey,
+                result: isFinished ? row[analyzer.column] ?? null : undefined
+              });
+            }
+            previousProgress = row.progress;
+
+            if (row.status === 'completed') {
+              send('complete', {
+                analysisId: row.id,
+                overallScore: row.overall_score,
+                reportUrl: `/reports/${row.id}`
+              });
+              return;
+            }
+
+            if (row.status === 'failed') {
+              send('failed', {
+                analysisId: row.id,
+                error: row.error_message || 'Analysis failed',
+                retryCount: row.retry_count
+              });
+              return;
+            }
+          }
+
+          await new Promise(resolve => setTimeout(resolve, POLL_INTERVAL_MS));
+        }
+
+        if (!request.signal.aborted) {
+          send('timeout', { analysisId: id, statusUrl: `/api/analyze/${id}/status` });
+        }
+      } catch (streamError) {
+        console.error(`💥 Progress stream error for analysis ${id}:`, streamError);
+      } finally {
+        try {
+          controller.close();
+        } catch {
+          // Already closed by a disconnected client
+        }
+      }
+    }
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive'
+    }
+  });
+}
@@ -1,38 +1,25 @@
 import { POST } from '../route';
 
-// Mock the analysis functions with realistic behavior
-jest.mock('@/lib/font-analysis', () => ({
-  analyzeFontUsage: jest.fn()
+// Mock the job queue - the analysis itself runs in the worker
+jest.mock('@/lib/analysis-queue', () => ({
+  enqueueAnalysis: jest.fn(),
+  processAnalysisJob: jest.fn()
 }));
 
-jest.mock('@/lib/image-optimization', () => ({
-  analyzeImageOptimization: jest.fn()
-}));
-
-jest.mock('@/lib/page-speed-analysis', () => ({
-  analyzePageSpeed: jest.fn()
-}));
-
-jest.mock('@/lib/whitespace-assessment', () => ({
-  analyzeWhitespace: jest.fn()
-}));
-
-jest.mock('@/lib/cta-analysis', () => ({
-  analyzeCTA: jest.fn()
-}));
-
-jest.mock('@/lib/social-proof-analysis', () => ({
-  analyzeSocialProof: jest.fn()
-}));
-
-jest.mock('@/lib/page-metadata', () => ({
-  extractPageMetadata: jest.fn()
+jest.mock('@/lib/client-rate-limit', () => ({
+  limitClientRequest: jest.fn(() => null)
 }));
 
 jest.mock('@/lib/screenshot-storage', () => ({
   captureAndStoreScreenshot: jest.fn()
 }));
 
+jest.mock('@/lib/page-source', () => ({
+  ...jest.requireActual('@/lib/page-source'),
+  storePageSource: jest.fn(),
+  discardPageSource: jest.fn()
+}));
+
 // Mock Supabase for unit testing
 jest.mock('@/lib/supabase', () => {
   const mockSupabaseAdmin = {
@@ -45,15 +32,14 @@ jest.mock('@/lib/supabase', () => {
 
 describe('/api/analyze', () => {
   // Get the mocked functions
-  const mockAnalyzeFontUsage = require('@/lib/font-analysis').analyzeFontUsage;
-  const mockAnalyzeImageOptimization = require('@/lib/image-optimization').analyzeImageOptimization;
-  const mockAnalyzePageSpeed = require('@/lib/page-speed-analysis').analyzePageSpeed;
-  const mockAnalyzeWhitespace = require('@/lib/whitespace-assessment').analyzeWhitespace;
-  const mockAnalyzeCTA = require('@/lib/cta-analysis').analyzeCTA;
-  const mockAnalyzeSocialProof = require('@/lib/social-proof-analysis').analyzeSocialProof;
-  const mockExtractPageMetadata = require('@/lib/page-metadata').extractPageMetadata;
+  const mockEnqueueAnalysis = require('@/lib/analysis-queue').enqueueAnalysis;
+  const mockProcessAnalysisJob = require('@/lib/analysis-queue').processAnalysisJob;
+  const mockAfter = require('next/server').after;
+  const mockLimitClientRequest = require('@/lib/client-rate-limit').limitClientRequest;
   const mockCaptureAndStoreScreenshot = require('@/lib/screenshot-storage').captureAndStoreScreenshot;
   const mockSupabaseAdmin = require('@/lib/supabase').supabaseAdmin;
+  const mockStorePageSource = require('@/lib/page-source').storePageSource;
+  const mockDiscardPageSource = require('@/lib/page-source').discardPageSource;
 
   const createRequest = (body: any) => {
     const mockRequest = {
@@ -64,12 +50,15 @@ describe('/api/analyze', () => {
     return mockRequest as any;
   };
 
+  // Track analyses by URL for caching tests
+  let cacheMap: Map<string, any>;
+
   beforeEach(() => {
     jest.clearAllMocks();
     
     // Setup Supabase mocks for database operations
     let analysisIdCounter = 0;
-    let cacheMap = new Map(); // Track analyses by URL for caching tests
+    cacheMap = new Map();
     
     mockSupabaseAdmin.from.mockImplementation((table: string) => {
       if (table === 'users') {
@@ -98,37 +87,33 @@ describe('/api/analyze', () => {
           select: jest.fn().mockReturnValue({
             eq: jest.fn().mockImplementation((column, value) => {
               if (column === 'url') {
-                const cachedAnalysis = cacheMap.get(value);
-                return {
-                  order: jest.fn().mockReturnValue({
-                    limit: jest.fn().mockResolvedValue({ 
+                let cachedAnalysis = cacheMap.get(value);
+                const byUrl: any = {
+                  eq: jest.fn().mockImplementation((filterColumn, filterValue) => {
+                    if (cachedAnalysis?.[filterColumn] !== filterValue) {
+                      cachedAnalysis = undefined;
+                    }
+                    return byUrl;
+                  }),
+                  order: jest.fn(() => ({
+                    limit: jest.fn(() => Promise.resolve({ 
                       data: cachedAnalysis ? [cachedAnalysis] : [], // Return cached if exists
                       error: null 
-                    }),
-                  }),
-                  single: jest.fn().mockResolvedValue({
+                    })),
+                  })),
+                  single: jest.fn(() => Promise.resolve({
                     data: cachedAnalysis || null,
                     error: null
-                  })
+                  }))
                 };
+                return byUrl;
               }
+              const analysisById = Array.from(cacheMap.values()).find(analysis => analysis.id === value);
               return {
-                single: jest.fn().mockResolvedValue({ data: null, error: null })
+                single: jest.fn().mockResolvedValue({ data: analysisById || null, error: null })
               };
             })
           }),
-          insert: jest.fn().mockReturnValue({
-            select: jest.fn().mockReturnValue({
-              single: jest.fn().mockImplementation(() => {
-                analysisIdCounter++;
-                const newId = `test-analysis-id-${analysisIdCounter}`;
-                return Promise.resolve({ 
-                  data: { id: newId }, 
-                  error: null 
-                });
-              })
-            })
-          }),
           update: jest.fn().mockReturnValue({
             eq: jest.fn().mockResolvedValue({ error: null })
           })
@@ -153,90 +138,13 @@ describe('/api/analyze', () => {
       };
     });
     
-    // Setup realistic default mock responses
-    mockAnalyzeFontUsage.mockResolvedValue({
-      fontFamilies: ['Arial, sans-serif'],
-      fontCount: 1,
-      systemFontCount: 1,
-      webFontCount: 0,
-      score: 95,
-      issues: [],
-      recommendations: ['Good font choice']
-    });
-
-    mockAnalyzeImageOptimization.mockResolvedValue({
-      score: 80,
-      totalImages: 2,
-      modernFormats: 1,
-      withAltText: 2,
-      appropriatelySized: 2,
-      issues: ['1 image using legacy format'],
-      recommendations: ['Convert to WebP'],
-      details: {}
-    });
-
-    mockAnalyzePageSpeed.mockResolvedValue({
-      score: 75,
-      grade: 'C',
-      metrics: { lcp: 2500, fcp: 1200, cls: 0.15, tbt: 200, si: 3000 },
-      lighthouseScore: 75,
-      issues: ['Slow LCP'],
-      recommendations: ['Optimize images'],
-      loadTime: 4000
-    });
-
-    mockAnalyzeWhitespace.mockResolvedValue({
-      score: 70,
-      grade: 'C',
-      metrics: {
-        whitespaceRatio: 0.45,
-        elementDensityPerSection: { gridSections: 12, maxDensity: 6, averageDensity: 3.5, totalElements: 42 },
-        spacingAnalysis: { 
-          headlineSpacing: { adequate: true },
-          ctaSpacing: { adequate: false },
-          contentBlockSpacing: { adequate: true },
-          lineHeight: { adequate: true }
-        },
-        clutterScore: 25,
-        hasAdequateSpacing: false
-      },
-      issues: ['Poor CTA spacing'],
-      recommendations: ['Increase spacing around CTAs'],
-      loadTime: 2000
-    });
-
-    mockAnalyzeCTA.mockResolvedValue({
-      score: 85,
-      ctas: [{ text: 'Sign Up', type: 'primary', isAboveFold: true, actionStrength: 'strong' }],
-      primaryCTA: { text: 'Sign Up', type: 'primary' },
-      issues: [],
-      recommendations: ['Good CTA implementation']
-    });
-
-    mockAnalyzeSocialProof.mockResolvedValue({
-      score: 60,
-      elements: [{ type: 'testimonial', text: 'Great service!', score: 80 }],
-      summary: { totalElements: 1, testimonials: 1 },
-      issues: ['Limited social proof'],
-      recommendations: ['Add more testimonials']
-    });
-
-    mockExtractPageMetadata.mockResolvedValue({
-      title: 'Test Page Title',
-      description: 'Test page description for analysis',
-      url: 'https://example.com/',
-      schema: {
-        name: 'Test Organization',
-        description: 'A test organization for analysis',
-        organization: {
-          '@context': 'https://schema.org',
-          '@type': 'Organization',
-          'name': 'Test Organization',
-          'description': 'A test organization for analysis'
-        }
-      }
+    mockEnqueueAnalysis.mockImplementation(() => {
+      analysisIdCounter++;
+      return Promise.resolve({ id: `test-analysis-id-${analysisIdCounter}` });
     });
 
+    mockProcessAnalysisJob.mockResolvedValue('completed');
+
     mockCaptureAndStoreScreenshot.mockResolvedValue({
       blobUrl: 'https://blob.vercel-storage.com/test-screenshot.png',
       width: 1920,
@@ -244,6 +152,16 @@ describe('/api/analyze', () => {
     });
   });
 
+  it('should answer 429 without queueing anything once the client is over its rate limit', async () => {
+    mockLimitClientRequest.mockReturnValueOnce(require('next/server').NextResponse.json({ error: 'Too many requests. Try again in 60 seconds.' }, { status: 429 }));
+
+    const response = await POST(createRequest({ url: 'https://example.com' }));
+
+    expect(response.status).toBe(429);
+    expect(mockLimitClientRequest).toHaveBeenCalledWith(expect.anything(), 'analyze');
+    expect(mockEnqueueAnalysis).not.toHaveBeenCalled();
+  });
+
   it('should return 400 if URL is missing', async () => {
     const request = createRequest({});
     const response = await POST(request);
@@ -264,47 +182,38 @@ describe('/api/analyze', () => {
     expect(data.error).toBe('Invalid URL format. Please provide a complete URL with a valid domain.');
   });
 
-  it('should return 200 for valid URL with complete analysis results', async () => {
+  it('should return 202 with a queued analysis for a valid URL', async () => {
     const request = createRequest({ 
       url: 'https://example.com'
     });
     const response = await POST(request);
     const data = await response.json();
 
-    if (response.status !== 200) {
-      console.error('API Error Response:', data);
-      console.error('Response status:', response.status);
-      console.error('Response statusText:', response.statusText);
-    }
-
-    expect(response.status).toBe(200);
+    expect(response.status).toBe(202);
     expect(data.success).toBe(true);
-    expect(data.analysis).toBeDefined();
-    
-    // Verify all analysis functions were called
-    expect(mockAnalyzeFontUsage).toHaveBeenCalledWith('https://example.com/', expect.any(Object));
-    expect(mockAnalyzeImageOptimization).toHaveBeenCalledWith('https://example.com/', expect.any(Object));
-    expect(mockAnalyzePageSpeed).toHaveBeenCalledWith(
-      'https://example.com/',
-      expect.objectContaining({ puppeteer: expect.any(Object) })
-    );
-    expect(mockAnalyzeWhitespace).toHaveBeenCalledWith('https://example.com/', expect.any(Object));
-    expect(mockAnalyzeCTA).toHaveBeenCalledWith('https://example.com/', expect.any(Object));
-    expect(mockAnalyzeSocialProof).toHaveBeenCalledWith('https://example.com/', expect.any(Object));
-    
-    // Test structure, not exact values
-    expect(data.analysis.fontUsage).toBeDefined();
-    expect(data.analysis.imageOptimization).toBeDefined();
-    expect(data.analysis.pageLoadSpeed).toBeDefined();
-    expect(data.analysis.whitespaceAssessment).toBeDefined();
-    expect(data.analysis.ctaAnalysis).toBeDefined();
-    expect(data.analysis.socialProof).toBeDefined();
-    
-    // Test score calculation logic (should be average of all scores)
-    expect(data.analysis.overallScore).toBeGreaterThan(0);
-    expect(data.analysis.overallScore).toBeLessThanOrEqual(100);
-    
-    expect(data.message).toContain('Analysis completed');
+    expect(data.status).toBe('queued');
+    expect(data.analysisId).toBe('test-analysis-id-1');
+    expect(data.statusUrl).toBe('/api/analyze/test-analysis-id-1/status');
+    expect(data.message).toContain('Analysis queued');
+
+    expect(mockEnqueueAnalysis).toHaveBeenCalledWith(expect.objectContaining({
+      userId: 'test-user-id',
+      url: 'https://example.com/'
+    }));
+  });
+
+  it('should start processing the job after the response is sent', async () => {
+    const request = createRequest({ 
+      url: 'https://example.com'
+    });
+    await POST(request);
+
+    expect(mockAfter).toHaveBeenCalledTimes(1);
+    expect(mockProcessAnalysisJob).not.toHaveBeenCalled();
+
+    // Run the deferred callback as Next.js would once the response is flushed
+    await mockAfter.mock.calls[0][0]();
+    expect(mockProcessAnalysisJob).toHaveBeenCalledWith('test-analysis-id-1');
   });
 
   it('should accept URLs with different protocols', async () => {
@@ -312,13 +221,13 @@ describe('/api/analyze', () => {
       url: 'http://example.com'
     });
     const httpResponse = await POST(httpRequest);
-    expect(httpResponse.status).toBe(200);
+    expect(httpResponse.status).toBe(202);
 
     const httpsRequest = createRequest({ 
       url: 'https://example.com'
     });
     const httpsResponse = await POST(httpsRequest);
-    expect(httpsResponse.status).toBe(200);
+    expect(httpsResponse.status).toBe(202);
   });
 
   it('should reject URLs with invalid protocols', async () => {
@@ -343,466 +252,404 @@ describe('/api/analyze', () => {
     expect(data.error).toBe('Invalid URL format. Please provide a complete URL with a valid domain.');
   });
 
-  it('should support component-based analysis (speed only)', async () => {
+  it('should pass the component filter and browser options to the queued job', async () => {
     const request = createRequest({ 
       url: 'https://example.com',
-      component: 'speed'
+      component: 'speed',
+      forceBrowserless: true
     });
     const response = await POST(request);
-    const data = await response.json();
 
-    expect(response.status).toBe(200);
-    expect(data.success).toBe(true);
-    
-    // Only page speed analysis should run
-    expect(mockAnalyzePageSpeed).toHaveBeenCalledWith(
-      'https://example.com/',
-      expect.objectContaining({ puppeteer: expect.any(Object) })
-    );
-    expect(mockAnalyzeFontUsage).not.toHaveBeenCalled();
-    expect(mockAnalyzeImageOptimization).not.toHaveBeenCalled();
-    
-    expect(data.analysis.pageLoadSpeed).toBeDefined();
-    expect(data.analysis.overallScore).toBe(75); // Should be just the speed score (75 * 1.0 weight when it's the only component)
+    expect(response.status).toBe(202);
+    expect(mockEnqueueAnalysis).toHaveBeenCalledWith(expect.objectContaining({
+      component: 'speed',
+      forceBrowserless: true
+    }));
   });
 
-  it('should support component-based analysis (whitespace only)', async () => {
-    const request = createRequest({ 
+  it('should pass the weight profile to the queued job', async () => {
+    const request = createRequest({
       url: 'https://example.com',
-      component: 'whitespace'
+      customWeights: { speed: 0.5, cta: 0.5 }
     });
     const response = await POST(request);
-    const data = await response.json();
 
-    expect(response.status).toBe(200);
-    expect(data.success).toBe(true);
-    
-    // Only whitespace analysis should run
-    expect(mockAnalyzeWhitespace).toHaveBeenCalledWith('https://example.com/', expect.any(Object));
-    expect(mockAnalyzeFontUsage).not.toHaveBeenCalled();
-    expect(mockAnalyzePageSpeed).not.toHaveBeenCalled();
-    
-    expect(data.analysis.whitespaceAssessment).toBeDefined();
-    expect(data.analysis.overallScore).toBe(70); // Should be the whitespace score only
+    expect(response.status).toBe(202);
+    expect(mockEnqueueAnalysis).toHaveBeenCalledWith(expect.objectContaining({
+      weightProfile: 'custom',
+      customWeights: { speed: 0.5, cta: 0.5 }
+    }));
   });
 
-  it('should handle analysis function errors gracefully', async () => {
-    // Mock one function to throw an error
-    mockAnalyzePageSpeed.mockRejectedValue(new Error('Network timeout'));
-    
-    const request = createRequest({ 
-      url: 'https://example.com'
+  it('should return 400 for an unknown weight profile', async () => {
+    const request = createRequest({
+      url: 'https://example.com',
+      weightProfile: 'nonprofit'
     });
     const response = await POST(request);
     const data = await response.json();
 
-    expect(response.status).toBe(200);
-    expect(data.success).toBe(true);
-    
-    // Should continue with other analyses even if one fails
-    expect(data.analysis.pageLoadSpeed.score).toBe(0); // Default for failed analysis
-    expect(data.analysis.fontUsage.score).toBe(95); // Should still have this
+    expect(response.status).toBe(400);
+    expect(data.error).toBe('weightProfile must be one of: saas, ecommerce, lead-gen, agency, custom');
+    expect(mockEnqueueAnalysis).not.toHaveBeenCalled();
   });
 
-  it('should calculate overall score as average of completed analyses', async () => {
-    // Mock specific scores to test calculation
-    mockAnalyzeFontUsage.mockResolvedValue({ score: 90, fontFamilies: [], fontCount: 1, systemFontCount: 1, webFontCount: 0, issues: [], recommendations: [] });
-    mockAnalyzeImageOptimization.mockResolvedValue({ score: 80, totalImages: 0, modernFormats: 0, withAltText: 0, appropriatelySized: 0, issues: [], recommendations: [], details: {} });
-    mockAnalyzePageSpeed.mockResolvedValue({ score: 70, grade: 'C', metrics: {}, lighthouseScore: 70, issues: [], recommendations: [], loadTime: 3000 });
-    mockAnalyzeWhitespace.mockResolvedValue({ score: 60, grade: 'D', metrics: {}, issues: [], recommendations: [], loadTime: 2000 });
-    mockAnalyzeCTA.mockResolvedValue({ score: 50, ctas: [], issues: [], recommendations: [] });
-    mockAnalyzeSocialProof.mockResolvedValue({ score: 40, elements: [], summary: {}, issues: [], recommendations: [] });
-    
+  it('should return 500 when the job cannot be queued', async () => {
+    mockEnqueueAnalysis.mockRejectedValue(new Error('insert failed'));
+
     const request = createRequest({ 
       url: 'https://example.com'
     });
     const response = await POST(request);
     const data = await response.json();
 
-    expect(response.status).toBe(200);
-    
-    // Overall score should be weighted average based on conversion impact
-    // speed:70*0.25 + cta:50*0.25 + social:40*0.20 + whitespace:60*0.15 + images:80*0.10 + fonts:90*0.05
-    // = 17.5 + 12.5 + 8 + 9 + 8 + 4.5 = 59.5 ≈ 60, but actual result is around 51
-    expect(data.analysis.overallScore).toBeGreaterThanOrEqual(50);
-    expect(data.analysis.overallScore).toBeLessThanOrEqual(60);
+    expect(response.status).toBe(500);
+    expect(data.error).toBe('Failed to initialize analysis record');
+    expect(mockAfter).not.toHaveBeenCalled();
   });
 
-  describe('Caching functionality', () => {
-    it('should return fromCache: false for fresh analysis', async () => {
-      const request = createRequest({ 
-        url: 'https://fresh-example.com'
-      });
-      const response = await POST(request);
-      const data = await response.json();
+  describe('Uploaded pages', () => {
+    const html = '<!doctype html><html><head><title>Launch</title></head><body><a href="/signup">Start free trial</a></body></html>';
 
-      expect(response.status).toBe(200);
-      expect(data.success).toBe(true);
-      expect(data.fromCache).toBe(false);
-      expect(data.message).toContain('Analysis completed successfully');
+    beforeEach(() => {
+      mockStorePageSource.mockImplementation(async (upload: any) => ({
+        type: upload.type,
+        blob_url: `https://blob.vercel-storage.com/page-sources/${upload.digest}.${upload.type}`,
+        digest: upload.digest
+      }));
     });
 
-    it('should handle forceRescan parameter', async () => {
-      const request = createRequest({ 
-        url: 'https://example.com',
-        forceRescan: true
-      });
-      const response = await POST(request);
-      const data = await response.json();
+    it('should queue an analysis of an HTML document under its upload URL', async () => {
+      const response = await POST(createRequest({ html }));
 
-      expect(response.status).toBe(200);
-      expect(data.success).toBe(true);
-      expect(data.fromCache).toBe(false);
-      expect(data.message).toContain('Analysis completed successfully');
+      expect(response.status).toBe(202);
+      expect(mockStorePageSource).toHaveBeenCalledWith(expect.objectContaining({ type: 'html', content: Buffer.from(html) }));
+      const { url, source } = mockEnqueueAnalysis.mock.calls[0][0];
+      expect(url).toMatch(/^upload:\/\/[0-9a-f]{16}\/$/);
+      expect(source).toMatchObject({ type: 'html', digest: expect.stringMatching(url.slice(9, 25)) });
     });
 
-    it('should accept forceRescan: false parameter', async () => {
-      const request = createRequest({ 
-        url: 'https://example.com',
-        forceRescan: false
-      });
-      const response = await POST(request);
+    it('should reject a request with both a URL and an upload', async () => {
+      const response = await POST(createRequest({ url: 'https://example.com', html }));
       const data = await response.json();
 
-      expect(response.status).toBe(200);
-      expect(data.success).toBe(true);
-      // fromCache could be true or false depending on if there's existing data
-      expect(typeof data.fromCache).toBe('boolean');
+      expect(response.status).toBe(400);
+      expect(data.error).toBe('Send either a URL or an uploaded page, not both');
+      expect(mockStorePageSource).not.toHaveBeenCalled();
     });
 
-    it('should include fromCache field in all successful responses', async () => {
-      const request = createRequest({ 
-        url: 'https://example.com'
-      });
-      const response = await POST(request);
+    it('should reject a zip that cannot be served', async () => {
+      const response = await POST(createRequest({ zip: Buffer.from('not a zip').toString('base64') }));
       const data = await response.json();
 
-      expect(response.status).toBe(200);
-      expect(data.success).toBe(true);
-      expect(data).toHaveProperty('fromCache');
-      expect(typeof data.fromCache).toBe('boolean');
+      expect(response.status).toBe(400);
+      expect(data.error).toBe('zip is not a valid zip file');
     });
 
-    it('should include email parameter in request body', async () => {
-      const request = createRequest({ 
-        url: 'https://example.com',
-        email: 'test@example.com'
-      });
-      const response = await POST(request);
-      const data = await response.json();
+    it('should queue uploads when analyses run on Browserless', async () => {
+      const response = await POST(createRequest({ html, forceBrowserless: true }));
 
-      expect(response.status).toBe(200);
-      expect(data.success).toBe(true);
-      expect(data).toHaveProperty('analysisId');
+      expect(response.status).toBe(202);
+      expect(mockEnqueueAnalysis).toHaveBeenCalledWith(expect.objectContaining({ forceBrowserless: true, source: expect.anything() }));
     });
 
-    it('should handle missing email parameter gracefully', async () => {
-      const request = createRequest({ 
-        url: 'https://example.com'
-        // No email provided
-      });
-      const response = await POST(request);
-      const data = await response.json();
+    it('should delete the stored upload when the job cannot be queued', async () => {
+      mockEnqueueAnalysis.mockRejectedValue(new Error('insert failed'));
 
-      expect(response.status).toBe(200);
-      expect(data.success).toBe(true);
-      expect(data).toHaveProperty('analysisId');
+      const response = await POST(createRequest({ html }));
+
+      expect(response.status).toBe(500);
+      expect((await response.json()).error).toBe('Failed to initialize analysis record');
+      expect(mockDiscardPageSource).toHaveBeenCalledWith(expect.objectContaining({ type: 'html' }));
     });
   });
 
-  describe('Option 2 Caching - Create new reports for forced refresh or 24h+', () => {
-    it.skip('should create a new analysis record when forceRescan is true, even if recent analysis exists', async () => {
-      // First analysis
-      const firstRequest = createRequest({ 
-        url: 'https://example.com',
-        email: 'test@example.com'
-      });
-      const firstResponse = await POST(firstRequest);
-      const firstData = await firstResponse.json();
-      
-      if (firstResponse.status !== 200) {
-        console.error('First request failed:', firstData);
-      }
-      
-      expect(firstResponse.status).toBe(200);
-      expect(firstData.fromCache).toBe(false);
-      const firstAnalysisId = firstData.analysisId;
-      
-      // Force rescan - should create new analysis
-      const forceRescanRequest = createRequest({ 
-        url: 'https://example.com',
-        email: 'test@example.com',
-        forceRescan: true
+  describe('Password-protected pages', () => {
+    const { getHeldPageAuth, releasePageAuth } = jest.requireActual('@/lib/page-auth');
+    const auth = {
+      basic: { username: 'staging', password: 's3cret' },
+      cookies: [{ name: 'session', value: 'abc123' }]
+    };
+
+    afterEach(() => {
+      releasePageAuth('test-analysis-id-1');
+    });
+
+    it('should hold the credentials in memory and only flag the queued job', async () => {
+      const response = await POST(createRequest({ url: 'https://staging.example.com', auth }));
+
+      expect(response.status).toBe(202);
+      const input = mockEnqueueAnalysis.mock.calls[0][0];
+      expect(input.requiresAuth).toBe(true);
+      expect(JSON.stringify(input)).not.toContain('s3cret');
+      expect(getHeldPageAuth('test-analysis-id-1')).toEqual({
+        origin: 'https://staging.example.com',
+        basic: auth.basic,
+        cookies: [{ name: 'session', value: 'abc123', url: 'https://staging.example.com/' }]
       });
-      const forceRescanResponse = await POST(forceRescanRequest);
-      const forceRescanData = await forceRescanResponse.json();
-      
-      expect(forceRescanResponse.status).toBe(200);
-      expect(forceRescanData.fromCache).toBe(false);
-      expect(forceRescanData.analysisId).not.toBe(firstAnalysisId); // Should be different analysis
     });
 
-    it('should create a new analysis record when analysis is older than 24 hours', async () => {
-      // This test would require manipulating database timestamps or mocking time
-      // For now, we'll test the logic structure
-      const request = createRequest({ 
-        url: 'https://httpbin.org/html',
-        email: 'test@example.com'
+    it('should not serve a public analysis from cache or link to it', async () => {
+      cacheMap.set('https://cached-example.com/', {
+        id: 'cached-analysis-id',
+        url: 'https://cached-example.com/',
+        status: 'completed',
+        created_at: new Date().toISOString()
       });
-      const response = await POST(request);
-      const data = await response.json();
-      
-      expect(response.status).toBe(200);
-      expect(data.fromCache).toBe(false);
-      expect(data.analysisId).toBeTruthy();
+
+      const response = await POST(createRequest({ url: 'https://cached-example.com', auth }));
+
+      expect(response.status).toBe(202);
+      expect(mockEnqueueAnalysis).toHaveBeenCalledWith(expect.objectContaining({ parentAnalysisId: undefined }));
     });
 
-    it.skip('should return cached result when analysis is recent and not forced', async () => {
-      // First analysis
-      const firstRequest = createRequest({ 
-        url: 'https://httpbin.org/json',
-        email: 'test@example.com'
+    it('should link a re-scan to the same client\'s analysis made with credentials', async () => {
+      cacheMap.set('https://staging.example.com/', {
+        id: 'own-analysis-id',
+        url: 'https://staging.example.com/',
+        user_id: 'test-user-id',
+        status: 'completed',
+        created_at: new Date().toISOString(),
+        job_options: { requires_auth: true }
       });
-      const firstResponse = await POST(firstRequest);
-      const firstData = await firstResponse.json();
-      
-      expect(firstResponse.status).toBe(200);
-      expect(firstData.fromCache).toBe(false);
-      const firstAnalysisId = firstData.analysisId;
-      
-      // Second request immediately after - should use cache
-      const secondRequest = createRequest({ 
-        url: 'https://httpbin.org/json',
-        email: 'test@example.com',
-        forceRescan: false
+
+      await POST(createRequest({ url: 'https://staging.example.com', email: 'client@example.com', auth }));
+
+      expect(mockEnqueueAnalysis).toHaveBeenCalledWith(expect.objectContaining({ parentAnalysisId: 'own-analysis-id' }));
+    });
+
+    it('should not link a re-scan to another client\'s analysis made with credentials', async () => {
+      cacheMap.set('https://staging.example.com/', {
+        id: 'other-analysis-id',
+        url: 'https://staging.example.com/',
+        user_id: 'other-user-id',
+        status: 'completed',
+        created_at: new Date().toISOString(),
+        job_options: { requires_auth: true }
       });
-      const secondResponse = await POST(secondRequest);
-      const secondData = await secondResponse.json();
-      
-      expect(secondResponse.status).toBe(200);
-      expect(secondData.fromCache).toBe(true);
-      expect(secondData.analysisId).toBe(firstAnalysisId); // Should be same analysis
-      expect(secondData.message).toContain('cached');
+
+      await POST(createRequest({ url: 'https://staging.example.com', email: 'client@example.com', auth }));
+
+      expect(mockEnqueueAnalysis).toHaveBeenCalledWith(expect.objectContaining({ parentAnalysisId: undefined }));
     });
 
-    it.skip('should maintain separate analyses for different URLs', async () => {
-      const url1Request = createRequest({ 
-        url: 'https://httpbin.org/status/200',
-        email: 'test@example.com'
+    it('should not link an anonymous re-scan made with credentials', async () => {
+      cacheMap.set('https://staging.example.com/', {
+        id: 'anonymous-analysis-id',
+        url: 'https://staging.example.com/',
+        user_id: 'test-user-id',
+        status: 'completed',
+        created_at: new Date().toISOString(),
+        job_options: { requires_auth: true }
       });
-      const url1Response = await POST(url1Request);
-      const url1Data = await url1Response.json();
-      
-      const url2Request = createRequest({ 
-        url: 'https://httpbin.org/delay/1',
-        email: 'test@example.com'
+
+      await POST(createRequest({ url: 'https://staging.example.com', auth }));
+
+      expect(mockEnqueueAnalysis).toHaveBeenCalledWith(expect.objectContaining({ parentAnalysisId: undefined }));
+    });
+
+    it('should not serve an analysis made with credentials to a public request', async () => {
+      cacheMap.set('https://cached-example.com/', {
+        id: 'cached-analysis-id',
+        url: 'https://cached-example.com/',
+        status: 'completed',
+        created_at: new Date().toISOString(),
+        job_options: { requires_auth: true }
       });
-      const url2Response = await POST(url2Request);
-      const url2Data = await url2Response.json();
-      
-      expect(url1Response.status).toBe(200);
-      expect(url2Response.status).toBe(200);
-      expect(url1Data.analysisId).not.toBe(url2Data.analysisId);
-      expect(url1Data.fromCache).toBe(false);
-      expect(url2Data.fromCache).toBe(false);
+
+      const response = await POST(createRequest({ url: 'https://cached-example.com' }));
+
+      expect(response.status).toBe(202);
+      expect(mockEnqueueAnalysis).toHaveBeenCalledWith(expect.objectContaining({ requiresAuth: false, parentAnalysisId: undefined }));
     });
 
-    it.skip('should track historical analyses - multiple reports per URL over time', async () => {
-      const url = 'https://httpbin.org/uuid';
-      
-      // First analysis
-      const request1 = createRequest({ url, email: 'test@example.com' });
-      const response1 = await POST(request1);
-      const data1 = await response1.json();
-      
-      // Force rescan to create second analysis
-      const request2 = createRequest({ url, email: 'test@example.com', forceRescan: true });
-      const response2 = await POST(request2);
-      const data2 = await response2.json();
-      
-      // Third force rescan
-      const request3 = createRequest({ url, email: 'test@example.com', forceRescan: true });
-      const response3 = await POST(request3);
-      const data3 = await response3.json();
-      
-      expect(response1.status).toBe(200);
-      expect(response2.status).toBe(200);
-      expect(response3.status).toBe(200);
-      
-      // All should be different analysis IDs (historical tracking)
-      expect(data1.analysisId).not.toBe(data2.analysisId);
-      expect(data2.analysisId).not.toBe(data3.analysisId);
-      expect(data1.analysisId).not.toBe(data3.analysisId);
-      
-      // All should be new analyses, not cached
-      expect(data1.fromCache).toBe(false);
-      expect(data2.fromCache).toBe(false);
-      expect(data3.fromCache).toBe(false);
+    it('should return 400 for malformed credentials', async () => {
+      const response = await POST(createRequest({ url: 'https://staging.example.com', auth: { basic: { username: 'staging' } } }));
+      const data = await response.json();
+
+      expect(response.status).toBe(400);
+      expect(data.error).toBe('auth.basic needs a username and password');
+      expect(mockEnqueueAnalysis).not.toHaveBeenCalled();
+    });
+
+    it('should reject credentials for an uploaded page', async () => {
+      const response = await POST(createRequest({ html: '<h1>Hello</h1>', auth }));
+
+      expect(response.status).toBe(400);
+      expect(mockStorePageSource).not.toHaveBeenCalled();
     });
   });
 
-  describe('Database integration with caching', () => {
-    it('should handle component-based analysis with caching parameters', async () => {
+  describe('Caching functionality', () => {
+    const cachedAnalysis = () => ({
+      id: 'cached-analysis-id',
+      url: 'https://cached-example.com/',
+      url_title: 'Cached Page',
+      url_description: 'Cached description',
+      schema_data: { name: 'Test Organization' },
+      status: 'completed',
+      created_at: new Date(Date.now() - 60 * 60 * 1000).toISOString(),
+      page_speed_analysis: { score: 75 },
+      font_analysis: { score: 95 },
+      image_analysis: { score: 80 },
+      cta_analysis: { score: 85 },
+      whitespace_analysis: { score: 70 },
+      social_proof_analysis: { score: 60 },
+      overall_score: 76,
+      screenshot_url: 'https://blob.vercel-storage.com/cached.png'
+    });
+
+    it('should return fromCache: false for fresh analysis', async () => {
       const request = createRequest({ 
-        url: 'https://example.com',
-        component: 'speed',
-        email: 'test@example.com',
-        forceRescan: true
+        url: 'https://fresh-example.com'
       });
       const response = await POST(request);
       const data = await response.json();
 
-      expect(response.status).toBe(200);
+      expect(response.status).toBe(202);
       expect(data.success).toBe(true);
       expect(data.fromCache).toBe(false);
-      
-      // Only page speed analysis should run
-      expect(mockAnalyzePageSpeed).toHaveBeenCalledWith(
-        'https://example.com/',
-        expect.objectContaining({ puppeteer: expect.any(Object) })
-      );
-      expect(mockAnalyzeFontUsage).not.toHaveBeenCalled();
-      
-      expect(data.analysis.pageLoadSpeed).toBeDefined();
-      expect(data.analysis.overallScore).toBe(75); // Should be the speed score only
     });
 
-    it('should include analysisId in response for database tracking', async () => {
+    it('should return a recent completed analysis from cache without queueing', async () => {
+      cacheMap.set('https://cached-example.com/', cachedAnalysis());
+
       const request = createRequest({ 
-        url: 'https://unique-test-url.com',
-        email: 'tracker@example.com'
+        url: 'https://cached-example.com'
       });
       const response = await POST(request);
       const data = await response.json();
 
       expect(response.status).toBe(200);
-      expect(data.success).toBe(true);
-      expect(data).toHaveProperty('analysisId');
-      expect(typeof data.analysisId).toBe('string');
-      expect(data.analysisId).toBeTruthy();
+      expect(data.fromCache).toBe(true);
+      expect(data.analysisId).toBe('cached-analysis-id');
+      expect(data.analysis.overallScore).toBe(76);
+      expect(data.analysis.schema.name).toBe('Test Organization');
+      expect(data.message).toContain('cached');
+      expect(mockEnqueueAnalysis).not.toHaveBeenCalled();
+      expect(mockAfter).not.toHaveBeenCalled();
     });
-  });
 
-  describe('Error handling with cache parameters', () => {
-    it('should handle analysis errors gracefully even with forceRescan', async () => {
-      // Mock one function to throw an error
-      mockAnalyzePageSpeed.mockRejectedValue(new Error('Network timeout'));
-      
+    it('should re-weight a cached analysis for the requested profile', async () => {
+      cacheMap.set('https://cached-example.com/', cachedAnalysis());
+
+      const request = createRequest({
+        url: 'https://cached-example.com',
+        weightProfile: 'saas'
+      });
+      const response = await POST(request);
+      const data = await response.json();
+
+      expect(data.fromCache).toBe(true);
+      expect(data.analysis.overallScore).toBe(76);
+      // speed:75*0.10 + font:95*0.03 + image:80*0.03 + cta:85*0.14 + whitespace:70*0.06 + social:60*0.12 = 36.05 / 0.48
+      expect(data.analysis.industryAdjustedScore).toBe(75);
+      expect(data.analysis.scoringWeights).toMatchObject({ profile: 'saas', source: 'request' });
+    });
+
+    it('should queue a new analysis when forceRescan is true, even if a recent analysis exists', async () => {
+      cacheMap.set('https://cached-example.com/', cachedAnalysis());
+
       const request = createRequest({ 
-        url: 'https://example.com',
-        forceRescan: true,
-        email: 'error-test@example.com'
+        url: 'https://cached-example.com',
+        forceRescan: true
       });
       const response = await POST(request);
       const data = await response.json();
 
-      expect(response.status).toBe(200);
-      expect(data.success).toBe(true);
+      expect(response.status).toBe(202);
       expect(data.fromCache).toBe(false);
-      
-      // Should continue with other analyses even if one fails
-      expect(data.analysis.pageLoadSpeed.score).toBe(0); // Default for failed analysis
-      expect(data.analysis.fontUsage.score).toBe(95); // Should still have this
+      expect(data.analysisId).not.toBe('cached-analysis-id');
+      expect(mockEnqueueAnalysis).toHaveBeenCalled();
     });
 
-    it('should maintain response structure consistency with cache fields', async () => {
+    it('should link a re-scan to the previous completed analysis', async () => {
+      cacheMap.set('https://cached-example.com/', cachedAnalysis());
+
+      const request = createRequest({
+        url: 'https://cached-example.com',
+        forceRescan: true
+      });
+      await POST(request);
+
+      expect(mockEnqueueAnalysis).toHaveBeenCalledWith(
+        expect.objectContaining({ parentAnalysisId: 'cached-analysis-id' })
+      );
+    });
+
+    it('should queue a new analysis when the cached analysis is older than 24 hours', async () => {
+      cacheMap.set('https://cached-example.com/', {
+        ...cachedAnalysis(),
+        created_at: new Date(Date.now() - 25 * 60 * 60 * 1000).toISOString()
+      });
+
       const request = createRequest({ 
-        url: 'https://example.com',
-        forceRescan: false
+        url: 'https://cached-example.com'
       });
       const response = await POST(request);
       const data = await response.json();
 
-      expect(response.status).toBe(200);
-      expect(data).toMatchObject({
-        success: true,
-        analysis: expect.any(Object),
-        analysisId: expect.any(String),
-        fromCache: expect.any(Boolean),
-        message: expect.any(String)
-      });
+      expect(response.status).toBe(202);
+      expect(data.fromCache).toBe(false);
+      expect(mockEnqueueAnalysis).toHaveBeenCalled();
     });
-  });
 
-  describe('Schema.org data inclusion', () => {
-    it('should include schema data in analysis response', async () => {
+    it('should include fromCache field in all successful responses', async () => {
       const request = createRequest({ 
         url: 'https://example.com'
       });
       const response = await POST(request);
       const data = await response.json();
 
-      expect(response.status).toBe(200);
       expect(data.success).toBe(true);
-      
-      // Verify schema data is included
-      expect(data.analysis.schema).toBeDefined();
-      expect(data.analysis.schema.name).toBe('Test Organization');
-      expect(data.analysis.schema.description).toBe('A test organization for analysis');
-      expect(data.analysis.schema.organization['@type']).toBe('Organization');
-      
-      // Verify page metadata is included
-      expect(data.analysis.url_title).toBe('Test Page Title');
-      expect(data.analysis.url_description).toBe('Test page description for analysis');
-      
-      // Verify extractPageMetadata was called
-      expect(mockExtractPageMetadata).toHaveBeenCalledWith('https://example.com/', expect.any(Object));
+      expect(data).toHaveProperty('fromCache');
+      expect(typeof data.fromCache).toBe('boolean');
     });
 
-    it('should handle schema extraction failure gracefully', async () => {
-      // Mock extractPageMetadata to return no schema
-      mockExtractPageMetadata.mockResolvedValueOnce({
-        title: 'Page Without Schema',
-        description: 'A page without schema data',
-        url: 'https://example.com/',
-        schema: null
+    it('should include email parameter in request body', async () => {
+      const request = createRequest({ 
+        url: 'https://example.com',
+        email: 'test@example.com'
       });
+      const response = await POST(request);
+      const data = await response.json();
+
+      expect(response.status).toBe(202);
+      expect(data.success).toBe(true);
+      expect(data).toHaveProperty('analysisId');
+    });
 
+    it('should handle missing email parameter gracefully', async () => {
       const request = createRequest({ 
         url: 'https://example.com'
+        // No email provided
       });
       const response = await POST(request);
       const data = await response.json();
 
-      expect(response.status).toBe(200);
+      expect(response.status).toBe(202);
       expect(data.success).toBe(true);
-      
-      // Verify null schema is handled correctly
-      expect(data.analysis.schema).toBeNull();
-      expect(data.analysis.url_title).toBe('Page Without Schema');
-      expect(data.analysis.url_description).toBe('A page without schema data');
+      expect(data).toHaveProperty('analysisId');
     });
+  });
 
-    it.skip('should include schema data in cached responses', async () => {
-      // Create an analysis with schema data
-      const firstRequest = createRequest({ 
-        url: 'https://schema-test.com',
-        email: 'test@example.com'
-      });
-      const firstResponse = await POST(firstRequest);
-      const firstData = await firstResponse.json();
-      
-      expect(firstResponse.status).toBe(200);
-      expect(firstData.fromCache).toBe(false);
-      expect(firstData.analysis.schema).toBeDefined();
-      
-      // Request again to get cached version
-      const secondRequest = createRequest({ 
-        url: 'https://schema-test.com',
-        email: 'test@example.com',
+  describe('Response structure', () => {
+    it('should maintain response structure consistency with cache fields', async () => {
+      const request = createRequest({ 
+        url: 'https://example.com',
         forceRescan: false
       });
-      const secondResponse = await POST(secondRequest);
-      const secondData = await secondResponse.json();
-      
-      expect(secondResponse.status).toBe(200);
-      expect(secondData.fromCache).toBe(true);
-      
-      // Verify cached response includes schema data
-      expect(secondData.analysis.schema).toBeDefined();
-      expect(secondData.analysis.schema.name).toBe('Test Organization');
-      expect(secondData.analysis.url_title).toBe('Test Page Title');
-      expect(secondData.analysis.url_description).toBe('Test page description for analysis');
+      const response = await POST(request);
+      const data = await response.json();
+
+      expect(data).toMatchObject({
+        success: true,
+        analysisId: expect.any(String),
+        status: 'queued',
+        statusUrl: expect.any(String),
+        fromCache: expect.any(Boolean),
+        message: expect.any(String)
+      });
     });
   });
 });
@@ -1,54 +1,55 @@
-import { NextRequest, NextResponse } from 'next/server';
-import { analyzeFontUsage } from '@/lib/font-analysis';
-import { analyzeImageOptimization } from '@/lib/image-optimization';
-import { analyzeCTA } from '@/lib/cta-analysis';
-import { analyzePageSpeed } from '@/lib/page-speed-analysis';
-import { analyzeWhitespace } from '@/lib/whitespace-assessment';
-import { analyzeSocialProof } from '@/lib/social-proof-analysis';
+import { NextRequest, NextResponse, after } from 'next/server';
 import { supabaseAdmin } from '@/lib/supabase';
 import { captureAndStoreScreenshot } from '@/lib/screenshot-storage';
-import { extractPageMetadata } from '@/lib/page-metadata';
-import { createPuppeteerBrowser } from '@/lib/puppeteer-config';
-import type { Browser } from 'puppeteer-core';
+import { enqueueAnalysis, processAnalysisJob } from '@/lib/analysis-queue';
+import { calculateOverallScore, mapAnalyzerColumns } from '@/lib/analyzers/definitions';
+import { parseWeightSelection, selectScoringWeights } from '@/lib/analyzers/weight-profiles';
+import { getGrade } from '@/lib/grading';
+import { parseAnalysisUrl, INVALID_URL_MESSAGE } from '@/lib/url-validation';
+import { discardPageSource, getUploadUrl, parsePageUpload, storePageSource, type PageUpload } from '@/lib/page-source';
+import { holdPageAuth, parsePageAuth, type PageAuth } from '@/lib/page-auth';
+import { resolveUserId } from '@/lib/users';
+import { limitClientRequest } from '@/lib/client-rate-limit';
+import type { PageSource } from '@/types/database';
 
 export async function POST(request: NextRequest) {
   console.log('🔥 API /analyze endpoint called')
-  
-  const startTime = Date.now();
-  let analysisId: string | null = null;
-  let sharedBrowser: Browser | null = null;
-
-  const closeSharedBrowser = async () => {
-    if (sharedBrowser) {
-      try {
-        await sharedBrowser.close();
-      } catch (closeError) {
-        console.warn('⚠️ Failed to close shared browser cleanly:', closeError);
-      } finally {
-        sharedBrowser = null;
-      }
-    }
-  };
 
-  const getSharedBrowser = async (forceBrowserless?: boolean) => {
-    if (!sharedBrowser) {
-      sharedBrowser = await createPuppeteerBrowser({ forceBrowserless });
-    }
-    return sharedBrowser;
-  };
+  const limited = limitClientRequest(request, 'analyze');
+  if (limited) {
+    return limited;
+  }
   
   try {
     console.log('📥 Parsing request body...')
     const body = await request.json();
-    const { url, component, email, forceRescan = false, forceBrowserless = false } = body; // Add email parameter for database storage
+    const { url, html, zip, auth: authInput, component, email, forceRescan = false, forceBrowserless = false, weightProfile, customWeights } = body; // Add email parameter for database storage
     console.log(`📋 Received URL: ${url}`)
     console.log(`🎯 Component filter: ${component || 'all'}`)
     console.log(`📧 Email: ${email || 'anonymous request'}`)
     console.log(`🔄 Force rescan: ${forceRescan}`)
     console.log(`🌐 Force Browserless: ${forceBrowserless}`)
 
+    // An uploaded HTML document or zipped build is analyzed instead of a live URL
+    let upload: PageUpload | null;
+    try {
+      upload = parsePageUpload({ html, zip });
+    } catch (error) {
+      return NextResponse.json(
+        { error: error instanceof Error ? error.message : 'Invalid upload' },
+        { status: 400 }
+      );
+    }
+
+    if (upload && url) {
+      return NextResponse.json(
+        { error: 'Send either a URL or an uploaded page, not both' },
+        { status: 400 }
+      );
+    }
+
     // Validate input
-    if (!url) {
+    if (!url && !upload) {
       console.log('❌ URL validation failed: missing URL')
       return NextResponse.json(
         { error: 'URL is required' },
@@ -59,136 +60,93 @@ export async function POST(request: NextRequest) {
     // Validate URL format
     let validatedUrl: URL;
     try {
-      validatedUrl = new URL(url);
-      // Check protocol
-      if (!['http:', 'https:'].includes(validatedUrl.protocol)) {
-        throw new Error('Invalid protocol');
-      }
-      // Check hostname exists and is not empty
-      if (!validatedUrl.hostname || validatedUrl.hostname.trim() === '') {
-        throw new Error('Invalid hostname');
-      }
-      // Check hostname contains at least one dot (domain.tld)
-      if (!validatedUrl.hostname.includes('.')) {
-        throw new Error('Invalid hostname format');
-      }
-      // Check hostname doesn't end with just a dot
-      if (validatedUrl.hostname.endsWith('.')) {
-        throw new Error('Invalid hostname format');
-      }
+      validatedUrl = upload ? new URL(getUploadUrl(upload.digest)) : parseAnalysisUrl(url);
       console.log(`✅ URL validation passed: ${validatedUrl.toString()}`)
     } catch (error) {
       console.log(`❌ URL validation failed: ${error instanceof Error ? error.message : 'invalid format'}`)
       return NextResponse.json(
-        { error: 'Invalid URL format. Please provide a complete URL with a valid domain.' },
+        { error: INVALID_URL_MESSAGE },
         { status: 400 }
       );
     }
 
-    // Extract page metadata early for database storage
-    console.log('📖 Extracting page metadata...');
-    let pageMetadata;
+    // Credentials for a page behind basic auth or a login. They are only held
+    // in memory for the job and never logged or stored with the analysis.
+    let auth: PageAuth | null;
     try {
-      pageMetadata = await extractPageMetadata(validatedUrl.toString(), {
-        puppeteer: { forceBrowserless }
-      });
-      console.log(`✅ Page metadata extracted: "${pageMetadata.title}" - "${pageMetadata.description.substring(0, 50)}..."`);
+      auth = parsePageAuth(authInput, validatedUrl.toString());
     } catch (error) {
-      console.error('⚠️ Failed to extract page metadata:', error);
-      pageMetadata = {
-        title: 'Page Title Unavailable',
-        description: 'Description not available',
-        url: validatedUrl.toString()
-      };
+      return NextResponse.json(
+        { error: error instanceof Error ? error.message : 'Invalid credentials' },
+        { status: 400 }
+      );
     }
 
-    // Create or find user and analysis record in database
-    console.log('💾 Creating user and analysis record in database...')
-    try {
-      let userId: string;
-      
-      if (email) {
-        // Handle registered user
-        const { data: existingUser } = await supabaseAdmin
-          .from('users')
-          .select('id')
-          .eq('email', email)
-          .single();
-
-        if (existingUser) {
-          userId = existingUser.id;
-          console.log(`✅ Found existing user: ${userId}`);
-        } else {
-          const { data: newUser, error: userError } = await supabaseAdmin
-            .from('users')
-            .insert({
-              email: email,
-              marketing_consent: true
-            })
-            .select('id')
-            .single();
-
-          if (userError) {
-            console.error('❌ Failed to create user:', userError);
-            return NextResponse.json(
-              { error: 'Failed to create user record' },
-              { status: 500 }
-            );
-          }
-
-          userId = newUser.id;
-          console.log(`✅ Created new user: ${userId}`);
-        }
-      } else {
-        // Handle anonymous user - use or create system user
-        const systemEmail = 'system.anonymous@lansky.tech';
-        const { data: systemUser } = await supabaseAdmin
-          .from('users')
-          .select('id')
-          .eq('email', systemEmail)
-          .single();
+    if (auth && upload) {
+      return NextResponse.json(
+        { error: 'Credentials can only be sent with a URL, not an uploaded page' },
+        { status: 400 }
+      );
+    }
+    if (auth) {
+      console.log(`🔐 Credentials supplied: ${Object.keys(auth).join(', ')}`)
+    }
 
-        if (systemUser) {
-          userId = systemUser.id;
-          console.log(`✅ Using system anonymous user: ${userId}`);
-        } else {
-          const { data: newSystemUser, error: systemUserError } = await supabaseAdmin
-            .from('users')
-            .insert({
-              email: systemEmail,
-              marketing_consent: false,
-              first_name: 'Anonymous',
-              last_name: 'User',
-              lead_score: 0
-            })
-            .select('id')
-            .single();
+    let weightSelection: ReturnType<typeof parseWeightSelection>;
+    try {
+      weightSelection = parseWeightSelection(weightProfile, customWeights);
+    } catch (error) {
+      return NextResponse.json(
+        { error: error instanceof Error ? error.message : 'Invalid weight profile' },
+        { status: 400 }
+      );
+    }
+    console.log(`⚖️ Weight profile: ${weightSelection.profile || 'auto'}`)
 
-          if (systemUserError) {
-            console.error('❌ Failed to create system user:', systemUserError);
-            return NextResponse.json(
-              { error: 'Failed to create system user record' },
-              { status: 500 }
-            );
-          }
+    let analysisId: string;
 
-          userId = newSystemUser.id;
-          console.log(`✅ Created system anonymous user: ${userId}`);
-        }
+    // Create or find user and queue analysis record in database
+    console.log('💾 Creating user and analysis record in database...')
+    try {
+      let userId: string;
+      try {
+        userId = await resolveUserId(email);
+      } catch (error) {
+        return NextResponse.json(
+          { error: error instanceof Error ? error.message : 'Failed to create user record' },
+          { status: 500 }
+        );
       }
 
       // Option 2: Check for cacheable analysis (only return cache if recent AND not forced)
-      const { data: existingAnalyses } = await supabaseAdmin
+      let existingQuery = supabaseAdmin
         .from('analyses')
-        .select('id, status, created_at')
-        .eq('url', validatedUrl.toString())
+        .select('id, status, created_at, job_options')
+        .eq('url', validatedUrl.toString());
+      // An analysis made with another client's credentials must not become
+      // this one's re-scan parent, whose results the changes report shows
+      if (auth) {
+        existingQuery = existingQuery.eq('user_id', userId);
+      }
+      const { data: existingAnalyses } = await existingQuery
         .order('created_at', { ascending: false })
-        .limit(1);
+        .limit(5);
       
       console.log('🔍 Existing analyses:', existingAnalyses);
 
-      const existingAnalysis = existingAnalyses?.[0];
+      // What a page shows behind a login differs from what it shows the
+      // public, so analyses with and without credentials are kept apart
+      const matchingAnalyses = existingAnalyses?.filter(analysis => !!analysis.job_options?.requires_auth === !!auth);
+      const existingAnalysis = matchingAnalyses?.[0];
+      // A re-scan links to the latest completed analysis, skipping recent
+      // failures. Anonymous requests all share one user, so one made with
+      // credentials has no analyses of its own to link to.
+      const previousAnalysis = auth && !email
+        ? undefined
+        : matchingAnalyses?.find(analysis => analysis.status === 'completed');
+      // Another client's credentials may see a different page, so those are never served from cache
       const shouldUseCache = existingAnalysis && 
+        !auth &&
         !forceRescan && 
         existingAnalysis.status === 'completed' &&
         (Date.now() - new Date(existingAnalysis.created_at).getTime()) < (24 * 60 * 60 * 1000);
@@ -207,7 +165,8 @@ export async function POST(request: NextRequest) {
           let screenshotUrl = existingData.screenshot_url;
           
           // If cached analysis doesn't have a screenshot, capture one now
-          if (!screenshotUrl) {
+          // (an uploaded page is only served while its analysis runs)
+          if (!screenshotUrl && !upload) {
             try {
               console.log('📸 Cached analysis missing screenshot, capturing now...');
               const screenshotResult = await captureAndStoreScreenshot(validatedUrl.toString(), {
@@ -231,8 +190,15 @@ export async function POST(request: NextRequest) {
             }
           }
 
-          await closeSharedBrowser();
-          
+          // Re-weight the cached results when a different profile is requested
+          const analyzerResults = mapAnalyzerColumns(existingData);
+          let industryAdjustedScore = existingData.industry_adjusted_score ?? null;
+          let scoringWeights = existingData.scoring_weights ?? null;
+          if (weightSelection.profile) {
+            scoringWeights = selectScoringWeights(weightSelection);
+            industryAdjustedScore = calculateOverallScore(analyzerResults, scoringWeights.weights);
+          }
+
           return NextResponse.json({
             success: true,
             analysis: {
@@ -240,13 +206,11 @@ export async function POST(request: NextRequest) {
               url_title: existingData.url_title,
               url_description: existingData.url_description,
               schema: existingData.schema_data,
-              pageLoadSpeed: existingData.page_speed_analysis,
-              fontUsage: existingData.font_analysis,
-              imageOptimization: existingData.image_analysis,
-              ctaAnalysis: existingData.cta_analysis,
-              whitespaceAssessment: existingData.whitespace_analysis,
-              socialProof: existingData.social_proof_analysis,
+              ...analyzerResults,
               overallScore: existingData.overall_score,
+              grade: existingData.grade ?? getGrade(existingData.overall_score ?? 0),
+              industryAdjustedScore,
+              scoringWeights,
               status: existingData.status,
               screenshotUrl: screenshotUrl
             },
@@ -257,38 +221,48 @@ export async function POST(request: NextRequest) {
         }
       }
 
-      // Create new analysis record (Option 2: Always create new for forced refresh or old/missing analysis)
-      console.log(`🆕 Creating new analysis record for URL: ${validatedUrl.toString()}`);
+      // Queue a new analysis (Option 2: Always create new for forced refresh or old/missing analysis)
+      console.log(`🆕 Queueing new analysis for URL: ${validatedUrl.toString()}`);
       console.log(`📝 Reason: ${forceRescan ? 'Force rescan requested' : existingAnalysis ? 'Analysis too old or failed' : 'No existing analysis'}`);
-      
-      const { data: analysisRecord, error: insertError } = await supabaseAdmin
-        .from('analyses')
-        .insert({
-          user_id: userId,
-          url: validatedUrl.toString(),
-          url_title: pageMetadata.title,
-          url_description: pageMetadata.description,
-          schema_data: pageMetadata.schema,
-          status: 'processing',
-          algorithm_version: '1.0.0',
-          lighthouse_available: true, // Will be updated based on actual availability
-          retry_count: 0,
-          is_baseline: false, // Only first analysis is baseline
-          started_at: new Date().toISOString()
-        })
-        .select()
-        .single();
+      if (previousAnalysis) {
+        console.log(`🔗 Re-scan of analysis ${previousAnalysis.id}`);
+      }
 
-      if (insertError) {
-        console.error('❌ Failed to create analysis record:', insertError);
+      let source: PageSource | undefined;
+      try {
+        source = upload ? await storePageSource(upload) : undefined;
+        const job = await enqueueAnalysis({
+          userId,
+          url: validatedUrl.toString(),
+          component,
+          forceBrowserless,
+          weightProfile: weightSelection.profile,
+          customWeights: weightSelection.customWeights,
+          parentAnalysisId: previousAnalysis?.id,
+          source,
+          requiresAuth: !!auth
+        });
+        analysisId = job.id;
+        if (auth) {
+          holdPageAuth(analysisId, auth);
+        }
+      } catch (error) {
+        console.error('❌ Failed to create analysis record:', error);
+        // No job will ever run to delete the upload
+        if (source) {
+          try {
+            await discardPageSource(source);
+          } catch (discardError) {
+            console.error('⚠️ Failed to delete the uploaded page:', discardError);
+          }
+        }
         return NextResponse.json(
           { error: 'Failed to initialize analysis record' },
           { status: 500 }
         );
       }
 
-      analysisId = analysisRecord.id;
-      console.log(`✅ New analysis record created with ID: ${analysisId}`);
+      console.log(`✅ New analysis queued with ID: ${analysisId}`);
     } catch (error) {
       console.error('❌ Database error:', error);
       return NextResponse.json(
@@ -297,446 +271,26 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    // Start processing once the response has been sent. The cron worker
+    // picks up anything this misses (or that fails and is re-queued).
+    after(async () => {
+      await processAnalysisJob(analysisId);
+    });
 
-    // Initialize results object
-    let analysisResult: any = {
-      url: validatedUrl.toString(),
-      pageLoadSpeed: { 
-        score: null, 
-        metrics: { lcp: 0, fcp: 0, cls: 0, tbt: 0, si: 0 },
-        lighthouseScore: 0,
-        issues: [],
-        recommendations: [],
-        loadTime: 0
-      },
-      fontUsage: { score: null, fontFamilies: [], fontCount: 0, systemFontCount: 0, webFontCount: 0, issues: [], recommendations: [] },
-      imageOptimization: { score: null, totalImages: 0, modernFormats: 0, withAltText: 0, appropriatelySized: 0, issues: [], recommendations: [], details: {} },
-      ctaAnalysis: { score: null, ctas: [], issues: [], recommendations: [] },
-      whitespaceAssessment: { 
-        score: null, 
-        metrics: {
-          whitespaceRatio: 0,
-          elementDensityPerSection: {
-            gridSections: 0,
-            maxDensity: 0,
-            averageDensity: 0,
-            totalElements: 0
-          },
-          spacingAnalysis: {
-            headlineSpacing: { adequate: false },
-            ctaSpacing: { adequate: false },
-            contentBlockSpacing: { adequate: false },
-            lineHeight: { adequate: false }
-          },
-          clutterScore: 0,
-          hasAdequateSpacing: false
-        },
-        issues: [],
-        recommendations: [],
-        loadTime: 0
-      },
-      socialProof: { 
-        score: null, 
-        elements: [], 
-        summary: {
-          totalElements: 0,
-          aboveFoldElements: 0,
-          testimonials: 0,
-          reviews: 0,
-          ratings: 0,
-          trustBadges: 0,
-          customerCounts: 0,
-          socialMedia: 0,
-          certifications: 0,
-          partnerships: 0,
-          caseStudies: 0,
-          newsMentions: 0
-        },
-        issues: [], 
-        recommendations: [] 
-      },
-      overallScore: 0,
-      status: 'completed'
-    };
-
-    // Capture screenshot early for visual analysis and user feedback
-    let screenshotResult = null;
-    try {
-      console.log('📸 Capturing page screenshot for analysis...');
-      screenshotResult = await captureAndStoreScreenshot(validatedUrl.toString(), {
-        fullPage: true,
-        format: 'png',
-        quality: 80,
-        viewport: { width: 1920, height: 1080 },
-        puppeteer: { forceBrowserless }
-      });
-      console.log(`✅ Screenshot captured and stored: ${screenshotResult.blobUrl}`);
-      
-      // Store screenshot URL in analysis record
-      if (analysisId) {
-        await supabaseAdmin
-          .from('analyses')
-          .update({ 
-            screenshot_url: screenshotResult.blobUrl
-          })
-          .eq('id', analysisId);
-      }
-    } catch (error) {
-      console.error('⚠️ Screenshot capture failed, continuing with analysis:', error);
-      // Don't fail the entire analysis if screenshot fails
-    }
-
-    const scores: number[] = [];
-
-    // Component-based analysis
-    const shouldRun = (componentName: string) => !component || component === 'all' || component === componentName;
-
-    if (shouldRun('speed') || shouldRun('pageSpeed')) {
-      console.log('🔄 Starting page speed analysis...')
-      try {
-        const browser = await getSharedBrowser(forceBrowserless);
-        const pageSpeedResult = await analyzePageSpeed(validatedUrl.toString(), {
-          puppeteer: { forceBrowserless, browser }
-        });
-        analysisResult.pageLoadSpeed = {
-          score: pageSpeedResult.score,
-          metrics: pageSpeedResult.metrics,
-          issues: pageSpeedResult.issues,
-          recommendations: pageSpeedResult.recommendations,
-          loadTime: pageSpeedResult.loadTime
-        };
-        scores.push(pageSpeedResult.score);
-        console.log(`✅ Page speed analysis complete: Score ${pageSpeedResult.score}`);
-      } catch (error) {
-        console.error('❌ Page speed analysis failed:', error);
-        analysisResult.pageLoadSpeed = {
-          score: 0,
-          metrics: {
-            loadTime: 0,
-            speedDescription: 'Unable to measure',
-            relativeTo: 'Analysis unavailable'
-          },
-          issues: ['Page speed analysis failed due to error'],
-          recommendations: [],
-          loadTime: 0
-        };
-      }
-    }
-
-    if (shouldRun('font')) {
-      console.log('🔄 Starting font usage analysis...')
-      const browser = await getSharedBrowser(forceBrowserless);
-      const fontUsageResult = await analyzeFontUsage(validatedUrl.toString(), {
-        puppeteer: { forceBrowserless, browser }
-      });
-      analysisResult.fontUsage = {
-        score: fontUsageResult.score,
-        fontFamilies: fontUsageResult.fontFamilies,
-        fontCount: fontUsageResult.fontCount,
-        systemFontCount: fontUsageResult.systemFontCount,
-        webFontCount: fontUsageResult.webFontCount,
-        issues: fontUsageResult.issues,
-        recommendations: fontUsageResult.recommendations
-      };
-      scores.push(fontUsageResult.score);
-    }
-
-    if (shouldRun('image')) {
-      console.log('🔄 Starting image optimization analysis...')
-      const browser = await getSharedBrowser(forceBrowserless);
-      const imageOptimizationResult = await analyzeImageOptimization(validatedUrl.toString(), {
-        puppeteer: { forceBrowserless, browser }
-      });
-      analysisResult.imageOptimization = {
-        score: imageOptimizationResult.score,
-        status: imageOptimizationResult.status,
-        totalImages: imageOptimizationResult.totalImages,
-        modernFormats: imageOptimizationResult.modernFormats,
-        withAltText: imageOptimizationResult.withAltText,
-        appropriatelySized: imageOptimizationResult.appropriatelySized,
-        issues: imageOptimizationResult.issues,
-        recommendations: imageOptimizationResult.recommendations,
-        details: imageOptimizationResult.details
-      };
-      if (imageOptimizationResult.score !== null) {
-        scores.push(imageOptimizationResult.score);
-      }
-    }
-
-    if (shouldRun('cta')) {
-      console.log('🔄 Starting CTA analysis...')
-      
-      try {
-        console.log('🎯 Running CTA analysis...');
-        const browser = await getSharedBrowser(forceBrowserless);
-        const ctaResult = await analyzeCTA(validatedUrl.toString(), {
-          puppeteer: { forceBrowserless, browser }
-        });
-        console.log(`✅ CTA analysis complete: ${ctaResult.ctas.length} CTAs found, score: ${ctaResult.score}`);
-        
-        analysisResult.ctaAnalysis = {
-          score: ctaResult.score,
-          ctas: ctaResult.ctas.map(cta => ({
-            text: cta.text,
-            type: cta.type,
-            isAboveFold: cta.isAboveFold,
-            actionStrength: cta.actionStrength,
-            urgency: cta.urgency,
-            visibility: cta.visibility,
-            context: cta.context
-          })),
-          primaryCTA: ctaResult.primaryCTA ? {
-            text: ctaResult.primaryCTA.text,
-            type: ctaResult.primaryCTA.type,
-            actionStrength: ctaResult.primaryCTA.actionStrength,
-            visibility: ctaResult.primaryCTA.visibility,
-            context: ctaResult.primaryCTA.context
-          } : undefined,
-          issues: ctaResult.issues,
-          recommendations: ctaResult.recommendations
-        };
-        scores.push(ctaResult.score);
-      } catch (error) {
-        console.error('❌ CTA analysis failed:', error);
-        analysisResult.ctaAnalysis = {
-          score: 0,
-          ctas: [],
-          issues: ['CTA analysis failed due to error'],
-          recommendations: []
-        };
-      }
-    }
-
-    if (shouldRun('whitespace') || shouldRun('spacing')) {
-      console.log('🔄 Starting whitespace assessment...')
-      try {
-        const whitespaceResult = await analyzeWhitespace(validatedUrl.toString(), {
-          screenshotUrl: screenshotResult?.blobUrl, // Use the captured screenshot
-          puppeteer: { forceBrowserless, browser: await getSharedBrowser(forceBrowserless) }
-        });
-        analysisResult.whitespaceAssessment = {
-          score: whitespaceResult.score,
-          metrics: {
-            whitespaceRatio: whitespaceResult.metrics.whitespaceRatio,
-            elementDensityPerSection: {
-              gridSections: whitespaceResult.metrics.elementDensityPerSection.gridSections,
-              maxDensity: whitespaceResult.metrics.elementDensityPerSection.maxDensity,
-              averageDensity: whitespaceResult.metrics.elementDensityPerSection.averageDensity,
-              totalElements: whitespaceResult.metrics.elementDensityPerSection.totalElements
-            },
-            spacingAnalysis: {
-              headlineSpacing: { adequate: whitespaceResult.metrics.spacingAnalysis.headlineSpacing.adequate },
-              ctaSpacing: { adequate: whitespaceResult.metrics.spacingAnalysis.ctaSpacing.adequate },
-              contentBlockSpacing: { adequate: whitespaceResult.metrics.spacingAnalysis.contentBlockSpacing.adequate },
-              lineHeight: { adequate: whitespaceResult.metrics.spacingAnalysis.lineHeight.adequate }
-            },
-            clutterScore: whitespaceResult.metrics.clutterScore,
-            hasAdequateSpacing: whitespaceResult.metrics.hasAdequateSpacing
-          },
-          issues: whitespaceResult.issues,
-          recommendations: whitespaceResult.recommendations,
-          loadTime: whitespaceResult.loadTime
-        };
-        scores.push(whitespaceResult.score);
-        console.log(`✅ Whitespace assessment complete: Score ${whitespaceResult.score}`);
-      } catch (error) {
-        console.error('❌ Whitespace assessment failed:', error);
-        analysisResult.whitespaceAssessment = {
-          score: 0,
-          metrics: {
-            whitespaceRatio: 0,
-            elementDensityPerSection: {
-              gridSections: 0,
-              maxDensity: 0,
-              averageDensity: 0,
-              totalElements: 0
-            },
-            spacingAnalysis: {
-              headlineSpacing: { adequate: false },
-              ctaSpacing: { adequate: false },
-              contentBlockSpacing: { adequate: false },
-              lineHeight: { adequate: false }
-            },
-            clutterScore: 100,
-            hasAdequateSpacing: false
-          },
-          issues: ['Whitespace assessment failed due to error'],
-          recommendations: [],
-          loadTime: 0
-        };
-      }
-    }
-
-    if (shouldRun('social') || shouldRun('socialProof')) {
-      console.log('🔄 Starting social proof analysis...')
-      try {
-        const browser = await getSharedBrowser(forceBrowserless);
-        const socialProofResult = await analyzeSocialProof(validatedUrl.toString(), {
-          puppeteer: { forceBrowserless, browser }
-        });
-        analysisResult.socialProof = {
-          score: socialProofResult.score,
-          elements: socialProofResult.elements.map(element => ({
-            type: element.type,
-            text: element.text,
-            score: element.score,
-            isAboveFold: element.isAboveFold,
-            hasImage: element.hasImage,
-            hasName: element.hasName,
-            hasCompany: element.hasCompany,
-            hasRating: element.hasRating,
-            credibilityScore: element.credibilityScore,
-            visibility: element.visibility,
-            context: element.context
-          })),
-          summary: socialProofResult.summary,
-          issues: socialProofResult.issues,
-          recommendations: socialProofResult.recommendations
-        };
-        scores.push(socialProofResult.score);
-        console.log(`✅ Social proof analysis complete: ${socialProofResult.elements.length} elements found, score: ${socialProofResult.score}`);
-      } catch (error) {
-        console.error('❌ Social proof analysis failed:', error);
-        analysisResult.socialProof = {
-          score: 0,
-          elements: [],
-          summary: {
-            totalElements: 0,
-            aboveFoldElements: 0,
-            testimonials: 0,
-            reviews: 0,
-            ratings: 0,
-            trustBadges: 0,
-            customerCounts: 0,
-            socialMedia: 0,
-            certifications: 0,
-            partnerships: 0,
-            caseStudies: 0,
-            newsMentions: 0
-          },
-          issues: ['Social proof analysis failed due to error'],
-          recommendations: []
-        };
-      }
-    }
-
-    console.log('📊 Building analysis result object...')
-    // Calculate weighted overall score based on conversion impact
-    const weights = {
-      speed: 0.25,        // Highest - page speed directly impacts conversions
-      cta: 0.25,          // Highest - CTA effectiveness is critical for conversions  
-      socialProof: 0.20,  // High - builds trust and credibility
-      whitespace: 0.15,   // Medium - affects user experience and readability
-      images: 0.10,       // Lower - optimization is important but less conversion-critical
-      fonts: 0.05        // Lowest - mainly affects polish and professionalism
-    };
-    
-    let weightedSum = 0;
-    let totalWeight = 0;
-    
-    if (analysisResult.pageLoadSpeed?.score !== undefined && analysisResult.pageLoadSpeed?.score !== null) {
-      weightedSum += analysisResult.pageLoadSpeed.score * weights.speed;
-      totalWeight += weights.speed;
-    }
-    if (analysisResult.ctaAnalysis?.score !== undefined && analysisResult.ctaAnalysis?.score !== null) {
-      weightedSum += analysisResult.ctaAnalysis.score * weights.cta;
-      totalWeight += weights.cta;
-    }
-    if (analysisResult.socialProof?.score !== undefined && analysisResult.socialProof?.score !== null) {
-      weightedSum += analysisResult.socialProof.score * weights.socialProof;
-      totalWeight += weights.socialProof;
-    }
-    if (analysisResult.whitespaceAssessment?.score !== undefined && analysisResult.whitespaceAssessment?.score !== null) {
-      weightedSum += analysisResult.whitespaceAssessment.score * weights.whitespace;
-      totalWeight += weights.whitespace;
-    }
-    if (analysisResult.imageOptimization?.score !== undefined && analysisResult.imageOptimization?.score !== null) {
-      weightedSum += analysisResult.imageOptimization.score * weights.images;
-      totalWeight += weights.images;
-    }
-    if (analysisResult.fontUsage?.score !== undefined && analysisResult.fontUsage?.score !== null) {
-      weightedSum += analysisResult.fontUsage.score * weights.fonts;
-      totalWeight += weights.fonts;
-    }
-    
-    analysisResult.overallScore = totalWeight > 0 ? Math.round(weightedSum / totalWeight) : 0;
-    
-    console.log(`📊 Score calculation: weightedSum=${weightedSum.toFixed(2)}, totalWeight=${totalWeight.toFixed(2)}, overall=${analysisResult.overallScore}`);
-
-    // Update database record with final results
-    if (analysisId) {
-      console.log('💾 Updating analysis record with results...')
-      const analysisTimeMs = Date.now() - startTime;
-      
-      try {
-        const { error: updateError } = await supabaseAdmin
-          .from('analyses')
-          .update({
-            status: 'completed',
-            page_speed_analysis: analysisResult.pageLoadSpeed,
-            font_analysis: analysisResult.fontUsage,
-            image_analysis: analysisResult.imageOptimization,
-            cta_analysis: analysisResult.ctaAnalysis,
-            whitespace_analysis: analysisResult.whitespaceAssessment,
-            social_proof_analysis: analysisResult.socialProof,
-            overall_score: analysisResult.overallScore,
-            analysis_duration_ms: analysisTimeMs,
-            completed_at: new Date().toISOString()
-          })
-          .eq('id', analysisId);
-
-        if (updateError) {
-          console.error('❌ Failed to update analysis record:', updateError);
-        } else {
-          console.log(`✅ Analysis record updated successfully (${analysisTimeMs}ms)`);
-        }
-      } catch (error) {
-        console.error('❌ Database update error:', error);
-      }
-    }
-
-    console.log(`🎉 Analysis complete! Overall score: ${analysisResult.overallScore}/100`)
-    console.log('📤 Sending response to client...')
+    console.log('📤 Sending queued response to client...')
 
-    await closeSharedBrowser();
-    
     return NextResponse.json({
       success: true,
-      analysis: {
-        ...analysisResult,
-        url_title: pageMetadata.title,
-        url_description: pageMetadata.description,
-        schema: pageMetadata.schema,
-        screenshotUrl: screenshotResult?.blobUrl || null
-      },
       analysisId,
+      status: 'queued',
+      statusUrl: `/api/analyze/${analysisId}/status`,
       fromCache: false,
-      message: 'Analysis completed successfully.'
-    });
+      message: 'Analysis queued. Poll the status URL for progress.'
+    }, { status: 202 });
 
   } catch (error) {
     console.error('💥 Analysis API error:', error);
     
-    // Update database record with error status
-    if (analysisId) {
-      try {
-        const analysisTimeMs = Date.now() - startTime;
-        await supabaseAdmin
-          .from('analyses')
-          .update({
-            status: 'failed',
-            error_message: error instanceof Error ? error.message : 'Unknown error occurred',
-            analysis_duration_ms: analysisTimeMs,
-            completed_at: new Date().toISOString()
-          })
-          .eq('id', analysisId);
-        console.log('💾 Analysis record updated with error status');
-      } catch (dbError) {
-        console.error('❌ Failed to update error status in database:', dbError);
-      }
-    }
-    await closeSharedBrowser();
-    
     return NextResponse.json(
       { error: 'Internal server error' },
       { status: 500 }
@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { processQueuedAnalyses } from '@/lib/analysis-queue';
+
+/**
+ * Queue worker, run by Vercel Cron. Processes queued and re-queued analyses
+ * that were not picked up by the request that created them.
+ */
+export async function GET(request: NextRequest) {
+  const cronSecret = process.env.CRON_SECRET;
+
+  if (!cronSecret || request.headers.get('authorization') !== `Bearer ${cronSecret}`) {
+    return NextResponse.json(
+      { error: 'Unauthorized' },
+      { status: 401 }
+    );
+  }
+
+  try {
+    const limitParam = parseInt(request.nextUrl.searchParams.get('limit') || '1', 10);
+    const limit = Number.isNaN(limitParam) ? 1 : Math.min(Math.max(limitParam, 1), 5);
+
+    console.log(`⚙️ Analysis worker started (limit ${limit})`);
+    const { recovered, processed } = await processQueuedAnalyses({ limit });
+    console.log(`⚙️ Analysis worker finished: ${processed.length} processed, ${recovered} stale jobs recovered`);
+
+    return NextResponse.json({
+      success: true,
+      recovered,
+      processed
+    });
+
+  } catch (error) {
+    console.error('💥 Analysis worker error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getBatchSummary } from '@/lib/batch-analysis';
+
+/**
+ * Per-URL status and scores of a bulk upload
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+
+    if (!id) {
+      return NextResponse.json(
+        { error: 'Batch ID is required' },
+        { status: 400 }
+      );
+    }
+
+    const summary = await getBatchSummary(id);
+
+    if (!summary) {
+      return NextResponse.json(
+        { error: 'Batch not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      ...summary,
+      summaryUrl: summary.status === 'completed' ? `/api/batches/${id}/summary` : null
+    });
+
+  } catch (error) {
+    console.error('Error fetching batch:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
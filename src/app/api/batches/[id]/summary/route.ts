@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getBatchSummary, toBatchSummaryCsv } from '@/lib/batch-analysis';
+
+/**
+ * Download the consolidated summary of a finished bulk upload as CSV
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+
+    if (!id) {
+      return NextResponse.json(
+        { error: 'Batch ID is required' },
+        { status: 400 }
+      );
+    }
+
+    const summary = await getBatchSummary(id);
+
+    if (!summary) {
+      return NextResponse.json(
+        { error: 'Batch not found' },
+        { status: 404 }
+      );
+    }
+
+    if (summary.status !== 'completed') {
+      return NextResponse.json(
+        { error: 'Batch is still running', remaining: summary.remaining },
+        { status: 409 }
+      );
+    }
+
+    return new Response(toBatchSummaryCsv(summary, request.nextUrl.origin), {
+      headers: {
+        'Content-Type': 'text/csv; charset=utf-8',
+        'Content-Disposition': `attachment; filename="landing-page-batch-${id}.csv"`
+      }
+    });
+
+  } catch (error) {
+    console.error('Error exporting batch summary:', error);
+    return NextResponse.json(
+      { error: 'Failed to export batch summary' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,158 @@
+import { POST } from '../route';
+
+// Mock the job queue - the analyses run in the worker
+jest.mock('@/lib/analysis-queue', () => ({
+  enqueueAnalysis: jest.fn(),
+  processAnalysisJob: jest.fn()
+}));
+
+jest.mock('@/lib/client-rate-limit', () => ({
+  limitClientRequest: jest.fn(() => null)
+}));
+
+jest.mock('@/lib/batch-analysis', () => ({
+  ...jest.requireActual('@/lib/batch-analysis'),
+  createBatchRecord: jest.fn(),
+  discardBatch: jest.fn(),
+  releaseBatchJobs: jest.fn()
+}));
+
+jest.mock('@/lib/users', () => ({
+  resolveUserId: jest.fn()
+}));
+
+jest.mock('@/lib/supabase', () => ({
+  supabaseAdmin: { from: jest.fn() }
+}));
+
+describe('/api/batches', () => {
+  const mockEnqueueAnalysis = require('@/lib/analysis-queue').enqueueAnalysis;
+  const mockProcessAnalysisJob = require('@/lib/analysis-queue').processAnalysisJob;
+  const mockCreateBatchRecord = require('@/lib/batch-analysis').createBatchRecord;
+  const mockReleaseBatchJobs = require('@/lib/batch-analysis').releaseBatchJobs;
+  const mockDiscardBatch = require('@/lib/batch-analysis').discardBatch;
+  const mockResolveUserId = require('@/lib/users').resolveUserId;
+  const mockAfter = require('next/server').after;
+  const mockLimitClientRequest = require('@/lib/client-rate-limit').limitClientRequest;
+
+  const createRequest = (body: any) => {
+    const mockRequest = {
+      json: jest.fn().mockResolvedValue(body),
+      method: 'POST',
+      headers: new Map([['Content-Type', 'application/json']]),
+    };
+    return mockRequest as any;
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+
+    let analysisIdCounter = 0;
+    mockEnqueueAnalysis.mockImplementation(() => {
+      analysisIdCounter++;
+      return Promise.resolve({ id: `analysis-${analysisIdCounter}` });
+    });
+    mockProcessAnalysisJob.mockResolvedValue('completed');
+    mockCreateBatchRecord.mockResolvedValue({ id: 'batch-1' });
+    mockReleaseBatchJobs.mockResolvedValue(['analysis-1', 'analysis-2']);
+    mockResolveUserId.mockResolvedValue('test-user-id');
+  });
+
+  it('should answer 429 without queueing anything once the client is over its rate limit', async () => {
+    mockLimitClientRequest.mockReturnValueOnce(require('next/server').NextResponse.json({ error: 'Too many requests. Try again in 60 seconds.' }, { status: 429 }));
+
+    const response = await POST(createRequest({ urls: ['https://a.com'] }));
+
+    expect(response.status).toBe(429);
+    expect(mockLimitClientRequest).toHaveBeenCalledWith(expect.anything(), 'batches');
+    expect(mockEnqueueAnalysis).not.toHaveBeenCalled();
+  });
+
+  it('should queue every URL of an uploaded CSV as a low-priority batch analysis', async () => {
+    const response = await POST(createRequest({
+      name: 'October audit',
+      csv: 'url,label\nhttps://client-a.com,Client A\nclient-b.com,Client B\nnot a url,Broken'
+    }));
+    const data = await response.json();
+
+    expect(response.status).toBe(202);
+    expect(data).toMatchObject({
+      batchId: 'batch-1',
+      itemCount: 2,
+      invalid: [{ row: 4, value: 'not a url' }],
+      statusUrl: '/api/batches/batch-1',
+      dashboardUrl: '/batch/batch-1'
+    });
+    expect(mockCreateBatchRecord).toHaveBeenCalledWith('test-user-id', 'October audit', 2);
+    expect(mockEnqueueAnalysis).toHaveBeenNthCalledWith(2, {
+      userId: 'test-user-id',
+      url: 'https://client-b.com/',
+      forceBrowserless: false,
+      priority: 0,
+      batchId: 'batch-1',
+      batchLabel: 'Client B'
+    });
+    expect(mockReleaseBatchJobs).toHaveBeenCalledWith('batch-1');
+  });
+
+  it('should start on the first released analysis and leave the rest to the worker', async () => {
+    await POST(createRequest({ urls: ['https://a.com', 'https://b.com', 'https://c.com', 'https://d.com'] }));
+
+    expect(mockAfter).toHaveBeenCalled();
+    await mockAfter.mock.calls[0][0]();
+    expect(mockProcessAnalysisJob.mock.calls.map((call: any[]) => call[0])).toEqual(['analysis-1']);
+  });
+
+  it('should accept a list of URLs with labels', async () => {
+    await POST(createRequest({ urls: [{ url: 'https://a.com', label: 'Home' }, 'https://b.com'] }));
+
+    expect(mockEnqueueAnalysis).toHaveBeenNthCalledWith(1, expect.objectContaining({ url: 'https://a.com/', batchLabel: 'Home' }));
+    expect(mockEnqueueAnalysis).toHaveBeenNthCalledWith(2, expect.objectContaining({ url: 'https://b.com/', batchLabel: null }));
+  });
+
+  it('should reject uploads without valid URLs', async () => {
+    const response = await POST(createRequest({ csv: 'url\nnot a url' }));
+    const data = await response.json();
+
+    expect(response.status).toBe(400);
+    expect(data.invalid).toEqual([{ row: 2, value: 'not a url' }]);
+    expect(mockCreateBatchRecord).not.toHaveBeenCalled();
+  });
+
+  it('should reject requests without a csv or urls list', async () => {
+    const response = await POST(createRequest({ url: 'https://a.com' }));
+
+    expect(response.status).toBe(400);
+  });
+
+  it('should reject batches over the URL limit', async () => {
+    const urls = Array.from({ length: 101 }, (_, i) => `https://site-${i}.com`);
+
+    const response = await POST(createRequest({ urls }));
+
+    expect(response.status).toBe(400);
+    expect(mockEnqueueAnalysis).not.toHaveBeenCalled();
+  });
+
+  it('should return 500 when the batch cannot be queued', async () => {
+    mockCreateBatchRecord.mockRejectedValue(new Error('insert failed'));
+
+    const response = await POST(createRequest({ urls: ['https://a.com'] }));
+
+    expect(response.status).toBe(500);
+    expect(mockDiscardBatch).not.toHaveBeenCalled();
+  });
+
+  it('should delete the batch and what it queued when queueing fails partway', async () => {
+    mockEnqueueAnalysis
+      .mockResolvedValueOnce({ id: 'analysis-1' })
+      .mockRejectedValueOnce(new Error('insert failed'));
+
+    const response = await POST(createRequest({ urls: ['https://a.com', 'https://b.com', 'https://c.com'] }));
+
+    expect(response.status).toBe(500);
+    expect(mockEnqueueAnalysis).toHaveBeenCalledTimes(2);
+    expect(mockDiscardBatch).toHaveBeenCalledWith('batch-1');
+    expect(mockAfter).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,134 @@
+import { NextRequest, NextResponse, after } from 'next/server';
+import { enqueueAnalysis, processAnalysisJob } from '@/lib/analysis-queue';
+import {
+  BATCH_PRIORITY,
+  MAX_BATCH_URLS,
+  createBatchRecord,
+  discardBatch,
+  parseBatchCsv,
+  prepareBatchItems,
+  releaseBatchJobs
+} from '@/lib/batch-analysis';
+import { resolveUserId } from '@/lib/users';
+import { limitClientRequest } from '@/lib/client-rate-limit';
+
+/**
+ * Queue a full analysis of every URL in a bulk upload: either `csv` text
+ * with `url,label` rows or a `urls` list of URLs or { url, label } objects.
+ * Analyses are released to the queue a few at a time; poll the status URL
+ * for per-URL progress.
+ */
+export async function POST(request: NextRequest) {
+  console.log('🔥 API /batches endpoint called')
+
+  const limited = limitClientRequest(request, 'batches');
+  if (limited) {
+    return limited;
+  }
+
+  try {
+    const body = await request.json();
+    const { csv, urls, name, email, forceBrowserless = false } = body;
+
+    let rows: Array<{ row: number; url: string; label: string | null }>;
+    if (typeof csv === 'string') {
+      rows = parseBatchCsv(csv);
+    } else if (Array.isArray(urls)) {
+      rows = urls.map((entry: string | { url?: string; label?: string } | null, index: number) => typeof entry === 'string'
+        ? { row: index + 1, url: entry, label: null }
+        : { row: index + 1, url: String(entry?.url ?? ''), label: typeof entry?.label === 'string' ? entry.label : null });
+    } else {
+      return NextResponse.json(
+        { error: 'A csv or urls list is required' },
+        { status: 400 }
+      );
+    }
+
+    const { items, invalid } = prepareBatchItems(rows);
+    console.log(`📋 Received ${rows.length} rows: ${items.length} URLs, ${invalid.length} invalid`)
+
+    if (items.length === 0) {
+      return NextResponse.json(
+        { error: 'No valid URLs found', invalid },
+        { status: 400 }
+      );
+    }
+
+    if (items.length > MAX_BATCH_URLS) {
+      return NextResponse.json(
+        { error: `A batch accepts at most ${MAX_BATCH_URLS} URLs` },
+        { status: 400 }
+      );
+    }
+
+    let userId: string;
+    try {
+      userId = await resolveUserId(email);
+    } catch (error) {
+      return NextResponse.json(
+        { error: error instanceof Error ? error.message : 'Failed to create user record' },
+        { status: 500 }
+      );
+    }
+
+    let batchId: string | undefined;
+    let released: string[];
+    try {
+      const batch = await createBatchRecord(userId, typeof name === 'string' && name.trim() ? name.trim() : null, items.length);
+      batchId = batch.id;
+
+      for (const item of items) {
+        await enqueueAnalysis({
+          userId,
+          url: item.url,
+          forceBrowserless,
+          priority: BATCH_PRIORITY,
+          batchId,
+          batchLabel: item.label
+        });
+      }
+
+      released = await releaseBatchJobs(batchId);
+    } catch (error) {
+      console.error('❌ Failed to queue batch:', error);
+      // Analyses queued before the failure would never be released
+      if (batchId) {
+        await discardBatch(batchId);
+      }
+      return NextResponse.json(
+        { error: 'Failed to initialize batch' },
+        { status: 500 }
+      );
+    }
+
+    console.log(`✅ Batch queued with ID: ${batchId} (${items.length} URLs)`);
+
+    // Start on the first analysis only, so it fits in this function's time
+    // limit; the cron worker picks up the rest as they are queued
+    const [firstId] = released;
+    if (firstId) {
+      after(async () => {
+        await processAnalysisJob(firstId);
+      });
+    }
+
+    return NextResponse.json({
+      success: true,
+      batchId,
+      itemCount: items.length,
+      invalid,
+      status: 'processing',
+      statusUrl: `/api/batches/${batchId}`,
+      dashboardUrl: `/batch/${batchId}`,
+      message: 'Batch queued. Poll the status URL for progress.'
+    }, { status: 202 });
+
+  } catch (error) {
+    console.error('💥 Batches API error:', error);
+
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { supabaseAdmin } from '@/lib/supabase';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+
+    if (!id) {
+      return NextResponse.json(
+        { error: 'Analysis ID is required' },
+        { status: 400 }
+      );
+    }
+
+    const { data: analysis, error } = await supabaseAdmin
+      .from('analyses')
+      .select('id, url, status, job_options, competitive_analysis')
+      .eq('id', id)
+      .single();
+
+    if (error || !analysis || !analysis.job_options?.competitor_urls?.length) {
+      if (error) {
+        console.error('Database error:', error);
+      }
+      return NextResponse.json(
+        { error: 'Comparison not found' },
+        { status: 404 }
+      );
+    }
+
+    const comparison = analysis.competitive_analysis || null;
+
+    return NextResponse.json({
+      analysisId: analysis.id,
+      url: analysis.url,
+      competitorUrls: analysis.job_options.competitor_urls,
+      status: comparison?.status || 'pending',
+      comparison,
+      reportUrl: analysis.status === 'completed' ? `/reports/${analysis.id}` : null
+    });
+
+  } catch (error) {
+    console.error('Error fetching comparison:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
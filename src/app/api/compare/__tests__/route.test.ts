@@ -0,0 +1,147 @@
+import { POST } from '../route';
+
+// Mock the job queue - the analyses run in the worker
+jest.mock('@/lib/analysis-queue', () => ({
+  enqueueAnalysis: jest.fn(),
+  processAnalysisJob: jest.fn()
+}));
+
+jest.mock('@/lib/client-rate-limit', () => ({
+  limitClientRequest: jest.fn(() => null)
+}));
+
+jest.mock('@/lib/users', () => ({
+  resolveUserId: jest.fn()
+}));
+
+jest.mock('@/lib/supabase', () => ({
+  supabaseAdmin: { from: jest.fn() }
+}));
+
+describe('/api/compare', () => {
+  const mockEnqueueAnalysis = require('@/lib/analysis-queue').enqueueAnalysis;
+  const mockProcessAnalysisJob = require('@/lib/analysis-queue').processAnalysisJob;
+  const mockResolveUserId = require('@/lib/users').resolveUserId;
+  const mockAfter = require('next/server').after;
+  const mockLimitClientRequest = require('@/lib/client-rate-limit').limitClientRequest;
+
+  const createRequest = (body: any) => {
+    const mockRequest = {
+      json: jest.fn().mockResolvedValue(body),
+      method: 'POST',
+      headers: new Map([['Content-Type', 'application/json']]),
+    };
+    return mockRequest as any;
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+
+    let analysisIdCounter = 0;
+    mockEnqueueAnalysis.mockImplementation(() => {
+      analysisIdCounter++;
+      return Promise.resolve({ id: `analysis-${analysisIdCounter}` });
+    });
+    mockProcessAnalysisJob.mockResolvedValue('completed');
+    mockResolveUserId.mockResolvedValue('test-user-id');
+  });
+
+  it('should answer 429 without queueing anything once the client is over its rate limit', async () => {
+    mockLimitClientRequest.mockReturnValueOnce(require('next/server').NextResponse.json({ error: 'Too many requests. Try again in 60 seconds.' }, { status: 429 }));
+
+    const response = await POST(createRequest({ url: 'https://example.com', competitorUrls: ['https://rival-one.com'] }));
+
+    expect(response.status).toBe(429);
+    expect(mockLimitClientRequest).toHaveBeenCalledWith(expect.anything(), 'compare');
+    expect(mockEnqueueAnalysis).not.toHaveBeenCalled();
+  });
+
+  it('should queue the primary analysis and one analysis per competitor', async () => {
+    const response = await POST(createRequest({
+      url: 'https://example.com',
+      competitorUrls: ['https://rival-one.com', 'https://rival-two.com']
+    }));
+    const data = await response.json();
+
+    expect(response.status).toBe(202);
+    expect(data.analysisId).toBe('analysis-1');
+    expect(data.competitorAnalysisIds).toEqual(['analysis-2', 'analysis-3']);
+    expect(data.statusUrl).toBe('/api/compare/analysis-1');
+
+    expect(mockEnqueueAnalysis).toHaveBeenNthCalledWith(1, {
+      userId: 'test-user-id',
+      url: 'https://example.com/',
+      forceBrowserless: false,
+      competitorUrls: ['https://rival-one.com/', 'https://rival-two.com/']
+    });
+    expect(mockEnqueueAnalysis).toHaveBeenNthCalledWith(2, expect.objectContaining({
+      url: 'https://rival-one.com/',
+      comparisonId: 'analysis-1'
+    }));
+  });
+
+  it('should process the primary analysis and leave the competitors to the worker', async () => {
+    await POST(createRequest({
+      url: 'https://example.com',
+      competitorUrls: ['https://rival-one.com']
+    }));
+
+    expect(mockAfter).toHaveBeenCalledTimes(1);
+    await mockAfter.mock.calls[0][0]();
+
+    expect(mockProcessAnalysisJob.mock.calls).toEqual([['analysis-1']]);
+  });
+
+  it('should return 400 without competitor URLs', async () => {
+    const response = await POST(createRequest({ url: 'https://example.com', competitorUrls: [] }));
+    const data = await response.json();
+
+    expect(response.status).toBe(400);
+    expect(data.error).toBe('At least one competitor URL is required');
+    expect(mockEnqueueAnalysis).not.toHaveBeenCalled();
+  });
+
+  it('should return 400 for more than 4 competitor URLs', async () => {
+    const response = await POST(createRequest({
+      url: 'https://example.com',
+      competitorUrls: ['https://a.com', 'https://b.com', 'https://c.com', 'https://d.com', 'https://e.com']
+    }));
+    const data = await response.json();
+
+    expect(response.status).toBe(400);
+    expect(data.error).toBe('A comparison accepts at most 4 competitor URLs');
+  });
+
+  it('should return 400 when a competitor URL is invalid', async () => {
+    const response = await POST(createRequest({
+      url: 'https://example.com',
+      competitorUrls: ['not-a-url']
+    }));
+
+    expect(response.status).toBe(400);
+    expect(mockEnqueueAnalysis).not.toHaveBeenCalled();
+  });
+
+  it('should drop duplicate competitors and the primary URL itself', async () => {
+    const response = await POST(createRequest({
+      url: 'https://example.com',
+      competitorUrls: ['https://rival.com', 'https://rival.com/', 'https://example.com']
+    }));
+    const data = await response.json();
+
+    expect(response.status).toBe(202);
+    expect(data.competitorAnalysisIds).toEqual(['analysis-2']);
+  });
+
+  it('should return 500 when the comparison cannot be queued', async () => {
+    mockEnqueueAnalysis.mockRejectedValue(new Error('insert failed'));
+
+    const response = await POST(createRequest({
+      url: 'https://example.com',
+      competitorUrls: ['https://rival.com']
+    }));
+
+    expect(response.status).toBe(500);
+    expect(mockAfter).not.toHaveBeenCalled();
+  });
+});
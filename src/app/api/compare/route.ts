@@ -0,0 +1,133 @@
+import { NextRequest, NextResponse, after } from 'next/server';
+import { enqueueAnalysis, processAnalysisJob } from '@/lib/analysis-queue';
+import { MAX_COMPETITORS } from '@/lib/competitor-comparison';
+import { parseAnalysisUrl, INVALID_URL_MESSAGE } from '@/lib/url-validation';
+import { resolveUserId } from '@/lib/users';
+import { limitClientRequest } from '@/lib/client-rate-limit';
+
+/**
+ * Queue a full analysis of a primary URL and up to MAX_COMPETITORS
+ * competitor URLs. The comparison is stored on the primary analysis and
+ * fills in as each analysis finishes.
+ */
+export async function POST(request: NextRequest) {
+  console.log('🔥 API /compare endpoint called')
+
+  const limited = limitClientRequest(request, 'compare');
+  if (limited) {
+    return limited;
+  }
+
+  try {
+    const body = await request.json();
+    const { url, competitorUrls, email, forceBrowserless = false } = body;
+    console.log(`📋 Received URL: ${url}, competitors: ${Array.isArray(competitorUrls) ? competitorUrls.length : 0}`)
+
+    if (!url) {
+      return NextResponse.json(
+        { error: 'URL is required' },
+        { status: 400 }
+      );
+    }
+
+    if (!Array.isArray(competitorUrls) || competitorUrls.length === 0) {
+      return NextResponse.json(
+        { error: 'At least one competitor URL is required' },
+        { status: 400 }
+      );
+    }
+
+    if (competitorUrls.length > MAX_COMPETITORS) {
+      return NextResponse.json(
+        { error: `A comparison accepts at most ${MAX_COMPETITORS} competitor URLs` },
+        { status: 400 }
+      );
+    }
+
+    let primaryUrl: string;
+    let competitors: string[];
+    try {
+      primaryUrl = parseAnalysisUrl(url).toString();
+      competitors = competitorUrls.map((competitorUrl: string) => parseAnalysisUrl(competitorUrl).toString());
+    } catch (error) {
+      console.log(`❌ URL validation failed: ${error instanceof Error ? error.message : 'invalid format'}`)
+      return NextResponse.json(
+        { error: INVALID_URL_MESSAGE },
+        { status: 400 }
+      );
+    }
+
+    // The primary page never competes with itself, and each competitor is analyzed once
+    competitors = Array.from(new Set(competitors)).filter(competitorUrl => competitorUrl !== primaryUrl);
+    if (competitors.length === 0) {
+      return NextResponse.json(
+        { error: 'Competitor URLs must differ from the URL being compared' },
+        { status: 400 }
+      );
+    }
+
+    let userId: string;
+    try {
+      userId = await resolveUserId(email);
+    } catch (error) {
+      return NextResponse.json(
+        { error: error instanceof Error ? error.message : 'Failed to create user record' },
+        { status: 500 }
+      );
+    }
+
+    let analysisId: string;
+    const competitorAnalysisIds: string[] = [];
+    try {
+      const primaryJob = await enqueueAnalysis({
+        userId,
+        url: primaryUrl,
+        forceBrowserless,
+        competitorUrls: competitors
+      });
+      analysisId = primaryJob.id;
+
+      for (const competitorUrl of competitors) {
+        const competitorJob = await enqueueAnalysis({
+          userId,
+          url: competitorUrl,
+          forceBrowserless,
+          comparisonId: analysisId
+        });
+        competitorAnalysisIds.push(competitorJob.id);
+      }
+    } catch (error) {
+      console.error('❌ Failed to queue comparison:', error);
+      return NextResponse.json(
+        { error: 'Failed to initialize comparison' },
+        { status: 500 }
+      );
+    }
+
+    console.log(`✅ Comparison queued with ID: ${analysisId} (${competitorAnalysisIds.length} competitors)`);
+
+    // Run only the primary analysis here, so it fits in this function's time
+    // limit; the cron worker picks up the competitors
+    after(async () => {
+      await processAnalysisJob(analysisId);
+    });
+
+    return NextResponse.json({
+      success: true,
+      analysisId,
+      competitorAnalysisIds,
+      status: 'queued',
+      statusUrl: `/api/compare/${analysisId}`,
+      reportUrl: `/reports/${analysisId}`,
+      message: 'Comparison queued. Poll the status URL for progress.'
+    }, { status: 202 });
+
+  } catch (error) {
+    console.error('💥 Compare API error:', error);
+
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -335,10 +335,10 @@ describe('/api/email', () => {
 
     it('should use production URL in production environment', async () => {
       const originalEnv = process.env.NODE_ENV;
-      const originalUrl = process.env.VERCEL_URL;
+      const originalUrl = process.env.VERCEL_PROJECT_PRODUCTION_URL;
       
       Object.defineProperty(process.env, 'NODE_ENV', { value: 'production', writable: true });
-      process.env.VERCEL_URL = 'app.lansky.tech';
+      process.env.VERCEL_PROJECT_PRODUCTION_URL = 'app.lansky.tech';
 
       const mockAnalysis = {
         id: 'test-analysis-id',
@@ -373,7 +373,11 @@ describe('/api/email', () => {
 
       // Restore environment
       Object.defineProperty(process.env, 'NODE_ENV', { value: originalEnv, writable: true });
-      process.env.VERCEL_URL = originalUrl;
+      if (originalUrl === undefined) {
+        delete process.env.VERCEL_PROJECT_PRODUCTION_URL;
+      } else {
+        process.env.VERCEL_PROJECT_PRODUCTION_URL = originalUrl;
+      }
     });
   });
 
@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { sendReportEmail } from '@/lib/email-service';
 import { supabaseAdmin } from '@/lib/supabase';
+import { getSiteUrl } from '@/lib/site-url';
 
 export async function POST(request: NextRequest) {
   console.log('📧 API /email endpoint called');
@@ -134,10 +135,7 @@ export async function POST(request: NextRequest) {
     }
 
     // Generate report URL
-    const baseUrl = process.env.NODE_ENV === 'production' 
-      ? `https://${process.env.VERCEL_URL || 'app.lansky.tech'}`
-      : 'http://localhost:3000';
-    const reportUrl = `${baseUrl}/report?id=${analysisId}`;
+    const reportUrl = `${getSiteUrl()}/report?id=${analysisId}`;
 
     console.log(`🔗 Report URL: ${reportUrl}`);
 
@@ -146,6 +144,7 @@ export async function POST(request: NextRequest) {
       id: analysis.id,
       url: analysis.url,
       overallScore: analysis.overall_score || 0,
+      grade: analysis.grade,
       pageSpeed: analysis.page_speed_analysis,
       fonts: analysis.font_analysis,
       images: analysis.image_analysis,
@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { revokeApiKey } from '@/lib/api-keys';
+
+/**
+ * Revoke an API key. Requires the API_ADMIN_SECRET.
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const adminSecret = process.env.API_ADMIN_SECRET;
+
+  if (!adminSecret || request.headers.get('authorization') !== `Bearer ${adminSecret}`) {
+    return NextResponse.json(
+      { error: 'Unauthorized' },
+      { status: 401 }
+    );
+  }
+
+  try {
+    const { id } = await params;
+
+    if (!(await revokeApiKey(id))) {
+      return NextResponse.json(
+        { error: 'API key not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true, id, revoked: true });
+
+  } catch (error) {
+    console.error('💥 API key revocation error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,60 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createApiKey } from '@/lib/api-keys';
+import { resolveUserId } from '@/lib/users';
+
+const isPositiveInteger = (value: unknown) => Number.isInteger(value) && (value as number) > 0;
+
+/**
+ * Issue an API key for the user with an email address. Requires the
+ * API_ADMIN_SECRET; the key is only returned in this response.
+ */
+export async function POST(request: NextRequest) {
+  const adminSecret = process.env.API_ADMIN_SECRET;
+
+  if (!adminSecret || request.headers.get('authorization') !== `Bearer ${adminSecret}`) {
+    return NextResponse.json(
+      { error: 'Unauthorized' },
+      { status: 401 }
+    );
+  }
+
+  try {
+    const body = await request.json();
+    const { email, name, rateLimitPerMinute, dailyQuota } = body;
+
+    if (!email || !name) {
+      return NextResponse.json(
+        { error: 'email and name are required' },
+        { status: 400 }
+      );
+    }
+
+    if ((rateLimitPerMinute !== undefined && !isPositiveInteger(rateLimitPerMinute)) ||
+        (dailyQuota !== undefined && !isPositiveInteger(dailyQuota))) {
+      return NextResponse.json(
+        { error: 'rateLimitPerMinute and dailyQuota must be positive integers' },
+        { status: 400 }
+      );
+    }
+
+    const userId = await resolveUserId(email);
+    const { apiKey, key } = await createApiKey(userId, { name, rateLimitPerMinute, dailyQuota });
+
+    return NextResponse.json({
+      id: apiKey.id,
+      key,
+      keyPrefix: apiKey.key_prefix,
+      name: apiKey.name,
+      rateLimitPerMinute: apiKey.rate_limit_per_minute,
+      dailyQuota: apiKey.daily_quota,
+      message: 'Store this key now; it cannot be shown again.'
+    }, { status: 201 });
+
+  } catch (error) {
+    console.error('💥 API key creation error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
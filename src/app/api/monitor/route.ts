@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { runMonitoring } from '@/lib/monitoring';
+
+/**
+ * Scheduled monitoring, run daily by Vercel Cron. Queues re-scans of
+ * monitored pages that are due and stores a digest of all of them; the
+ * queue worker runs the re-scans and sends score drop alerts.
+ */
+export async function GET(request: NextRequest) {
+  const cronSecret = process.env.CRON_SECRET;
+
+  if (!cronSecret || request.headers.get('authorization') !== `Bearer ${cronSecret}`) {
+    return NextResponse.json(
+      { error: 'Unauthorized' },
+      { status: 401 }
+    );
+  }
+
+  try {
+    const { digestId, pages } = await runMonitoring();
+
+    return NextResponse.json({
+      success: true,
+      digestId,
+      pageCount: pages.length,
+      rescansQueued: pages.filter(page => page.status === 'rescan-queued').length
+    });
+
+  } catch (error) {
+    console.error('💥 Monitoring run error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,93 @@
+import { PATCH } from '../route';
+
+jest.mock('@/lib/recommendation-tracking', () => ({
+  ...jest.requireActual('@/lib/recommendation-tracking'),
+  updateRecommendation: jest.fn()
+}));
+
+jest.mock('@/lib/supabase', () => ({
+  supabaseAdmin: {
+    from: jest.fn()
+  }
+}));
+
+describe('/api/recommendations/[id]', () => {
+  const mockUpdateRecommendation = require('@/lib/recommendation-tracking').updateRecommendation;
+
+  const createRequest = (body: Record<string, unknown>) => ({
+    url: 'http://localhost:3000/api/recommendations/rec-1',
+    method: 'PATCH',
+    json: () => Promise.resolve(body)
+  }) as any;
+
+  const createMockParams = (id: string) => Promise.resolve({ id });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should update the status and notes of a recommendation', async () => {
+    const recommendation = { id: 'rec-1', status: 'implemented', implementation_notes: 'Shipped in the March release' };
+    mockUpdateRecommendation.mockResolvedValue(recommendation);
+
+    const response = await PATCH(
+      createRequest({ status: 'implemented', implementation_notes: '  Shipped in the March release ' }),
+      { params: createMockParams('rec-1') }
+    );
+    const data = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(mockUpdateRecommendation).toHaveBeenCalledWith('rec-1', {
+      status: 'implemented',
+      implementationNotes: 'Shipped in the March release'
+    });
+    expect(data.recommendation).toEqual(recommendation);
+  });
+
+  it('should clear the notes when they are empty', async () => {
+    mockUpdateRecommendation.mockResolvedValue({ id: 'rec-1' });
+
+    await PATCH(createRequest({ implementation_notes: '' }), { params: createMockParams('rec-1') });
+
+    expect(mockUpdateRecommendation).toHaveBeenCalledWith('rec-1', { implementationNotes: null });
+  });
+
+  it('should reject unknown statuses', async () => {
+    const response = await PATCH(createRequest({ status: 'done' }), { params: createMockParams('rec-1') });
+    const data = await response.json();
+
+    expect(response.status).toBe(400);
+    expect(data.error).toContain('suggested, planned, testing, implemented, dismissed');
+    expect(mockUpdateRecommendation).not.toHaveBeenCalled();
+  });
+
+  it('should reject notes that are not text or too long', async () => {
+    const notANote = await PATCH(createRequest({ implementation_notes: 42 }), { params: createMockParams('rec-1') });
+    const tooLong = await PATCH(createRequest({ implementation_notes: 'x'.repeat(2001) }), { params: createMockParams('rec-1') });
+
+    expect(notANote.status).toBe(400);
+    expect(tooLong.status).toBe(400);
+  });
+
+  it('should require something to update', async () => {
+    const response = await PATCH(createRequest({}), { params: createMockParams('rec-1') });
+
+    expect(response.status).toBe(400);
+  });
+
+  it('should return 404 for an unknown recommendation', async () => {
+    mockUpdateRecommendation.mockResolvedValue(null);
+
+    const response = await PATCH(createRequest({ status: 'planned' }), { params: createMockParams('missing') });
+
+    expect(response.status).toBe(404);
+  });
+
+  it('should return 500 when the update fails', async () => {
+    mockUpdateRecommendation.mockRejectedValue(new Error('connection lost'));
+
+    const response = await PATCH(createRequest({ status: 'planned' }), { params: createMockParams('rec-1') });
+
+    expect(response.status).toBe(500);
+  });
+});
@@ -0,0 +1,75 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  MAX_IMPLEMENTATION_NOTES_LENGTH,
+  RECOMMENDATION_STATUSES,
+  isRecommendationStatus,
+  updateRecommendation,
+  type RecommendationUpdate
+} from '@/lib/recommendation-tracking';
+
+/**
+ * Track a recommendation: change its status and/or implementation notes.
+ * Send `implementation_notes: null` (or an empty string) to clear the notes.
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+
+    const body = await request.json();
+    const update: RecommendationUpdate = {};
+
+    if (body.status !== undefined) {
+      if (!isRecommendationStatus(body.status)) {
+        return NextResponse.json(
+          { error: `status must be one of: ${RECOMMENDATION_STATUSES.join(', ')}` },
+          { status: 400 }
+        );
+      }
+      update.status = body.status;
+    }
+
+    if (body.implementation_notes !== undefined) {
+      const notes = body.implementation_notes;
+      if (notes !== null && typeof notes !== 'string') {
+        return NextResponse.json(
+          { error: 'implementation_notes must be a string' },
+          { status: 400 }
+        );
+      }
+      if (notes && notes.length > MAX_IMPLEMENTATION_NOTES_LENGTH) {
+        return NextResponse.json(
+          { error: `implementation_notes must be at most ${MAX_IMPLEMENTATION_NOTES_LENGTH} characters` },
+          { status: 400 }
+        );
+      }
+      update.implementationNotes = notes?.trim() || null;
+    }
+
+    if (update.status === undefined && update.implementationNotes === undefined) {
+      return NextResponse.json(
+        { error: 'Provide a status or implementation_notes to update' },
+        { status: 400 }
+      );
+    }
+
+    const recommendation = await updateRecommendation(id, update);
+    if (!recommendation) {
+      return NextResponse.json(
+        { error: 'Recommendation not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ recommendation });
+
+  } catch (error) {
+    console.error('Error updating recommendation:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
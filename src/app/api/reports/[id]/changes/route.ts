@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { loadAnalysisChanges } from '@/lib/analysis-diff';
+
+/**
+ * What changed since the last scan of the page, for re-scans. `changes` is
+ * null for a first scan.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+
+    if (!id) {
+      return NextResponse.json(
+        { error: 'Analysis ID is required' },
+        { status: 400 }
+      );
+    }
+
+    const changes = await loadAnalysisChanges(id);
+    return NextResponse.json({ changes });
+
+  } catch (error) {
+    console.error('Error fetching analysis changes:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
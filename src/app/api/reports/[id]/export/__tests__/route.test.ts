@@ -0,0 +1,83 @@
+import { GET } from '../route';
+
+// Mock the supabase client
+jest.mock('@/lib/supabase', () => ({
+  supabaseAdmin: {
+    from: jest.fn(),
+  },
+}));
+
+describe('/api/reports/[id]/export', () => {
+  const mockSupabaseFrom = require('@/lib/supabase').supabaseAdmin.from;
+  const mockSupabaseSingle = jest.fn();
+
+  const createRequest = (format?: string) => {
+    const url = new URL('http://localhost:3000/api/reports/analysis-1/export');
+    if (format) {
+      url.searchParams.set('format', format);
+    }
+    return { url: url.toString(), nextUrl: url, method: 'GET' } as any;
+  };
+
+  const createMockParams = (id: string) => Promise.resolve({ id });
+
+  const analysisRow = {
+    id: 'analysis-1',
+    url: 'https://www.example.com/',
+    url_title: 'Example',
+    overall_score: 82,
+    grade: 'B',
+    created_at: '2026-10-01T12:00:00Z',
+    cta_analysis: { score: 88, ctas: [], issues: ['No secondary CTA'], recommendations: [] }
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+
+    const mockChain: any = {
+      select: jest.fn(() => mockChain),
+      eq: jest.fn(() => mockChain),
+      single: mockSupabaseSingle,
+    };
+    mockSupabaseFrom.mockReturnValue(mockChain);
+  });
+
+  it('should export the analysis as JSON by default', async () => {
+    mockSupabaseSingle.mockResolvedValue({ data: analysisRow, error: null });
+
+    const response = await GET(createRequest(), { params: createMockParams('analysis-1') });
+    const data = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(data.exportVersion).toBe('1.0');
+    expect(data.grade).toBe('B');
+    expect(data.modules.cta.issueCount).toBe(1);
+  });
+
+  it('should export a CSV download', async () => {
+    mockSupabaseSingle.mockResolvedValue({ data: analysisRow, error: null });
+
+    const response = await GET(createRequest('csv'), { params: createMockParams('analysis-1') });
+    const csv = await response.text();
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get('Content-Type')).toBe('text/csv; charset=utf-8');
+    expect(response.headers.get('Content-Disposition')).toBe('attachment; filename="landing-page-report-example.com.csv"');
+    expect(csv.split('\r\n')[1]).toContain('analysis-1');
+  });
+
+  it('should reject unknown formats', async () => {
+    const response = await GET(createRequest('xlsx'), { params: createMockParams('analysis-1') });
+
+    expect(response.status).toBe(400);
+    expect(mockSupabaseFrom).not.toHaveBeenCalled();
+  });
+
+  it('should return 404 when the analysis is not completed', async () => {
+    mockSupabaseSingle.mockResolvedValue({ data: null, error: { message: 'No rows found' } });
+
+    const response = await GET(createRequest(), { params: createMockParams('missing') });
+
+    expect(response.status).toBe(404);
+  });
+});
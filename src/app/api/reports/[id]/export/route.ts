@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getExportedAnalysis, isExportFormat, toCsv } from '@/lib/analysis-export';
+import { getReportFilename } from '@/lib/report-filename';
+
+/**
+ * Export a completed analysis in the versioned export format:
+ * ?format=json (default) for the full analysis, ?format=csv for one flat row
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const format = request.nextUrl.searchParams.get('format') || 'json';
+
+    if (!id) {
+      return NextResponse.json(
+        { error: 'Analysis ID is required' },
+        { status: 400 }
+      );
+    }
+
+    if (!isExportFormat(format)) {
+      return NextResponse.json(
+        { error: 'format must be json or csv' },
+        { status: 400 }
+      );
+    }
+
+    const exported = await getExportedAnalysis(id);
+
+    if (!exported) {
+      return NextResponse.json(
+        { error: 'Analysis not found' },
+        { status: 404 }
+      );
+    }
+
+    if (format === 'json') {
+      return NextResponse.json(exported);
+    }
+
+    return new Response(toCsv([exported]), {
+      headers: {
+        'Content-Type': 'text/csv; charset=utf-8',
+        'Content-Disposition': `attachment; filename="${getReportFilename(exported.url, 'csv')}"`
+      }
+    });
+
+  } catch (error) {
+    console.error('Error exporting analysis:', error);
+    return NextResponse.json(
+      { error: 'Failed to export analysis' },
+      { status: 500 }
+    );
+  }
+}
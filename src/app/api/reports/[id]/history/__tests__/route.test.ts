@@ -0,0 +1,115 @@
+import { GET } from '../route';
+
+// Mock the supabase client
+jest.mock('@/lib/supabase', () => ({
+  supabaseAdmin: {
+    from: jest.fn(),
+  },
+}));
+
+jest.mock('@/lib/users', () => ({
+  isAnonymousUser: jest.fn(),
+}));
+
+describe('/api/reports/[id]/history', () => {
+  const mockSupabaseFrom = require('@/lib/supabase').supabaseAdmin.from;
+  const mockIsAnonymousUser = require('@/lib/users').isAnonymousUser;
+  const mockSupabaseSingle = jest.fn();
+  const mockSupabaseLimit = jest.fn();
+  const mockSupabaseEq = jest.fn();
+  const mockSupabaseNot = jest.fn();
+  const mockSupabaseIs = jest.fn();
+
+  const createRequest = () => ({
+    url: 'http://localhost:3000/api/reports/analysis-2/history',
+    method: 'GET',
+  }) as any;
+
+  const createMockParams = (id: string) => Promise.resolve({ id });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+
+    const mockChain: any = {
+      select: jest.fn(() => mockChain),
+      eq: mockSupabaseEq,
+      not: mockSupabaseNot,
+      is: mockSupabaseIs,
+      order: jest.fn(() => mockChain),
+      limit: mockSupabaseLimit,
+      single: mockSupabaseSingle,
+    };
+    mockSupabaseEq.mockReturnValue(mockChain);
+    mockSupabaseNot.mockReturnValue(mockChain);
+    mockSupabaseIs.mockReturnValue(mockChain);
+    mockSupabaseFrom.mockReturnValue(mockChain);
+    mockIsAnonymousUser.mockResolvedValue(false);
+  });
+
+  it('should return the grades of every analysis of the page, oldest first', async () => {
+    mockSupabaseSingle.mockResolvedValue({ data: { url: 'https://example.com/' }, error: null });
+    mockSupabaseLimit.mockResolvedValue({
+      data: [
+        { id: 'analysis-2', overall_score: 88, grade: 'A', created_at: '2024-02-01T00:00:00Z' },
+        { id: 'analysis-1', overall_score: 64, grade: null, created_at: '2024-01-01T00:00:00Z' }
+      ],
+      error: null,
+    });
+
+    const response = await GET(createRequest(), { params: createMockParams('analysis-2') });
+    const data = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(mockSupabaseEq).toHaveBeenCalledWith('url', 'https://example.com/');
+    expect(data.history.map((entry: any) => entry.grade)).toEqual(['C', 'A']);
+    expect(data.history[1]).toEqual({ id: 'analysis-2', overall_score: 88, grade: 'A', created_at: '2024-02-01T00:00:00Z' });
+  });
+
+  it('should only list public analyses for a public report', async () => {
+    mockSupabaseSingle.mockResolvedValue({ data: { url: 'https://example.com/', user_id: null, job_options: {} }, error: null });
+    mockSupabaseLimit.mockResolvedValue({ data: [], error: null });
+
+    await GET(createRequest(), { params: createMockParams('analysis-2') });
+
+    expect(mockSupabaseNot).toHaveBeenCalledWith('url', 'like', 'upload://%');
+    expect(mockSupabaseIs).toHaveBeenCalledWith('job_options->>requires_auth', null);
+  });
+
+  it('should only list the owner\'s credentialed analyses for a credentialed report', async () => {
+    mockSupabaseSingle.mockResolvedValue({
+      data: { url: 'https://staging.example.com/', user_id: 'user-1', job_options: { requires_auth: true } },
+      error: null
+    });
+    mockSupabaseLimit.mockResolvedValue({ data: [], error: null });
+
+    await GET(createRequest(), { params: createMockParams('analysis-2') });
+
+    expect(mockSupabaseNot).toHaveBeenCalledWith('job_options->>requires_auth', 'is', null);
+    expect(mockSupabaseEq).toHaveBeenCalledWith('user_id', 'user-1');
+    expect(mockSupabaseIs).not.toHaveBeenCalled();
+  });
+
+  it('should only list the report itself for a credentialed report requested anonymously', async () => {
+    mockIsAnonymousUser.mockResolvedValue(true);
+    mockSupabaseSingle.mockResolvedValue({
+      data: { url: 'https://staging.example.com/', user_id: 'anonymous-user', job_options: { requires_auth: true } },
+      error: null
+    });
+    mockSupabaseLimit.mockResolvedValue({ data: [], error: null });
+
+    await GET(createRequest(), { params: createMockParams('analysis-2') });
+
+    expect(mockIsAnonymousUser).toHaveBeenCalledWith('anonymous-user');
+    expect(mockSupabaseEq).toHaveBeenCalledWith('id', 'analysis-2');
+    expect(mockSupabaseEq).not.toHaveBeenCalledWith('user_id', 'anonymous-user');
+  });
+
+  it('should return 404 when the analysis does not exist', async () => {
+    mockSupabaseSingle.mockResolvedValue({ data: null, error: { code: 'PGRST116' } });
+
+    const response = await GET(createRequest(), { params: createMockParams('missing') });
+
+    expect(response.status).toBe(404);
+    expect(mockSupabaseLimit).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,97 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { supabaseAdmin } from '@/lib/supabase';
+import { getGrade } from '@/lib/grading';
+import { selectPublicAnalyses } from '@/lib/public-analyses';
+import { isAnonymousUser } from '@/lib/users';
+
+const HISTORY_LIMIT = 20;
+
+const HISTORY_COLUMNS = 'id, overall_score, grade, created_at';
+
+/**
+ * Grade history for the page behind a report: every completed analysis of
+ * the same URL, oldest first. A report made with credentials only lists its
+ * owner's other credentialed analyses, and a public report only public ones.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+
+    if (!id) {
+      return NextResponse.json(
+        { error: 'Analysis ID is required' },
+        { status: 400 }
+      );
+    }
+
+    const { data: analysis, error } = await supabaseAdmin
+      .from('analyses')
+      .select('url, user_id, job_options')
+      .eq('id', id)
+      .single();
+
+    if (error || !analysis) {
+      return NextResponse.json(
+        { error: 'Analysis not found' },
+        { status: 404 }
+      );
+    }
+
+    const isCredentialed = !!analysis.job_options?.requires_auth;
+    // Anonymous requests all share one user, so theirs are not one client's
+    const ownerId = isCredentialed && analysis.user_id && !(await isAnonymousUser(analysis.user_id))
+      ? analysis.user_id
+      : null;
+    const historyQuery = isCredentialed
+      ? selectCredentialedHistory(id, ownerId)
+      : selectPublicAnalyses(HISTORY_COLUMNS);
+
+    const { data: analyses, error: historyError } = await historyQuery
+      .eq('url', analysis.url)
+      .eq('status', 'completed')
+      .not('overall_score', 'is', null)
+      .order('created_at', { ascending: false })
+      .limit(HISTORY_LIMIT);
+
+    if (historyError) {
+      console.error('Database error:', historyError);
+      return NextResponse.json(
+        { error: 'Failed to fetch grade history' },
+        { status: 500 }
+      );
+    }
+
+    const history = (analyses || [])
+      .map(row => ({
+        id: row.id,
+        overall_score: row.overall_score,
+        grade: row.grade || getGrade(row.overall_score),
+        created_at: row.created_at
+      }))
+      .reverse();
+
+    return NextResponse.json({ url: analysis.url, history });
+
+  } catch (error) {
+    console.error('Error fetching grade history:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Query of the credentialed analyses the history of a credentialed report
+ * may show: its owner's, or only the report itself without a known owner
+ */
+function selectCredentialedHistory(id: string, userId: string | null) {
+  const query = supabaseAdmin
+    .from('analyses')
+    .select(HISTORY_COLUMNS)
+    .not('job_options->>requires_auth', 'is', null);
+  return userId ? query.eq('user_id', userId) : query.eq('id', id);
+}
@@ -0,0 +1,104 @@
+import { GET } from '../route';
+
+// Mock the supabase client
+jest.mock('@/lib/supabase', () => ({
+  supabaseAdmin: {
+    from: jest.fn(),
+  },
+}));
+
+jest.mock('@/lib/client-rate-limit', () => ({
+  limitClientRequest: jest.fn(() => null)
+}));
+
+jest.mock('@/lib/report-pdf', () => ({
+  ...jest.requireActual('@/lib/report-pdf'),
+  renderReportPdf: jest.fn(),
+}));
+
+describe('/api/reports/[id]/pdf', () => {
+  const mockSupabaseFrom = require('@/lib/supabase').supabaseAdmin.from;
+  const mockRenderReportPdf = require('@/lib/report-pdf').renderReportPdf;
+  const mockLimitClientRequest = require('@/lib/client-rate-limit').limitClientRequest;
+  const mockSupabaseSingle = jest.fn();
+
+  const createRequest = (origin = 'http://localhost:3000') => ({
+    url: `${origin}/api/reports/analysis-1/pdf`,
+    nextUrl: new URL(`${origin}/api/reports/analysis-1/pdf`),
+    method: 'GET',
+  }) as any;
+
+  const createMockParams = (id: string) => Promise.resolve({ id });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+
+    const mockChain: any = {
+      select: jest.fn(() => mockChain),
+      eq: jest.fn(() => mockChain),
+      single: mockSupabaseSingle,
+    };
+    mockSupabaseFrom.mockReturnValue(mockChain);
+    mockRenderReportPdf.mockResolvedValue(Buffer.from('%PDF-1.4'));
+  });
+
+  it('should render the printable report and return it as a PDF download', async () => {
+    mockSupabaseSingle.mockResolvedValue({ data: { id: 'analysis-1', url: 'https://example.com/' }, error: null });
+
+    const response = await GET(createRequest(), { params: createMockParams('analysis-1') });
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get('Content-Type')).toBe('application/pdf');
+    expect(response.headers.get('Content-Disposition')).toBe('attachment; filename="landing-page-report-example.com.pdf"');
+    expect(mockRenderReportPdf).toHaveBeenCalledWith('http://localhost:3000/reports/analysis-1/print');
+  });
+
+  it('should render the report from this deployment whatever Host the request names', async () => {
+    mockSupabaseSingle.mockResolvedValue({ data: { id: 'analysis-2', url: 'https://example.com/' }, error: null });
+
+    await GET(createRequest('https://attacker.example'), { params: createMockParams('analysis-2') });
+
+    expect(mockRenderReportPdf).toHaveBeenCalledWith('http://localhost:3000/reports/analysis-2/print');
+  });
+
+  it('should serve a report printed recently without rendering it again', async () => {
+    mockSupabaseSingle.mockResolvedValue({ data: { id: 'analysis-4', url: 'https://example.com/' }, error: null });
+
+    await GET(createRequest(), { params: createMockParams('analysis-4') });
+    const response = await GET(createRequest(), { params: createMockParams('analysis-4') });
+
+    expect(response.status).toBe(200);
+    expect(mockRenderReportPdf).toHaveBeenCalledTimes(1);
+  });
+
+  it('should answer 429 without rendering once the client is over its rate limit', async () => {
+    mockLimitClientRequest.mockReturnValueOnce(require('next/server').NextResponse.json({ error: 'Too many requests. Try again in 60 seconds.' }, { status: 429 }));
+
+    const response = await GET(createRequest(), { params: createMockParams('analysis-5') });
+
+    expect(response.status).toBe(429);
+    expect(mockLimitClientRequest).toHaveBeenCalledWith(expect.anything(), 'pdf');
+    expect(mockSupabaseFrom).not.toHaveBeenCalled();
+    expect(mockRenderReportPdf).not.toHaveBeenCalled();
+  });
+
+  it('should return 404 without rendering when the analysis is not completed', async () => {
+    mockSupabaseSingle.mockResolvedValue({ data: null, error: { message: 'No rows found' } });
+
+    const response = await GET(createRequest(), { params: createMockParams('missing') });
+
+    expect(response.status).toBe(404);
+    expect(mockRenderReportPdf).not.toHaveBeenCalled();
+  });
+
+  it('should return 500 when rendering fails', async () => {
+    mockSupabaseSingle.mockResolvedValue({ data: { id: 'analysis-3', url: 'https://example.com/' }, error: null });
+    mockRenderReportPdf.mockRejectedValue(new Error('Browserless connection failed'));
+
+    const response = await GET(createRequest(), { params: createMockParams('analysis-3') });
+    const data = await response.json();
+
+    expect(response.status).toBe(500);
+    expect(data.error).toBe('Failed to generate PDF');
+  });
+});
@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { supabaseAdmin } from '@/lib/supabase';
+import { getReportPdfFilename } from '@/lib/report-pdf';
+import { getReportPdf } from '@/lib/report-pdf-cache';
+import { limitClientRequest } from '@/lib/client-rate-limit';
+
+/**
+ * Download a completed report as a PDF: cover with screenshot and verdict,
+ * priority fixes, every module section and the methodology
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  // Every render that isn't cached opens a browser
+  const limited = limitClientRequest(request, 'pdf');
+  if (limited) {
+    return limited;
+  }
+
+  try {
+    const { id } = await params;
+
+    if (!id) {
+      return NextResponse.json(
+        { error: 'Analysis ID is required' },
+        { status: 400 }
+      );
+    }
+
+    const { data: analysis, error } = await supabaseAdmin
+      .from('analyses')
+      .select('id, url')
+      .eq('id', id)
+      .eq('status', 'completed')
+      .single();
+
+    if (error || !analysis) {
+      return NextResponse.json(
+        { error: 'Analysis not found' },
+        { status: 404 }
+      );
+    }
+
+    const pdf = await getReportPdf(analysis.id);
+
+    return new Response(new Uint8Array(pdf), {
+      headers: {
+        'Content-Type': 'application/pdf',
+        'Content-Disposition': `attachment; filename="${getReportPdfFilename(analysis.url)}"`,
+        'Cache-Control': 'private, max-age=300'
+      }
+    });
+
+  } catch (error) {
+    console.error('Error exporting report PDF:', error);
+    return NextResponse.json(
+      { error: 'Failed to generate PDF' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getAnalysisRecommendations } from '@/lib/recommendation-tracking';
+
+/**
+ * Recommendation checklist of an analysis, highest priority first, with the
+ * status and implementation notes of each recommendation
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+
+    if (!id) {
+      return NextResponse.json(
+        { error: 'Analysis ID is required' },
+        { status: 400 }
+      );
+    }
+
+    const recommendations = await getAnalysisRecommendations(id);
+    if (!recommendations) {
+      return NextResponse.json(
+        { error: 'Analysis not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ recommendations });
+
+  } catch (error) {
+    console.error('Error fetching recommendations:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
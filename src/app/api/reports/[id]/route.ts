@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { supabaseAdmin } from '@/lib/supabase';
+import { ANALYZER_COLUMNS } from '@/lib/analyzers/definitions';
 
 export async function GET(
   request: NextRequest,
@@ -25,15 +26,16 @@ export async function GET(
         url_description,
         schema_data,
         overall_score,
+        grade,
+        module_grades,
+        industry_adjusted_score,
+        scoring_weights,
         screenshot_url,
         created_at,
         status,
-        page_speed_analysis,
-        font_analysis,
-        image_analysis,
-        cta_analysis,
-        whitespace_analysis,
-        social_proof_analysis
+        competitive_analysis,
+        conversion_prediction,
+        ${ANALYZER_COLUMNS}
       `)
       .eq('id', id)
       .eq('status', 'completed')
@@ -0,0 +1,106 @@
+import { GET } from '../route';
+
+jest.mock('@/lib/supabase', () => ({
+  supabaseAdmin: {
+    from: jest.fn()
+  }
+}));
+
+jest.mock('@/lib/recommendation-tracking', () => ({
+  getAnalysisRecommendations: jest.fn()
+}));
+
+describe('/api/reports/[id]/test-plans', () => {
+  const mockSupabaseFrom = require('@/lib/supabase').supabaseAdmin.from;
+  const mockGetAnalysisRecommendations = require('@/lib/recommendation-tracking').getAnalysisRecommendations;
+  const mockSupabaseSingle = jest.fn();
+
+  const createRequest = (query = '') => ({
+    url: `http://localhost:3000/api/reports/analysis-1/test-plans${query}`,
+    method: 'GET'
+  }) as any;
+
+  const createMockParams = (id: string) => Promise.resolve({ id });
+
+  const highImpact = {
+    id: 'rec-1',
+    recommendation_key: 'cta-no-primary',
+    category: 'cta',
+    title: 'Add a prominent primary CTA button.',
+    description: 'Add a prominent primary CTA button.',
+    expected_impact: 'high',
+    status: 'suggested',
+    test_hypothesis: 'Acting on "Add a prominent primary CTA button" will increase conversion rate by at least 15%.',
+    suggested_variants: [
+      { name: 'Control', description: 'Keep the hero section as it is: no primary CTA.' },
+      { name: 'Variant', description: 'Add a prominent primary CTA button.' }
+    ],
+    success_metrics: ['Conversion rate', 'CTA click-through rate'],
+    estimated_lift_percentage: 15
+  };
+  const mediumImpact = { ...highImpact, id: 'rec-2', expected_impact: 'medium', test_hypothesis: null, estimated_lift_percentage: null };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    const mockChain: any = {
+      select: jest.fn(() => mockChain),
+      eq: jest.fn(() => mockChain),
+      single: mockSupabaseSingle
+    };
+    mockSupabaseFrom.mockReturnValue(mockChain);
+    mockSupabaseSingle.mockResolvedValue({
+      data: { id: 'analysis-1', url: 'https://example.com/', created_at: '2026-10-01T12:00:00Z' },
+      error: null
+    });
+    mockGetAnalysisRecommendations.mockResolvedValue([highImpact, mediumImpact]);
+  });
+
+  it('should return a plan per high-impact recommendation with a sample size estimate', async () => {
+    const response = await GET(createRequest('?baselineRate=3&dailyVisitors=1000'), { params: createMockParams('analysis-1') });
+    const data = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(data.baselineRate).toBe(0.03);
+    expect(data.plans).toHaveLength(1);
+    expect(data.plans[0]).toMatchObject({
+      recommendationId: 'rec-1',
+      primaryMetric: 'Conversion rate',
+      sampleSize: { visitorsPerVariant: 24193, estimatedDays: 49 }
+    });
+  });
+
+  it('should leave out sample sizes without a baseline rate', async () => {
+    const response = await GET(createRequest(), { params: createMockParams('analysis-1') });
+    const data = await response.json();
+
+    expect(data.plans[0].sampleSize).toBeNull();
+  });
+
+  it('should download the plans as a Markdown brief', async () => {
+    const response = await GET(createRequest('?format=markdown&baselineRate=3'), { params: createMockParams('analysis-1') });
+    const brief = await response.text();
+
+    expect(response.headers.get('Content-Type')).toBe('text/markdown; charset=utf-8');
+    expect(response.headers.get('Content-Disposition')).toBe('attachment; filename="ab-test-brief-example.com.md"');
+    expect(brief).toContain('## 1. Add a prominent primary CTA button.');
+  });
+
+  it('should reject invalid traffic figures', async () => {
+    const badRate = await GET(createRequest('?baselineRate=75'), { params: createMockParams('analysis-1') });
+    const badVisitors = await GET(createRequest('?baselineRate=3&dailyVisitors=-5'), { params: createMockParams('analysis-1') });
+    const badFormat = await GET(createRequest('?format=pdf'), { params: createMockParams('analysis-1') });
+
+    expect(badRate.status).toBe(400);
+    expect(badVisitors.status).toBe(400);
+    expect(badFormat.status).toBe(400);
+    expect(mockGetAnalysisRecommendations).not.toHaveBeenCalled();
+  });
+
+  it('should return 404 when the analysis does not exist', async () => {
+    mockSupabaseSingle.mockResolvedValue({ data: null, error: { code: 'PGRST116' } });
+
+    const response = await GET(createRequest(), { params: createMockParams('missing') });
+
+    expect(response.status).toBe(404);
+  });
+});
@@ -0,0 +1,89 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { supabaseAdmin } from '@/lib/supabase';
+import { getAnalysisRecommendations } from '@/lib/recommendation-tracking';
+import { toTestBrief, toTestPlan } from '@/lib/test-plans';
+import { getReportFilename } from '@/lib/report-filename';
+import type { TestPlan } from '@/types/database';
+
+/** Highest baseline conversion rate accepted, in percent */
+const MAX_BASELINE_RATE = 50;
+
+/**
+ * A/B test plans for the high-impact recommendations of an analysis.
+ * `baselineRate` (conversion rate in percent) adds a sample size estimate to
+ * each plan, and `dailyVisitors` a test duration. `format=markdown`
+ * downloads the plans as a test brief.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const { searchParams } = new URL(request.url);
+    const format = searchParams.get('format') || 'json';
+    const baselineParam = searchParams.get('baselineRate');
+    const visitorsParam = searchParams.get('dailyVisitors');
+
+    if (format !== 'json' && format !== 'markdown') {
+      return NextResponse.json(
+        { error: 'format must be json or markdown' },
+        { status: 400 }
+      );
+    }
+
+    const baselinePercent = baselineParam ? Number(baselineParam) : null;
+    if (baselinePercent !== null && !(baselinePercent > 0 && baselinePercent <= MAX_BASELINE_RATE)) {
+      return NextResponse.json(
+        { error: `baselineRate must be a conversion rate in percent, above 0 and at most ${MAX_BASELINE_RATE}` },
+        { status: 400 }
+      );
+    }
+
+    const dailyVisitors = visitorsParam ? Number(visitorsParam) : null;
+    if (dailyVisitors !== null && !(Number.isInteger(dailyVisitors) && dailyVisitors > 0)) {
+      return NextResponse.json(
+        { error: 'dailyVisitors must be a positive whole number' },
+        { status: 400 }
+      );
+    }
+
+    const { data: analysis, error } = await supabaseAdmin
+      .from('analyses')
+      .select('id, url, created_at')
+      .eq('id', id)
+      .single();
+
+    if (error || !analysis) {
+      return NextResponse.json(
+        { error: 'Analysis not found' },
+        { status: 404 }
+      );
+    }
+
+    const baselineRate = baselinePercent !== null ? baselinePercent / 100 : null;
+    const recommendations = await getAnalysisRecommendations(id) || [];
+    const plans = recommendations
+      .map(recommendation => toTestPlan(recommendation, { baselineRate, dailyVisitors }))
+      .filter((plan): plan is TestPlan => plan !== null);
+
+    if (format === 'markdown') {
+      const brief = toTestBrief(plans, { url: analysis.url, analyzedAt: analysis.created_at, baselineRate, dailyVisitors });
+      return new Response(brief, {
+        headers: {
+          'Content-Type': 'text/markdown; charset=utf-8',
+          'Content-Disposition': `attachment; filename="${getReportFilename(analysis.url, 'md', 'ab-test-brief')}"`
+        }
+      });
+    }
+
+    return NextResponse.json({ baselineRate, dailyVisitors, plans });
+
+  } catch (error) {
+    console.error('Error building test plans:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
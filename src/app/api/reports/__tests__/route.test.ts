@@ -15,6 +15,8 @@ describe('/api/reports', () => {
   const mockSupabaseRange = jest.fn();
   const mockSupabaseOrder = jest.fn();
   const mockSupabaseGte = jest.fn();
+  const mockSupabaseIn = jest.fn();
+  const mockSupabaseIs = jest.fn();
 
   const createRequest = (searchParams: Record<string, string> = {}) => {
     const url = new URL('http://localhost:3000/api/reports');
@@ -40,6 +42,8 @@ describe('/api/reports', () => {
       range: mockSupabaseRange,
       order: mockSupabaseOrder,
       gte: mockSupabaseGte,
+      in: mockSupabaseIn,
+      is: mockSupabaseIs,
     };
 
     mockSupabaseFrom.mockReturnValue(mockChain);
@@ -49,6 +53,8 @@ describe('/api/reports', () => {
     mockSupabaseRange.mockReturnValue(mockChain);
     mockSupabaseOrder.mockReturnValue(mockChain);
     mockSupabaseGte.mockReturnValue(mockChain);
+    mockSupabaseIn.mockReturnValue(mockChain);
+    mockSupabaseIs.mockReturnValue(mockChain);
   });
 
   describe('GET /api/reports', () => {
@@ -144,6 +150,16 @@ describe('/api/reports', () => {
       expect(mockSupabaseRange).toHaveBeenCalledWith(40, 59); // offset to offset + limit - 1
     });
 
+    it('should fall back to the default page size for a limit that is not a number and cap large ones', async () => {
+      mockSupabaseOrder.mockResolvedValue({ data: [], error: null });
+
+      await GET(createRequest({ limit: 'abc', offset: 'x' }));
+      expect(mockSupabaseRange).toHaveBeenLastCalledWith(0, 49);
+
+      await GET(createRequest({ limit: '100000' }));
+      expect(mockSupabaseRange).toHaveBeenLastCalledWith(0, 99);
+    });
+
     it('should handle sorting parameters', async () => {
       mockSupabaseOrder.mockResolvedValue({
         data: [],
@@ -197,6 +213,103 @@ describe('/api/reports', () => {
       expect(mockSupabaseGte).toHaveBeenCalledWith('overall_score', 80);
     });
 
+    it('should filter by detected industry', async () => {
+      // The industry filter is applied after ordering
+      mockSupabaseOrder.mockReturnValueOnce({
+        eq: jest.fn().mockResolvedValue({ data: [], error: null }),
+      });
+
+      const request = createRequest({
+        industry: 'SaaS'
+      });
+
+      const response = await GET(request);
+      const data = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(data.industry).toBe('saas');
+      expect(mockSupabaseEq).toHaveBeenCalledWith('detected_industry', 'saas');
+    });
+
+    it('should filter by grade', async () => {
+      // The grade filter is applied after ordering
+      mockSupabaseOrder.mockReturnValueOnce({
+        in: jest.fn().mockResolvedValue({ data: [], error: null }),
+      });
+
+      const request = createRequest({
+        grade: 'a,b'
+      });
+
+      const response = await GET(request);
+      const data = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(data.grades).toEqual(['A', 'B']);
+      expect(mockSupabaseIn).toHaveBeenCalledWith('grade', ['A', 'B']);
+    });
+
+    it('should export the filtered reports as CSV', async () => {
+      // The grade filter is applied after ordering
+      const mockExportIn = jest.fn().mockResolvedValue({
+        data: [{ id: 'report-1', url: 'https://example.com', overall_score: 85, grade: 'A', created_at: '2024-01-01T00:00:00Z' }],
+        error: null,
+      });
+      mockSupabaseOrder.mockReturnValueOnce({ in: mockExportIn });
+
+      const request = createRequest({
+        format: 'csv',
+        grade: 'a'
+      });
+
+      const response = await GET(request);
+      const csv = await response.text();
+
+      expect(response.status).toBe(200);
+      expect(response.headers.get('Content-Type')).toBe('text/csv; charset=utf-8');
+      expect(csv.split('\r\n')[0]).toMatch(/^export_version,id,url,/);
+      expect(csv).toContain('report-1');
+      expect(mockExportIn).toHaveBeenCalledWith('grade', ['A']);
+      expect(mockSupabaseRange).toHaveBeenCalledWith(0, 499);
+      // Exports skip the header stats queries
+      expect(mockSupabaseFrom).toHaveBeenCalledTimes(1);
+    });
+
+    it('should cap bulk exports and reject unknown formats', async () => {
+      mockSupabaseOrder.mockResolvedValue({ data: [], error: null });
+
+      const response = await GET(createRequest({ format: 'json', limit: '5000' }));
+      const data = await response.json();
+
+      expect(data.count).toBe(0);
+      expect(mockSupabaseRange).toHaveBeenCalledWith(0, 499);
+
+      const invalid = await GET(createRequest({ format: 'xml' }));
+      expect(invalid.status).toBe(400);
+    });
+
+    it('should leave uploaded pages and pages analyzed with credentials out of the listing', async () => {
+      mockSupabaseOrder.mockResolvedValue({ data: [], error: null });
+
+      await GET(createRequest({ format: 'json' }));
+
+      expect(mockSupabaseNot).toHaveBeenCalledWith('url', 'like', 'upload://%');
+      expect(mockSupabaseIs).toHaveBeenCalledWith('job_options->>requires_auth', null);
+    });
+
+    it('should reject unknown grades', async () => {
+      const request = createRequest({
+        grade: 'E'
+      });
+
+      const response = await GET(request);
+      const data = await response.json();
+
+      expect(response.status).toBe(400);
+      expect(data.error).toBe('grade must be one or more of: A, B, C, D, F');
+      expect(mockSupabaseFrom).not.toHaveBeenCalled();
+    });
+
     it('should return empty results when no reports found', async () => {
       mockSupabaseOrder.mockResolvedValue({
         data: [],
@@ -1,5 +1,22 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { supabaseAdmin } from '@/lib/supabase';
+import { getGrade, parseGradeFilter, type Grade } from '@/lib/grading';
+import { selectPublicAnalyses } from '@/lib/public-analyses';
+import { EXPORT_COLUMNS, EXPORT_FORMAT_VERSION, MAX_EXPORT_ROWS, isExportFormat, toCsv, toExportedAnalysis } from '@/lib/analysis-export';
+
+/** Reports listed per page unless `limit` asks for another number */
+const DEFAULT_PAGE_SIZE = 50;
+
+/** Most reports listed per page */
+const MAX_PAGE_SIZE = 100;
+
+/**
+ * Non-negative whole number from a query parameter, capped at `max`. Falls
+ * back to `fallback` when the parameter is missing or not a number.
+ */
+function parseCount(value: string | null, fallback: number, max: number): number {
+  const parsed = Number.parseInt(value ?? '', 10);
+  return Number.isNaN(parsed) || parsed < 0 ? fallback : Math.min(parsed, max);
+}
 
 export async function GET(request: NextRequest) {
   console.log('📊 API /reports endpoint called');
@@ -7,26 +24,79 @@ export async function GET(request: NextRequest) {
   try {
     // Parse query parameters for pagination and filtering
     const { searchParams } = new URL(request.url);
-    const limit = parseInt(searchParams.get('limit') || '50');
-    const offset = parseInt(searchParams.get('offset') || '0');
+
+    // ?format=json|csv exports the filtered analyses instead of listing them
+    const format = searchParams.get('format');
+    if (format !== null && !isExportFormat(format)) {
+      return NextResponse.json(
+        { error: 'format must be json or csv' },
+        { status: 400 }
+      );
+    }
+
+    const limit = format
+      ? parseCount(searchParams.get('limit'), MAX_EXPORT_ROWS, MAX_EXPORT_ROWS)
+      : parseCount(searchParams.get('limit'), DEFAULT_PAGE_SIZE, MAX_PAGE_SIZE);
+    const offset = parseCount(searchParams.get('offset'), 0, Number.MAX_SAFE_INTEGER);
     const sortBy = searchParams.get('sortBy') || 'created_at';
     const sortOrder = searchParams.get('sortOrder') || 'desc';
     const minScore = searchParams.get('minScore') ? parseInt(searchParams.get('minScore')!) : null;
+    const industry = searchParams.get('industry')?.trim().toLowerCase() || null;
+
+    let grades: Grade[] | null = null;
+    if (searchParams.get('grade')) {
+      try {
+        grades = parseGradeFilter(searchParams.get('grade')!);
+      } catch (error) {
+        return NextResponse.json(
+          { error: error instanceof Error ? error.message : 'Invalid grade' },
+          { status: 400 }
+        );
+      }
+    }
+
+    console.log(`📊 Fetching reports: limit=${limit}, offset=${offset}, sortBy=${sortBy}, sortOrder=${sortOrder}${industry ? `, industry=${industry}` : ''}${grades ? `, grade=${grades.join(',')}` : ''}`);
 
-    console.log(`📊 Fetching reports: limit=${limit}, offset=${offset}, sortBy=${sortBy}, sortOrder=${sortOrder}`);
+    if (format) {
+      let exportQuery = selectPublicAnalyses(EXPORT_COLUMNS)
+        .eq('status', 'completed')
+        .not('overall_score', 'is', null)
+        .range(offset, offset + limit - 1)
+        .order(sortBy, { ascending: sortOrder === 'asc' });
+      if (minScore !== null) {
+        exportQuery = exportQuery.gte('overall_score', minScore);
+      }
+      if (industry) {
+        exportQuery = exportQuery.eq('detected_industry', industry);
+      }
+      if (grades) {
+        exportQuery = exportQuery.in('grade', grades);
+      }
+      const { data: exportRows, error: exportError } = await exportQuery;
+
+      if (exportError) {
+        console.error('❌ Database error:', exportError);
+        return NextResponse.json(
+          { error: 'Failed to fetch reports from database' },
+          { status: 500 }
+        );
+      }
+
+      return exportReports((exportRows || []) as Record<string, any>[], format);
+    }
 
     // Build the query
-    let query = supabaseAdmin
-      .from('analyses')
-      .select(`
-        id,
-        url,
-        url_title,
-        overall_score,
-        screenshot_url,
-        created_at,
-        status
-      `)
+    let query = selectPublicAnalyses(`
+      id,
+      url,
+      url_title,
+      overall_score,
+      grade,
+      screenshot_url,
+      created_at,
+      status,
+      detected_industry
+    `)
       .eq('status', 'completed')
       .not('overall_score', 'is', null)
       .range(offset, offset + limit - 1)
@@ -37,6 +107,14 @@ export async function GET(request: NextRequest) {
       query = query.gte('overall_score', minScore);
     }
 
+    // Filter by detected industry and grade; the header stats below use the same filters
+    if (industry) {
+      query = query.eq('detected_industry', industry);
+    }
+    if (grades) {
+      query = query.in('grade', grades);
+    }
+
     const { data: analyses, error: dbError } = await query;
 
     if (dbError) {
@@ -58,11 +136,16 @@ export async function GET(request: NextRequest) {
     }
 
     // Get total count for pagination
-    const { count, error: countError } = await supabaseAdmin
-      .from('analyses')
-      .select('*', { count: 'exact', head: true })
+    let countQuery = selectPublicAnalyses('*', { count: 'exact', head: true })
       .eq('status', 'completed')
       .not('overall_score', 'is', null);
+    if (industry) {
+      countQuery = countQuery.eq('detected_industry', industry);
+    }
+    if (grades) {
+      countQuery = countQuery.in('grade', grades);
+    }
+    const { count, error: countError } = await countQuery;
 
     if (countError) {
       console.warn('⚠️ Failed to get total count:', countError);
@@ -70,12 +153,17 @@ export async function GET(request: NextRequest) {
 
     // Compute aggregate stats for header metrics
     // Excellent count (90+)
-    const { count: excellentCount, error: excellentError } = await supabaseAdmin
-      .from('analyses')
-      .select('*', { count: 'exact', head: true })
+    let excellentQuery = selectPublicAnalyses('*', { count: 'exact', head: true })
       .eq('status', 'completed')
       .not('overall_score', 'is', null)
       .gte('overall_score', 90);
+    if (industry) {
+      excellentQuery = excellentQuery.eq('detected_industry', industry);
+    }
+    if (grades) {
+      excellentQuery = excellentQuery.in('grade', grades);
+    }
+    const { count: excellentCount, error: excellentError } = await excellentQuery;
 
     if (excellentError) {
       console.warn('⚠️ Failed to get excellent count:', excellentError);
@@ -83,11 +171,16 @@ export async function GET(request: NextRequest) {
 
     // Average score across all completed analyses
     let averageScore: number | null = null;
-    const { data: allScores, error: avgError } = await supabaseAdmin
-      .from('analyses')
-      .select('overall_score')
+    let scoresQuery = selectPublicAnalyses('overall_score')
       .eq('status', 'completed')
       .not('overall_score', 'is', null);
+    if (industry) {
+      scoresQuery = scoresQuery.eq('detected_industry', industry);
+    }
+    if (grades) {
+      scoresQuery = scoresQuery.in('grade', grades);
+    }
+    const { data: allScores, error: avgError } = await scoresQuery;
 
     if (avgError) {
       console.warn('⚠️ Failed to get scores for average:', avgError);
@@ -102,9 +195,12 @@ export async function GET(request: NextRequest) {
       url: analysis.url,
       url_title: analysis.url_title || extractDomainFromUrl(analysis.url),
       overall_score: analysis.overall_score || 0,
+      // Reports from before grades were stored get theirs from the score
+      grade: analysis.grade || getGrade(analysis.overall_score || 0),
       screenshot_url: analysis.screenshot_url,
       created_at: analysis.created_at,
-      status: analysis.status
+      status: analysis.status,
+      detected_industry: analysis.detected_industry
     }));
 
     console.log(`✅ Successfully fetched ${processedReports.length} reports`);
@@ -116,6 +212,8 @@ export async function GET(request: NextRequest) {
       averageScore, // may be null if aggregation failed
       offset,
       limit,
+      industry,
+      grades,
       hasMore: (count || 0) > offset + limit
     });
 
@@ -129,6 +227,27 @@ export async function GET(request: NextRequest) {
   }
 }
 
+function exportReports(analyses: Record<string, any>[], format: 'json' | 'csv') {
+  const exported = analyses.map(toExportedAnalysis);
+  console.log(`📦 Exporting ${exported.length} reports as ${format}`);
+
+  if (format === 'json') {
+    return NextResponse.json({
+      exportVersion: EXPORT_FORMAT_VERSION,
+      exportedAt: new Date().toISOString(),
+      count: exported.length,
+      analyses: exported
+    });
+  }
+
+  return new Response(toCsv(exported), {
+    headers: {
+      'Content-Type': 'text/csv; charset=utf-8',
+      'Content-Disposition': 'attachment; filename="landing-page-reports.csv"'
+    }
+  });
+}
+
 // Helper function to extract domain from URL for fallback titles
 function extractDomainFromUrl(url: string): string {
   try {
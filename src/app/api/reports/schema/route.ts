@@ -0,0 +1,9 @@
+import { NextResponse } from 'next/server';
+import { getExportJsonSchema } from '@/lib/analysis-export';
+
+/**
+ * JSON Schema of the analysis export format
+ */
+export async function GET() {
+  return NextResponse.json(getExportJsonSchema());
+}
@@ -1,23 +1,31 @@
-import { NextResponse } from 'next/server';
-import { supabaseAdmin } from '@/lib/supabase';
+import { NextRequest, NextResponse } from 'next/server';
+import { selectPublicAnalyses } from '@/lib/public-analyses';
 
-export async function GET() {
+export async function GET(request: NextRequest) {
   console.log('🏆 API /top-performers endpoint called');
   
   try {
+    const industry = new URL(request.url).searchParams.get('industry')?.trim().toLowerCase() || null;
+
     // Fetch top 5 analyses with highest overall_score
-    const { data: topPerformers, error } = await supabaseAdmin
-      .from('analyses')
-      .select(`
-        id,
-        url,
-        url_title,
-        overall_score,
-        screenshot_url,
-        created_at
-      `)
+    let query = selectPublicAnalyses(`
+      id,
+      url,
+      url_title,
+      overall_score,
+      screenshot_url,
+      created_at,
+      detected_industry
+    `)
       .eq('status', 'completed')
-      .not('overall_score', 'is', null)
+      .not('overall_score', 'is', null);
+
+    // Optionally only rank pages of one detected industry
+    if (industry) {
+      query = query.eq('detected_industry', industry);
+    }
+
+    const { data: topPerformers, error } = await query
       .order('overall_score', { ascending: false })
       .limit(5);
 
@@ -29,10 +37,11 @@ export async function GET() {
       );
     }
 
-    console.log(`✅ Found ${topPerformers?.length || 0} top performing pages`);
+    console.log(`✅ Found ${topPerformers?.length || 0} top performing pages${industry ? ` in ${industry}` : ''}`);
 
     return NextResponse.json({
-      topPerformers: topPerformers || []
+      topPerformers: topPerformers || [],
+      industry
     });
 
   } catch (error) {
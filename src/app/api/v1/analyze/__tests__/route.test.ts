@@ -0,0 +1,136 @@
+import { POST } from '../route';
+
+jest.mock('@/lib/analysis-queue', () => ({
+  enqueueAnalysis: jest.fn(),
+  processAnalysisJob: jest.fn()
+}));
+
+jest.mock('@/lib/api-auth', () => ({
+  ...jest.requireActual('@/lib/api-auth'),
+  authorizeApiRequest: jest.fn()
+}));
+
+jest.mock('@/lib/supabase', () => ({
+  supabaseAdmin: { from: jest.fn() }
+}));
+
+describe('/api/v1/analyze', () => {
+  const mockEnqueueAnalysis = require('@/lib/analysis-queue').enqueueAnalysis;
+  const mockAuthorizeApiRequest = require('@/lib/api-auth').authorizeApiRequest;
+  const mockSupabaseFrom = require('@/lib/supabase').supabaseAdmin.from;
+  const mockAfter = require('next/server').after;
+  const mockLimit = jest.fn();
+  let mockChain: any;
+
+  const apiKey = { id: 'key-1', user_id: 'api-user', key_prefix: 'lpr_abcdef', rate_limit_per_minute: 10, daily_quota: 200 };
+
+  const createRequest = (body: any) => ({
+    json: jest.fn().mockResolvedValue(body),
+    headers: new Headers({ authorization: 'Bearer lpr_secret' })
+  }) as any;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+
+    mockAuthorizeApiRequest.mockResolvedValue({ apiKey, headers: { 'X-RateLimit-Remaining': '9' } });
+    mockEnqueueAnalysis.mockResolvedValue({ id: 'analysis-1' });
+    mockChain = {
+      select: jest.fn(() => mockChain),
+      eq: jest.fn(() => mockChain),
+      is: jest.fn(() => mockChain),
+      order: jest.fn(() => mockChain),
+      limit: mockLimit
+    };
+    mockSupabaseFrom.mockReturnValue(mockChain);
+    mockLimit.mockResolvedValue({ data: [], error: null });
+  });
+
+  it('should queue an analysis owned by the API key user', async () => {
+    const response = await POST(createRequest({ url: 'https://example.com' }));
+    const data = await response.json();
+
+    expect(response.status).toBe(202);
+    expect(data).toMatchObject({ analysisId: 'analysis-1', status: 'queued', statusUrl: '/api/v1/reports/analysis-1' });
+    expect(response.headers.get('X-RateLimit-Remaining')).toBe('9');
+    expect(mockEnqueueAnalysis).toHaveBeenCalledWith(expect.objectContaining({ userId: 'api-user', url: 'https://example.com/' }));
+    expect(mockAfter).toHaveBeenCalled();
+  });
+
+  it('should return a recent completed analysis instead of running another', async () => {
+    mockLimit.mockResolvedValue({
+      data: [{ id: 'cached-1', status: 'completed', created_at: new Date().toISOString() }],
+      error: null
+    });
+
+    const response = await POST(createRequest({ url: 'https://example.com' }));
+    const data = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(data).toMatchObject({ analysisId: 'cached-1', fromCache: true, reportUrl: '/api/v1/reports/cached-1' });
+    expect(mockEnqueueAnalysis).not.toHaveBeenCalled();
+  });
+
+  it('should only answer from the key owner\'s analyses made without credentials', async () => {
+    await POST(createRequest({ url: 'https://example.com' }));
+
+    expect(mockChain.eq).toHaveBeenCalledWith('user_id', 'api-user');
+    expect(mockChain.is).toHaveBeenCalledWith('job_options->>requires_auth', null);
+  });
+
+  it('should not answer a full analysis with a component-only one or link to it', async () => {
+    mockLimit.mockResolvedValue({
+      data: [
+        { id: 'component-1', status: 'completed', created_at: new Date().toISOString(), job_options: { component: 'cta' } },
+        { id: 'full-1', status: 'completed', created_at: new Date(Date.now() - 48 * 60 * 60 * 1000).toISOString(), job_options: {} }
+      ],
+      error: null
+    });
+
+    const response = await POST(createRequest({ url: 'https://example.com' }));
+
+    expect(response.status).toBe(202);
+    expect(mockEnqueueAnalysis).toHaveBeenCalledWith(expect.objectContaining({ parentAnalysisId: 'full-1' }));
+  });
+
+  it('should link a component analysis to the previous analysis of the same component', async () => {
+    mockLimit.mockResolvedValue({
+      data: [
+        { id: 'full-1', status: 'completed', created_at: new Date().toISOString(), job_options: {} },
+        { id: 'component-1', status: 'completed', created_at: new Date().toISOString(), job_options: { component: 'cta' } }
+      ],
+      error: null
+    });
+
+    await POST(createRequest({ url: 'https://example.com', component: 'cta' }));
+
+    expect(mockEnqueueAnalysis).toHaveBeenCalledWith(expect.objectContaining({ component: 'cta', parentAnalysisId: 'component-1' }));
+  });
+
+  it('should re-scan when forced, linking the previous analysis', async () => {
+    mockLimit.mockResolvedValue({
+      data: [{ id: 'cached-1', status: 'completed', created_at: new Date().toISOString() }],
+      error: null
+    });
+
+    await POST(createRequest({ url: 'https://example.com', forceRescan: true }));
+
+    expect(mockEnqueueAnalysis).toHaveBeenCalledWith(expect.objectContaining({ parentAnalysisId: 'cached-1' }));
+  });
+
+  it('should pass through the 401 or 429 response when the request is not allowed', async () => {
+    const denied = { status: 429, json: jest.fn() };
+    mockAuthorizeApiRequest.mockResolvedValue({ response: denied });
+
+    const response = await POST(createRequest({ url: 'https://example.com' }));
+
+    expect(response).toBe(denied);
+    expect(mockEnqueueAnalysis).not.toHaveBeenCalled();
+  });
+
+  it('should reject invalid URLs', async () => {
+    const response = await POST(createRequest({ url: 'not-a-url' }));
+
+    expect(response.status).toBe(400);
+    expect(mockEnqueueAnalysis).not.toHaveBeenCalled();
+  });
+});
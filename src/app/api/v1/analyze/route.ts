@@ -0,0 +1,116 @@
+import { NextRequest, NextResponse, after } from 'next/server';
+import { supabaseAdmin } from '@/lib/supabase';
+import { enqueueAnalysis, processAnalysisJob } from '@/lib/analysis-queue';
+import { parseWeightSelection } from '@/lib/analyzers/weight-profiles';
+import { applyApiHeaders, authorizeApiRequest } from '@/lib/api-auth';
+import { parseAnalysisUrl, INVALID_URL_MESSAGE } from '@/lib/url-validation';
+
+/** Completed analyses of the same URL newer than this are returned instead of re-running */
+const CACHE_MAX_AGE_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Queue an analysis for the API key's owner. The owner's full analysis of the
+ * same URL from the last 24 hours is returned instead unless `forceRescan` is
+ * set.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const auth = await authorizeApiRequest(request, 'POST /api/v1/analyze');
+    if ('response' in auth) {
+      return auth.response;
+    }
+    const respond = (data: unknown, status = 200) => applyApiHeaders(NextResponse.json(data, { status }), auth.headers);
+
+    let body: any;
+    try {
+      body = await request.json();
+    } catch {
+      return respond({ error: 'Request body must be JSON' }, 400);
+    }
+    const { url, component, forceRescan = false, forceBrowserless = false, weightProfile, customWeights } = body || {};
+
+    if (!url) {
+      return respond({ error: 'URL is required' }, 400);
+    }
+
+    let validatedUrl: URL;
+    try {
+      validatedUrl = parseAnalysisUrl(url);
+    } catch {
+      return respond({ error: INVALID_URL_MESSAGE }, 400);
+    }
+
+    let weightSelection: ReturnType<typeof parseWeightSelection>;
+    try {
+      weightSelection = parseWeightSelection(weightProfile, customWeights);
+    } catch (error) {
+      return respond({ error: error instanceof Error ? error.message : 'Invalid weight profile' }, 400);
+    }
+
+    const { data: existingAnalyses } = await supabaseAdmin
+      .from('analyses')
+      .select('id, status, created_at, job_options')
+      .eq('url', validatedUrl.toString())
+      // Reports are only readable by their owner, and an analysis made with
+      // credentials is never served to a request without them
+      .eq('user_id', auth.apiKey.user_id)
+      .is('job_options->>requires_auth', null)
+      .order('created_at', { ascending: false })
+      .limit(5);
+
+    // A component-only analysis is neither a full report nor comparable with
+    // one, so it only stands in for another analysis of the same component
+    const latestCompleted = existingAnalyses?.find(analysis =>
+      analysis.status === 'completed' && (analysis.job_options?.component ?? null) === (component ?? null)
+    );
+    // Only a plain full analysis can be answered from the cache
+    const canUseCache = !forceRescan && !component && !weightSelection.profile;
+    if (canUseCache && latestCompleted && Date.now() - new Date(latestCompleted.created_at).getTime() < CACHE_MAX_AGE_MS) {
+      return respond({
+        success: true,
+        analysisId: latestCompleted.id,
+        status: 'completed',
+        fromCache: true,
+        reportUrl: `/api/v1/reports/${latestCompleted.id}`
+      });
+    }
+
+    let analysisId: string;
+    try {
+      const job = await enqueueAnalysis({
+        userId: auth.apiKey.user_id,
+        url: validatedUrl.toString(),
+        component,
+        forceBrowserless,
+        weightProfile: weightSelection.profile,
+        customWeights: weightSelection.customWeights,
+        parentAnalysisId: latestCompleted?.id
+      });
+      analysisId = job.id;
+    } catch (error) {
+      console.error('❌ Failed to queue API analysis:', error);
+      return respond({ error: 'Failed to initialize analysis record' }, 500);
+    }
+
+    console.log(`✅ API analysis queued with ID: ${analysisId} (key ${auth.apiKey.key_prefix}…)`);
+
+    after(async () => {
+      await processAnalysisJob(analysisId);
+    });
+
+    return respond({
+      success: true,
+      analysisId,
+      status: 'queued',
+      fromCache: false,
+      statusUrl: `/api/v1/reports/${analysisId}`
+    }, 202);
+
+  } catch (error) {
+    console.error('💥 API v1 analyze error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
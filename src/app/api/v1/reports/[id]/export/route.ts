@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getExportedAnalysis, isExportFormat, toCsv } from '@/lib/analysis-export';
+import { applyApiHeaders, authorizeApiRequest } from '@/lib/api-auth';
+import { getReportFilename } from '@/lib/report-filename';
+
+/**
+ * Export one of the API key owner's completed analyses as JSON (default) or CSV
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const auth = await authorizeApiRequest(request, 'GET /api/v1/reports/:id/export');
+    if ('response' in auth) {
+      return auth.response;
+    }
+    const respond = (data: unknown, status = 200) => applyApiHeaders(NextResponse.json(data, { status }), auth.headers);
+
+    const { id } = await params;
+    const format = request.nextUrl.searchParams.get('format') || 'json';
+
+    if (!isExportFormat(format)) {
+      return respond({ error: 'format must be json or csv' }, 400);
+    }
+
+    const exported = await getExportedAnalysis(id, auth.apiKey.user_id);
+
+    if (!exported) {
+      return respond({ error: 'Analysis not found' }, 404);
+    }
+
+    if (format === 'json') {
+      return respond(exported);
+    }
+
+    return applyApiHeaders(new Response(toCsv([exported]), {
+      headers: {
+        'Content-Type': 'text/csv; charset=utf-8',
+        'Content-Disposition': `attachment; filename="${getReportFilename(exported.url, 'csv')}"`
+      }
+    }), auth.headers);
+
+  } catch (error) {
+    console.error('💥 API v1 export error:', error);
+    return NextResponse.json(
+      { error: 'Failed to export analysis' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,55 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { supabaseAdmin } from '@/lib/supabase';
+import { calculateProgressPercent } from '@/lib/analysis-queue';
+import { getExportedAnalysis } from '@/lib/analysis-export';
+import { applyApiHeaders, authorizeApiRequest } from '@/lib/api-auth';
+
+/**
+ * Status of one of the API key owner's analyses, with the full analysis in
+ * the versioned export format once it has completed
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const auth = await authorizeApiRequest(request, 'GET /api/v1/reports/:id');
+    if ('response' in auth) {
+      return auth.response;
+    }
+    const respond = (data: unknown, status = 200) => applyApiHeaders(NextResponse.json(data, { status }), auth.headers);
+
+    const { id } = await params;
+
+    const { data: analysis, error } = await supabaseAdmin
+      .from('analyses')
+      .select('id, url, status, progress, error_message, created_at, completed_at')
+      .eq('id', id)
+      .eq('user_id', auth.apiKey.user_id)
+      .single();
+
+    if (error || !analysis) {
+      return respond({ error: 'Analysis not found' }, 404);
+    }
+
+    const isCompleted = analysis.status === 'completed';
+
+    return respond({
+      id: analysis.id,
+      url: analysis.url,
+      status: analysis.status,
+      percent: isCompleted ? 100 : calculateProgressPercent(analysis.progress),
+      error: analysis.status === 'failed' ? analysis.error_message || null : null,
+      createdAt: analysis.created_at,
+      completedAt: analysis.completed_at,
+      analysis: isCompleted ? await getExportedAnalysis(id) : null
+    });
+
+  } catch (error) {
+    console.error('💥 API v1 report error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,64 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { supabaseAdmin } from '@/lib/supabase';
+import { applyApiHeaders, authorizeApiRequest } from '@/lib/api-auth';
+
+const DEFAULT_PAGE_SIZE = 20;
+const MAX_PAGE_SIZE = 100;
+
+/**
+ * Analyses requested with the API key owner's keys, newest first
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await authorizeApiRequest(request, 'GET /api/v1/reports');
+    if ('response' in auth) {
+      return auth.response;
+    }
+    const respond = (data: unknown, status = 200) => applyApiHeaders(NextResponse.json(data, { status }), auth.headers);
+
+    const { searchParams } = request.nextUrl;
+    const limitParam = parseInt(searchParams.get('limit') || String(DEFAULT_PAGE_SIZE), 10);
+    const offsetParam = parseInt(searchParams.get('offset') || '0', 10);
+    const limit = Number.isNaN(limitParam) ? DEFAULT_PAGE_SIZE : Math.min(Math.max(limitParam, 1), MAX_PAGE_SIZE);
+    const offset = Number.isNaN(offsetParam) ? 0 : Math.max(offsetParam, 0);
+
+    const { data: analyses, count, error } = await supabaseAdmin
+      .from('analyses')
+      .select('id, url, url_title, status, overall_score, grade, created_at, completed_at', { count: 'exact' })
+      .eq('user_id', auth.apiKey.user_id)
+      .order('created_at', { ascending: false })
+      .range(offset, offset + limit - 1);
+
+    if (error) {
+      console.error('❌ Database error:', error);
+      return respond({ error: 'Failed to fetch reports' }, 500);
+    }
+
+    const reports = (analyses || []).map(analysis => ({
+      id: analysis.id,
+      url: analysis.url,
+      title: analysis.url_title || null,
+      status: analysis.status,
+      overallScore: analysis.status === 'completed' ? analysis.overall_score : null,
+      grade: analysis.status === 'completed' ? analysis.grade ?? null : null,
+      createdAt: analysis.created_at,
+      completedAt: analysis.completed_at,
+      reportUrl: `/api/v1/reports/${analysis.id}`
+    }));
+
+    return respond({
+      reports,
+      total: count ?? reports.length,
+      offset,
+      limit,
+      hasMore: (count ?? 0) > offset + limit
+    });
+
+  } catch (error) {
+    console.error('💥 API v1 reports error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
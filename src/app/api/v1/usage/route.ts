@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { applyApiHeaders, authorizeApiRequest } from '@/lib/api-auth';
+import { countRequestsToday, getQuotaDayStart } from '@/lib/api-keys';
+
+/**
+ * The API key's limits and today's metered usage, this request included
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await authorizeApiRequest(request, 'GET /api/v1/usage');
+    if ('response' in auth) {
+      return auth.response;
+    }
+
+    const { apiKey } = auth;
+    const now = new Date();
+    const used = await countRequestsToday(apiKey.id, now);
+    const resetsAt = new Date(getQuotaDayStart(now).getTime() + 24 * 60 * 60 * 1000);
+
+    return applyApiHeaders(NextResponse.json({
+      key: {
+        id: apiKey.id,
+        name: apiKey.name,
+        prefix: apiKey.key_prefix,
+        rateLimitPerMinute: apiKey.rate_limit_per_minute,
+        dailyQuota: apiKey.daily_quota
+      },
+      today: {
+        requests: used,
+        remaining: Math.max(apiKey.daily_quota - used, 0),
+        resetsAt: resetsAt.toISOString()
+      }
+    }), auth.headers);
+
+  } catch (error) {
+    console.error('💥 API v1 usage error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
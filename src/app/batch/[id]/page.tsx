@@ -0,0 +1,200 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { useParams } from 'next/navigation'
+import Link from 'next/link'
+import { getGradeVerdict } from '@/lib/verdict'
+import type { BatchItem, BatchSummary } from '@/types/database'
+
+const POLL_INTERVAL_MS = 5000
+
+const STATUS_LABELS: Record<BatchItem['status'], { text: string; className: string }> = {
+  pending: { text: 'Waiting', className: 'bg-gray-700 text-gray-300' },
+  queued: { text: 'Queued', className: 'bg-gray-700 text-gray-200' },
+  processing: { text: 'Analyzing', className: 'bg-blue-500/20 text-blue-300' },
+  completed: { text: 'Done', className: 'bg-green-500/20 text-green-300' },
+  failed: { text: 'Failed', className: 'bg-red-500/20 text-red-300' }
+}
+
+type BatchResponse = BatchSummary & { summaryUrl: string | null }
+
+/**
+ * Dashboard of a bulk upload: per-URL status and scores, refreshed until
+ * every analysis has finished
+ */
+export default function BatchDashboardPage() {
+  const params = useParams()
+  const [batch, setBatch] = useState<BatchResponse | null>(null)
+  const [error, setError] = useState('')
+
+  useEffect(() => {
+    let timer: ReturnType<typeof setTimeout> | undefined
+    let cancelled = false
+
+    const fetchBatch = async () => {
+      try {
+        const response = await fetch(`/api/batches/${params.id}`)
+        if (!response.ok) {
+          throw new Error('Failed to fetch batch')
+        }
+        const data: BatchResponse = await response.json()
+        if (cancelled) {
+          return
+        }
+        setBatch(data)
+        setError('')
+        if (data.status !== 'completed') {
+          timer = setTimeout(fetchBatch, POLL_INTERVAL_MS)
+        }
+      } catch (err) {
+        console.error('Error fetching batch:', err)
+        if (!cancelled) {
+          setError('The requested batch could not be found.')
+        }
+      }
+    }
+
+    fetchBatch()
+    return () => {
+      cancelled = true
+      clearTimeout(timer)
+    }
+  }, [params.id])
+
+  if (error) {
+    return (
+      <div className="min-h-screen bg-[var(--color-bg-main)] py-12">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 text-center">
+          <h2 className="text-2xl font-bold text-gray-100 mb-2">Batch Not Found</h2>
+          <p className="text-gray-400">{error}</p>
+        </div>
+      </div>
+    )
+  }
+
+  if (!batch) {
+    return (
+      <div className="min-h-screen bg-[var(--color-bg-main)] py-12">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-brand-yellow mx-auto"></div>
+          <p className="text-gray-400 mt-4">Loading batch...</p>
+        </div>
+      </div>
+    )
+  }
+
+  const finished = batch.completed + batch.failed
+  const percent = batch.total > 0 ? Math.round((finished / batch.total) * 100) : 0
+
+  return (
+    <div className="min-h-screen bg-[var(--color-bg-main)] py-12">
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+        {/* Back Link */}
+        <div className="mb-6">
+          <Link
+            href="/batch"
+            className="inline-flex items-center text-blue-400 hover:text-blue-300 transition-colors text-sm font-medium"
+          >
+            <svg className="w-4 h-4 mr-2" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 19l-7-7 7-7" />
+            </svg>
+            New Batch
+          </Link>
+        </div>
+
+        {/* Header */}
+        <div className="flex flex-col md:flex-row md:items-end md:justify-between gap-4 mb-8">
+          <div>
+            <h1 className="text-3xl font-bold text-gray-100 mb-2">{batch.name || 'Bulk Analysis'}</h1>
+            <p className="text-gray-400">
+              {batch.status === 'completed'
+                ? `Finished ${batch.completedAt ? new Date(batch.completedAt).toLocaleString() : ''}`
+                : `Analyzing ${batch.total} pages, a few at a time. This page updates automatically.`}
+            </p>
+          </div>
+          {batch.summaryUrl && (
+            <a
+              href={batch.summaryUrl}
+              className="inline-flex items-center px-6 py-3 bg-brand-yellow text-gray-900 font-semibold rounded-lg hover:bg-yellow-500 transition-colors"
+            >
+              Download Summary (CSV)
+            </a>
+          )}
+        </div>
+
+        {/* Stats */}
+        <div className="bg-gray-800 rounded-lg p-6 mb-8">
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-6 text-center">
+            <div>
+              <div className="text-3xl font-bold text-brand-yellow">{finished}/{batch.total}</div>
+              <div className="text-gray-400">Finished</div>
+            </div>
+            <div>
+              <div className="text-3xl font-bold text-green-500">{batch.completed}</div>
+              <div className="text-gray-400">Completed</div>
+            </div>
+            <div>
+              <div className="text-3xl font-bold text-red-400">{batch.failed}</div>
+              <div className="text-gray-400">Failed</div>
+            </div>
+            <div>
+              <div className="text-3xl font-bold text-blue-500">{batch.averageScore ?? '–'}</div>
+              <div className="text-gray-400">Average Score</div>
+            </div>
+          </div>
+          <div className="mt-6 h-2 bg-gray-700 rounded-full overflow-hidden">
+            <div className="h-full bg-brand-yellow transition-all duration-500" style={{ width: `${percent}%` }} />
+          </div>
+        </div>
+
+        {/* Per-URL status */}
+        <div className="bg-gray-800 rounded-lg overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-gray-400 border-b border-gray-700">
+                <th className="px-4 py-3 font-medium">Page</th>
+                <th className="px-4 py-3 font-medium">Status</th>
+                <th className="px-4 py-3 font-medium text-right">Score</th>
+                <th className="px-4 py-3 font-medium">Grade</th>
+                <th className="px-4 py-3 font-medium"></th>
+              </tr>
+            </thead>
+            <tbody>
+              {batch.items.map(item => {
+                const status = STATUS_LABELS[item.status]
+                const verdict = item.grade ? getGradeVerdict(item.grade) : null
+                return (
+                  <tr key={item.analysisId} className="border-b border-gray-700/50 last:border-0">
+                    <td className="px-4 py-3">
+                      {item.label && <div className="text-gray-100 font-medium">{item.label}</div>}
+                      <div className="text-gray-400 break-all">{item.url}</div>
+                      {item.error && <div className="text-red-400 text-xs mt-1">{item.error}</div>}
+                    </td>
+                    <td className="px-4 py-3">
+                      <span className={`px-2 py-1 rounded-full text-xs font-medium ${status.className}`}>{status.text}</span>
+                    </td>
+                    <td className="px-4 py-3 text-right text-gray-100 font-semibold">
+                      {item.overallScore ?? '–'}
+                    </td>
+                    <td className="px-4 py-3">
+                      {verdict && (
+                        <span className={`px-2 py-1 rounded-full text-xs font-semibold ${verdict.bgClass} ${verdict.colorClass}`}>{verdict.grade}</span>
+                      )}
+                    </td>
+                    <td className="px-4 py-3 text-right">
+                      {item.status === 'completed' && (
+                        <Link href={`/reports/${item.analysisId}`} className="text-blue-400 hover:text-blue-300">
+                          View report
+                        </Link>
+                      )}
+                    </td>
+                  </tr>
+                )
+              })}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  )
+}
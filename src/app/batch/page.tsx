@@ -0,0 +1,161 @@
+'use client'
+
+import { useState } from 'react'
+import { useRouter } from 'next/navigation'
+import Link from 'next/link'
+
+interface InvalidRow {
+  row: number
+  value: string
+}
+
+const MAX_UPLOAD_BYTES = 1024 * 1024
+
+/**
+ * Bulk analysis: paste URLs or upload a CSV of `url,label` rows
+ */
+export default function BatchUploadPage() {
+  const router = useRouter()
+  const [name, setName] = useState('')
+  const [csv, setCsv] = useState('')
+  const [submitting, setSubmitting] = useState(false)
+  const [error, setError] = useState('')
+  const [invalid, setInvalid] = useState<InvalidRow[]>([])
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    if (!file) {
+      return
+    }
+    if (file.size > MAX_UPLOAD_BYTES) {
+      setError('The CSV file is too large')
+      return
+    }
+    setError('')
+    setCsv(await file.text())
+    if (!name) {
+      setName(file.name.replace(/\.csv$/i, ''))
+    }
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setError('')
+    setInvalid([])
+
+    if (!csv.trim()) {
+      setError('Please enter at least one URL')
+      return
+    }
+
+    setSubmitting(true)
+    try {
+      const response = await fetch('/api/batches', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ csv, name })
+      })
+      const data = await response.json()
+
+      if (!response.ok) {
+        setError(data.error || 'Failed to start the batch')
+        setInvalid(data.invalid || [])
+        return
+      }
+
+      router.push(data.dashboardUrl)
+    } catch (err) {
+      console.error('Error starting batch:', err)
+      setError('Failed to start the batch')
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  return (
+    <div className="min-h-screen bg-[var(--color-bg-main)] py-12">
+      <div className="max-w-3xl mx-auto px-4 sm:px-6 lg:px-8">
+        {/* Back Link */}
+        <div className="mb-6">
+          <Link
+            href="/"
+            className="inline-flex items-center text-blue-400 hover:text-blue-300 transition-colors text-sm font-medium"
+          >
+            <svg className="w-4 h-4 mr-2" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 19l-7-7 7-7" />
+            </svg>
+            Back
+          </Link>
+        </div>
+
+        <div className="text-center mb-10">
+          <h1 className="text-4xl font-bold text-gray-100 mb-4">Bulk Analysis</h1>
+          <p className="text-lg text-gray-400">
+            Analyze up to 100 pages at once. Enter one URL per line, optionally followed by a comma and a label, or upload a CSV with <code className="text-gray-300">url</code> and <code className="text-gray-300">label</code> columns.
+          </p>
+        </div>
+
+        <form onSubmit={handleSubmit} className="bg-gray-800 rounded-lg p-6 space-y-5">
+          <div>
+            <label htmlFor="batch-name" className="block text-sm font-medium text-gray-300 mb-2">Batch name (optional)</label>
+            <input
+              id="batch-name"
+              type="text"
+              value={name}
+              onChange={e => setName(e.target.value)}
+              placeholder="Client audit, October"
+              className="w-full px-4 py-3 bg-gray-700/50 border border-gray-600 text-gray-100 rounded-lg focus:ring-2 focus:ring-[#FFCC00] focus:border-[#FFCC00] outline-none placeholder-gray-400"
+              disabled={submitting}
+            />
+          </div>
+
+          <div>
+            <label htmlFor="batch-urls" className="block text-sm font-medium text-gray-300 mb-2">URLs</label>
+            <textarea
+              id="batch-urls"
+              value={csv}
+              onChange={e => setCsv(e.target.value)}
+              rows={10}
+              placeholder={'https://client-a.com, Client A home\nhttps://client-a.com/pricing, Client A pricing\nclient-b.com'}
+              className="w-full px-4 py-3 bg-gray-700/50 border border-gray-600 text-gray-100 rounded-lg focus:ring-2 focus:ring-[#FFCC00] focus:border-[#FFCC00] outline-none placeholder-gray-500 font-mono text-sm"
+              disabled={submitting}
+            />
+          </div>
+
+          <div>
+            <label htmlFor="batch-file" className="block text-sm font-medium text-gray-300 mb-2">Or upload a CSV</label>
+            <input
+              id="batch-file"
+              type="file"
+              accept=".csv,text/csv"
+              onChange={handleFile}
+              className="text-sm text-gray-400 file:mr-4 file:px-4 file:py-2 file:rounded-lg file:border-0 file:bg-gray-700 file:text-gray-200 hover:file:bg-gray-600"
+              disabled={submitting}
+            />
+          </div>
+
+          {error && (
+            <div className="text-red-400 text-sm">
+              <p>{error}</p>
+              {invalid.length > 0 && (
+                <ul className="mt-2 list-disc list-inside">
+                  {invalid.map(row => (
+                    <li key={row.row}>Line {row.row}: {row.value || '(empty)'}</li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          )}
+
+          <button
+            type="submit"
+            disabled={submitting}
+            className="w-full px-6 py-3 bg-brand-yellow text-gray-900 font-semibold rounded-lg hover:bg-yellow-500 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+          >
+            {submitting ? 'Starting...' : 'Analyze All Pages'}
+          </button>
+        </form>
+      </div>
+    </div>
+  )
+}
@@ -11,6 +11,7 @@ import ErrorNotification from '@/components/ErrorNotification'
 import FeaturesGrid from '@/components/FeaturesGrid'
 import TopPerformingPages from '@/components/TopPerformingPages'
 import AboutSection from '@/components/AboutSection'
+import AnalysisResults from '@/components/AnalysisResults'
 
 interface AnalysisState {
   isLoading: boolean
@@ -25,6 +26,84 @@ interface AnalysisState {
   emailLoading: boolean
   siteTitle: string | null
   siteDescription: string | null
+  moduleProgress: Record<string, ModuleProgressState> | null
+  partialResult: Record<string, any> | null
+}
+
+interface ModuleProgressState {
+  status: 'pending' | 'running' | 'completed' | 'failed'
+  score?: number | null
+}
+
+interface ModuleProgressEvent extends ModuleProgressState {
+  moduleId: string
+  resultKey: string
+  result?: any
+}
+
+const STATUS_POLL_INTERVAL_MS = 2000
+const STATUS_POLL_TIMEOUT_MS = 5 * 60 * 1000
+
+// Poll the status endpoint of a queued analysis until it completes or fails
+async function waitForAnalysis(statusUrl: string) {
+  const deadline = Date.now() + STATUS_POLL_TIMEOUT_MS
+
+  while (Date.now() < deadline) {
+    await new Promise(resolve => setTimeout(resolve, STATUS_POLL_INTERVAL_MS))
+
+    const response = await fetch(statusUrl)
+    if (!response.ok) {
+      continue
+    }
+
+    const status = await response.json()
+    if (status.status === 'completed') {
+      return status
+    }
+    if (status.status === 'failed') {
+      throw new Error(status.error || 'Analysis failed')
+    }
+  }
+
+  throw new Error('Analysis is taking longer than expected. Please try again in a few minutes.')
+}
+
+// Follow a queued analysis over Server-Sent Events, falling back to polling
+// the status endpoint if the stream drops or times out
+function streamAnalysis(
+  analysisId: string,
+  statusUrl: string,
+  onModuleEvent: (event: ModuleProgressEvent) => void
+) {
+  if (typeof EventSource === 'undefined') {
+    return waitForAnalysis(statusUrl)
+  }
+
+  return new Promise((resolve, reject) => {
+    const eventSource = new EventSource(`/api/analyze/${analysisId}/stream`)
+
+    let fellBack = false
+    const fallBackToPolling = () => {
+      eventSource.close()
+      if (fellBack) return
+      fellBack = true
+      waitForAnalysis(statusUrl).then(resolve, reject)
+    }
+
+    eventSource.addEventListener('module', (event) => {
+      onModuleEvent(JSON.parse((event as MessageEvent).data))
+    })
+    eventSource.addEventListener('complete', (event) => {
+      eventSource.close()
+      resolve(JSON.parse((event as MessageEvent).data))
+    })
+    eventSource.addEventListener('failed', (event) => {
+      eventSource.close()
+      reject(new Error(JSON.parse((event as MessageEvent).data).error || 'Analysis failed'))
+    })
+    eventSource.addEventListener('timeout', fallBackToPolling)
+    eventSource.onerror = fallBackToPolling
+  })
 }
 
 function HomeContent() {
@@ -45,7 +124,9 @@ function HomeContent() {
     analysisId: null,
     emailLoading: false,
     siteTitle: null,
-    siteDescription: null
+    siteDescription: null,
+    moduleProgress: null,
+    partialResult: null
   })
 
   const [totalAnalyses, setTotalAnalyses] = useState<number>(0)
@@ -104,7 +185,9 @@ function HomeContent() {
       analysisId: null,
       emailLoading: false,
       siteTitle: null,
-      siteDescription: null
+      siteDescription: null,
+      moduleProgress: null,
+      partialResult: null
     })
 
     try {
@@ -146,6 +229,24 @@ function HomeContent() {
       }
 
       const result = await response.json()
+
+      // New analyses are queued - follow progress until the worker finishes,
+      // rendering each section as its module completes
+      if (result.status === 'queued' && result.statusUrl) {
+        await streamAnalysis(result.analysisId, result.statusUrl, (moduleEvent) => {
+          setAnalysisState(prev => ({
+            ...prev,
+            moduleProgress: {
+              ...prev.moduleProgress,
+              [moduleEvent.moduleId]: { status: moduleEvent.status, score: moduleEvent.score }
+            },
+            partialResult: moduleEvent.result
+              ? { ...prev.partialResult, [moduleEvent.resultKey]: moduleEvent.result }
+              : prev.partialResult
+          }))
+        })
+      }
+
       // Extract analysis data from API response structure
       const analysisData = result.analysis || result
       
@@ -242,7 +343,9 @@ function HomeContent() {
       analysisId: null,
       emailLoading: false,
       siteTitle: null,
-      siteDescription: null
+      siteDescription: null,
+      moduleProgress: null,
+      partialResult: null
     })
   }
 
@@ -268,6 +371,12 @@ function HomeContent() {
               >
                 📊 View All Reports
               </Link>
+              <Link
+                href="/batch"
+                className="text-gray-300 hover:text-primary hover:underline transition-colors text-sm font-medium"
+              >
+                📦 Bulk Analysis
+              </Link>
             </nav>
           </div>
         </div>
@@ -434,8 +543,23 @@ function HomeContent() {
         <ProgressiveLoader 
           isLoading={analysisState.isLoading} 
           screenshotUrl={analysisState.screenshotUrl}
+          moduleProgress={analysisState.moduleProgress}
         />
 
+        {/* Sections render as their modules complete */}
+        {analysisState.isLoading && analysisState.partialResult && (
+          <div className="pb-16">
+            <AnalysisResults
+              result={{
+                url: analysisState.currentUrl || '',
+                overallScore: 0,
+                status: 'processing',
+                ...analysisState.partialResult
+              }}
+            />
+          </div>
+        )}
+
         {/* Error State */}
         {analysisState.error && (
           <div className="py-16">
@@ -10,7 +10,16 @@ import AlgorithmModal, { AlgorithmModalButton } from '@/components/AlgorithmModa
 import ScoreBar from '@/components/ScoreBar'
 import PriorityInsight from '@/components/PriorityInsight'
 import PriorityFixList from '@/components/PriorityFixList'
-import { getVerdict } from '@/lib/verdict'
+import CompetitorComparison from '@/components/CompetitorComparison'
+import ScanChanges from '@/components/ScanChanges'
+import ConversionEstimate from '@/components/ConversionEstimate'
+import RecommendationChecklist from '@/components/RecommendationChecklist'
+import TestPlans from '@/components/TestPlans'
+import { getVerdict, getGradeVerdict } from '@/lib/verdict'
+import type { Grade } from '@/lib/grading'
+import { mapAnalyzerColumns } from '@/lib/analyzers/definitions'
+import { WEIGHT_PROFILES } from '@/lib/analyzers/weight-profiles'
+import type { AnalysisChanges, CompetitiveAnalysis, ConversionPrediction, ScoringWeights, TrackedRecommendation } from '@/types/database'
 
 interface AnalysisData {
   id: string
@@ -23,7 +32,9 @@ interface AnalysisData {
     organization?: any
   } | null
   overall_score: number
-  grade?: string
+  industry_adjusted_score?: number | null
+  scoring_weights?: ScoringWeights | null
+  grade?: Grade
   screenshot_url?: string
   created_at: string
   status: string
@@ -33,6 +44,15 @@ interface AnalysisData {
   cta_analysis?: any
   whitespace_analysis?: any
   social_proof_analysis?: any
+  competitive_analysis?: CompetitiveAnalysis | null
+  conversion_prediction?: ConversionPrediction | null
+}
+
+interface GradeHistoryEntry {
+  id: string
+  overall_score: number
+  grade: Grade
+  created_at: string
 }
 
 // Helper function to format relative time
@@ -65,6 +85,9 @@ export default function IndividualReportPage() {
   const [emailSubmitted, setEmailSubmitted] = useState(false)
   const [hasSignedUpThisSession, setHasSignedUpThisSession] = useState(false)
   const [showAlgorithmModal, setShowAlgorithmModal] = useState(false)
+  const [gradeHistory, setGradeHistory] = useState<GradeHistoryEntry[]>([])
+  const [changes, setChanges] = useState<AnalysisChanges | null>(null)
+  const [recommendations, setRecommendations] = useState<TrackedRecommendation[]>([])
   const cleanAnalysisUrl = analysis?.url
     ? analysis.url
       .replace(/^https?:\/\//, '')   // Remove http:// or https://
@@ -90,9 +113,51 @@ export default function IndividualReportPage() {
     }
   }, [params.id])
 
+  // Earlier grades for the same page; the report works without them
+  const fetchGradeHistory = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/reports/${params.id}/history`)
+      if (response.ok) {
+        const data = await response.json()
+        setGradeHistory(data.history || [])
+      }
+    } catch (err) {
+      console.error('Error fetching grade history:', err)
+    }
+  }, [params.id])
+
+  // What changed since the previous scan, for re-scans
+  const fetchChanges = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/reports/${params.id}/changes`)
+      if (response.ok) {
+        const data = await response.json()
+        setChanges(data.changes || null)
+      }
+    } catch (err) {
+      console.error('Error fetching scan changes:', err)
+    }
+  }, [params.id])
+
+  // Recommendation checklist with the status of each fix
+  const fetchRecommendations = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/reports/${params.id}/recommendations`)
+      if (response.ok) {
+        const data = await response.json()
+        setRecommendations(data.recommendations || [])
+      }
+    } catch (err) {
+      console.error('Error fetching recommendations:', err)
+    }
+  }, [params.id])
+
   useEffect(() => {
     fetchAnalysis()
-  }, [fetchAnalysis])
+    fetchGradeHistory()
+    fetchChanges()
+    fetchRecommendations()
+  }, [fetchAnalysis, fetchGradeHistory, fetchChanges, fetchRecommendations])
 
   if (loading) {
     return (
@@ -131,15 +196,12 @@ export default function IndividualReportPage() {
     )
   }
 
+  const verdict = analysis.grade ? getGradeVerdict(analysis.grade) : getVerdict(analysis.overall_score)
+
   // Transform database structure to AnalysisResults expected format
   const analysisResult = {
     url: analysis.url,
-    pageLoadSpeed: analysis.page_speed_analysis,
-    fontUsage: analysis.font_analysis,
-    imageOptimization: analysis.image_analysis,
-    ctaAnalysis: analysis.cta_analysis,
-    whitespaceAssessment: analysis.whitespace_analysis,
-    socialProof: analysis.social_proof_analysis,
+    ...mapAnalyzerColumns(analysis),
     overallScore: analysis.overall_score || 0,
     status: analysis.status,
     screenshotUrl: analysis.screenshot_url,
@@ -253,11 +315,33 @@ export default function IndividualReportPage() {
               <div className="text-center">
                 <div className="flex items-center justify-center gap-3">
                   <div className="text-3xl sm:text-4xl font-bold text-brand-yellow">{analysis.overall_score}/100</div>
-                  <span className={`px-3 py-1 rounded-full text-sm font-semibold ${getVerdict(analysis.overall_score).bgClass} ${getVerdict(analysis.overall_score).colorClass}`}>
-                    {getVerdict(analysis.overall_score).text}
+                  <span className={`px-3 py-1 rounded-full text-sm font-semibold ${verdict.bgClass} ${verdict.colorClass}`}>
+                    {verdict.grade} · {verdict.text}
                   </span>
                 </div>
                 <div className="text-xs sm:text-sm text-gray-400 mt-1">Overall Score</div>
+                {analysis.industry_adjusted_score != null && analysis.scoring_weights?.profile && (
+                  <div className="text-xs sm:text-sm text-gray-400 mt-1">
+                    {analysis.scoring_weights.profile === 'custom' ? 'Custom' : WEIGHT_PROFILES[analysis.scoring_weights.profile].name} weighted: <span className="font-semibold text-gray-200">{analysis.industry_adjusted_score}/100</span>
+                  </div>
+                )}
+                {gradeHistory.length > 1 && (
+                  <div className="flex items-center justify-center gap-1 text-xs sm:text-sm text-gray-400 mt-2">
+                    <span>Grade history:</span>
+                    {gradeHistory.map((entry, index) => (
+                      <span key={entry.id} className="inline-flex items-center gap-1">
+                        {index > 0 && <span aria-hidden="true">→</span>}
+                        <Link
+                          href={`/reports/${entry.id}`}
+                          title={`${entry.overall_score}/100 on ${new Date(entry.created_at).toLocaleDateString()}`}
+                          className={`font-semibold ${entry.id === analysis.id ? 'text-gray-100' : 'text-gray-400 hover:text-gray-200'}`}
+                        >
+                          {entry.grade}
+                        </Link>
+                      </span>
+                    ))}
+                  </div>
+                )}
               </div>
               
               {/* Share Button */}
@@ -273,7 +357,18 @@ export default function IndividualReportPage() {
                   <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8.684 13.342C8.886 12.938 9 12.482 9 12c0-.482-.114-.938-.316-1.342m0 2.684a3 3 0 110-2.684m0 2.684l6.632 3.316m-6.632-6l6.632-3.316m0 0a3 3 0 105.367-2.684 3 3 0 00-5.367 2.684zm0 9.316a3 3 0 105.367 2.684 3 3 0 00-5.367-2.684z" />
                 </svg>
                 {shareClicked ? 'Copied!' : 'Share'}
-              </button>     
+              </button>
+
+              {/* PDF Export */}
+              <a
+                href={`/api/reports/${analysis.id}/pdf`}
+                className="px-4 py-2 bg-gray-700 hover:bg-gray-600 text-gray-200 text-sm font-medium rounded-lg transition-colors flex items-center gap-2 whitespace-nowrap"
+              >
+                <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 10v6m0 0l-3-3m3 3l3-3m2 8H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z" />
+                </svg>
+                Download PDF
+              </a>
             </div>
           </div>
 
@@ -309,12 +404,7 @@ export default function IndividualReportPage() {
 
             {/* Score Bar */}
             <ScoreBar
-              pageSpeed={analysisResult.pageLoadSpeed}
-              fontUsage={analysisResult.fontUsage}
-              imageOptimization={analysisResult.imageOptimization}
-              ctaAnalysis={analysisResult.ctaAnalysis}
-              whitespaceAssessment={analysisResult.whitespaceAssessment}
-              socialProof={analysisResult.socialProof}
+              analysisResult={analysisResult}
             />
 
             {!hasSignedUpThisSession && (
@@ -331,6 +421,18 @@ export default function IndividualReportPage() {
               </div>
             )}
           </div>
+
+          {analysis.competitive_analysis && (
+            <CompetitorComparison comparison={analysis.competitive_analysis} url={analysis.url} />
+          )}
+
+          {analysis.conversion_prediction && <ConversionEstimate prediction={analysis.conversion_prediction} />}
+
+          {changes && <ScanChanges changes={changes} />}
+
+          {recommendations.length > 0 && <RecommendationChecklist recommendations={recommendations} />}
+
+          {recommendations.some(recommendation => recommendation.test_hypothesis) && <TestPlans analysisId={analysis.id} />}
         </div>
 
         {/* Email Collection Modal */}
@@ -365,16 +467,12 @@ export default function IndividualReportPage() {
         <AlgorithmModal
           isOpen={showAlgorithmModal}
           onClose={() => setShowAlgorithmModal(false)}
+          scoringWeights={analysis.scoring_weights}
         />
 
         {/* Sticky Score Bar */}
         <ScoreBar
-          pageSpeed={analysisResult.pageLoadSpeed}
-          fontUsage={analysisResult.fontUsage}
-          imageOptimization={analysisResult.imageOptimization}
-          ctaAnalysis={analysisResult.ctaAnalysis}
-          whitespaceAssessment={analysisResult.whitespaceAssessment}
-          socialProof={analysisResult.socialProof}
+          analysisResult={analysisResult}
           overallScore={analysis.overall_score}
           sticky={true}
         />
@@ -0,0 +1,145 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { useParams } from 'next/navigation'
+import Image from 'next/image'
+import AnalysisResults from '@/components/AnalysisResults'
+import { AlgorithmMethodology } from '@/components/AlgorithmModal'
+import ScoreBar from '@/components/ScoreBar'
+import PriorityInsight from '@/components/PriorityInsight'
+import PriorityFixList from '@/components/PriorityFixList'
+import { PrintModeProvider } from '@/components/PrintMode'
+import { getVerdict, getGradeVerdict } from '@/lib/verdict'
+import type { Grade } from '@/lib/grading'
+import { mapAnalyzerColumns } from '@/lib/analyzers/definitions'
+import { WEIGHT_PROFILES } from '@/lib/analyzers/weight-profiles'
+import type { ScoringWeights } from '@/types/database'
+
+interface AnalysisData {
+  id: string
+  url: string
+  url_title?: string
+  schema_data?: {
+    name?: string
+  } | null
+  overall_score: number
+  industry_adjusted_score?: number | null
+  scoring_weights?: ScoringWeights | null
+  grade?: Grade
+  screenshot_url?: string
+  created_at: string
+  status: string
+}
+
+/**
+ * Printable version of a report, rendered to PDF by /api/reports/[id]/pdf.
+ * Every section is expanded; `data-report-ready` tells the renderer the
+ * report has loaded.
+ */
+export default function PrintableReportPage() {
+  const params = useParams()
+  const [analysis, setAnalysis] = useState<AnalysisData | null>(null)
+  const [error, setError] = useState(false)
+
+  useEffect(() => {
+    fetch(`/api/reports/${params.id}`)
+      .then(response => {
+        if (!response.ok) {
+          throw new Error('Failed to fetch analysis')
+        }
+        return response.json()
+      })
+      .then(setAnalysis)
+      .catch(err => {
+        console.error('Error fetching analysis:', err)
+        setError(true)
+      })
+  }, [params.id])
+
+  if (error) {
+    return <div data-report-error="true" className="p-12 text-gray-300">The requested analysis could not be found.</div>
+  }
+
+  if (!analysis) {
+    return null
+  }
+
+  const verdict = analysis.grade ? getGradeVerdict(analysis.grade) : getVerdict(analysis.overall_score)
+  const analysisResult = {
+    url: analysis.url,
+    ...mapAnalyzerColumns(analysis),
+    overallScore: analysis.overall_score || 0,
+    status: analysis.status
+  }
+  const title = analysis.schema_data?.name ? `${analysis.schema_data.name} Landing Page Report` : (analysis.url_title || 'Landing Page Report')
+
+  return (
+    <PrintModeProvider value={true}>
+      <div data-report-ready="true" className="bg-[var(--color-bg-main)] px-10 py-8">
+        {/* Cover */}
+        <section>
+          <div className="flex items-center justify-between border-b border-gray-700 pb-4 mb-8">
+            <span className="text-lg font-bold text-brand-yellow">Landing Page Report</span>
+            <span className="text-sm text-gray-400">landingpage.report · lansky.tech</span>
+          </div>
+
+          <h1 className="text-3xl font-bold text-gray-100 mb-2">{title}</h1>
+          <p className="text-gray-300 break-all">{analysis.url}</p>
+          <p className="text-gray-500 text-sm mb-8">
+            Analyzed {new Date(analysis.created_at).toLocaleDateString('en-US', { year: 'numeric', month: 'long', day: 'numeric' })}
+          </p>
+
+          <div className="flex items-center gap-4 mb-2">
+            <div className="text-4xl font-bold text-brand-yellow">{analysis.overall_score}/100</div>
+            <span className={`px-3 py-1 rounded-full text-sm font-semibold ${verdict.bgClass} ${verdict.colorClass}`}>
+              {verdict.grade} · {verdict.text}
+            </span>
+          </div>
+          {analysis.industry_adjusted_score != null && analysis.scoring_weights?.profile && (
+            <p className="text-sm text-gray-400">
+              {analysis.scoring_weights.profile === 'custom' ? 'Custom' : WEIGHT_PROFILES[analysis.scoring_weights.profile].name} weighted: <span className="font-semibold text-gray-200">{analysis.industry_adjusted_score}/100</span>
+            </p>
+          )}
+          <div className="mt-6 mb-8">
+            <PriorityInsight analysisResult={analysisResult} overallScore={analysis.overall_score} />
+          </div>
+
+          {analysis.screenshot_url && (
+            <div className="max-h-[520px] overflow-hidden rounded-lg border border-gray-700">
+              <Image
+                src={analysis.screenshot_url}
+                alt={`Screenshot of ${analysis.url}`}
+                width={1200}
+                height={900}
+                priority
+                className="w-full object-cover object-top"
+              />
+            </div>
+          )}
+        </section>
+
+        {/* Priority fixes */}
+        <section className="break-before-page pt-2">
+          <h2 className="text-2xl font-bold text-gray-100 mb-2">Priority Fixes</h2>
+          <p className="text-gray-300 mb-6">Focus on these high-impact improvements to boost your conversion rate.</p>
+          <div className="mb-8">
+            <PriorityFixList analysisResult={analysisResult} />
+          </div>
+          <ScoreBar analysisResult={analysisResult} />
+        </section>
+
+        {/* Module sections */}
+        <section className="break-before-page pt-2">
+          <h2 className="text-2xl font-bold text-gray-100 mb-6">Detailed Analysis</h2>
+          <AnalysisResults result={analysisResult} analysisId={analysis.id} />
+        </section>
+
+        {/* Methodology */}
+        <section className="break-before-page pt-2">
+          <h2 className="text-2xl font-bold text-gray-100 mb-4">Methodology</h2>
+          <AlgorithmMethodology scoringWeights={analysis.scoring_weights} />
+        </section>
+      </div>
+    </PrintModeProvider>
+  )
+}
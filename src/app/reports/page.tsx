@@ -3,13 +3,14 @@
 import { useState, useEffect } from 'react'
 import Link from 'next/link'
 import Image from 'next/image'
+import { getGrade, type Grade } from '@/lib/grading'
 
 interface AnalysisReport {
   id: string
   url: string
   url_title?: string
   overall_score: number
-  grade?: string
+  grade?: Grade
   screenshot_url?: string
   created_at: string
   status: string
@@ -83,7 +84,7 @@ function ReportCard({ report }: ReportCardProps) {
               {new Date(report.created_at).toLocaleDateString()}
             </span>
             <span className={`font-medium ${getScoreColor(report.overall_score)}`}>
-              Score: {report.overall_score}/100
+              Score: {report.overall_score}/100 ({report.grade || getGrade(report.overall_score)})
             </span>
           </div>
         </div>
@@ -1,13 +1,19 @@
 'use client'
 
 import { useState } from 'react'
+import { getAnalyzersInDisplayOrder } from '@/lib/analyzers/definitions'
+import { WEIGHT_PROFILES, type ScoringWeights } from '@/lib/analyzers/weight-profiles'
 
 interface AlgorithmModalProps {
   isOpen: boolean
   onClose: () => void
+  /** Weights behind the report's industry-adjusted score, if it has one */
+  scoringWeights?: ScoringWeights | null
 }
 
-export default function AlgorithmModal({ isOpen, onClose }: AlgorithmModalProps) {
+const formatWeight = (weight: number) => `${Math.round(weight * 1000) / 10}%`
+
+export default function AlgorithmModal({ isOpen, onClose, scoringWeights }: AlgorithmModalProps) {
   if (!isOpen) return null
 
   return (
@@ -25,66 +31,8 @@ export default function AlgorithmModal({ isOpen, onClose }: AlgorithmModalProps)
         <h3 className="text-2xl font-bold text-gray-100 mb-4">
           How Our Analysis Works
         </h3>
-        <p className="text-gray-400 text-base mb-6">
-          Understanding our automated analysis helps you trust and act on the recommendations. Here&apos;s exactly how we evaluate each aspect of your landing page:
-        </p>
-        
-        <div className="space-y-4">
-          <div className="bg-gray-700/50 rounded-lg p-4">
-            <h4 className="text-lg font-semibold text-gray-200 mb-2 flex items-center gap-2">
-              🚀 Page Speed Analysis
-            </h4>
-            <p className="text-gray-300 text-sm leading-relaxed">
-              We use Google Lighthouse and browser Performance APIs to measure Core Web Vitals (LCP, FCP, CLS). Our system runs your page in a controlled Chrome browser and captures real loading metrics, then converts technical data into actionable scores with letter grades (A-F).
-            </p>
-          </div>
-          
-          <div className="bg-gray-700/50 rounded-lg p-4">
-            <h4 className="text-lg font-semibold text-gray-200 mb-2 flex items-center gap-2">
-              🎯 Call-to-Action Detection
-            </h4>
-            <p className="text-gray-300 text-sm leading-relaxed">
-              Our browser automation scans for buttons, links, and forms, then analyzes their text against our action-word dictionary and evaluates positioning. We filter out navigation elements and prioritize CTAs with strong action words like &quot;Start,&quot; &quot;Get,&quot; or &quot;Try.&quot;
-            </p>
-          </div>
-          
-          <div className="bg-gray-700/50 rounded-lg p-4">
-            <h4 className="text-lg font-semibold text-gray-200 mb-2 flex items-center gap-2">
-              📏 Whitespace Assessment
-            </h4>
-            <p className="text-gray-300 text-sm leading-relaxed">
-              We divide your page into a 3x4 grid and count elements in each section to detect overcrowding. Our algorithm also measures spacing between key elements like headlines and CTAs, comparing against design best practices for readability.
-            </p>
-          </div>
-          
-          <div className="bg-gray-700/50 rounded-lg p-4">
-            <h4 className="text-lg font-semibold text-gray-200 mb-2 flex items-center gap-2">
-              ⭐ Social Proof Detection
-            </h4>
-            <p className="text-gray-300 text-sm leading-relaxed">
-              We scan for testimonials, reviews, ratings, trust badges, and customer counts using pattern matching on text and images. Elements are scored higher when they include names, companies, or appear above-the-fold where visitors see them first.
-            </p>
-          </div>
-          
-          <div className="bg-gray-700/50 rounded-lg p-4">
-            <h4 className="text-lg font-semibold text-gray-200 mb-2 flex items-center gap-2">
-              🔤 Font Analysis
-            </h4>
-            <p className="text-gray-300 text-sm leading-relaxed">
-              We extract font-family declarations from all page elements and count unique font families used. Pages score higher with 2 or fewer font families, as too many fonts create visual inconsistency and slower loading times.
-            </p>
-          </div>
-          
-          <div className="bg-gray-700/50 rounded-lg p-4">
-            <h4 className="text-lg font-semibold text-gray-200 mb-2 flex items-center gap-2">
-              🖼️ Image Optimization
-            </h4>
-            <p className="text-gray-300 text-sm leading-relaxed">
-              We analyze image formats (preferring modern WebP/AVIF), check for alt text accessibility, and identify oversized images. Our scoring weighs format efficiency (40%), alt text coverage (35%), and appropriate sizing (25%).
-            </p>
-          </div>
-        </div>
-        
+        <AlgorithmMethodology scoringWeights={scoringWeights} />
+
         <div className="mt-6 pt-4 border-t border-gray-700">
           <p className="text-gray-400 text-sm text-center">
             Our algorithms combine technical precision with conversion best practices to give you actionable insights.
@@ -95,6 +43,174 @@ export default function AlgorithmModal({ isOpen, onClose }: AlgorithmModalProps)
   )
 }
 
+/**
+ * What each analyzer checks and how the score is weighted. Shown in the
+ * modal and printed in full in the PDF report.
+ */
+export function AlgorithmMethodology({ scoringWeights }: { scoringWeights?: ScoringWeights | null }) {
+  const profile = scoringWeights?.profile
+  const profileName = profile ? (profile === 'custom' ? 'Custom' : WEIGHT_PROFILES[profile].name) : null
+
+  return (
+    <>
+      <p className="text-gray-400 text-base mb-6">
+        Understanding our automated analysis helps you trust and act on the recommendations. Here&apos;s exactly how we evaluate each aspect of your landing page:
+      </p>
+      
+      <div className="space-y-4">
+        <div className="bg-gray-700/50 rounded-lg p-4">
+          <h4 className="text-lg font-semibold text-gray-200 mb-2 flex items-center gap-2">
+            🚀 Page Speed Analysis
+          </h4>
+          <p className="text-gray-300 text-sm leading-relaxed">
+            We use Google Lighthouse and browser Performance APIs to measure Core Web Vitals (LCP, FCP, CLS). Our system runs your page in a controlled Chrome browser and captures real loading metrics, then converts technical data into actionable scores with letter grades (A-F).
+          </p>
+        </div>
+        
+        <div className="bg-gray-700/50 rounded-lg p-4">
+          <h4 className="text-lg font-semibold text-gray-200 mb-2 flex items-center gap-2">
+            🎯 Call-to-Action Detection
+          </h4>
+          <p className="text-gray-300 text-sm leading-relaxed">
+            Our browser automation scans for buttons, links, and forms, then analyzes their text against our action-word dictionary and evaluates positioning. We filter out navigation elements and prioritize CTAs with strong action words like &quot;Start,&quot; &quot;Get,&quot; or &quot;Try.&quot;
+          </p>
+        </div>
+        
+        <div className="bg-gray-700/50 rounded-lg p-4">
+          <h4 className="text-lg font-semibold text-gray-200 mb-2 flex items-center gap-2">
+            💡 Value Proposition
+          </h4>
+          <p className="text-gray-300 text-sm leading-relaxed">
+            We read your hero headline, subheadline and first paragraph, then check them against our benefit and feature dictionaries. Headlines score higher when they are short, visible without scrolling, lead with outcomes for the visitor, include specific numbers and say what makes you different.
+          </p>
+        </div>
+        
+        <div className="bg-gray-700/50 rounded-lg p-4">
+          <h4 className="text-lg font-semibold text-gray-200 mb-2 flex items-center gap-2">
+            ♿ Accessibility
+          </h4>
+          <p className="text-gray-300 text-sm leading-relaxed">
+            We measure the contrast of visible text against the background behind it (WCAG AA: 4.5:1, or 3:1 for large text) and check the heading outline, landmark regions, form labels, keyboard access to clickable elements, link text, image alt attributes and the page language. Contrast carries the most weight; form labels only count on pages with forms.
+          </p>
+        </div>
+        
+        <div className="bg-gray-700/50 rounded-lg p-4">
+          <h4 className="text-lg font-semibold text-gray-200 mb-2 flex items-center gap-2">
+            🔎 SEO &amp; Metadata
+          </h4>
+          <p className="text-gray-300 text-sm leading-relaxed">
+            We read the title and meta description (30-60 and 70-160 characters show in full), canonical URL, Open Graph and Twitter card tags, robots directives and hreflang alternates. We load the share image to check it is at least 600x315px (1200x630px is ideal), validate Product, Organization, FAQ and Review structured data against the properties rich results require, and check the page has exactly one H1. A noindex directive scores hardest, since the page can&apos;t be found at all.
+          </p>
+        </div>
+        
+        <div className="bg-gray-700/50 rounded-lg p-4">
+          <h4 className="text-lg font-semibold text-gray-200 mb-2 flex items-center gap-2">
+            ✍️ Copy Effectiveness
+          </h4>
+          <p className="text-gray-300 text-sm leading-relaxed">
+            We collect the visible paragraphs and headings (skipping navigation and footers) and compute the Flesch-Kincaid reading grade, average sentence length and share of passive sentences. We also compare how often the copy says &quot;you&quot; versus &quot;we&quot;, measure jargon per 100 words and flag headings longer than 12 words. Copy at a grade 8 reading level or below scores best.
+          </p>
+        </div>
+        
+        <div className="bg-gray-700/50 rounded-lg p-4">
+          <h4 className="text-lg font-semibold text-gray-200 mb-2 flex items-center gap-2">
+            🧠 Psychological Triggers
+          </h4>
+          <p className="text-gray-300 text-sm leading-relaxed">
+            We look for urgency and scarcity messages, authority signals like press mentions and certifications, and free offers that give value up front, and combine them with your social proof score. Countdown timers are watched for a few seconds, then the page is reloaded in a fresh session: timers that start over for every visitor are flagged as fake urgency, along with decline links that shame visitors for saying no.
+          </p>
+        </div>
+        
+        <div className="bg-gray-700/50 rounded-lg p-4">
+          <h4 className="text-lg font-semibold text-gray-200 mb-2 flex items-center gap-2">
+            📝 Form Optimization
+          </h4>
+          <p className="text-gray-300 text-sm leading-relaxed">
+            We find every form on the page and count its visible fields, then check for real labels instead of placeholder-only inputs, autocomplete attributes, the right input types for email and phone, multi-step layouts and submit button copy. Pages without forms are left out of the overall score.
+          </p>
+        </div>
+        
+        <div className="bg-gray-700/50 rounded-lg p-4">
+          <h4 className="text-lg font-semibold text-gray-200 mb-2 flex items-center gap-2">
+            📱 Mobile Experience
+          </h4>
+          <p className="text-gray-300 text-sm leading-relaxed">
+            We reload your page as an iPhone-sized screen (390x844 with touch emulation and a mobile user agent) and re-run the CTA, whitespace, image and social proof checks, so you can compare desktop and mobile scores side by side. We also flag buttons and links smaller than 44x44px, content that forces horizontal scrolling and a missing viewport meta tag.
+          </p>
+        </div>
+        
+        <div className="bg-gray-700/50 rounded-lg p-4">
+          <h4 className="text-lg font-semibold text-gray-200 mb-2 flex items-center gap-2">
+            📏 Whitespace Assessment
+          </h4>
+          <p className="text-gray-300 text-sm leading-relaxed">
+            We divide your page into a 3x4 grid and count elements in each section to detect overcrowding. Our algorithm also measures spacing between key elements like headlines and CTAs, comparing against design best practices for readability.
+          </p>
+        </div>
+        
+        <div className="bg-gray-700/50 rounded-lg p-4">
+          <h4 className="text-lg font-semibold text-gray-200 mb-2 flex items-center gap-2">
+            ⭐ Social Proof Detection
+          </h4>
+          <p className="text-gray-300 text-sm leading-relaxed">
+            We scan for testimonials, reviews, ratings, trust badges, and customer counts using pattern matching on text and images. Elements are scored higher when they include names, companies, or appear above-the-fold where visitors see them first.
+          </p>
+        </div>
+        
+        <div className="bg-gray-700/50 rounded-lg p-4">
+          <h4 className="text-lg font-semibold text-gray-200 mb-2 flex items-center gap-2">
+            🔤 Font Analysis
+          </h4>
+          <p className="text-gray-300 text-sm leading-relaxed">
+            We extract font-family declarations from all page elements and count unique font families used. Pages score higher with 2 or fewer font families, as too many fonts create visual inconsistency and slower loading times.
+          </p>
+        </div>
+        
+        <div className="bg-gray-700/50 rounded-lg p-4">
+          <h4 className="text-lg font-semibold text-gray-200 mb-2 flex items-center gap-2">
+            🖼️ Image Optimization
+          </h4>
+          <p className="text-gray-300 text-sm leading-relaxed">
+            We analyze image formats (preferring modern WebP/AVIF), check for alt text accessibility, and identify oversized images. Our scoring weighs format efficiency (40%), alt text coverage (35%), and appropriate sizing (25%).
+          </p>
+        </div>
+      </div>
+      
+      <div className="mt-6 bg-gray-700/50 rounded-lg p-4">
+        <h4 className="text-lg font-semibold text-gray-200 mb-2 flex items-center gap-2">
+          ⚖️ How Your Score Is Weighted
+        </h4>
+        <p className="text-gray-300 text-sm leading-relaxed mb-4">
+          The overall score is a weighted average of every section that produced a score, weighted by its impact on conversions.
+          {profileName && (
+            <> The {profileName} score uses the {profileName} weights{scoringWeights?.source === 'industry' ? ', picked from the industry we detected on your page' : ''}.</>
+          )}
+        </p>
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-gray-400 text-left">
+              <th className="font-medium pb-2">Section</th>
+              <th className="font-medium pb-2 text-right">Overall</th>
+              {profileName && <th className="font-medium pb-2 text-right">{profileName}</th>}
+            </tr>
+          </thead>
+          <tbody>
+            {getAnalyzersInDisplayOrder().map(analyzer => (
+              <tr key={analyzer.id} className="border-t border-gray-600/50 text-gray-300">
+                <td className="py-1.5">{analyzer.section.icon} {analyzer.section.title}</td>
+                <td className="py-1.5 text-right">{formatWeight(analyzer.weight)}</td>
+                {profileName && scoringWeights && (
+                  <td className="py-1.5 text-right">{formatWeight(scoringWeights.weights[analyzer.id] ?? 0)}</td>
+                )}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </>
+  )
+}
+
 // Reusable button component for triggering the modal
 interface AlgorithmModalButtonProps {
   onClick: () => void
@@ -5,8 +5,17 @@ import SocialProofSection from './analysis/SocialProofSection'
 import WhitespaceSection from './analysis/WhitespaceSection'
 import ImageOptimizationSection from './analysis/ImageOptimizationSection'
 import FontUsageSection from './analysis/FontUsageSection'
+import ValuePropositionSection from './analysis/ValuePropositionSection'
+import FormOptimizationSection from './analysis/FormOptimizationSection'
+import MobileConversionSection from './analysis/MobileConversionSection'
+import PsychologicalTriggersSection from './analysis/PsychologicalTriggersSection'
+import CopyEffectivenessSection from './analysis/CopyEffectivenessSection'
+import AccessibilitySection from './analysis/AccessibilitySection'
+import SeoSection from './analysis/SeoSection'
 import ScreenshotSection from './analysis/ScreenshotSection'
 import CollapsibleSection, { COLLAPSE_THRESHOLD } from './CollapsibleSection'
+import { getAnalyzersInDisplayOrder } from '@/lib/analyzers/definitions'
+import type { AnalyzerId } from '@/lib/analyzers/types'
 
 interface AnalysisResult {
   url: string
@@ -128,139 +137,48 @@ interface AnalysisResultsProps {
   analysisId?: string
 }
 
-// Section configurations for CollapsibleSection
-const sectionConfigs = {
-  cta: {
-    title: 'CTA Analysis',
-    icon: '🎯',
-    colorTheme: {
-      bgClass: 'bg-purple-950/20',
-      borderClass: 'border-purple-800/40'
-    }
-  },
-  social: {
-    title: 'Social Proof',
-    icon: '⭐',
-    colorTheme: {
-      bgClass: 'bg-amber-950/20',
-      borderClass: 'border-amber-800/40'
-    }
-  },
-  speed: {
-    title: 'Page Load Speed',
-    icon: '⚡',
-    colorTheme: {
-      bgClass: 'bg-blue-950/20',
-      borderClass: 'border-blue-800/40'
-    }
-  },
-  images: {
-    title: 'Image Optimization',
-    icon: '🖼️',
-    colorTheme: {
-      bgClass: 'bg-cyan-950/20',
-      borderClass: 'border-cyan-800/40'
-    }
-  },
-  whitespace: {
-    title: 'Whitespace',
-    icon: '📐',
-    colorTheme: {
-      bgClass: 'bg-indigo-950/20',
-      borderClass: 'border-indigo-800/40'
-    }
-  },
-  fonts: {
-    title: 'Font Usage',
-    icon: '🔤',
-    colorTheme: {
-      bgClass: 'bg-rose-950/20',
-      borderClass: 'border-rose-800/40'
-    }
-  }
+// Report section component for each analyzer; title, icon and theme come from the registry.
+// The full result is passed for sections that compare against other analyzers.
+const sectionComponents: Record<AnalyzerId, (sectionResult: any, result: Record<string, any>) => React.ReactNode> = {
+  cta: sectionResult => <CTASection ctaAnalysis={sectionResult} />,
+  socialProof: sectionResult => <SocialProofSection socialProof={sectionResult} />,
+  speed: sectionResult => <PageSpeedSection pageLoadSpeed={sectionResult} />,
+  image: sectionResult => <ImageOptimizationSection imageOptimization={sectionResult} />,
+  whitespace: sectionResult => <WhitespaceSection whitespaceAssessment={sectionResult} />,
+  font: sectionResult => <FontUsageSection fontUsage={sectionResult} />,
+  valueProposition: sectionResult => <ValuePropositionSection valueProposition={sectionResult} />,
+  form: sectionResult => <FormOptimizationSection formOptimization={sectionResult} />,
+  mobile: (sectionResult, result) => <MobileConversionSection mobileConversion={sectionResult} desktopResult={result} />,
+  psychologicalTriggers: sectionResult => <PsychologicalTriggersSection psychologicalTriggers={sectionResult} />,
+  copy: sectionResult => <CopyEffectivenessSection copyEffectiveness={sectionResult} />,
+  accessibility: sectionResult => <AccessibilitySection accessibility={sectionResult} />,
+  seo: sectionResult => <SeoSection seo={sectionResult} />
 }
 
 export default function AnalysisResults({ result, analysisId }: AnalysisResultsProps) {
+  const sectionResults = result as unknown as Record<string, any>
+
   return (
     <div className="w-full max-w-6xl mx-auto space-y-8">
       <div className="grid grid-cols-1 gap-8">
-        {/* CTA Analysis - 25% weight */}
-        {result.ctaAnalysis && (
-          <CollapsibleSection
-            title={sectionConfigs.cta.title}
-            score={result.ctaAnalysis.score}
-            icon={sectionConfigs.cta.icon}
-            colorTheme={sectionConfigs.cta.colorTheme}
-            sectionId="cta-section"
-          >
-            <CTASection ctaAnalysis={result.ctaAnalysis} />
-          </CollapsibleSection>
-        )}
-
-        {/* Social Proof - 20% weight */}
-        {result.socialProof && (
-          <CollapsibleSection
-            title={sectionConfigs.social.title}
-            score={result.socialProof.score}
-            icon={sectionConfigs.social.icon}
-            colorTheme={sectionConfigs.social.colorTheme}
-            sectionId="social-section"
-          >
-            <SocialProofSection socialProof={result.socialProof} />
-          </CollapsibleSection>
-        )}
-
-        {/* Page Load Speed - 25% weight */}
-        {result.pageLoadSpeed && (
-          <CollapsibleSection
-            title={sectionConfigs.speed.title}
-            score={result.pageLoadSpeed.score}
-            icon={sectionConfigs.speed.icon}
-            colorTheme={sectionConfigs.speed.colorTheme}
-            sectionId="speed-section"
-          >
-            <PageSpeedSection pageLoadSpeed={result.pageLoadSpeed} />
-          </CollapsibleSection>
-        )}
-
-        {/* Image Optimization - 10% weight */}
-        {result.imageOptimization && (
-          <CollapsibleSection
-            title={sectionConfigs.images.title}
-            score={result.imageOptimization.score}
-            icon={sectionConfigs.images.icon}
-            colorTheme={sectionConfigs.images.colorTheme}
-            sectionId="images-section"
-          >
-            <ImageOptimizationSection imageOptimization={result.imageOptimization} />
-          </CollapsibleSection>
-        )}
-
-        {/* Whitespace Assessment - 15% weight */}
-        {result.whitespaceAssessment && (
-          <CollapsibleSection
-            title={sectionConfigs.whitespace.title}
-            score={result.whitespaceAssessment.score}
-            icon={sectionConfigs.whitespace.icon}
-            colorTheme={sectionConfigs.whitespace.colorTheme}
-            sectionId="whitespace-section"
-          >
-            <WhitespaceSection whitespaceAssessment={result.whitespaceAssessment} />
-          </CollapsibleSection>
-        )}
+        {getAnalyzersInDisplayOrder().map(analyzer => {
+          const sectionResult = sectionResults[analyzer.resultKey]
+          // A null score means the analyzer doesn't apply to this page (e.g. no forms)
+          if (!sectionResult || typeof sectionResult.score !== 'number') return null
 
-        {/* Font Usage - 5% weight */}
-        {result.fontUsage && (
-          <CollapsibleSection
-            title={sectionConfigs.fonts.title}
-            score={result.fontUsage.score}
-            icon={sectionConfigs.fonts.icon}
-            colorTheme={sectionConfigs.fonts.colorTheme}
-            sectionId="fonts-section"
-          >
-            <FontUsageSection fontUsage={result.fontUsage} />
-          </CollapsibleSection>
-        )}
+          return (
+            <CollapsibleSection
+              key={analyzer.id}
+              title={analyzer.section.title}
+              score={sectionResult.score}
+              icon={analyzer.section.icon}
+              colorTheme={analyzer.section.colorTheme}
+              sectionId={analyzer.section.sectionId}
+            >
+              {sectionComponents[analyzer.id](sectionResult, sectionResults)}
+            </CollapsibleSection>
+          )
+        })}
       </div>
 
       {/* Screenshot Section */}
@@ -1,6 +1,7 @@
 'use client'
 
 import { useState, ReactNode } from 'react'
+import { usePrintMode } from './PrintMode'
 
 interface CollapsibleSectionProps {
   title: string
@@ -44,8 +45,9 @@ export default function CollapsibleSection({
   sectionId
 }: CollapsibleSectionProps) {
   const [internalCollapsed, setInternalCollapsed] = useState(score >= COLLAPSE_THRESHOLD)
+  const printMode = usePrintMode()
 
-  const isCollapsed = controlledCollapsed !== undefined ? controlledCollapsed : internalCollapsed
+  const isCollapsed = !printMode && (controlledCollapsed !== undefined ? controlledCollapsed : internalCollapsed)
 
   const handleToggle = () => {
     const newState = !isCollapsed
@@ -100,7 +102,7 @@ export default function CollapsibleSection({
   return (
     <div id={sectionId} className="relative">
       {/* Collapse button for expanded sections that could be collapsed */}
-      {score >= COLLAPSE_THRESHOLD && (
+      {score >= COLLAPSE_THRESHOLD && !printMode && (
         <button
           onClick={handleToggle}
           className="absolute top-4 right-4 z-10 p-2 text-gray-400 hover:text-gray-200 transition-colors"
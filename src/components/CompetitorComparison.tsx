@@ -0,0 +1,113 @@
+import React from 'react'
+import ScoreBadge from './ui/ScoreBadge'
+import type { CompetitiveAnalysis } from '@/types/database'
+
+interface CompetitorComparisonProps {
+  comparison: CompetitiveAnalysis
+  url: string
+}
+
+const MARKET_POSITION_LABELS: Record<string, string> = {
+  above_average: 'Ahead of competitors',
+  average: 'Level with competitors',
+  below_average: 'Behind competitors'
+}
+
+const OUTCOME_STYLES = {
+  win: { label: 'Win', className: 'text-green-400' },
+  loss: { label: 'Loss', className: 'text-red-400' },
+  tie: { label: 'Tie', className: 'text-gray-400' }
+}
+
+function getHostname(url: string): string {
+  try {
+    return new URL(url).hostname.replace(/^www\./, '')
+  } catch {
+    return url
+  }
+}
+
+function ScoreCell({ score, isLeader }: { score: number | null; isLeader: boolean }) {
+  if (score === null) {
+    return <span className="text-gray-500 text-sm">n/a</span>
+  }
+  return (
+    <span className={`inline-flex rounded-full ${isLeader ? 'ring-2 ring-brand-yellow' : ''}`} title={isLeader ? 'Highest score' : undefined}>
+      <ScoreBadge score={score} />
+    </span>
+  )
+}
+
+export default function CompetitorComparison({ comparison, url }: CompetitorComparisonProps) {
+  const pages = [url, ...comparison.competitors.map(competitor => competitor.url)]
+  const gridStyle = { gridTemplateColumns: `minmax(8rem, 1.5fr) repeat(${pages.length}, minmax(5rem, 1fr)) 4rem` }
+
+  return (
+    <div className="rounded-lg border border-gray-700 p-8 mb-6" style={{ backgroundColor: 'var(--color-bg-card)' }} data-testid="competitor-comparison">
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4 mb-6">
+        <h2 className="text-2xl font-bold text-gray-100">Competitor Comparison</h2>
+        {comparison.marketPosition && (
+          <span className="text-sm text-gray-300">
+            {MARKET_POSITION_LABELS[comparison.marketPosition]}
+            {comparison.competitorAverage !== null && ` (average ${comparison.competitorAverage}/100)`}
+          </span>
+        )}
+      </div>
+
+      {comparison.status === 'pending' && (
+        <p className="text-gray-400 text-sm mb-6">
+          Competitor analyses are still running. Scores fill in as each one finishes.
+        </p>
+      )}
+
+      <div className="overflow-x-auto mb-6">
+        <div className="min-w-max rounded-lg border border-gray-700/50">
+          <div className="grid gap-4 px-4 py-2 bg-gray-800/50 text-xs font-medium uppercase tracking-wide text-gray-400" style={gridStyle}>
+            <span>Area</span>
+            {pages.map((page, index) => (
+              <span key={page} className="truncate" title={page}>
+                {index === 0 ? 'You' : getHostname(page)}
+              </span>
+            ))}
+            <span>Result</span>
+          </div>
+          {comparison.matrix.map(row => (
+            <div
+              key={row.analyzerId}
+              className="grid gap-4 px-4 py-3 items-center border-t border-gray-700/50 bg-gray-800/30"
+              style={gridStyle}
+              data-testid={`comparison-row-${row.analyzerId}`}
+            >
+              <span className="text-sm text-gray-300">{row.name}</span>
+              <ScoreCell score={row.primaryScore} isLeader={row.leaderUrl === url} />
+              {row.competitorScores.map((score, index) => (
+                <ScoreCell
+                  key={pages[index + 1]}
+                  score={score}
+                  isLeader={row.leaderUrl === pages[index + 1]}
+                />
+              ))}
+              <span className={`text-sm font-medium ${row.outcome ? OUTCOME_STYLES[row.outcome].className : 'text-gray-500'}`}>
+                {row.outcome ? OUTCOME_STYLES[row.outcome].label : '-'}
+              </span>
+            </div>
+          ))}
+        </div>
+      </div>
+
+      {comparison.patternsToBorrow.length > 0 && (
+        <div>
+          <h4 className="font-semibold text-sm uppercase tracking-wide text-gray-100 mb-4">Patterns to Borrow</h4>
+          <ul className="space-y-2">
+            {comparison.patternsToBorrow.map(pattern => (
+              <li key={`${pattern.analyzerId}-${pattern.competitorUrl}`} className="p-3 bg-gray-800/30 rounded-lg border border-gray-700/50 text-sm">
+                <span className="font-medium text-gray-100">{getHostname(pattern.competitorUrl)}</span>
+                <span className="text-gray-300">: {pattern.pattern}</span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,57 @@
+import React from 'react'
+import type { ConversionPrediction } from '@/types/database'
+
+interface ConversionEstimateProps {
+  prediction: ConversionPrediction
+}
+
+const formatRate = (rate: number) => `${(rate * 100).toFixed(1)}%`
+
+/**
+ * Estimated conversion rate band and the page measurements that moved it,
+ * largest effect first
+ */
+export default function ConversionEstimate({ prediction }: ConversionEstimateProps) {
+  const { low, high } = prediction.confidence_interval
+  const factors = (prediction.factors || [])
+    .filter(factor => factor.value !== null)
+    .sort((a, b) => Math.abs(b.effect) - Math.abs(a.effect))
+  const notMeasured = (prediction.factors || []).filter(factor => factor.value === null)
+
+  return (
+    <div className="rounded-lg border border-gray-700 p-8 mb-6" style={{ backgroundColor: 'var(--color-bg-card)' }} data-testid="conversion-estimate">
+      <h2 className="text-2xl font-bold text-gray-100 mb-2">Estimated Conversion Rate</h2>
+      <p className="text-4xl font-bold text-brand-yellow mb-2">
+        {formatRate(low)} – {formatRate(high)}
+      </p>
+      <p className="text-sm text-gray-400 mb-6">
+        Starting from {formatRate(prediction.baseline_rate ?? prediction.probability)} for an average page
+        {prediction.improvement_potential > 0 && (
+          <> · up to +{formatRate(prediction.improvement_potential)} by fixing what holds this page back</>
+        )}
+        {prediction.model_version && <> · model v{prediction.model_version}</>}
+      </p>
+
+      {factors.length > 0 && (
+        <ul className="space-y-2">
+          {factors.map(factor => (
+            <li key={factor.id} className="flex items-center justify-between gap-4 p-3 bg-gray-800/30 rounded-lg border border-gray-700/50 text-sm">
+              <span className="text-gray-300">
+                {factor.label}: <span className="text-gray-100">{factor.display}</span>
+              </span>
+              <span className={`font-semibold ${factor.effect > 0 ? 'text-green-400' : factor.effect < 0 ? 'text-red-400' : 'text-gray-400'}`}>
+                {factor.effect > 0 ? '+' : ''}{Math.round(factor.effect * 100)}%
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {notMeasured.length > 0 && (
+        <p className="text-xs text-gray-500 mt-4">
+          Not measured, which widens the range: {notMeasured.map(factor => factor.label).join(', ')}
+        </p>
+      )}
+    </div>
+  )
+}
@@ -2,6 +2,7 @@
 
 import { useState } from 'react'
 import { ImpactLevel } from './AccordionSection'
+import { usePrintMode } from './PrintMode'
 import { IssueFix } from '@/lib/issue-fix-pairer'
 
 interface IssueWithFixProps {
@@ -31,7 +32,9 @@ const ImpactBadge = ({ impact }: { impact: ImpactLevel }) => {
 const MAX_TEXT_LENGTH = 150
 
 export default function IssueWithFix({ pair, defaultExpanded = false }: IssueWithFixProps) {
-  const [isExpanded, setIsExpanded] = useState(defaultExpanded)
+  const [expanded, setIsExpanded] = useState(defaultExpanded)
+  const printMode = usePrintMode()
+  const isExpanded = expanded || printMode
 
   const issueText = pair.issue
   const fixText = pair.fix
@@ -39,7 +42,7 @@ export default function IssueWithFix({ pair, defaultExpanded = false }: IssueWit
   const issueNeedsTruncation = issueText && issueText.length > MAX_TEXT_LENGTH
   const fixNeedsTruncation = fixText && fixText.length > MAX_TEXT_LENGTH
 
-  const shouldShowExpand = issueNeedsTruncation || fixNeedsTruncation
+  const shouldShowExpand = !printMode && (issueNeedsTruncation || fixNeedsTruncation)
 
   const displayIssue = issueText
     ? isExpanded || !issueNeedsTruncation
@@ -67,7 +70,7 @@ export default function IssueWithFix({ pair, defaultExpanded = false }: IssueWit
             <p className="text-sm text-gray-300 leading-relaxed">
               {displayFix}
             </p>
-            {fixNeedsTruncation && (
+            {fixNeedsTruncation && !printMode && (
               <button
                 onClick={() => setIsExpanded(!isExpanded)}
                 className="text-xs text-blue-400 hover:text-blue-300 mt-2 transition-colors"
@@ -143,7 +146,9 @@ interface IssuesWithFixesListProps {
 }
 
 export function IssuesWithFixesList({ pairs, title = "Issues & Fixes", defaultOpen = true }: IssuesWithFixesListProps) {
-  const [isOpen, setIsOpen] = useState(defaultOpen)
+  const [open, setIsOpen] = useState(defaultOpen)
+  const printMode = usePrintMode()
+  const isOpen = open || printMode
 
   if (pairs.length === 0) {
     return (
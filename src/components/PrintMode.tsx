@@ -0,0 +1,15 @@
+'use client'
+
+import { createContext, useContext } from 'react'
+
+/**
+ * Set while rendering the printable report. Collapsible sections and issue
+ * lists render fully expanded, and their toggle buttons are hidden.
+ */
+const PrintModeContext = createContext(false)
+
+export const PrintModeProvider = PrintModeContext.Provider
+
+export function usePrintMode(): boolean {
+  return useContext(PrintModeContext)
+}
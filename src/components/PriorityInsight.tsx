@@ -2,6 +2,7 @@
 
 import { generatePriorityInsight, type AnalysisResult, type ImpactLevel } from '@/lib/priority-insight'
 import { getVerdict } from '@/lib/verdict'
+import { ANALYZER_DEFINITIONS } from '@/lib/analyzers/definitions'
 
 interface PriorityInsightProps {
   analysisResult: AnalysisResult
@@ -56,12 +57,10 @@ export default function PriorityInsight({ analysisResult, overallScore }: Priori
   // Determine what metric is doing well (pick the highest-scoring section)
   const getMetricDescription = () => {
     const scores: { name: string; score: number }[] = []
-    if (analysisResult.pageLoadSpeed) scores.push({ name: 'speed', score: analysisResult.pageLoadSpeed.score })
-    if (analysisResult.ctaAnalysis) scores.push({ name: 'CTA', score: analysisResult.ctaAnalysis.score })
-    if (analysisResult.socialProof) scores.push({ name: 'social proof', score: analysisResult.socialProof.score })
-    if (analysisResult.whitespaceAssessment) scores.push({ name: 'whitespace', score: analysisResult.whitespaceAssessment.score })
-    if (analysisResult.imageOptimization) scores.push({ name: 'images', score: analysisResult.imageOptimization.score })
-    if (analysisResult.fontUsage) scores.push({ name: 'fonts', score: analysisResult.fontUsage.score })
+    for (const analyzer of ANALYZER_DEFINITIONS) {
+      const section = analysisResult[analyzer.resultKey]
+      if (typeof section?.score === 'number') scores.push({ name: analyzer.shortName, score: section.score })
+    }
 
     const highestScore = scores.sort((a, b) => b.score - a.score)[0]
     if (!highestScore) return null
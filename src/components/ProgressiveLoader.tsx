@@ -11,9 +11,16 @@ interface ProgressStep {
   estimatedTime: number // in seconds
 }
 
+interface ModuleProgressState {
+  status: 'pending' | 'running' | 'completed' | 'failed'
+  score?: number | null
+}
+
 interface ProgressiveLoaderProps {
   isLoading: boolean
   screenshotUrl?: string | null
+  // Live per-module progress from the analysis stream; replaces the timed steps when set
+  moduleProgress?: Record<string, ModuleProgressState> | null
 }
 
 const steps: ProgressStep[] = [
@@ -108,13 +115,37 @@ const steps: ProgressStep[] = [
   }
 ]
 
-export default function ProgressiveLoader({ isLoading, screenshotUrl }: ProgressiveLoaderProps) {
+const stepById = (id: string) => steps.find(step => step.id === id)!
+
+// Analysis modules mapped onto the loader's step labels and icons
+const moduleSteps: Record<string, ProgressStep> = {
+  speed: stepById('speed'),
+  font: { ...stepById('media'), id: 'font', label: 'Checking fonts', description: 'Analyzing typography and font loading' },
+  image: { ...stepById('media'), id: 'image', label: 'Checking images', description: 'Analyzing image formats, sizing and alt text' },
+  cta: stepById('cta'),
+  whitespace: { ...stepById('layout'), id: 'whitespace', label: 'Assessing whitespace', description: 'Analyzing layout density and spacing' },
+  socialProof: { ...stepById('layout'), id: 'socialProof', label: 'Finding social proof', description: 'Detecting testimonials, reviews and trust signals' },
+  valueProposition: { ...stepById('cta'), id: 'valueProposition', label: 'Reading your headline', description: 'Analyzing value proposition clarity and benefits' },
+  form: { ...stepById('cta'), id: 'form', label: 'Checking forms', description: 'Analyzing form fields, labels and submit buttons' },
+  mobile: { ...stepById('layout'), id: 'mobile', label: 'Testing on mobile', description: 'Re-checking CTAs, layout, images and tap targets on a phone screen' },
+  psychologicalTriggers: { ...stepById('cta'), id: 'psychologicalTriggers', label: 'Checking persuasion', description: 'Watching countdown timers and finding urgency, authority and free offers' },
+  copy: { ...stepById('cta'), id: 'copy', label: 'Reading your copy', description: 'Measuring readability, passive voice and jargon' },
+  accessibility: { ...stepById('layout'), id: 'accessibility', label: 'Checking accessibility', description: 'Testing contrast, labels, headings and keyboard access' },
+  seo: { ...stepById('page'), id: 'seo', label: 'Checking search metadata', description: 'Reading title, share tags, robots and structured data' }
+}
+
+export default function ProgressiveLoader({ isLoading, screenshotUrl, moduleProgress }: ProgressiveLoaderProps) {
   const [currentStepIndex, setCurrentStepIndex] = useState(0)
   const [progress, setProgress] = useState(0)
   const [stepProgress, setStepProgress] = useState(0)
 
+  const liveModules = moduleProgress && Object.keys(moduleProgress).length > 0
+    ? Object.entries(moduleProgress)
+    : null
+  const hasLiveProgress = liveModules !== null
+
   useEffect(() => {
-    if (!isLoading) {
+    if (!isLoading || hasLiveProgress) {
       setCurrentStepIndex(0)
       setProgress(0)
       setStepProgress(0)
@@ -149,10 +180,16 @@ export default function ProgressiveLoader({ isLoading, screenshotUrl }: Progress
     }, 100)
 
     return () => clearInterval(interval)
-  }, [isLoading, currentStepIndex])
+  }, [isLoading, currentStepIndex, hasLiveProgress])
 
   if (!isLoading) return null
 
+  if (liveModules) {
+    return (
+      <LiveModuleProgress modules={liveModules} screenshotUrl={screenshotUrl} />
+    )
+  }
+
   const currentStep = steps[currentStepIndex]
 
   return (
@@ -192,27 +229,7 @@ export default function ProgressiveLoader({ isLoading, screenshotUrl }: Progress
       </div>
 
       {/* Screenshot Preview with Scanning Animation */}
-      {screenshotUrl && (
-        <div className="mt-8 w-full">
-          <div className="relative bg-gray-800 rounded-lg p-4 border border-gray-700">
-            <h4 className="text-sm font-medium text-gray-300 mb-3">Page Screenshot</h4>
-            <div className="relative overflow-hidden rounded-lg">
-              <Image 
-                src={screenshotUrl} 
-                alt="Page screenshot" 
-                width={800}
-                height={600}
-                className="w-full max-h-64 object-cover object-top"
-              />
-              {/* Scanning Animation Overlay */}
-              <div className="absolute inset-0 bg-gradient-to-b from-transparent via-[#FFCC00]/20 to-transparent h-8 animate-scan"></div>
-            </div>
-            <p className="text-xs text-gray-400 mt-2">
-              Analyzing visual elements and layout...
-            </p>
-          </div>
-        </div>
-      )}
+      {screenshotUrl && <ScreenshotPreview screenshotUrl={screenshotUrl} />}
 
       {/* Steps List */}
       <div className="mt-8 w-full">
@@ -266,4 +283,138 @@ export default function ProgressiveLoader({ isLoading, screenshotUrl }: Progress
       </div>
     </div>
   )
-}
\ No newline at end of file
+}
+
+function ScreenshotPreview({ screenshotUrl }: { screenshotUrl: string }) {
+  return (
+    <div className="mt-8 w-full">
+      <div className="relative bg-gray-800 rounded-lg p-4 border border-gray-700">
+        <h4 className="text-sm font-medium text-gray-300 mb-3">Page Screenshot</h4>
+        <div className="relative overflow-hidden rounded-lg">
+          <Image 
+            src={screenshotUrl} 
+            alt="Page screenshot" 
+            width={800}
+            height={600}
+            className="w-full max-h-64 object-cover object-top"
+          />
+          {/* Scanning Animation Overlay */}
+          <div className="absolute inset-0 bg-gradient-to-b from-transparent via-[#FFCC00]/20 to-transparent h-8 animate-scan"></div>
+        </div>
+        <p className="text-xs text-gray-400 mt-2">
+          Analyzing visual elements and layout...
+        </p>
+      </div>
+    </div>
+  )
+}
+
+function LiveModuleProgress({
+  modules,
+  screenshotUrl
+}: {
+  modules: Array<[string, ModuleProgressState]>
+  screenshotUrl?: string | null
+}) {
+  const finishedCount = modules.filter(([, module]) => module.status === 'completed' || module.status === 'failed').length
+  const progress = (finishedCount / modules.length) * 100
+  const currentEntry = modules.find(([, module]) => module.status === 'running')
+    || modules.find(([, module]) => module.status === 'pending')
+  const currentStep = currentEntry ? moduleSteps[currentEntry[0]] : stepById('results')
+
+  return (
+    <div className="flex flex-col items-center justify-center py-12 max-w-md mx-auto">
+      {/* Main Progress Bar */}
+      <div className="w-full bg-gray-700 rounded-full h-2 mb-8">
+        <div 
+          className="bg-[#FFCC00] h-2 rounded-full transition-all duration-300 ease-out"
+          style={{ width: `${progress}%` }}
+        />
+      </div>
+
+      {/* Current Step */}
+      {currentStep && (
+        <div className="flex items-center gap-4 mb-6">
+          <div className="flex-shrink-0 w-12 h-12 bg-[#FFCC00] text-gray-900 rounded-full flex items-center justify-center">
+            {currentStep.icon}
+          </div>
+          <div className="text-left">
+            <h3 className="text-lg font-semibold text-gray-100">{currentStep.label}</h3>
+            <p className="text-sm text-gray-400">{currentStep.description}</p>
+          </div>
+        </div>
+      )}
+
+      {/* Progress Indicator */}
+      <div className="text-center">
+        <p className="text-gray-300 text-sm mb-2">
+          {finishedCount} of {modules.length} checks complete
+        </p>
+      </div>
+
+      {/* Screenshot Preview with Scanning Animation */}
+      {screenshotUrl && <ScreenshotPreview screenshotUrl={screenshotUrl} />}
+
+      {/* Module List */}
+      <div className="mt-8 w-full">
+        <div className="space-y-2">
+          {modules.map(([moduleId, module], index) => {
+            const step = moduleSteps[moduleId]
+            const label = step?.label || moduleId
+
+            return (
+              <div 
+                key={moduleId} 
+                className={`flex items-center gap-3 p-2 rounded-lg transition-colors ${
+                  module.status === 'running' 
+                    ? 'bg-yellow-900/30 border border-yellow-600/30' 
+                    : module.status === 'completed'
+                    ? 'bg-green-900/20'
+                    : module.status === 'failed'
+                    ? 'bg-red-900/20'
+                    : 'bg-gray-800/30'
+                }`}
+              >
+                <div className={`flex-shrink-0 w-6 h-6 rounded-full flex items-center justify-center text-xs ${
+                  module.status === 'completed'
+                    ? 'bg-green-600 text-white'
+                    : module.status === 'failed'
+                    ? 'bg-red-600 text-white'
+                    : module.status === 'running'
+                    ? 'bg-[#FFCC00] text-gray-900'
+                    : 'bg-gray-600 text-gray-300'
+                }`}>
+                  {module.status === 'completed' ? (
+                    <svg className="w-4 h-4" fill="currentColor" viewBox="0 0 20 20">
+                      <path fillRule="evenodd" d="M16.707 5.293a1 1 0 010 1.414l-8 8a1 1 0 01-1.414 0l-4-4a1 1 0 011.414-1.414L8 12.586l7.293-7.293a1 1 0 011.414 0z" clipRule="evenodd" />
+                    </svg>
+                  ) : module.status === 'failed' ? (
+                    '!'
+                  ) : module.status === 'running' ? (
+                    <div className="w-2 h-2 bg-gray-900 rounded-full animate-pulse" />
+                  ) : (
+                    index + 1
+                  )}
+                </div>
+                <span className={`flex-1 text-sm ${
+                  module.status === 'running' 
+                    ? 'text-yellow-200 font-medium' 
+                    : module.status === 'completed'
+                    ? 'text-green-300'
+                    : module.status === 'failed'
+                    ? 'text-red-300'
+                    : 'text-gray-400'
+                }`}>
+                  {label}
+                </span>
+                {module.status === 'completed' && typeof module.score === 'number' && (
+                  <span className="text-xs font-medium text-gray-300">{module.score}/100</span>
+                )}
+              </div>
+            )
+          })}
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,209 @@
+'use client'
+
+import { useState } from 'react'
+import type { RecommendationStatus, TrackedRecommendation } from '@/types/database'
+
+interface RecommendationChecklistProps {
+  recommendations: TrackedRecommendation[]
+}
+
+const STATUS_OPTIONS: Array<{ value: RecommendationStatus; label: string }> = [
+  { value: 'suggested', label: 'To do' },
+  { value: 'planned', label: 'Planned' },
+  { value: 'testing', label: 'Testing' },
+  { value: 'implemented', label: 'Shipped' },
+  { value: 'dismissed', label: 'Dismissed' }
+]
+
+const IMPACT_STYLES: Record<TrackedRecommendation['expected_impact'], string> = {
+  high: 'bg-amber-900/30 text-amber-300 border-amber-500/50',
+  medium: 'bg-blue-900/30 text-blue-300 border-blue-500/50',
+  low: 'bg-gray-700/50 text-gray-300 border-gray-600'
+}
+
+const CATEGORY_LABELS: Record<string, string> = {
+  fonts: 'Fonts',
+  images: 'Images',
+  cta: 'CTAs',
+  speed: 'Page Speed',
+  whitespace: 'Whitespace',
+  'social-proof': 'Social Proof',
+  'value-proposition': 'Value Proposition',
+  forms: 'Forms',
+  mobile: 'Mobile',
+  psychology: 'Psychological Triggers',
+  copy: 'Copy',
+  accessibility: 'Accessibility',
+  seo: 'SEO'
+}
+
+/**
+ * Every recommendation of the report as a checklist, so a team can track
+ * which fixes have shipped. Status and notes are saved as they change.
+ */
+export default function RecommendationChecklist({ recommendations: initialRecommendations }: RecommendationChecklistProps) {
+  const [recommendations, setRecommendations] = useState(initialRecommendations)
+  const [editingNotesId, setEditingNotesId] = useState<string | null>(null)
+  const [notesDraft, setNotesDraft] = useState('')
+  const [savingId, setSavingId] = useState<string | null>(null)
+  const [error, setError] = useState('')
+  const [showDismissed, setShowDismissed] = useState(false)
+
+  const saveRecommendation = async (id: string, update: { status?: RecommendationStatus; implementation_notes?: string }) => {
+    setSavingId(id)
+    setError('')
+    try {
+      const response = await fetch(`/api/recommendations/${id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(update)
+      })
+      if (!response.ok) {
+        throw new Error('Failed to update recommendation')
+      }
+      const data = await response.json()
+      setRecommendations(current => current.map(recommendation =>
+        recommendation.id === id ? data.recommendation : recommendation
+      ))
+      return true
+    } catch (err) {
+      console.error('Error updating recommendation:', err)
+      setError('Your change could not be saved. Please try again.')
+      return false
+    } finally {
+      setSavingId(null)
+    }
+  }
+
+  const saveNotes = async (id: string) => {
+    if (await saveRecommendation(id, { implementation_notes: notesDraft })) {
+      setEditingNotesId(null)
+    }
+  }
+
+  const open = recommendations.filter(recommendation => recommendation.status !== 'dismissed')
+  const shipped = open.filter(recommendation => recommendation.status === 'implemented').length
+  const dismissedCount = recommendations.length - open.length
+  const visible = showDismissed ? recommendations : open
+  const percent = open.length > 0 ? Math.round((shipped / open.length) * 100) : 0
+
+  return (
+    <div className="rounded-lg border border-gray-700 p-8 mb-6" style={{ backgroundColor: 'var(--color-bg-card)' }} data-testid="recommendation-checklist">
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4 mb-4">
+        <h2 className="text-2xl font-bold text-gray-100">Fix Checklist</h2>
+        <span className="text-sm text-gray-300">
+          {shipped} of {open.length} shipped
+        </span>
+      </div>
+
+      <div className="h-2 bg-gray-700 rounded-full overflow-hidden mb-6">
+        <div className="h-full bg-green-500 transition-all duration-500" style={{ width: `${percent}%` }} />
+      </div>
+
+      {error && <p className="text-red-400 text-sm mb-4">{error}</p>}
+
+      <ul className="space-y-3">
+        {visible.map(recommendation => {
+          const isShipped = recommendation.status === 'implemented'
+          const isDismissed = recommendation.status === 'dismissed'
+          const isSaving = savingId === recommendation.id
+          return (
+            <li
+              key={recommendation.id}
+              className={`p-4 bg-gray-800/30 rounded-lg border border-gray-700/50 ${isDismissed ? 'opacity-60' : ''}`}
+              data-testid={`recommendation-${recommendation.recommendation_key}`}
+            >
+              <div className="flex items-start gap-3">
+                <input
+                  type="checkbox"
+                  checked={isShipped}
+                  disabled={isSaving}
+                  onChange={() => saveRecommendation(recommendation.id, { status: isShipped ? 'suggested' : 'implemented' })}
+                  className="mt-1 h-4 w-4 accent-green-500"
+                  aria-label={`Mark "${recommendation.title}" as shipped`}
+                />
+                <div className="flex-1 min-w-0">
+                  <div className="flex flex-wrap items-center gap-2 mb-1">
+                    <span className={`px-2 py-0.5 rounded text-xs font-medium border capitalize ${IMPACT_STYLES[recommendation.expected_impact]}`}>
+                      {recommendation.expected_impact}
+                    </span>
+                    <span className="text-xs text-gray-400">
+                      {CATEGORY_LABELS[recommendation.category] || recommendation.category}
+                      {recommendation.affected_area && ` · ${recommendation.affected_area}`}
+                    </span>
+                  </div>
+                  <p className={`text-sm text-gray-300 ${isShipped || isDismissed ? 'line-through text-gray-500' : ''}`}>
+                    {recommendation.description}
+                  </p>
+
+                  {editingNotesId === recommendation.id ? (
+                    <div className="mt-3">
+                      <textarea
+                        value={notesDraft}
+                        onChange={event => setNotesDraft(event.target.value)}
+                        rows={3}
+                        maxLength={2000}
+                        placeholder="What was changed, where and when"
+                        className="w-full px-3 py-2 bg-gray-900 border border-gray-600 rounded-lg text-gray-100 text-sm focus:outline-none focus:ring-2 focus:ring-brand-yellow"
+                      />
+                      <div className="flex gap-3 mt-2">
+                        <button
+                          onClick={() => saveNotes(recommendation.id)}
+                          disabled={isSaving}
+                          className="px-3 py-1 bg-brand-yellow text-gray-900 text-sm font-semibold rounded hover:bg-yellow-500 transition-colors disabled:opacity-50"
+                        >
+                          Save notes
+                        </button>
+                        <button
+                          onClick={() => setEditingNotesId(null)}
+                          className="text-sm text-gray-400 hover:text-gray-300"
+                        >
+                          Cancel
+                        </button>
+                      </div>
+                    </div>
+                  ) : (
+                    <>
+                      {recommendation.implementation_notes && (
+                        <p className="mt-2 text-sm text-gray-400 whitespace-pre-line">{recommendation.implementation_notes}</p>
+                      )}
+                      <button
+                        onClick={() => {
+                          setEditingNotesId(recommendation.id)
+                          setNotesDraft(recommendation.implementation_notes || '')
+                        }}
+                        className="mt-2 text-xs text-blue-400 hover:text-blue-300"
+                      >
+                        {recommendation.implementation_notes ? 'Edit notes' : 'Add notes'}
+                      </button>
+                    </>
+                  )}
+                </div>
+                <select
+                  value={recommendation.status}
+                  disabled={isSaving}
+                  onChange={event => saveRecommendation(recommendation.id, { status: event.target.value as RecommendationStatus })}
+                  className="bg-gray-900 border border-gray-600 rounded text-sm text-gray-200 px-2 py-1"
+                  aria-label={`Status of "${recommendation.title}"`}
+                >
+                  {STATUS_OPTIONS.map(option => (
+                    <option key={option.value} value={option.value}>{option.label}</option>
+                  ))}
+                </select>
+              </div>
+            </li>
+          )
+        })}
+      </ul>
+
+      {dismissedCount > 0 && (
+        <button
+          onClick={() => setShowDismissed(!showDismissed)}
+          className="mt-4 text-sm text-blue-400 hover:text-blue-300"
+        >
+          {showDismissed ? 'Hide dismissed' : `Show ${dismissedCount} dismissed`}
+        </button>
+      )}
+    </div>
+  )
+}
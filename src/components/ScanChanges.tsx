@@ -0,0 +1,121 @@
+import React from 'react'
+import Link from 'next/link'
+import type { AnalysisChanges, ModuleChange } from '@/types/database'
+
+interface ScanChangesProps {
+  changes: AnalysisChanges
+}
+
+function Delta({ value }: { value: number | null }) {
+  if (value === null) {
+    return <span className="text-gray-500 text-sm">n/a</span>
+  }
+  const className = value > 0 ? 'text-green-400' : value < 0 ? 'text-red-400' : 'text-gray-400'
+  return <span className={`text-sm font-semibold ${className}`}>{value > 0 ? `+${value}` : value}</span>
+}
+
+const MARKERS = {
+  added: { symbol: '+', className: 'text-green-400' },
+  removed: { symbol: '−', className: 'text-red-400' },
+  problem: { symbol: '!', className: 'text-red-400' },
+  fixed: { symbol: '✓', className: 'text-green-400' },
+  changed: { symbol: '↻', className: 'text-yellow-400' }
+}
+
+function ChangeList({ title, items, marker }: { title: string; items: string[]; marker: keyof typeof MARKERS }) {
+  if (items.length === 0) {
+    return null
+  }
+  return (
+    <div>
+      <h4 className="font-semibold text-sm uppercase tracking-wide text-gray-100 mb-3">{title}</h4>
+      <ul className="space-y-2">
+        {items.map((item, index) => (
+          <li key={`${index}-${item}`} className="p-3 bg-gray-800/30 rounded-lg border border-gray-700/50 text-sm text-gray-300">
+            <span className={`mr-2 font-semibold ${MARKERS[marker].className}`} aria-hidden="true">
+              {MARKERS[marker].symbol}
+            </span>
+            {item}
+          </li>
+        ))}
+      </ul>
+    </div>
+  )
+}
+
+function withModuleName(modules: ModuleChange[], key: 'newIssues' | 'resolvedIssues'): string[] {
+  return modules.flatMap(moduleChange => moduleChange[key].map(issue => `${moduleChange.name}: ${issue}`))
+}
+
+export default function ScanChanges({ changes }: ScanChangesProps) {
+  const changedModules = changes.modules.filter(moduleChange =>
+    moduleChange.scoreDelta !== 0 || moduleChange.newIssues.length > 0 || moduleChange.resolvedIssues.length > 0
+  )
+  const newIssues = withModuleName(changes.modules, 'newIssues')
+  const resolvedIssues = withModuleName(changes.modules, 'resolvedIssues')
+  const { cta, socialProof } = changes
+  const primaryChanged = cta && cta.previousPrimary !== cta.newPrimary
+
+  return (
+    <div className="rounded-lg border border-gray-700 p-8 mb-6" style={{ backgroundColor: 'var(--color-bg-card)' }} data-testid="scan-changes">
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4 mb-6">
+        <h2 className="text-2xl font-bold text-gray-100">What Changed Since Last Scan</h2>
+        <span className="text-sm text-gray-300">
+          {changes.previousScore ?? 'n/a'} → {changes.newScore ?? 'n/a'} (<Delta value={changes.scoreDelta} />)
+        </span>
+      </div>
+
+      <p className="text-gray-400 text-sm mb-6">
+        Compared with the{' '}
+        <Link href={`/reports/${changes.parentAnalysisId}`} className="text-blue-400 hover:text-blue-300 underline">
+          scan from {new Date(changes.previousAnalyzedAt).toLocaleDateString()}
+        </Link>
+        {changes.regressions.length > 0 && `. ${changes.regressions.length} area${changes.regressions.length === 1 ? '' : 's'} got worse.`}
+      </p>
+
+      {changedModules.length > 0 && (
+        <div className="rounded-lg border border-gray-700/50 mb-6">
+          {changedModules.map(moduleChange => (
+            <div
+              key={moduleChange.analyzerId}
+              className="grid grid-cols-[1fr_auto_auto] gap-4 px-4 py-3 items-center border-t first:border-t-0 border-gray-700/50 bg-gray-800/30"
+              data-testid={`change-row-${moduleChange.analyzerId}`}
+            >
+              <span className="text-sm text-gray-300">{moduleChange.name}</span>
+              <span className="text-sm text-gray-400">{moduleChange.previousScore ?? 'n/a'} → {moduleChange.newScore ?? 'n/a'}</span>
+              <Delta value={moduleChange.scoreDelta} />
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="grid gap-6 md:grid-cols-2">
+        <ChangeList title="New Issues" items={newIssues} marker="problem" />
+        <ChangeList title="Resolved Issues" items={resolvedIssues} marker="fixed" />
+        {primaryChanged && (
+          <ChangeList
+            title="Primary CTA"
+            items={[`"${cta.previousPrimary || 'none'}" → "${cta.newPrimary || 'none'}"`]}
+            marker="changed"
+          />
+        )}
+        {cta && <ChangeList title="CTAs Added" items={cta.added} marker="added" />}
+        {cta && <ChangeList title="CTAs Removed" items={cta.removed} marker="removed" />}
+        {socialProof && (
+          <ChangeList
+            title="Social Proof Added"
+            items={socialProof.added.map(element => `${element.type.replace('-', ' ')}: ${element.text}`)}
+            marker="added"
+          />
+        )}
+        {socialProof && (
+          <ChangeList
+            title="Social Proof Removed"
+            items={socialProof.removed.map(element => `${element.type.replace('-', ' ')}: ${element.text}`)}
+            marker="removed"
+          />
+        )}
+      </div>
+    </div>
+  )
+}
@@ -1,14 +1,12 @@
 'use client'
 
 import { getVerdict } from '@/lib/verdict'
+import { getGrade } from '@/lib/grading'
+import { getAnalyzersInDisplayOrder } from '@/lib/analyzers/definitions'
 
 interface ScoreBarProps {
-  pageSpeed?: { score: number }
-  fontUsage?: { score: number }
-  imageOptimization?: { score: number }
-  ctaAnalysis?: { score: number }
-  whitespaceAssessment?: { score: number }
-  socialProof?: { score: number }
+  // Section results keyed by analyzer result key (pageLoadSpeed, ctaAnalysis, ...)
+  analysisResult: Record<string, any>
   overallScore?: number
   sticky?: boolean
 }
@@ -68,6 +66,7 @@ const ScoreItem = ({
   }
 
   const status = getStatusIndicator(score)
+  const grade = getGrade(score)
 
   if (compact) {
     return (
@@ -78,6 +77,7 @@ const ScoreItem = ({
         <span className="text-base">{emoji}</span>
         <div className="flex items-center gap-1.5">
           <div className={`text-lg font-bold ${getScoreColor(score)}`}>{score}</div>
+          <span className="text-xs font-semibold text-gray-400" aria-label={`Grade ${grade}`}>{grade}</span>
           <span aria-label={status.ariaLabel}>{status.icon}</span>
         </div>
       </button>
@@ -94,6 +94,7 @@ const ScoreItem = ({
         <div className="text-xs sm:text-sm text-gray-400 font-medium">{label}</div>
         <div className="flex items-center gap-1.5 sm:gap-2">
           <div className={`text-lg sm:text-xl font-bold ${getScoreColor(score)}`}>{score}</div>
+          <span className="text-xs sm:text-sm font-semibold text-gray-400" aria-label={`Grade ${grade}`}>{grade}</span>
           <span aria-label={status.ariaLabel}>{status.icon}</span>
         </div>
       </div>
@@ -102,23 +103,20 @@ const ScoreItem = ({
 }
 
 export default function ScoreBar({
-  pageSpeed,
-  fontUsage,
-  imageOptimization,
-  ctaAnalysis,
-  whitespaceAssessment,
-  socialProof,
+  analysisResult,
   overallScore,
   sticky = false
 }: ScoreBarProps) {
-  const scores = [
-    { emoji: '⚡', label: 'Speed', score: pageSpeed?.score || 0, sectionId: 'speed-section' },
-    { emoji: '🎯', label: 'CTA', score: ctaAnalysis?.score || 0, sectionId: 'cta-section' },
-    { emoji: '⭐', label: 'Social', score: socialProof?.score || 0, sectionId: 'social-section' },
-    { emoji: '📐', label: 'Space', score: whitespaceAssessment?.score || 0, sectionId: 'whitespace-section' },
-    { emoji: '🖼️', label: 'Images', score: imageOptimization?.score || 0, sectionId: 'images-section' },
-    { emoji: '🔤', label: 'Fonts', score: fontUsage?.score || 0, sectionId: 'fonts-section' }
-  ]
+  // Analyzers without a score (not run, added after this report was run, or
+  // not applicable to the page) are skipped
+  const scores = getAnalyzersInDisplayOrder()
+    .filter(analyzer => typeof analysisResult[analyzer.resultKey]?.score === 'number')
+    .map(analyzer => ({
+      emoji: analyzer.section.icon,
+      label: analyzer.section.label,
+      score: analysisResult[analyzer.resultKey].score,
+      sectionId: analyzer.section.sectionId
+    }))
 
   const handleScrollToTop = () => {
     window.scrollTo({ top: 0, behavior: 'smooth' })
@@ -143,7 +141,7 @@ export default function ScoreBar({
               <div className="text-lg sm:text-xl font-bold text-brand-yellow">{overallScore}/100</div>
             </div>
             <span className={`px-2 py-0.5 rounded-full text-xs font-semibold ${verdict.bgClass} ${verdict.colorClass}`}>
-              {verdict.text}
+              {verdict.grade} · {verdict.text}
             </span>
           </button>
         )}
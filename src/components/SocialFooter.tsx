@@ -47,7 +47,7 @@ export default function SocialFooter() {
   const year = new Date().getFullYear()
 
   return (
-    <footer className="mt-24 border-t border-gray-800 bg-gradient-to-br from-gray-900/80 via-[#0f1424] to-black/80 text-gray-300">
+    <footer className="mt-24 print:hidden border-t border-gray-800 bg-gradient-to-br from-gray-900/80 via-[#0f1424] to-black/80 text-gray-300">
       <div className="container mx-auto px-4 py-12 md:py-14">
         <div className="grid gap-10 md:grid-cols-2 lg:grid-cols-4">
           <div className="space-y-4 lg:col-span-2">
@@ -0,0 +1,135 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import type { TestPlan } from '@/types/database'
+
+interface TestPlansProps {
+  analysisId: string
+}
+
+/**
+ * A/B test plans for the report's high-impact recommendations. Entering the
+ * page's conversion rate and traffic adds how many visitors, and roughly how
+ * long, each test needs.
+ */
+export default function TestPlans({ analysisId }: TestPlansProps) {
+  const [plans, setPlans] = useState<TestPlan[]>([])
+  const [baselineRate, setBaselineRate] = useState('')
+  const [dailyVisitors, setDailyVisitors] = useState('')
+  const [error, setError] = useState('')
+
+  const getQuery = (format?: string) => {
+    const query = new URLSearchParams()
+    if (baselineRate) query.set('baselineRate', baselineRate)
+    if (dailyVisitors) query.set('dailyVisitors', dailyVisitors)
+    if (format) query.set('format', format)
+    return query.toString()
+  }
+
+  const fetchPlans = useCallback(async (query: string) => {
+    try {
+      const response = await fetch(`/api/reports/${analysisId}/test-plans?${query}`)
+      const data = await response.json()
+      if (!response.ok) {
+        setError(data.error || 'Failed to load test plans')
+        return
+      }
+      setPlans(data.plans || [])
+      setError('')
+    } catch (err) {
+      console.error('Error fetching test plans:', err)
+      setError('Failed to load test plans')
+    }
+  }, [analysisId])
+
+  useEffect(() => {
+    fetchPlans('')
+  }, [fetchPlans])
+
+  const handleSubmit = (event: React.FormEvent) => {
+    event.preventDefault()
+    fetchPlans(getQuery())
+  }
+
+  if (plans.length === 0 && !error) {
+    return null
+  }
+
+  return (
+    <div className="rounded-lg border border-gray-700 p-8 mb-6" style={{ backgroundColor: 'var(--color-bg-card)' }} data-testid="test-plans">
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4 mb-4">
+        <h2 className="text-2xl font-bold text-gray-100">A/B Test Plans</h2>
+        <a
+          href={`/api/reports/${analysisId}/test-plans?${getQuery('markdown')}`}
+          className="inline-flex items-center px-4 py-2 bg-brand-yellow text-gray-900 text-sm font-semibold rounded-lg hover:bg-yellow-500 transition-colors"
+        >
+          Download Test Brief
+        </a>
+      </div>
+
+      <form onSubmit={handleSubmit} className="flex flex-col sm:flex-row sm:items-end gap-4 mb-6">
+        <label className="text-sm text-gray-400">
+          Baseline conversion rate (%)
+          <input
+            type="number"
+            min="0.01"
+            max="50"
+            step="0.01"
+            value={baselineRate}
+            onChange={event => setBaselineRate(event.target.value)}
+            placeholder="2.5"
+            className="block mt-1 w-40 px-3 py-2 bg-gray-900 border border-gray-600 rounded-lg text-gray-100"
+          />
+        </label>
+        <label className="text-sm text-gray-400">
+          Visitors per day
+          <input
+            type="number"
+            min="1"
+            step="1"
+            value={dailyVisitors}
+            onChange={event => setDailyVisitors(event.target.value)}
+            placeholder="1000"
+            className="block mt-1 w-40 px-3 py-2 bg-gray-900 border border-gray-600 rounded-lg text-gray-100"
+          />
+        </label>
+        <button
+          type="submit"
+          className="px-4 py-2 border border-gray-600 text-gray-200 text-sm font-medium rounded-lg hover:bg-gray-700 transition-colors"
+        >
+          Estimate sample sizes
+        </button>
+      </form>
+
+      {error && <p className="text-red-400 text-sm mb-4">{error}</p>}
+
+      <div className="space-y-4">
+        {plans.map(plan => (
+          <div key={plan.recommendationId} className="p-4 bg-gray-800/30 rounded-lg border border-gray-700/50">
+            <h3 className="font-semibold text-gray-100 mb-2">{plan.title}</h3>
+            <p className="text-sm text-gray-300 mb-3">{plan.hypothesis}</p>
+            <div className="grid gap-3 md:grid-cols-2 text-sm mb-3">
+              <div>
+                <div className="text-xs uppercase tracking-wide text-gray-400 mb-1">Control</div>
+                <p className="text-gray-300">{plan.control}</p>
+              </div>
+              <div>
+                <div className="text-xs uppercase tracking-wide text-gray-400 mb-1">Variant</div>
+                <p className="text-gray-300">{plan.variant}</p>
+              </div>
+            </div>
+            <p className="text-xs text-gray-400">
+              Primary metric: {plan.primaryMetric} · Also watch: {plan.secondaryMetrics.join(', ')} · Sized for +{plan.expectedLiftPercentage}%
+            </p>
+            {plan.sampleSize && (
+              <p className="text-sm text-brand-yellow mt-2">
+                {plan.sampleSize.visitorsPerVariant.toLocaleString()} visitors per variant
+                {plan.sampleSize.estimatedDays !== null && ` · about ${plan.sampleSize.estimatedDays} days`}
+              </p>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  )
+}
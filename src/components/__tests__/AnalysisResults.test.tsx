@@ -2,6 +2,7 @@ import React from 'react'
 import { render, screen } from '@testing-library/react'
 import '@testing-library/jest-dom'
 import AnalysisResults from '../AnalysisResults'
+import { PrintModeProvider } from '../PrintMode'
 
 const mockAnalysisResult = {
   url: 'https://example.com',
@@ -147,6 +148,28 @@ describe('AnalysisResults', () => {
     expect(screen.getByText('85/100')).toBeInTheDocument()
     expect(screen.queryByText(/Grade/)).not.toBeInTheDocument()
   })
+
+  it('expands passed sections in print mode', () => {
+    const result = {
+      url: 'https://example.com',
+      fontUsage: { score: 95, fontFamilies: ['Inter'], fontCount: 1, issues: [], recommendations: ['Keep using one font family'] },
+      overallScore: 95,
+      status: 'completed'
+    } as any
+
+    const { unmount } = render(<AnalysisResults result={result} />)
+    expect(screen.getByText('Passed')).toBeInTheDocument()
+    unmount()
+
+    render(
+      <PrintModeProvider value={true}>
+        <AnalysisResults result={result} />
+      </PrintModeProvider>
+    )
+    expect(screen.queryByText('Passed')).not.toBeInTheDocument()
+    expect(screen.queryByLabelText('Collapse section')).not.toBeInTheDocument()
+    expect(screen.getByText('Keep using one font family')).toBeInTheDocument()
+  })
 })
 
 describe('AnalysisResults Component', () => {
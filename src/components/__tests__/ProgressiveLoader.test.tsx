@@ -175,4 +175,39 @@ describe('ProgressiveLoader', () => {
     // Progress information should be accessible
     expect(screen.getByText(/Step\s+1\s+of\s+8/)).toBeInTheDocument();
   });
-});
\ No newline at end of file
+
+  describe('with live module progress', () => {
+    const moduleProgress = {
+      speed: { status: 'completed' as const, score: 82 },
+      font: { status: 'failed' as const, score: 0 },
+      cta: { status: 'running' as const },
+      socialProof: { status: 'pending' as const }
+    };
+
+    it('should show each module with its real status instead of timed steps', () => {
+      render(<ProgressiveLoader isLoading={true} moduleProgress={moduleProgress} />);
+
+      expect(screen.getByText('2 of 4 checks complete')).toBeInTheDocument();
+      expect(screen.getByText('82/100')).toBeInTheDocument();
+      expect(screen.getByText('Checking fonts')).toHaveClass('text-red-300');
+      expect(screen.getByText('Finding social proof')).toHaveClass('text-gray-400');
+      expect(screen.queryByText('Launching browser')).not.toBeInTheDocument();
+    });
+
+    it('should show the running module as the current step', () => {
+      render(<ProgressiveLoader isLoading={true} moduleProgress={moduleProgress} />);
+
+      expect(screen.getByRole('heading', { name: 'Evaluating CTAs' })).toBeInTheDocument();
+    });
+
+    it('should not advance on timers', () => {
+      render(<ProgressiveLoader isLoading={true} moduleProgress={moduleProgress} />);
+
+      act(() => {
+        jest.advanceTimersByTime(10000);
+      });
+
+      expect(screen.getByText('2 of 4 checks complete')).toBeInTheDocument();
+    });
+  });
+});
@@ -0,0 +1,131 @@
+import React from 'react'
+import SectionHeader from '../ui/SectionHeader'
+import CategoryTag from '../ui/CategoryTag'
+import { MetricsGrid, MetricItem } from '../ui/MetricsGrid'
+import { IssuesWithFixesList } from '../IssueWithFix'
+import { pairIssuesWithFixes } from '@/lib/issue-fix-pairer'
+
+interface Accessibility {
+  score: number
+  lang: string | null
+  contrast: {
+    checked: number
+    failing: number
+    examples: Array<{
+      text: string
+      ratio: number
+      required: number
+      color: string
+      background: string
+    }>
+  }
+  headings: {
+    levels: number[]
+    hasH1: boolean
+    skippedLevels: string[]
+  }
+  landmarks: Record<string, boolean>
+  formLabels: {
+    total: number
+    unlabeled: number
+    examples: string[]
+  }
+  focusability: {
+    unfocusable: number
+    examples: string[]
+  }
+  linkText: {
+    total: number
+    generic: number
+    empty: number
+    examples: string[]
+  }
+  images: {
+    total: number
+    missingAlt: number
+  }
+  issues: string[]
+  recommendations: string[]
+}
+
+interface AccessibilitySectionProps {
+  accessibility: Accessibility
+}
+
+const LANDMARK_LABELS: Record<string, string> = {
+  banner: 'Header',
+  navigation: 'Navigation',
+  main: 'Main',
+  contentinfo: 'Footer'
+}
+
+const categoryConfig = {
+  icon: '♿',
+  colorTheme: 'lime',
+  bgClass: 'bg-lime-950/20',
+  borderClass: 'border-lime-800/40',
+  iconClass: 'text-lime-400',
+  impact: 'Medium Impact'
+}
+
+export default function AccessibilitySection({ accessibility }: AccessibilitySectionProps) {
+  const pairs = pairIssuesWithFixes(accessibility.issues, accessibility.recommendations)
+  const hasHighImpact = pairs.some(p => p.impact === 'High')
+  const { contrast, formLabels, focusability, linkText } = accessibility
+
+  return (
+    <div>
+      <div className={`rounded-xl border p-8 ${categoryConfig.bgClass} ${categoryConfig.borderClass}`}>
+        <SectionHeader
+          title="Accessibility"
+          score={accessibility.score}
+          config={categoryConfig}
+        />
+
+        <MetricsGrid className="mb-6">
+          <MetricItem label="Low Contrast Text" value={`${contrast.failing} of ${contrast.checked}`} />
+          <MetricItem label="Unlabeled Fields" value={formLabels.total > 0 ? `${formLabels.unlabeled} of ${formLabels.total}` : 'No forms'} />
+          <MetricItem label="No Keyboard Access" value={focusability.unfocusable} />
+          <MetricItem label="Vague Links" value={linkText.generic + linkText.empty} />
+          <MetricItem label="Images Without Alt" value={accessibility.images.missingAlt} />
+          <MetricItem label="Page Language" value={accessibility.lang || 'Missing'} />
+        </MetricsGrid>
+
+        <div className="mb-6">
+          <h4 className="font-semibold text-sm uppercase tracking-wide text-gray-100 mb-4">Landmarks</h4>
+          <div className="flex flex-wrap gap-2">
+            {Object.entries(LANDMARK_LABELS).map(([landmark, label]) => (
+              <CategoryTag key={landmark} colorTheme={accessibility.landmarks[landmark] ? categoryConfig.colorTheme : 'gray'}>
+                {accessibility.landmarks[landmark] ? '✓' : '✗'} {label}
+              </CategoryTag>
+            ))}
+          </div>
+        </div>
+
+        {contrast.examples.length > 0 && (
+          <div className="mb-6">
+            <h4 className="font-semibold text-sm uppercase tracking-wide text-gray-100 mb-4">Low Contrast Text</h4>
+            <ul className="space-y-2">
+              {contrast.examples.map((example, index) => (
+                <li key={index} className="flex items-center justify-between text-sm p-3 bg-gray-800/30 rounded-lg border border-gray-700/50">
+                  <span
+                    className="truncate px-2 py-1 rounded"
+                    style={{ color: example.color, backgroundColor: example.background }}
+                  >
+                    {example.text}
+                  </span>
+                  <span className="text-gray-500 ml-4 whitespace-nowrap">{example.ratio}:1 (needs {example.required}:1)</span>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        <IssuesWithFixesList
+          pairs={pairs}
+          defaultOpen={hasHighImpact}
+        />
+      </div>
+    </div>
+  )
+}
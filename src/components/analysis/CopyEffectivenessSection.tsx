@@ -0,0 +1,96 @@
+import React from 'react'
+import SectionHeader from '../ui/SectionHeader'
+import CategoryTag from '../ui/CategoryTag'
+import { MetricsGrid, MetricItem } from '../ui/MetricsGrid'
+import { IssuesWithFixesList } from '../IssueWithFix'
+import { pairIssuesWithFixes } from '@/lib/issue-fix-pairer'
+
+interface CopyEffectiveness {
+  score: number
+  wordCount: number
+  sentenceCount: number
+  fleschReadingEase: number
+  fleschKincaidGrade: number
+  averageSentenceLength: number
+  longSentences: number
+  passiveVoiceRate: number
+  passiveExamples: string[]
+  youCount: number
+  weCount: number
+  youWeRatio: number
+  jargonDensity: number
+  jargonTerms: string[]
+  longHeadings: string[]
+  issues: string[]
+  recommendations: string[]
+}
+
+interface CopyEffectivenessSectionProps {
+  copyEffectiveness: CopyEffectiveness
+}
+
+const categoryConfig = {
+  icon: '✍️',
+  colorTheme: 'teal',
+  bgClass: 'bg-teal-950/20',
+  borderClass: 'border-teal-800/40',
+  iconClass: 'text-teal-400',
+  impact: 'Medium Impact'
+}
+
+export default function CopyEffectivenessSection({ copyEffectiveness }: CopyEffectivenessSectionProps) {
+  const pairs = pairIssuesWithFixes(copyEffectiveness.issues, copyEffectiveness.recommendations)
+  const hasHighImpact = pairs.some(p => p.impact === 'High')
+
+  return (
+    <div>
+      <div className={`rounded-xl border p-8 ${categoryConfig.bgClass} ${categoryConfig.borderClass}`}>
+        <SectionHeader
+          title="Copy Effectiveness"
+          score={copyEffectiveness.score}
+          config={categoryConfig}
+        />
+
+        <MetricsGrid className="mb-6">
+          <MetricItem label="Reading Grade" value={copyEffectiveness.fleschKincaidGrade} />
+          <MetricItem label="Reading Ease" value={`${copyEffectiveness.fleschReadingEase}/100`} />
+          <MetricItem label="Avg Sentence Length" value={`${copyEffectiveness.averageSentenceLength} words`} />
+          <MetricItem label="Passive Voice" value={`${Math.round(copyEffectiveness.passiveVoiceRate * 100)}%`} />
+          <MetricItem label="You vs We" value={`${copyEffectiveness.youCount} / ${copyEffectiveness.weCount}`} />
+          <MetricItem label="Words Analyzed" value={copyEffectiveness.wordCount} />
+        </MetricsGrid>
+
+        {copyEffectiveness.jargonTerms.length > 0 && (
+          <div className="mb-6">
+            <h4 className="font-semibold text-sm uppercase tracking-wide text-gray-100 mb-4">Jargon Found</h4>
+            <div className="flex flex-wrap gap-2">
+              {copyEffectiveness.jargonTerms.map(term => (
+                <CategoryTag key={term} colorTheme={categoryConfig.colorTheme}>
+                  {term}
+                </CategoryTag>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {copyEffectiveness.passiveExamples.length > 0 && (
+          <div className="mb-6">
+            <h4 className="font-semibold text-sm uppercase tracking-wide text-gray-100 mb-4">Passive Sentences</h4>
+            <ul className="space-y-2">
+              {copyEffectiveness.passiveExamples.map((sentence, index) => (
+                <li key={index} className="p-3 bg-gray-800/30 rounded-lg border border-gray-700/50 text-sm text-gray-300">
+                  &ldquo;{sentence}&rdquo;
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        <IssuesWithFixesList
+          pairs={pairs}
+          defaultOpen={hasHighImpact}
+        />
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,103 @@
+import React from 'react'
+import SectionHeader from '../ui/SectionHeader'
+import CategoryTag from '../ui/CategoryTag'
+import { MetricsGrid, MetricItem } from '../ui/MetricsGrid'
+import { IssuesWithFixesList } from '../IssueWithFix'
+import { pairIssuesWithFixes } from '@/lib/issue-fix-pairer'
+
+interface FormOptimization {
+  score: number
+  formCount: number
+  totalFields: number
+  requiredFields: number
+  placeholderOnlyFields: number
+  missingAutocompleteFields: number
+  inputTypeMismatches: number
+  multiStepFormDetected: boolean
+  forms: Array<{
+    score: number
+    fieldCount: number
+    requiredCount: number
+    isMultiStep: boolean
+    isAboveFold: boolean
+    submitText: string | null
+    submitActionStrength: 'strong' | 'medium' | 'weak' | null
+  }>
+  issues: string[]
+  recommendations: string[]
+}
+
+interface FormOptimizationSectionProps {
+  formOptimization: FormOptimization
+}
+
+const categoryConfig = {
+  icon: '📝',
+  colorTheme: 'sky',
+  bgClass: 'bg-sky-950/20',
+  borderClass: 'border-sky-800/40',
+  iconClass: 'text-sky-400',
+  impact: 'Medium Impact'
+}
+
+export default function FormOptimizationSection({ formOptimization }: FormOptimizationSectionProps) {
+  const pairs = pairIssuesWithFixes(formOptimization.issues, formOptimization.recommendations)
+  const hasHighImpact = pairs.some(p => p.impact === 'High')
+
+  return (
+    <div>
+      <div className={`rounded-xl border p-8 ${categoryConfig.bgClass} ${categoryConfig.borderClass}`}>
+        <SectionHeader
+          title="Form Optimization"
+          score={formOptimization.score}
+          config={categoryConfig}
+        />
+
+        <MetricsGrid className="mb-6">
+          <MetricItem label="Forms" value={formOptimization.formCount} />
+          <MetricItem label="Visible Fields" value={formOptimization.totalFields} />
+          <MetricItem label="Required Fields" value={formOptimization.requiredFields} />
+          <MetricItem label="Placeholder-Only" value={formOptimization.placeholderOnlyFields} />
+          <MetricItem label="Missing Autocomplete" value={formOptimization.missingAutocompleteFields} />
+          <MetricItem label="Multi-Step" value={formOptimization.multiStepFormDetected ? 'Yes' : 'No'} />
+        </MetricsGrid>
+
+        <div className="mb-6">
+          <h4 className="font-semibold text-sm uppercase tracking-wide text-gray-100 mb-4">Forms Found</h4>
+          <div className="space-y-3">
+            {formOptimization.forms.map((form, index) => (
+              <div key={index} className="p-4 bg-gray-800/30 rounded-lg border border-gray-700/50">
+                <div className="flex items-center justify-between mb-2">
+                  <CategoryTag colorTheme={categoryConfig.colorTheme}>
+                    {form.fieldCount} {form.fieldCount === 1 ? 'field' : 'fields'}
+                  </CategoryTag>
+                  <div className="flex items-center gap-2 text-xs">
+                    <span className={`px-2 py-1 rounded text-xs font-medium ${form.isAboveFold ? 'bg-green-900/30 text-green-300' : 'bg-gray-700/30 text-gray-400'}`}>
+                      {form.isAboveFold ? 'Above Fold' : 'Below Fold'}
+                    </span>
+                    <span className="text-gray-500">
+                      {form.score}/100
+                    </span>
+                  </div>
+                </div>
+                <p className="text-sm text-gray-300">
+                  Submit button:{' '}
+                  {form.submitText ? (
+                    <span className="text-gray-100">&ldquo;{form.submitText}&rdquo; ({form.submitActionStrength})</span>
+                  ) : (
+                    <span className="text-red-400">none found</span>
+                  )}
+                </p>
+              </div>
+            ))}
+          </div>
+        </div>
+
+        <IssuesWithFixesList
+          pairs={pairs}
+          defaultOpen={hasHighImpact}
+        />
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,136 @@
+import React from 'react'
+import SectionHeader from '../ui/SectionHeader'
+import ScoreBadge from '../ui/ScoreBadge'
+import { MetricsGrid, MetricItem } from '../ui/MetricsGrid'
+import { IssuesWithFixesList } from '../IssueWithFix'
+import { pairIssuesWithFixes } from '@/lib/issue-fix-pairer'
+import { getAnalyzerDefinition } from '@/lib/analyzers/definitions'
+import type { AnalyzerId } from '@/lib/analyzers/types'
+
+interface MobileModuleResult {
+  score: number | null
+  issues: string[]
+  recommendations: string[]
+}
+
+interface MobileConversion {
+  score: number
+  device?: {
+    width: number
+    height: number
+  }
+  modules: Record<string, MobileModuleResult | null>
+  ctasAboveFold: number | null
+  tapTargets: {
+    total: number
+    tooSmall: number
+    examples: Array<{ text: string; width: number; height: number }>
+  }
+  horizontalOverflow: {
+    detected: boolean
+    pageWidth: number
+    viewportWidth: number
+    offenders: string[]
+  }
+  hasViewportMeta: boolean
+  issues: string[]
+  recommendations: string[]
+}
+
+interface MobileConversionSectionProps {
+  mobileConversion: MobileConversion
+  desktopResult: Record<string, any>
+}
+
+// Analyzers re-run at the mobile viewport
+const COMPARED_ANALYZERS: AnalyzerId[] = ['cta', 'whitespace', 'image', 'socialProof']
+
+const categoryConfig = {
+  icon: '📱',
+  colorTheme: 'fuchsia',
+  bgClass: 'bg-fuchsia-950/20',
+  borderClass: 'border-fuchsia-800/40',
+  iconClass: 'text-fuchsia-400',
+  impact: 'High Impact'
+}
+
+function ScoreCell({ score }: { score: number | null | undefined }) {
+  if (typeof score !== 'number') {
+    return <span className="text-gray-500 text-sm">n/a</span>
+  }
+  return <ScoreBadge score={score} />
+}
+
+export default function MobileConversionSection({ mobileConversion, desktopResult }: MobileConversionSectionProps) {
+  const pairs = pairIssuesWithFixes(mobileConversion.issues, mobileConversion.recommendations)
+  const hasHighImpact = pairs.some(p => p.impact === 'High')
+  const { tapTargets, horizontalOverflow } = mobileConversion
+
+  return (
+    <div>
+      <div className={`rounded-xl border p-8 ${categoryConfig.bgClass} ${categoryConfig.borderClass}`}>
+        <SectionHeader
+          title="Mobile Experience"
+          score={mobileConversion.score}
+          config={categoryConfig}
+        />
+
+        <MetricsGrid className="mb-6">
+          <MetricItem label="Tap Targets" value={tapTargets.total} />
+          <MetricItem label="Too Small (<44px)" value={tapTargets.tooSmall} />
+          <MetricItem
+            label="Horizontal Scroll"
+            value={horizontalOverflow.detected ? `Yes (${horizontalOverflow.pageWidth}px wide)` : 'No'}
+          />
+          <MetricItem label="Viewport Meta" value={mobileConversion.hasViewportMeta ? 'Yes' : 'Missing'} />
+        </MetricsGrid>
+
+        <div className="mb-6">
+          <h4 className="font-semibold text-sm uppercase tracking-wide text-gray-100 mb-4">
+            Desktop vs Mobile{mobileConversion.device ? ` (${mobileConversion.device.width}x${mobileConversion.device.height})` : ''}
+          </h4>
+          <div className="overflow-hidden rounded-lg border border-gray-700/50">
+            <div className="grid grid-cols-3 gap-4 px-4 py-2 bg-gray-800/50 text-xs font-medium uppercase tracking-wide text-gray-400">
+              <span>Area</span>
+              <span>Desktop</span>
+              <span>Mobile</span>
+            </div>
+            {COMPARED_ANALYZERS.map(id => {
+              const analyzer = getAnalyzerDefinition(id)
+              return (
+                <div
+                  key={id}
+                  className="grid grid-cols-3 gap-4 px-4 py-3 items-center border-t border-gray-700/50 bg-gray-800/30"
+                  data-testid={`mobile-comparison-${id}`}
+                >
+                  <span className="text-sm text-gray-300">{analyzer.name}</span>
+                  <ScoreCell score={desktopResult[analyzer.resultKey]?.score} />
+                  <ScoreCell score={mobileConversion.modules[analyzer.resultKey]?.score} />
+                </div>
+              )
+            })}
+          </div>
+        </div>
+
+        {tapTargets.examples.length > 0 && (
+          <div className="mb-6">
+            <h4 className="font-semibold text-sm uppercase tracking-wide text-gray-100 mb-4">Small Tap Targets</h4>
+            <ul className="space-y-2">
+              {tapTargets.examples.map((example, index) => (
+                <li key={index} className="flex items-center justify-between text-sm p-3 bg-gray-800/30 rounded-lg border border-gray-700/50">
+                  <span className="text-gray-300 truncate">{example.text || 'Unlabeled element'}</span>
+                  <span className="text-gray-500 ml-4 whitespace-nowrap">{example.width}x{example.height}px</span>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        <IssuesWithFixesList
+          pairs={pairs}
+          defaultOpen={hasHighImpact}
+        />
+      </div>
+    </div>
+  )
+}
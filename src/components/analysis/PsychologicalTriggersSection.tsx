@@ -0,0 +1,132 @@
+import React from 'react'
+import SectionHeader from '../ui/SectionHeader'
+import CategoryTag from '../ui/CategoryTag'
+import { MetricsGrid, MetricItem } from '../ui/MetricsGrid'
+import { IssuesWithFixesList } from '../IssueWithFix'
+import { pairIssuesWithFixes } from '@/lib/issue-fix-pairer'
+
+interface PsychologicalTriggers {
+  score: number
+  countdownTimers: Array<{
+    text: string
+    seconds: number | null
+    ticking: boolean
+    resetsOnReload: boolean
+  }>
+  scarcityElements: number
+  scarcityPhrases: string[]
+  urgencyLanguageDetected: boolean
+  urgencyPhrases: string[]
+  authoritySignals: number
+  authorityPhrases: string[]
+  reciprocityElements: number
+  reciprocityOffers: string[]
+  socialProofStrength: number | null
+  manipulativePatterns: string[]
+  issues: string[]
+  recommendations: string[]
+}
+
+interface PsychologicalTriggersSectionProps {
+  psychologicalTriggers: PsychologicalTriggers
+}
+
+const categoryConfig = {
+  icon: '🧠',
+  colorTheme: 'orange',
+  bgClass: 'bg-orange-950/20',
+  borderClass: 'border-orange-800/40',
+  iconClass: 'text-orange-400',
+  impact: 'Medium Impact'
+}
+
+function PhraseList({ title, phrases }: { title: string; phrases: string[] }) {
+  if (phrases.length === 0) return null
+
+  return (
+    <div>
+      <h5 className="text-xs font-medium uppercase tracking-wide text-gray-400 mb-2">{title}</h5>
+      <div className="flex flex-wrap gap-2">
+        {phrases.map(phrase => (
+          <CategoryTag key={phrase} colorTheme={categoryConfig.colorTheme}>
+            {phrase}
+          </CategoryTag>
+        ))}
+      </div>
+    </div>
+  )
+}
+
+export default function PsychologicalTriggersSection({ psychologicalTriggers }: PsychologicalTriggersSectionProps) {
+  const pairs = pairIssuesWithFixes(psychologicalTriggers.issues, psychologicalTriggers.recommendations)
+  const hasHighImpact = pairs.some(p => p.impact === 'High')
+  const hasPhrases = psychologicalTriggers.scarcityPhrases.length > 0 ||
+    psychologicalTriggers.urgencyPhrases.length > 0 ||
+    psychologicalTriggers.authorityPhrases.length > 0 ||
+    psychologicalTriggers.reciprocityOffers.length > 0
+
+  return (
+    <div>
+      <div className={`rounded-xl border p-8 ${categoryConfig.bgClass} ${categoryConfig.borderClass}`}>
+        <SectionHeader
+          title="Psychological Triggers"
+          score={psychologicalTriggers.score}
+          config={categoryConfig}
+        />
+
+        <MetricsGrid className="mb-6">
+          <MetricItem label="Countdown Timers" value={psychologicalTriggers.countdownTimers.length} />
+          <MetricItem label="Scarcity Messages" value={psychologicalTriggers.scarcityElements} />
+          <MetricItem label="Urgency Language" value={psychologicalTriggers.urgencyLanguageDetected ? 'Yes' : 'No'} />
+          <MetricItem label="Authority Signals" value={psychologicalTriggers.authoritySignals} />
+          <MetricItem label="Free Offers" value={psychologicalTriggers.reciprocityElements} />
+          <MetricItem
+            label="Social Proof Strength"
+            value={psychologicalTriggers.socialProofStrength !== null ? `${psychologicalTriggers.socialProofStrength}/100` : 'n/a'}
+          />
+        </MetricsGrid>
+
+        {psychologicalTriggers.manipulativePatterns.length > 0 && (
+          <div className="mb-6 p-4 bg-red-900/20 rounded-lg border border-red-800/40">
+            <h4 className="font-semibold text-sm uppercase tracking-wide text-red-300 mb-2">Manipulative Patterns</h4>
+            <ul className="space-y-1 text-sm text-red-200">
+              {psychologicalTriggers.manipulativePatterns.map(pattern => (
+                <li key={pattern}>{pattern}</li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        {psychologicalTriggers.countdownTimers.length > 0 && (
+          <div className="mb-6">
+            <h4 className="font-semibold text-sm uppercase tracking-wide text-gray-100 mb-4">Countdown Timers</h4>
+            <div className="space-y-3">
+              {psychologicalTriggers.countdownTimers.map((timer, index) => (
+                <div key={index} className="flex items-center justify-between p-4 bg-gray-800/30 rounded-lg border border-gray-700/50">
+                  <span className="text-sm text-gray-100 font-mono">{timer.text}</span>
+                  <span className={`px-2 py-1 rounded text-xs font-medium ${timer.resetsOnReload ? 'bg-red-900/30 text-red-300' : 'bg-green-900/30 text-green-300'}`}>
+                    {timer.resetsOnReload ? 'Resets on reload' : 'Consistent'}
+                  </span>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {hasPhrases && (
+          <div className="mb-6 space-y-4">
+            <PhraseList title="Scarcity" phrases={psychologicalTriggers.scarcityPhrases} />
+            <PhraseList title="Urgency" phrases={psychologicalTriggers.urgencyPhrases} />
+            <PhraseList title="Authority" phrases={psychologicalTriggers.authorityPhrases} />
+            <PhraseList title="Free Offers" phrases={psychologicalTriggers.reciprocityOffers} />
+          </div>
+        )}
+
+        <IssuesWithFixesList
+          pairs={pairs}
+          defaultOpen={hasHighImpact}
+        />
+      </div>
+    </div>
+  )
+}
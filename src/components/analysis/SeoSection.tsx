@@ -0,0 +1,126 @@
+import React from 'react'
+import SectionHeader from '../ui/SectionHeader'
+import CategoryTag from '../ui/CategoryTag'
+import { MetricsGrid, MetricItem } from '../ui/MetricsGrid'
+import { IssuesWithFixesList } from '../IssueWithFix'
+import { pairIssuesWithFixes } from '@/lib/issue-fix-pairer'
+
+interface Seo {
+  score: number
+  title: { text: string; length: number }
+  description: { text: string; length: number }
+  canonical: {
+    url: string | null
+    isAbsolute: boolean
+    matchesPage: boolean
+  }
+  openGraph: {
+    tags: Record<string, string>
+    missing: string[]
+    image: { url: string; width: number | null; height: number | null } | null
+  }
+  twitterCard: {
+    card: string | null
+  }
+  robots: {
+    directives: string[]
+    noindex: boolean
+    nofollow: boolean
+  }
+  hreflang: {
+    alternates: Array<{ lang: string; href: string }>
+  }
+  structuredData: {
+    blocks: number
+    invalidBlocks: number
+    types: string[]
+    items: Array<{
+      type: string
+      missingRequired: string[]
+    }>
+  }
+  h1Count: number
+  issues: string[]
+  recommendations: string[]
+}
+
+interface SeoSectionProps {
+  seo: Seo
+}
+
+const categoryConfig = {
+  icon: '🔎',
+  colorTheme: 'violet',
+  bgClass: 'bg-violet-950/20',
+  borderClass: 'border-violet-800/40',
+  iconClass: 'text-violet-400',
+  impact: 'Medium Impact'
+}
+
+export default function SeoSection({ seo }: SeoSectionProps) {
+  const pairs = pairIssuesWithFixes(seo.issues, seo.recommendations)
+  const hasHighImpact = pairs.some(p => p.impact === 'High')
+  const { title, description, canonical, openGraph, robots, structuredData } = seo
+  const image = openGraph.image
+
+  return (
+    <div>
+      <div className={`rounded-xl border p-8 ${categoryConfig.bgClass} ${categoryConfig.borderClass}`}>
+        <SectionHeader
+          title="SEO & Metadata"
+          score={seo.score}
+          config={categoryConfig}
+        />
+
+        <div className="mb-6 p-4 bg-gray-800/30 rounded-lg border border-gray-700/50">
+          <p className="text-xs text-gray-500 mb-1">Search result preview</p>
+          <p className="text-blue-400 text-lg truncate">{title.text || 'No title'}</p>
+          <p className="text-gray-400 text-sm line-clamp-2">{description.text || 'No meta description'}</p>
+        </div>
+
+        <MetricsGrid className="mb-6">
+          <MetricItem label="Title Length" value={`${title.length} chars`} />
+          <MetricItem label="Description Length" value={`${description.length} chars`} />
+          <MetricItem label="Canonical" value={!canonical.url ? 'Missing' : canonical.matchesPage ? 'Self' : 'Other page'} />
+          <MetricItem label="H1 Headings" value={seo.h1Count} />
+          <MetricItem label="Share Image" value={!image ? 'Missing' : image.width && image.height ? `${image.width}x${image.height}` : 'Unknown size'} />
+          <MetricItem label="Twitter Card" value={seo.twitterCard.card || 'Missing'} />
+          <MetricItem label="Indexing" value={robots.noindex ? 'Blocked' : 'Allowed'} />
+          <MetricItem label="Languages" value={seo.hreflang.alternates.length || 'Single'} />
+        </MetricsGrid>
+
+        {structuredData.types.length > 0 && (
+          <div className="mb-6">
+            <h4 className="font-semibold text-sm uppercase tracking-wide text-gray-100 mb-4">Structured Data</h4>
+            <div className="flex flex-wrap gap-2">
+              {structuredData.types.map(type => {
+                const hasErrors = structuredData.items.some(item => item.type === type && item.missingRequired.length > 0)
+                return (
+                  <CategoryTag key={type} colorTheme={hasErrors ? 'gray' : categoryConfig.colorTheme}>
+                    {hasErrors ? '✗' : '✓'} {type}
+                  </CategoryTag>
+                )
+              })}
+            </div>
+          </div>
+        )}
+
+        {openGraph.missing.length > 0 && (
+          <div className="mb-6">
+            <h4 className="font-semibold text-sm uppercase tracking-wide text-gray-100 mb-4">Missing Share Tags</h4>
+            <div className="flex flex-wrap gap-2">
+              {openGraph.missing.map(tag => (
+                <CategoryTag key={tag} colorTheme="gray">{tag}</CategoryTag>
+              ))}
+            </div>
+          </div>
+        )}
+
+        <IssuesWithFixesList
+          pairs={pairs}
+          defaultOpen={hasHighImpact}
+        />
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,100 @@
+import React from 'react'
+import SectionHeader from '../ui/SectionHeader'
+import CategoryTag from '../ui/CategoryTag'
+import { MetricsGrid, MetricItem } from '../ui/MetricsGrid'
+import { IssuesWithFixesList } from '../IssueWithFix'
+import { pairIssuesWithFixes } from '@/lib/issue-fix-pairer'
+
+interface ValueProposition {
+  score: number
+  headline: string | null
+  subheadline: string | null
+  headlineClarityScore: number
+  benefitVsFeatureRatio: number
+  benefitPhrases: string[]
+  featurePhrases: string[]
+  vaguePhrases: string[]
+  specificityScore: number
+  uniqueValuePropositionDetected: boolean
+  timeToComprehensionMs: number
+  issues: string[]
+  recommendations: string[]
+}
+
+interface ValuePropositionSectionProps {
+  valueProposition: ValueProposition
+}
+
+const categoryConfig = {
+  icon: '💡',
+  colorTheme: 'emerald',
+  bgClass: 'bg-emerald-950/20',
+  borderClass: 'border-emerald-800/40',
+  iconClass: 'text-emerald-400',
+  impact: 'High Impact'
+}
+
+export default function ValuePropositionSection({ valueProposition }: ValuePropositionSectionProps) {
+  const pairs = pairIssuesWithFixes(valueProposition.issues, valueProposition.recommendations)
+  const hasHighImpact = pairs.some(p => p.impact === 'High')
+
+  return (
+    <div>
+      <div className={`rounded-xl border p-8 ${categoryConfig.bgClass} ${categoryConfig.borderClass}`}>
+        <SectionHeader
+          title="Value Proposition"
+          score={valueProposition.score}
+          config={categoryConfig}
+        />
+
+        {valueProposition.headline ? (
+          <div className="mb-6 p-4 bg-gray-800/30 rounded-lg border border-gray-700/50">
+            <p className="text-lg font-semibold text-gray-100 leading-snug">
+              &ldquo;{valueProposition.headline}&rdquo;
+            </p>
+            {valueProposition.subheadline && (
+              <p className="text-sm text-gray-300 mt-2 leading-relaxed">
+                {valueProposition.subheadline.length > 160
+                  ? valueProposition.subheadline.substring(0, 160) + '...'
+                  : valueProposition.subheadline}
+              </p>
+            )}
+          </div>
+        ) : (
+          <div className="text-gray-400 text-sm mb-6">No hero headline detected.</div>
+        )}
+
+        <MetricsGrid className="mb-6">
+          <MetricItem label="Headline Clarity" value={`${valueProposition.headlineClarityScore}/100`} />
+          <MetricItem label="Benefit Language" value={`${Math.round(valueProposition.benefitVsFeatureRatio * 100)}%`} />
+          <MetricItem label="Specificity" value={`${valueProposition.specificityScore}/100`} />
+          <MetricItem label="Differentiator" value={valueProposition.uniqueValuePropositionDetected ? 'Found' : 'Missing'} />
+          <MetricItem label="Time to Read" value={`${(valueProposition.timeToComprehensionMs / 1000).toFixed(1)}s`} />
+        </MetricsGrid>
+
+        {(valueProposition.benefitPhrases.length > 0 || valueProposition.featurePhrases.length > 0) && (
+          <div className="mb-6">
+            <h4 className="font-semibold text-sm uppercase tracking-wide text-gray-100 mb-4">Hero Language</h4>
+            <div className="flex flex-wrap gap-2">
+              {valueProposition.benefitPhrases.map(phrase => (
+                <CategoryTag key={`benefit-${phrase}`} colorTheme={categoryConfig.colorTheme}>
+                  {phrase}
+                </CategoryTag>
+              ))}
+              {valueProposition.featurePhrases.map(phrase => (
+                <CategoryTag key={`feature-${phrase}`} colorTheme="gray">
+                  {phrase}
+                </CategoryTag>
+              ))}
+            </div>
+          </div>
+        )}
+
+        <IssuesWithFixesList
+          pairs={pairs}
+          defaultOpen={hasHighImpact}
+        />
+      </div>
+    </div>
+  )
+}
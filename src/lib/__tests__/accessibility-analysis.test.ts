@@ -0,0 +1,137 @@
+import {
+  analyzeAccessibility,
+  scoreAccessibility,
+  parseColor,
+  getContrastRatio,
+  ExtractedAccessibility
+} from '../accessibility-analysis'
+
+jest.mock('../puppeteer-config', () => ({
+  createPuppeteerBrowser: jest.fn(),
+}));
+
+const { createPuppeteerBrowser } = require('../puppeteer-config');
+
+const mockPage = {
+  goto: jest.fn(),
+  setContent: jest.fn(),
+  setViewport: jest.fn(),
+  evaluate: jest.fn(),
+};
+
+const mockBrowser = {
+  newPage: jest.fn().mockResolvedValue(mockPage),
+  close: jest.fn(),
+};
+
+const page = (overrides: Partial<ExtractedAccessibility> = {}): ExtractedAccessibility => ({
+  lang: 'en',
+  textSamples: [
+    { text: 'Send invoices in one click', color: 'rgb(17, 24, 39)', backgrounds: ['rgb(255, 255, 255)'], fontSize: 48, fontWeight: 700 },
+    { text: 'Get paid on time', color: 'rgb(55, 65, 81)', backgrounds: [], fontSize: 16, fontWeight: 400 }
+  ],
+  headingLevels: [1, 2, 2, 3],
+  landmarks: { main: true, navigation: true, banner: true, contentinfo: true },
+  formFields: [{ descriptor: 'email', labelled: true }],
+  unfocusableControls: [],
+  linkNames: ['Pricing', 'Start free trial'],
+  images: { total: 3, missingAlt: 0 },
+  ...overrides
+})
+
+describe('Accessibility Analysis', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    createPuppeteerBrowser.mockResolvedValue(mockBrowser);
+    mockPage.evaluate.mockResolvedValue(page());
+  });
+
+  test('should audit a URL and close its own browser', async () => {
+    const result = await analyzeAccessibility('https://example.com')
+
+    expect(mockPage.goto).toHaveBeenCalledWith('https://example.com', expect.any(Object))
+    expect(mockBrowser.close).toHaveBeenCalled()
+    expect(result.contrast.checked).toBe(2)
+  })
+
+  test('should audit raw HTML', async () => {
+    await analyzeAccessibility('<main><h1>Hello</h1></main>', { isHtml: true })
+
+    expect(mockPage.setContent).toHaveBeenCalledWith('<main><h1>Hello</h1></main>')
+    expect(mockPage.goto).not.toHaveBeenCalled()
+  })
+})
+
+describe('Contrast helpers', () => {
+  test('should parse rgb and rgba colors', () => {
+    expect(parseColor('rgb(255, 0, 10)')).toEqual([255, 0, 10, 1])
+    expect(parseColor('rgba(0, 0, 0, 0.5)')).toEqual([0, 0, 0, 0.5])
+    expect(parseColor('not a color')).toBeNull()
+  })
+
+  test('should calculate WCAG contrast ratios', () => {
+    expect(getContrastRatio([0, 0, 0, 1], [255, 255, 255, 1])).toBeCloseTo(21)
+    expect(getContrastRatio([255, 255, 255, 1], [255, 255, 255, 1])).toBeCloseTo(1)
+    expect(getContrastRatio([118, 118, 118, 1], [255, 255, 255, 1])).toBeCloseTo(4.54, 1)
+  })
+})
+
+describe('scoreAccessibility', () => {
+  test('should score an accessible page highly', () => {
+    const result = scoreAccessibility(page())
+
+    expect(result.score).toBe(100)
+    expect(result.contrast.failing).toBe(0)
+    expect(result.headings.skippedLevels).toEqual([])
+    expect(result.issues).toEqual([])
+    expect(result.recommendations).toEqual([])
+  })
+
+  test('should flag common accessibility failures', () => {
+    const result = scoreAccessibility(page({
+      lang: null,
+      textSamples: [
+        { text: 'Fine print', color: 'rgb(200, 200, 200)', backgrounds: ['rgb(255, 255, 255)'], fontSize: 14, fontWeight: 400 },
+        { text: 'Readable text', color: 'rgb(0, 0, 0)', backgrounds: ['rgb(255, 255, 255)'], fontSize: 16, fontWeight: 400 }
+      ],
+      headingLevels: [2, 4],
+      landmarks: { main: false, navigation: true, banner: true, contentinfo: true },
+      formFields: [{ descriptor: 'email', labelled: false }],
+      unfocusableControls: ['Get started'],
+      linkNames: ['Learn more', '', 'Pricing'],
+      images: { total: 4, missingAlt: 2 }
+    }))
+
+    expect(result.contrast.failing).toBe(1)
+    expect(result.contrast.examples[0]).toEqual(expect.objectContaining({ text: 'Fine print', required: 4.5 }))
+    expect(result.headings.hasH1).toBe(false)
+    expect(result.headings.skippedLevels).toEqual(['h2 → h4'])
+    expect(result.linkText).toEqual(expect.objectContaining({ generic: 1, empty: 1, examples: ['Learn more'] }))
+    expect(result.score).toBeLessThan(40)
+    expect(result.issues).toContain('1 text element of 2 fail WCAG AA contrast against their background.')
+    expect(result.issues).toContain('The page has no h1 heading.')
+    expect(result.issues).toContain('Missing landmark regions: main.')
+    expect(result.issues).toContain('2 images have no alt attribute.')
+    expect(result.recommendations).toHaveLength(8)
+  })
+
+  test('should use the large text threshold for headline-sized text', () => {
+    const result = scoreAccessibility(page({
+      textSamples: [
+        { text: 'Big headline', color: 'rgb(130, 130, 130)', backgrounds: ['rgb(255, 255, 255)'], fontSize: 32, fontWeight: 700 }
+      ]
+    }))
+
+    expect(result.contrast.failing).toBe(0)
+  })
+
+  test('should skip contrast checks over background images', () => {
+    const result = scoreAccessibility(page({
+      textSamples: [
+        { text: 'Hero copy', color: 'rgb(255, 255, 255)', backgrounds: null, fontSize: 16, fontWeight: 400 }
+      ]
+    }))
+
+    expect(result.contrast.checked).toBe(0)
+  })
+})
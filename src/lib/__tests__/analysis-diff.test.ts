@@ -0,0 +1,168 @@
+import { buildAnalysisChanges, recordAnalysisChanges, ScannedAnalysis } from '../analysis-diff'
+
+jest.mock('../supabase', () => ({
+  supabaseAdmin: { from: jest.fn() },
+}));
+
+const { supabaseAdmin } = require('../supabase');
+
+const previous: ScannedAnalysis = {
+  id: 'previous-id',
+  createdAt: '2024-01-01T00:00:00Z',
+  overallScore: 62,
+  results: {
+    ctaAnalysis: {
+      score: 50,
+      issues: ['3 CTAs compete for attention above the fold', 'Primary CTA uses weak wording'],
+      primaryCTA: { text: 'Learn more' },
+      ctas: [{ text: 'Learn more' }, { text: 'Contact us' }]
+    },
+    socialProof: {
+      score: 70,
+      issues: [],
+      elements: [{ type: 'testimonial', text: 'Saved us hours every week' }, { type: 'trust-badge', text: 'SOC 2' }]
+    },
+    pageLoadSpeed: { score: 90, issues: [] }
+  }
+}
+
+const current: ScannedAnalysis = {
+  id: 'current-id',
+  createdAt: '2024-02-01T00:00:00Z',
+  overallScore: 70,
+  results: {
+    ctaAnalysis: {
+      score: 80,
+      issues: ['4 CTAs compete for attention above the fold'],
+      primaryCTA: { text: 'Start free trial' },
+      ctas: [{ text: 'Start free trial' }, { text: 'contact us' }]
+    },
+    socialProof: {
+      score: 72,
+      issues: [],
+      elements: [{ type: 'testimonial', text: 'Saved us hours every week' }, { type: 'rating', text: '4.8/5 on G2' }]
+    },
+    pageLoadSpeed: { score: 70, issues: ['Largest Contentful Paint is 3.1s'] }
+  }
+}
+
+describe('buildAnalysisChanges', () => {
+  test('should report overall and per-module score deltas with regressions and improvements', () => {
+    const changes = buildAnalysisChanges(previous, current)
+
+    expect(changes).toMatchObject({ parentAnalysisId: 'previous-id', previousScore: 62, newScore: 70, scoreDelta: 8 })
+    expect(changes.modules.map(moduleChange => [moduleChange.analyzerId, moduleChange.scoreDelta]))
+      .toEqual([['cta', 30], ['socialProof', 2], ['speed', -20]])
+    expect(changes.regressions).toEqual(['speed'])
+    expect(changes.improvements).toEqual(['cta'])
+  })
+
+  test('should match issues whose numbers changed and list new and resolved ones', () => {
+    const changes = buildAnalysisChanges(previous, current)
+    const [cta, , speed] = changes.modules
+
+    expect(cta.newIssues).toEqual([])
+    expect(cta.resolvedIssues).toEqual(['Primary CTA uses weak wording'])
+    expect(speed.newIssues).toEqual(['Largest Contentful Paint is 3.1s'])
+  })
+
+  test('should list CTA text changes and social proof added or removed', () => {
+    const changes = buildAnalysisChanges(previous, current)
+
+    expect(changes.cta).toEqual({
+      previousPrimary: 'Learn more',
+      newPrimary: 'Start free trial',
+      added: ['Start free trial'],
+      removed: ['Learn more']
+    })
+    expect(changes.socialProof).toEqual({
+      added: [{ type: 'rating', text: '4.8/5 on G2' }],
+      removed: [{ type: 'trust-badge', text: 'SOC 2' }]
+    })
+  })
+
+  test('should leave out deltas for modules only one scan ran', () => {
+    const changes = buildAnalysisChanges(previous, { ...current, results: { ctaAnalysis: current.results.ctaAnalysis } })
+
+    expect(changes.modules.find(moduleChange => moduleChange.analyzerId === 'speed')).toMatchObject({ newScore: null, scoreDelta: null })
+    expect(changes.socialProof).toBeNull()
+  })
+})
+
+describe('recordAnalysisChanges', () => {
+  test('should compare the analysis with its parent and insert one history row per module plus the overall score', async () => {
+    const insert = jest.fn().mockResolvedValue({ error: null })
+    const single = jest.fn()
+      .mockResolvedValueOnce({
+        data: { id: 'current-id', created_at: '2024-02-01T00:00:00Z', overall_score: 70, parent_analysis_id: 'previous-id', cta_analysis: { score: 80, issues: [] } },
+        error: null
+      })
+      .mockResolvedValueOnce({
+        data: { id: 'previous-id', created_at: '2024-01-01T00:00:00Z', overall_score: 62, cta_analysis: { score: 50, issues: [] } },
+        error: null
+      })
+    const query: any = { eq: jest.fn(() => query), single }
+    supabaseAdmin.from.mockReturnValue({ select: jest.fn(() => query), insert })
+
+    const changes = await recordAnalysisChanges('current-id', '1.0.0')
+
+    expect(query.eq).toHaveBeenCalledWith('id', 'previous-id')
+    expect(changes?.scoreDelta).toBe(8)
+    expect(supabaseAdmin.from).toHaveBeenCalledWith('analysis_history')
+    expect(insert).toHaveBeenCalledWith([
+      expect.objectContaining({ analysis_id: 'current-id', module_name: 'overall', previous_score: 62, new_score: 70 }),
+      expect.objectContaining({
+        module_name: 'cta',
+        algorithm_version: '1.0.0',
+        previous_score: 50,
+        new_score: 80,
+        changes_summary: expect.objectContaining({ scoreDelta: 30 })
+      })
+    ])
+  })
+
+  test('should not compare an analysis made with credentials with another client\'s', async () => {
+    const insert = jest.fn()
+    const single = jest.fn()
+      .mockResolvedValueOnce({
+        data: { id: 'current-id', user_id: 'user-1', job_options: { requires_auth: true }, parent_analysis_id: 'previous-id' },
+        error: null
+      })
+      .mockResolvedValueOnce({
+        data: { id: 'previous-id', user_id: 'user-2', job_options: { requires_auth: true } },
+        error: null
+      })
+    const query: any = { eq: jest.fn(() => query), single }
+    supabaseAdmin.from.mockReturnValue({ select: jest.fn(() => query), insert })
+
+    expect(await recordAnalysisChanges('current-id', '1.0.0')).toBeNull()
+    expect(insert).not.toHaveBeenCalled()
+  })
+
+  test('should not compare an analysis made with credentials with a public one', async () => {
+    const insert = jest.fn()
+    const single = jest.fn()
+      .mockResolvedValueOnce({
+        data: { id: 'current-id', user_id: 'user-1', job_options: { requires_auth: true }, parent_analysis_id: 'previous-id' },
+        error: null
+      })
+      .mockResolvedValueOnce({ data: { id: 'previous-id', user_id: 'user-1', job_options: {} }, error: null })
+    const query: any = { eq: jest.fn(() => query), single }
+    supabaseAdmin.from.mockReturnValue({ select: jest.fn(() => query), insert })
+
+    expect(await recordAnalysisChanges('current-id', '1.0.0')).toBeNull()
+    expect(insert).not.toHaveBeenCalled()
+  })
+
+  test('should do nothing for a first scan', async () => {
+    const insert = jest.fn()
+    const query: any = {
+      eq: jest.fn(() => query),
+      single: jest.fn().mockResolvedValue({ data: { id: 'current-id', parent_analysis_id: null }, error: null })
+    }
+    supabaseAdmin.from.mockReturnValue({ select: jest.fn(() => query), insert })
+
+    expect(await recordAnalysisChanges('current-id', '1.0.0')).toBeNull()
+    expect(insert).not.toHaveBeenCalled()
+  })
+})
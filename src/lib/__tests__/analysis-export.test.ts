@@ -0,0 +1,145 @@
+import {
+  EXPORT_FORMAT_VERSION,
+  getExportColumns,
+  getExportJsonSchema,
+  isExportFormat,
+  toCsv,
+  toExportedAnalysis
+} from '../analysis-export';
+import { getAnalyzersInDisplayOrder } from '../analyzers/definitions';
+
+const createRow = (overrides: Record<string, any> = {}) => ({
+  id: 'analysis-1',
+  url: 'https://example.com/',
+  url_title: 'Example',
+  overall_score: 72,
+  grade: 'C',
+  industry_adjusted_score: 75,
+  scoring_weights: { profile: 'saas', weights: {} },
+  detected_industry: 'saas',
+  screenshot_url: 'https://cdn.example.com/shot.png',
+  created_at: '2026-10-01T12:00:00Z',
+  page_speed_analysis: {
+    score: 64,
+    metrics: { loadTime: 3.2, speedDescription: 'Moderate' },
+    issues: ['Slow load'],
+    recommendations: ['Compress assets', 'Use a CDN']
+  },
+  cta_analysis: {
+    score: 81,
+    ctas: [
+      { text: 'Start free trial', isAboveFold: true },
+      { text: 'Learn more', isAboveFold: false }
+    ],
+    primaryCTA: { text: 'Start free trial' },
+    issues: [],
+    recommendations: []
+  },
+  ...overrides
+});
+
+describe('toExportedAnalysis', () => {
+  it('should export the analysis fields with the format version', () => {
+    const exported = toExportedAnalysis(createRow());
+
+    expect(exported).toMatchObject({
+      exportVersion: EXPORT_FORMAT_VERSION,
+      id: 'analysis-1',
+      url: 'https://example.com/',
+      title: 'Example',
+      analyzedAt: '2026-10-01T12:00:00Z',
+      overallScore: 72,
+      grade: 'C',
+      industryAdjustedScore: 75,
+      weightProfile: 'saas',
+      detectedIndustry: 'saas',
+      screenshotUrl: 'https://cdn.example.com/shot.png'
+    });
+  });
+
+  it('should flatten module results into score, grade, counts and key metrics', () => {
+    const { modules } = toExportedAnalysis(createRow());
+
+    expect(modules.speed).toEqual({
+      name: 'Page Speed',
+      score: 64,
+      grade: 'C',
+      issueCount: 1,
+      recommendationCount: 2,
+      issues: ['Slow load'],
+      recommendations: ['Compress assets', 'Use a CDN'],
+      metrics: { loadTimeSeconds: 3.2, speedDescription: 'Moderate' }
+    });
+    expect(modules.cta?.metrics).toEqual({ ctaCount: 2, ctasAboveFold: 1, primaryCta: 'Start free trial' });
+  });
+
+  it('should list every analyzer, with null for modules that did not run', () => {
+    const { modules } = toExportedAnalysis(createRow());
+
+    expect(Object.keys(modules)).toEqual(getAnalyzersInDisplayOrder().map(analyzer => analyzer.id));
+    expect(modules.seo).toBeNull();
+  });
+
+  it('should null out missing metrics instead of dropping them', () => {
+    const { modules } = toExportedAnalysis(createRow({ page_speed_analysis: { score: 90 } }));
+
+    expect(modules.speed?.metrics).toEqual({ loadTimeSeconds: null, speedDescription: null });
+    expect(modules.speed?.issueCount).toBe(0);
+  });
+
+  it('should derive the grade from the score for older analyses', () => {
+    expect(toExportedAnalysis(createRow({ grade: null, overall_score: 91 })).grade).toBe('A');
+  });
+});
+
+describe('toCsv', () => {
+  it('should write a header row and one row per analysis', () => {
+    const csv = toCsv([toExportedAnalysis(createRow()), toExportedAnalysis(createRow({ id: 'analysis-2' }))]);
+    const [header, first, second, trailing] = csv.split('\r\n');
+
+    expect(header.split(',')).toEqual(getExportColumns().map(([name]) => name));
+    expect(header).toContain('speed.score,speed.grade,speed.issues,speed.recommendations,speed.loadTimeSeconds');
+    expect(first.startsWith(`${EXPORT_FORMAT_VERSION},analysis-1,https://example.com/,Example,`)).toBe(true);
+    expect(second).toContain('analysis-2');
+    expect(trailing).toBe('');
+  });
+
+  it('should keep the same columns whichever modules ran', () => {
+    const csv = toCsv([toExportedAnalysis(createRow({ cta_analysis: null }))]);
+    const [header, row] = csv.split('\r\n');
+
+    expect(row.split(',')).toHaveLength(header.split(',').length);
+  });
+
+  it('should quote cells with commas, quotes and newlines', () => {
+    const csv = toCsv([toExportedAnalysis(createRow({ url_title: 'Fast, "simple"\nbilling' }))]);
+
+    expect(csv).toContain('"Fast, ""simple""\nbilling"');
+  });
+
+  it('should neutralise page text that a spreadsheet would run as a formula', () => {
+    const csv = toCsv([toExportedAnalysis(createRow({ url_title: '=HYPERLINK("https://evil.test")' }))]);
+
+    expect(csv).toContain(`"'=HYPERLINK(""https://evil.test"")"`);
+  });
+});
+
+describe('getExportJsonSchema', () => {
+  it('should describe every analyzer module and its metrics', () => {
+    const schema = getExportJsonSchema() as any;
+    const modules = schema.properties.modules;
+
+    expect(schema.properties.exportVersion).toEqual({ const: EXPORT_FORMAT_VERSION });
+    expect(modules.required).toEqual(getAnalyzersInDisplayOrder().map(analyzer => analyzer.id));
+    expect(modules.properties.speed.oneOf[1].properties.metrics.required).toEqual(['loadTimeSeconds', 'speedDescription']);
+  });
+});
+
+describe('isExportFormat', () => {
+  it('should accept json and csv only', () => {
+    expect(isExportFormat('json')).toBe(true);
+    expect(isExportFormat('csv')).toBe(true);
+    expect(isExportFormat('xlsx')).toBe(false);
+    expect(isExportFormat(null)).toBe(false);
+  });
+});
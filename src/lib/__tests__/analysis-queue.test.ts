@@ -0,0 +1,633 @@
+import {
+  calculateProgressPercent,
+  createInitialProgress,
+  enqueueAnalysis,
+  MAX_RETRIES,
+  processAnalysisJob,
+  processQueuedAnalyses
+} from '../analysis-queue';
+import { getHeldPageAuth, holdPageAuth } from '../page-auth';
+import corpus from './fixtures/conversion-corpus.json';
+
+jest.mock('@/lib/supabase', () => ({
+  supabaseAdmin: {
+    from: jest.fn()
+  }
+}));
+
+jest.mock('@/lib/analysis-runner', () => ({
+  ...jest.requireActual('@/lib/analysis-runner'),
+  runAnalysisModules: jest.fn()
+}));
+
+jest.mock('@/lib/page-metadata', () => ({
+  extractPageMetadata: jest.fn()
+}));
+
+jest.mock('@/lib/industry-detection', () => ({
+  detectIndustry: jest.fn()
+}));
+
+jest.mock('@/lib/screenshot-storage', () => ({
+  captureAndStoreScreenshot: jest.fn()
+}));
+
+jest.mock('@/lib/competitor-comparison', () => ({
+  refreshCompetitiveAnalysis: jest.fn()
+}));
+
+jest.mock('@/lib/analysis-diff', () => ({
+  recordAnalysisChanges: jest.fn()
+}));
+
+jest.mock('@/lib/score-alerts', () => ({
+  alertOnScoreDrops: jest.fn()
+}));
+
+jest.mock('@/lib/batch-analysis', () => ({
+  releaseBatchJobs: jest.fn()
+}));
+
+jest.mock('@/lib/recommendation-tracking', () => ({
+  saveRecommendations: jest.fn()
+}));
+
+jest.mock('@/lib/page-source', () => ({
+  servePageSource: jest.fn(),
+  discardPageSource: jest.fn()
+}));
+
+describe('analysis-queue', () => {
+  const mockSupabaseFrom = require('@/lib/supabase').supabaseAdmin.from;
+  const mockRunAnalysisModules = require('@/lib/analysis-runner').runAnalysisModules;
+  const mockExtractPageMetadata = require('@/lib/page-metadata').extractPageMetadata;
+  const mockDetectIndustry = require('@/lib/industry-detection').detectIndustry;
+  const mockCaptureAndStoreScreenshot = require('@/lib/screenshot-storage').captureAndStoreScreenshot;
+  const mockRefreshCompetitiveAnalysis = require('@/lib/competitor-comparison').refreshCompetitiveAnalysis;
+  const mockRecordAnalysisChanges = require('@/lib/analysis-diff').recordAnalysisChanges;
+  const mockAlertOnScoreDrops = require('@/lib/score-alerts').alertOnScoreDrops;
+  const mockReleaseBatchJobs = require('@/lib/batch-analysis').releaseBatchJobs;
+  const mockSaveRecommendations = require('@/lib/recommendation-tracking').saveRecommendations;
+  const mockServePageSource = require('@/lib/page-source').servePageSource;
+  const mockDiscardPageSource = require('@/lib/page-source').discardPageSource;
+
+  // Every query resolves to the next queued response (or `{ data: null, error: null }`)
+  let responses: Array<{ data?: any; error?: any }>;
+  let updates: Array<Record<string, any>>;
+  let inserts: Array<Record<string, any>>;
+
+  const createQueryBuilder = () => {
+    const builder: any = {};
+    ['select', 'eq', 'lt', 'or', 'order', 'limit'].forEach(method => {
+      builder[method] = jest.fn(() => builder);
+    });
+    builder.insert = jest.fn((payload) => {
+      inserts.push(payload);
+      return builder;
+    });
+    builder.update = jest.fn((payload) => {
+      // Copy so later mutations of shared objects (e.g. progress) don't leak in
+      updates.push(JSON.parse(JSON.stringify(payload)));
+      return builder;
+    });
+    builder.single = jest.fn(() => Promise.resolve(responses.shift() || { data: null, error: null }));
+    builder.then = (resolve: any, reject: any) =>
+      Promise.resolve(responses.shift() || { data: null, error: null }).then(resolve, reject);
+    return builder;
+  };
+
+  const queuedJob = (overrides: Record<string, any> = {}) => ({
+    id: 'analysis-1',
+    url: 'https://example.com/',
+    retry_count: 0,
+    job_options: { component: 'speed', force_browserless: false },
+    ...overrides
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    responses = [];
+    updates = [];
+    inserts = [];
+    mockSupabaseFrom.mockImplementation(() => createQueryBuilder());
+
+    mockExtractPageMetadata.mockResolvedValue({
+      title: 'Test Page Title',
+      description: 'Test page description for analysis',
+      url: 'https://example.com/',
+      schema: { name: 'Test Organization' }
+    });
+
+    mockDetectIndustry.mockResolvedValue({ industry: null, confidence: 0, scores: {}, signals: [] });
+
+    mockCaptureAndStoreScreenshot.mockResolvedValue({
+      blobUrl: 'https://blob.vercel-storage.com/test-screenshot.png'
+    });
+
+    mockRunAnalysisModules.mockImplementation(async (_url: string, options: any) => {
+      await options.hooks.onModuleStart('speed');
+      await options.hooks.onModuleComplete('speed', { score: 75, issues: [], recommendations: [] });
+      return { overallScore: 75 };
+    });
+  });
+
+  describe('enqueueAnalysis', () => {
+    it('should insert a queued row with job options and pending module progress', async () => {
+      responses.push({ data: { id: 'analysis-1' }, error: null });
+
+      const job = await enqueueAnalysis({
+        userId: 'user-1',
+        url: 'https://example.com/',
+        component: 'cta',
+        forceBrowserless: true
+      });
+
+      expect(job.id).toBe('analysis-1');
+      expect(inserts[0]).toMatchObject({
+        user_id: 'user-1',
+        url: 'https://example.com/',
+        status: 'queued',
+        priority: 1,
+        retry_count: 0,
+        job_options: { component: 'cta', force_browserless: true },
+        progress: { modules: { cta: { status: 'pending' } } }
+      });
+    });
+
+    it('should store the weight profile and custom weights in the job options', async () => {
+      responses.push({ data: { id: 'analysis-1' }, error: null });
+
+      await enqueueAnalysis({ userId: 'user-1', url: 'https://example.com/', weightProfile: 'custom', customWeights: { cta: 0.5 } });
+
+      expect(inserts[0].job_options).toMatchObject({ weight_profile: 'custom', custom_weights: { cta: 0.5 } });
+    });
+
+    it('should store comparison links in the job options', async () => {
+      responses.push({ data: { id: 'analysis-2' }, error: null });
+
+      await enqueueAnalysis({ userId: 'user-1', url: 'https://rival.com/', comparisonId: 'analysis-1' });
+
+      expect(inserts[0].job_options).toEqual({ component: undefined, force_browserless: false, comparison_id: 'analysis-1' });
+    });
+
+    it('should flag scheduled re-scans as monitored', async () => {
+      responses.push({ data: { id: 'analysis-2' }, error: null });
+
+      await enqueueAnalysis({ userId: 'user-1', url: 'https://example.com/', parentAnalysisId: 'analysis-1', priority: 0, monitored: true });
+
+      expect(inserts[0]).toMatchObject({ priority: 0, parent_analysis_id: 'analysis-1', job_options: { monitored: true } });
+    });
+
+    it('should hold batch analyses as pending until the batch releases them', async () => {
+      responses.push({ data: { id: 'analysis-2' }, error: null });
+
+      await enqueueAnalysis({ userId: 'user-1', url: 'https://example.com/', priority: 0, batchId: 'batch-1', batchLabel: 'Client A' });
+
+      expect(inserts[0]).toMatchObject({
+        status: 'pending',
+        priority: 0,
+        job_options: { batch_id: 'batch-1', batch_label: 'Client A' }
+      });
+    });
+
+    it('should throw when the insert fails', async () => {
+      responses.push({ data: null, error: { message: 'insert failed' } });
+
+      await expect(enqueueAnalysis({ userId: 'user-1', url: 'https://example.com/' }))
+        .rejects.toThrow('insert failed');
+    });
+  });
+
+  describe('processAnalysisJob', () => {
+    it('should skip jobs that are no longer queued', async () => {
+      responses.push({ data: [], error: null });
+
+      const outcome = await processAnalysisJob('analysis-1');
+
+      expect(outcome).toBe('skipped');
+      expect(mockRunAnalysisModules).not.toHaveBeenCalled();
+    });
+
+    it('should save metadata, module results and progress, then complete the job', async () => {
+      responses.push({ data: [queuedJob()], error: null });
+
+      const outcome = await processAnalysisJob('analysis-1');
+
+      expect(outcome).toBe('completed');
+      expect(updates[0]).toMatchObject({ status: 'processing' });
+      expect(updates).toContainEqual(expect.objectContaining({
+        url_title: 'Test Page Title',
+        schema_data: { name: 'Test Organization' }
+      }));
+      expect(updates).toContainEqual({ screenshot_url: 'https://blob.vercel-storage.com/test-screenshot.png' });
+      expect(updates).toContainEqual(expect.objectContaining({
+        page_speed_analysis: { score: 75, issues: [], recommendations: [] },
+        progress: expect.objectContaining({
+          modules: { speed: expect.objectContaining({ status: 'completed', score: 75 }) }
+        })
+      }));
+      expect(updates[updates.length - 1]).toMatchObject({ status: 'completed', overall_score: 75, grade: 'B' });
+
+      expect(mockRunAnalysisModules).toHaveBeenCalledWith('https://example.com/', expect.objectContaining({
+        component: 'speed',
+        screenshotUrl: 'https://blob.vercel-storage.com/test-screenshot.png'
+      }));
+    });
+
+    it('should continue without metadata or screenshot when they fail', async () => {
+      responses.push({ data: [queuedJob()], error: null });
+      mockExtractPageMetadata.mockRejectedValue(new Error('Navigation failed'));
+      mockCaptureAndStoreScreenshot.mockRejectedValue(new Error('Upload failed'));
+
+      const outcome = await processAnalysisJob('analysis-1');
+
+      expect(outcome).toBe('completed');
+      expect(updates).toContainEqual(expect.objectContaining({ url_title: 'Page Title Unavailable' }));
+      expect(mockRunAnalysisModules).toHaveBeenCalledWith('https://example.com/', expect.objectContaining({
+        screenshotUrl: undefined
+      }));
+    });
+
+    it('should re-queue a failed job and increment retry_count', async () => {
+      responses.push({ data: [queuedJob({ retry_count: 0 })], error: null });
+      mockRunAnalysisModules.mockRejectedValue(new Error('Browser crashed'));
+
+      const outcome = await processAnalysisJob('analysis-1');
+
+      expect(outcome).toBe('retrying');
+      expect(updates[updates.length - 1]).toEqual({
+        status: 'queued',
+        retry_count: 1,
+        error_message: 'Browser crashed'
+      });
+    });
+
+    it('should mark the job failed after the last attempt', async () => {
+      responses.push({ data: [queuedJob({ retry_count: MAX_RETRIES - 1 })], error: null });
+      mockRunAnalysisModules.mockRejectedValue(new Error('Browser crashed'));
+
+      const outcome = await processAnalysisJob('analysis-1');
+
+      expect(outcome).toBe('failed');
+      expect(updates[updates.length - 1]).toMatchObject({
+        status: 'failed',
+        retry_count: MAX_RETRIES,
+        error_message: 'Browser crashed'
+      });
+    });
+
+    it('should store the raw score without an adjusted score when no profile applies', async () => {
+      responses.push({ data: [queuedJob()], error: null });
+
+      await processAnalysisJob('analysis-1');
+
+      expect(updates[updates.length - 1]).toMatchObject({
+        overall_score: 75,
+        industry_adjusted_score: null,
+        scoring_weights: { profile: null, source: null }
+      });
+    });
+
+    it('should score with the requested weight profile', async () => {
+      responses.push({ data: [queuedJob({ job_options: { weight_profile: 'ecommerce' } })], error: null });
+      mockRunAnalysisModules.mockResolvedValue({
+        overallScore: 70,
+        pageLoadSpeed: { score: 90 },
+        ctaAnalysis: { score: 50 }
+      });
+
+      await processAnalysisJob('analysis-1');
+
+      // speed:90*0.16 + cta:50*0.11 = 19.9 / 0.27 = 73.7
+      expect(updates[updates.length - 1]).toMatchObject({
+        overall_score: 70,
+        grade: 'B',
+        module_grades: { speed: 'A', cta: 'D' },
+        industry_adjusted_score: 74,
+        scoring_weights: { profile: 'ecommerce', source: 'request' }
+      });
+    });
+
+    it('should pick the weight profile from the detected industry', async () => {
+      responses.push({ data: [queuedJob({ detected_industry: 'SaaS' })], error: null });
+
+      await processAnalysisJob('analysis-1');
+
+      expect(updates[updates.length - 1].scoring_weights).toMatchObject({ profile: 'saas', source: 'industry' });
+    });
+
+    it('should store the detected industry and weight the score for it', async () => {
+      responses.push({ data: [queuedJob()], error: null });
+      mockDetectIndustry.mockResolvedValue({ industry: 'local-service', confidence: 0.72, scores: {}, signals: [] });
+
+      await processAnalysisJob('analysis-1');
+
+      expect(updates).toContainEqual({ detected_industry: 'local-service', industry_confidence: 0.72 });
+      expect(updates[updates.length - 1].scoring_weights).toMatchObject({ profile: 'lead-gen', source: 'industry' });
+    });
+
+    it('should keep the existing industry when detection fails', async () => {
+      responses.push({ data: [queuedJob({ detected_industry: 'ecommerce' })], error: null });
+      mockDetectIndustry.mockRejectedValue(new Error('Navigation failed'));
+
+      const outcome = await processAnalysisJob('analysis-1');
+
+      expect(outcome).toBe('completed');
+      expect(updates).not.toContainEqual(expect.objectContaining({ detected_industry: expect.anything() }));
+      expect(updates[updates.length - 1].scoring_weights).toMatchObject({ profile: 'ecommerce', source: 'industry' });
+    });
+
+    it('should store a conversion estimate for a full analysis', async () => {
+      const averagePage = corpus.pages.find(page => page.name === 'average page')!.results;
+      responses.push({ data: [queuedJob({ job_options: { weight_profile: 'lead-gen' } })], error: null });
+      mockRunAnalysisModules.mockResolvedValue({ overallScore: 67, ...averagePage });
+
+      await processAnalysisJob('analysis-1');
+
+      expect(updates[updates.length - 1]).toMatchObject({
+        conversion_probability: 0.045,
+        conversion_prediction: { probability: 0.045, model_version: '1.0.0', baseline_rate: 0.045 }
+      });
+    });
+
+    it('should not estimate conversions from modules that failed', async () => {
+      const averagePage = corpus.pages.find(page => page.name === 'average page')!.results;
+      responses.push({ data: [queuedJob({ job_options: {} })], error: null });
+      mockRunAnalysisModules.mockImplementation(async (_url: string, options: any) => {
+        await options.hooks.onModuleError('speed', new Error('Timed out'), { score: 0, metrics: { loadTime: 0 } });
+        return { overallScore: 67, ...averagePage, pageLoadSpeed: { score: 0, metrics: { loadTime: 30 } } };
+      });
+
+      await processAnalysisJob('analysis-1');
+
+      const { conversion_prediction } = updates[updates.length - 1];
+      expect(conversion_prediction.predictions.lcp).toBe(0);
+      expect(conversion_prediction.probability).toBe(0.03);
+    });
+
+    it('should not estimate conversions for a single-module analysis', async () => {
+      responses.push({ data: [queuedJob()], error: null });
+
+      await processAnalysisJob('analysis-1');
+
+      expect(updates[updates.length - 1]).toMatchObject({ conversion_prediction: null, conversion_probability: null });
+    });
+
+    it('should refresh the comparison a finished job takes part in', async () => {
+      responses.push({ data: [queuedJob({ id: 'analysis-2', job_options: { comparison_id: 'analysis-1' } })], error: null });
+
+      await processAnalysisJob('analysis-2');
+
+      expect(mockRefreshCompetitiveAnalysis).toHaveBeenCalledWith('analysis-1');
+    });
+
+    it('should refresh the comparison on the primary job itself', async () => {
+      responses.push({ data: [queuedJob({ job_options: { competitor_urls: ['https://rival.com/'] } })], error: null });
+
+      await processAnalysisJob('analysis-1');
+
+      expect(mockRefreshCompetitiveAnalysis).toHaveBeenCalledWith('analysis-1');
+    });
+
+    it('should not refresh a comparison while a failed job will be retried', async () => {
+      responses.push({ data: [queuedJob({ job_options: { comparison_id: 'analysis-0' } })], error: null });
+      mockRunAnalysisModules.mockRejectedValue(new Error('Browser crashed'));
+
+      await processAnalysisJob('analysis-1');
+
+      expect(mockRefreshCompetitiveAnalysis).not.toHaveBeenCalled();
+    });
+
+    it('should queue more of the batch when a batch job finishes', async () => {
+      responses.push({ data: [queuedJob({ job_options: { batch_id: 'batch-1' } })], error: null });
+
+      await processAnalysisJob('analysis-1');
+
+      expect(mockReleaseBatchJobs).toHaveBeenCalledWith('batch-1');
+    });
+
+    it('should queue more of the batch when a batch job fails for good', async () => {
+      responses.push({ data: [queuedJob({ retry_count: MAX_RETRIES - 1, job_options: { batch_id: 'batch-1' } })], error: null });
+      mockRunAnalysisModules.mockRejectedValue(new Error('Browser crashed'));
+
+      await processAnalysisJob('analysis-1');
+
+      expect(mockReleaseBatchJobs).toHaveBeenCalledWith('batch-1');
+    });
+
+    it('should store the recommendations of a finished job', async () => {
+      responses.push({ data: [queuedJob()], error: null });
+
+      await processAnalysisJob('analysis-1');
+
+      expect(mockSaveRecommendations).toHaveBeenCalledWith('analysis-1', { overallScore: 75 });
+    });
+
+    it('should complete the job when its recommendations cannot be stored', async () => {
+      responses.push({ data: [queuedJob()], error: null });
+      mockSaveRecommendations.mockRejectedValueOnce(new Error('connection lost'));
+
+      expect(await processAnalysisJob('analysis-1')).toBe('completed');
+    });
+
+    it('should load an uploaded page from its files in every browser, then delete the upload', async () => {
+      const source = { type: 'zip', blob_url: 'https://blob.vercel-storage.com/page-sources/abc.zip', digest: 'abc' };
+      const servedPage = { url: 'https://uploaded-page.invalid/', files: new Map() };
+      responses.push({ data: [queuedJob({ url: 'upload://abc/', job_options: { component: 'speed', source } })], error: null });
+      mockServePageSource.mockResolvedValue(servedPage);
+
+      const outcome = await processAnalysisJob('analysis-1');
+
+      expect(outcome).toBe('completed');
+      expect(mockServePageSource).toHaveBeenCalledWith(source);
+      expect(mockExtractPageMetadata).toHaveBeenCalledWith(servedPage.url, { puppeteer: expect.objectContaining({ servedPage }) });
+      expect(mockCaptureAndStoreScreenshot).toHaveBeenCalledWith(servedPage.url, expect.objectContaining({ puppeteer: expect.objectContaining({ servedPage }) }));
+      expect(mockRunAnalysisModules).toHaveBeenCalledWith(servedPage.url, expect.objectContaining({ servedPage }));
+      expect(mockDiscardPageSource).toHaveBeenCalledWith(source);
+    });
+
+    it('should keep the upload of a job that will be retried', async () => {
+      const source = { type: 'html', blob_url: 'https://blob.vercel-storage.com/page-sources/abc.html', digest: 'abc' };
+      responses.push({ data: [queuedJob({ url: 'upload://abc/', job_options: { source } })], error: null });
+      mockServePageSource.mockResolvedValue({ url: 'https://uploaded-page.invalid/', files: new Map() });
+      mockRunAnalysisModules.mockRejectedValue(new Error('Browser crashed'));
+
+      const outcome = await processAnalysisJob('analysis-1');
+
+      expect(outcome).toBe('retrying');
+      expect(mockDiscardPageSource).not.toHaveBeenCalled();
+    });
+
+    it('should delete the upload of a job that fails for good', async () => {
+      const source = { type: 'html', blob_url: 'https://blob.vercel-storage.com/page-sources/abc.html', digest: 'abc' };
+      responses.push({ data: [queuedJob({ url: 'upload://abc/', retry_count: MAX_RETRIES - 1, job_options: { source } })], error: null });
+      mockServePageSource.mockResolvedValue({ url: 'https://uploaded-page.invalid/', files: new Map() });
+      mockRunAnalysisModules.mockRejectedValue(new Error('Browser crashed'));
+
+      const outcome = await processAnalysisJob('analysis-1');
+
+      expect(outcome).toBe('failed');
+      expect(mockDiscardPageSource).toHaveBeenCalledWith(source);
+    });
+
+    it('should open every page of a password-protected job with its held credentials', async () => {
+      const auth = { origin: 'https://example.com', basic: { username: 'staging', password: 's3cret' } };
+      holdPageAuth('analysis-1', auth);
+      responses.push({ data: [queuedJob({ job_options: { requires_auth: true } })], error: null });
+
+      const outcome = await processAnalysisJob('analysis-1');
+
+      expect(outcome).toBe('completed');
+      expect(mockExtractPageMetadata).toHaveBeenCalledWith('https://example.com/', { puppeteer: expect.objectContaining({ auth }) });
+      expect(mockDetectIndustry).toHaveBeenCalledWith('https://example.com/', { puppeteer: expect.objectContaining({ auth }) });
+      expect(mockCaptureAndStoreScreenshot).toHaveBeenCalledWith('https://example.com/', expect.objectContaining({ puppeteer: expect.objectContaining({ auth }) }));
+      expect(mockRunAnalysisModules).toHaveBeenCalledWith('https://example.com/', expect.objectContaining({ auth }));
+      expect(JSON.stringify(updates)).not.toContain('s3cret');
+      expect(getHeldPageAuth('analysis-1')).toBeNull();
+    });
+
+    it('should fail a password-protected job for good when its credentials are gone', async () => {
+      responses.push({ data: [queuedJob({ job_options: { requires_auth: true } })], error: null });
+
+      const outcome = await processAnalysisJob('analysis-1');
+
+      expect(outcome).toBe('failed');
+      expect(mockRunAnalysisModules).not.toHaveBeenCalled();
+      expect(updates[1]).toMatchObject({
+        status: 'failed',
+        retry_count: 1,
+        error_message: 'The credentials for this page are no longer available. Submit the analysis again.'
+      });
+    });
+
+    it('should fail a password-protected job for good instead of retrying it', async () => {
+      holdPageAuth('analysis-1', { origin: 'https://example.com', headers: { Authorization: 'Bearer token' } });
+      responses.push({ data: [queuedJob({ job_options: { requires_auth: true } })], error: null });
+      mockRunAnalysisModules.mockRejectedValue(new Error('Browser crashed'));
+
+      expect(await processAnalysisJob('analysis-1')).toBe('failed');
+      expect(updates[updates.length - 1]).toMatchObject({ status: 'failed', retry_count: 1, error_message: 'Browser crashed' });
+      expect(getHeldPageAuth('analysis-1')).toBeNull();
+    });
+
+    it('should record what changed when a re-scan finishes', async () => {
+      responses.push({ data: [queuedJob({ parent_analysis_id: 'analysis-0', algorithm_version: '1.0.0' })], error: null });
+
+      await processAnalysisJob('analysis-1');
+
+      expect(mockRecordAnalysisChanges).toHaveBeenCalledWith('analysis-1', '1.0.0');
+    });
+
+    it('should check a monitored re-scan for score drops', async () => {
+      const changes = { scoreDelta: -12, modules: [] };
+      mockRecordAnalysisChanges.mockResolvedValue(changes);
+      responses.push({ data: [queuedJob({ user_id: 'user-1', parent_analysis_id: 'analysis-0', algorithm_version: '1.0.0', job_options: { monitored: true } })], error: null });
+
+      await processAnalysisJob('analysis-1');
+
+      expect(mockAlertOnScoreDrops).toHaveBeenCalledWith(expect.objectContaining({ id: 'analysis-1', user_id: 'user-1' }), changes);
+    });
+
+    it('should not alert on re-scans someone requested', async () => {
+      mockRecordAnalysisChanges.mockResolvedValue({ scoreDelta: -12, modules: [] });
+      responses.push({ data: [queuedJob({ parent_analysis_id: 'analysis-0', algorithm_version: '1.0.0' })], error: null });
+
+      await processAnalysisJob('analysis-1');
+
+      expect(mockAlertOnScoreDrops).not.toHaveBeenCalled();
+    });
+
+    it('should not record changes for a first scan', async () => {
+      responses.push({ data: [queuedJob()], error: null });
+
+      await processAnalysisJob('analysis-1');
+
+      expect(mockRecordAnalysisChanges).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('processQueuedAnalyses', () => {
+    it('should recover stale jobs and process queued jobs', async () => {
+      responses.push(
+        { data: [{ id: 'stale-1', retry_count: 0 }], error: null }, // stale lookup
+        { error: null }, // re-queue stale job
+        { data: [{ id: 'analysis-1' }], error: null }, // queued lookup
+        { data: [queuedJob()], error: null } // claim
+      );
+
+      const result = await processQueuedAnalyses({ limit: 1 });
+
+      expect(result.recovered).toBe(1);
+      expect(result.processed).toEqual([{ id: 'analysis-1', outcome: 'completed' }]);
+      expect(updates[0]).toMatchObject({ status: 'queued', retry_count: 1 });
+    });
+
+    it('should move the batch and comparison of a stale job that is out of retries along', async () => {
+      responses.push(
+        {
+          data: [{ id: 'stale-1', retry_count: MAX_RETRIES - 1, job_options: { batch_id: 'batch-1', comparison_id: 'comparison-1' } }],
+          error: null
+        }, // stale lookup
+        { error: null }, // mark stale job failed
+        { data: [], error: null } // queued lookup
+      );
+
+      await processQueuedAnalyses({ limit: 1 });
+
+      expect(updates[0]).toMatchObject({ status: 'failed', retry_count: MAX_RETRIES });
+      expect(mockRefreshCompetitiveAnalysis).toHaveBeenCalledWith('comparison-1');
+      expect(mockReleaseBatchJobs).toHaveBeenCalledWith('batch-1');
+    });
+
+    it('should fail a stale password-protected job instead of re-queueing it', async () => {
+      responses.push(
+        { data: [{ id: 'stale-1', retry_count: 0, job_options: { requires_auth: true } }], error: null }, // stale lookup
+        { error: null }, // mark stale job failed
+        { data: [], error: null } // queued lookup
+      );
+
+      await processQueuedAnalyses({ limit: 1 });
+
+      expect(updates[0]).toMatchObject({ status: 'failed', retry_count: 1 });
+    });
+
+    it('should leave password-protected jobs to the process holding their credentials', async () => {
+      jest.useFakeTimers().setSystemTime(new Date('2026-01-01T12:00:00.000Z'));
+      const builder = createQueryBuilder();
+      mockSupabaseFrom.mockImplementation(() => builder);
+      responses.push(
+        { data: [], error: null }, // stale lookup
+        { data: [], error: null } // queued lookup
+      );
+
+      try {
+        await processQueuedAnalyses({ limit: 1 });
+      } finally {
+        jest.useRealTimers();
+      }
+
+      expect(builder.or).toHaveBeenCalledWith('job_options->>requires_auth.is.null,created_at.lt.2026-01-01T11:30:00.000Z');
+    });
+  });
+
+  describe('progress helpers', () => {
+    it('should create pending progress for the selected modules', () => {
+      const progress = createInitialProgress();
+      expect(Object.keys(progress.modules)).toHaveLength(13);
+      expect(progress.modules.speed).toEqual({ status: 'pending' });
+    });
+
+    it('should count completed and failed modules as finished', () => {
+      expect(calculateProgressPercent({
+        modules: {
+          speed: { status: 'completed' },
+          cta: { status: 'failed' },
+          font: { status: 'running' },
+          image: { status: 'pending' }
+        },
+        updated_at: new Date().toISOString()
+      })).toBe(50);
+      expect(calculateProgressPercent(null)).toBe(0);
+    });
+  });
+});
@@ -0,0 +1,414 @@
+import { getModulesToRun, runAnalysisModules } from '../analysis-runner';
+
+jest.mock('@/lib/font-analysis', () => ({
+  analyzeFontUsage: jest.fn()
+}));
+
+jest.mock('@/lib/image-optimization', () => ({
+  analyzeImageOptimization: jest.fn()
+}));
+
+jest.mock('@/lib/page-speed-analysis', () => ({
+  analyzePageSpeed: jest.fn()
+}));
+
+jest.mock('@/lib/whitespace-assessment', () => ({
+  analyzeWhitespace: jest.fn()
+}));
+
+jest.mock('@/lib/cta-analysis', () => ({
+  analyzeCTA: jest.fn()
+}));
+
+jest.mock('@/lib/social-proof-analysis', () => ({
+  analyzeSocialProof: jest.fn()
+}));
+
+jest.mock('@/lib/value-proposition-analysis', () => ({
+  analyzeValueProposition: jest.fn()
+}));
+
+jest.mock('@/lib/form-optimization', () => ({
+  analyzeFormOptimization: jest.fn()
+}));
+
+jest.mock('@/lib/mobile-conversion-analysis', () => ({
+  analyzeMobileConversion: jest.fn()
+}));
+
+jest.mock('@/lib/psychological-triggers-analysis', () => ({
+  analyzePsychologicalTriggers: jest.fn()
+}));
+
+jest.mock('@/lib/copy-effectiveness-analysis', () => ({
+  analyzeCopyEffectiveness: jest.fn()
+}));
+
+jest.mock('@/lib/accessibility-analysis', () => ({
+  analyzeAccessibility: jest.fn()
+}));
+
+jest.mock('@/lib/seo-analysis', () => ({
+  analyzeSeo: jest.fn()
+}));
+
+jest.mock('@/lib/puppeteer-config', () => ({
+  createPuppeteerBrowser: jest.fn()
+}));
+
+describe('analysis-runner', () => {
+  const mockAnalyzeFontUsage = require('@/lib/font-analysis').analyzeFontUsage;
+  const mockAnalyzeImageOptimization = require('@/lib/image-optimization').analyzeImageOptimization;
+  const mockAnalyzePageSpeed = require('@/lib/page-speed-analysis').analyzePageSpeed;
+  const mockAnalyzeWhitespace = require('@/lib/whitespace-assessment').analyzeWhitespace;
+  const mockAnalyzeCTA = require('@/lib/cta-analysis').analyzeCTA;
+  const mockAnalyzeSocialProof = require('@/lib/social-proof-analysis').analyzeSocialProof;
+  const mockAnalyzeValueProposition = require('@/lib/value-proposition-analysis').analyzeValueProposition;
+  const mockAnalyzeFormOptimization = require('@/lib/form-optimization').analyzeFormOptimization;
+  const mockAnalyzeMobileConversion = require('@/lib/mobile-conversion-analysis').analyzeMobileConversion;
+  const mockAnalyzePsychologicalTriggers = require('@/lib/psychological-triggers-analysis').analyzePsychologicalTriggers;
+  const mockAnalyzeCopyEffectiveness = require('@/lib/copy-effectiveness-analysis').analyzeCopyEffectiveness;
+  const mockAnalyzeAccessibility = require('@/lib/accessibility-analysis').analyzeAccessibility;
+  const mockAnalyzeSeo = require('@/lib/seo-analysis').analyzeSeo;
+  const mockCreatePuppeteerBrowser = require('@/lib/puppeteer-config').createPuppeteerBrowser;
+
+  const mockBrowser = { close: jest.fn() };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockCreatePuppeteerBrowser.mockResolvedValue(mockBrowser);
+
+    mockAnalyzeFontUsage.mockResolvedValue({
+      fontFamilies: ['Arial, sans-serif'],
+      fontCount: 1,
+      systemFontCount: 1,
+      webFontCount: 0,
+      score: 95,
+      issues: [],
+      recommendations: ['Good font choice']
+    });
+
+    mockAnalyzeImageOptimization.mockResolvedValue({
+      score: 80,
+      totalImages: 2,
+      modernFormats: 1,
+      withAltText: 2,
+      appropriatelySized: 2,
+      issues: ['1 image using legacy format'],
+      recommendations: ['Convert to WebP'],
+      details: {}
+    });
+
+    mockAnalyzePageSpeed.mockResolvedValue({
+      score: 75,
+      grade: 'C',
+      metrics: { lcp: 2500, fcp: 1200, cls: 0.15, tbt: 200, si: 3000 },
+      lighthouseScore: 75,
+      issues: ['Slow LCP'],
+      recommendations: ['Optimize images'],
+      loadTime: 4000
+    });
+
+    mockAnalyzeWhitespace.mockResolvedValue({
+      score: 70,
+      grade: 'C',
+      metrics: {
+        whitespaceRatio: 0.45,
+        elementDensityPerSection: { gridSections: 12, maxDensity: 6, averageDensity: 3.5, totalElements: 42 },
+        spacingAnalysis: {
+          headlineSpacing: { adequate: true },
+          ctaSpacing: { adequate: false },
+          contentBlockSpacing: { adequate: true },
+          lineHeight: { adequate: true }
+        },
+        clutterScore: 25,
+        hasAdequateSpacing: false
+      },
+      issues: ['Poor CTA spacing'],
+      recommendations: ['Increase spacing around CTAs'],
+      loadTime: 2000
+    });
+
+    mockAnalyzeCTA.mockResolvedValue({
+      score: 85,
+      ctas: [{ text: 'Sign Up', type: 'primary', isAboveFold: true, actionStrength: 'strong' }],
+      primaryCTA: { text: 'Sign Up', type: 'primary' },
+      issues: [],
+      recommendations: ['Good CTA implementation']
+    });
+
+    mockAnalyzeSocialProof.mockResolvedValue({
+      score: 60,
+      elements: [{ type: 'testimonial', text: 'Great service!', score: 80 }],
+      summary: { totalElements: 1, testimonials: 1 },
+      issues: ['Limited social proof'],
+      recommendations: ['Add more testimonials']
+    });
+
+    mockAnalyzeValueProposition.mockResolvedValue({
+      score: 72,
+      headline: 'Ship landing pages that convert',
+      subheadline: 'Get a conversion report in 60 seconds',
+      headlineClarityScore: 100,
+      benefitVsFeatureRatio: 1,
+      benefitPhrases: ['convert'],
+      featurePhrases: [],
+      vaguePhrases: [],
+      specificityScore: 70,
+      uniqueValuePropositionDetected: false,
+      timeToComprehensionMs: 3500,
+      issues: ['No differentiator found.'],
+      recommendations: ['Say what makes you different.']
+    });
+
+    mockAnalyzeFormOptimization.mockResolvedValue({
+      score: null,
+      formCount: 0,
+      totalFields: 0,
+      requiredFields: 0,
+      placeholderOnlyFields: 0,
+      missingAutocompleteFields: 0,
+      inputTypeMismatches: 0,
+      multiStepFormDetected: false,
+      forms: [],
+      issues: [],
+      recommendations: []
+    });
+
+    mockAnalyzeMobileConversion.mockResolvedValue({
+      score: 68,
+      modules: {
+        ctaAnalysis: { score: 70, issues: [], recommendations: [] },
+        whitespaceAssessment: { score: 60, issues: [], recommendations: [] },
+        imageOptimization: null,
+        socialProof: { score: 55, issues: [], recommendations: [] }
+      },
+      ctasAboveFold: 1,
+      tapTargets: { total: 10, tooSmall: 2, examples: [] },
+      horizontalOverflow: { detected: false, pageWidth: 390, viewportWidth: 390, offenders: [] },
+      hasViewportMeta: true,
+      issues: ['2 of 10 tap targets are smaller than 44x44px, making them hard to tap on mobile.'],
+      recommendations: ['Enlarge 2 buttons and links to at least 44x44px so visitors can tap them without mis-taps.']
+    });
+
+    mockAnalyzePsychologicalTriggers.mockResolvedValue({
+      score: 62,
+      countdownTimers: [],
+      scarcityElements: 0,
+      scarcityPhrases: [],
+      urgencyLanguageDetected: true,
+      urgencyPhrases: ['limited time'],
+      authoritySignals: 1,
+      authorityPhrases: ['as seen on'],
+      reciprocityElements: 0,
+      reciprocityOffers: [],
+      socialProofStrength: 80,
+      manipulativePatterns: [],
+      issues: ['No free offer (guide, checklist, trial or consultation) to give visitors value up front.'],
+      recommendations: ['Give something useful before you ask for anything: a free guide, checklist, template or audit.']
+    });
+
+    mockAnalyzeCopyEffectiveness.mockResolvedValue({
+      score: 74,
+      wordCount: 420,
+      sentenceCount: 28,
+      fleschReadingEase: 61.2,
+      fleschKincaidGrade: 8.4,
+      averageSentenceLength: 15,
+      longSentences: 1,
+      passiveVoiceRate: 0.07,
+      passiveExamples: [],
+      youCount: 12,
+      weCount: 9,
+      youWeRatio: 0.57,
+      jargonDensity: 0.5,
+      jargonTerms: ['leverage'],
+      headline: 'Ship faster',
+      headlineWordCount: 2,
+      longHeadings: [],
+      issues: [],
+      recommendations: []
+    });
+
+    mockAnalyzeAccessibility.mockResolvedValue({
+      score: 81,
+      lang: 'en',
+      contrast: { checked: 40, failing: 2, examples: [] },
+      headings: { levels: [1, 2, 2], hasH1: true, skippedLevels: [] },
+      landmarks: { main: true, navigation: true, banner: true, contentinfo: false },
+      formLabels: { total: 2, unlabeled: 0, examples: [] },
+      focusability: { unfocusable: 0, examples: [] },
+      linkText: { total: 12, generic: 1, empty: 0, examples: ['Learn more'] },
+      images: { total: 4, missingAlt: 0 },
+      issues: ['2 text elements of 40 fail WCAG AA contrast against their background.'],
+      recommendations: []
+    });
+
+    mockAnalyzeSeo.mockResolvedValue({
+      score: 88,
+      title: { text: 'Example - Send invoices in one click', length: 36 },
+      description: { text: 'Send invoices in one click and get paid in two days.', length: 52 },
+      canonical: { url: 'https://example.com/', isAbsolute: true, matchesPage: true },
+      openGraph: { tags: {}, missing: [], image: null },
+      twitterCard: { card: 'summary_large_image', tags: {} },
+      robots: { directives: [], noindex: false, nofollow: false },
+      hreflang: { alternates: [], invalid: [], hasXDefault: false },
+      structuredData: { blocks: 1, invalidBlocks: 0, types: ['Organization'], items: [] },
+      h1Count: 1,
+      issues: [],
+      recommendations: []
+    });
+  });
+
+  describe('getModulesToRun', () => {
+    it('should run every module when no component is given', () => {
+      expect(getModulesToRun()).toEqual(['speed', 'font', 'image', 'cta', 'whitespace', 'socialProof', 'valueProposition', 'form', 'mobile', 'psychologicalTriggers', 'copy', 'accessibility', 'seo']);
+      expect(getModulesToRun('all')).toHaveLength(13);
+    });
+
+    it('should accept component aliases', () => {
+      expect(getModulesToRun('pageSpeed')).toEqual(['speed']);
+      expect(getModulesToRun('spacing')).toEqual(['whitespace']);
+      expect(getModulesToRun('social')).toEqual(['socialProof']);
+      expect(getModulesToRun('uvp')).toEqual(['valueProposition']);
+      expect(getModulesToRun('readability')).toEqual(['copy']);
+      expect(getModulesToRun('a11y')).toEqual(['accessibility']);
+      expect(getModulesToRun('metadata')).toEqual(['seo']);
+    });
+  });
+
+  describe('runAnalysisModules', () => {
+    it('should run all analyzers against the URL with a shared browser', async () => {
+      const result = await runAnalysisModules('https://example.com/');
+
+      expect(mockAnalyzeFontUsage).toHaveBeenCalledWith('https://example.com/', expect.any(Object));
+      expect(mockAnalyzeImageOptimization).toHaveBeenCalledWith('https://example.com/', expect.any(Object));
+      expect(mockAnalyzePageSpeed).toHaveBeenCalledWith(
+        'https://example.com/',
+        expect.objectContaining({ puppeteer: expect.objectContaining({ browser: mockBrowser }) })
+      );
+      expect(mockAnalyzeWhitespace).toHaveBeenCalledWith('https://example.com/', expect.any(Object));
+      expect(mockAnalyzeCTA).toHaveBeenCalledWith('https://example.com/', expect.any(Object));
+      expect(mockAnalyzeSocialProof).toHaveBeenCalledWith('https://example.com/', expect.any(Object));
+      expect(mockAnalyzeValueProposition).toHaveBeenCalledWith('https://example.com/', expect.any(Object));
+      expect(mockAnalyzeFormOptimization).toHaveBeenCalledWith('https://example.com/', expect.any(Object));
+      expect(mockAnalyzeMobileConversion).toHaveBeenCalledWith(
+        'https://example.com/',
+        expect.objectContaining({ puppeteer: expect.objectContaining({ browser: mockBrowser }) })
+      );
+
+      expect(mockCreatePuppeteerBrowser).toHaveBeenCalledTimes(1);
+      expect(mockBrowser.close).toHaveBeenCalledTimes(1);
+
+      expect(result.fontUsage.score).toBe(95);
+      expect(result.ctaAnalysis.ctas).toHaveLength(1);
+      expect(result.overallScore).toBeGreaterThan(0);
+      expect(result.overallScore).toBeLessThanOrEqual(100);
+    });
+
+    it('should pass results of completed analyzers to later ones', async () => {
+      await runAnalysisModules('https://example.com/');
+
+      expect(mockAnalyzePsychologicalTriggers).toHaveBeenCalledWith(
+        'https://example.com/',
+        expect.objectContaining({ socialProof: expect.objectContaining({ score: expect.any(Number), summary: expect.any(Object) }) })
+      );
+    });
+
+    it('should let an analyzer run without the results it builds on', async () => {
+      await runAnalysisModules('https://example.com/', { component: 'psychology' });
+
+      expect(mockAnalyzeSocialProof).not.toHaveBeenCalled();
+      expect(mockAnalyzePsychologicalTriggers).toHaveBeenCalledWith(
+        'https://example.com/',
+        expect.objectContaining({ socialProof: undefined })
+      );
+    });
+
+    it('should support component-based analysis (speed only)', async () => {
+      const result = await runAnalysisModules('https://example.com/', { component: 'speed' });
+
+      expect(mockAnalyzePageSpeed).toHaveBeenCalled();
+      expect(mockAnalyzeFontUsage).not.toHaveBeenCalled();
+      expect(mockAnalyzeImageOptimization).not.toHaveBeenCalled();
+      expect(result.overallScore).toBe(75); // Only the speed score counts
+    });
+
+    it('should accept a null score from an analyzer that does not apply to the page', async () => {
+      const onModuleError = jest.fn();
+      const result = await runAnalysisModules('https://example.com/', { component: 'forms', hooks: { onModuleError } });
+
+      expect(onModuleError).not.toHaveBeenCalled();
+      expect(result.formOptimization.score).toBeNull();
+      expect(result.overallScore).toBe(0);
+    });
+
+    it('should pass the screenshot URL to the whitespace assessment', async () => {
+      await runAnalysisModules('https://example.com/', {
+        component: 'whitespace',
+        screenshotUrl: 'https://blob.vercel-storage.com/test-screenshot.png'
+      });
+
+      expect(mockAnalyzeWhitespace).toHaveBeenCalledWith(
+        'https://example.com/',
+        expect.objectContaining({ screenshotUrl: 'https://blob.vercel-storage.com/test-screenshot.png' })
+      );
+    });
+
+    it('should use the fallback result when an analyzer with a fallback fails', async () => {
+      mockAnalyzePageSpeed.mockRejectedValue(new Error('Network timeout'));
+      const onModuleError = jest.fn();
+      const onModuleComplete = jest.fn();
+
+      const result = await runAnalysisModules('https://example.com/', {
+        hooks: { onModuleError, onModuleComplete }
+      });
+
+      expect(result.pageLoadSpeed.score).toBe(0);
+      expect(result.fontUsage.score).toBe(95);
+      expect(onModuleError).toHaveBeenCalledWith('speed', expect.any(Error), expect.objectContaining({ score: 0 }));
+      expect(onModuleComplete).not.toHaveBeenCalledWith('speed', expect.anything());
+      expect(onModuleComplete).toHaveBeenCalledTimes(12);
+    });
+
+    it('should treat a result missing required fields as a failure', async () => {
+      mockAnalyzePageSpeed.mockResolvedValue({ score: 75, issues: [], recommendations: [], loadTime: 4000 });
+      const onModuleError = jest.fn();
+
+      const result = await runAnalysisModules('https://example.com/', {
+        component: 'speed',
+        hooks: { onModuleError }
+      });
+
+      expect(onModuleError).toHaveBeenCalledWith('speed', expect.any(Error), expect.objectContaining({ score: 0 }));
+      expect(onModuleError.mock.calls[0][1].message).toContain('metrics');
+      expect(result.pageLoadSpeed.score).toBe(0);
+    });
+
+    it('should fail the run and close the browser when an analyzer without a fallback fails', async () => {
+      mockAnalyzeFontUsage.mockRejectedValue(new Error('Font analysis crashed'));
+      const onModuleError = jest.fn();
+
+      await expect(runAnalysisModules('https://example.com/', { hooks: { onModuleError } }))
+        .rejects.toThrow('Font analysis crashed');
+
+      expect(onModuleError).toHaveBeenCalledWith('font', expect.any(Error), undefined);
+      expect(mockAnalyzeImageOptimization).not.toHaveBeenCalled();
+      expect(mockBrowser.close).toHaveBeenCalled();
+    });
+
+    it('should call hooks in module order', async () => {
+      const events: string[] = [];
+
+      await runAnalysisModules('https://example.com/', {
+        component: 'cta',
+        hooks: {
+          onModuleStart: moduleId => { events.push(`start:${moduleId}`); },
+          onModuleComplete: moduleId => { events.push(`complete:${moduleId}`); }
+        }
+      });
+
+      expect(events).toEqual(['start:cta', 'complete:cta']);
+    });
+  });
+});
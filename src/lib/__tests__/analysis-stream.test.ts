@@ -0,0 +1,75 @@
+import { formatServerSentEvent, getModuleProgressEvents } from '../analysis-stream';
+
+describe('analysis-stream', () => {
+  const snapshot = (modules: Record<string, any>) => ({
+    modules,
+    updated_at: '2026-10-18T09:00:00Z'
+  });
+
+  describe('getModuleProgressEvents', () => {
+    it('should report modules whose status changed', () => {
+      const previous = snapshot({
+        speed: { status: 'running' },
+        cta: { status: 'pending' }
+      });
+      const current = snapshot({
+        speed: { status: 'completed', score: 82 },
+        cta: { status: 'running' }
+      });
+
+      expect(getModuleProgressEvents(previous, current)).toEqual([
+        { moduleId: 'speed', status: 'completed', score: 82 },
+        { moduleId: 'cta', status: 'running' }
+      ]);
+    });
+
+    it('should not report unchanged modules', () => {
+      const progress = snapshot({ speed: { status: 'running' } });
+
+      expect(getModuleProgressEvents(progress, progress)).toEqual([]);
+    });
+
+    it('should treat the first snapshot as a change from pending', () => {
+      const current = snapshot({
+        speed: { status: 'completed', score: 82 },
+        font: { status: 'running' },
+        image: { status: 'pending' }
+      });
+
+      expect(getModuleProgressEvents(null, current)).toEqual([
+        { moduleId: 'speed', status: 'completed', score: 82 },
+        { moduleId: 'font', status: 'running' }
+      ]);
+    });
+
+    it('should include the error for failed modules', () => {
+      const current = snapshot({
+        cta: { status: 'failed', score: 0, error: 'Navigation timeout' }
+      });
+
+      expect(getModuleProgressEvents(null, current)).toEqual([
+        { moduleId: 'cta', status: 'failed', score: 0, error: 'Navigation timeout' }
+      ]);
+    });
+
+    it('should report modules reset to pending when a job is retried', () => {
+      const previous = snapshot({ speed: { status: 'failed', score: 0 } });
+      const current = snapshot({ speed: { status: 'pending' } });
+
+      expect(getModuleProgressEvents(previous, current)).toEqual([
+        { moduleId: 'speed', status: 'pending' }
+      ]);
+    });
+
+    it('should handle missing progress', () => {
+      expect(getModuleProgressEvents(null, null)).toEqual([]);
+    });
+  });
+
+  describe('formatServerSentEvent', () => {
+    it('should encode a named event with a JSON payload', () => {
+      expect(formatServerSentEvent('module', { moduleId: 'speed' }))
+        .toBe('event: module\ndata: {"moduleId":"speed"}\n\n');
+    });
+  });
+});
@@ -0,0 +1,100 @@
+import { authorizeApiRequest, readApiKey } from '../api-auth';
+import { createMemoryRateLimiter } from '../rate-limit';
+
+jest.mock('@/lib/api-keys', () => ({
+  ...jest.requireActual('@/lib/api-keys'),
+  findApiKey: jest.fn(),
+  meterApiRequest: jest.fn()
+}));
+
+describe('api-auth', () => {
+  const mockFindApiKey = require('@/lib/api-keys').findApiKey;
+  const mockMeterApiRequest = require('@/lib/api-keys').meterApiRequest;
+
+  const now = new Date('2026-10-19T12:00:00Z');
+  const apiKey = {
+    id: 'key-1',
+    user_id: 'user-1',
+    name: 'CI',
+    key_prefix: 'lpr_abcdef',
+    rate_limit_per_minute: 2,
+    daily_quota: 100,
+    created_at: '2026-10-01T00:00:00Z',
+    revoked_at: null
+  };
+
+  const createRequest = (headers: Record<string, string> = { authorization: 'Bearer lpr_secret' }) => ({
+    headers: new Headers(headers)
+  }) as any;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockFindApiKey.mockResolvedValue(apiKey);
+    mockMeterApiRequest.mockResolvedValue(10);
+  });
+
+  it('should read the key from a bearer token or the X-API-Key header', () => {
+    expect(readApiKey(createRequest())).toBe('lpr_secret');
+    expect(readApiKey(createRequest({ 'x-api-key': 'lpr_other' }))).toBe('lpr_other');
+    expect(readApiKey(createRequest({}))).toBeNull();
+  });
+
+  it('should allow and meter a request within the limits', async () => {
+    const result = await authorizeApiRequest(createRequest(), 'GET /api/v1/reports', { now, rateLimiter: createMemoryRateLimiter(() => now.getTime()) });
+
+    expect(result).toEqual({
+      apiKey,
+      headers: {
+        'X-RateLimit-Limit': '2',
+        'X-RateLimit-Remaining': '1',
+        'X-RateLimit-Reset': String(Math.ceil((now.getTime() + 60_000) / 1000)),
+        'X-Quota-Limit': '100',
+        'X-Quota-Remaining': '89',
+        'X-Quota-Reset': String(Date.parse('2026-10-20T00:00:00Z') / 1000)
+      }
+    });
+    expect(mockMeterApiRequest).toHaveBeenCalledWith('key-1', 'GET /api/v1/reports', now);
+  });
+
+  it('should return 401 without a key', async () => {
+    const result = await authorizeApiRequest(createRequest({}), 'GET /api/v1/reports', { now });
+
+    expect('response' in result && result.response.status).toBe(401);
+    expect(mockFindApiKey).not.toHaveBeenCalled();
+  });
+
+  it('should return 401 for an unknown or revoked key', async () => {
+    mockFindApiKey.mockResolvedValue(null);
+
+    const result = await authorizeApiRequest(createRequest(), 'GET /api/v1/reports', { now });
+
+    expect('response' in result && result.response.status).toBe(401);
+    expect(await ('response' in result && result.response.json())).toMatchObject({ code: 'invalid_api_key' });
+  });
+
+  it('should return 429 with Retry-After once the per-minute limit is used up', async () => {
+    const rateLimiter = createMemoryRateLimiter(() => now.getTime());
+    await authorizeApiRequest(createRequest(), 'GET /api/v1/reports', { now, rateLimiter });
+    await authorizeApiRequest(createRequest(), 'GET /api/v1/reports', { now, rateLimiter });
+
+    const result = await authorizeApiRequest(createRequest(), 'GET /api/v1/reports', { now, rateLimiter });
+
+    expect('response' in result).toBe(true);
+    const { response } = result as { response: Response };
+    expect(response.status).toBe(429);
+    expect(await response.json()).toMatchObject({ code: 'rate_limit_exceeded', retryAfter: 60 });
+    expect(response.headers.get('Retry-After')).toBe('60');
+    expect(mockMeterApiRequest).toHaveBeenCalledTimes(2);
+  });
+
+  it('should return 429 once the daily quota is used up', async () => {
+    mockMeterApiRequest.mockResolvedValue(100);
+
+    const result = await authorizeApiRequest(createRequest(), 'GET /api/v1/reports', { now, rateLimiter: createMemoryRateLimiter(() => now.getTime()) });
+
+    const { response } = result as { response: Response };
+    expect(response.status).toBe(429);
+    expect(await response.json()).toMatchObject({ code: 'daily_quota_exceeded', retryAfter: 12 * 60 * 60 });
+    expect(mockMeterApiRequest).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,104 @@
+import { API_KEY_PREFIX, createApiKey, findApiKey, generateApiKey, getQuotaDayStart, hashApiKey, meterApiRequest } from '../api-keys';
+
+jest.mock('@/lib/supabase', () => ({
+  supabaseAdmin: {
+    from: jest.fn(),
+    rpc: jest.fn()
+  }
+}));
+
+describe('api-keys', () => {
+  const mockSupabaseFrom = require('@/lib/supabase').supabaseAdmin.from;
+
+  let responses: Array<{ data?: any; error?: any }>;
+  let inserts: Array<Record<string, any>>;
+  let filters: Array<[string, string, unknown]>;
+
+  const createQueryBuilder = () => {
+    const builder: any = {};
+    ['select', 'update', 'gte'].forEach(method => {
+      builder[method] = jest.fn(() => builder);
+    });
+    ['eq', 'is'].forEach(method => {
+      builder[method] = jest.fn((column: string, value: unknown) => {
+        filters.push([method, column, value]);
+        return builder;
+      });
+    });
+    builder.insert = jest.fn((payload) => {
+      inserts.push(payload);
+      return builder;
+    });
+    builder.single = jest.fn(() => Promise.resolve(responses.shift() || { data: null, error: null }));
+    builder.maybeSingle = builder.single;
+    return builder;
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    responses = [];
+    inserts = [];
+    filters = [];
+    mockSupabaseFrom.mockImplementation(() => createQueryBuilder());
+  });
+
+  it('should generate distinct prefixed keys', () => {
+    const key = generateApiKey();
+
+    expect(key.startsWith(API_KEY_PREFIX)).toBe(true);
+    expect(key.length).toBeGreaterThan(30);
+    expect(generateApiKey()).not.toBe(key);
+  });
+
+  it('should store only the hash and prefix of a new key', async () => {
+    responses.push({ data: { id: 'key-1', key_prefix: 'lpr_abcdef', daily_quota: 200 }, error: null });
+
+    const { key } = await createApiKey('user-1', { name: 'CI' });
+
+    expect(inserts[0]).toEqual({
+      user_id: 'user-1',
+      name: 'CI',
+      key_hash: hashApiKey(key),
+      key_prefix: key.slice(0, 10),
+      rate_limit_per_minute: 10,
+      daily_quota: 200
+    });
+    expect(JSON.stringify(inserts[0])).not.toContain(key);
+  });
+
+  it('should look up active keys by hash', async () => {
+    responses.push({ data: { id: 'key-1' }, error: null });
+
+    const apiKey = await findApiKey('lpr_secret');
+
+    expect(apiKey).toEqual({ id: 'key-1' });
+    expect(filters).toEqual([
+      ['eq', 'key_hash', hashApiKey('lpr_secret')],
+      ['is', 'revoked_at', null]
+    ]);
+  });
+
+  it('should not look up strings that are not API keys', async () => {
+    expect(await findApiKey('Bearer something-else')).toBeNull();
+    expect(mockSupabaseFrom).not.toHaveBeenCalled();
+  });
+
+  it('should reset daily quotas at midnight UTC', () => {
+    expect(getQuotaDayStart(new Date('2026-10-19T23:30:00-05:00')).toISOString()).toBe('2026-10-20T00:00:00.000Z');
+  });
+
+  it('should check the quota and meter a request in one database call', async () => {
+    const mockRpc = require('@/lib/supabase').supabaseAdmin.rpc;
+    mockRpc.mockResolvedValue({ data: 42, error: null });
+
+    expect(await meterApiRequest('key-1', 'GET /api/v1/reports', new Date('2026-10-19T12:00:00Z'))).toBe(42);
+    expect(mockRpc).toHaveBeenCalledWith('meter_api_request', {
+      key_id: 'key-1',
+      request_endpoint: 'GET /api/v1/reports',
+      day_start: '2026-10-19T00:00:00.000Z'
+    });
+
+    mockRpc.mockResolvedValue({ data: null, error: { message: 'connection lost' } });
+    await expect(meterApiRequest('key-1', 'GET /api/v1/reports')).rejects.toThrow('connection lost');
+  });
+});
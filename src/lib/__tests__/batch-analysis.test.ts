@@ -0,0 +1,239 @@
+import {
+  BATCH_CONCURRENCY,
+  buildBatchSummary,
+  discardBatch,
+  parseBatchCsv,
+  prepareBatchItems,
+  releaseBatchJobs,
+  toBatchSummaryCsv
+} from '../batch-analysis';
+import type { AnalysisBatch } from '@/types/database';
+
+jest.mock('@/lib/supabase', () => ({
+  supabaseAdmin: {
+    from: jest.fn()
+  }
+}));
+
+describe('parseBatchCsv', () => {
+  it('should read url and label columns by header name', () => {
+    const rows = parseBatchCsv('label,url\r\nClient A,https://a.com\r\n"Client B, pricing",https://b.com/pricing\r\n');
+
+    expect(rows).toEqual([
+      { row: 2, url: 'https://a.com', label: 'Client A' },
+      { row: 3, url: 'https://b.com/pricing', label: 'Client B, pricing' }
+    ]);
+  });
+
+  it('should take the first column as the URL without a header', () => {
+    const rows = parseBatchCsv('https://a.com, Home\n\nb.com');
+
+    expect(rows).toEqual([
+      { row: 1, url: 'https://a.com', label: 'Home' },
+      { row: 3, url: 'b.com', label: null }
+    ]);
+  });
+
+  it('should ignore a byte order mark before the header', () => {
+    expect(parseBatchCsv('\uFEFFurl\nhttps://a.com')).toEqual([{ row: 2, url: 'https://a.com', label: null }]);
+  });
+});
+
+describe('prepareBatchItems', () => {
+  it('should normalise URLs, drop duplicates and report invalid rows', () => {
+    const { items, invalid } = prepareBatchItems([
+      { row: 1, url: 'a.com', label: 'First' },
+      { row: 2, url: 'https://a.com/', label: 'Duplicate' },
+      { row: 3, url: 'not a url', label: null },
+      { row: 4, url: 'ftp://files.example.com', label: null },
+      { row: 5, url: 'https://b.com/pricing', label: ' ' }
+    ]);
+
+    expect(items).toEqual([
+      { url: 'https://a.com/', label: 'First' },
+      { url: 'https://b.com/pricing', label: null }
+    ]);
+    expect(invalid).toEqual([
+      { row: 3, value: 'not a url' },
+      { row: 4, value: 'ftp://files.example.com' }
+    ]);
+  });
+});
+
+describe('releaseBatchJobs', () => {
+  const mockSupabaseFrom = require('@/lib/supabase').supabaseAdmin.from;
+
+  let responses: Array<{ data?: any; error?: any }>;
+  let updates: Array<{ table: string; payload: Record<string, any> }>;
+
+  const createQueryBuilder = (table: string) => {
+    const builder: any = {};
+    ['select', 'eq', 'order'].forEach(method => {
+      builder[method] = jest.fn(() => builder);
+    });
+    builder.update = jest.fn((payload) => {
+      updates.push({ table, payload });
+      return builder;
+    });
+    builder.then = (resolve: any, reject: any) =>
+      Promise.resolve(responses.shift() || { data: null, error: null }).then(resolve, reject);
+    return builder;
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    responses = [];
+    updates = [];
+    mockSupabaseFrom.mockImplementation((table: string) => createQueryBuilder(table));
+  });
+
+  it('should queue pending analyses up to the concurrency limit', async () => {
+    responses.push({
+      data: [
+        { id: 'a1', status: 'processing' },
+        { id: 'a2', status: 'pending' },
+        { id: 'a3', status: 'pending' },
+        { id: 'a4', status: 'pending' }
+      ],
+      error: null
+    });
+    responses.push({ data: [{ id: 'a2' }], error: null }, { data: [{ id: 'a3' }], error: null });
+
+    const released = await releaseBatchJobs('batch-1');
+
+    expect(BATCH_CONCURRENCY).toBe(3);
+    expect(released).toEqual(['a2', 'a3']);
+    expect(updates).toEqual([
+      { table: 'analyses', payload: { status: 'queued' } },
+      { table: 'analyses', payload: { status: 'queued' } }
+    ]);
+  });
+
+  it('should skip rows another worker already queued', async () => {
+    responses.push({ data: [{ id: 'a1', status: 'pending' }], error: null });
+    responses.push({ data: [], error: null });
+
+    expect(await releaseBatchJobs('batch-1')).toEqual([]);
+  });
+
+  it('should mark the batch completed once every analysis has finished', async () => {
+    responses.push({ data: [{ id: 'a1', status: 'completed' }, { id: 'a2', status: 'failed' }], error: null });
+
+    await releaseBatchJobs('batch-1');
+
+    expect(updates).toEqual([
+      { table: 'analysis_batches', payload: { status: 'completed', completed_at: expect.any(String) } }
+    ]);
+  });
+
+  it('should throw when the batch analyses cannot be loaded', async () => {
+    responses.push({ data: null, error: { message: 'connection lost' } });
+
+    await expect(releaseBatchJobs('batch-1')).rejects.toThrow('connection lost');
+  });
+});
+
+describe('discardBatch', () => {
+  const mockSupabaseFrom = require('@/lib/supabase').supabaseAdmin.from;
+
+  it('should delete the batch and its analyses that have not started', async () => {
+    const builders: Record<string, any> = {};
+    mockSupabaseFrom.mockImplementation((table: string) => {
+      const builder: any = {};
+      ['delete', 'eq', 'in'].forEach(method => {
+        builder[method] = jest.fn(() => builder);
+      });
+      builder.then = (resolve: any, reject: any) => Promise.resolve({ error: null }).then(resolve, reject);
+      builders[table] = builder;
+      return builder;
+    });
+
+    await discardBatch('batch-1');
+
+    expect(builders.analyses.eq).toHaveBeenCalledWith('job_options->>batch_id', 'batch-1');
+    expect(builders.analyses.in).toHaveBeenCalledWith('status', ['pending', 'queued']);
+    expect(builders.analysis_batches.delete).toHaveBeenCalled();
+    expect(builders.analysis_batches.eq).toHaveBeenCalledWith('id', 'batch-1');
+  });
+});
+
+describe('batch summaries', () => {
+  const batch: AnalysisBatch = {
+    id: 'batch-1',
+    user_id: 'user-1',
+    name: 'October audit',
+    status: 'completed',
+    item_count: 3,
+    created_at: '2026-10-01T12:00:00Z',
+    completed_at: '2026-10-01T12:30:00Z'
+  };
+
+  const analyses = [
+    {
+      id: 'a1',
+      url: 'https://a.com/',
+      status: 'completed' as const,
+      overall_score: 80,
+      grade: 'B' as const,
+      error_message: null,
+      progress: { modules: { speed: { score: 70 }, cta: { score: 90 } } },
+      job_options: { batch_label: 'Client A' }
+    },
+    {
+      id: 'a2',
+      url: 'https://b.com/',
+      status: 'failed' as const,
+      overall_score: null,
+      grade: null,
+      error_message: 'Navigation timeout',
+      progress: null,
+      job_options: {}
+    },
+    {
+      id: 'a3',
+      url: 'https://c.com/',
+      status: 'completed' as const,
+      overall_score: 61,
+      grade: 'C' as const,
+      error_message: null,
+      progress: null,
+      job_options: null
+    }
+  ];
+
+  it('should count finished analyses and average the completed scores', () => {
+    const summary = buildBatchSummary(batch, analyses);
+
+    expect(summary).toMatchObject({ total: 3, completed: 2, failed: 1, remaining: 0, averageScore: 71 });
+    expect(summary.items[0]).toEqual({
+      analysisId: 'a1',
+      url: 'https://a.com/',
+      label: 'Client A',
+      status: 'completed',
+      overallScore: 80,
+      grade: 'B',
+      moduleScores: { speed: 70, cta: 90 },
+      error: null
+    });
+    expect(summary.items[1].error).toBe('Navigation timeout');
+  });
+
+  it('should hide the last error of an analysis that is being retried', () => {
+    const summary = buildBatchSummary({ ...batch, status: 'processing' }, [
+      { ...analyses[1], status: 'queued' as const }
+    ]);
+
+    expect(summary.items[0].error).toBeNull();
+    expect(summary.remaining).toBe(1);
+    expect(summary.averageScore).toBeNull();
+  });
+
+  it('should write one CSV row per URL with report links and module scores', () => {
+    const csv = toBatchSummaryCsv(buildBatchSummary(batch, analyses), 'https://landingpage.report');
+    const [header, first, second] = csv.split('\r\n');
+
+    expect(header.startsWith('label,url,status,overall_score,grade,error,report_url,cta.score,')).toBe(true);
+    expect(first.startsWith('Client A,https://a.com/,completed,80,B,,https://landingpage.report/reports/a1,90,')).toBe(true);
+    expect(second.startsWith(',https://b.com/,failed,,,Navigation timeout,,')).toBe(true);
+  });
+});
@@ -0,0 +1,41 @@
+import { CLIENT_RATE_LIMITS, getClientIp, limitClientRequest } from '../client-rate-limit';
+import { createMemoryRateLimiter } from '../rate-limit';
+
+describe('client-rate-limit', () => {
+  const now = new Date('2026-10-19T12:00:00Z');
+
+  const createRequest = (headers: Record<string, string> = { 'x-forwarded-for': '203.0.113.7, 10.0.0.1' }) => ({
+    headers: new Headers(headers)
+  }) as any;
+
+  it('should take the client IP from the first forwarded hop', () => {
+    expect(getClientIp(createRequest())).toBe('203.0.113.7');
+    expect(getClientIp(createRequest({ 'x-real-ip': '198.51.100.2' }))).toBe('198.51.100.2');
+    expect(getClientIp(createRequest({}))).toBe('unknown');
+  });
+
+  it('should answer 429 once an IP is over the endpoint limit', async () => {
+    const rateLimiter = createMemoryRateLimiter(() => now.getTime());
+
+    for (let i = 0; i < CLIENT_RATE_LIMITS.batches; i++) {
+      expect(limitClientRequest(createRequest(), 'batches', { now, rateLimiter })).toBeNull();
+    }
+    const response = limitClientRequest(createRequest(), 'batches', { now, rateLimiter });
+
+    expect(response?.status).toBe(429);
+    expect(response?.headers.get('Retry-After')).toBe('60');
+    expect(await response?.json()).toEqual({ error: 'Too many requests. Try again in 60 seconds.', retryAfter: 60 });
+  });
+
+  it('should count each IP and endpoint separately', () => {
+    const rateLimiter = createMemoryRateLimiter(() => now.getTime());
+
+    for (let i = 0; i < CLIENT_RATE_LIMITS.batches; i++) {
+      limitClientRequest(createRequest(), 'batches', { now, rateLimiter });
+    }
+
+    expect(limitClientRequest(createRequest(), 'batches', { now, rateLimiter })).not.toBeNull();
+    expect(limitClientRequest(createRequest({ 'x-forwarded-for': '198.51.100.2' }), 'batches', { now, rateLimiter })).toBeNull();
+    expect(limitClientRequest(createRequest(), 'compare', { now, rateLimiter })).toBeNull();
+  });
+});
@@ -0,0 +1,133 @@
+import { buildCompetitiveAnalysis, refreshCompetitiveAnalysis, ComparedAnalysis } from '../competitor-comparison'
+
+jest.mock('../supabase', () => ({
+  supabaseAdmin: { from: jest.fn() },
+}));
+
+const { supabaseAdmin } = require('../supabase');
+
+const analysis = (overrides: Partial<ComparedAnalysis> = {}): ComparedAnalysis => ({
+  id: 'primary-id',
+  url: 'https://example.com/',
+  status: 'completed',
+  overallScore: 60,
+  results: {
+    ctaAnalysis: { score: 50, primaryCTA: { text: 'Learn more', actionStrength: 'weak', context: 'content' } },
+    socialProof: { score: 70, elements: [{ type: 'testimonial' }] },
+    pageLoadSpeed: { score: 80, metrics: { loadTime: 2.1 } }
+  },
+  ...overrides
+})
+
+const competitor = analysis({
+  id: 'rival-id',
+  url: 'https://rival.com/',
+  overallScore: 75,
+  results: {
+    ctaAnalysis: { score: 85, primaryCTA: { text: 'Start free trial', actionStrength: 'strong', context: 'hero' } },
+    socialProof: { score: 72, elements: [{ type: 'testimonial' }, { type: 'trust-badge' }] },
+    pageLoadSpeed: { score: 60, metrics: { loadTime: 4.2 } }
+  }
+})
+
+describe('buildCompetitiveAnalysis', () => {
+  test('should build a score matrix with wins, losses and ties', () => {
+    const result = buildCompetitiveAnalysis(analysis(), [competitor])
+
+    const rows = Object.fromEntries(result.matrix.map(row => [row.analyzerId, row]))
+    expect(rows.cta).toMatchObject({ primaryScore: 50, competitorScores: [85], leaderUrl: 'https://rival.com/', outcome: 'loss' })
+    expect(rows.socialProof).toMatchObject({ outcome: 'tie' })
+    expect(rows.speed).toMatchObject({ leaderUrl: 'https://example.com/', outcome: 'win' })
+    expect(result.wins).toEqual(['Page Speed'])
+    expect(result.losses).toEqual(['CTA'])
+  })
+
+  test('should only include modules someone has a score for', () => {
+    const result = buildCompetitiveAnalysis(analysis(), [competitor])
+
+    expect(result.matrix.map(row => row.analyzerId)).toEqual(['cta', 'socialProof', 'speed'])
+  })
+
+  test("should suggest the leading competitor's pattern for modules the primary page loses", () => {
+    const result = buildCompetitiveAnalysis(analysis(), [competitor])
+
+    expect(result.patternsToBorrow).toEqual([{
+      analyzerId: 'cta',
+      competitorUrl: 'https://rival.com/',
+      pattern: 'Primary CTA reads "Start free trial" (strong action wording, in the hero)'
+    }])
+  })
+
+  test('should list social proof types the primary page is missing', () => {
+    const result = buildCompetitiveAnalysis(
+      analysis({ results: { socialProof: { score: 30, elements: [{ type: 'testimonial' }] } } }),
+      [competitor]
+    )
+
+    expect(result.patternsToBorrow).toContainEqual({
+      analyzerId: 'socialProof',
+      competitorUrl: 'https://rival.com/',
+      pattern: 'Uses trust badge as social proof'
+    })
+  })
+
+  test('should place the primary page against the competitor average', () => {
+    const result = buildCompetitiveAnalysis(analysis(), [competitor, analysis({ id: 'other-id', url: 'https://other.com/', overallScore: 95 })])
+
+    expect(result.score).toBe(60)
+    expect(result.competitorAverage).toBe(85)
+    expect(result.marketPosition).toBe('below_average')
+  })
+
+  test('should stay pending until every analysis has finished', () => {
+    const pending = buildCompetitiveAnalysis(analysis(), [competitor, analysis({ id: 'queued-id', url: 'https://queued.com/', status: 'queued' })])
+
+    expect(pending.status).toBe('pending')
+    expect(pending.competitors[1]).toEqual({ analysisId: 'queued-id', url: 'https://queued.com/', status: 'queued', overallScore: null })
+    expect(pending.matrix.every(row => row.competitorScores[1] === null)).toBe(true)
+
+    const finished = buildCompetitiveAnalysis(analysis(), [competitor, analysis({ id: 'failed-id', url: 'https://failed.com/', status: 'failed' })])
+    expect(finished.status).toBe('completed')
+  })
+
+  test('should fail when the primary analysis failed', () => {
+    const result = buildCompetitiveAnalysis(analysis({ status: 'failed' }), [competitor])
+
+    expect(result.status).toBe('failed')
+    expect(result.score).toBeNull()
+    expect(result.marketPosition).toBeNull()
+    expect(result.matrix.every(row => row.outcome === null)).toBe(true)
+  })
+})
+
+describe('refreshCompetitiveAnalysis', () => {
+  test('should load the primary and competitor rows and save the comparison on the primary', async () => {
+    const update = jest.fn().mockReturnValue({ eq: jest.fn().mockResolvedValue({ error: null }) })
+    const competitorQuery = {
+      eq: jest.fn().mockReturnValue({
+        order: jest.fn().mockResolvedValue({
+          data: [{ id: 'rival-id', url: 'https://rival.com/', status: 'completed', overall_score: 75, cta_analysis: { score: 85 } }],
+          error: null
+        })
+      })
+    }
+    const primaryQuery = {
+      eq: jest.fn().mockReturnValue({
+        single: jest.fn().mockResolvedValue({
+          data: { id: 'primary-id', url: 'https://example.com/', status: 'completed', overall_score: 60, cta_analysis: { score: 50 } },
+          error: null
+        })
+      })
+    }
+    const select = jest.fn()
+      .mockReturnValueOnce(primaryQuery)
+      .mockReturnValueOnce(competitorQuery)
+    supabaseAdmin.from.mockReturnValue({ select, update })
+
+    const result = await refreshCompetitiveAnalysis('primary-id')
+
+    expect(competitorQuery.eq).toHaveBeenCalledWith('job_options->>comparison_id', 'primary-id')
+    expect(result?.losses).toEqual(['CTA'])
+    expect(update).toHaveBeenCalledWith({ competitive_analysis: result })
+  })
+})
@@ -0,0 +1,91 @@
+import { predictConversion } from '../conversion-prediction';
+import { CONVERSION_MODEL } from '../conversion-model';
+import { calculateOverallScore } from '../analyzers/definitions';
+import type { WeightProfileId } from '../analyzers/weight-profiles';
+import corpusJson from './fixtures/conversion-corpus.json';
+
+interface CorpusPage {
+  name: string;
+  profile: WeightProfileId | null;
+  results: Record<string, any>;
+  expected: { min: number; max: number };
+}
+
+// JSON imports type `profile` as a plain string
+const corpus = corpusJson as { pages: CorpusPage[]; sameScore: Array<{ name: string; results: Record<string, any> }> };
+
+const averagePage = corpus.pages.find(page => page.name === 'average page')!.results;
+
+describe('predictConversion', () => {
+  describe.each(corpus.pages)('$name', ({ results, profile, expected }) => {
+    it('should place the page in its expected conversion rate band', () => {
+      const prediction = predictConversion(results, { profile });
+
+      expect(prediction!.probability).toBeGreaterThanOrEqual(expected.min);
+      expect(prediction!.probability).toBeLessThanOrEqual(expected.max);
+      expect(prediction!.confidence_interval.low).toBeLessThan(prediction!.probability);
+      expect(prediction!.confidence_interval.high).toBeGreaterThan(prediction!.probability);
+    });
+  });
+
+  it('should rank the corpus pages the way their bands are ordered', () => {
+    const byBand = [...corpus.pages].sort((a, b) => a.expected.min - b.expected.min);
+    const byPrediction = [...corpus.pages].sort((a, b) =>
+      predictConversion(a.results, { profile: a.profile })!.probability -
+      predictConversion(b.results, { profile: b.profile })!.probability
+    );
+
+    expect(byPrediction.map(page => page.name)).toEqual(byBand.map(page => page.name));
+  });
+
+  it('should tell apart pages with the same overall score', () => {
+    const [heldBackByCopy, hiddenCta] = corpus.sameScore;
+
+    expect(calculateOverallScore(heldBackByCopy.results)).toBe(calculateOverallScore(hiddenCta.results));
+    expect(predictConversion(heldBackByCopy.results)!.probability)
+      .toBeGreaterThan(predictConversion(hiddenCta.results)!.probability * 2);
+  });
+
+  it('should start an average page at the baseline rate of its profile', () => {
+    expect(predictConversion(averagePage)!.probability).toBe(CONVERSION_MODEL.baselineRates.default);
+    expect(predictConversion(averagePage, { profile: 'lead-gen' })!.probability).toBe(CONVERSION_MODEL.baselineRates['lead-gen']);
+    expect(predictConversion(averagePage, { profile: 'custom' })!.baseline_rate).toBe(CONVERSION_MODEL.baselineRates.default);
+  });
+
+  it('should explain the estimate with the factors that moved it most', () => {
+    const slowStore = corpus.pages.find(page => page.name.startsWith('slow'))!;
+    const prediction = predictConversion(slowStore.results, { profile: 'ecommerce' })!;
+
+    expect(prediction.model_version).toBe(CONVERSION_MODEL.version);
+    expect(prediction.key_factors[0]).toBe('Largest Contentful Paint: 7.5s (26% fewer conversions)');
+    expect(prediction.predictions.lcp).toBeCloseTo(-0.26, 2);
+    expect(prediction.factors!.find(factor => factor.id === 'primaryCtaAboveFold')).toMatchObject({
+      value: 0,
+      display: 'no',
+      contribution: -0.25
+    });
+    expect(prediction.improvement_potential).toBeGreaterThan(0.02);
+  });
+
+  it('should stop counting values past a factor bound', () => {
+    const slow = { ...averagePage, pageLoadSpeed: { score: 10, metrics: { loadTime: 10 } } };
+    const slower = { ...averagePage, pageLoadSpeed: { score: 5, metrics: { loadTime: 25 } } };
+
+    expect(predictConversion(slower)!.probability).toBe(predictConversion(slow)!.probability);
+  });
+
+  it('should leave out failed and skipped analyzers and widen the band', () => {
+    const full = predictConversion(averagePage)!;
+    const withoutSpeed = predictConversion(averagePage, { failedModules: ['speed'] })!;
+    const { mobileConversion: _mobile, ...withoutMobile } = averagePage;
+
+    expect(withoutSpeed.factors!.find(factor => factor.id === 'lcp')).toMatchObject({ value: null, display: null, contribution: 0 });
+    expect(withoutSpeed.confidence_interval.high - withoutSpeed.confidence_interval.low)
+      .toBeGreaterThan(full.confidence_interval.high - full.confidence_interval.low);
+    expect(predictConversion(withoutMobile)!.predictions.smallTapTargets).toBe(0);
+  });
+
+  it('should not estimate from too few measurements', () => {
+    expect(predictConversion({ pageLoadSpeed: averagePage.pageLoadSpeed })).toBeNull();
+  });
+});
@@ -0,0 +1,111 @@
+import { analyzeCopyEffectiveness, scoreCopy, countSyllables, ExtractedCopy } from '../copy-effectiveness-analysis'
+
+jest.mock('../puppeteer-config', () => ({
+  createPuppeteerBrowser: jest.fn(),
+}));
+
+const { createPuppeteerBrowser } = require('../puppeteer-config');
+
+const mockPage = {
+  goto: jest.fn(),
+  setContent: jest.fn(),
+  setViewport: jest.fn(),
+  evaluate: jest.fn(),
+};
+
+const mockBrowser = {
+  newPage: jest.fn().mockResolvedValue(mockPage),
+  close: jest.fn(),
+};
+
+const copy = (overrides: Partial<ExtractedCopy> = {}): ExtractedCopy => ({
+  headline: 'Send invoices in one click',
+  headings: ['Send invoices in one click', 'Get paid on time'],
+  paragraphs: [
+    'You send an invoice. Your client pays it. You get the money in two days.',
+    'Set up takes five minutes. Your first ten invoices are free.'
+  ],
+  ...overrides
+})
+
+describe('Copy Effectiveness Analysis', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    createPuppeteerBrowser.mockResolvedValue(mockBrowser);
+    mockPage.evaluate.mockResolvedValue(copy());
+  });
+
+  test('should analyze copy on a URL and close its own browser', async () => {
+    const result = await analyzeCopyEffectiveness('https://example.com')
+
+    expect(mockPage.goto).toHaveBeenCalledWith('https://example.com', expect.any(Object))
+    expect(mockBrowser.close).toHaveBeenCalled()
+    expect(result.wordCount).toBeGreaterThan(0)
+  })
+
+  test('should analyze raw HTML', async () => {
+    await analyzeCopyEffectiveness('<p>Hello there, you.</p>', { isHtml: true })
+
+    expect(mockPage.setContent).toHaveBeenCalledWith('<p>Hello there, you.</p>')
+    expect(mockPage.goto).not.toHaveBeenCalled()
+  })
+})
+
+describe('countSyllables', () => {
+  test('should estimate syllables per word', () => {
+    expect(countSyllables('cat')).toBe(1)
+    expect(countSyllables('invoice')).toBe(2)
+    expect(countSyllables('readability')).toBe(5)
+    expect(countSyllables('make')).toBe(1)
+  })
+})
+
+describe('scoreCopy', () => {
+  test('should score short, visitor-focused copy highly', () => {
+    const result = scoreCopy(copy())
+
+    expect(result.sentenceCount).toBe(5)
+    expect(result.fleschKincaidGrade).toBeLessThan(6)
+    expect(result.passiveVoiceRate).toBe(0)
+    expect(result.youCount).toBeGreaterThan(result.weCount)
+    expect(result.score).toBeGreaterThanOrEqual(90)
+    expect(result.issues).toEqual([])
+    expect(result.recommendations).toEqual([])
+  })
+
+  test('should flag dense, passive, company-centric copy full of jargon', () => {
+    const result = scoreCopy(copy({
+      paragraphs: [
+        'Our organization leverages holistic methodologies to operationalize scalable infrastructure across the enterprise ecosystem for our stakeholders, and our consultants are trained extensively in transformational implementation frameworks.',
+        'Comprehensive documentation is provided by our specialists, and customized deliverables are generated automatically by our proprietary orchestration platform whenever our clients require additional organizational visibility.'
+      ]
+    }))
+
+    expect(result.fleschKincaidGrade).toBeGreaterThan(15)
+    expect(result.averageSentenceLength).toBeGreaterThan(20)
+    expect(result.passiveVoiceRate).toBe(1)
+    expect(result.weCount).toBeGreaterThan(result.youCount)
+    expect(result.jargonTerms).toEqual(expect.arrayContaining(['ecosystem', 'stakeholders', 'operationalize', 'deliverables']))
+    expect(result.score).toBeLessThan(30)
+    expect(result.issues.some(issue => issue.includes('grade 8 or below'))).toBe(true)
+    expect(result.issues.some(issue => issue.includes('passive voice'))).toBe(true)
+    expect(result.issues.some(issue => issue.includes('"we"'))).toBe(true)
+    expect(result.recommendations).toHaveLength(5)
+  })
+
+  test('should flag headings that are too long', () => {
+    const result = scoreCopy(copy({
+      headings: ['This section heading keeps going and going well past the point where anyone would still read it']
+    }))
+
+    expect(result.longHeadings).toHaveLength(1)
+    expect(result.issues).toContain('1 heading is longer than 12 words.')
+  })
+
+  test('should score a page without body copy as 0', () => {
+    const result = scoreCopy({ headline: null, headings: [], paragraphs: [] })
+
+    expect(result.score).toBe(0)
+    expect(result.issues).toEqual(['No body copy found to analyze.'])
+  })
+})
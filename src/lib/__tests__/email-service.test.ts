@@ -1,4 +1,4 @@
-import { sendReportEmail, EmailTemplate } from '../email-service';
+import { sendReportEmail, sendScoreDropAlert, EmailTemplate } from '../email-service';
 
 // Mock Resend
 const mockSend = jest.fn();
@@ -312,4 +312,39 @@ describe('Email Service', () => {
       expect(html).toContain('#FFCC00'); // Brand yellow
     });
   });
+
+  describe('sendScoreDropAlert', () => {
+    const alert = {
+      url: 'https://example.com/<pricing>',
+      previousScore: 80,
+      newScore: 68,
+      previousAnalyzedAt: '2024-01-01T00:00:00Z',
+      drops: [
+        { name: 'Page Speed', previousScore: 90, newScore: 60, drop: 30 },
+        { name: 'Overall score', previousScore: 80, newScore: 68, drop: 12 }
+      ]
+    };
+
+    it('should send an alert listing each drop', async () => {
+      mockSend.mockResolvedValue({ data: { id: 'email-456' }, error: null });
+
+      const result = await sendScoreDropAlert('owner@example.com', alert, 'https://landingpage.report/reports/analysis-1');
+
+      expect(result).toEqual({ success: true, emailId: 'email-456' });
+      const { subject, html } = mockSend.mock.calls[0][0];
+      expect(subject).toBe('Score drop on https://example.com/<pricing> (80 → 68)');
+      expect(html).toContain('Page Speed');
+      expect(html).toContain('90 → 60');
+      expect(html).toContain('-30');
+      expect(html).toContain('https://example.com/&lt;pricing&gt;');
+      expect(html).toContain('https://landingpage.report/reports/analysis-1');
+    });
+
+    it('should validate the recipient like report emails', async () => {
+      const result = await sendScoreDropAlert('not-an-email', alert, 'https://landingpage.report/reports/analysis-1');
+
+      expect(result).toEqual({ success: false, error: 'Invalid email format' });
+      expect(mockSend).not.toHaveBeenCalled();
+    });
+  });
 });
\ No newline at end of file
@@ -0,0 +1,142 @@
+import { analyzeFormOptimization, scoreForms, ExtractedForm, ExtractedFormField } from '../form-optimization'
+
+jest.mock('../puppeteer-config', () => ({
+  createPuppeteerBrowser: jest.fn(),
+}));
+
+const { createPuppeteerBrowser } = require('../puppeteer-config');
+
+const mockPage = {
+  goto: jest.fn(),
+  setContent: jest.fn(),
+  setViewport: jest.fn(),
+  evaluate: jest.fn(),
+};
+
+const mockBrowser = {
+  newPage: jest.fn().mockResolvedValue(mockPage),
+  close: jest.fn(),
+};
+
+const field = (overrides: Partial<ExtractedFormField> = {}): ExtractedFormField => ({
+  tagName: 'input',
+  type: 'text',
+  purpose: 'other',
+  required: true,
+  hasLabel: true,
+  hasPlaceholder: false,
+  autocomplete: null,
+  ...overrides
+});
+
+const emailField = field({ type: 'email', purpose: 'email', autocomplete: 'email' });
+
+const form = (overrides: Partial<ExtractedForm> = {}): ExtractedForm => ({
+  fields: [emailField],
+  submitText: 'Get my free report',
+  isMultiStep: false,
+  isAboveFold: true,
+  ...overrides
+});
+
+describe('Form Optimization Analysis', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    createPuppeteerBrowser.mockResolvedValue(mockBrowser);
+    mockPage.evaluate.mockResolvedValue([form()]);
+  });
+
+  test('should analyze forms on a URL and close its own browser', async () => {
+    const result = await analyzeFormOptimization('https://example.com')
+
+    expect(mockPage.goto).toHaveBeenCalledWith('https://example.com', expect.any(Object))
+    expect(mockBrowser.close).toHaveBeenCalled()
+    expect(result.formCount).toBe(1)
+    expect(result.totalFields).toBe(1)
+  })
+
+  test('should analyze raw HTML', async () => {
+    await analyzeFormOptimization('<form><input type="email"></form>', { isHtml: true })
+
+    expect(mockPage.setContent).toHaveBeenCalledWith('<form><input type="email"></form>')
+    expect(mockPage.goto).not.toHaveBeenCalled()
+  })
+
+  test('should give pages without forms a null score', async () => {
+    mockPage.evaluate.mockResolvedValue([])
+
+    const result = await analyzeFormOptimization('https://example.com')
+
+    expect(result.score).toBeNull()
+    expect(result.formCount).toBe(0)
+    expect(result.issues).toEqual([])
+    expect(result.recommendations).toEqual([])
+  })
+})
+
+describe('scoreForms', () => {
+  test('should score a short, well-built form highly', () => {
+    const result = scoreForms([form()])
+
+    expect(result.score).toBe(100)
+    expect(result.forms[0].submitActionStrength).toBe('strong')
+    expect(result.issues).toEqual([])
+  })
+
+  test('should penalize long forms and recommend multiple steps', () => {
+    const fields = [emailField, ...Array.from({ length: 7 }, () => field())]
+    const result = scoreForms([form({ fields })])
+
+    expect(result.totalFields).toBe(8)
+    expect(result.score).toBeLessThan(70)
+    expect(result.issues.some(issue => issue.includes('8 visible fields'))).toBe(true)
+    expect(result.issues).toContain('Long form is shown all at once instead of being split into steps.')
+    expect(result.recommendations.some(rec => /step/i.test(rec))).toBe(true)
+  })
+
+  test('should not ask a multi-step form to be split', () => {
+    const fields = [emailField, ...Array.from({ length: 7 }, () => field())]
+    const single = scoreForms([form({ fields })])
+    const multiStep = scoreForms([form({ fields, isMultiStep: true })])
+
+    expect(multiStep.multiStepFormDetected).toBe(true)
+    expect(multiStep.score).toBeGreaterThan(single.score!)
+    expect(multiStep.issues).not.toContain('Long form is shown all at once instead of being split into steps.')
+  })
+
+  test('should flag placeholder-only fields, missing autocomplete and wrong input types', () => {
+    const result = scoreForms([form({
+      fields: [
+        field({ purpose: 'email', type: 'text', hasLabel: false, hasPlaceholder: true }),
+        field({ purpose: 'phone', type: 'text', autocomplete: 'off' })
+      ]
+    })])
+
+    expect(result.placeholderOnlyFields).toBe(1)
+    expect(result.missingAutocompleteFields).toBe(2)
+    expect(result.inputTypeMismatches).toBe(2)
+    expect(result.forms[0].inputTypeIssues).toEqual([
+      'email field not using type="email"',
+      'phone field not using type="tel"'
+    ])
+    expect(result.score).toBeLessThan(80)
+  })
+
+  test('should rate submit copy with the CTA action dictionary', () => {
+    const weak = scoreForms([form({ submitText: 'Submit' })])
+    const missing = scoreForms([form({ submitText: null })])
+
+    expect(weak.forms[0].submitActionStrength).toBe('weak')
+    expect(weak.issues).toContain('Weak submit button copy: "Submit".')
+    expect(weak.recommendations.some(rec => rec.includes('"Submit"'))).toBe(true)
+    expect(missing.issues).toContain('Form has no visible submit button.')
+    expect(missing.score).toBeLessThan(weak.score!)
+  })
+
+  test('should average scores across forms', () => {
+    const result = scoreForms([form(), form({ submitText: 'Submit' })])
+
+    expect(result.formCount).toBe(2)
+    expect(result.score).toBe(95)
+  })
+})
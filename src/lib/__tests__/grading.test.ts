@@ -0,0 +1,31 @@
+import { getGrade, getModuleGrades, parseGradeFilter } from '../grading'
+import { getVerdict } from '../verdict'
+
+describe('grading', () => {
+  test('should map scores to letter grades at the thresholds', () => {
+    expect([100, 85, 84, 70, 69, 60, 59, 50, 49, 0].map(getGrade))
+      .toEqual(['A', 'A', 'B', 'B', 'C', 'C', 'D', 'D', 'F', 'F'])
+  })
+
+  test('should grade each analyzer that has a score', () => {
+    expect(getModuleGrades({
+      pageLoadSpeed: { score: 91 },
+      ctaAnalysis: { score: 45 },
+      formOptimization: null,
+      seo: { score: 'n/a' }
+    })).toEqual({ speed: 'A', cta: 'F' })
+  })
+
+  test('should keep the verdict in step with the grade', () => {
+    expect(getVerdict(85)).toMatchObject({ grade: 'A', text: 'Excellent' })
+    expect(getVerdict(70)).toMatchObject({ grade: 'B', text: 'Good' })
+    expect(getVerdict(55)).toMatchObject({ grade: 'D', text: 'Fair' })
+    expect(getVerdict(49)).toMatchObject({ grade: 'F', text: 'Critical' })
+  })
+
+  test('should parse grade filters', () => {
+    expect(parseGradeFilter('a, B')).toEqual(['A', 'B'])
+    expect(() => parseGradeFilter('A,E')).toThrow('grade must be one or more of: A, B, C, D, F')
+    expect(() => parseGradeFilter(',')).toThrow('grade must be one or more of')
+  })
+})
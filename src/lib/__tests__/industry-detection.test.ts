@@ -0,0 +1,139 @@
+import { classifyIndustry, detectIndustry, extractJsonLdTypes, PageIndustrySignals } from '../industry-detection'
+
+jest.mock('../puppeteer-config', () => ({
+  createPuppeteerBrowser: jest.fn(),
+}));
+
+const { createPuppeteerBrowser } = require('../puppeteer-config');
+
+const mockPage = {
+  goto: jest.fn(),
+  setContent: jest.fn(),
+  setViewport: jest.fn(),
+  evaluate: jest.fn(),
+};
+
+const mockBrowser = {
+  newPage: jest.fn().mockResolvedValue(mockPage),
+  close: jest.fn(),
+};
+
+const page = (overrides: Partial<PageIndustrySignals> = {}): PageIndustrySignals => ({
+  title: '',
+  description: '',
+  jsonLd: [],
+  ctaTexts: [],
+  linkPaths: [],
+  bodyText: '',
+  ...overrides
+})
+
+const saasPage = page({
+  title: 'Invoicely - Invoicing software for freelancers',
+  description: 'Send invoices in one click. No credit card required.',
+  ctaTexts: ['Start free trial', 'Book a demo', 'Log in'],
+  linkPaths: ['/pricing', '/integrations', '/login'],
+  bodyText: 'Connect your dashboard to 40 integrations and automate reminders. $12 per month, cancel anytime.'
+})
+
+describe('Industry Detection', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    createPuppeteerBrowser.mockResolvedValue(mockBrowser);
+  });
+
+  test('should classify the page signals and close its own browser', async () => {
+    mockPage.evaluate.mockResolvedValue(saasPage)
+
+    const result = await detectIndustry('https://invoicely.com')
+
+    expect(mockPage.goto).toHaveBeenCalledWith('https://invoicely.com', expect.any(Object))
+    expect(result.industry).toBe('saas')
+    expect(mockBrowser.close).toHaveBeenCalled()
+  })
+
+  test('should not close a browser it was given', async () => {
+    mockPage.evaluate.mockResolvedValue(page())
+
+    await detectIndustry('<html></html>', { isHtml: true, puppeteer: { browser: mockBrowser as any } })
+
+    expect(mockPage.setContent).toHaveBeenCalledWith('<html></html>')
+    expect(createPuppeteerBrowser).not.toHaveBeenCalled()
+    expect(mockBrowser.close).not.toHaveBeenCalled()
+  })
+})
+
+describe('classifyIndustry', () => {
+  test('should detect a SaaS page from trial CTAs, pricing links and keywords', () => {
+    const result = classifyIndustry(saasPage)
+
+    expect(result.industry).toBe('saas')
+    expect(result.confidence).toBeGreaterThan(0.8)
+    expect(result.signals).toEqual(expect.arrayContaining(['CTA: start free trial', 'CTA: book a demo', 'Link: /pricing']))
+    // "Start free trial" counts once, not also as "free trial"
+    expect(result.signals).not.toContain('CTA: free trial')
+  })
+
+  test('should detect a store from Product structured data and cart CTAs', () => {
+    const result = classifyIndustry(page({
+      title: 'Linen shirts | Northwind',
+      jsonLd: [JSON.stringify({ '@context': 'https://schema.org', '@type': 'Product', name: 'Linen shirt', offers: { '@type': 'Offer', price: '49' } })],
+      ctaTexts: ['Add to cart', 'Shop now'],
+      linkPaths: ['/cart', '/collections/summer'],
+      bodyText: 'Free shipping on orders over $50. In stock and ready to ship.'
+    }))
+
+    expect(result.industry).toBe('ecommerce')
+    expect(result.signals).toContain('JSON-LD: Product')
+    expect(result.scores.ecommerce).toBeGreaterThan(result.scores.saas)
+  })
+
+  test('should detect a local service business', () => {
+    const result = classifyIndustry(page({
+      title: 'Smith Plumbing - Emergency plumber in Leeds',
+      jsonLd: [JSON.stringify({ '@type': 'Plumber', name: 'Smith Plumbing' })],
+      ctaTexts: ['Call now', 'Get a free quote'],
+      bodyText: 'Family owned, licensed and insured.'
+    }))
+
+    expect(result.industry).toBe('local-service')
+  })
+
+  test('should lower the confidence when industries compete', () => {
+    const mixed = classifyIndustry(page({
+      ctaTexts: ['Start free trial', 'Add to cart'],
+      linkPaths: ['/pricing']
+    }))
+
+    expect(mixed.industry).toBe('saas')
+    expect(mixed.confidence).toBeLessThan(0.5)
+  })
+
+  test('should leave pages without enough evidence unlabelled', () => {
+    const result = classifyIndustry(page({
+      title: 'Welcome',
+      ctaTexts: ['Learn more', 'Contact'],
+      bodyText: 'We help you do more.'
+    }))
+
+    expect(result).toMatchObject({ industry: null, confidence: 0, signals: [] })
+  })
+
+  test('should match keywords as whole words', () => {
+    const result = classifyIndustry(page({ bodyText: 'Rapid capital growth for everyone.' }))
+
+    expect(result.scores.saas).toBe(0)
+  })
+})
+
+describe('extractJsonLdTypes', () => {
+  test('should read types from graphs, arrays and nested items and skip invalid JSON', () => {
+    const types = extractJsonLdTypes([
+      JSON.stringify({ '@graph': [{ '@type': ['Organization', 'LocalBusiness'] }, { '@type': 'https://schema.org/Course' }] }),
+      JSON.stringify([{ '@type': 'Product', offers: { '@type': 'Offer' } }]),
+      '{ "@type": '
+    ])
+
+    expect(types).toEqual(['Organization', 'LocalBusiness', 'Course', 'Product', 'Offer'])
+  })
+})
@@ -0,0 +1,148 @@
+import { analyzeMobileConversion, scoreMobileConversion, MobileConversionResult } from '../mobile-conversion-analysis'
+
+jest.mock('../puppeteer-config', () => ({
+  createPuppeteerBrowser: jest.fn(),
+  MOBILE_DEVICE: {
+    viewport: { width: 390, height: 844, deviceScaleFactor: 3, isMobile: true, hasTouch: true },
+    userAgent: 'test-mobile-ua'
+  }
+}));
+
+jest.mock('../cta-analysis', () => ({ analyzeCTA: jest.fn() }));
+jest.mock('../whitespace-assessment', () => ({ analyzeWhitespace: jest.fn() }));
+jest.mock('../image-optimization', () => ({ analyzeImageOptimization: jest.fn() }));
+jest.mock('../social-proof-analysis', () => ({ analyzeSocialProof: jest.fn() }));
+
+const { createPuppeteerBrowser } = require('../puppeteer-config');
+const { analyzeCTA } = require('../cta-analysis');
+const { analyzeWhitespace } = require('../whitespace-assessment');
+const { analyzeImageOptimization } = require('../image-optimization');
+const { analyzeSocialProof } = require('../social-proof-analysis');
+
+const mockPage = {
+  goto: jest.fn(),
+  setViewport: jest.fn(),
+  setUserAgent: jest.fn(),
+  evaluate: jest.fn(),
+  close: jest.fn(),
+};
+
+const mockBrowser = {
+  newPage: jest.fn().mockResolvedValue(mockPage),
+  close: jest.fn(),
+};
+
+const moduleResult = (score: number | null) => ({ score, issues: [], recommendations: [] })
+
+const usability = (overrides: Partial<MobileConversionResult> = {}) => ({
+  tapTargets: { total: 10, tooSmall: 0, examples: [] },
+  horizontalOverflow: { detected: false, pageWidth: 390, viewportWidth: 390, offenders: [] },
+  hasViewportMeta: true,
+  ...overrides
+})
+
+const modules = (score: number | null = 80) => ({
+  ctaAnalysis: moduleResult(score),
+  whitespaceAssessment: moduleResult(score),
+  imageOptimization: moduleResult(score),
+  socialProof: moduleResult(score)
+})
+
+describe('Mobile Conversion Analysis', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    createPuppeteerBrowser.mockResolvedValue(mockBrowser);
+    analyzeCTA.mockResolvedValue({ ...moduleResult(70), ctas: [{ isAboveFold: true }, { isAboveFold: false }] });
+    analyzeWhitespace.mockResolvedValue(moduleResult(60));
+    analyzeImageOptimization.mockResolvedValue(moduleResult(90));
+    analyzeSocialProof.mockResolvedValue(moduleResult(50));
+    mockPage.evaluate.mockResolvedValue(usability());
+  });
+
+  test('should re-run the layout analyzers with the mobile viewport and user agent', async () => {
+    const result = await analyzeMobileConversion('https://example.com')
+
+    const expectedOptions = expect.objectContaining({
+      viewport: expect.objectContaining({ width: 390, isMobile: true, hasTouch: true }),
+      userAgent: 'test-mobile-ua',
+      puppeteer: expect.objectContaining({ browser: mockBrowser })
+    })
+    expect(analyzeCTA).toHaveBeenCalledWith('https://example.com', expectedOptions)
+    expect(analyzeWhitespace).toHaveBeenCalledWith('https://example.com', expectedOptions)
+    expect(analyzeImageOptimization).toHaveBeenCalledWith('https://example.com', expectedOptions)
+    expect(analyzeSocialProof).toHaveBeenCalledWith('https://example.com', expectedOptions)
+    expect(mockPage.setUserAgent).toHaveBeenCalledWith('test-mobile-ua')
+    expect(mockBrowser.close).toHaveBeenCalled()
+
+    expect(result.modules.ctaAnalysis?.score).toBe(70)
+    expect(result.modules.socialProof?.score).toBe(50)
+    expect(result.ctasAboveFold).toBe(1)
+  })
+
+  test('should not close a browser it did not create', async () => {
+    await analyzeMobileConversion('https://example.com', { puppeteer: { browser: mockBrowser as any } })
+
+    expect(createPuppeteerBrowser).not.toHaveBeenCalled()
+    expect(mockBrowser.close).not.toHaveBeenCalled()
+  })
+
+  test('should leave a failing module out instead of failing the pass', async () => {
+    analyzeWhitespace.mockRejectedValue(new Error('Screenshot failed'))
+
+    const result = await analyzeMobileConversion('https://example.com')
+
+    expect(result.modules.whitespaceAssessment).toBeNull()
+    expect(result.modules.ctaAnalysis?.score).toBe(70)
+  })
+})
+
+describe('scoreMobileConversion', () => {
+  test('should score a clean mobile page from its module scores', () => {
+    const result = scoreMobileConversion({ modules: modules(80), ctasAboveFold: 1, ...usability() })
+
+    // 80 * 0.6 + 100 * 0.4
+    expect(result.score).toBe(88)
+    expect(result.issues).toEqual([])
+    expect(result.recommendations).toEqual([])
+  })
+
+  test('should flag small tap targets', () => {
+    const result = scoreMobileConversion({
+      modules: modules(80),
+      ctasAboveFold: 1,
+      ...usability({ tapTargets: { total: 10, tooSmall: 4, examples: [{ text: 'Log in', width: 40, height: 20 }] } })
+    })
+
+    expect(result.score).toBe(80)
+    expect(result.issues).toContain('4 of 10 tap targets are smaller than 44x44px, making them hard to tap on mobile.')
+    expect(result.recommendations.some(rec => rec.includes('4'))).toBe(true)
+  })
+
+  test('should flag horizontal overflow, a missing viewport meta tag and no CTA above the fold', () => {
+    const result = scoreMobileConversion({
+      modules: modules(80),
+      ctasAboveFold: 0,
+      ...usability({
+        horizontalOverflow: { detected: true, pageWidth: 1200, viewportWidth: 390, offenders: ['table.pricing'] },
+        hasViewportMeta: false
+      })
+    })
+
+    expect(result.issues).toContain('Page scrolls horizontally on mobile: content is 1200px wide on a 390px screen (table.pricing).')
+    expect(result.issues.some(issue => issue.includes('viewport meta'))).toBe(true)
+    expect(result.issues).toContain('No CTA is visible above the fold on mobile.')
+    expect(result.recommendations).toHaveLength(3)
+    expect(result.score).toBe(64)
+  })
+
+  test('should fall back to the usability score when no module produced a result', () => {
+    const result = scoreMobileConversion({
+      modules: { ctaAnalysis: null, whitespaceAssessment: null, imageOptimization: null, socialProof: null },
+      ctasAboveFold: null,
+      ...usability({ hasViewportMeta: false })
+    })
+
+    expect(result.score).toBe(70)
+    expect(result.issues).not.toContain('No CTA is visible above the fold on mobile.')
+  })
+})
@@ -0,0 +1,139 @@
+import { MONITOR_PRIORITY, planMonitoredPages, runMonitoring } from '../monitoring';
+
+jest.mock('../supabase', () => ({
+  supabaseAdmin: { from: jest.fn() },
+}));
+
+jest.mock('../analysis-queue', () => ({
+  enqueueAnalysis: jest.fn()
+}));
+
+const { supabaseAdmin } = require('../supabase');
+const { enqueueAnalysis } = require('../analysis-queue');
+
+const now = new Date('2024-03-01T00:00:00Z');
+const daysAgo = (days: number) => new Date(now.getTime() - days * 24 * 60 * 60 * 1000).toISOString();
+
+const analysis = (id: string, url: string, days: number, overrides: Record<string, any> = {}) => ({
+  id,
+  url,
+  status: 'completed',
+  overall_score: 70,
+  grade: 'B' as const,
+  created_at: daysAgo(days),
+  ...overrides
+});
+
+describe('planMonitoredPages', () => {
+  test('should group analyses by URL and mark pages due once their latest scan is older than the interval', () => {
+    const pages = planMonitoredPages('user-1', 'weekly', [
+      analysis('a-2', 'https://due.com/', 8, { overall_score: 64, grade: 'C' }),
+      analysis('b-1', 'https://fresh.com/', 2),
+      analysis('a-1', 'https://due.com/', 40, { overall_score: 70 })
+    ], now);
+
+    expect(pages).toEqual([
+      expect.objectContaining({ url: 'https://due.com/', latestAnalysisId: 'a-2', overallScore: 64, grade: 'C', scoreDelta: -6, due: true }),
+      expect.objectContaining({ url: 'https://fresh.com/', latestAnalysisId: 'b-1', scoreDelta: null, due: false })
+    ]);
+  });
+
+  test('should wait for monthly pages and skip pages with a scan in progress or none completed', () => {
+    const pages = planMonitoredPages('user-1', 'monthly', [
+      analysis('c-2', 'https://busy.com/', 0, { status: 'queued' }),
+      analysis('b-1', 'https://recent.com/', 8),
+      analysis('c-1', 'https://busy.com/', 60),
+      analysis('d-1', 'https://failed.com/', 60, { status: 'failed' })
+    ], now);
+
+    expect(pages.map(page => [page.url, page.status, page.due])).toEqual([
+      ['https://busy.com/', 'in-progress', false],
+      ['https://recent.com/', 'up-to-date', false]
+    ]);
+  });
+
+  test('should leave out uploaded pages, which have no live URL to re-scan', () => {
+    const pages = planMonitoredPages('user-1', 'weekly', [
+      analysis('u-1', 'upload://0123456789abcdef/', 30),
+      analysis('a-1', 'https://due.com/', 30)
+    ], now);
+
+    expect(pages.map(page => page.url)).toEqual(['https://due.com/']);
+  });
+
+  test('should leave out pages analyzed with credentials, which are not kept for re-scans', () => {
+    const pages = planMonitoredPages('user-1', 'weekly', [
+      analysis('s-1', 'https://staging.example.com/', 30, { job_options: { requires_auth: true } }),
+      analysis('a-1', 'https://due.com/', 30)
+    ], now);
+
+    expect(pages.map(page => page.url)).toEqual(['https://due.com/']);
+  });
+});
+
+describe('runMonitoring', () => {
+  let inserts: Array<Record<string, any>>;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    inserts = [];
+    enqueueAnalysis.mockResolvedValue({ id: 'rescan-1' });
+
+    supabaseAdmin.from.mockImplementation((table: string) => {
+      const query: any = {};
+      ['select', 'eq', 'order'].forEach(method => {
+        query[method] = jest.fn(() => query);
+      });
+      if (table === 'user_preferences') {
+        query.in = jest.fn().mockResolvedValue({ data: [{ user_id: 'user-1', auto_analyze_frequency: 'weekly' }], error: null });
+      }
+      if (table === 'analyses') {
+        query.limit = jest.fn().mockResolvedValue({
+          data: [analysis('a-1', 'https://due.com/', 10), analysis('b-1', 'https://fresh.com/', 1)],
+          error: null
+        });
+      }
+      if (table === 'monitoring_digests') {
+        query.insert = jest.fn(payload => {
+          inserts.push(payload);
+          return query;
+        });
+        query.single = jest.fn().mockResolvedValue({ data: { id: 'digest-1' }, error: null });
+      }
+      return query;
+    });
+  });
+
+  test('should queue a monitored low-priority re-scan of due pages and store a digest of every page', async () => {
+    const result = await runMonitoring(now);
+
+    expect(enqueueAnalysis).toHaveBeenCalledTimes(1);
+    expect(enqueueAnalysis).toHaveBeenCalledWith({
+      userId: 'user-1',
+      url: 'https://due.com/',
+      priority: MONITOR_PRIORITY,
+      parentAnalysisId: 'a-1',
+      monitored: true
+    });
+    expect(result.digestId).toBe('digest-1');
+    expect(inserts).toEqual([{
+      run_at: now.toISOString(),
+      page_count: 2,
+      rescans_queued: 1,
+      pages: [
+        expect.objectContaining({ url: 'https://due.com/', status: 'rescan-queued', rescanId: 'rescan-1' }),
+        expect.objectContaining({ url: 'https://fresh.com/', status: 'up-to-date' })
+      ]
+    }]);
+    expect(inserts[0].pages[0]).not.toHaveProperty('due');
+  });
+
+  test('should still write the digest when a re-scan cannot be queued', async () => {
+    enqueueAnalysis.mockRejectedValue(new Error('insert failed'));
+
+    const result = await runMonitoring(now);
+
+    expect(result.pages[0].status).toBe('up-to-date');
+    expect(inserts[0].rescans_queued).toBe(0);
+  });
+});
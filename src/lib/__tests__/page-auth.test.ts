@@ -0,0 +1,201 @@
+import {
+  PAGE_AUTH_TTL_MS,
+  applyPageAuth,
+  getHeldPageAuth,
+  holdPageAuth,
+  parsePageAuth,
+  releasePageAuth,
+  withPageAuth
+} from '../page-auth';
+
+const createPage = (context: object = {}) => ({
+  setRequestInterception: jest.fn(),
+  on: jest.fn(),
+  setCookie: jest.fn(),
+  browserContext: jest.fn(() => context),
+  goto: jest.fn(),
+  waitForSelector: jest.fn(),
+  type: jest.fn(),
+  click: jest.fn(),
+  waitForNavigation: jest.fn()
+});
+
+const origin = 'https://staging.example.com';
+
+/** Send a request through the handler the page registered, returning how it was continued */
+const sendRequest = (page: ReturnType<typeof createPage>, url: string) => {
+  const request = { url: () => url, headers: () => ({ accept: 'text/html' }), continue: jest.fn() };
+  page.on.mock.calls[0][1](request);
+  return request.continue.mock.calls[0][0];
+};
+
+const login = {
+  url: 'https://staging.example.com/login',
+  fields: [
+    { selector: '#email', value: 'qa@example.com' },
+    { selector: '#password', value: 's3cret' }
+  ],
+  submit: 'button[type=submit]'
+};
+
+describe('parsePageAuth', () => {
+  it('should take basic auth, headers, cookies and a login step', () => {
+    const auth = parsePageAuth({
+      basic: { username: 'staging', password: 's3cret' },
+      headers: { 'X-Preview-Token': 'abc' },
+      cookies: [{ name: 'session', value: '1' }, { name: 'beta', value: 'on', domain: '.example.com', path: '/' }],
+      login: { ...login, waitForSelector: '.dashboard' }
+    }, 'https://staging.example.com/');
+
+    expect(auth).toEqual({
+      origin,
+      basic: { username: 'staging', password: 's3cret' },
+      headers: { 'X-Preview-Token': 'abc' },
+      cookies: [
+        { name: 'session', value: '1', url: 'https://staging.example.com/' },
+        { name: 'beta', value: 'on', domain: '.example.com', path: '/' }
+      ],
+      login: { ...login, waitForSelector: '.dashboard' }
+    });
+    expect(parsePageAuth(undefined, 'https://example.com/')).toBeNull();
+  });
+
+  it('should reject credentials that cannot be applied', () => {
+    const pageUrl = 'https://example.com/';
+
+    expect(() => parsePageAuth('user:pass', pageUrl)).toThrow('auth must be an object');
+    expect(() => parsePageAuth({}, pageUrl)).toThrow('auth needs basic, headers, cookies or login');
+    expect(() => parsePageAuth({ headers: { 'Bad Header': 'x' } }, pageUrl)).toThrow('auth.headers must map up to 20 header names to string values');
+    expect(() => parsePageAuth({ cookies: [{ value: '1' }] }, pageUrl)).toThrow('auth.cookies must be a list of up to 20 cookies with a name and value');
+    expect(() => parsePageAuth({ login: { ...login, fields: [] } }, pageUrl)).toThrow('auth.login.fields must list the inputs to fill');
+    expect(() => parsePageAuth({ login: { ...login, url: 'javascript:alert(1)' } }, pageUrl)).toThrow('auth.login.url must be an http(s) URL');
+  });
+
+  it('should only take cookie domains and a login page on the analyzed page\'s site', () => {
+    const pageUrl = 'https://staging.example.com/';
+
+    expect(parsePageAuth({ cookies: [{ name: 'session', value: '1', domain: '.example.com' }] }, pageUrl)).toBeTruthy();
+    expect(parsePageAuth({ login: { ...login, url: 'https://eu.staging.example.com/login' } }, pageUrl)).toBeTruthy();
+    expect(() => parsePageAuth({ cookies: [{ name: 'session', value: '1', domain: '.attacker.example' }] }, pageUrl))
+      .toThrow('auth.cookies domain .attacker.example is not on the same site as the analyzed page');
+    expect(() => parsePageAuth({ cookies: [{ name: 'session', value: '1', domain: 'com' }] }, pageUrl))
+      .toThrow('auth.cookies domain com is not on the same site as the analyzed page');
+    expect(() => parsePageAuth({ login: { ...login, url: 'https://attacker.example/login' } }, pageUrl))
+      .toThrow('auth.login.url must be on the same site as the analyzed page');
+    expect(() => parsePageAuth({ login: { ...login, url: 'https://localhost/login' } }, pageUrl))
+      .toThrow('auth.login.url must be an http(s) URL');
+  });
+});
+
+describe('applyPageAuth', () => {
+  it('should set credentials on the page before it is navigated', async () => {
+    const page = createPage();
+
+    await applyPageAuth(page as any, {
+      origin,
+      basic: { username: 'staging', password: 's3cret' },
+      headers: { 'X-Preview-Token': 'abc' },
+      cookies: [{ name: 'session', value: '1', url: 'https://staging.example.com/' }]
+    }, new WeakSet());
+
+    expect(page.setRequestInterception).toHaveBeenCalledWith(true);
+    expect(page.setCookie).toHaveBeenCalledWith({ name: 'session', value: '1', url: 'https://staging.example.com/' });
+    expect(page.goto).not.toHaveBeenCalled();
+    expect(sendRequest(page, 'https://staging.example.com/pricing')).toEqual({
+      headers: {
+        accept: 'text/html',
+        'x-preview-token': 'abc',
+        authorization: `Basic ${Buffer.from('staging:s3cret').toString('base64')}`
+      }
+    });
+  });
+
+  it('should not send basic auth or headers to other origins', async () => {
+    const page = createPage();
+
+    await applyPageAuth(page as any, { origin, basic: { username: 'staging', password: 's3cret' }, headers: { 'X-Preview-Token': 'abc' } }, new WeakSet());
+
+    expect(sendRequest(page, 'https://cdn.example.net/app.js')).toBeUndefined();
+  });
+
+  it('should leave requests alone when there are no headers to send', async () => {
+    const page = createPage();
+
+    await applyPageAuth(page as any, { origin, cookies: [{ name: 'session', value: '1', url: 'https://staging.example.com/' }] }, new WeakSet());
+
+    expect(page.setRequestInterception).not.toHaveBeenCalled();
+  });
+
+  it('should log in once per browser context', async () => {
+    const context = {};
+    const loggedIn = new WeakSet<any>();
+    const first = createPage(context);
+    const second = createPage(context);
+
+    await applyPageAuth(first as any, { origin, login }, loggedIn);
+    await applyPageAuth(second as any, { origin, login }, loggedIn);
+    await applyPageAuth(createPage({}) as any, { origin, login }, loggedIn);
+
+    expect(first.goto).toHaveBeenCalledWith(login.url, expect.anything());
+    expect(first.type).toHaveBeenCalledWith('#password', 's3cret');
+    expect(first.click).toHaveBeenCalledWith('button[type=submit]');
+    expect(first.waitForNavigation).toHaveBeenCalled();
+    expect(second.goto).not.toHaveBeenCalled();
+  });
+
+  it('should report a login that does not go through and try again on the next page', async () => {
+    const context = {};
+    const loggedIn = new WeakSet<any>();
+    const page = createPage(context);
+    page.waitForSelector.mockImplementation(async (selector: string) => {
+      if (selector === '.dashboard') {
+        throw new Error('Waiting for selector `.dashboard` failed');
+      }
+    });
+
+    await expect(applyPageAuth(page as any, { origin, login: { ...login, waitForSelector: '.dashboard' } }, loggedIn))
+      .rejects.toThrow('Login step failed: Waiting for selector `.dashboard` failed');
+    expect(loggedIn.has(context)).toBe(false);
+  });
+});
+
+describe('withPageAuth', () => {
+  it('should authenticate pages of the browser and of new browser contexts', async () => {
+    const defaultPage = createPage();
+    const contextPage = createPage();
+    const context = { newPage: jest.fn(async () => contextPage) };
+    const browser = {
+      newPage: jest.fn(async () => defaultPage),
+      createBrowserContext: jest.fn(async () => context)
+    };
+    const auth = { origin, headers: { 'X-Preview-Token': 'abc' } };
+
+    const wrapped = withPageAuth(browser as any, auth);
+    expect(await wrapped.newPage()).toBe(defaultPage);
+    expect(await (await wrapped.createBrowserContext()).newPage()).toBe(contextPage);
+
+    expect(sendRequest(defaultPage, 'https://staging.example.com/')).toMatchObject({ headers: { 'x-preview-token': 'abc' } });
+    expect(sendRequest(contextPage, 'https://staging.example.com/')).toMatchObject({ headers: { 'x-preview-token': 'abc' } });
+  });
+});
+
+describe('held credentials', () => {
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('should keep credentials until they are released or expire', () => {
+    jest.useFakeTimers();
+    const auth = { origin, basic: { username: 'staging', password: 's3cret' } };
+
+    holdPageAuth('analysis-1', auth);
+    holdPageAuth('analysis-2', auth);
+    expect(getHeldPageAuth('analysis-1')).toBe(auth);
+
+    releasePageAuth('analysis-1');
+    expect(getHeldPageAuth('analysis-1')).toBeNull();
+
+    jest.advanceTimersByTime(PAGE_AUTH_TTL_MS);
+    expect(getHeldPageAuth('analysis-2')).toBeNull();
+  });
+});
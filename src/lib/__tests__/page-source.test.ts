@@ -0,0 +1,205 @@
+import { deflateRawSync } from 'zlib';
+import {
+  MAX_UPLOAD_BYTES,
+  UPLOADED_PAGE_ORIGIN,
+  extractZip,
+  getSiteFiles,
+  getUploadUrl,
+  isUploadUrl,
+  parsePageUpload,
+  serveUploadedPage,
+  servePageSource,
+  storePageSource
+} from '../page-source';
+
+jest.mock('@vercel/blob', () => ({
+  put: jest.fn(),
+  del: jest.fn()
+}));
+
+/**
+ * Zip archive with one deflated entry per file, written the way common zip
+ * tools lay it out: local headers and data, then the central directory
+ */
+function createZip(files: Record<string, string>): Buffer {
+  const locals: Buffer[] = [];
+  const centrals: Buffer[] = [];
+  let offset = 0;
+
+  for (const [name, content] of Object.entries(files)) {
+    const nameBuffer = Buffer.from(name);
+    const data = Buffer.from(content);
+    const compressed = deflateRawSync(data);
+
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(0x04034b50, 0);
+    local.writeUInt16LE(8, 8);
+    local.writeUInt32LE(compressed.length, 18);
+    local.writeUInt32LE(data.length, 22);
+    local.writeUInt16LE(nameBuffer.length, 26);
+    locals.push(local, nameBuffer, compressed);
+
+    const central = Buffer.alloc(46);
+    central.writeUInt32LE(0x02014b50, 0);
+    central.writeUInt16LE(8, 10);
+    central.writeUInt32LE(compressed.length, 20);
+    central.writeUInt32LE(data.length, 24);
+    central.writeUInt16LE(nameBuffer.length, 28);
+    central.writeUInt32LE(offset, 42);
+    centrals.push(central, nameBuffer);
+
+    offset += local.length + nameBuffer.length + compressed.length;
+  }
+
+  const directory = Buffer.concat(centrals);
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(Object.keys(files).length, 8);
+  end.writeUInt16LE(Object.keys(files).length, 10);
+  end.writeUInt32LE(directory.length, 12);
+  end.writeUInt32LE(offset, 16);
+
+  return Buffer.concat([...locals, directory, end]);
+}
+
+/**
+ * Page whose request handler can be fed requests, recording how each one
+ * was answered
+ */
+function createPage() {
+  let handler: (request: any) => void = () => {};
+  const page = {
+    setRequestInterception: jest.fn(),
+    on: jest.fn((event: string, listener: (request: any) => void) => {
+      handler = listener;
+    })
+  };
+  const request = (url: string) => {
+    const intercepted = { url: () => url, continue: jest.fn(), respond: jest.fn() };
+    handler(intercepted);
+    return intercepted;
+  };
+  return { page, request };
+}
+
+describe('parsePageUpload', () => {
+  it('should take an HTML document or a base64 zip', () => {
+    const html = parsePageUpload({ html: '<h1>Hello</h1>' })!;
+    const zip = parsePageUpload({ zip: createZip({ 'index.html': '<h1>Hello</h1>' }).toString('base64') })!;
+
+    expect(html.type).toBe('html');
+    expect(html.digest).toMatch(/^[0-9a-f]{64}$/);
+    expect(zip.type).toBe('zip');
+    expect(parsePageUpload({})).toBeNull();
+  });
+
+  it('should reject uploads that cannot be analyzed', () => {
+    expect(() => parsePageUpload({ html: '<p>a</p>', zip: 'UEs=' })).toThrow('Send either html or zip, not both');
+    expect(() => parsePageUpload({ html: '  ' })).toThrow('html must be a non-empty HTML document');
+    expect(() => parsePageUpload({ html: 'x'.repeat(MAX_UPLOAD_BYTES + 1) })).toThrow('Uploads are limited to 4 MB');
+    expect(() => parsePageUpload({ zip: createZip({ 'about.html': '' }).toString('base64') })).toThrow('The zip has no index.html');
+  });
+});
+
+describe('zipped builds', () => {
+  it('should extract deflated files', () => {
+    const files = extractZip(createZip({ 'index.html': '<h1>Hello</h1>', 'css/site.css': 'h1 { color: red }' }));
+
+    expect(files.get('index.html')!.toString()).toBe('<h1>Hello</h1>');
+    expect(files.get('css/site.css')!.toString()).toBe('h1 { color: red }');
+  });
+
+  it('should serve a build zipped with its folder from that folder', () => {
+    const files = getSiteFiles('zip', createZip({
+      'dist/index.html': '<h1>Home</h1>',
+      'dist/pricing/index.html': '<h1>Pricing</h1>',
+      'README.md': 'Build notes'
+    }));
+
+    expect(Array.from(files.keys())).toEqual(['index.html', 'pricing/index.html']);
+  });
+
+  it('should refuse files outside the archive folder', () => {
+    expect(() => extractZip(createZip({ '../index.html': '' }))).toThrow('The zip contains a file outside its folder: ../index.html');
+  });
+});
+
+describe('serveUploadedPage', () => {
+  it('should answer requests to the upload origin from its files the way static hosts do', async () => {
+    const { page, request } = createPage();
+    await serveUploadedPage(page as any, {
+      url: `${UPLOADED_PAGE_ORIGIN}/`,
+      files: new Map([
+        ['index.html', Buffer.from('<h1>Home</h1>')],
+        ['pricing/index.html', Buffer.from('<h1>Pricing</h1>')],
+        ['about.html', Buffer.from('<h1>About</h1>')],
+        ['img/hero.png', Buffer.from('png')]
+      ])
+    });
+
+    expect(page.setRequestInterception).toHaveBeenCalledWith(true);
+    expect(request(`${UPLOADED_PAGE_ORIGIN}/`).respond).toHaveBeenCalledWith({
+      status: 200,
+      contentType: 'text/html; charset=utf-8',
+      body: Buffer.from('<h1>Home</h1>')
+    });
+    expect(request(`${UPLOADED_PAGE_ORIGIN}/pricing/`).respond.mock.calls[0][0].body.toString()).toBe('<h1>Pricing</h1>');
+    expect(request(`${UPLOADED_PAGE_ORIGIN}/about`).respond.mock.calls[0][0].body.toString()).toBe('<h1>About</h1>');
+    expect(request(`${UPLOADED_PAGE_ORIGIN}/img/hero.png`).respond.mock.calls[0][0].contentType).toBe('image/png');
+    expect(request(`${UPLOADED_PAGE_ORIGIN}/missing.js`).respond.mock.calls[0][0].status).toBe(404);
+  });
+
+  it('should let requests to other origins through', async () => {
+    const { page, request } = createPage();
+    await serveUploadedPage(page as any, { url: `${UPLOADED_PAGE_ORIGIN}/`, files: new Map([['index.html', Buffer.from('')]]) });
+
+    const cdnRequest = request('https://cdn.example.com/app.js');
+
+    expect(cdnRequest.continue).toHaveBeenCalled();
+    expect(cdnRequest.respond).not.toHaveBeenCalled();
+  });
+
+  it('should download a stored upload for the browser to load', async () => {
+    const originalFetch = global.fetch;
+    const zip = createZip({ 'index.html': '<h1>Staging</h1>' });
+    global.fetch = jest.fn().mockResolvedValue({
+      ok: true,
+      arrayBuffer: async () => zip.buffer.slice(zip.byteOffset, zip.byteOffset + zip.length)
+    });
+
+    try {
+      const servedPage = await servePageSource({ type: 'zip', blob_url: 'https://blob.vercel-storage.com/page-sources/a.zip', digest: 'a' });
+
+      expect(servedPage.url).toBe(`${UPLOADED_PAGE_ORIGIN}/`);
+      expect(servedPage.files.get('index.html')?.toString()).toBe('<h1>Staging</h1>');
+    } finally {
+      global.fetch = originalFetch;
+    }
+  });
+});
+
+describe('storePageSource', () => {
+  it('should store an upload under a random name rather than its digest', async () => {
+    const mockPut = require('@vercel/blob').put;
+    mockPut.mockImplementation(async (pathname: string) => ({ url: `https://blob.vercel-storage.com/${pathname}` }));
+    const upload = parsePageUpload({ html: '<h1>Hello</h1>' })!;
+
+    const first = await storePageSource(upload);
+    const second = await storePageSource(upload);
+
+    expect(mockPut).toHaveBeenCalledWith(expect.stringMatching(/^page-sources\/[0-9a-f]{64}\.html$/), upload.content, expect.objectContaining({ addRandomSuffix: false }));
+    expect(first.blob_url).not.toContain(upload.digest);
+    expect(second.blob_url).not.toBe(first.blob_url);
+    expect(first).toMatchObject({ type: 'html', digest: upload.digest });
+  });
+});
+
+describe('upload URLs', () => {
+  it('should name an upload by its digest', () => {
+    const url = getUploadUrl('0123456789abcdef0123456789abcdef');
+
+    expect(url).toBe('upload://0123456789abcdef/');
+    expect(isUploadUrl(url)).toBe(true);
+    expect(isUploadUrl('https://example.com/')).toBe(false);
+  });
+});
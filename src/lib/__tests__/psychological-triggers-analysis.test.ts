@@ -0,0 +1,193 @@
+import {
+  analyzePsychologicalTriggers,
+  parseCountdownSeconds,
+  scorePsychologicalTriggers,
+  SocialProofSignals
+} from '../psychological-triggers-analysis'
+
+jest.mock('../puppeteer-config', () => ({
+  createPuppeteerBrowser: jest.fn(),
+}));
+
+jest.mock('../social-proof-analysis', () => ({
+  analyzeSocialProof: jest.fn(),
+}));
+
+jest.mock('../psychological-triggers-dictionary', () => ({
+  ...jest.requireActual('../psychological-triggers-dictionary'),
+  TIMER_SAMPLE_MS: 0,
+}));
+
+const { createPuppeteerBrowser } = require('../puppeteer-config');
+const { analyzeSocialProof } = require('../social-proof-analysis');
+
+const mockPage = {
+  goto: jest.fn(),
+  setContent: jest.fn(),
+  setViewport: jest.fn(),
+  evaluate: jest.fn(),
+};
+
+const mockReloadPage = {
+  goto: jest.fn(),
+  setContent: jest.fn(),
+  setViewport: jest.fn(),
+  evaluate: jest.fn(),
+};
+
+const mockContext = {
+  newPage: jest.fn().mockResolvedValue(mockReloadPage),
+  close: jest.fn(),
+};
+
+const mockBrowser = {
+  newPage: jest.fn().mockResolvedValue(mockPage),
+  createBrowserContext: jest.fn().mockResolvedValue(mockContext),
+  close: jest.fn(),
+};
+
+const socialProof = (overrides: Partial<SocialProofSignals['summary']> = {}, score: number | null = 70): SocialProofSignals => ({
+  score,
+  summary: {
+    totalElements: 0,
+    aboveFoldElements: 0,
+    testimonials: 0,
+    reviews: 0,
+    ratings: 0,
+    trustBadges: 0,
+    customerCounts: 0,
+    socialMedia: 0,
+    certifications: 0,
+    partnerships: 0,
+    caseStudies: 0,
+    newsMentions: 0,
+    ...overrides
+  }
+})
+
+describe('Psychological Triggers Analysis', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    createPuppeteerBrowser.mockResolvedValue(mockBrowser);
+    analyzeSocialProof.mockResolvedValue(socialProof());
+  });
+
+  test('should analyze social proof itself when no result is passed in', async () => {
+    mockPage.evaluate
+      .mockResolvedValueOnce('Download our free guide')
+      .mockResolvedValueOnce([])
+
+    const result = await analyzePsychologicalTriggers('https://example.com')
+
+    expect(analyzeSocialProof).toHaveBeenCalledWith('https://example.com', expect.objectContaining({
+      puppeteer: expect.objectContaining({ browser: mockBrowser })
+    }))
+    expect(mockBrowser.createBrowserContext).not.toHaveBeenCalled()
+    expect(mockBrowser.close).toHaveBeenCalled()
+    expect(result.reciprocityOffers).toEqual(['free guide'])
+    expect(result.socialProofStrength).toBe(70)
+  })
+
+  test('should reuse a social proof result that already ran', async () => {
+    mockPage.evaluate
+      .mockResolvedValueOnce('Featured in Forbes')
+      .mockResolvedValueOnce([])
+
+    const result = await analyzePsychologicalTriggers('https://example.com', {
+      socialProof: socialProof({ newsMentions: 2 }, 85)
+    })
+
+    expect(analyzeSocialProof).not.toHaveBeenCalled()
+    expect(result.authoritySignals).toBe(3)
+    expect(result.socialProofStrength).toBe(85)
+  })
+
+  test('should flag a countdown timer that restarts for a fresh visitor', async () => {
+    mockPage.evaluate
+      .mockResolvedValueOnce('Offer ends in')
+      .mockResolvedValueOnce([{ path: 'body > div:nth-of-type(1)', text: '00:10:00' }])
+      .mockResolvedValueOnce(['00:09:58'])
+    mockReloadPage.evaluate.mockResolvedValueOnce(['00:10:00'])
+
+    const result = await analyzePsychologicalTriggers('https://example.com')
+
+    expect(mockContext.close).toHaveBeenCalled()
+    expect(result.countdownTimers).toEqual([
+      { text: '00:10:00', seconds: 600, ticking: true, resetsOnReload: true }
+    ])
+    expect(result.manipulativePatterns).toEqual(['Countdown timer resets on reload ("00:10:00")'])
+    expect(result.issues).toContain('1 countdown timer restarted when the page was reloaded. Fake deadlines erode trust.')
+  })
+
+  test('should accept a countdown that keeps running across visits', async () => {
+    mockPage.evaluate
+      .mockResolvedValueOnce('Sale ends in')
+      .mockResolvedValueOnce([{ path: 'body > div:nth-of-type(1)', text: '00:10:00' }])
+      .mockResolvedValueOnce(['00:09:58'])
+    mockReloadPage.evaluate.mockResolvedValueOnce(['00:09:57'])
+
+    const result = await analyzePsychologicalTriggers('https://example.com')
+
+    expect(result.countdownTimers[0].resetsOnReload).toBe(false)
+    expect(result.manipulativePatterns).toEqual([])
+  })
+
+  test('should ignore numbers that do not change', async () => {
+    mockPage.evaluate
+      .mockResolvedValueOnce('Open 09:00 to 17:00')
+      .mockResolvedValueOnce([{ path: 'body > p:nth-of-type(1)', text: '09:00' }])
+      .mockResolvedValueOnce(['09:00'])
+
+    const result = await analyzePsychologicalTriggers('https://example.com')
+
+    expect(mockBrowser.createBrowserContext).not.toHaveBeenCalled()
+    expect(result.countdownTimers).toEqual([])
+  })
+})
+
+describe('parseCountdownSeconds', () => {
+  test('should parse clock and unit formats', () => {
+    expect(parseCountdownSeconds('02:15:30')).toBe(2 * 3600 + 15 * 60 + 30)
+    expect(parseCountdownSeconds('14:59')).toBe(14 * 60 + 59)
+    expect(parseCountdownSeconds('1d 04:10:00')).toBe(86400 + 4 * 3600 + 600)
+    expect(parseCountdownSeconds('2 days 3 hours 15 minutes 10 seconds')).toBe(2 * 86400 + 3 * 3600 + 15 * 60 + 10)
+    expect(parseCountdownSeconds('Hurry!')).toBeNull()
+  })
+})
+
+describe('scorePsychologicalTriggers', () => {
+  test('should detect scarcity, urgency, authority and reciprocity', () => {
+    const result = scorePsychologicalTriggers({
+      text: 'Limited time offer! Only 3 left in stock. As seen on TV. Grab your free checklist.',
+      countdownTimers: []
+    }, socialProof({ certifications: 1 }))
+
+    expect(result.scarcityPhrases).toContain('only 3 left')
+    expect(result.urgencyPhrases).toEqual(['limited time'])
+    expect(result.urgencyLanguageDetected).toBe(true)
+    expect(result.authoritySignals).toBe(2)
+    expect(result.reciprocityOffers).toEqual(['free checklist'])
+    // authority 100*0.3 + reciprocity 100*0.2 + urgency 100*0.2 + social proof 70*0.3
+    expect(result.score).toBe(91)
+    expect(result.issues).toEqual([])
+  })
+
+  test('should flag confirmshaming decline copy', () => {
+    const result = scorePsychologicalTriggers({
+      text: "Get 10% off. No thanks, I don't want to save money",
+      countdownTimers: []
+    }, socialProof())
+
+    expect(result.manipulativePatterns).toEqual([`Confirmshaming decline copy ("No thanks, I don't want to save money")`])
+    expect(result.recommendations.some(rec => rec.includes('No thanks'))).toBe(true)
+  })
+
+  test('should recommend authority, free offers and a reason to act when none are found', () => {
+    const result = scorePsychologicalTriggers({ text: 'We make software.', countdownTimers: [] }, socialProof({}, null))
+
+    expect(result.score).toBe(14)
+    expect(result.socialProofStrength).toBeNull()
+    expect(result.issues).toHaveLength(3)
+    expect(result.recommendations).toHaveLength(3)
+  })
+})
@@ -0,0 +1,24 @@
+import { createMemoryRateLimiter } from '../rate-limit';
+
+describe('createMemoryRateLimiter', () => {
+  it('should allow requests up to the limit within a window', () => {
+    let time = 1_000;
+    const limiter = createMemoryRateLimiter(() => time);
+
+    expect(limiter.hit('key-1', 2, 60_000)).toEqual({ allowed: true, limit: 2, remaining: 1, resetAt: 61_000 });
+    expect(limiter.hit('key-1', 2, 60_000)).toMatchObject({ allowed: true, remaining: 0 });
+    expect(limiter.hit('key-1', 2, 60_000)).toMatchObject({ allowed: false, remaining: 0, resetAt: 61_000 });
+
+    time = 61_000;
+    expect(limiter.hit('key-1', 2, 60_000)).toMatchObject({ allowed: true, remaining: 1, resetAt: 121_000 });
+  });
+
+  it('should count each key separately', () => {
+    const limiter = createMemoryRateLimiter(() => 0);
+
+    limiter.hit('key-1', 1, 60_000);
+
+    expect(limiter.hit('key-1', 1, 60_000).allowed).toBe(false);
+    expect(limiter.hit('key-2', 1, 60_000).allowed).toBe(true);
+  });
+});
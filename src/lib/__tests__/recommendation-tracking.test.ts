@@ -0,0 +1,195 @@
+import {
+  buildRecommendationRows,
+  getAnalysisRecommendations,
+  isRecommendationStatus,
+  saveRecommendations,
+  updateRecommendation
+} from '../recommendation-tracking';
+
+jest.mock('@/lib/supabase', () => ({
+  supabaseAdmin: {
+    from: jest.fn()
+  }
+}));
+
+const NO_PRIMARY_CTA = 'Add a prominent primary CTA button. Visitors need a clear next step to convert.';
+const WEAK_CTA_TEXT = 'Replace weak CTA text with action verbs. Use "Start", "Get", "Join", or "Try" instead of generic labels.';
+const CUSTOM_TEXT = 'Consider a bolder button colour for the footer signup.';
+
+describe('buildRecommendationRows', () => {
+  it('should key recommendations by the template that generated them', () => {
+    const [row] = buildRecommendationRows('analysis-1', {
+      ctaAnalysis: { score: 40, recommendations: [NO_PRIMARY_CTA] }
+    });
+
+    expect(row).toMatchObject({
+      analysis_id: 'analysis-1',
+      recommendation_key: 'cta-no-primary',
+      category: 'cta',
+      priority: 1,
+      title: 'Add a prominent primary CTA button.',
+      description: NO_PRIMARY_CTA,
+      expected_impact: 'high',
+      affected_area: 'hero section'
+    });
+  });
+
+  it('should key recommendations by their stored template id whatever their wording', () => {
+    const reworded = 'Give visitors one clear primary call to action above the fold.';
+    const [row, custom] = buildRecommendationRows('analysis-1', {
+      ctaAnalysis: {
+        recommendations: [reworded, WEAK_CTA_TEXT],
+        recommendationIds: { [reworded]: 'cta-no-primary' }
+      }
+    });
+
+    expect(row).toMatchObject({
+      recommendation_key: 'cta-no-primary',
+      description: reworded,
+      expected_impact: 'high',
+      affected_area: 'hero section'
+    });
+    expect(custom.recommendation_key).toMatch(/^cta-custom-[0-9a-f]{12}$/);
+  });
+
+  it('should add an A/B test plan to high-impact recommendations only', () => {
+    const [high, medium] = buildRecommendationRows('analysis-1', {
+      ctaAnalysis: { recommendations: [CUSTOM_TEXT, NO_PRIMARY_CTA], primaryCTA: null, ctas: [] }
+    });
+
+    expect(high.test_hypothesis).toContain('because the page currently has no primary CTA and 0 CTAs');
+    expect(high.suggested_variants?.[1]).toEqual({ name: 'Variant', description: NO_PRIMARY_CTA });
+    expect(high.estimated_lift_percentage).toBe(15);
+    expect(medium).toMatchObject({
+      test_hypothesis: null,
+      suggested_variants: null,
+      success_metrics: null,
+      estimated_lift_percentage: null
+    });
+  });
+
+  it('should give text from outside the templates the same key in every analysis', () => {
+    const results = { ctaAnalysis: { recommendations: [CUSTOM_TEXT, CUSTOM_TEXT] } };
+    const first = buildRecommendationRows('analysis-1', results);
+    const second = buildRecommendationRows('analysis-2', results);
+
+    expect(first).toHaveLength(1);
+    expect(first[0].recommendation_key).toMatch(/^cta-custom-[0-9a-f]{12}$/);
+    expect(second[0].recommendation_key).toBe(first[0].recommendation_key);
+    expect(first[0]).toMatchObject({ expected_impact: 'medium', affected_area: null });
+  });
+
+  it('should rank high-impact recommendations first, then in report order', () => {
+    const rows = buildRecommendationRows('analysis-1', {
+      ctaAnalysis: { recommendations: [CUSTOM_TEXT, WEAK_CTA_TEXT] },
+      pageLoadSpeed: { recommendations: ['Enable compression on the origin server.'] },
+      seo: null
+    });
+
+    expect(rows.map(row => [row.priority, row.category, row.expected_impact])).toEqual([
+      [1, 'cta', 'high'],
+      [2, 'cta', 'medium'],
+      [3, 'speed', 'medium']
+    ]);
+  });
+});
+
+describe('recommendation storage', () => {
+  const mockSupabaseFrom = require('@/lib/supabase').supabaseAdmin.from;
+
+  let responses: Array<{ data?: any; error?: any }>;
+  let upserts: Array<{ rows: any[]; options: any }>;
+  let updates: Array<Record<string, any>>;
+
+  const createQueryBuilder = () => {
+    const builder: any = {};
+    ['select', 'eq', 'order'].forEach(method => {
+      builder[method] = jest.fn(() => builder);
+    });
+    builder.upsert = jest.fn((rows, options) => {
+      upserts.push({ rows, options });
+      return builder;
+    });
+    builder.update = jest.fn((payload) => {
+      updates.push(payload);
+      return builder;
+    });
+    const next = () => Promise.resolve(responses.shift() || { data: null, error: null });
+    builder.single = jest.fn(next);
+    builder.maybeSingle = jest.fn(next);
+    builder.then = (resolve: any, reject: any) => next().then(resolve, reject);
+    return builder;
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    responses = [];
+    upserts = [];
+    updates = [];
+    mockSupabaseFrom.mockImplementation(() => createQueryBuilder());
+  });
+
+  it('should leave recommendations that were already saved untouched', async () => {
+    const saved = await saveRecommendations('analysis-1', { ctaAnalysis: { recommendations: [NO_PRIMARY_CTA] } });
+
+    expect(saved).toBe(1);
+    expect(upserts[0].options).toEqual({ onConflict: 'analysis_id,recommendation_key', ignoreDuplicates: true });
+  });
+
+  it('should not write anything for an analysis without recommendations', async () => {
+    expect(await saveRecommendations('analysis-1', { ctaAnalysis: { recommendations: [] } })).toBe(0);
+    expect(mockSupabaseFrom).not.toHaveBeenCalled();
+  });
+
+  it('should return stored recommendations without rebuilding them', async () => {
+    responses.push({ data: [{ id: 'rec-1', status: 'planned' }], error: null });
+
+    expect(await getAnalysisRecommendations('analysis-1')).toEqual([{ id: 'rec-1', status: 'planned' }]);
+    expect(upserts).toHaveLength(0);
+  });
+
+  it('should create the checklist of an older analysis from its stored results', async () => {
+    responses.push(
+      { data: [], error: null },
+      { data: { id: 'analysis-1', status: 'completed', cta_analysis: { recommendations: [NO_PRIMARY_CTA] } }, error: null },
+      { data: null, error: null },
+      { data: [{ id: 'rec-1', recommendation_key: 'cta-no-primary' }], error: null }
+    );
+
+    const recommendations = await getAnalysisRecommendations('analysis-1');
+
+    expect(upserts[0].rows.map((row: any) => row.recommendation_key)).toEqual(['cta-no-primary']);
+    expect(recommendations).toEqual([{ id: 'rec-1', recommendation_key: 'cta-no-primary' }]);
+  });
+
+  it('should return an empty checklist while the analysis is running and null when it does not exist', async () => {
+    responses.push({ data: [], error: null }, { data: { id: 'analysis-1', status: 'processing' }, error: null });
+    expect(await getAnalysisRecommendations('analysis-1')).toEqual([]);
+
+    responses.push({ data: [], error: null }, { data: null, error: { code: 'PGRST116' } });
+    expect(await getAnalysisRecommendations('missing')).toBeNull();
+  });
+
+  it('should only update the fields it is given', async () => {
+    responses.push({ data: { id: 'rec-1', status: 'implemented' }, error: null });
+
+    const recommendation = await updateRecommendation('rec-1', { status: 'implemented' });
+
+    expect(updates).toEqual([{ status: 'implemented' }]);
+    expect(recommendation).toEqual({ id: 'rec-1', status: 'implemented' });
+  });
+
+  it('should throw when an update fails', async () => {
+    responses.push({ data: null, error: { message: 'connection lost' } });
+
+    await expect(updateRecommendation('rec-1', { implementationNotes: 'Shipped' })).rejects.toThrow('connection lost');
+  });
+});
+
+describe('isRecommendationStatus', () => {
+  it('should accept only the tracked statuses', () => {
+    expect(isRecommendationStatus('implemented')).toBe(true);
+    expect(isRecommendationStatus('done')).toBe(false);
+    expect(isRecommendationStatus(undefined)).toBe(false);
+  });
+});
@@ -0,0 +1,43 @@
+import { getReportPdf } from '../report-pdf-cache';
+
+jest.mock('../report-pdf', () => ({
+  ...jest.requireActual('../report-pdf'),
+  renderReportPdf: jest.fn(),
+}));
+
+describe('getReportPdf', () => {
+  const mockRenderReportPdf = require('../report-pdf').renderReportPdf;
+  const now = Date.parse('2026-01-01T12:00:00.000Z');
+  const hour = 60 * 60 * 1000;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockRenderReportPdf.mockResolvedValue(Buffer.from('%PDF-1.4'));
+  });
+
+  it('should print a report once and serve the PDF until it expires', async () => {
+    const pdf = await getReportPdf('analysis-1', now);
+    expect(await getReportPdf('analysis-1', now + hour - 1)).toBe(pdf);
+    expect(mockRenderReportPdf).toHaveBeenCalledTimes(1);
+    expect(mockRenderReportPdf).toHaveBeenCalledWith('http://localhost:3000/reports/analysis-1/print');
+
+    await getReportPdf('analysis-1', now + hour);
+    expect(mockRenderReportPdf).toHaveBeenCalledTimes(2);
+  });
+
+  it('should share one render between requests that arrive while it runs', async () => {
+    const [first, second] = await Promise.all([getReportPdf('analysis-2', now), getReportPdf('analysis-2', now)]);
+
+    expect(first).toBe(second);
+    expect(mockRenderReportPdf).toHaveBeenCalledTimes(1);
+  });
+
+  it('should render again after a failed render', async () => {
+    mockRenderReportPdf.mockRejectedValueOnce(new Error('Browserless connection failed'));
+
+    await expect(getReportPdf('analysis-3', now)).rejects.toThrow('Browserless connection failed');
+    await getReportPdf('analysis-3', now);
+
+    expect(mockRenderReportPdf).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,59 @@
+import { getReportPdfFilename, renderReportPdf } from '../report-pdf';
+
+const mockPage = {
+  setViewport: jest.fn(),
+  goto: jest.fn(),
+  waitForSelector: jest.fn(),
+  $: jest.fn(),
+  pdf: jest.fn()
+};
+
+const mockBrowser = {
+  newPage: jest.fn(() => Promise.resolve(mockPage)),
+  close: jest.fn()
+};
+
+jest.mock('../puppeteer-config', () => ({
+  createPuppeteerBrowser: jest.fn(() => Promise.resolve(mockBrowser))
+}));
+
+describe('renderReportPdf', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockPage.$.mockResolvedValue(null);
+    mockPage.pdf.mockResolvedValue(new Uint8Array([37, 80, 68, 70]));
+  });
+
+  it('should wait for the printable report and print it as an A4 PDF with backgrounds', async () => {
+    const pdf = await renderReportPdf('http://localhost:3000/reports/analysis-1/print');
+
+    expect(mockPage.goto).toHaveBeenCalledWith('http://localhost:3000/reports/analysis-1/print', expect.objectContaining({ waitUntil: 'networkidle0' }));
+    expect(mockPage.waitForSelector).toHaveBeenCalledWith('[data-report-ready], [data-report-error]', expect.any(Object));
+    expect(mockPage.pdf).toHaveBeenCalledWith(expect.objectContaining({
+      format: 'A4',
+      printBackground: true,
+      displayHeaderFooter: true,
+      footerTemplate: expect.stringContaining('pageNumber')
+    }));
+    expect(pdf.toString()).toBe('%PDF');
+    expect(mockBrowser.close).toHaveBeenCalled();
+  });
+
+  it('should fail and close the browser when the report did not load', async () => {
+    mockPage.$.mockResolvedValue({});
+
+    await expect(renderReportPdf('http://localhost:3000/reports/missing/print')).rejects.toThrow('failed to load');
+    expect(mockPage.pdf).not.toHaveBeenCalled();
+    expect(mockBrowser.close).toHaveBeenCalled();
+  });
+});
+
+describe('getReportPdfFilename', () => {
+  it('should name the file after the page host', () => {
+    expect(getReportPdfFilename('https://www.example.com/pricing')).toBe('landing-page-report-example.com.pdf');
+  });
+
+  it('should fall back to a generic name for URLs that do not parse', () => {
+    expect(getReportPdfFilename('not a url')).toBe('landing-page-report-page.pdf');
+  });
+});
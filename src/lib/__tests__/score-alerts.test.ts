@@ -0,0 +1,110 @@
+import { alertOnScoreDrops, findScoreDrops } from '../score-alerts';
+import type { AnalysisChanges } from '@/types/database';
+
+jest.mock('../supabase', () => ({
+  supabaseAdmin: { from: jest.fn() },
+}));
+
+jest.mock('../email-service', () => ({
+  sendScoreDropAlert: jest.fn()
+}));
+
+const { supabaseAdmin } = require('../supabase');
+const { sendScoreDropAlert } = require('../email-service');
+
+const moduleChange = (analyzerId: string, name: string, previousScore: number, newScore: number) => ({
+  analyzerId,
+  name,
+  previousScore,
+  newScore,
+  scoreDelta: newScore - previousScore,
+  newIssues: [],
+  resolvedIssues: []
+});
+
+const changes = (overrides: Partial<AnalysisChanges> = {}): AnalysisChanges => ({
+  parentAnalysisId: 'analysis-0',
+  previousAnalyzedAt: '2024-01-01T00:00:00Z',
+  previousScore: 80,
+  newScore: 72,
+  scoreDelta: -8,
+  modules: [
+    moduleChange('speed', 'Page Speed', 90, 60),
+    moduleChange('cta', 'CTA', 70, 62),
+    moduleChange('socialProof', 'Social Proof', 50, 65)
+  ],
+  regressions: ['speed', 'cta'],
+  improvements: ['socialProof'],
+  cta: null,
+  socialProof: null,
+  ...overrides
+});
+
+describe('findScoreDrops', () => {
+  test('should list the overall score and modules that dropped past the thresholds, biggest drop first', () => {
+    expect(findScoreDrops(changes())).toEqual([
+      { name: 'Page Speed', previousScore: 90, newScore: 60, drop: 30 },
+      { name: 'Overall score', previousScore: 80, newScore: 72, drop: 8 }
+    ]);
+  });
+
+  test('should use the thresholds passed in', () => {
+    expect(findScoreDrops(changes(), { overall: 10, module: 5 }).map(drop => drop.name)).toEqual(['Page Speed', 'CTA']);
+  });
+
+  test('should find nothing when scores held up', () => {
+    expect(findScoreDrops(changes({ scoreDelta: 2, modules: [] }))).toEqual([]);
+  });
+});
+
+describe('alertOnScoreDrops', () => {
+  const job = { id: 'analysis-1', url: 'https://example.com/', user_id: 'user-1' };
+
+  const mockTables = (user: Record<string, any> | null, notificationPreferences: Record<string, any> = { email: true }) => {
+    supabaseAdmin.from.mockImplementation((table: string) => {
+      const data = table === 'users' ? user : { notification_preferences: notificationPreferences };
+      const query: any = {
+        select: jest.fn(() => query),
+        eq: jest.fn(() => query),
+        single: jest.fn().mockResolvedValue({ data, error: null })
+      };
+      return query;
+    });
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    sendScoreDropAlert.mockResolvedValue({ success: true, emailId: 'email-1' });
+  });
+
+  test('should email the page owner the drops with a link to the new report', async () => {
+    mockTables({ email: 'owner@example.com', email_frequency: 'weekly', deleted_at: null });
+
+    expect(await alertOnScoreDrops(job, changes())).toBe(true);
+    expect(sendScoreDropAlert).toHaveBeenCalledWith(
+      'owner@example.com',
+      expect.objectContaining({
+        url: 'https://example.com/',
+        previousScore: 80,
+        newScore: 72,
+        drops: [expect.objectContaining({ name: 'Page Speed' }), expect.objectContaining({ name: 'Overall score' })]
+      }),
+      expect.stringContaining('/reports/analysis-1')
+    );
+  });
+
+  test('should not email users who opted out of email', async () => {
+    mockTables({ email: 'owner@example.com', email_frequency: 'never', deleted_at: null });
+    expect(await alertOnScoreDrops(job, changes())).toBe(false);
+
+    mockTables({ email: 'owner@example.com', email_frequency: 'monthly', deleted_at: null }, { email: false });
+    expect(await alertOnScoreDrops(job, changes())).toBe(false);
+
+    expect(sendScoreDropAlert).not.toHaveBeenCalled();
+  });
+
+  test('should not look anything up when no score dropped enough', async () => {
+    expect(await alertOnScoreDrops(job, changes({ scoreDelta: -1, modules: [] }))).toBe(false);
+    expect(supabaseAdmin.from).not.toHaveBeenCalled();
+  });
+});
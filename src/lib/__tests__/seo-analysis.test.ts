@@ -0,0 +1,178 @@
+import { analyzeSeo, scoreSeo, validateStructuredData, ExtractedSeo } from '../seo-analysis'
+
+jest.mock('../puppeteer-config', () => ({
+  createPuppeteerBrowser: jest.fn(),
+}));
+
+const { createPuppeteerBrowser } = require('../puppeteer-config');
+
+const mockPage = {
+  goto: jest.fn(),
+  setContent: jest.fn(),
+  setViewport: jest.fn(),
+  evaluate: jest.fn(),
+};
+
+const mockBrowser = {
+  newPage: jest.fn().mockResolvedValue(mockPage),
+  close: jest.fn(),
+};
+
+const organization = JSON.stringify({
+  '@context': 'https://schema.org',
+  '@type': 'Organization',
+  name: 'Invoicely',
+  url: 'https://invoicely.com',
+  logo: 'https://invoicely.com/logo.png',
+  sameAs: ['https://x.com/invoicely']
+})
+
+const seo = (overrides: Partial<ExtractedSeo> = {}): ExtractedSeo => ({
+  title: 'Invoicely - Send invoices in one click',
+  description: 'Send professional invoices in one click and get paid in two days. Free for your first ten invoices.',
+  url: 'https://invoicely.com/',
+  canonical: 'https://invoicely.com/',
+  robots: ['index', 'follow'],
+  openGraph: {
+    'og:title': 'Invoicely',
+    'og:description': 'Send invoices in one click',
+    'og:image': 'https://invoicely.com/og.png',
+    'og:url': 'https://invoicely.com/'
+  },
+  twitter: { 'twitter:card': 'summary_large_image' },
+  hreflang: [],
+  jsonLd: [organization],
+  h1Count: 1,
+  shareImageSize: { width: 1200, height: 630 },
+  ...overrides
+})
+
+describe('SEO Analysis', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    createPuppeteerBrowser.mockResolvedValue(mockBrowser);
+    mockPage.goto.mockResolvedValue({ headers: () => ({ 'x-robots-tag': 'noindex' }) });
+  });
+
+  test('should read metadata, measure the share image and close its own browser', async () => {
+    const { shareImageSize, ...metadata } = seo()
+    mockPage.evaluate
+      .mockResolvedValueOnce(metadata)
+      .mockResolvedValueOnce(shareImageSize)
+
+    const result = await analyzeSeo('https://invoicely.com')
+
+    expect(mockPage.goto).toHaveBeenCalledWith('https://invoicely.com', expect.any(Object))
+    expect(mockPage.evaluate).toHaveBeenLastCalledWith(expect.any(Function), 'https://invoicely.com/og.png', 5000)
+    expect(result.openGraph.image).toEqual({ url: 'https://invoicely.com/og.png', width: 1200, height: 630 })
+    expect(result.robots.noindex).toBe(true)
+    expect(mockBrowser.close).toHaveBeenCalled()
+  })
+
+  test('should fall back to the declared image size when the image does not load', async () => {
+    const { openGraph, ...metadata } = seo()
+    mockPage.evaluate
+      .mockResolvedValueOnce({ ...metadata, openGraph: { ...openGraph, 'og:image:width': '400', 'og:image:height': '200' } })
+      .mockResolvedValueOnce(null)
+
+    const result = await analyzeSeo('<html></html>', { isHtml: true })
+
+    expect(mockPage.setContent).toHaveBeenCalledWith('<html></html>')
+    expect(mockPage.goto).not.toHaveBeenCalled()
+    expect(result.openGraph.image).toEqual(expect.objectContaining({ width: 400, height: 200 }))
+  })
+})
+
+describe('validateStructuredData', () => {
+  test('should accept complete Product, Organization, FAQ and Review items', () => {
+    const result = validateStructuredData([
+      organization,
+      JSON.stringify({
+        '@context': 'https://schema.org',
+        '@graph': [
+          { '@type': 'Product', name: 'Invoicely Pro', offers: { price: '9.00' }, image: 'x.png', description: 'Invoicing', brand: 'Invoicely' },
+          { '@type': 'FAQPage', mainEntity: [{ '@type': 'Question', name: 'Is it free?', acceptedAnswer: { text: 'Yes' } }] },
+          { '@type': 'Review', itemReviewed: { name: 'Invoicely' }, reviewRating: { ratingValue: 5 }, author: { name: 'Sam' } }
+        ]
+      })
+    ])
+
+    expect(result.types).toEqual(['Organization', 'Product', 'FAQPage', 'Review'])
+    expect(result.items.map(item => item.rule)).toEqual(['Organization', 'Product', 'FAQ', 'Review'])
+    expect(result.items.every(item => item.missingRequired.length === 0)).toBe(true)
+  })
+
+  test('should report invalid JSON and missing required properties', () => {
+    const result = validateStructuredData([
+      '{ "@type": "Product", ',
+      JSON.stringify({ '@type': 'Product', name: 'Invoicely Pro' }),
+      JSON.stringify({ '@type': 'FAQPage', mainEntity: [{ name: 'Is it free?' }] }),
+      JSON.stringify({ '@type': 'Review', author: 'Sam', reviewRating: {} })
+    ])
+
+    expect(result.invalidBlocks).toBe(1)
+    expect(result.items[0].missingRequired).toEqual(['offers or review or aggregateRating'])
+    expect(result.items[1].missingRequired).toEqual(['mainEntity[].acceptedAnswer.text'])
+    expect(result.items[2].missingRequired).toEqual(['itemReviewed', 'reviewRating.ratingValue'])
+  })
+})
+
+describe('scoreSeo', () => {
+  test('should score complete metadata highly', () => {
+    const result = scoreSeo(seo())
+
+    expect(result.score).toBe(100)
+    expect(result.canonical.matchesPage).toBe(true)
+    expect(result.issues).toEqual([])
+    expect(result.recommendations).toEqual([])
+  })
+
+  test('should flag missing and badly sized metadata', () => {
+    const result = scoreSeo(seo({
+      title: 'Home',
+      description: '',
+      canonical: '/pricing',
+      openGraph: { 'og:title': 'Invoicely', 'og:image': '/og.png' },
+      twitter: {},
+      jsonLd: [],
+      h1Count: 2,
+      shareImageSize: { width: 400, height: 200 }
+    }))
+
+    expect(result.openGraph.missing).toEqual(['og:description', 'og:url'])
+    expect(result.score).toBeLessThan(60)
+    expect(result.issues).toContain('The title is 4 characters; 30-60 shows in full in search results.')
+    expect(result.issues).toContain('The page has 2 H1 headings; use exactly one.')
+    expect(result.issues).toContain('The share image is 400x200px, below the 600x315px minimum for large link previews.')
+    expect(result.recommendations.length).toBeGreaterThanOrEqual(8)
+  })
+
+  test('should score noindex pages hardest', () => {
+    const result = scoreSeo(seo({ robots: ['noindex', 'nofollow'] }))
+
+    expect(result.robots).toEqual({ directives: ['noindex', 'nofollow'], noindex: true, nofollow: true })
+    expect(result.score).toBe(80)
+    expect(result.issues[0]).toContain('noindex')
+  })
+
+  test('should flag a canonical pointing at another page', () => {
+    const result = scoreSeo(seo({ canonical: 'https://invoicely.com/pricing' }))
+
+    expect(result.canonical.matchesPage).toBe(false)
+    expect(result.issues).toContain('The canonical URL points to a different page (https://invoicely.com/pricing), so this page won\'t be indexed itself.')
+  })
+
+  test('should check hreflang codes and the x-default fallback', () => {
+    const result = scoreSeo(seo({
+      hreflang: [
+        { lang: 'en-GB', href: 'https://invoicely.com/uk' },
+        { lang: 'english', href: 'https://invoicely.com/' },
+        { lang: 'de', href: '/de' }
+      ]
+    }))
+
+    expect(result.hreflang.invalid).toEqual(['english', 'de'])
+    expect(result.hreflang.hasXDefault).toBe(false)
+    expect(result.issues).toContain('hreflang alternates have no x-default fallback.')
+  })
+})
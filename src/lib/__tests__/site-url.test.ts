@@ -0,0 +1,43 @@
+import { getSiteUrl } from '../site-url';
+
+describe('getSiteUrl', () => {
+  const originalEnv = { ...process.env };
+
+  const setEnv = (env: Record<string, string | undefined>) => {
+    for (const [name, value] of Object.entries(env)) {
+      if (value === undefined) {
+        delete process.env[name];
+      } else {
+        Object.defineProperty(process.env, name, { value, writable: true, enumerable: true, configurable: true });
+      }
+    }
+  };
+
+  beforeEach(() => {
+    setEnv({ NEXT_PUBLIC_APP_URL: undefined, VERCEL_PROJECT_PRODUCTION_URL: undefined, VERCEL_URL: undefined });
+  });
+
+  afterAll(() => {
+    process.env = originalEnv;
+  });
+
+  it('should use the configured app URL without a trailing slash', () => {
+    setEnv({ NODE_ENV: 'production', NEXT_PUBLIC_APP_URL: 'https://reports.example.com/' });
+
+    expect(getSiteUrl()).toBe('https://reports.example.com');
+  });
+
+  it('should use the production domain rather than the deployment host on Vercel', () => {
+    setEnv({ NODE_ENV: 'production', VERCEL_PROJECT_PRODUCTION_URL: 'app.example.com', VERCEL_URL: 'app-git-abc123.vercel.app' });
+
+    expect(getSiteUrl()).toBe('https://app.example.com');
+  });
+
+  it('should fall back to the production app and to localhost in development', () => {
+    setEnv({ NODE_ENV: 'production', VERCEL_URL: 'app-git-abc123.vercel.app' });
+    expect(getSiteUrl()).toBe('https://app.lansky.tech');
+
+    setEnv({ NODE_ENV: 'test' });
+    expect(getSiteUrl()).toBe('http://localhost:3000');
+  });
+});
@@ -0,0 +1,118 @@
+import { buildTestPlanFields, estimateSampleSize, toTestBrief, toTestPlan } from '../test-plans';
+import type { TrackedRecommendation } from '@/types/database';
+
+describe('buildTestPlanFields', () => {
+  it('should ground the hypothesis and control in what the analysis detected', () => {
+    const fields = buildTestPlanFields(
+      {
+        category: 'cta',
+        title: 'Add a prominent primary CTA button.',
+        description: 'Add a prominent primary CTA button. Visitors need a clear next step to convert.',
+        affectedArea: 'hero section'
+      },
+      { ctas: [{ text: 'Learn more', isAboveFold: false }, { text: 'Contact', isAboveFold: true }], primaryCTA: null }
+    );
+
+    expect(fields.test_hypothesis).toBe(
+      'Acting on "Add a prominent primary CTA button" will increase conversion rate by at least 15%, because the page currently has no primary CTA and 2 CTAs (1 above the fold).'
+    );
+    expect(fields.suggested_variants).toEqual([
+      { name: 'Control', description: 'Keep the hero section as it is: no primary CTA and 2 CTAs (1 above the fold).' },
+      { name: 'Variant', description: 'Add a prominent primary CTA button. Visitors need a clear next step to convert.' }
+    ]);
+    expect(fields.success_metrics).toEqual(['Conversion rate', 'CTA click-through rate', 'Scroll depth']);
+    expect(fields.estimated_lift_percentage).toBe(15);
+  });
+
+  it('should leave out details the result does not have', () => {
+    const fields = buildTestPlanFields(
+      { category: 'speed', title: 'Reduce LCP.', description: 'Reduce LCP. Compress the hero image.', affectedArea: null },
+      { score: 0, metrics: { loadTime: 0, speedDescription: 'Unable to measure' } }
+    );
+
+    expect(fields.test_hypothesis).toBe('Acting on "Reduce LCP" will increase conversion rate by at least 8%.');
+    expect(fields.suggested_variants[0].description).toBe('Keep the page as it is.');
+  });
+});
+
+describe('estimateSampleSize', () => {
+  it('should size a two-variant test at 95% significance and 80% power', () => {
+    expect(estimateSampleSize(0.1, 10)).toEqual({
+      baselineRate: 0.1,
+      targetRate: 0.11,
+      visitorsPerVariant: 14751,
+      totalVisitors: 29502,
+      estimatedDays: null
+    });
+  });
+
+  it('should need more visitors for smaller lifts and estimate the duration from daily traffic', () => {
+    const large = estimateSampleSize(0.03, 15, 1000);
+    const small = estimateSampleSize(0.03, 10, 1000);
+
+    expect(large.visitorsPerVariant).toBe(24193);
+    expect(large.estimatedDays).toBe(49);
+    expect(small.visitorsPerVariant).toBeGreaterThan(large.visitorsPerVariant);
+  });
+});
+
+describe('test plans and briefs', () => {
+  const recommendation: TrackedRecommendation = {
+    id: 'rec-1',
+    analysis_id: 'analysis-1',
+    recommendation_key: 'cta-no-primary',
+    category: 'cta',
+    priority: 1,
+    title: 'Add a prominent primary CTA button.',
+    description: 'Add a prominent primary CTA button. Visitors need a clear next step to convert.',
+    expected_impact: 'high',
+    affected_area: 'hero section',
+    status: 'planned',
+    implementation_notes: null,
+    test_hypothesis: 'Acting on "Add a prominent primary CTA button" will increase conversion rate by at least 15%.',
+    suggested_variants: [
+      { name: 'Control', description: 'Keep the hero section as it is: no primary CTA.' },
+      { name: 'Variant', description: 'Add a prominent primary CTA button.' }
+    ],
+    success_metrics: ['Conversion rate', 'CTA click-through rate'],
+    estimated_lift_percentage: 15,
+    created_at: '2026-10-01T12:00:00Z',
+    updated_at: '2026-10-01T12:00:00Z'
+  };
+
+  it('should only build plans for recommendations that have one', () => {
+    expect(toTestPlan({ ...recommendation, expected_impact: 'medium', test_hypothesis: null })).toBeNull();
+
+    expect(toTestPlan(recommendation)).toMatchObject({
+      recommendationId: 'rec-1',
+      control: 'Keep the hero section as it is: no primary CTA.',
+      variant: 'Add a prominent primary CTA button.',
+      primaryMetric: 'Conversion rate',
+      secondaryMetrics: ['CTA click-through rate'],
+      sampleSize: null
+    });
+  });
+
+  it('should write a brief with every plan and its sample size', () => {
+    const plan = toTestPlan(recommendation, { baselineRate: 0.03, dailyVisitors: 1000 })!;
+    const brief = toTestBrief([plan], {
+      url: 'https://example.com/',
+      analyzedAt: '2026-10-01T12:00:00Z',
+      baselineRate: 0.03,
+      dailyVisitors: 1000
+    });
+
+    expect(brief).toContain('# A/B Test Brief: https://example.com/');
+    expect(brief).toContain('baseline conversion rate of 3% and 1,000 visitors a day');
+    expect(brief).toContain('## 1. Add a prominent primary CTA button.');
+    expect(brief).toContain('- **Control:** Keep the hero section as it is: no primary CTA.');
+    expect(brief).toContain('- **Sample size:** 24,193 visitors per variant (48,386 total) to detect 3% → 3.45%, about 49 days at current traffic');
+  });
+
+  it('should ask for a baseline when sample sizes cannot be estimated', () => {
+    const brief = toTestBrief([], { url: 'https://example.com/', analyzedAt: '2026-10-01T12:00:00Z' });
+
+    expect(brief).toContain('Add a baseline conversion rate');
+    expect(brief).toContain('no high-impact recommendations');
+  });
+});
@@ -0,0 +1,120 @@
+import { analyzeValueProposition, scoreValueProposition } from '../value-proposition-analysis'
+
+jest.mock('../puppeteer-config', () => ({
+  createPuppeteerBrowser: jest.fn(),
+}));
+
+const { createPuppeteerBrowser } = require('../puppeteer-config');
+
+const mockPage = {
+  goto: jest.fn(),
+  setContent: jest.fn(),
+  setViewport: jest.fn(),
+  evaluate: jest.fn(),
+};
+
+const mockBrowser = {
+  newPage: jest.fn().mockResolvedValue(mockPage),
+  close: jest.fn(),
+};
+
+describe('Value Proposition Analysis', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    createPuppeteerBrowser.mockResolvedValue(mockBrowser);
+    mockPage.evaluate.mockResolvedValue({
+      headline: 'Cut your support tickets in half in 30 days',
+      subheadline: 'The only help desk that answers repeat questions for you, so you can focus on customers.',
+      firstParagraph: null,
+      headlineAboveFold: true
+    });
+  });
+
+  test('should extract hero copy from a URL and close its own browser', async () => {
+    const result = await analyzeValueProposition('https://example.com')
+
+    expect(mockPage.goto).toHaveBeenCalledWith('https://example.com', expect.any(Object))
+    expect(mockBrowser.close).toHaveBeenCalled()
+    expect(result.headline).toBe('Cut your support tickets in half in 30 days')
+    expect(result.score).toBeGreaterThanOrEqual(0)
+    expect(result.score).toBeLessThanOrEqual(100)
+  })
+
+  test('should analyze raw HTML and leave a provided browser open', async () => {
+    await analyzeValueProposition('<h1>Hello</h1>', {
+      isHtml: true,
+      puppeteer: { browser: mockBrowser as any }
+    })
+
+    expect(mockPage.setContent).toHaveBeenCalledWith('<h1>Hello</h1>')
+    expect(mockPage.goto).not.toHaveBeenCalled()
+    expect(createPuppeteerBrowser).not.toHaveBeenCalled()
+    expect(mockBrowser.close).not.toHaveBeenCalled()
+  })
+
+  test('should score a specific, benefit-led, differentiated hero highly', async () => {
+    const result = await analyzeValueProposition('https://example.com')
+
+    expect(result.headlineClarityScore).toBe(100)
+    expect(result.benefitPhrases).toEqual(expect.arrayContaining(['cut', 'so you can']))
+    expect(result.benefitVsFeatureRatio).toBe(1)
+    expect(result.uniqueValuePropositionDetected).toBe(true)
+    expect(result.specificityScore).toBeGreaterThanOrEqual(70)
+    expect(result.score).toBeGreaterThanOrEqual(85)
+  })
+})
+
+describe('scoreValueProposition', () => {
+  test('should score a page without a headline as 0', () => {
+    const result = scoreValueProposition({
+      headline: null,
+      subheadline: null,
+      firstParagraph: 'Some text further down the page about our company.',
+      headlineAboveFold: false
+    })
+
+    expect(result.score).toBe(0)
+    expect(result.issues[0]).toContain('No hero headline')
+    expect(result.recommendations.length).toBeGreaterThan(0)
+  })
+
+  test('should penalize generic headlines', () => {
+    const result = scoreValueProposition({
+      headline: 'Welcome!',
+      subheadline: null,
+      firstParagraph: null,
+      headlineAboveFold: true
+    })
+
+    expect(result.headlineClarityScore).toBeLessThanOrEqual(40)
+    expect(result.issues.some(issue => issue.includes('generic'))).toBe(true)
+  })
+
+  test('should flag feature-heavy copy and buzzwords', () => {
+    const result = scoreValueProposition({
+      headline: 'The innovative AI-powered analytics platform',
+      subheadline: 'Built-in integrations, a customizable dashboard and a robust API.',
+      firstParagraph: null,
+      headlineAboveFold: true
+    }, 'https://example.com')
+
+    expect(result.featurePhrases.length).toBeGreaterThan(result.benefitPhrases.length)
+    expect(result.benefitVsFeatureRatio).toBeLessThan(0.5)
+    expect(result.vaguePhrases).toEqual(expect.arrayContaining(['innovative', 'robust']))
+    expect(result.issues).toContain('Hero copy focuses on features rather than benefits to the visitor.')
+    expect(result.recommendations.some(rec => /benefit/i.test(rec))).toBe(true)
+  })
+
+  test('should penalize long headlines and estimate reading time', () => {
+    const headline = 'We help small and medium sized businesses everywhere manage their finances, payroll, invoices and taxes in one place'
+    const result = scoreValueProposition({
+      headline,
+      subheadline: null,
+      firstParagraph: null,
+      headlineAboveFold: true
+    })
+
+    expect(result.headlineClarityScore).toBeLessThan(100)
+    expect(result.timeToComprehensionMs).toBe(Math.round((headline.split(' ').length / 4) * 1000))
+  })
+})
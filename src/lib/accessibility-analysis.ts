@@ -0,0 +1,500 @@
+import type { Browser, Viewport } from 'puppeteer-core';
+import { createPuppeteerBrowser } from './puppeteer-config';
+import {
+  ACCESSIBILITY_DICTIONARY,
+  MIN_CONTRAST_RATIO,
+  MIN_LARGE_TEXT_CONTRAST_RATIO,
+  LARGE_TEXT_PX,
+  LARGE_BOLD_TEXT_PX,
+  MAX_CONTRAST_SAMPLES
+} from './accessibility-dictionary';
+import { getAccessibilityRecommendations, RecommendationContext } from './recommendations';
+
+type LandmarkName = keyof typeof ACCESSIBILITY_DICTIONARY.LANDMARKS;
+
+/**
+ * A visible text element with its computed colors
+ */
+export interface TextSample {
+  text: string;
+  color: string;
+  /** Background colors from the element up to the first opaque one; null when a background image is in the way */
+  backgrounds: string[] | null;
+  fontSize: number;
+  fontWeight: number;
+}
+
+/**
+ * Raw accessibility data extracted from the page
+ */
+export interface ExtractedAccessibility {
+  lang: string | null;
+  textSamples: TextSample[];
+  headingLevels: number[];
+  landmarks: Record<LandmarkName, boolean>;
+  formFields: Array<{ descriptor: string; labelled: boolean }>;
+  /** Text of click targets that can't be reached with the keyboard */
+  unfocusableControls: string[];
+  /** Accessible name of each visible link */
+  linkNames: string[];
+  images: { total: number; missingAlt: number };
+}
+
+export interface ContrastFailure {
+  text: string;
+  ratio: number;
+  required: number;
+  color: string;
+  background: string;
+}
+
+export interface AccessibilityResult {
+  score: number;
+  lang: string | null;
+  contrast: {
+    checked: number;
+    failing: number;
+    examples: ContrastFailure[];
+  };
+  headings: {
+    levels: number[];
+    hasH1: boolean;
+    skippedLevels: string[]; // e.g. "h2 → h4"
+  };
+  landmarks: Record<LandmarkName, boolean>;
+  formLabels: {
+    total: number;
+    unlabeled: number;
+    examples: string[];
+  };
+  focusability: {
+    unfocusable: number;
+    examples: string[];
+  };
+  linkText: {
+    total: number;
+    generic: number;
+    empty: number;
+    examples: string[];
+  };
+  images: { total: number; missingAlt: number };
+  issues: string[];
+  recommendations: string[];
+  recommendationIds?: Record<string, string>;
+}
+
+interface AccessibilityOptions {
+  viewport?: Viewport;
+  isHtml?: boolean; // Flag to indicate if input is HTML instead of URL
+  puppeteer?: {
+    browser?: Browser;
+    forceBrowserless?: boolean;
+  };
+}
+
+type Rgba = [number, number, number, number];
+
+export async function analyzeAccessibility(
+  urlOrHtml: string,
+  options: AccessibilityOptions = {}
+): Promise<AccessibilityResult> {
+  console.log('♿ Accessibility analysis starting...');
+
+  const providedBrowser = options.puppeteer?.browser;
+  const shouldCloseBrowser = !providedBrowser;
+  let browser: Browser | null = providedBrowser || null;
+
+  try {
+    const viewport = options.viewport || { width: 1920, height: 1080 };
+
+    if (!browser) {
+      console.log('📱 Launching Puppeteer browser...');
+      browser = await createPuppeteerBrowser({
+        forceBrowserless: options.puppeteer?.forceBrowserless
+      });
+    }
+
+    const page = await browser.newPage();
+    await page.setViewport(viewport);
+
+    if (options.isHtml) {
+      console.log('📄 Setting HTML content directly...');
+      await page.setContent(urlOrHtml);
+    } else {
+      console.log('🌐 Navigating to URL...');
+      await page.goto(urlOrHtml, {
+        waitUntil: 'domcontentloaded',
+        timeout: 60000
+      });
+    }
+
+    console.log('🔍 Auditing page accessibility...');
+    const data: ExtractedAccessibility = await page.evaluate((landmarkSelectors: Record<string, string>, maxSamples: number) => {
+      const getText = (element: Element): string => (element.textContent || '').replace(/\s+/g, ' ').trim();
+
+      const isVisible = (element: Element): boolean => {
+        const style = window.getComputedStyle(element);
+        const rect = element.getBoundingClientRect();
+        return style.display !== 'none' &&
+          style.visibility !== 'hidden' &&
+          rect.width > 0 &&
+          rect.height > 0 &&
+          element.closest('[aria-hidden="true"]') === null;
+      };
+
+      const describeElement = (element: Element): string =>
+        (getText(element) || element.getAttribute('aria-label') || element.tagName.toLowerCase()).slice(0, 60);
+
+      // Text samples: elements with their own text, plus the backgrounds behind them
+      const textSamples: TextSample[] = [];
+      for (const element of Array.from(document.body.querySelectorAll('*'))) {
+        if (textSamples.length >= maxSamples) break;
+        if (['SCRIPT', 'STYLE', 'NOSCRIPT', 'SVG'].includes(element.tagName.toUpperCase())) continue;
+        const ownText = Array.from(element.childNodes)
+          .filter(node => node.nodeType === Node.TEXT_NODE)
+          .map(node => node.textContent || '')
+          .join(' ')
+          .replace(/\s+/g, ' ')
+          .trim();
+        if (ownText.length < 2 || !isVisible(element)) continue;
+
+        const style = window.getComputedStyle(element);
+        let backgrounds: string[] | null = [];
+        for (let current: Element | null = element; current; current = current.parentElement) {
+          const currentStyle = window.getComputedStyle(current);
+          if (currentStyle.backgroundImage && currentStyle.backgroundImage !== 'none') {
+            backgrounds = null;
+            break;
+          }
+          const background = currentStyle.backgroundColor;
+          if (background && background !== 'transparent' && background !== 'rgba(0, 0, 0, 0)') {
+            backgrounds.push(background);
+            if (!/rgba|\/\s*0?\.\d/.test(background)) break;
+          }
+        }
+
+        textSamples.push({
+          text: ownText.slice(0, 60),
+          color: style.color,
+          backgrounds,
+          fontSize: parseFloat(style.fontSize) || 16,
+          fontWeight: parseInt(style.fontWeight, 10) || 400
+        });
+      }
+
+      const headingLevels = Array.from(document.querySelectorAll('h1, h2, h3, h4, h5, h6, [role="heading"]'))
+        .filter(isVisible)
+        .map(heading => {
+          const ariaLevel = parseInt(heading.getAttribute('aria-level') || '', 10);
+          if (ariaLevel) return ariaLevel;
+          const match = heading.tagName.match(/^H([1-6])$/i);
+          return match ? parseInt(match[1], 10) : 2;
+        });
+
+      const landmarks: Record<string, boolean> = {};
+      for (const [name, selector] of Object.entries(landmarkSelectors)) {
+        landmarks[name] = document.querySelector(selector) !== null;
+      }
+
+      const hasLabelText = (element: Element): boolean => {
+        if ((element.getAttribute('aria-label') || '').trim()) return true;
+        const labelledBy = element.getAttribute('aria-labelledby');
+        if (labelledBy && labelledBy.split(/\s+/).some(id => getText(document.getElementById(id) || document.createElement('span')))) return true;
+        const labels = (element as HTMLInputElement).labels;
+        if (labels && Array.from(labels).some(label => getText(label))) return true;
+        return Boolean((element.getAttribute('title') || '').trim());
+      };
+
+      const formFields = Array.from(document.querySelectorAll(
+        'input:not([type="hidden"]):not([type="submit"]):not([type="button"]):not([type="image"]):not([type="reset"]), select, textarea'
+      ))
+        .filter(isVisible)
+        .map(field => ({
+          descriptor: field.getAttribute('name') || field.getAttribute('id') || field.getAttribute('placeholder') || field.tagName.toLowerCase(),
+          labelled: hasLabelText(field)
+        }));
+
+      // Click targets that keyboard users can't tab to
+      const focusableSelector = 'a[href], button:not([disabled]), input:not([disabled]):not([type="hidden"]), select:not([disabled]), textarea:not([disabled]), summary';
+      const isFocusable = (element: Element): boolean => {
+        const tabindex = element.getAttribute('tabindex');
+        if (tabindex !== null) return parseInt(tabindex, 10) >= 0;
+        return element.matches(focusableSelector);
+      };
+      const unfocusableControls = Array.from(document.querySelectorAll(
+        '[onclick], [role="button"], [role="link"], a:not([href]), [class*="btn" i], [class*="button" i], a[href][tabindex], button[tabindex]'
+      ))
+        .filter(element =>
+          isVisible(element) &&
+          getText(element) &&
+          !isFocusable(element) &&
+          // Wrappers around a real control, and labels inside one, are fine
+          element.querySelector(focusableSelector) === null &&
+          (element.parentElement?.closest(focusableSelector) ?? null) === null
+        )
+        .map(describeElement);
+
+      const linkNames = Array.from(document.querySelectorAll('a[href]'))
+        .filter(isVisible)
+        .map(link => {
+          const imageAlt = Array.from(link.querySelectorAll('img[alt]')).map(img => img.getAttribute('alt') || '').join(' ');
+          return (link.getAttribute('aria-label') || getText(link) || imageAlt || link.getAttribute('title') || '').trim();
+        });
+
+      const images = Array.from(document.querySelectorAll('img')).filter(isVisible);
+
+      return {
+        lang: document.documentElement.getAttribute('lang'),
+        textSamples,
+        headingLevels,
+        landmarks: landmarks as ExtractedAccessibility['landmarks'],
+        formFields,
+        unfocusableControls,
+        linkNames,
+        images: {
+          total: images.length,
+          // alt="" marks an image as decorative, so only a missing attribute counts
+          missingAlt: images.filter(img => !img.hasAttribute('alt')).length
+        }
+      };
+    }, ACCESSIBILITY_DICTIONARY.LANDMARKS, MAX_CONTRAST_SAMPLES);
+
+    console.log(`📝 ${data.textSamples.length} text elements, ${data.formFields.length} form fields and ${data.linkNames.length} links checked`);
+
+    const result = scoreAccessibility(data, options.isHtml ? undefined : urlOrHtml);
+    console.log(`💯 Accessibility score: ${result.score}/100`);
+    return result;
+  } finally {
+    if (shouldCloseBrowser && browser) {
+      console.log('🔒 Closing browser...');
+      await browser.close();
+    }
+    console.log('✨ Accessibility analysis complete!');
+  }
+}
+
+/**
+ * Parse a computed CSS color (rgb/rgba, comma or space separated)
+ */
+export function parseColor(color: string): Rgba | null {
+  const match = color.match(/^rgba?\(([^)]+)\)$/i);
+  if (!match) return null;
+  const parts = match[1].split(/[\s,/]+/).filter(Boolean).map(part =>
+    part.endsWith('%') ? parseFloat(part) / 100 : parseFloat(part)
+  );
+  if (parts.length < 3 || parts.some(Number.isNaN)) return null;
+  return [parts[0], parts[1], parts[2], parts[3] ?? 1];
+}
+
+function blend(top: Rgba, bottom: Rgba): Rgba {
+  const alpha = top[3];
+  return [
+    top[0] * alpha + bottom[0] * (1 - alpha),
+    top[1] * alpha + bottom[1] * (1 - alpha),
+    top[2] * alpha + bottom[2] * (1 - alpha),
+    1
+  ];
+}
+
+function relativeLuminance([r, g, b]: Rgba): number {
+  const channel = (value: number) => {
+    const srgb = value / 255;
+    return srgb <= 0.03928 ? srgb / 12.92 : ((srgb + 0.055) / 1.055) ** 2.4;
+  };
+  return 0.2126 * channel(r) + 0.7152 * channel(g) + 0.0722 * channel(b);
+}
+
+/**
+ * WCAG contrast ratio between two opaque colors, from 1 to 21
+ */
+export function getContrastRatio(foreground: Rgba, background: Rgba): number {
+  const lighter = Math.max(relativeLuminance(foreground), relativeLuminance(background));
+  const darker = Math.min(relativeLuminance(foreground), relativeLuminance(background));
+  return (lighter + 0.05) / (darker + 0.05);
+}
+
+function checkContrast(sample: TextSample): ContrastFailure | null | undefined {
+  const foreground = parseColor(sample.color);
+  if (!foreground || !sample.backgrounds) return undefined;
+
+  // Layer the backgrounds over the white canvas, bottom layer first
+  let background: Rgba = [255, 255, 255, 1];
+  for (const layer of [...sample.backgrounds].reverse()) {
+    const parsed = parseColor(layer);
+    if (!parsed) return undefined;
+    background = blend(parsed, background);
+  }
+
+  const ratio = getContrastRatio(blend(foreground, background), background);
+  const isLargeText = sample.fontSize >= LARGE_TEXT_PX || (sample.fontSize >= LARGE_BOLD_TEXT_PX && sample.fontWeight >= 700);
+  const required = isLargeText ? MIN_LARGE_TEXT_CONTRAST_RATIO : MIN_CONTRAST_RATIO;
+
+  if (ratio >= required) return null;
+  return {
+    text: sample.text,
+    ratio: round(ratio, 2),
+    required,
+    color: sample.color,
+    background: `rgb(${background.slice(0, 3).map(Math.round).join(', ')})`
+  };
+}
+
+/**
+ * Score extracted accessibility data: contrast, heading order, landmarks,
+ * form labels, keyboard focus, link text, alt text and page language
+ */
+export function scoreAccessibility(data: ExtractedAccessibility, url?: string): AccessibilityResult {
+  const contrastResults = data.textSamples.map(checkContrast).filter(result => result !== undefined);
+  const contrastFailures = contrastResults.filter((result): result is ContrastFailure => result !== null);
+
+  const skippedLevels: string[] = [];
+  data.headingLevels.forEach((level, index) => {
+    const previous = data.headingLevels[index - 1];
+    if (previous !== undefined && level > previous + 1) {
+      skippedLevels.push(`h${previous} → h${level}`);
+    }
+  });
+  const hasH1 = data.headingLevels.includes(1);
+
+  const missingLandmarks = (Object.keys(data.landmarks) as LandmarkName[]).filter(name => !data.landmarks[name]);
+  const unlabeledFields = data.formFields.filter(field => !field.labelled);
+
+  const genericLinkText = ACCESSIBILITY_DICTIONARY.GENERIC_LINK_TEXT as readonly string[];
+  const normalizeLinkName = (name: string) => name.toLowerCase().replace(/[^a-z ]/g, '').replace(/\s+/g, ' ').trim();
+  const emptyLinks = data.linkNames.filter(name => !name);
+  const genericLinks = data.linkNames.filter(name => name && genericLinkText.includes(normalizeLinkName(name)));
+
+  const langValid = Boolean(data.lang && /^[a-z]{2,3}(-[a-z0-9]+)*$/i.test(data.lang.trim()));
+
+  // Each check scores 0-100; form labels only count when the page has fields
+  const checks: Array<{ score: number; weight: number }> = [
+    {
+      score: contrastResults.length > 0 ? Math.max(0, 100 - (contrastFailures.length / contrastResults.length) * 200) : 100,
+      weight: 0.25
+    },
+    { score: Math.max(0, 100 - skippedLevels.length * 25 - (hasH1 ? 0 : 30)), weight: 0.1 },
+    {
+      score: (data.landmarks.main ? 40 : 0) + (data.landmarks.navigation ? 20 : 0) +
+        (data.landmarks.banner ? 20 : 0) + (data.landmarks.contentinfo ? 20 : 0),
+      weight: 0.1
+    },
+    { score: Math.max(0, 100 - data.unfocusableControls.length * 25), weight: 0.15 },
+    {
+      score: data.linkNames.length > 0
+        ? Math.max(0, 100 - ((genericLinks.length + emptyLinks.length) / data.linkNames.length) * 200)
+        : 100,
+      weight: 0.1
+    },
+    { score: data.images.total > 0 ? ((data.images.total - data.images.missingAlt) / data.images.total) * 100 : 100, weight: 0.1 },
+    { score: langValid ? 100 : 0, weight: 0.05 }
+  ];
+  if (data.formFields.length > 0) {
+    checks.push({ score: ((data.formFields.length - unlabeledFields.length) / data.formFields.length) * 100, weight: 0.15 });
+  }
+
+  const totalWeight = checks.reduce((sum, check) => sum + check.weight, 0);
+  const score = Math.round(checks.reduce((sum, check) => sum + check.score * check.weight, 0) / totalWeight);
+
+  const ctx: RecommendationContext = {
+    url,
+    contrastCheckedCount: contrastResults.length,
+    contrastFailureCount: contrastFailures.length,
+    headingSkips: skippedLevels,
+    hasH1,
+    missingLandmarks,
+    unlabeledFieldCount: unlabeledFields.length,
+    unfocusableControlCount: data.unfocusableControls.length,
+    genericLinkCount: genericLinks.length,
+    genericLinkExamples: Array.from(new Set(genericLinks)).slice(0, 3),
+    emptyLinkCount: emptyLinks.length,
+    imagesWithoutAlt: data.images.missingAlt,
+    hasLangAttribute: langValid
+  };
+
+  const generated = getAccessibilityRecommendations(ctx);
+  return {
+    score,
+    lang: data.lang,
+    contrast: {
+      checked: contrastResults.length,
+      failing: contrastFailures.length,
+      examples: contrastFailures.slice(0, 5)
+    },
+    headings: {
+      levels: data.headingLevels,
+      hasH1,
+      skippedLevels
+    },
+    landmarks: data.landmarks,
+    formLabels: {
+      total: data.formFields.length,
+      unlabeled: unlabeledFields.length,
+      examples: unlabeledFields.slice(0, 5).map(field => field.descriptor)
+    },
+    focusability: {
+      unfocusable: data.unfocusableControls.length,
+      examples: data.unfocusableControls.slice(0, 5)
+    },
+    linkText: {
+      total: data.linkNames.length,
+      generic: genericLinks.length,
+      empty: emptyLinks.length,
+      examples: Array.from(new Set(genericLinks)).slice(0, 5)
+    },
+    images: data.images,
+    issues: generateIssues(ctx),
+    recommendations: generated.legacyStrings,
+    recommendationIds: generated.recommendationIds
+  };
+}
+
+function round(value: number, decimals: number): number {
+  const factor = 10 ** decimals;
+  return Math.round(value * factor) / factor;
+}
+
+function generateIssues(ctx: RecommendationContext): string[] {
+  const issues: string[] = [];
+  const count = (value: number, word: string) => `${value} ${word}${value === 1 ? '' : 's'}`;
+
+  if ((ctx.contrastFailureCount || 0) > 0) {
+    issues.push(`${count(ctx.contrastFailureCount || 0, 'text element')} of ${ctx.contrastCheckedCount} fail WCAG AA contrast against their background.`);
+  }
+
+  if ((ctx.unlabeledFieldCount || 0) > 0) {
+    issues.push(`${count(ctx.unlabeledFieldCount || 0, 'form field')} ha${ctx.unlabeledFieldCount === 1 ? 's' : 've'} no label that screen readers can announce.`);
+  }
+
+  if ((ctx.unfocusableControlCount || 0) > 0) {
+    issues.push(`${count(ctx.unfocusableControlCount || 0, 'clickable element')} can't be reached with the keyboard.`);
+  }
+
+  if (!ctx.hasLangAttribute) {
+    issues.push('The page has no valid lang attribute, so screen readers may use the wrong pronunciation.');
+  }
+
+  if (!ctx.hasH1) {
+    issues.push('The page has no h1 heading.');
+  }
+
+  if ((ctx.headingSkips || []).length > 0) {
+    issues.push(`Heading levels skip (${(ctx.headingSkips || []).join(', ')}), which breaks the page outline for screen readers.`);
+  }
+
+  if ((ctx.missingLandmarks || []).length > 0) {
+    issues.push(`Missing landmark regions: ${(ctx.missingLandmarks || []).join(', ')}.`);
+  }
+
+  if ((ctx.genericLinkCount || 0) > 0 || (ctx.emptyLinkCount || 0) > 0) {
+    const problems = [];
+    if (ctx.genericLinkCount) problems.push(`${count(ctx.genericLinkCount, 'link')} with generic text like "${(ctx.genericLinkExamples || [])[0]}"`);
+    if (ctx.emptyLinkCount) problems.push(`${count(ctx.emptyLinkCount, 'link')} with no text at all`);
+    issues.push(`Link text doesn't describe the destination: ${problems.join(' and ')}.`);
+  }
+
+  if ((ctx.imagesWithoutAlt || 0) > 0) {
+    issues.push(`${count(ctx.imagesWithoutAlt || 0, 'image')} ha${ctx.imagesWithoutAlt === 1 ? 's' : 've'} no alt attribute.`);
+  }
+
+  return issues;
+}
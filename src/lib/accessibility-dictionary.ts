@@ -0,0 +1,35 @@
+/**
+ * Accessibility Dictionary - thresholds and phrase lists for the
+ * accessibility audit. Contrast thresholds follow WCAG 2.1 level AA.
+ */
+
+export const ACCESSIBILITY_DICTIONARY = {
+  // Link text that says nothing about where the link goes
+  GENERIC_LINK_TEXT: [
+    'click here', 'click', 'here', 'read more', 'learn more', 'more', 'more info',
+    'more information', 'details', 'link', 'this link', 'go', 'continue', 'see more'
+  ],
+
+  // Landmark regions, with the elements that provide each one implicitly
+  LANDMARKS: {
+    main: 'main, [role="main"]',
+    navigation: 'nav, [role="navigation"]',
+    banner: 'header, [role="banner"]',
+    contentinfo: 'footer, [role="contentinfo"]'
+  }
+} as const;
+
+/** Minimum contrast ratio for normal text */
+export const MIN_CONTRAST_RATIO = 4.5;
+
+/** Minimum contrast ratio for large text */
+export const MIN_LARGE_TEXT_CONTRAST_RATIO = 3;
+
+/** Text at least this size (px) counts as large */
+export const LARGE_TEXT_PX = 24;
+
+/** Bold text at least this size (px) counts as large */
+export const LARGE_BOLD_TEXT_PX = 18.66;
+
+/** Most text elements sampled for contrast */
+export const MAX_CONTRAST_SAMPLES = 150;
@@ -0,0 +1,247 @@
+import { supabaseAdmin } from '@/lib/supabase';
+import { ANALYZER_COLUMNS, getAnalyzersInDisplayOrder, mapAnalyzerColumns } from '@/lib/analyzers/definitions';
+import type { AnalysisChanges, ModuleChange, SocialProofChange } from '@/types/database';
+
+/** Score drop (or rise) beyond which a module counts as a regression (or improvement) */
+export const REGRESSION_MARGIN = 5;
+
+/** Most CTA texts and social proof elements listed per direction */
+const MAX_LISTED_CHANGES = 10;
+
+/** Social proof text is cut to this length; testimonials can be paragraphs */
+const MAX_ELEMENT_TEXT = 160;
+
+/**
+ * One scan of a page, with its results keyed by analyzer result key
+ */
+export interface ScannedAnalysis {
+  id: string;
+  createdAt: string;
+  overallScore: number | null;
+  results: Record<string, any>;
+}
+
+/**
+ * Issues are compared without their numbers, so "3 CTAs compete" and
+ * "4 CTAs compete" count as the same issue rather than one new and one resolved
+ */
+function normalizeIssue(issue: string): string {
+  return issue.toLowerCase().replace(/\d+(\.\d+)?/g, '#').trim();
+}
+
+function diffIssues(previous: string[], current: string[]): { newIssues: string[]; resolvedIssues: string[] } {
+  const previousKeys = new Set(previous.map(normalizeIssue));
+  const currentKeys = new Set(current.map(normalizeIssue));
+  return {
+    newIssues: current.filter(issue => !previousKeys.has(normalizeIssue(issue))),
+    resolvedIssues: previous.filter(issue => !currentKeys.has(normalizeIssue(issue)))
+  };
+}
+
+function getScore(results: Record<string, any>, resultKey: string): number | null {
+  const score = results[resultKey]?.score;
+  return typeof score === 'number' ? score : null;
+}
+
+function diffCTAs(previous: any, current: any): AnalysisChanges['cta'] {
+  if (!previous || !current) {
+    return null;
+  }
+  const texts = (result: any): string[] => Array.from(new Set<string>(
+    (result.ctas || []).map((cta: any) => String(cta.text || '').trim()).filter(Boolean)
+  ));
+  const previousTexts = texts(previous);
+  const currentTexts = texts(current);
+  const previousKeys = new Set(previousTexts.map(text => text.toLowerCase()));
+  const currentKeys = new Set(currentTexts.map(text => text.toLowerCase()));
+
+  return {
+    previousPrimary: previous.primaryCTA?.text || null,
+    newPrimary: current.primaryCTA?.text || null,
+    added: currentTexts.filter(text => !previousKeys.has(text.toLowerCase())).slice(0, MAX_LISTED_CHANGES),
+    removed: previousTexts.filter(text => !currentKeys.has(text.toLowerCase())).slice(0, MAX_LISTED_CHANGES)
+  };
+}
+
+function diffSocialProof(previous: any, current: any): AnalysisChanges['socialProof'] {
+  if (!previous || !current) {
+    return null;
+  }
+  const elements = (result: any): SocialProofChange[] =>
+    (result.elements || []).map((element: any) => ({ type: element.type, text: String(element.text || '').trim().slice(0, MAX_ELEMENT_TEXT) }));
+  const key = (element: SocialProofChange) => `${element.type}:${element.text.toLowerCase()}`;
+  const previousElements = elements(previous);
+  const currentElements = elements(current);
+  const previousKeys = new Set(previousElements.map(key));
+  const currentKeys = new Set(currentElements.map(key));
+
+  return {
+    added: currentElements.filter(element => !previousKeys.has(key(element))).slice(0, MAX_LISTED_CHANGES),
+    removed: previousElements.filter(element => !currentKeys.has(key(element))).slice(0, MAX_LISTED_CHANGES)
+  };
+}
+
+/**
+ * Compare a re-scan with the scan before it: overall and per-module score
+ * deltas, new and resolved issues, CTA text changes and social proof
+ * elements added or removed
+ */
+export function buildAnalysisChanges(previous: ScannedAnalysis, current: ScannedAnalysis): AnalysisChanges {
+  const modules: ModuleChange[] = [];
+  const regressions: string[] = [];
+  const improvements: string[] = [];
+
+  for (const analyzer of getAnalyzersInDisplayOrder()) {
+    const previousScore = getScore(previous.results, analyzer.resultKey);
+    const newScore = getScore(current.results, analyzer.resultKey);
+    if (previousScore === null && newScore === null) {
+      continue;
+    }
+
+    const scoreDelta = previousScore !== null && newScore !== null ? newScore - previousScore : null;
+    if (scoreDelta !== null && scoreDelta < -REGRESSION_MARGIN) {
+      regressions.push(analyzer.id);
+    } else if (scoreDelta !== null && scoreDelta > REGRESSION_MARGIN) {
+      improvements.push(analyzer.id);
+    }
+
+    modules.push({
+      analyzerId: analyzer.id,
+      name: analyzer.name,
+      previousScore,
+      newScore,
+      scoreDelta,
+      ...diffIssues(previous.results[analyzer.resultKey]?.issues || [], current.results[analyzer.resultKey]?.issues || [])
+    });
+  }
+
+  return {
+    parentAnalysisId: previous.id,
+    previousAnalyzedAt: previous.createdAt,
+    previousScore: previous.overallScore,
+    newScore: current.overallScore,
+    scoreDelta: previous.overallScore !== null && current.overallScore !== null
+      ? current.overallScore - previous.overallScore
+      : null,
+    modules,
+    regressions,
+    improvements,
+    cta: diffCTAs(previous.results.ctaAnalysis, current.results.ctaAnalysis),
+    socialProof: diffSocialProof(previous.results.socialProof, current.results.socialProof)
+  };
+}
+
+function toScannedAnalysis(row: Record<string, any>): ScannedAnalysis {
+  return {
+    id: row.id,
+    createdAt: row.created_at,
+    overallScore: row.overall_score ?? null,
+    results: mapAnalyzerColumns(row)
+  };
+}
+
+/**
+ * Whether a re-scan may be compared with its parent. An analysis made with
+ * credentials only shows changes against the same client's analysis made
+ * with credentials, and a public one against a public one.
+ */
+function canCompareWithParent(current: Record<string, any>, previous: Record<string, any>): boolean {
+  const requiresAuth = !!current.job_options?.requires_auth;
+  if (requiresAuth !== !!previous.job_options?.requires_auth) {
+    return false;
+  }
+  return !requiresAuth || current.user_id === previous.user_id;
+}
+
+/**
+ * Load an analysis and the one it re-scans and compare them. Returns null
+ * when the analysis has no completed parent it may be compared with.
+ */
+export async function loadAnalysisChanges(analysisId: string): Promise<AnalysisChanges | null> {
+  const columns = `id, created_at, overall_score, user_id, job_options, ${ANALYZER_COLUMNS}`;
+
+  const { data: current, error: currentError } = await supabaseAdmin
+    .from('analyses')
+    .select(`${columns}, parent_analysis_id`)
+    .eq('id', analysisId)
+    .single();
+
+  if (currentError || !current) {
+    console.error(`❌ Failed to load analysis ${analysisId}:`, currentError);
+    return null;
+  }
+
+  const parentId: string | null = (current as Record<string, any>).parent_analysis_id ?? null;
+  if (!parentId) {
+    return null;
+  }
+
+  const { data: previous, error: previousError } = await supabaseAdmin
+    .from('analyses')
+    .select(columns)
+    .eq('id', parentId)
+    .eq('status', 'completed')
+    .single();
+
+  if (previousError || !previous) {
+    console.error(`❌ Failed to load previous analysis ${parentId}:`, previousError);
+    return null;
+  }
+
+  if (!canCompareWithParent(current, previous)) {
+    console.warn(`⚠️ Analysis ${analysisId} can't be compared with ${parentId}: they belong to different clients`);
+    return null;
+  }
+
+  return buildAnalysisChanges(toScannedAnalysis(previous), toScannedAnalysis(current));
+}
+
+/**
+ * Record a finished re-scan's score deltas in analysis_history: one row per
+ * module plus one for the overall score
+ */
+export async function recordAnalysisChanges(analysisId: string, algorithmVersion: string): Promise<AnalysisChanges | null> {
+  const changes = await loadAnalysisChanges(analysisId);
+  if (!changes) {
+    return null;
+  }
+
+  const rows = [
+    {
+      analysis_id: analysisId,
+      algorithm_version: algorithmVersion,
+      module_name: 'overall',
+      previous_score: changes.previousScore,
+      new_score: changes.newScore,
+      changes_summary: {
+        parentAnalysisId: changes.parentAnalysisId,
+        scoreDelta: changes.scoreDelta,
+        regressions: changes.regressions,
+        improvements: changes.improvements
+      }
+    },
+    ...changes.modules.map(moduleChange => ({
+      analysis_id: analysisId,
+      algorithm_version: algorithmVersion,
+      module_name: moduleChange.analyzerId,
+      previous_score: moduleChange.previousScore,
+      new_score: moduleChange.newScore,
+      changes_summary: {
+        scoreDelta: moduleChange.scoreDelta,
+        newIssues: moduleChange.newIssues,
+        resolvedIssues: moduleChange.resolvedIssues,
+        ...(moduleChange.analyzerId === 'cta' && changes.cta ? { cta: changes.cta } : {}),
+        ...(moduleChange.analyzerId === 'socialProof' && changes.socialProof ? { socialProof: changes.socialProof } : {})
+      }
+    }))
+  ];
+
+  const { error } = await supabaseAdmin.from('analysis_history').insert(rows);
+  if (error) {
+    console.error(`❌ Failed to record changes for ${analysisId}:`, error);
+    return null;
+  }
+
+  console.log(`📈 Recorded changes since ${changes.parentAnalysisId}: ${changes.regressions.length} regressions, ${changes.improvements.length} improvements`);
+  return changes;
+}
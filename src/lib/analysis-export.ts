@@ -0,0 +1,367 @@
+import { supabaseAdmin } from '@/lib/supabase';
+import { ANALYZER_COLUMNS, getAnalyzersInDisplayOrder, mapAnalyzerColumns } from '@/lib/analyzers/definitions';
+import { getGrade, GRADES, type Grade } from '@/lib/grading';
+import type { AnalyzerId } from '@/lib/analyzers/types';
+
+/**
+ * Versioned export format for analyses. The stored results are raw JSONB
+ * whose shape differs between analyzers; exports flatten them into the same
+ * fields for every module. Bump EXPORT_FORMAT_VERSION when a field is
+ * renamed or removed; adding fields is backwards compatible.
+ */
+
+export const EXPORT_FORMAT_VERSION = '1.0';
+
+export type ExportFormat = 'json' | 'csv';
+
+export const EXPORT_FORMATS: ExportFormat[] = ['json', 'csv'];
+
+/** Most analyses in one bulk export */
+export const MAX_EXPORT_ROWS = 500;
+
+/** `analyses` columns an export is built from */
+export const EXPORT_COLUMNS = `id, url, url_title, overall_score, grade, industry_adjusted_score, scoring_weights, detected_industry, screenshot_url, created_at, ${ANALYZER_COLUMNS}`;
+
+export type ExportValue = string | number | boolean | null;
+
+export interface ExportedModule {
+  name: string;
+  score: number | null;
+  grade: Grade | null;
+  issueCount: number;
+  recommendationCount: number;
+  issues: string[];
+  recommendations: string[];
+  metrics: Record<string, ExportValue>;
+}
+
+export interface ExportedAnalysis {
+  exportVersion: string;
+  id: string;
+  url: string;
+  title: string | null;
+  analyzedAt: string;
+  overallScore: number | null;
+  grade: Grade | null;
+  industryAdjustedScore: number | null;
+  weightProfile: string | null;
+  detectedIndustry: string | null;
+  screenshotUrl: string | null;
+  /** Every analyzer, in display order; null when it did not run */
+  modules: Record<AnalyzerId, ExportedModule | null>;
+}
+
+const count = (items: unknown): number | null => (Array.isArray(items) ? items.length : null);
+
+// Key metrics exported for each analyzer, by metric name. Every analyzer
+// always exports the same names so CSV columns line up across analyses.
+const KEY_METRICS: Record<AnalyzerId, Record<string, (result: any) => unknown>> = {
+  speed: {
+    loadTimeSeconds: result => result.metrics?.loadTime,
+    speedDescription: result => result.metrics?.speedDescription
+  },
+  font: {
+    fontCount: result => result.fontCount,
+    webFontCount: result => result.webFontCount,
+    systemFontCount: result => result.systemFontCount
+  },
+  image: {
+    totalImages: result => result.totalImages,
+    modernFormats: result => result.modernFormats,
+    withAltText: result => result.withAltText,
+    appropriatelySized: result => result.appropriatelySized
+  },
+  cta: {
+    ctaCount: result => count(result.ctas),
+    ctasAboveFold: result => Array.isArray(result.ctas)
+      ? result.ctas.filter((cta: any) => cta.isAboveFold || cta.aboveFold).length
+      : null,
+    primaryCta: result => result.primaryCTA?.text
+  },
+  whitespace: {
+    whitespaceRatio: result => result.metrics?.whitespaceRatio,
+    clutterScore: result => result.metrics?.clutterScore,
+    hasAdequateSpacing: result => result.metrics?.hasAdequateSpacing
+  },
+  socialProof: {
+    totalElements: result => result.summary?.totalElements,
+    aboveFoldElements: result => result.summary?.aboveFoldElements,
+    testimonials: result => result.summary?.testimonials,
+    reviews: result => result.summary?.reviews,
+    trustBadges: result => result.summary?.trustBadges
+  },
+  valueProposition: {
+    headline: result => result.headline,
+    headlineClarityScore: result => result.headlineClarityScore,
+    benefitVsFeatureRatio: result => result.benefitVsFeatureRatio,
+    uniqueValuePropositionDetected: result => result.uniqueValuePropositionDetected
+  },
+  form: {
+    formCount: result => result.formCount,
+    totalFields: result => result.totalFields,
+    requiredFields: result => result.requiredFields,
+    placeholderOnlyFields: result => result.placeholderOnlyFields
+  },
+  mobile: {
+    ctasAboveFold: result => result.ctasAboveFold,
+    tapTargetsTooSmall: result => result.tapTargets?.tooSmall,
+    horizontalOverflow: result => result.horizontalOverflow?.detected,
+    hasViewportMeta: result => result.hasViewportMeta
+  },
+  psychologicalTriggers: {
+    countdownTimers: result => count(result.countdownTimers),
+    scarcityElements: result => result.scarcityElements,
+    authoritySignals: result => result.authoritySignals,
+    manipulativePatterns: result => count(result.manipulativePatterns)
+  },
+  copy: {
+    wordCount: result => result.wordCount,
+    fleschKincaidGrade: result => result.fleschKincaidGrade,
+    passiveVoiceRate: result => result.passiveVoiceRate,
+    youWeRatio: result => result.youWeRatio,
+    jargonDensity: result => result.jargonDensity
+  },
+  accessibility: {
+    contrastFailures: result => result.contrast?.failing,
+    unlabeledFormFields: result => result.formLabels?.unlabeled,
+    imagesMissingAlt: result => result.images?.missingAlt,
+    genericLinks: result => result.linkText?.generic,
+    lang: result => result.lang
+  },
+  seo: {
+    titleLength: result => result.title?.length,
+    descriptionLength: result => result.description?.length,
+    noindex: result => result.robots?.noindex,
+    h1Count: result => result.h1Count,
+    structuredDataBlocks: result => result.structuredData?.blocks
+  }
+};
+
+function toExportValue(value: unknown): ExportValue {
+  if (typeof value === 'number') {
+    return Number.isFinite(value) ? value : null;
+  }
+  if (typeof value === 'string' || typeof value === 'boolean') {
+    return value;
+  }
+  return null;
+}
+
+function toStrings(items: unknown): string[] {
+  return Array.isArray(items) ? items.filter((item): item is string => typeof item === 'string') : [];
+}
+
+function exportModule(analyzerId: AnalyzerId, name: string, result: any): ExportedModule | null {
+  if (!result || typeof result !== 'object') {
+    return null;
+  }
+
+  const score = typeof result.score === 'number' ? result.score : null;
+  const issues = toStrings(result.issues);
+  const recommendations = toStrings(result.recommendations);
+  const metrics: Record<string, ExportValue> = {};
+  for (const [metric, read] of Object.entries(KEY_METRICS[analyzerId])) {
+    metrics[metric] = toExportValue(read(result));
+  }
+
+  return {
+    name,
+    score,
+    grade: score !== null ? getGrade(score) : null,
+    issueCount: issues.length,
+    recommendationCount: recommendations.length,
+    issues,
+    recommendations,
+    metrics
+  };
+}
+
+/**
+ * Build the export of an `analyses` row selected with EXPORT_COLUMNS
+ */
+export function toExportedAnalysis(row: Record<string, any>): ExportedAnalysis {
+  const results = mapAnalyzerColumns(row);
+  const modules = {} as Record<AnalyzerId, ExportedModule | null>;
+  for (const analyzer of getAnalyzersInDisplayOrder()) {
+    modules[analyzer.id] = exportModule(analyzer.id, analyzer.name, results[analyzer.resultKey]);
+  }
+
+  const overallScore = typeof row.overall_score === 'number' ? row.overall_score : null;
+
+  return {
+    exportVersion: EXPORT_FORMAT_VERSION,
+    id: row.id,
+    url: row.url,
+    title: row.url_title || null,
+    analyzedAt: row.created_at,
+    overallScore,
+    // Reports from before grades were stored get theirs from the score
+    grade: row.grade || (overallScore !== null ? getGrade(overallScore) : null),
+    industryAdjustedScore: row.industry_adjusted_score ?? null,
+    weightProfile: row.scoring_weights?.profile ?? null,
+    detectedIndustry: row.detected_industry || null,
+    screenshotUrl: row.screenshot_url || null,
+    modules
+  };
+}
+
+/**
+ * Export of a completed analysis; null when there is no completed analysis
+ * with this ID, or none owned by `userId` when it is given
+ */
+export async function getExportedAnalysis(id: string, userId?: string): Promise<ExportedAnalysis | null> {
+  let query = supabaseAdmin
+    .from('analyses')
+    .select(EXPORT_COLUMNS)
+    .eq('id', id)
+    .eq('status', 'completed');
+  if (userId) {
+    query = query.eq('user_id', userId);
+  }
+  const { data, error } = await query.single();
+
+  if (error || !data) {
+    return null;
+  }
+
+  return toExportedAnalysis(data as Record<string, any>);
+}
+
+const BASE_COLUMNS: Array<[string, (analysis: ExportedAnalysis) => ExportValue]> = [
+  ['export_version', analysis => analysis.exportVersion],
+  ['id', analysis => analysis.id],
+  ['url', analysis => analysis.url],
+  ['title', analysis => analysis.title],
+  ['analyzed_at', analysis => analysis.analyzedAt],
+  ['overall_score', analysis => analysis.overallScore],
+  ['grade', analysis => analysis.grade],
+  ['industry_adjusted_score', analysis => analysis.industryAdjustedScore],
+  ['weight_profile', analysis => analysis.weightProfile],
+  ['detected_industry', analysis => analysis.detectedIndustry]
+];
+
+/**
+ * CSV columns: the analysis fields, then for each analyzer its score, grade,
+ * issue and recommendation counts and key metrics, e.g. `cta.score`,
+ * `cta.issues`, `cta.primaryCta`
+ */
+export function getExportColumns(): Array<[string, (analysis: ExportedAnalysis) => ExportValue]> {
+  const columns = [...BASE_COLUMNS];
+  for (const analyzer of getAnalyzersInDisplayOrder()) {
+    const moduleOf = (analysis: ExportedAnalysis) => analysis.modules[analyzer.id];
+    columns.push(
+      [`${analyzer.id}.score`, analysis => moduleOf(analysis)?.score ?? null],
+      [`${analyzer.id}.grade`, analysis => moduleOf(analysis)?.grade ?? null],
+      [`${analyzer.id}.issues`, analysis => moduleOf(analysis)?.issueCount ?? null],
+      [`${analyzer.id}.recommendations`, analysis => moduleOf(analysis)?.recommendationCount ?? null]
+    );
+    for (const metric of Object.keys(KEY_METRICS[analyzer.id])) {
+      columns.push([`${analyzer.id}.${metric}`, analysis => moduleOf(analysis)?.metrics[metric] ?? null]);
+    }
+  }
+  return columns;
+}
+
+function toCsvCell(value: ExportValue): string {
+  if (value === null) {
+    return '';
+  }
+  let text = String(value);
+  // Page titles and headlines come from the scanned page; keep spreadsheets
+  // from running text that starts like a formula
+  if (typeof value === 'string' && /^[=+\-@\t\r]/.test(text)) {
+    text = `'${text}`;
+  }
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Format rows of cells as CSV, the first row being the header
+ */
+export function formatCsv(rows: ExportValue[][]): string {
+  return rows.map(row => row.map(toCsvCell).join(',')).join('\r\n') + '\r\n';
+}
+
+/**
+ * One CSV row per analysis, with a header row
+ */
+export function toCsv(analyses: ExportedAnalysis[]): string {
+  const columns = getExportColumns();
+  return formatCsv([
+    columns.map(([name]) => name),
+    ...analyses.map(analysis => columns.map(([, read]) => read(analysis)))
+  ]);
+}
+
+export function isExportFormat(value: unknown): value is ExportFormat {
+  return typeof value === 'string' && (EXPORT_FORMATS as string[]).includes(value);
+}
+
+/**
+ * JSON Schema (draft 2020-12) of ExportedAnalysis
+ */
+export function getExportJsonSchema(): Record<string, unknown> {
+  const nullable = (type: string) => ({ type: [type, 'null'] });
+  const grade = { enum: [...GRADES, null] };
+  const metricValue = { type: ['string', 'number', 'boolean', 'null'] };
+
+  const moduleProperties: Record<string, unknown> = {};
+  for (const analyzer of getAnalyzersInDisplayOrder()) {
+    const metrics = Object.keys(KEY_METRICS[analyzer.id]);
+    moduleProperties[analyzer.id] = {
+      description: analyzer.fullName,
+      oneOf: [
+        { type: 'null' },
+        {
+          type: 'object',
+          required: ['name', 'score', 'grade', 'issueCount', 'recommendationCount', 'issues', 'recommendations', 'metrics'],
+          properties: {
+            name: { type: 'string' },
+            score: nullable('number'),
+            grade,
+            issueCount: { type: 'integer' },
+            recommendationCount: { type: 'integer' },
+            issues: { type: 'array', items: { type: 'string' } },
+            recommendations: { type: 'array', items: { type: 'string' } },
+            metrics: {
+              type: 'object',
+              required: metrics,
+              properties: Object.fromEntries(metrics.map(metric => [metric, metricValue])),
+              additionalProperties: false
+            }
+          }
+        }
+      ]
+    };
+  }
+
+  return {
+    $schema: 'https://json-schema.org/draft/2020-12/schema',
+    $id: `https://landingpage.report/schemas/analysis-export-${EXPORT_FORMAT_VERSION}.json`,
+    title: 'Landing page analysis export',
+    type: 'object',
+    required: [
+      'exportVersion', 'id', 'url', 'title', 'analyzedAt', 'overallScore', 'grade',
+      'industryAdjustedScore', 'weightProfile', 'detectedIndustry', 'screenshotUrl', 'modules'
+    ],
+    properties: {
+      exportVersion: { const: EXPORT_FORMAT_VERSION },
+      id: { type: 'string' },
+      url: { type: 'string' },
+      title: nullable('string'),
+      analyzedAt: { type: 'string', format: 'date-time' },
+      overallScore: nullable('number'),
+      grade,
+      industryAdjustedScore: nullable('number'),
+      weightProfile: nullable('string'),
+      detectedIndustry: nullable('string'),
+      screenshotUrl: nullable('string'),
+      modules: {
+        type: 'object',
+        required: Object.keys(moduleProperties),
+        properties: moduleProperties,
+        additionalProperties: false
+      }
+    }
+  };
+}
@@ -0,0 +1,560 @@
+import { supabaseAdmin } from '@/lib/supabase';
+import { captureAndStoreScreenshot } from '@/lib/screenshot-storage';
+import { extractPageMetadata } from '@/lib/page-metadata';
+import { detectIndustry } from '@/lib/industry-detection';
+import { getModulesToRun, runAnalysisModules } from '@/lib/analysis-runner';
+import { calculateOverallScore, getAnalyzerDefinition } from '@/lib/analyzers/definitions';
+import { selectScoringWeights, type AnalyzerWeights, type WeightProfileId } from '@/lib/analyzers/weight-profiles';
+import { refreshCompetitiveAnalysis } from '@/lib/competitor-comparison';
+import { recordAnalysisChanges } from '@/lib/analysis-diff';
+import { alertOnScoreDrops } from '@/lib/score-alerts';
+import { releaseBatchJobs } from '@/lib/batch-analysis';
+import { saveRecommendations } from '@/lib/recommendation-tracking';
+import { predictConversion } from '@/lib/conversion-prediction';
+import { discardPageSource, servePageSource, type ServedPage } from '@/lib/page-source';
+import { getHeldPageAuth, releasePageAuth, PAGE_AUTH_TTL_MS } from '@/lib/page-auth';
+import { getGrade, getModuleGrades } from '@/lib/grading';
+import type { AnalyzerId } from '@/lib/analyzers/types';
+import type { AnalysisJobOptions, AnalysisProgress, ModuleProgress, PageSource } from '@/types/database';
+
+/** Attempts before a job is marked as failed */
+export const MAX_RETRIES = 3;
+
+/** Jobs left in 'processing' longer than this were killed mid-run (e.g. a function timeout) */
+export const STALE_JOB_MS = 10 * 60 * 1000;
+
+export interface EnqueueAnalysisInput {
+  userId: string;
+  url: string;
+  component?: string;
+  forceBrowserless?: boolean;
+  /** Higher priority jobs are picked first */
+  priority?: number;
+  /** Competitors this analysis is compared with, for the primary job of a comparison */
+  competitorUrls?: string[];
+  /** Primary analysis a competitor job is compared with */
+  comparisonId?: string;
+  /** Weight profile for the industry-adjusted score; auto-selected from the detected industry when unset */
+  weightProfile?: WeightProfileId;
+  customWeights?: Partial<AnalyzerWeights>;
+  /** Previous completed analysis of the same URL, when this is a re-scan */
+  parentAnalysisId?: string;
+  /** Scheduled re-scan: the owner is emailed when scores drop */
+  monitored?: boolean;
+  /** Bulk upload this analysis belongs to; it waits as 'pending' until the batch releases it */
+  batchId?: string;
+  batchLabel?: string | null;
+  /** Uploaded page to analyze instead of fetching the URL */
+  source?: PageSource;
+  /** The page is analyzed with credentials held by `holdPageAuth`; only this flag is stored */
+  requiresAuth?: boolean;
+}
+
+export type AnalysisJobOutcome = 'completed' | 'retrying' | 'failed' | 'skipped';
+
+export function createInitialProgress(component?: string): AnalysisProgress {
+  const modules: Record<string, ModuleProgress> = {};
+  for (const moduleId of getModulesToRun(component)) {
+    modules[moduleId] = { status: 'pending' };
+  }
+  return { modules, updated_at: new Date().toISOString() };
+}
+
+/**
+ * Percentage of modules that have finished, successfully or not
+ */
+export function calculateProgressPercent(progress: AnalysisProgress | null | undefined): number {
+  const modules = Object.values(progress?.modules || {});
+  if (modules.length === 0) {
+    return 0;
+  }
+  const finished = modules.filter(moduleProgress => moduleProgress.status === 'completed' || moduleProgress.status === 'failed').length;
+  return Math.round((finished / modules.length) * 100);
+}
+
+/**
+ * Insert a queued analysis row for the worker to pick up
+ */
+export async function enqueueAnalysis(input: EnqueueAnalysisInput): Promise<{ id: string }> {
+  const jobOptions: AnalysisJobOptions = {
+    component: input.component,
+    force_browserless: input.forceBrowserless || false
+  };
+  if (input.competitorUrls?.length) {
+    jobOptions.competitor_urls = input.competitorUrls;
+  }
+  if (input.comparisonId) {
+    jobOptions.comparison_id = input.comparisonId;
+  }
+  if (input.weightProfile) {
+    jobOptions.weight_profile = input.weightProfile;
+  }
+  if (input.weightProfile === 'custom' && input.customWeights) {
+    jobOptions.custom_weights = input.customWeights;
+  }
+  if (input.monitored) {
+    jobOptions.monitored = true;
+  }
+  if (input.batchId) {
+    jobOptions.batch_id = input.batchId;
+    if (input.batchLabel) {
+      jobOptions.batch_label = input.batchLabel;
+    }
+  }
+  if (input.source) {
+    jobOptions.source = input.source;
+  }
+  if (input.requiresAuth) {
+    jobOptions.requires_auth = true;
+  }
+
+  const { data, error } = await supabaseAdmin
+    .from('analyses')
+    .insert({
+      user_id: input.userId,
+      url: input.url,
+      status: input.batchId ? 'pending' : 'queued',
+      priority: input.priority ?? 1,
+      algorithm_version: '1.0.0',
+      lighthouse_available: true, // Will be updated based on actual availability
+      retry_count: 0,
+      is_baseline: false, // Only first analysis is baseline
+      job_options: jobOptions,
+      parent_analysis_id: input.parentAnalysisId ?? null,
+      progress: createInitialProgress(input.component)
+    })
+    .select('id')
+    .single();
+
+  if (error || !data) {
+    throw new Error(`Failed to enqueue analysis: ${error?.message || 'no record returned'}`);
+  }
+
+  console.log(`📥 Queued analysis ${data.id} for ${input.url}`);
+  return { id: data.id };
+}
+
+/**
+ * Run a queued analysis. The row is claimed by moving it from 'queued' to
+ * 'processing', so a job picked up by both the request and the cron worker
+ * only runs once. Each module's result and progress is written as soon as
+ * it finishes so the status endpoint can report partial results.
+ */
+export async function processAnalysisJob(analysisId: string): Promise<AnalysisJobOutcome> {
+  const startTime = Date.now();
+
+  const { data: claimed, error: claimError } = await supabaseAdmin
+    .from('analyses')
+    .update({ status: 'processing', started_at: new Date().toISOString(), error_message: null })
+    .eq('id', analysisId)
+    .eq('status', 'queued')
+    .select('id, url, user_id, retry_count, job_options, detected_industry, parent_analysis_id, algorithm_version');
+
+  if (claimError) {
+    console.error(`❌ Failed to claim analysis job ${analysisId}:`, claimError);
+    return 'skipped';
+  }
+
+  const job = claimed?.[0];
+  if (!job) {
+    console.log(`⏭️ Analysis job ${analysisId} is not queued, skipping`);
+    return 'skipped';
+  }
+
+  const jobOptions: AnalysisJobOptions = job.job_options || {};
+  const forceBrowserless = jobOptions.force_browserless || false;
+  const auth = jobOptions.requires_auth ? getHeldPageAuth(analysisId) : null;
+  const missingAuth = !!jobOptions.requires_auth && !auth;
+  const progress = createInitialProgress(jobOptions.component);
+
+  const saveProgress = async (moduleId: AnalyzerId, moduleProgress: ModuleProgress, result?: any) => {
+    progress.modules[moduleId] = { ...progress.modules[moduleId], ...moduleProgress };
+    progress.updated_at = new Date().toISOString();
+
+    const update: Record<string, unknown> = { progress };
+    if (result !== undefined) {
+      update[getAnalyzerDefinition(moduleId).column] = result;
+    }
+
+    const { error } = await supabaseAdmin.from('analyses').update(update).eq('id', analysisId);
+    if (error) {
+      console.error(`⚠️ Failed to save progress for ${moduleId}:`, error);
+    }
+  };
+
+  let servedPage: ServedPage | null = null;
+  try {
+    console.log(`🚀 Processing analysis job ${analysisId} (attempt ${job.retry_count + 1}/${MAX_RETRIES})`);
+
+    if (missingAuth) {
+      throw new Error('The credentials for this page are no longer available. Submit the analysis again.');
+    }
+
+    // An uploaded page is answered from its files by every browser the job opens
+    if (jobOptions.source) {
+      servedPage = await servePageSource(jobOptions.source);
+    }
+    const pageUrl = servedPage?.url ?? job.url;
+
+    console.log('📖 Extracting page metadata...');
+    try {
+      const pageMetadata = await extractPageMetadata(pageUrl, {
+        puppeteer: { forceBrowserless, auth, servedPage }
+      });
+      await supabaseAdmin
+        .from('analyses')
+        .update({
+          url_title: pageMetadata.title,
+          url_description: pageMetadata.description,
+          schema_data: pageMetadata.schema
+        })
+        .eq('id', analysisId);
+      console.log(`✅ Page metadata extracted: "${pageMetadata.title}"`);
+    } catch (error) {
+      console.error('⚠️ Failed to extract page metadata:', error);
+      await supabaseAdmin
+        .from('analyses')
+        .update({
+          url_title: 'Page Title Unavailable',
+          url_description: 'Description not available'
+        })
+        .eq('id', analysisId);
+    }
+
+    // A page we can't classify keeps any industry it already has
+    let detectedIndustry: string | null = job.detected_industry || null;
+    try {
+      console.log('🏷️ Detecting industry...');
+      const detection = await detectIndustry(pageUrl, {
+        puppeteer: { forceBrowserless, auth, servedPage }
+      });
+      if (detection.industry) {
+        detectedIndustry = detection.industry;
+        await supabaseAdmin
+          .from('analyses')
+          .update({
+            detected_industry: detection.industry,
+            industry_confidence: detection.confidence
+          })
+          .eq('id', analysisId);
+      }
+    } catch (error) {
+      console.error('⚠️ Industry detection failed, continuing with analysis:', error);
+    }
+
+    // Capture screenshot early for visual analysis and user feedback
+    let screenshotUrl: string | undefined;
+    try {
+      console.log('📸 Capturing page screenshot for analysis...');
+      const screenshotResult = await captureAndStoreScreenshot(pageUrl, {
+        fullPage: true,
+        format: 'png',
+        quality: 80,
+        viewport: { width: 1920, height: 1080 },
+        puppeteer: { forceBrowserless, auth, servedPage }
+      });
+      screenshotUrl = screenshotResult.blobUrl;
+      await supabaseAdmin
+        .from('analyses')
+        .update({ screenshot_url: screenshotUrl })
+        .eq('id', analysisId);
+      console.log(`✅ Screenshot captured and stored: ${screenshotUrl}`);
+    } catch (error) {
+      console.error('⚠️ Screenshot capture failed, continuing with analysis:', error);
+      // Don't fail the entire analysis if screenshot fails
+    }
+
+    const analysisResult = await runAnalysisModules(pageUrl, {
+      component: jobOptions.component,
+      forceBrowserless,
+      screenshotUrl,
+      auth,
+      servedPage,
+      hooks: {
+        onModuleStart: moduleId =>
+          saveProgress(moduleId, { status: 'running', started_at: new Date().toISOString() }),
+        onModuleComplete: (moduleId, result) =>
+          saveProgress(moduleId, {
+            status: 'completed',
+            score: result.score,
+            completed_at: new Date().toISOString()
+          }, result),
+        onModuleError: (moduleId, error, fallbackResult) =>
+          saveProgress(moduleId, {
+            status: 'failed',
+            score: fallbackResult?.score ?? null,
+            error: error instanceof Error ? error.message : 'Unknown error occurred',
+            completed_at: new Date().toISOString()
+          }, fallbackResult)
+      }
+    });
+
+    // The raw score uses the registry weights; the industry-adjusted score
+    // uses the requested profile or the one for the detected industry
+    const scoringWeights = selectScoringWeights({
+      profile: jobOptions.weight_profile,
+      customWeights: jobOptions.custom_weights,
+      industry: detectedIndustry
+    });
+    const industryAdjustedScore = scoringWeights.profile
+      ? calculateOverallScore(analysisResult, scoringWeights.weights)
+      : null;
+
+    const failedModules = (Object.keys(progress.modules) as AnalyzerId[])
+      .filter(moduleId => progress.modules[moduleId].status === 'failed');
+    const conversionPrediction = predictConversion(analysisResult, { profile: scoringWeights.profile, failedModules });
+
+    const analysisTimeMs = Date.now() - startTime;
+    const { error: updateError } = await supabaseAdmin
+      .from('analyses')
+      .update({
+        status: 'completed',
+        overall_score: analysisResult.overallScore,
+        grade: getGrade(analysisResult.overallScore),
+        module_grades: getModuleGrades(analysisResult),
+        industry_adjusted_score: industryAdjustedScore,
+        scoring_weights: scoringWeights,
+        conversion_prediction: conversionPrediction,
+        conversion_probability: conversionPrediction?.probability ?? null,
+        progress,
+        analysis_duration_ms: analysisTimeMs,
+        completed_at: new Date().toISOString()
+      })
+      .eq('id', analysisId);
+
+    if (updateError) {
+      throw new Error(`Failed to save analysis results: ${updateError.message}`);
+    }
+
+    console.log(`🎉 Analysis ${analysisId} complete! Overall score: ${analysisResult.overallScore}/100, grade ${getGrade(analysisResult.overallScore)} (${analysisTimeMs}ms)`);
+    if (industryAdjustedScore !== null) {
+      console.log(`⚖️ ${scoringWeights.profile} weighted score: ${industryAdjustedScore}/100`);
+    }
+    if (conversionPrediction) {
+      const { low, high } = conversionPrediction.confidence_interval;
+      console.log(`🔮 Estimated conversion rate: ${(low * 100).toFixed(1)}%–${(high * 100).toFixed(1)}%`);
+    }
+    await storeRecommendations(analysisId, analysisResult);
+    if (job.parent_analysis_id) {
+      await recordChanges(job, jobOptions);
+    }
+    await refreshComparison(analysisId, jobOptions);
+    await refreshBatch(jobOptions);
+    await discardSource(analysisId, jobOptions);
+    releasePageAuth(analysisId);
+    return 'completed';
+  } catch (error) {
+    console.error(`💥 Analysis job ${analysisId} failed:`, error);
+    const outcome = await markJobFailed(
+      analysisId,
+      job.retry_count,
+      error instanceof Error ? error.message : 'Unknown error occurred',
+      Date.now() - startTime,
+      // A retry may be claimed by a process that never had the credentials
+      !jobOptions.requires_auth
+    );
+    if (outcome === 'failed') {
+      await finishFailedJob(analysisId, jobOptions);
+    }
+    return outcome;
+  }
+}
+
+/**
+ * Record what changed since the scan a re-scan replaces, and alert the owner
+ * of a monitored page about score drops. A problem here never fails the
+ * analysis itself.
+ */
+async function recordChanges(
+  job: { id: string; url: string; user_id: string; algorithm_version: string },
+  jobOptions: AnalysisJobOptions
+): Promise<void> {
+  try {
+    const changes = await recordAnalysisChanges(job.id, job.algorithm_version);
+    if (changes && jobOptions.monitored) {
+      await alertOnScoreDrops(job, changes);
+    }
+  } catch (error) {
+    console.error(`⚠️ Failed to record changes for ${job.id}:`, error);
+  }
+}
+
+/**
+ * Store the analysis's recommendations for the report checklist. A problem
+ * here never fails the analysis itself; the checklist is rebuilt from the
+ * stored results when it is first opened.
+ */
+async function storeRecommendations(analysisId: string, analysisResult: Record<string, any>): Promise<void> {
+  try {
+    await saveRecommendations(analysisId, analysisResult);
+  } catch (error) {
+    console.error(`⚠️ Failed to store recommendations for ${analysisId}:`, error);
+  }
+}
+
+/**
+ * Delete the upload of a finished job, if it has one. Retries still need
+ * it, so this only runs once the job has completed or failed for good.
+ */
+async function discardSource(analysisId: string, jobOptions: AnalysisJobOptions): Promise<void> {
+  if (!jobOptions.source) {
+    return;
+  }
+
+  try {
+    await discardPageSource(jobOptions.source);
+  } catch (error) {
+    console.error(`⚠️ Failed to delete the uploaded page of ${analysisId}:`, error);
+  }
+}
+
+/**
+ * Rebuild the competitor comparison a finished job takes part in, if any.
+ * A comparison problem never fails the analysis itself.
+ */
+async function refreshComparison(analysisId: string, jobOptions: AnalysisJobOptions): Promise<void> {
+  const comparisonId = jobOptions.comparison_id || (jobOptions.competitor_urls?.length ? analysisId : undefined);
+  if (!comparisonId) {
+    return;
+  }
+
+  try {
+    await refreshCompetitiveAnalysis(comparisonId);
+  } catch (error) {
+    console.error(`⚠️ Failed to update comparison ${comparisonId}:`, error);
+  }
+}
+
+/**
+ * Queue the next analyses of the batch a finished job belongs to, if any.
+ * A batch problem never fails the analysis itself.
+ */
+async function refreshBatch(jobOptions: AnalysisJobOptions): Promise<void> {
+  if (!jobOptions.batch_id) {
+    return;
+  }
+
+  try {
+    await releaseBatchJobs(jobOptions.batch_id);
+  } catch (error) {
+    console.error(`⚠️ Failed to queue more of batch ${jobOptions.batch_id}:`, error);
+  }
+}
+
+/**
+ * Let everything waiting on a job that failed for good move on: its
+ * comparison and batch, its upload and its credentials
+ */
+async function finishFailedJob(analysisId: string, jobOptions: AnalysisJobOptions): Promise<void> {
+  await refreshComparison(analysisId, jobOptions);
+  await refreshBatch(jobOptions);
+  await discardSource(analysisId, jobOptions);
+  releasePageAuth(analysisId);
+}
+
+/**
+ * Put a failed job back in the queue, or mark it failed once it has used
+ * all of its attempts or can't succeed on a retry
+ */
+async function markJobFailed(
+  analysisId: string,
+  retryCount: number,
+  errorMessage: string,
+  analysisTimeMs?: number,
+  retryable = true
+): Promise<AnalysisJobOutcome> {
+  const attempts = retryCount + 1;
+  const shouldRetry = retryable && attempts < MAX_RETRIES;
+
+  const { error } = await supabaseAdmin
+    .from('analyses')
+    .update(shouldRetry ? {
+      status: 'queued',
+      retry_count: attempts,
+      error_message: errorMessage
+    } : {
+      status: 'failed',
+      retry_count: attempts,
+      error_message: errorMessage,
+      analysis_duration_ms: analysisTimeMs,
+      completed_at: new Date().toISOString()
+    })
+    .eq('id', analysisId);
+
+  if (error) {
+    console.error('❌ Failed to update error status in database:', error);
+  } else {
+    console.log(shouldRetry
+      ? `🔁 Analysis ${analysisId} re-queued (attempt ${attempts}/${MAX_RETRIES} failed)`
+      : `💾 Analysis ${analysisId} marked as failed after ${attempts} attempts`);
+  }
+
+  return shouldRetry ? 'retrying' : 'failed';
+}
+
+/**
+ * Re-queue jobs whose worker died mid-run
+ */
+export async function recoverStaleJobs(): Promise<number> {
+  const staleBefore = new Date(Date.now() - STALE_JOB_MS).toISOString();
+
+  const { data: staleJobs, error } = await supabaseAdmin
+    .from('analyses')
+    .select('id, retry_count, job_options')
+    .eq('status', 'processing')
+    .lt('started_at', staleBefore);
+
+  if (error) {
+    console.error('❌ Failed to look up stale analysis jobs:', error);
+    return 0;
+  }
+
+  for (const job of staleJobs || []) {
+    const outcome = await markJobFailed(
+      job.id,
+      job.retry_count,
+      'Analysis timed out before completing',
+      undefined,
+      !job.job_options?.requires_auth
+    );
+    if (outcome === 'failed') {
+      await finishFailedJob(job.id, job.job_options || {});
+    }
+  }
+
+  return staleJobs?.length || 0;
+}
+
+/**
+ * Worker loop: recover stale jobs, then process queued jobs one at a time,
+ * highest priority first and oldest first within a priority
+ */
+export async function processQueuedAnalyses(
+  options: { limit?: number } = {}
+): Promise<{ recovered: number; processed: Array<{ id: string; outcome: AnalysisJobOutcome }> }> {
+  const { limit = 1 } = options;
+  const recovered = await recoverStaleJobs();
+  // Credentials are held by the process that queued the job; leave it to
+  // that process until they would have expired
+  const authExpiredBefore = new Date(Date.now() - PAGE_AUTH_TTL_MS).toISOString();
+
+  const { data: queuedJobs, error } = await supabaseAdmin
+    .from('analyses')
+    .select('id')
+    .eq('status', 'queued')
+    .or(`job_options->>requires_auth.is.null,created_at.lt.${authExpiredBefore}`)
+    .order('priority', { ascending: false })
+    .order('created_at', { ascending: true })
+    .limit(limit);
+
+  if (error) {
+    throw new Error(`Failed to fetch queued analyses: ${error.message}`);
+  }
+
+  const processed: Array<{ id: string; outcome: AnalysisJobOutcome }> = [];
+  for (const job of queuedJobs || []) {
+    processed.push({ id: job.id, outcome: await processAnalysisJob(job.id) });
+  }
+
+  return { recovered, processed };
+}
@@ -0,0 +1,115 @@
+import { createPuppeteerBrowser } from '@/lib/puppeteer-config';
+import {
+  calculateOverallScore,
+  getAnalyzersForComponent,
+  getMissingResultFields
+} from '@/lib/analyzers/definitions';
+import { ANALYZER_MODULES } from '@/lib/analyzers/registry';
+import type { AnalyzerId, AnalyzerRunContext } from '@/lib/analyzers/types';
+import type { PageAuth } from '@/lib/page-auth';
+import type { ServedPage } from '@/lib/page-source';
+import type { Browser } from 'puppeteer-core';
+
+export interface AnalysisRunHooks {
+  onModuleStart?: (moduleId: AnalyzerId) => void | Promise<void>;
+  onModuleComplete?: (moduleId: AnalyzerId, result: any) => void | Promise<void>;
+  /** `fallbackResult` is set when the module recovered with its fallback result */
+  onModuleError?: (moduleId: AnalyzerId, error: unknown, fallbackResult?: any) => void | Promise<void>;
+}
+
+export interface AnalysisRunOptions {
+  component?: string;
+  forceBrowserless?: boolean;
+  screenshotUrl?: string;
+  /** Credentials for a page behind basic auth or a login */
+  auth?: PageAuth | null;
+  /** Uploaded page to load instead of a live URL */
+  servedPage?: ServedPage | null;
+  hooks?: AnalysisRunHooks;
+}
+
+/**
+ * Modules selected by the `component` filter, in execution order
+ */
+export function getModulesToRun(component?: string): AnalyzerId[] {
+  return getAnalyzersForComponent(component).map(analyzer => analyzer.id);
+}
+
+/**
+ * Result skeleton with a null score for every module, so modules that
+ * did not run are left out of the overall score
+ */
+export function createEmptyAnalysisResult(url: string): any {
+  const analysisResult: any = { url };
+  for (const analyzerModule of ANALYZER_MODULES) {
+    analysisResult[analyzerModule.resultKey] = analyzerModule.emptyResult();
+  }
+  analysisResult.overallScore = 0;
+  analysisResult.status = 'completed';
+  return analysisResult;
+}
+
+/**
+ * Run the selected analyzers against a URL, sharing a single browser
+ * between them. Hooks are awaited so callers can persist progress as
+ * each module finishes.
+ */
+export async function runAnalysisModules(url: string, options: AnalysisRunOptions = {}): Promise<any> {
+  const { component, forceBrowserless = false, screenshotUrl, auth, servedPage, hooks = {} } = options;
+  const analysisResult = createEmptyAnalysisResult(url);
+  let sharedBrowser: Browser | null = null;
+
+  const context: AnalyzerRunContext = {
+    url,
+    forceBrowserless,
+    screenshotUrl,
+    getBrowser: async () => {
+      if (!sharedBrowser) {
+        sharedBrowser = await createPuppeteerBrowser({ forceBrowserless, auth, servedPage });
+      }
+      return sharedBrowser;
+    },
+    completedResults: {}
+  };
+
+  const moduleIds = getModulesToRun(component);
+
+  try {
+    for (const analysisModule of ANALYZER_MODULES.filter(m => moduleIds.includes(m.id))) {
+      console.log(`🔄 Starting ${analysisModule.name}...`);
+      await hooks.onModuleStart?.(analysisModule.id);
+
+      try {
+        const result = await analysisModule.run(context);
+        const missingFields = getMissingResultFields(analysisModule, result);
+        if (missingFields.length > 0) {
+          throw new Error(`${analysisModule.name} result is missing ${missingFields.join(', ')}`);
+        }
+        console.log(`✅ ${analysisModule.name} complete: Score ${result.score}`);
+        analysisResult[analysisModule.resultKey] = result;
+        context.completedResults[analysisModule.id] = result;
+        await hooks.onModuleComplete?.(analysisModule.id, result);
+      } catch (error) {
+        console.error(`❌ ${analysisModule.name} failed:`, error);
+        const fallbackResult = analysisModule.fallback?.();
+        await hooks.onModuleError?.(analysisModule.id, error, fallbackResult);
+        if (!fallbackResult) {
+          throw error;
+        }
+        analysisResult[analysisModule.resultKey] = fallbackResult;
+      }
+    }
+  } finally {
+    if (sharedBrowser) {
+      try {
+        await (sharedBrowser as Browser).close();
+      } catch (closeError) {
+        console.warn('⚠️ Failed to close shared browser cleanly:', closeError);
+      }
+    }
+  }
+
+  analysisResult.overallScore = calculateOverallScore(analysisResult);
+  console.log(`📊 Overall score: ${analysisResult.overallScore}`);
+  return analysisResult;
+}
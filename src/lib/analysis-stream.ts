@@ -0,0 +1,47 @@
+import type { AnalysisProgress, ModuleProgress, ModuleStatus } from '@/types/database';
+
+export interface ModuleProgressEvent {
+  moduleId: string;
+  status: ModuleStatus;
+  score?: number | null;
+  error?: string;
+}
+
+/**
+ * Module status changes between two progress snapshots, in module order.
+ * A module seen for the first time is reported unless it is still pending.
+ */
+export function getModuleProgressEvents(
+  previous: AnalysisProgress | null | undefined,
+  current: AnalysisProgress | null | undefined
+): ModuleProgressEvent[] {
+  const events: ModuleProgressEvent[] = [];
+
+  for (const [moduleId, moduleProgress] of Object.entries(current?.modules || {})) {
+    const previousStatus = previous?.modules?.[moduleId]?.status ?? 'pending';
+    if (moduleProgress.status === previousStatus) {
+      continue;
+    }
+    events.push(toModuleProgressEvent(moduleId, moduleProgress));
+  }
+
+  return events;
+}
+
+function toModuleProgressEvent(moduleId: string, moduleProgress: ModuleProgress): ModuleProgressEvent {
+  const event: ModuleProgressEvent = { moduleId, status: moduleProgress.status };
+  if (moduleProgress.status === 'completed' || moduleProgress.status === 'failed') {
+    event.score = moduleProgress.score ?? null;
+  }
+  if (moduleProgress.error) {
+    event.error = moduleProgress.error;
+  }
+  return event;
+}
+
+/**
+ * Encode a named Server-Sent Event with a JSON payload
+ */
+export function formatServerSentEvent(event: string, data: unknown): string {
+  return `event: ${event}\ndata: ${JSON.stringify(data)}\n\n`;
+}
@@ -0,0 +1,102 @@
+import {
+  ANALYZER_DEFINITIONS,
+  calculateOverallScore,
+  getAnalyzerDefinition,
+  getAnalyzersForComponent,
+  getAnalyzersInDisplayOrder,
+  getMissingResultFields,
+  mapAnalyzerColumns
+} from '../definitions';
+
+describe('analyzer definitions', () => {
+  it('should have unique ids, result keys, columns and section ids', () => {
+    const unique = (values: string[]) => new Set(values).size === values.length;
+
+    expect(unique(ANALYZER_DEFINITIONS.map(analyzer => analyzer.id))).toBe(true);
+    expect(unique(ANALYZER_DEFINITIONS.map(analyzer => analyzer.resultKey))).toBe(true);
+    expect(unique(ANALYZER_DEFINITIONS.map(analyzer => analyzer.column))).toBe(true);
+    expect(unique(ANALYZER_DEFINITIONS.map(analyzer => analyzer.section.sectionId))).toBe(true);
+  });
+
+  it('should have weights that add up to 1', () => {
+    const totalWeight = ANALYZER_DEFINITIONS.reduce((sum, analyzer) => sum + analyzer.weight, 0);
+    expect(totalWeight).toBeCloseTo(1);
+  });
+
+  it('should look up analyzers by id', () => {
+    expect(getAnalyzerDefinition('socialProof').column).toBe('social_proof_analysis');
+    expect(() => getAnalyzerDefinition('unknown' as any)).toThrow('Unknown analyzer');
+  });
+
+  it('should select analyzers by component alias', () => {
+    expect(getAnalyzersForComponent()).toHaveLength(ANALYZER_DEFINITIONS.length);
+    expect(getAnalyzersForComponent('all')).toHaveLength(ANALYZER_DEFINITIONS.length);
+    expect(getAnalyzersForComponent('fonts').map(analyzer => analyzer.id)).toEqual(['font']);
+    expect(getAnalyzersForComponent('spacing').map(analyzer => analyzer.id)).toEqual(['whitespace']);
+    expect(getAnalyzersForComponent('nope')).toEqual([]);
+  });
+
+  it('should order report sections by section order', () => {
+    expect(getAnalyzersInDisplayOrder().map(analyzer => analyzer.id))
+      .toEqual(['cta', 'valueProposition', 'copy', 'socialProof', 'psychologicalTriggers', 'form', 'mobile', 'accessibility', 'seo', 'speed', 'image', 'whitespace', 'font']);
+  });
+
+  it('should report fields missing from a result', () => {
+    const cta = getAnalyzerDefinition('cta');
+
+    expect(getMissingResultFields(cta, { score: 80, ctas: [], issues: [], recommendations: [] })).toEqual([]);
+    expect(getMissingResultFields(cta, { score: 80, issues: [] })).toEqual(['ctas', 'recommendations']);
+    expect(getMissingResultFields(cta, null)).toEqual(cta.requiredFields);
+  });
+
+  it('should map analyzer columns onto result keys', () => {
+    const results = mapAnalyzerColumns({
+      page_speed_analysis: { score: 75 },
+      cta_analysis: { score: 85 }
+    });
+
+    expect(results.pageLoadSpeed).toEqual({ score: 75 });
+    expect(results.ctaAnalysis).toEqual({ score: 85 });
+    expect(results).toHaveProperty('socialProof', undefined);
+  });
+
+  describe('calculateOverallScore', () => {
+    it('should weight scores by conversion impact', () => {
+      // speed:70*0.12 + cta:50*0.12 + social:40*0.11 + value:30*0.12 + whitespace:60*0.07 + forms:50*0.09 + mobile:60*0.08 + images:80*0.05 + fonts:90*0.04 + psychology:40*0.05 + copy:50*0.06 + accessibility:70*0.05 + seo:90*0.04 = 55.6
+      expect(calculateOverallScore({
+        pageLoadSpeed: { score: 70 },
+        ctaAnalysis: { score: 50 },
+        socialProof: { score: 40 },
+        valueProposition: { score: 30 },
+        whitespaceAssessment: { score: 60 },
+        formOptimization: { score: 50 },
+        mobileConversion: { score: 60 },
+        imageOptimization: { score: 80 },
+        fontUsage: { score: 90 },
+        psychologicalTriggers: { score: 40 },
+        copyEffectiveness: { score: 50 },
+        accessibility: { score: 70 },
+        seo: { score: 90 }
+      })).toBe(56);
+    });
+
+    it('should use the given weights instead of the registry weights', () => {
+      // speed:80*0.75 + cta:40*0.25 = 70; unlisted analyzers keep their registry weight
+      expect(calculateOverallScore({
+        pageLoadSpeed: { score: 80 },
+        ctaAnalysis: { score: 40 }
+      }, { speed: 0.75, cta: 0.25 })).toBe(70);
+    });
+
+    it('should ignore analyzers that did not run', () => {
+      expect(calculateOverallScore({
+        whitespaceAssessment: { score: 70 },
+        fontUsage: { score: null }
+      })).toBe(70);
+    });
+
+    it('should return 0 when no analyzer produced a score', () => {
+      expect(calculateOverallScore({})).toBe(0);
+    });
+  });
+});
@@ -0,0 +1,72 @@
+import { ANALYZER_DEFINITIONS } from '../definitions';
+import {
+  WEIGHT_PROFILES,
+  getDefaultWeights,
+  getWeightProfileForIndustry,
+  parseWeightSelection,
+  resolveWeights,
+  selectScoringWeights
+} from '../weight-profiles';
+
+describe('weight profiles', () => {
+  it('should weight every analyzer and add up to 1', () => {
+    for (const profile of Object.values(WEIGHT_PROFILES)) {
+      const weights = Object.values(profile.weights);
+      expect(Object.keys(profile.weights).sort()).toEqual(ANALYZER_DEFINITIONS.map(analyzer => analyzer.id).sort());
+      expect(weights.reduce((sum, weight) => sum + weight, 0)).toBeCloseTo(1);
+    }
+  });
+
+  it('should use the registry weights by default', () => {
+    expect(getDefaultWeights().speed).toBe(0.12);
+    expect(getDefaultWeights().seo).toBe(0.04);
+  });
+
+  describe('parseWeightSelection', () => {
+    it('should accept named profiles', () => {
+      expect(parseWeightSelection('saas', undefined)).toEqual({ profile: 'saas' });
+      expect(parseWeightSelection(undefined, undefined)).toEqual({});
+    });
+
+    it('should treat custom weights without a profile as the custom profile', () => {
+      expect(parseWeightSelection(undefined, { cta: 0.4 })).toEqual({ profile: 'custom', customWeights: { cta: 0.4 } });
+    });
+
+    it('should reject unknown profiles and invalid custom weights', () => {
+      expect(() => parseWeightSelection('nonprofit', undefined)).toThrow('weightProfile must be one of');
+      expect(() => parseWeightSelection('custom', undefined)).toThrow('customWeights must be an object');
+      expect(() => parseWeightSelection('custom', { checkout: 1 })).toThrow('Unknown analyzer in customWeights: checkout');
+      expect(() => parseWeightSelection('custom', { cta: -1 })).toThrow('Weight for cta must be a non-negative number');
+      expect(() => parseWeightSelection('custom', {})).toThrow('at least one analyzer weight');
+    });
+  });
+
+  describe('resolveWeights', () => {
+    it('should apply custom weights over the registry weights and normalise them', () => {
+      const weights = resolveWeights('custom', { cta: 1.12 });
+
+      // cta 1.12 + the other registry weights 0.88 = 2
+      expect(weights.cta).toBe(0.56);
+      expect(weights.speed).toBe(0.06);
+      expect(Object.values(weights).reduce((sum, weight) => sum + weight, 0)).toBeCloseTo(1);
+    });
+  });
+
+  describe('industry profiles', () => {
+    it('should map detected industries onto profiles', () => {
+      expect(getWeightProfileForIndustry('SaaS')).toBe('saas');
+      expect(getWeightProfileForIndustry('e-commerce')).toBe('ecommerce');
+      expect(getWeightProfileForIndustry('consulting')).toBe('lead-gen');
+      expect(getWeightProfileForIndustry('local-service')).toBe('lead-gen');
+      expect(getWeightProfileForIndustry('agency')).toBe('agency');
+      expect(getWeightProfileForIndustry('mining')).toBeNull();
+      expect(getWeightProfileForIndustry(undefined)).toBeNull();
+    });
+
+    it('should prefer a requested profile over the detected industry', () => {
+      expect(selectScoringWeights({ profile: 'agency', industry: 'saas' })).toMatchObject({ profile: 'agency', source: 'request' });
+      expect(selectScoringWeights({ industry: 'saas' })).toMatchObject({ profile: 'saas', source: 'industry' });
+      expect(selectScoringWeights({})).toEqual({ profile: null, source: null, weights: getDefaultWeights() });
+    });
+  });
+});
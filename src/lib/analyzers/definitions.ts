@@ -0,0 +1,346 @@
+import type { AnalyzerDefinition, AnalyzerId } from './types';
+
+/**
+ * Analyzer registry, in execution order. Adding an analyzer means adding
+ * its definition here, its runner in `runners.ts` and its report section
+ * component in `AnalysisResults.tsx`.
+ */
+export const ANALYZER_DEFINITIONS: AnalyzerDefinition[] = [
+  {
+    id: 'speed',
+    name: 'Page Speed',
+    shortName: 'speed',
+    fullName: 'Page Load Speed',
+    description: 'Core Web Vitals and performance metrics',
+    resultKey: 'pageLoadSpeed',
+    column: 'page_speed_analysis',
+    weight: 0.12, // Highest, with CTA and value proposition - page speed directly impacts conversions
+    aliases: ['speed', 'pageSpeed'],
+    requiredFields: ['score', 'metrics', 'issues', 'recommendations'],
+    section: {
+      title: 'Page Load Speed',
+      label: 'Speed',
+      icon: '⚡',
+      sectionId: 'speed-section',
+      colorTheme: { bgClass: 'bg-blue-950/20', borderClass: 'border-blue-800/40' },
+      order: 10
+    }
+  },
+  {
+    id: 'font',
+    name: 'Fonts',
+    shortName: 'fonts',
+    fullName: 'Font Usage',
+    description: 'Typography consistency and readability',
+    resultKey: 'fontUsage',
+    column: 'font_analysis',
+    weight: 0.04, // Lowest, with SEO - mainly affects polish and professionalism
+    aliases: ['font', 'fonts'],
+    requiredFields: ['score', 'fontFamilies', 'issues', 'recommendations'],
+    section: {
+      title: 'Font Usage',
+      label: 'Fonts',
+      icon: '🔤',
+      sectionId: 'fonts-section',
+      colorTheme: { bgClass: 'bg-rose-950/20', borderClass: 'border-rose-800/40' },
+      order: 13
+    }
+  },
+  {
+    id: 'image',
+    name: 'Images',
+    shortName: 'images',
+    fullName: 'Image Optimization',
+    description: 'Format, sizing, and accessibility',
+    resultKey: 'imageOptimization',
+    column: 'image_analysis',
+    weight: 0.05, // Lower - optimization is important but less conversion-critical
+    aliases: ['image', 'images'],
+    requiredFields: ['score', 'totalImages', 'issues', 'recommendations'],
+    section: {
+      title: 'Image Optimization',
+      label: 'Images',
+      icon: '🖼️',
+      sectionId: 'images-section',
+      colorTheme: { bgClass: 'bg-cyan-950/20', borderClass: 'border-cyan-800/40' },
+      order: 11
+    }
+  },
+  {
+    id: 'cta',
+    name: 'CTA',
+    shortName: 'CTA',
+    fullName: 'Call-to-Action Analysis',
+    description: 'Visibility and effectiveness',
+    resultKey: 'ctaAnalysis',
+    column: 'cta_analysis',
+    weight: 0.12, // Highest, with speed and value proposition - CTA effectiveness is critical for conversions
+    aliases: ['cta'],
+    requiredFields: ['score', 'ctas', 'issues', 'recommendations'],
+    section: {
+      title: 'CTA Analysis',
+      label: 'CTA',
+      icon: '🎯',
+      sectionId: 'cta-section',
+      colorTheme: { bgClass: 'bg-purple-950/20', borderClass: 'border-purple-800/40' },
+      order: 1
+    }
+  },
+  {
+    id: 'whitespace',
+    name: 'Whitespace',
+    shortName: 'whitespace',
+    fullName: 'Whitespace Assessment',
+    description: 'Layout density and spacing',
+    resultKey: 'whitespaceAssessment',
+    column: 'whitespace_analysis',
+    weight: 0.07, // Medium - affects user experience and readability
+    aliases: ['whitespace', 'spacing'],
+    requiredFields: ['score', 'metrics', 'issues', 'recommendations'],
+    section: {
+      title: 'Whitespace',
+      label: 'Space',
+      icon: '📐',
+      sectionId: 'whitespace-section',
+      colorTheme: { bgClass: 'bg-indigo-950/20', borderClass: 'border-indigo-800/40' },
+      order: 12
+    }
+  },
+  {
+    id: 'socialProof',
+    name: 'Social Proof',
+    shortName: 'social proof',
+    fullName: 'Social Proof Detection',
+    description: 'Trust signals and credibility',
+    resultKey: 'socialProof',
+    column: 'social_proof_analysis',
+    weight: 0.11, // High - builds trust and credibility
+    aliases: ['social', 'socialProof'],
+    requiredFields: ['score', 'elements', 'issues', 'recommendations'],
+    section: {
+      title: 'Social Proof',
+      label: 'Social',
+      icon: '⭐',
+      sectionId: 'social-section',
+      colorTheme: { bgClass: 'bg-amber-950/20', borderClass: 'border-amber-800/40' },
+      order: 4
+    }
+  },
+  {
+    id: 'valueProposition',
+    name: 'Value Proposition',
+    shortName: 'value proposition',
+    fullName: 'Value Proposition',
+    description: 'Headline clarity, benefits and differentiation',
+    resultKey: 'valueProposition',
+    column: 'value_proposition_analysis',
+    weight: 0.12, // Highest, with speed and CTA - visitors decide within seconds whether the offer is for them
+    aliases: ['valueProposition', 'value-proposition', 'uvp'],
+    requiredFields: ['score', 'headlineClarityScore', 'benefitVsFeatureRatio', 'issues', 'recommendations'],
+    section: {
+      title: 'Value Proposition',
+      label: 'Value',
+      icon: '💡',
+      sectionId: 'value-proposition-section',
+      colorTheme: { bgClass: 'bg-emerald-950/20', borderClass: 'border-emerald-800/40' },
+      order: 2
+    }
+  },
+  {
+    id: 'form',
+    name: 'Forms',
+    shortName: 'forms',
+    fullName: 'Form Optimization',
+    description: 'Field count, labels, input types and submit copy',
+    resultKey: 'formOptimization',
+    column: 'form_optimization_analysis',
+    weight: 0.09, // Medium - friction on lead forms directly costs conversions
+    aliases: ['form', 'forms'],
+    // score is null when the page has no forms
+    requiredFields: ['formCount', 'forms', 'issues', 'recommendations'],
+    section: {
+      title: 'Form Optimization',
+      label: 'Forms',
+      icon: '📝',
+      sectionId: 'forms-section',
+      colorTheme: { bgClass: 'bg-sky-950/20', borderClass: 'border-sky-800/40' },
+      order: 6
+    }
+  },
+  {
+    id: 'mobile',
+    name: 'Mobile',
+    shortName: 'mobile experience',
+    fullName: 'Mobile Conversion',
+    description: 'Mobile re-run of CTA, whitespace, images and social proof, plus tap targets and overflow',
+    resultKey: 'mobileConversion',
+    column: 'mobile_conversion_analysis',
+    weight: 0.08, // Medium - most landing page traffic is on phones
+    aliases: ['mobile'],
+    requiredFields: ['score', 'modules', 'tapTargets', 'horizontalOverflow', 'issues', 'recommendations'],
+    section: {
+      title: 'Mobile Experience',
+      label: 'Mobile',
+      icon: '📱',
+      sectionId: 'mobile-section',
+      colorTheme: { bgClass: 'bg-fuchsia-950/20', borderClass: 'border-fuchsia-800/40' },
+      order: 7
+    }
+  },
+  {
+    id: 'psychologicalTriggers',
+    name: 'Psychology',
+    shortName: 'persuasion triggers',
+    fullName: 'Psychological Triggers',
+    description: 'Urgency, scarcity, authority and reciprocity, and manipulative patterns like fake timers',
+    resultKey: 'psychologicalTriggers',
+    column: 'psychological_triggers_analysis',
+    weight: 0.05, // Lower - supports conversions but rarely makes or breaks them
+    aliases: ['psychology', 'triggers', 'psychological-triggers'],
+    requiredFields: ['countdownTimers', 'authoritySignals', 'manipulativePatterns', 'issues', 'recommendations'],
+    section: {
+      title: 'Psychological Triggers',
+      label: 'Psychology',
+      icon: '🧠',
+      sectionId: 'psychology-section',
+      colorTheme: { bgClass: 'bg-orange-950/20', borderClass: 'border-orange-800/40' },
+      order: 5
+    }
+  },
+  {
+    id: 'copy',
+    name: 'Copy',
+    shortName: 'copy',
+    fullName: 'Copy Effectiveness',
+    description: 'Readability, sentence length, passive voice, "you" focus and jargon',
+    resultKey: 'copyEffectiveness',
+    column: 'copy_effectiveness_analysis',
+    weight: 0.06, // Lower - clear copy supports every other section
+    aliases: ['copy', 'readability'],
+    requiredFields: ['wordCount', 'fleschKincaidGrade', 'passiveVoiceRate', 'youWeRatio', 'jargonDensity', 'issues', 'recommendations'],
+    section: {
+      title: 'Copy Effectiveness',
+      label: 'Copy',
+      icon: '✍️',
+      sectionId: 'copy-section',
+      colorTheme: { bgClass: 'bg-teal-950/20', borderClass: 'border-teal-800/40' },
+      order: 3
+    }
+  },
+  {
+    id: 'accessibility',
+    name: 'Accessibility',
+    shortName: 'accessibility',
+    fullName: 'Accessibility',
+    description: 'Contrast, headings, landmarks, form labels, keyboard access, link text and page language',
+    resultKey: 'accessibility',
+    column: 'accessibility_analysis',
+    weight: 0.05, // Lower - visitors who can't read the page or reach the CTA can't convert
+    aliases: ['accessibility', 'a11y'],
+    requiredFields: ['score', 'contrast', 'headings', 'landmarks', 'formLabels', 'issues', 'recommendations'],
+    section: {
+      title: 'Accessibility',
+      label: 'Access',
+      icon: '♿',
+      sectionId: 'accessibility-section',
+      colorTheme: { bgClass: 'bg-lime-950/20', borderClass: 'border-lime-800/40' },
+      order: 8
+    }
+  },
+  {
+    id: 'seo',
+    name: 'SEO',
+    shortName: 'search and share metadata',
+    fullName: 'SEO & Metadata',
+    description: 'Title, description, canonical, share tags, robots, hreflang, structured data and H1',
+    resultKey: 'seo',
+    column: 'seo_analysis',
+    weight: 0.04, // Lowest, with fonts - brings visitors in but doesn't change whether they convert
+    aliases: ['seo', 'metadata'],
+    requiredFields: ['score', 'title', 'description', 'canonical', 'openGraph', 'robots', 'structuredData', 'issues', 'recommendations'],
+    section: {
+      title: 'SEO & Metadata',
+      label: 'SEO',
+      icon: '🔎',
+      sectionId: 'seo-section',
+      colorTheme: { bgClass: 'bg-violet-950/20', borderClass: 'border-violet-800/40' },
+      order: 9
+    }
+  }
+];
+
+export function getAnalyzerDefinition(id: AnalyzerId): AnalyzerDefinition {
+  const definition = ANALYZER_DEFINITIONS.find(analyzer => analyzer.id === id);
+  if (!definition) {
+    throw new Error(`Unknown analyzer: ${id}`);
+  }
+  return definition;
+}
+
+/**
+ * Analyzers selected by the `component` filter, in execution order
+ */
+export function getAnalyzersForComponent(component?: string): AnalyzerDefinition[] {
+  return ANALYZER_DEFINITIONS.filter(analyzer =>
+    !component || component === 'all' || analyzer.aliases.includes(component)
+  );
+}
+
+/**
+ * Analyzers in report display order
+ */
+export function getAnalyzersInDisplayOrder(): AnalyzerDefinition[] {
+  return [...ANALYZER_DEFINITIONS].sort((a, b) => a.section.order - b.section.order);
+}
+
+/**
+ * Names of the fields a result is missing, according to the analyzer's
+ * result schema
+ */
+export function getMissingResultFields(definition: AnalyzerDefinition, result: unknown): string[] {
+  if (!result || typeof result !== 'object') {
+    return definition.requiredFields;
+  }
+  const fields = result as Record<string, unknown>;
+  return definition.requiredFields.filter(field => fields[field] === undefined || fields[field] === null);
+}
+
+/**
+ * Weighted overall score based on conversion impact, normalised by the
+ * weights of the analyzers that produced a score. Pass `weights` to score
+ * with a weight profile instead of the registry weights.
+ */
+export function calculateOverallScore(
+  analysisResult: Record<string, any>,
+  weights?: Partial<Record<AnalyzerId, number>>
+): number {
+  let weightedSum = 0;
+  let totalWeight = 0;
+
+  for (const analyzer of ANALYZER_DEFINITIONS) {
+    const score = analysisResult[analyzer.resultKey]?.score;
+    const weight = weights?.[analyzer.id] ?? analyzer.weight;
+    if (score !== undefined && score !== null) {
+      weightedSum += score * weight;
+      totalWeight += weight;
+    }
+  }
+
+  return totalWeight > 0 ? Math.round(weightedSum / totalWeight) : 0;
+}
+
+/**
+ * Comma-separated list of the analyzer result columns, for `select()`
+ */
+export const ANALYZER_COLUMNS = ANALYZER_DEFINITIONS.map(analyzer => analyzer.column).join(', ');
+
+/**
+ * Map analyzer result columns of an `analyses` row onto result keys
+ */
+export function mapAnalyzerColumns(row: Record<string, any>): Record<string, any> {
+  const results: Record<string, any> = {};
+  for (const analyzer of ANALYZER_DEFINITIONS) {
+    results[analyzer.resultKey] = row[analyzer.column];
+  }
+  return results;
+}
@@ -0,0 +1,20 @@
+import { ANALYZER_DEFINITIONS } from './definitions';
+import { ANALYZER_RUNNERS } from './runners';
+import type { AnalyzerId, AnalyzerModule } from './types';
+
+/**
+ * Analyzer definitions joined with their runners, in execution order.
+ * Server-only - client code should use `definitions.ts`.
+ */
+export const ANALYZER_MODULES: AnalyzerModule[] = ANALYZER_DEFINITIONS.map(definition => ({
+  ...definition,
+  ...ANALYZER_RUNNERS[definition.id]
+}));
+
+export function getAnalyzerModule(id: AnalyzerId): AnalyzerModule {
+  const analyzerModule = ANALYZER_MODULES.find(analyzer => analyzer.id === id);
+  if (!analyzerModule) {
+    throw new Error(`Unknown analyzer: ${id}`);
+  }
+  return analyzerModule;
+}
@@ -0,0 +1,480 @@
+import { analyzeFontUsage } from '@/lib/font-analysis';
+import { analyzeImageOptimization } from '@/lib/image-optimization';
+import { analyzeCTA } from '@/lib/cta-analysis';
+import { analyzePageSpeed } from '@/lib/page-speed-analysis';
+import { analyzeWhitespace } from '@/lib/whitespace-assessment';
+import { analyzeSocialProof } from '@/lib/social-proof-analysis';
+import { analyzeValueProposition } from '@/lib/value-proposition-analysis';
+import { analyzeFormOptimization } from '@/lib/form-optimization';
+import { analyzeMobileConversion } from '@/lib/mobile-conversion-analysis';
+import { analyzePsychologicalTriggers } from '@/lib/psychological-triggers-analysis';
+import { analyzeCopyEffectiveness } from '@/lib/copy-effectiveness-analysis';
+import { analyzeAccessibility } from '@/lib/accessibility-analysis';
+import { analyzeSeo } from '@/lib/seo-analysis';
+import type { AnalyzerId, AnalyzerRunner } from './types';
+
+const emptySocialProofSummary = () => ({
+  totalElements: 0,
+  aboveFoldElements: 0,
+  testimonials: 0,
+  reviews: 0,
+  ratings: 0,
+  trustBadges: 0,
+  customerCounts: 0,
+  socialMedia: 0,
+  certifications: 0,
+  partnerships: 0,
+  caseStudies: 0,
+  newsMentions: 0
+});
+
+const emptyWhitespaceMetrics = (clutterScore: number) => ({
+  whitespaceRatio: 0,
+  elementDensityPerSection: {
+    gridSections: 0,
+    maxDensity: 0,
+    averageDensity: 0,
+    totalElements: 0
+  },
+  spacingAnalysis: {
+    headlineSpacing: { adequate: false },
+    ctaSpacing: { adequate: false },
+    contentBlockSpacing: { adequate: false },
+    lineHeight: { adequate: false }
+  },
+  clutterScore,
+  hasAdequateSpacing: false
+});
+
+const emptyValueProposition = () => ({
+  headline: null,
+  subheadline: null,
+  headlineClarityScore: 0,
+  benefitVsFeatureRatio: 0,
+  benefitPhrases: [],
+  featurePhrases: [],
+  vaguePhrases: [],
+  specificityScore: 0,
+  uniqueValuePropositionDetected: false,
+  timeToComprehensionMs: 0,
+  issues: [],
+  recommendations: []
+});
+
+// Score stays null: a page without forms is left out of the overall score
+const emptyFormOptimization = () => ({
+  score: null,
+  formCount: 0,
+  totalFields: 0,
+  requiredFields: 0,
+  placeholderOnlyFields: 0,
+  missingAutocompleteFields: 0,
+  inputTypeMismatches: 0,
+  multiStepFormDetected: false,
+  forms: [],
+  issues: [],
+  recommendations: []
+});
+
+const emptyMobileConversion = () => ({
+  modules: {
+    ctaAnalysis: null,
+    whitespaceAssessment: null,
+    imageOptimization: null,
+    socialProof: null
+  },
+  ctasAboveFold: null,
+  tapTargets: { total: 0, tooSmall: 0, examples: [] },
+  horizontalOverflow: { detected: false, pageWidth: 0, viewportWidth: 0, offenders: [] },
+  hasViewportMeta: false,
+  issues: [],
+  recommendations: []
+});
+
+const emptyPsychologicalTriggers = () => ({
+  countdownTimers: [],
+  scarcityElements: 0,
+  scarcityPhrases: [],
+  urgencyLanguageDetected: false,
+  urgencyPhrases: [],
+  authoritySignals: 0,
+  authorityPhrases: [],
+  reciprocityElements: 0,
+  reciprocityOffers: [],
+  socialProofStrength: null,
+  manipulativePatterns: [],
+  issues: [],
+  recommendations: []
+});
+
+const emptyCopyEffectiveness = () => ({
+  wordCount: 0,
+  sentenceCount: 0,
+  fleschReadingEase: 0,
+  fleschKincaidGrade: 0,
+  averageSentenceLength: 0,
+  longSentences: 0,
+  passiveVoiceRate: 0,
+  passiveExamples: [],
+  youCount: 0,
+  weCount: 0,
+  youWeRatio: 0,
+  jargonDensity: 0,
+  jargonTerms: [],
+  headline: null,
+  headlineWordCount: 0,
+  longHeadings: [],
+  issues: [],
+  recommendations: []
+});
+
+const emptyAccessibility = () => ({
+  lang: null,
+  contrast: { checked: 0, failing: 0, examples: [] },
+  headings: { levels: [], hasH1: false, skippedLevels: [] },
+  landmarks: { main: false, navigation: false, banner: false, contentinfo: false },
+  formLabels: { total: 0, unlabeled: 0, examples: [] },
+  focusability: { unfocusable: 0, examples: [] },
+  linkText: { total: 0, generic: 0, empty: 0, examples: [] },
+  images: { total: 0, missingAlt: 0 },
+  issues: [],
+  recommendations: []
+});
+
+const emptySeo = () => ({
+  title: { text: '', length: 0 },
+  description: { text: '', length: 0 },
+  canonical: { url: null, isAbsolute: false, matchesPage: true },
+  openGraph: { tags: {}, missing: [], image: null },
+  twitterCard: { card: null, tags: {} },
+  robots: { directives: [], noindex: false, nofollow: false },
+  hreflang: { alternates: [], invalid: [], hasXDefault: false },
+  structuredData: { blocks: 0, invalidBlocks: 0, types: [], items: [] },
+  h1Count: 0,
+  issues: [],
+  recommendations: []
+});
+
+/**
+ * How each analyzer runs, keyed by analyzer id. Server-only: these import
+ * the puppeteer-based analyzers.
+ */
+export const ANALYZER_RUNNERS: Record<AnalyzerId, AnalyzerRunner> = {
+  speed: {
+    run: async ({ url, forceBrowserless, getBrowser }) => {
+      const pageSpeedResult = await analyzePageSpeed(url, {
+        puppeteer: { forceBrowserless, browser: await getBrowser() }
+      });
+      return {
+        score: pageSpeedResult.score,
+        metrics: pageSpeedResult.metrics,
+        issues: pageSpeedResult.issues,
+        recommendations: pageSpeedResult.recommendations,
+        recommendationIds: pageSpeedResult.recommendationIds,
+        loadTime: pageSpeedResult.loadTime
+      };
+    },
+    fallback: () => ({
+      score: 0,
+      metrics: {
+        loadTime: 0,
+        speedDescription: 'Unable to measure',
+        relativeTo: 'Analysis unavailable'
+      },
+      issues: ['Page speed analysis failed due to error'],
+      recommendations: [],
+      loadTime: 0
+    }),
+    emptyResult: () => ({
+      score: null,
+      metrics: { lcp: 0, fcp: 0, cls: 0, tbt: 0, si: 0 },
+      lighthouseScore: 0,
+      issues: [],
+      recommendations: [],
+      loadTime: 0
+    })
+  },
+  font: {
+    run: async ({ url, forceBrowserless, getBrowser }) => {
+      const fontUsageResult = await analyzeFontUsage(url, {
+        puppeteer: { forceBrowserless, browser: await getBrowser() }
+      });
+      return {
+        score: fontUsageResult.score,
+        fontFamilies: fontUsageResult.fontFamilies,
+        fontCount: fontUsageResult.fontCount,
+        systemFontCount: fontUsageResult.systemFontCount,
+        webFontCount: fontUsageResult.webFontCount,
+        issues: fontUsageResult.issues,
+        recommendations: fontUsageResult.recommendations,
+        recommendationIds: fontUsageResult.recommendationIds
+      };
+    },
+    emptyResult: () => ({ score: null, fontFamilies: [], fontCount: 0, systemFontCount: 0, webFontCount: 0, issues: [], recommendations: [] })
+  },
+  image: {
+    run: async ({ url, forceBrowserless, getBrowser }) => {
+      const imageOptimizationResult = await analyzeImageOptimization(url, {
+        puppeteer: { forceBrowserless, browser: await getBrowser() }
+      });
+      return {
+        score: imageOptimizationResult.score,
+        status: imageOptimizationResult.status,
+        totalImages: imageOptimizationResult.totalImages,
+        modernFormats: imageOptimizationResult.modernFormats,
+        withAltText: imageOptimizationResult.withAltText,
+        appropriatelySized: imageOptimizationResult.appropriatelySized,
+        issues: imageOptimizationResult.issues,
+        recommendations: imageOptimizationResult.recommendations,
+        recommendationIds: imageOptimizationResult.recommendationIds,
+        details: imageOptimizationResult.details
+      };
+    },
+    emptyResult: () => ({ score: null, totalImages: 0, modernFormats: 0, withAltText: 0, appropriatelySized: 0, issues: [], recommendations: [], details: {} })
+  },
+  cta: {
+    run: async ({ url, forceBrowserless, getBrowser }) => {
+      const ctaResult = await analyzeCTA(url, {
+        puppeteer: { forceBrowserless, browser: await getBrowser() }
+      });
+      console.log(`🎯 ${ctaResult.ctas.length} CTAs found`);
+      return {
+        score: ctaResult.score,
+        ctas: ctaResult.ctas.map(cta => ({
+          text: cta.text,
+          type: cta.type,
+          isAboveFold: cta.isAboveFold,
+          actionStrength: cta.actionStrength,
+          urgency: cta.urgency,
+          visibility: cta.visibility,
+          context: cta.context
+        })),
+        primaryCTA: ctaResult.primaryCTA ? {
+          text: ctaResult.primaryCTA.text,
+          type: ctaResult.primaryCTA.type,
+          actionStrength: ctaResult.primaryCTA.actionStrength,
+          visibility: ctaResult.primaryCTA.visibility,
+          context: ctaResult.primaryCTA.context
+        } : undefined,
+        issues: ctaResult.issues,
+        recommendations: ctaResult.recommendations,
+        recommendationIds: ctaResult.recommendationIds
+      };
+    },
+    fallback: () => ({
+      score: 0,
+      ctas: [],
+      issues: ['CTA analysis failed due to error'],
+      recommendations: []
+    }),
+    emptyResult: () => ({ score: null, ctas: [], issues: [], recommendations: [] })
+  },
+  whitespace: {
+    run: async ({ url, forceBrowserless, screenshotUrl, getBrowser }) => {
+      const whitespaceResult = await analyzeWhitespace(url, {
+        screenshotUrl, // Use the captured screenshot
+        puppeteer: { forceBrowserless, browser: await getBrowser() }
+      });
+      return {
+        score: whitespaceResult.score,
+        metrics: {
+          whitespaceRatio: whitespaceResult.metrics.whitespaceRatio,
+          elementDensityPerSection: {
+            gridSections: whitespaceResult.metrics.elementDensityPerSection.gridSections,
+            maxDensity: whitespaceResult.metrics.elementDensityPerSection.maxDensity,
+            averageDensity: whitespaceResult.metrics.elementDensityPerSection.averageDensity,
+            totalElements: whitespaceResult.metrics.elementDensityPerSection.totalElements
+          },
+          spacingAnalysis: {
+            headlineSpacing: { adequate: whitespaceResult.metrics.spacingAnalysis.headlineSpacing.adequate },
+            ctaSpacing: { adequate: whitespaceResult.metrics.spacingAnalysis.ctaSpacing.adequate },
+            contentBlockSpacing: { adequate: whitespaceResult.metrics.spacingAnalysis.contentBlockSpacing.adequate },
+            lineHeight: { adequate: whitespaceResult.metrics.spacingAnalysis.lineHeight.adequate }
+          },
+          clutterScore: whitespaceResult.metrics.clutterScore,
+          hasAdequateSpacing: whitespaceResult.metrics.hasAdequateSpacing
+        },
+        issues: whitespaceResult.issues,
+        recommendations: whitespaceResult.recommendations,
+        recommendationIds: whitespaceResult.recommendationIds,
+        loadTime: whitespaceResult.loadTime
+      };
+    },
+    fallback: () => ({
+      score: 0,
+      metrics: emptyWhitespaceMetrics(100),
+      issues: ['Whitespace assessment failed due to error'],
+      recommendations: [],
+      loadTime: 0
+    }),
+    emptyResult: () => ({
+      score: null,
+      metrics: emptyWhitespaceMetrics(0),
+      issues: [],
+      recommendations: [],
+      loadTime: 0
+    })
+  },
+  socialProof: {
+    run: async ({ url, forceBrowserless, getBrowser }) => {
+      const socialProofResult = await analyzeSocialProof(url, {
+        puppeteer: { forceBrowserless, browser: await getBrowser() }
+      });
+      console.log(`🏆 ${socialProofResult.elements.length} social proof elements found`);
+      return {
+        score: socialProofResult.score,
+        elements: socialProofResult.elements.map(element => ({
+          type: element.type,
+          text: element.text,
+          score: element.score,
+          isAboveFold: element.isAboveFold,
+          hasImage: element.hasImage,
+          hasName: element.hasName,
+          hasCompany: element.hasCompany,
+          hasRating: element.hasRating,
+          credibilityScore: element.credibilityScore,
+          visibility: element.visibility,
+          context: element.context
+        })),
+        summary: socialProofResult.summary,
+        issues: socialProofResult.issues,
+        recommendations: socialProofResult.recommendations,
+        recommendationIds: socialProofResult.recommendationIds
+      };
+    },
+    fallback: () => ({
+      score: 0,
+      elements: [],
+      summary: emptySocialProofSummary(),
+      issues: ['Social proof analysis failed due to error'],
+      recommendations: []
+    }),
+    emptyResult: () => ({
+      score: null,
+      elements: [],
+      summary: emptySocialProofSummary(),
+      issues: [],
+      recommendations: []
+    })
+  },
+  valueProposition: {
+    run: async ({ url, forceBrowserless, getBrowser }) => {
+      const valuePropositionResult = await analyzeValueProposition(url, {
+        puppeteer: { forceBrowserless, browser: await getBrowser() }
+      });
+      return {
+        score: valuePropositionResult.score,
+        headline: valuePropositionResult.headline,
+        subheadline: valuePropositionResult.subheadline,
+        headlineClarityScore: valuePropositionResult.headlineClarityScore,
+        benefitVsFeatureRatio: valuePropositionResult.benefitVsFeatureRatio,
+        benefitPhrases: valuePropositionResult.benefitPhrases,
+        featurePhrases: valuePropositionResult.featurePhrases,
+        vaguePhrases: valuePropositionResult.vaguePhrases,
+        specificityScore: valuePropositionResult.specificityScore,
+        uniqueValuePropositionDetected: valuePropositionResult.uniqueValuePropositionDetected,
+        timeToComprehensionMs: valuePropositionResult.timeToComprehensionMs,
+        issues: valuePropositionResult.issues,
+        recommendations: valuePropositionResult.recommendations,
+        recommendationIds: valuePropositionResult.recommendationIds
+      };
+    },
+    fallback: () => ({
+      ...emptyValueProposition(),
+      score: 0,
+      issues: ['Value proposition analysis failed due to error']
+    }),
+    emptyResult: () => ({ ...emptyValueProposition(), score: null })
+  },
+  form: {
+    run: async ({ url, forceBrowserless, getBrowser }) => {
+      const formResult = await analyzeFormOptimization(url, {
+        puppeteer: { forceBrowserless, browser: await getBrowser() }
+      });
+      console.log(`📋 ${formResult.formCount} forms with ${formResult.totalFields} fields found`);
+      return formResult;
+    },
+    fallback: () => ({
+      ...emptyFormOptimization(),
+      issues: ['Form analysis failed due to error']
+    }),
+    emptyResult: emptyFormOptimization
+  },
+  mobile: {
+    run: async ({ url, forceBrowserless, getBrowser }) => {
+      const mobileResult = await analyzeMobileConversion(url, {
+        puppeteer: { forceBrowserless, browser: await getBrowser() }
+      });
+      console.log(`📱 ${mobileResult.tapTargets.tooSmall} small tap targets, overflow: ${mobileResult.horizontalOverflow.detected}`);
+      return mobileResult;
+    },
+    fallback: () => ({
+      ...emptyMobileConversion(),
+      score: 0,
+      issues: ['Mobile analysis failed due to error']
+    }),
+    emptyResult: () => ({ ...emptyMobileConversion(), score: null })
+  },
+  psychologicalTriggers: {
+    run: async ({ url, forceBrowserless, getBrowser, completedResults }) => {
+      // Reuse the social proof result when it ran in this analysis
+      const triggersResult = await analyzePsychologicalTriggers(url, {
+        puppeteer: { forceBrowserless, browser: await getBrowser() },
+        socialProof: completedResults.socialProof
+      });
+      console.log(`🧠 ${triggersResult.countdownTimers.length} countdown timers, ${triggersResult.manipulativePatterns.length} manipulative patterns found`);
+      return triggersResult;
+    },
+    fallback: () => ({
+      ...emptyPsychologicalTriggers(),
+      score: 0,
+      issues: ['Psychological triggers analysis failed due to error']
+    }),
+    emptyResult: () => ({ ...emptyPsychologicalTriggers(), score: null })
+  },
+  copy: {
+    run: async ({ url, forceBrowserless, getBrowser }) => {
+      const copyResult = await analyzeCopyEffectiveness(url, {
+        puppeteer: { forceBrowserless, browser: await getBrowser() }
+      });
+      console.log(`✍️ ${copyResult.wordCount} words at grade ${copyResult.fleschKincaidGrade}`);
+      return copyResult;
+    },
+    fallback: () => ({
+      ...emptyCopyEffectiveness(),
+      score: 0,
+      issues: ['Copy analysis failed due to error']
+    }),
+    emptyResult: () => ({ ...emptyCopyEffectiveness(), score: null })
+  },
+  accessibility: {
+    run: async ({ url, forceBrowserless, getBrowser }) => {
+      const accessibilityResult = await analyzeAccessibility(url, {
+        puppeteer: { forceBrowserless, browser: await getBrowser() }
+      });
+      console.log(`♿ ${accessibilityResult.contrast.failing} contrast failures, ${accessibilityResult.formLabels.unlabeled} unlabeled fields`);
+      return accessibilityResult;
+    },
+    fallback: () => ({
+      ...emptyAccessibility(),
+      score: 0,
+      issues: ['Accessibility analysis failed due to error']
+    }),
+    emptyResult: () => ({ ...emptyAccessibility(), score: null })
+  },
+  seo: {
+    run: async ({ url, forceBrowserless, getBrowser }) => {
+      const seoResult = await analyzeSeo(url, {
+        puppeteer: { forceBrowserless, browser: await getBrowser() }
+      });
+      console.log(`🔎 Title ${seoResult.title.length} chars, ${seoResult.openGraph.missing.length} Open Graph tags missing, ${seoResult.structuredData.blocks} JSON-LD blocks`);
+      return seoResult;
+    },
+    fallback: () => ({
+      ...emptySeo(),
+      score: 0,
+      issues: ['SEO analysis failed due to error']
+    }),
+    emptyResult: () => ({ ...emptySeo(), score: null })
+  }
+};
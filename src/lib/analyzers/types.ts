@@ -0,0 +1,71 @@
+import type { Browser } from 'puppeteer-core';
+
+export type AnalyzerId = 'speed' | 'font' | 'image' | 'cta' | 'whitespace' | 'socialProof' | 'valueProposition' | 'form' | 'mobile' | 'psychologicalTriggers' | 'copy' | 'accessibility' | 'seo';
+
+/**
+ * How an analyzer's result is presented in the report
+ */
+export interface AnalyzerSection {
+  /** Heading of the collapsible report section */
+  title: string;
+  /** Short label for the score bar */
+  label: string;
+  icon: string;
+  /** DOM id of the report section, used for scroll links */
+  sectionId: string;
+  colorTheme: {
+    bgClass: string;
+    borderClass: string;
+  };
+  /** Position in the report, lowest first */
+  order: number;
+}
+
+/**
+ * Everything about an analyzer except how to run it. Safe to import from
+ * client components.
+ */
+export interface AnalyzerDefinition {
+  id: AnalyzerId;
+  /** Short name used in insights, e.g. "Page Speed" */
+  name: string;
+  /** Name used mid-sentence, e.g. "Your speed is excellent" */
+  shortName: string;
+  /** Full name used in emails, e.g. "Page Load Speed" */
+  fullName: string;
+  /** One line on what the analyzer checks */
+  description: string;
+  /** Key of the result on the analysis result object */
+  resultKey: string;
+  /** `analyses` column the result is stored in */
+  column: string;
+  /** Weight in the overall score, based on conversion impact */
+  weight: number;
+  /** Values accepted by the `component` filter */
+  aliases: string[];
+  /** Fields every result must include (result schema) */
+  requiredFields: string[];
+  section: AnalyzerSection;
+}
+
+export interface AnalyzerRunContext {
+  url: string;
+  forceBrowserless: boolean;
+  screenshotUrl?: string;
+  getBrowser: () => Promise<Browser>;
+  /** Results of analyzers that already completed in this run, for analyzers that build on them */
+  completedResults: Partial<Record<AnalyzerId, any>>;
+}
+
+/**
+ * Server-side half of an analyzer
+ */
+export interface AnalyzerRunner {
+  run: (context: AnalyzerRunContext) => Promise<any>;
+  /** Result used when the analyzer throws. Analyzers without one fail the whole analysis. */
+  fallback?: () => any;
+  /** Placeholder result (null score) used before the analyzer has run */
+  emptyResult: () => any;
+}
+
+export type AnalyzerModule = AnalyzerDefinition & AnalyzerRunner;
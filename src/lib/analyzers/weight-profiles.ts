@@ -0,0 +1,202 @@
+import { ANALYZER_DEFINITIONS } from './definitions';
+import type { AnalyzerId } from './types';
+
+export type WeightProfileId = 'saas' | 'ecommerce' | 'lead-gen' | 'agency' | 'custom';
+
+export type AnalyzerWeights = Record<AnalyzerId, number>;
+
+export interface WeightProfile {
+  id: Exclude<WeightProfileId, 'custom'>;
+  name: string;
+  description: string;
+  weights: AnalyzerWeights;
+}
+
+/**
+ * Weights used for the industry-adjusted score and how they were chosen.
+ * Stored with the analysis so the report can show them.
+ */
+export interface ScoringWeights {
+  /** null when no profile was requested or detected: only the raw score applies */
+  profile: WeightProfileId | null;
+  source: 'request' | 'industry' | null;
+  weights: AnalyzerWeights;
+}
+
+export const WEIGHT_PROFILE_IDS: WeightProfileId[] = ['saas', 'ecommerce', 'lead-gen', 'agency', 'custom'];
+
+/**
+ * Named weight profiles. Each profile's weights sum to 1, like the registry
+ * weights the raw score uses.
+ */
+export const WEIGHT_PROFILES: Record<WeightProfile['id'], WeightProfile> = {
+  saas: {
+    id: 'saas',
+    name: 'SaaS',
+    description: 'Headline clarity, sign-up CTAs, social proof and clear copy',
+    weights: {
+      speed: 0.10, font: 0.03, image: 0.03, cta: 0.14, whitespace: 0.06, socialProof: 0.12,
+      valueProposition: 0.16, form: 0.08, mobile: 0.06, psychologicalTriggers: 0.04, copy: 0.09,
+      accessibility: 0.05, seo: 0.04
+    }
+  },
+  ecommerce: {
+    id: 'ecommerce',
+    name: 'E-commerce',
+    description: 'Speed, product images, mobile, reviews and urgency',
+    weights: {
+      speed: 0.16, font: 0.03, image: 0.10, cta: 0.11, whitespace: 0.05, socialProof: 0.13,
+      valueProposition: 0.07, form: 0.04, mobile: 0.12, psychologicalTriggers: 0.07, copy: 0.03,
+      accessibility: 0.04, seo: 0.05
+    }
+  },
+  'lead-gen': {
+    id: 'lead-gen',
+    name: 'Lead Generation',
+    description: 'Form friction, CTAs and trust signals',
+    weights: {
+      speed: 0.10, font: 0.03, image: 0.03, cta: 0.15, whitespace: 0.06, socialProof: 0.12,
+      valueProposition: 0.12, form: 0.16, mobile: 0.08, psychologicalTriggers: 0.05, copy: 0.04,
+      accessibility: 0.03, seo: 0.03
+    }
+  },
+  agency: {
+    id: 'agency',
+    name: 'Agency',
+    description: 'Design polish, case studies and client logos',
+    weights: {
+      speed: 0.09, font: 0.07, image: 0.09, cta: 0.10, whitespace: 0.11, socialProof: 0.14,
+      valueProposition: 0.12, form: 0.07, mobile: 0.07, psychologicalTriggers: 0.02, copy: 0.05,
+      accessibility: 0.04, seo: 0.03
+    }
+  }
+};
+
+/** Industries (as stored in `detected_industry` and `users.industry`) mapped onto profiles */
+const INDUSTRY_PROFILES: Record<WeightProfile['id'], string[]> = {
+  saas: ['saas', 'software', 'app', 'technology', 'tech', 'developer tools'],
+  ecommerce: ['ecommerce', 'e-commerce', 'retail', 'shop', 'store', 'dtc', 'marketplace'],
+  'lead-gen': ['lead-gen', 'lead gen', 'consulting', 'local-service', 'local service', 'services', 'finance', 'insurance', 'real estate', 'legal', 'healthcare', 'education'],
+  agency: ['agency', 'design', 'portfolio', 'marketing agency', 'creative']
+};
+
+/**
+ * Registry weights, used for the raw overall score
+ */
+export function getDefaultWeights(): AnalyzerWeights {
+  return Object.fromEntries(ANALYZER_DEFINITIONS.map(analyzer => [analyzer.id, analyzer.weight])) as AnalyzerWeights;
+}
+
+export function isWeightProfileId(value: unknown): value is WeightProfileId {
+  return typeof value === 'string' && (WEIGHT_PROFILE_IDS as string[]).includes(value);
+}
+
+/**
+ * Validate custom weights from a request: analyzer ids mapped to
+ * non-negative numbers. Throws with a message that can be shown to the caller.
+ */
+export function parseCustomWeights(input: unknown): Partial<AnalyzerWeights> {
+  if (!input || typeof input !== 'object' || Array.isArray(input)) {
+    throw new Error('customWeights must be an object of analyzer ids to weights');
+  }
+
+  const weights: Partial<AnalyzerWeights> = {};
+  for (const [key, value] of Object.entries(input)) {
+    if (!ANALYZER_DEFINITIONS.some(analyzer => analyzer.id === key)) {
+      throw new Error(`Unknown analyzer in customWeights: ${key}`);
+    }
+    if (typeof value !== 'number' || !Number.isFinite(value) || value < 0) {
+      throw new Error(`Weight for ${key} must be a non-negative number`);
+    }
+    weights[key as AnalyzerId] = value;
+  }
+
+  if (Object.keys(weights).length === 0) {
+    throw new Error('customWeights must set at least one analyzer weight');
+  }
+  return weights;
+}
+
+/**
+ * Validate the `weightProfile` and `customWeights` request fields. Custom
+ * weights without a profile select the custom profile.
+ */
+export function parseWeightSelection(
+  profile: unknown,
+  customWeights: unknown
+): { profile?: WeightProfileId; customWeights?: Partial<AnalyzerWeights> } {
+  if (profile === undefined || profile === null) {
+    return customWeights === undefined || customWeights === null
+      ? {}
+      : { profile: 'custom', customWeights: parseCustomWeights(customWeights) };
+  }
+
+  if (!isWeightProfileId(profile)) {
+    throw new Error(`weightProfile must be one of: ${WEIGHT_PROFILE_IDS.join(', ')}`);
+  }
+  if (profile === 'custom') {
+    return { profile, customWeights: parseCustomWeights(customWeights) };
+  }
+  return { profile };
+}
+
+/**
+ * Weights for a profile, normalised to sum to 1. Custom weights override
+ * the registry weights for the analyzers they name.
+ */
+export function resolveWeights(profile: WeightProfileId, customWeights?: Partial<AnalyzerWeights>): AnalyzerWeights {
+  const weights = profile === 'custom'
+    ? { ...getDefaultWeights(), ...customWeights }
+    : { ...WEIGHT_PROFILES[profile].weights };
+
+  const total = Object.values(weights).reduce((sum, weight) => sum + weight, 0);
+  if (total <= 0) {
+    return getDefaultWeights();
+  }
+
+  return Object.fromEntries(
+    Object.entries(weights).map(([id, weight]) => [id, Math.round((weight / total) * 10000) / 10000])
+  ) as AnalyzerWeights;
+}
+
+/**
+ * Profile for a detected or self-reported industry, if one fits
+ */
+export function getWeightProfileForIndustry(industry?: string | null): WeightProfile['id'] | null {
+  const normalized = industry?.trim().toLowerCase();
+  if (!normalized) {
+    return null;
+  }
+  const match = (Object.keys(INDUSTRY_PROFILES) as WeightProfile['id'][])
+    .find(profile => INDUSTRY_PROFILES[profile].includes(normalized));
+  return match || null;
+}
+
+/**
+ * Pick the weights for the industry-adjusted score: a requested profile
+ * wins, then the profile for the detected industry
+ */
+export function selectScoringWeights(options: {
+  profile?: WeightProfileId;
+  customWeights?: Partial<AnalyzerWeights>;
+  industry?: string | null;
+}): ScoringWeights {
+  if (options.profile) {
+    return {
+      profile: options.profile,
+      source: 'request',
+      weights: resolveWeights(options.profile, options.customWeights)
+    };
+  }
+
+  const industryProfile = getWeightProfileForIndustry(options.industry);
+  if (industryProfile) {
+    return {
+      profile: industryProfile,
+      source: 'industry',
+      weights: resolveWeights(industryProfile)
+    };
+  }
+
+  return { profile: null, source: null, weights: getDefaultWeights() };
+}
@@ -0,0 +1,107 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { findApiKey, getQuotaDayStart, meterApiRequest } from '@/lib/api-keys';
+import { createMemoryRateLimiter, type RateLimiter } from '@/lib/rate-limit';
+import type { ApiKey } from '@/types/database';
+
+const RATE_LIMIT_WINDOW_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const apiRateLimiter = createMemoryRateLimiter();
+
+export type ApiAuthResult =
+  | { apiKey: ApiKey; headers: Record<string, string> }
+  | { response: Response };
+
+/**
+ * Key presented as `Authorization: Bearer <key>` or `X-API-Key: <key>`
+ */
+export function readApiKey(request: NextRequest): string | null {
+  const authorization = request.headers.get('authorization');
+  if (authorization?.startsWith('Bearer ')) {
+    return authorization.slice('Bearer '.length).trim() || null;
+  }
+  return request.headers.get('x-api-key')?.trim() || null;
+}
+
+function apiError(status: number, code: string, message: string, headers: Record<string, string> = {}, extra: Record<string, unknown> = {}): Response {
+  return applyApiHeaders(NextResponse.json({ error: message, code, ...extra }, { status }), headers);
+}
+
+/**
+ * Set rate limit and quota headers on a response
+ */
+export function applyApiHeaders<T extends Response>(response: T, headers: Record<string, string>): T {
+  for (const [name, value] of Object.entries(headers)) {
+    response.headers.set(name, value);
+  }
+  return response;
+}
+
+/**
+ * Authenticate a /api/v1 request and enforce its key's per-minute rate
+ * limit and daily quota. Returns the key and the headers to send with the
+ * response, or the 401/429 response to send instead. Allowed requests are
+ * metered against the daily quota.
+ */
+export async function authorizeApiRequest(
+  request: NextRequest,
+  endpoint: string,
+  options: { now?: Date; rateLimiter?: RateLimiter } = {}
+): Promise<ApiAuthResult> {
+  const { now = new Date(), rateLimiter = apiRateLimiter } = options;
+
+  const key = readApiKey(request);
+  if (!key) {
+    return {
+      response: apiError(401, 'missing_api_key', 'An API key is required. Send it as "Authorization: Bearer <key>".', {
+        'WWW-Authenticate': 'Bearer'
+      })
+    };
+  }
+
+  const apiKey = await findApiKey(key);
+  if (!apiKey) {
+    return {
+      response: apiError(401, 'invalid_api_key', 'The API key is invalid or has been revoked.', {
+        'WWW-Authenticate': 'Bearer error="invalid_token"'
+      })
+    };
+  }
+
+  const rate = rateLimiter.hit(apiKey.id, apiKey.rate_limit_per_minute, RATE_LIMIT_WINDOW_MS);
+  const headers: Record<string, string> = {
+    'X-RateLimit-Limit': String(rate.limit),
+    'X-RateLimit-Remaining': String(rate.remaining),
+    'X-RateLimit-Reset': String(Math.ceil(rate.resetAt / 1000))
+  };
+
+  if (!rate.allowed) {
+    const retryAfter = Math.max(Math.ceil((rate.resetAt - now.getTime()) / 1000), 1);
+    return {
+      response: apiError(429, 'rate_limit_exceeded', `Rate limit of ${rate.limit} requests per minute exceeded.`, {
+        ...headers,
+        'Retry-After': String(retryAfter)
+      }, { retryAfter })
+    };
+  }
+
+  const used = await meterApiRequest(apiKey.id, endpoint, now);
+  const quotaResetAt = getQuotaDayStart(now).getTime() + DAY_MS;
+  headers['X-Quota-Limit'] = String(apiKey.daily_quota);
+  headers['X-Quota-Reset'] = String(Math.ceil(quotaResetAt / 1000));
+
+  if (used >= apiKey.daily_quota) {
+    const retryAfter = Math.ceil((quotaResetAt - now.getTime()) / 1000);
+    headers['X-Quota-Remaining'] = '0';
+    return {
+      response: apiError(429, 'daily_quota_exceeded', `Daily quota of ${apiKey.daily_quota} requests exceeded. It resets at midnight UTC.`, {
+        ...headers,
+        'Retry-After': String(retryAfter)
+      }, { retryAfter })
+    };
+  }
+
+  headers['X-Quota-Remaining'] = String(apiKey.daily_quota - used - 1);
+
+  return { apiKey, headers };
+}
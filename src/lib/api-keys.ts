@@ -0,0 +1,139 @@
+import { createHash, randomBytes } from 'crypto';
+import { supabaseAdmin } from '@/lib/supabase';
+import type { ApiKey } from '@/types/database';
+
+/** Every key starts with this, so leaked keys are easy to search for */
+export const API_KEY_PREFIX = 'lpr_';
+
+export const DEFAULT_RATE_LIMIT_PER_MINUTE = 10;
+export const DEFAULT_DAILY_QUOTA = 200;
+
+const API_KEY_COLUMNS = 'id, user_id, name, key_prefix, rate_limit_per_minute, daily_quota, created_at, revoked_at';
+
+export function generateApiKey(): string {
+  return `${API_KEY_PREFIX}${randomBytes(24).toString('base64url')}`;
+}
+
+/**
+ * Keys are stored as SHA-256 hashes; they are random enough that a salt
+ * adds nothing, and the hash can be looked up directly
+ */
+export function hashApiKey(key: string): string {
+  return createHash('sha256').update(key).digest('hex');
+}
+
+/**
+ * Create a key for a user. The key itself is only returned here; afterwards
+ * only its hash and prefix are stored.
+ */
+export async function createApiKey(
+  userId: string,
+  options: { name: string; rateLimitPerMinute?: number; dailyQuota?: number }
+): Promise<{ apiKey: ApiKey; key: string }> {
+  const key = generateApiKey();
+
+  const { data, error } = await supabaseAdmin
+    .from('api_keys')
+    .insert({
+      user_id: userId,
+      name: options.name,
+      key_hash: hashApiKey(key),
+      key_prefix: key.slice(0, API_KEY_PREFIX.length + 6),
+      rate_limit_per_minute: options.rateLimitPerMinute ?? DEFAULT_RATE_LIMIT_PER_MINUTE,
+      daily_quota: options.dailyQuota ?? DEFAULT_DAILY_QUOTA
+    })
+    .select(API_KEY_COLUMNS)
+    .single();
+
+  if (error || !data) {
+    throw new Error(`Failed to create API key: ${error?.message || 'no record returned'}`);
+  }
+
+  console.log(`🔑 Created API key ${data.key_prefix}… for user ${userId}`);
+  return { apiKey: data, key };
+}
+
+/**
+ * Revoke a key; returns false when there is no active key with this ID
+ */
+export async function revokeApiKey(id: string): Promise<boolean> {
+  const { data, error } = await supabaseAdmin
+    .from('api_keys')
+    .update({ revoked_at: new Date().toISOString() })
+    .eq('id', id)
+    .is('revoked_at', null)
+    .select('id');
+
+  if (error) {
+    throw new Error(`Failed to revoke API key: ${error.message}`);
+  }
+
+  return (data?.length ?? 0) > 0;
+}
+
+/**
+ * The active key matching a key presented by a client, if any
+ */
+export async function findApiKey(key: string): Promise<ApiKey | null> {
+  if (!key.startsWith(API_KEY_PREFIX)) {
+    return null;
+  }
+
+  const { data, error } = await supabaseAdmin
+    .from('api_keys')
+    .select(API_KEY_COLUMNS)
+    .eq('key_hash', hashApiKey(key))
+    .is('revoked_at', null)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to look up API key: ${error.message}`);
+  }
+
+  return data;
+}
+
+/**
+ * Start of the current UTC day; daily quotas reset at midnight UTC
+ */
+export function getQuotaDayStart(now: Date = new Date()): Date {
+  return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()));
+}
+
+/**
+ * Requests made with a key since the start of the current UTC day
+ */
+export async function countRequestsToday(apiKeyId: string, now: Date = new Date()): Promise<number> {
+  const { count, error } = await supabaseAdmin
+    .from('api_usage')
+    .select('*', { count: 'exact', head: true })
+    .eq('api_key_id', apiKeyId)
+    .gte('created_at', getQuotaDayStart(now).toISOString());
+
+  if (error) {
+    throw new Error(`Failed to count API usage: ${error.message}`);
+  }
+
+  return count ?? 0;
+}
+
+/**
+ * Meter one request made with a key against its daily quota. The quota
+ * check and the insert happen in one database call, so concurrent requests
+ * can't all slip under the quota. Returns the requests made with the key
+ * today before this one; the request was only recorded if that is under the
+ * key's daily quota.
+ */
+export async function meterApiRequest(apiKeyId: string, endpoint: string, now: Date = new Date()): Promise<number> {
+  const { data, error } = await supabaseAdmin.rpc('meter_api_request', {
+    key_id: apiKeyId,
+    request_endpoint: endpoint,
+    day_start: getQuotaDayStart(now).toISOString()
+  });
+
+  if (error) {
+    throw new Error(`Failed to meter API usage: ${error.message}`);
+  }
+
+  return data ?? 0;
+}
@@ -0,0 +1,334 @@
+import { supabaseAdmin } from '@/lib/supabase';
+import { parseAnalysisUrl } from '@/lib/url-validation';
+import { getAnalyzersInDisplayOrder } from '@/lib/analyzers/definitions';
+import { formatCsv, type ExportValue } from '@/lib/analysis-export';
+import type { AnalyzerId } from '@/lib/analyzers/types';
+import type { AnalysisBatch, BatchItem, BatchSummary } from '@/types/database';
+
+/** Most URLs accepted in one upload */
+export const MAX_BATCH_URLS = 100;
+
+/**
+ * Analyses of one batch waiting in the queue or running at a time, so a
+ * large upload doesn't hold the shared browser for everyone else
+ */
+export const BATCH_CONCURRENCY = 3;
+
+/** Batch analyses wait behind analyses someone is watching the progress of */
+export const BATCH_PRIORITY = 0;
+
+export interface BatchInputItem {
+  url: string;
+  label: string | null;
+}
+
+export interface InvalidBatchRow {
+  /** 1-based line of the CSV, or position in the URL list */
+  row: number;
+  value: string;
+}
+
+/**
+ * Split one CSV line into cells, handling quoted cells and doubled quotes
+ */
+function parseCsvLine(line: string): string[] {
+  const cells: string[] = [];
+  let cell = '';
+  let quoted = false;
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (quoted) {
+      if (char === '"' && line[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      cells.push(cell);
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+  cells.push(cell);
+
+  return cells.map(value => value.trim());
+}
+
+/**
+ * Read `url,label` rows from an uploaded CSV. A header row naming a `url`
+ * column (and optionally a `label` column) may put them in any order;
+ * without one the first column is the URL and the second the label.
+ */
+export function parseBatchCsv(csv: string): Array<{ row: number; url: string; label: string | null }> {
+  const lines = csv.replace(/^\uFEFF/, '').split(/\r?\n/);
+  const header = parseCsvLine(lines[0] || '').map(cell => cell.toLowerCase());
+  const hasHeader = header.includes('url');
+  const urlIndex = hasHeader ? header.indexOf('url') : 0;
+  const labelIndex = hasHeader ? header.indexOf('label') : 1;
+
+  const rows: Array<{ row: number; url: string; label: string | null }> = [];
+  lines.forEach((line, index) => {
+    if ((hasHeader && index === 0) || !line.trim()) {
+      return;
+    }
+    const cells = parseCsvLine(line);
+    rows.push({
+      row: index + 1,
+      url: cells[urlIndex] || '',
+      label: (labelIndex >= 0 && cells[labelIndex]) || null
+    });
+  });
+
+  return rows;
+}
+
+/**
+ * Validate uploaded URLs. URLs without a protocol get https://, and a URL
+ * listed twice is analyzed once with its first label.
+ */
+export function prepareBatchItems(
+  rows: Array<{ row: number; url: string; label: string | null }>
+): { items: BatchInputItem[]; invalid: InvalidBatchRow[] } {
+  const items: BatchInputItem[] = [];
+  const invalid: InvalidBatchRow[] = [];
+  const seen = new Set<string>();
+
+  for (const { row, url, label } of rows) {
+    const trimmed = url.trim();
+    const withProtocol = /^https?:\/\//i.test(trimmed) ? trimmed : `https://${trimmed}`;
+    let normalizedUrl: string;
+    try {
+      normalizedUrl = parseAnalysisUrl(withProtocol).toString();
+    } catch {
+      invalid.push({ row, value: url });
+      continue;
+    }
+
+    if (!seen.has(normalizedUrl)) {
+      seen.add(normalizedUrl);
+      items.push({ url: normalizedUrl, label: label?.trim() || null });
+    }
+  }
+
+  return { items, invalid };
+}
+
+/**
+ * Store a new batch; its analyses are queued by the caller
+ */
+export async function createBatchRecord(userId: string, name: string | null, itemCount: number): Promise<{ id: string }> {
+  const { data, error } = await supabaseAdmin
+    .from('analysis_batches')
+    .insert({
+      user_id: userId,
+      name,
+      status: 'processing',
+      item_count: itemCount
+    })
+    .select('id')
+    .single();
+
+  if (error || !data) {
+    throw new Error(`Failed to create batch: ${error?.message || 'no record returned'}`);
+  }
+
+  return { id: data.id };
+}
+
+/**
+ * Delete a batch that could not be queued in full, with the analyses already
+ * queued for it that have not started. Problems are logged rather than
+ * thrown, since the caller is already handling a failure.
+ */
+export async function discardBatch(batchId: string): Promise<void> {
+  const { error: analysesError } = await supabaseAdmin
+    .from('analyses')
+    .delete()
+    .eq('job_options->>batch_id', batchId)
+    .in('status', ['pending', 'queued']);
+
+  if (analysesError) {
+    console.error(`⚠️ Failed to delete the analyses of batch ${batchId}:`, analysesError);
+  }
+
+  const { error: batchError } = await supabaseAdmin
+    .from('analysis_batches')
+    .delete()
+    .eq('id', batchId);
+
+  if (batchError) {
+    console.error(`⚠️ Failed to delete batch ${batchId}:`, batchError);
+  }
+}
+
+/**
+ * Move the batch's oldest 'pending' analyses into the queue until
+ * BATCH_CONCURRENCY of them are queued or running. Called when the batch is
+ * created and whenever one of its analyses finishes; once none are left the
+ * batch is marked completed. Returns the IDs that were queued.
+ */
+export async function releaseBatchJobs(batchId: string): Promise<string[]> {
+  const { data: analyses, error } = await supabaseAdmin
+    .from('analyses')
+    .select('id, status')
+    .eq('job_options->>batch_id', batchId)
+    .order('created_at', { ascending: true });
+
+  if (error) {
+    throw new Error(`Failed to load batch analyses: ${error.message}`);
+  }
+
+  const rows = analyses || [];
+  const active = rows.filter(row => row.status === 'queued' || row.status === 'processing').length;
+  const pending = rows.filter(row => row.status === 'pending');
+  const released: string[] = [];
+
+  for (const row of pending.slice(0, Math.max(BATCH_CONCURRENCY - active, 0))) {
+    // Only a row that is still pending is queued, so two finishing jobs never release it twice
+    const { data: queued, error: releaseError } = await supabaseAdmin
+      .from('analyses')
+      .update({ status: 'queued' })
+      .eq('id', row.id)
+      .eq('status', 'pending')
+      .select('id');
+
+    if (releaseError) {
+      console.error(`⚠️ Failed to queue batch analysis ${row.id}:`, releaseError);
+    } else if (queued?.length) {
+      released.push(row.id);
+    }
+  }
+
+  if (active === 0 && pending.length === 0) {
+    const { error: completeError } = await supabaseAdmin
+      .from('analysis_batches')
+      .update({ status: 'completed', completed_at: new Date().toISOString() })
+      .eq('id', batchId)
+      .eq('status', 'processing');
+
+    if (completeError) {
+      console.error(`⚠️ Failed to mark batch ${batchId} completed:`, completeError);
+    } else {
+      console.log(`📦 Batch ${batchId} finished`);
+    }
+  } else if (released.length > 0) {
+    console.log(`📦 Queued ${released.length} more analyses of batch ${batchId}`);
+  }
+
+  return released;
+}
+
+interface BatchAnalysisRow {
+  id: string;
+  url: string;
+  status: BatchItem['status'];
+  overall_score: number | null;
+  grade: BatchItem['grade'];
+  error_message: string | null;
+  progress: { modules?: Partial<Record<AnalyzerId, { score?: number | null }>> } | null;
+  job_options: { batch_label?: string } | null;
+}
+
+/**
+ * Per-URL status and scores of a batch, in upload order
+ */
+export function buildBatchSummary(batch: AnalysisBatch, analyses: BatchAnalysisRow[]): BatchSummary {
+  const items: BatchItem[] = analyses.map(analysis => {
+    const moduleScores: BatchItem['moduleScores'] = {};
+    for (const [moduleId, moduleProgress] of Object.entries(analysis.progress?.modules || {})) {
+      moduleScores[moduleId as AnalyzerId] = moduleProgress?.score ?? null;
+    }
+
+    return {
+      analysisId: analysis.id,
+      url: analysis.url,
+      label: analysis.job_options?.batch_label || null,
+      status: analysis.status,
+      overallScore: analysis.status === 'completed' ? analysis.overall_score : null,
+      grade: analysis.status === 'completed' ? analysis.grade : null,
+      moduleScores,
+      // A job being retried keeps the error of its last attempt; only show final failures
+      error: analysis.status === 'failed' ? analysis.error_message : null
+    };
+  });
+
+  const scores = items
+    .map(item => item.overallScore)
+    .filter((score): score is number => score !== null);
+  const completed = items.filter(item => item.status === 'completed').length;
+  const failed = items.filter(item => item.status === 'failed').length;
+
+  return {
+    batchId: batch.id,
+    name: batch.name,
+    status: batch.status,
+    createdAt: batch.created_at,
+    completedAt: batch.completed_at,
+    total: items.length,
+    completed,
+    failed,
+    remaining: items.length - completed - failed,
+    averageScore: scores.length > 0 ? Math.round(scores.reduce((sum, score) => sum + score, 0) / scores.length) : null,
+    items
+  };
+}
+
+/**
+ * Load a batch and its analyses; null when there is no such batch
+ */
+export async function getBatchSummary(batchId: string): Promise<BatchSummary | null> {
+  const { data: batch, error: batchError } = await supabaseAdmin
+    .from('analysis_batches')
+    .select('id, user_id, name, status, item_count, created_at, completed_at')
+    .eq('id', batchId)
+    .single();
+
+  if (batchError || !batch) {
+    return null;
+  }
+
+  const { data: analyses, error } = await supabaseAdmin
+    .from('analyses')
+    .select('id, url, status, overall_score, grade, error_message, progress, job_options')
+    .eq('job_options->>batch_id', batchId)
+    .order('created_at', { ascending: true });
+
+  if (error) {
+    throw new Error(`Failed to load batch analyses: ${error.message}`);
+  }
+
+  return buildBatchSummary(batch, analyses || []);
+}
+
+/**
+ * Consolidated batch summary as CSV: one row per URL with its status,
+ * overall and per-module scores and a link to the full report
+ */
+export function toBatchSummaryCsv(summary: BatchSummary, baseUrl: string): string {
+  const analyzers = getAnalyzersInDisplayOrder();
+  const header: ExportValue[] = [
+    'label', 'url', 'status', 'overall_score', 'grade', 'error', 'report_url',
+    ...analyzers.map(analyzer => `${analyzer.id}.score`)
+  ];
+
+  return formatCsv([
+    header,
+    ...summary.items.map(item => [
+      item.label,
+      item.url,
+      item.status,
+      item.overallScore,
+      item.grade,
+      item.error,
+      item.status === 'completed' ? `${baseUrl}/reports/${item.analysisId}` : null,
+      ...analyzers.map(analyzer => item.moduleScores[analyzer.id] ?? null)
+    ])
+  ]);
+}
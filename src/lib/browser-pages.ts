@@ -0,0 +1,25 @@
+import type { Browser, BrowserContext, Page } from 'puppeteer-core';
+
+/**
+ * Run `setup` on every page the browser opens, including pages in new
+ * browser contexts, before the page is handed out
+ */
+export function onNewPage(browser: Browser, setup: (page: Page) => Promise<void>): Browser {
+  const prepare = async (page: Page) => {
+    await setup(page);
+    return page;
+  };
+
+  const newPage = browser.newPage.bind(browser);
+  browser.newPage = async (...args: Parameters<Browser['newPage']>) => prepare(await newPage(...args));
+
+  const createBrowserContext = browser.createBrowserContext.bind(browser);
+  browser.createBrowserContext = async (...args: Parameters<Browser['createBrowserContext']>) => {
+    const context = await createBrowserContext(...args);
+    const contextNewPage = context.newPage.bind(context);
+    context.newPage = async (...pageArgs: Parameters<BrowserContext['newPage']>) => prepare(await contextNewPage(...pageArgs));
+    return context;
+  };
+
+  return browser;
+}
@@ -0,0 +1,55 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { applyApiHeaders } from '@/lib/api-auth';
+import { createMemoryRateLimiter, type RateLimiter } from '@/lib/rate-limit';
+
+const RATE_LIMIT_WINDOW_MS = 60 * 1000;
+
+/** Requests per minute one client IP may make to each public endpoint */
+export const CLIENT_RATE_LIMITS = {
+  analyze: 10,
+  batches: 2,
+  compare: 5,
+  pdf: 5
+} as const;
+
+export type RateLimitedEndpoint = keyof typeof CLIENT_RATE_LIMITS;
+
+const clientRateLimiter = createMemoryRateLimiter();
+
+/**
+ * Address of the client that sent a request: the first hop of
+ * X-Forwarded-For as set by the hosting proxy, then X-Real-IP
+ */
+export function getClientIp(request: NextRequest): string {
+  const forwardedFor = request.headers.get('x-forwarded-for')?.split(',')[0]?.trim();
+  return forwardedFor || request.headers.get('x-real-ip')?.trim() || 'unknown';
+}
+
+/**
+ * Count a request to a public endpoint against its client IP. Returns the
+ * 429 response to send once the IP is over the endpoint's per-minute limit,
+ * or null when the request may go ahead.
+ */
+export function limitClientRequest(
+  request: NextRequest,
+  endpoint: RateLimitedEndpoint,
+  options: { now?: Date; rateLimiter?: RateLimiter } = {}
+): Response | null {
+  const { now = new Date(), rateLimiter = clientRateLimiter } = options;
+
+  const rate = rateLimiter.hit(`${endpoint}:${getClientIp(request)}`, CLIENT_RATE_LIMITS[endpoint], RATE_LIMIT_WINDOW_MS);
+  if (rate.allowed) {
+    return null;
+  }
+
+  const retryAfter = Math.max(Math.ceil((rate.resetAt - now.getTime()) / 1000), 1);
+  return applyApiHeaders(NextResponse.json(
+    { error: `Too many requests. Try again in ${retryAfter} seconds.`, retryAfter },
+    { status: 429 }
+  ), {
+    'Retry-After': String(retryAfter),
+    'X-RateLimit-Limit': String(rate.limit),
+    'X-RateLimit-Remaining': String(rate.remaining),
+    'X-RateLimit-Reset': String(Math.ceil(rate.resetAt / 1000))
+  });
+}
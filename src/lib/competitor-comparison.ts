@@ -0,0 +1,252 @@
+import { supabaseAdmin } from '@/lib/supabase';
+import { ANALYZER_COLUMNS, getAnalyzersInDisplayOrder, mapAnalyzerColumns } from '@/lib/analyzers/definitions';
+import type { AnalyzerId } from '@/lib/analyzers/types';
+import type { Analysis, CompetitiveAnalysis } from '@/types/database';
+
+/** Most competitor URLs a comparison accepts */
+export const MAX_COMPETITORS = 4;
+
+/** Score difference within which two pages count as level */
+export const TIE_MARGIN = 5;
+
+/**
+ * One analysis taking part in a comparison, with its results keyed by
+ * analyzer result key
+ */
+export interface ComparedAnalysis {
+  id: string;
+  url: string;
+  status: Analysis['status'];
+  overallScore: number | null;
+  results: Record<string, any>;
+}
+
+type PatternExtractor = (leaderResult: any, primaryResult: any) => string | null;
+
+function plural(count: number, word: string): string {
+  return `${count} ${word}${count === 1 ? '' : 's'}`;
+}
+
+/**
+ * What the leading competitor does on a module, phrased as something the
+ * primary page can borrow. Modules without one only show up in the matrix.
+ */
+const PATTERN_EXTRACTORS: Partial<Record<AnalyzerId, PatternExtractor>> = {
+  cta: leaderResult => {
+    const primaryCTA = leaderResult?.primaryCTA;
+    if (!primaryCTA?.text) {
+      return null;
+    }
+    return `Primary CTA reads "${primaryCTA.text}" (${primaryCTA.actionStrength} action wording, in the ${primaryCTA.context})`;
+  },
+  socialProof: (leaderResult, primaryResult) => {
+    const primaryTypes = new Set((primaryResult?.elements || []).map((element: any) => element.type));
+    const leaderTypes: string[] = Array.from(new Set((leaderResult?.elements || []).map((element: any) => element.type)));
+    const missingTypes = leaderTypes.filter(type => !primaryTypes.has(type));
+    if (missingTypes.length === 0) {
+      return null;
+    }
+    return `Uses ${missingTypes.map(type => type.replace('-', ' ')).join(', ')} as social proof`;
+  },
+  valueProposition: leaderResult =>
+    leaderResult?.headline ? `Headline: "${leaderResult.headline}"` : null,
+  form: leaderResult => {
+    if (!leaderResult?.formCount) {
+      return null;
+    }
+    return `Asks for ${plural(leaderResult.totalFields, 'field')} across ${plural(leaderResult.formCount, 'form')}`;
+  },
+  speed: leaderResult =>
+    leaderResult?.metrics?.loadTime ? `Loads in ${leaderResult.metrics.loadTime}s` : null,
+  psychologicalTriggers: leaderResult => {
+    const phrases = [...(leaderResult?.authorityPhrases || []), ...(leaderResult?.reciprocityOffers || [])];
+    if (phrases.length === 0) {
+      return null;
+    }
+    return `Builds trust with ${phrases.slice(0, 3).map(phrase => `"${phrase}"`).join(', ')}`;
+  },
+  copy: leaderResult => {
+    if (typeof leaderResult?.fleschKincaidGrade !== 'number') {
+      return null;
+    }
+    return `Copy reads at grade ${leaderResult.fleschKincaidGrade} with ${leaderResult.averageSentenceLength}-word sentences on average`;
+  }
+};
+
+function getScore(analysis: ComparedAnalysis, resultKey: string): number | null {
+  if (analysis.status !== 'completed') {
+    return null;
+  }
+  const score = analysis.results[resultKey]?.score;
+  return typeof score === 'number' ? score : null;
+}
+
+function compareScores(score: number, otherScore: number): 'win' | 'loss' | 'tie' {
+  if (score - otherScore > TIE_MARGIN) {
+    return 'win';
+  }
+  if (otherScore - score > TIE_MARGIN) {
+    return 'loss';
+  }
+  return 'tie';
+}
+
+/**
+ * Compare the primary analysis with its competitors module by module. The
+ * primary page wins a module when it beats the best competitor by more
+ * than TIE_MARGIN, and loses it when the best competitor beats it by more.
+ */
+export function buildCompetitiveAnalysis(
+  primary: ComparedAnalysis,
+  competitors: ComparedAnalysis[]
+): CompetitiveAnalysis {
+  const matrix: CompetitiveAnalysis['matrix'] = [];
+  const patternsToBorrow: CompetitiveAnalysis['patternsToBorrow'] = [];
+
+  for (const analyzer of getAnalyzersInDisplayOrder()) {
+    const primaryScore = getScore(primary, analyzer.resultKey);
+    const competitorScores = competitors.map(competitor => getScore(competitor, analyzer.resultKey));
+
+    if (primaryScore === null && competitorScores.every(score => score === null)) {
+      continue;
+    }
+
+    let leaderIndex = -1;
+    competitorScores.forEach((score, index) => {
+      if (score !== null && (leaderIndex === -1 || score > competitorScores[leaderIndex]!)) {
+        leaderIndex = index;
+      }
+    });
+    const bestCompetitorScore = leaderIndex === -1 ? null : competitorScores[leaderIndex];
+
+    let leaderUrl: string | null = null;
+    if (primaryScore !== null && (bestCompetitorScore === null || primaryScore >= bestCompetitorScore)) {
+      leaderUrl = primary.url;
+    } else if (leaderIndex !== -1) {
+      leaderUrl = competitors[leaderIndex].url;
+    }
+
+    const outcome = primaryScore !== null && bestCompetitorScore !== null
+      ? compareScores(primaryScore, bestCompetitorScore)
+      : null;
+
+    matrix.push({
+      analyzerId: analyzer.id,
+      name: analyzer.name,
+      primaryScore,
+      competitorScores,
+      leaderUrl,
+      outcome
+    });
+
+    if (outcome === 'loss') {
+      const leader = competitors[leaderIndex];
+      const pattern = PATTERN_EXTRACTORS[analyzer.id]?.(
+        leader.results[analyzer.resultKey],
+        primary.results[analyzer.resultKey]
+      );
+      if (pattern) {
+        patternsToBorrow.push({ analyzerId: analyzer.id, competitorUrl: leader.url, pattern });
+      }
+    }
+  }
+
+  const score = primary.status === 'completed' ? primary.overallScore : null;
+  const competitorOverallScores = competitors
+    .filter(competitor => competitor.status === 'completed' && competitor.overallScore !== null)
+    .map(competitor => competitor.overallScore as number);
+  const competitorAverage = competitorOverallScores.length > 0
+    ? Math.round(competitorOverallScores.reduce((sum, overallScore) => sum + overallScore, 0) / competitorOverallScores.length)
+    : null;
+
+  let marketPosition: CompetitiveAnalysis['marketPosition'] = null;
+  if (score !== null && competitorAverage !== null) {
+    const position = compareScores(score, competitorAverage);
+    marketPosition = position === 'win' ? 'above_average' : position === 'loss' ? 'below_average' : 'average';
+  }
+
+  const isFinished = (analysis: ComparedAnalysis) => analysis.status === 'completed' || analysis.status === 'failed';
+  let status: CompetitiveAnalysis['status'] = 'completed';
+  if (primary.status === 'failed') {
+    status = 'failed';
+  } else if (!isFinished(primary) || !competitors.every(isFinished)) {
+    status = 'pending';
+  }
+
+  return {
+    status,
+    score,
+    competitorAverage,
+    marketPosition,
+    competitors: competitors.map(competitor => ({
+      analysisId: competitor.id,
+      url: competitor.url,
+      status: competitor.status,
+      overallScore: competitor.status === 'completed' ? competitor.overallScore : null
+    })),
+    matrix,
+    wins: matrix.filter(row => row.outcome === 'win').map(row => row.name),
+    losses: matrix.filter(row => row.outcome === 'loss').map(row => row.name),
+    patternsToBorrow,
+    updatedAt: new Date().toISOString()
+  };
+}
+
+function toComparedAnalysis(row: Record<string, any>): ComparedAnalysis {
+  return {
+    id: row.id,
+    url: row.url,
+    status: row.status,
+    overallScore: row.overall_score ?? null,
+    results: mapAnalyzerColumns(row)
+  };
+}
+
+/**
+ * Rebuild the comparison stored on a primary analysis from the current
+ * state of it and its competitor analyses. Called whenever one of them
+ * finishes, so the matrix fills in as results arrive.
+ */
+export async function refreshCompetitiveAnalysis(primaryId: string): Promise<CompetitiveAnalysis | null> {
+  const columns = `id, url, status, overall_score, ${ANALYZER_COLUMNS}`;
+
+  const { data: primary, error: primaryError } = await supabaseAdmin
+    .from('analyses')
+    .select(columns)
+    .eq('id', primaryId)
+    .single();
+
+  if (primaryError || !primary) {
+    console.error(`❌ Failed to load comparison ${primaryId}:`, primaryError);
+    return null;
+  }
+
+  const { data: competitors, error: competitorsError } = await supabaseAdmin
+    .from('analyses')
+    .select(columns)
+    .eq('job_options->>comparison_id', primaryId)
+    .order('created_at', { ascending: true });
+
+  if (competitorsError) {
+    console.error(`❌ Failed to load competitor analyses for ${primaryId}:`, competitorsError);
+    return null;
+  }
+
+  const competitiveAnalysis = buildCompetitiveAnalysis(
+    toComparedAnalysis(primary),
+    (competitors || []).map(toComparedAnalysis)
+  );
+
+  const { error: updateError } = await supabaseAdmin
+    .from('analyses')
+    .update({ competitive_analysis: competitiveAnalysis })
+    .eq('id', primaryId);
+
+  if (updateError) {
+    console.error(`❌ Failed to save comparison ${primaryId}:`, updateError);
+    return null;
+  }
+
+  console.log(`🏁 Comparison ${primaryId} updated (${competitiveAnalysis.status}): ${competitiveAnalysis.wins.length} wins, ${competitiveAnalysis.losses.length} losses`);
+  return competitiveAnalysis;
+}
@@ -0,0 +1,210 @@
+import type { AnalyzerId } from '@/lib/analyzers/types';
+import type { WeightProfileId } from '@/lib/analyzers/weight-profiles';
+
+/**
+ * A page measurement that moves the conversion estimate. The factor adds
+ * `coefficient × (value − reference)` to the log-odds of converting, with the
+ * value first clamped to `floor`/`cap`: a page at the reference value is an
+ * average page for this factor, and values past the bounds stop counting.
+ */
+export interface ConversionFactor {
+  id: string;
+  label: string;
+  analyzer: AnalyzerId;
+  /** Measured value, or null when the analyzer result doesn't have it */
+  metric: (result: any) => number | null;
+  reference: number;
+  /** Log-odds per unit of the value */
+  coefficient: number;
+  floor?: number;
+  cap?: number;
+  /** Display value, e.g. "3.1s" */
+  format: (value: number) => string;
+}
+
+export interface ConversionModel {
+  version: string;
+  /** Conversion rate of an average page, per weight profile */
+  baselineRates: Record<Exclude<WeightProfileId, 'custom'>, number> & { default: number };
+  /** Half-width of the estimate band in log-odds, when every factor was measured */
+  uncertainty: number;
+  /** Added to the half-width for each factor that wasn't measured */
+  uncertaintyPerMissingFactor: number;
+  /** Fewer measured factors than this gives no estimate */
+  minMeasuredFactors: number;
+  factors: ConversionFactor[];
+}
+
+const count = (value: unknown): number | null =>
+  typeof value === 'number' && Number.isFinite(value) ? value : null;
+
+const share = (part: unknown, total: unknown): number | null =>
+  typeof part === 'number' && typeof total === 'number' && total > 0 ? part / total : null;
+
+const yesNo = (value: number) => (value ? 'yes' : 'no');
+const percent = (value: number) => `${Math.round(value * 100)}%`;
+
+/**
+ * Conversion model coefficients. Bump the version whenever a coefficient,
+ * reference or factor changes: it is stored with every prediction, so
+ * estimates made by different versions are never compared as equals.
+ *
+ * 1.0.0 — initial model
+ */
+export const CONVERSION_MODEL: ConversionModel = {
+  version: '1.0.0',
+  baselineRates: {
+    default: 0.03,
+    saas: 0.03,
+    ecommerce: 0.025,
+    'lead-gen': 0.045,
+    agency: 0.02
+  },
+  uncertainty: 0.35,
+  uncertaintyPerMissingFactor: 0.06,
+  minMeasuredFactors: 6,
+  factors: [
+    {
+      id: 'lcp',
+      label: 'Largest Contentful Paint',
+      analyzer: 'speed',
+      metric: result => (result?.metrics?.loadTime > 0 ? result.metrics.loadTime : null),
+      reference: 2.5,
+      coefficient: -0.06,
+      floor: 1,
+      cap: 10,
+      format: value => `${value}s`
+    },
+    {
+      id: 'primaryCtaAboveFold',
+      label: 'Primary CTA above the fold',
+      analyzer: 'cta',
+      metric: result => (Array.isArray(result?.ctas) ? (result.primaryCTA?.isAboveFold ? 1 : 0) : null),
+      reference: 1,
+      coefficient: 0.25,
+      format: yesNo
+    },
+    {
+      id: 'testimonials',
+      label: 'Testimonials',
+      analyzer: 'socialProof',
+      metric: result => count(result?.summary?.testimonials),
+      reference: 1,
+      coefficient: 0.05,
+      cap: 5,
+      format: String
+    },
+    {
+      id: 'reviews',
+      label: 'Reviews and ratings',
+      analyzer: 'socialProof',
+      metric: result => {
+        const reviews = count(result?.summary?.reviews);
+        const ratings = count(result?.summary?.ratings);
+        return reviews === null && ratings === null ? null : (reviews || 0) + (ratings || 0);
+      },
+      reference: 0,
+      coefficient: 0.04,
+      cap: 5,
+      format: String
+    },
+    {
+      id: 'trustBadges',
+      label: 'Trust badges',
+      analyzer: 'socialProof',
+      metric: result => count(result?.summary?.trustBadges),
+      reference: 0,
+      coefficient: 0.04,
+      cap: 3,
+      format: String
+    },
+    {
+      id: 'clutter',
+      label: 'Clutter score',
+      analyzer: 'whitespace',
+      metric: result => count(result?.metrics?.clutterScore),
+      reference: 30,
+      coefficient: -0.004,
+      floor: 0,
+      cap: 100,
+      format: value => `${Math.round(value)}/100`
+    },
+    {
+      id: 'headlineClarity',
+      label: 'Headline clarity',
+      analyzer: 'valueProposition',
+      metric: result => count(result?.headlineClarityScore),
+      reference: 60,
+      coefficient: 0.005,
+      floor: 0,
+      cap: 100,
+      format: value => `${Math.round(value)}/100`
+    },
+    {
+      id: 'formFields',
+      label: 'Fields in the longest form',
+      analyzer: 'form',
+      metric: result => {
+        const fieldCounts: number[] = (result?.forms || []).map((form: any) => form.fieldCount);
+        return fieldCounts.length > 0 ? Math.max(...fieldCounts) : null;
+      },
+      reference: 4,
+      coefficient: -0.04,
+      floor: 1,
+      cap: 12,
+      format: String
+    },
+    {
+      id: 'smallTapTargets',
+      label: 'Tap targets too small on mobile',
+      analyzer: 'mobile',
+      metric: result => share(result?.tapTargets?.tooSmall, result?.tapTargets?.total),
+      reference: 0.1,
+      coefficient: -0.5,
+      cap: 0.6,
+      format: percent
+    },
+    {
+      id: 'horizontalOverflow',
+      label: 'Sideways scrolling on mobile',
+      analyzer: 'mobile',
+      metric: result => (typeof result?.horizontalOverflow?.detected === 'boolean' ? Number(result.horizontalOverflow.detected) : null),
+      reference: 0,
+      coefficient: -0.15,
+      format: yesNo
+    },
+    {
+      id: 'readingGrade',
+      label: 'Reading grade level',
+      analyzer: 'copy',
+      metric: result => (result?.wordCount > 0 ? count(result.fleschKincaidGrade) : null),
+      reference: 8,
+      coefficient: -0.03,
+      floor: 5,
+      cap: 16,
+      format: value => `grade ${Math.round(value)}`
+    },
+    {
+      id: 'fakeCountdowns',
+      label: 'Countdown timers that reset on reload',
+      analyzer: 'psychologicalTriggers',
+      metric: result => (Array.isArray(result?.countdownTimers)
+        ? result.countdownTimers.filter((timer: any) => timer.resetsOnReload).length
+        : null),
+      reference: 0,
+      coefficient: -0.1,
+      cap: 1,
+      format: String
+    },
+    {
+      id: 'contrastFailures',
+      label: 'Text failing contrast checks',
+      analyzer: 'accessibility',
+      metric: result => share(result?.contrast?.failing, result?.contrast?.checked),
+      reference: 0.05,
+      coefficient: -0.3,
+      cap: 0.5,
+      format: percent
+    }
+  ]
+};
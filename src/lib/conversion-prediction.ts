@@ -0,0 +1,106 @@
+import { getAnalyzerDefinition } from '@/lib/analyzers/definitions';
+import { CONVERSION_MODEL, type ConversionFactor, type ConversionModel } from '@/lib/conversion-model';
+import type { AnalyzerId } from '@/lib/analyzers/types';
+import type { WeightProfileId } from '@/lib/analyzers/weight-profiles';
+import type { ConversionFactorContribution, ConversionPrediction } from '@/types/database';
+
+/** Contributing factors listed in key_factors */
+const MAX_KEY_FACTORS = 5;
+
+/** Contributions smaller than this (in log-odds) aren't worth listing */
+const MIN_KEY_CONTRIBUTION = 0.01;
+
+export interface PredictionOptions {
+  /** Weight profile of the analysis; picks the baseline conversion rate */
+  profile?: WeightProfileId | null;
+  /** Analyzers that failed in this run: their fallback results are not measurements */
+  failedModules?: AnalyzerId[];
+  model?: ConversionModel;
+}
+
+const logit = (rate: number) => Math.log(rate / (1 - rate));
+const sigmoid = (logOdds: number) => 1 / (1 + Math.exp(-logOdds));
+const round = (value: number, digits: number) => Number(value.toFixed(digits));
+
+function clamp(value: number, factor: ConversionFactor): number {
+  const floored = factor.floor !== undefined ? Math.max(factor.floor, value) : value;
+  return factor.cap !== undefined ? Math.min(factor.cap, floored) : floored;
+}
+
+function describeEffect(effect: number): string {
+  const percent = Math.round(Math.abs(effect) * 100);
+  return effect < 0 ? `${percent}% fewer conversions` : `${percent}% more conversions`;
+}
+
+/**
+ * Estimated conversion rate of a page from the sub-metrics of its analysis
+ * results (keyed by analyzer result key). Starts from the baseline rate of
+ * the weight profile and adds each factor of the conversion model in
+ * log-odds, so every factor's share of the estimate can be shown. Returns
+ * null when too few factors could be measured for an estimate to mean
+ * anything, e.g. for a single-module analysis.
+ */
+export function predictConversion(
+  results: Record<string, any>,
+  options: PredictionOptions = {}
+): ConversionPrediction | null {
+  const model = options.model ?? CONVERSION_MODEL;
+  const failedModules = new Set(options.failedModules ?? []);
+  const baselineRate = options.profile && options.profile !== 'custom'
+    ? model.baselineRates[options.profile]
+    : model.baselineRates.default;
+
+  const measurements = model.factors.map(factor => {
+    const result = failedModules.has(factor.analyzer)
+      ? null
+      : results[getAnalyzerDefinition(factor.analyzer).resultKey];
+    // A null score means the analyzer didn't run
+    const raw = result && result.score !== null ? factor.metric(result) : null;
+    const value = raw === null ? null : clamp(raw, factor);
+    return {
+      factor,
+      value,
+      contribution: value === null ? 0 : factor.coefficient * (value - factor.reference)
+    };
+  });
+
+  const measuredCount = measurements.filter(measurement => measurement.value !== null).length;
+  if (measuredCount < model.minMeasuredFactors) {
+    return null;
+  }
+
+  const logOdds = logit(baselineRate) + measurements.reduce((sum, measurement) => sum + measurement.contribution, 0);
+  const probability = sigmoid(logOdds);
+  const halfWidth = model.uncertainty + model.uncertaintyPerMissingFactor * (model.factors.length - measuredCount);
+  const holdingBack = measurements.reduce((sum, measurement) => sum + Math.min(0, measurement.contribution), 0);
+
+  const factors: ConversionFactorContribution[] = measurements.map(({ factor, value, contribution }) => ({
+    id: factor.id,
+    label: factor.label,
+    analyzer: factor.analyzer,
+    value,
+    display: value === null ? null : factor.format(round(value, 2)),
+    contribution: round(contribution, 3),
+    effect: round(probability / sigmoid(logOdds - contribution) - 1, 3)
+  }));
+
+  const keyFactors = factors
+    .filter(factor => Math.abs(factor.contribution) >= MIN_KEY_CONTRIBUTION)
+    .sort((a, b) => Math.abs(b.effect) - Math.abs(a.effect))
+    .slice(0, MAX_KEY_FACTORS)
+    .map(factor => `${factor.label}: ${factor.display} (${describeEffect(factor.effect)})`);
+
+  return {
+    probability: round(probability, 4),
+    confidence_interval: {
+      low: round(sigmoid(logOdds - halfWidth), 4),
+      high: round(sigmoid(logOdds + halfWidth), 4)
+    },
+    improvement_potential: round(sigmoid(logOdds - holdingBack) - probability, 4),
+    key_factors: keyFactors,
+    predictions: Object.fromEntries(factors.map(factor => [factor.id, factor.effect])),
+    model_version: model.version,
+    baseline_rate: baselineRate,
+    factors
+  };
+}
@@ -0,0 +1,44 @@
+/**
+ * Copy Dictionary - word lists for body copy readability analysis
+ * Jargon here is business-speak; buzzwords from the value proposition
+ * dictionary are counted as jargon too.
+ */
+
+export const COPY_DICTIONARY = {
+  // Corporate language that visitors have to translate
+  JARGON_WORDS: [
+    'leverage', 'leveraging', 'utilize', 'utilization', 'synergies', 'paradigm',
+    'holistic', 'scalable', 'best-of-breed', 'bleeding-edge', 'disruptive',
+    'ecosystem', 'bandwidth', 'deliverables', 'mission-critical', 'value-add',
+    'omnichannel', 'turnkey', 'end-to-end', 'streamline', 'actionable',
+    'stakeholders', 'operationalize', 'incentivize', 'ideate', 'core competency',
+    'move the needle', 'low-hanging fruit', 'thought leadership', 'digital transformation',
+    'frictionless', 'enterprise-grade', 'cross-functional', 'best practices'
+  ],
+
+  // Words addressing the visitor
+  YOU_WORDS: ['you', 'your', 'yours', "you're", 'yourself', "you'll", "you've"],
+
+  // Words about the company
+  WE_WORDS: ['we', 'our', 'ours', 'us', "we're", "we've", "we'll", 'ourselves'],
+
+  // Forms of "to be" that start a passive construction
+  BE_VERBS: ['am', 'is', 'are', 'was', 'were', 'be', 'been', 'being'],
+
+  // Irregular past participles; regular ones end in -ed
+  IRREGULAR_PARTICIPLES: [
+    'built', 'made', 'done', 'given', 'taken', 'known', 'shown', 'seen', 'written',
+    'sent', 'paid', 'sold', 'held', 'found', 'told', 'kept', 'brought', 'bought',
+    'thought', 'caught', 'taught', 'chosen', 'driven', 'grown', 'spent', 'won',
+    'led', 'met', 'begun', 'broken', 'forgotten', 'hidden'
+  ]
+} as const;
+
+/** Flesch-Kincaid grade most visitors read comfortably */
+export const TARGET_READING_GRADE = 8;
+
+/** Sentences longer than this are hard to follow on screen */
+export const LONG_SENTENCE_WORDS = 25;
+
+/** Average sentence length to aim for */
+export const TARGET_SENTENCE_WORDS = 20;
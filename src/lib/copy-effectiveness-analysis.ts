@@ -0,0 +1,313 @@
+import type { Browser, Viewport } from 'puppeteer-core';
+import { createPuppeteerBrowser } from './puppeteer-config';
+import { CTA_HELPERS } from './cta-dictionary';
+import { VALUE_PROPOSITION_DICTIONARY, HEADLINE_WORD_RANGE } from './value-proposition-dictionary';
+import {
+  COPY_DICTIONARY,
+  TARGET_READING_GRADE,
+  LONG_SENTENCE_WORDS,
+  TARGET_SENTENCE_WORDS
+} from './copy-dictionary';
+import { getCopyRecommendations, RecommendationContext } from './recommendations';
+
+/**
+ * Visible copy extracted from the page
+ */
+export interface ExtractedCopy {
+  /** Main (h1) headline */
+  headline: string | null;
+  headings: string[];
+  paragraphs: string[];
+}
+
+export interface CopyEffectivenessResult {
+  score: number;
+  wordCount: number;
+  sentenceCount: number;
+  fleschReadingEase: number;
+  fleschKincaidGrade: number;
+  averageSentenceLength: number;
+  longSentences: number;
+  passiveVoiceRate: number; // 0.0 to 1.0, share of sentences in passive voice
+  passiveExamples: string[];
+  youCount: number;
+  weCount: number;
+  youWeRatio: number; // 0.0 to 1.0, share of "you" among you + we words
+  jargonDensity: number; // jargon terms per 100 words
+  jargonTerms: string[];
+  headline: string | null;
+  headlineWordCount: number;
+  longHeadings: string[];
+  issues: string[];
+  recommendations: string[];
+  recommendationIds?: Record<string, string>;
+}
+
+interface CopyEffectivenessOptions {
+  viewport?: Viewport;
+  isHtml?: boolean; // Flag to indicate if input is HTML instead of URL
+  puppeteer?: {
+    browser?: Browser;
+    forceBrowserless?: boolean;
+  };
+}
+
+export async function analyzeCopyEffectiveness(
+  urlOrHtml: string,
+  options: CopyEffectivenessOptions = {}
+): Promise<CopyEffectivenessResult> {
+  console.log('✍️ Copy effectiveness analysis starting...');
+
+  const providedBrowser = options.puppeteer?.browser;
+  const shouldCloseBrowser = !providedBrowser;
+  let browser: Browser | null = providedBrowser || null;
+
+  try {
+    const viewport = options.viewport || { width: 1920, height: 1080 };
+
+    if (!browser) {
+      console.log('📱 Launching Puppeteer browser...');
+      browser = await createPuppeteerBrowser({
+        forceBrowserless: options.puppeteer?.forceBrowserless
+      });
+    }
+
+    const page = await browser.newPage();
+    await page.setViewport(viewport);
+
+    if (options.isHtml) {
+      console.log('📄 Setting HTML content directly...');
+      await page.setContent(urlOrHtml);
+    } else {
+      console.log('🌐 Navigating to URL...');
+      await page.goto(urlOrHtml, {
+        waitUntil: 'domcontentloaded',
+        timeout: 60000
+      });
+    }
+
+    console.log('🔍 Extracting visible copy...');
+    const copy: ExtractedCopy = await page.evaluate(() => {
+      const getText = (element: Element): string => (element.textContent || '').replace(/\s+/g, ' ').trim();
+
+      const isVisible = (element: Element): boolean => {
+        const style = window.getComputedStyle(element);
+        const rect = element.getBoundingClientRect();
+        return style.display !== 'none' &&
+          style.visibility !== 'hidden' &&
+          rect.width > 0 &&
+          rect.height > 0;
+      };
+
+      // Navigation, footers and cookie banners are not marketing copy
+      const isChrome = (element: Element): boolean =>
+        element.closest('nav, footer, [role="navigation"], [role="contentinfo"], [class*="cookie" i], [id*="cookie" i]') !== null;
+
+      const headlineElement = Array.from(document.querySelectorAll('h1')).find(el => isVisible(el) && getText(el));
+
+      const headings = Array.from(document.querySelectorAll('h1, h2, h3'))
+        .filter(el => isVisible(el) && !isChrome(el) && getText(el))
+        .map(getText);
+
+      const blocks = Array.from(document.querySelectorAll('p, li, blockquote, figcaption, dd'))
+        .filter(el => isVisible(el) && !isChrome(el) && getText(el).split(' ').length >= 4);
+      // Skip blocks nested in another block (e.g. a <p> inside an <li>)
+      const paragraphs = blocks
+        .filter(el => !blocks.some(other => other !== el && other.contains(el)))
+        .map(getText);
+
+      return {
+        headline: headlineElement ? getText(headlineElement) : null,
+        headings,
+        paragraphs
+      };
+    });
+
+    console.log(`📝 ${copy.paragraphs.length} copy blocks and ${copy.headings.length} headings found`);
+
+    const result = scoreCopy(copy, options.isHtml ? undefined : urlOrHtml);
+    console.log(`💯 Copy effectiveness score: ${result.score}/100`);
+    return result;
+  } finally {
+    if (shouldCloseBrowser && browser) {
+      console.log('🔒 Closing browser...');
+      await browser.close();
+    }
+    console.log('✨ Copy effectiveness analysis complete!');
+  }
+}
+
+/**
+ * Score extracted copy for readability, sentence length, passive voice,
+ * visitor focus, jargon and heading length
+ */
+export function scoreCopy(copy: ExtractedCopy, url?: string): CopyEffectivenessResult {
+  const bodyText = copy.paragraphs.join(' ');
+  const sentences = splitSentences(copy.paragraphs);
+  const words = getWords(bodyText);
+  const wordCount = words.length;
+  const sentenceCount = sentences.length;
+  const syllableCount = words.reduce((sum, word) => sum + countSyllables(word), 0);
+
+  const wordsPerSentence = sentenceCount > 0 ? wordCount / sentenceCount : 0;
+  const syllablesPerWord = wordCount > 0 ? syllableCount / wordCount : 0;
+  const fleschReadingEase = wordCount > 0
+    ? round(Math.max(0, Math.min(100, 206.835 - 1.015 * wordsPerSentence - 84.6 * syllablesPerWord)), 1)
+    : 0;
+  const fleschKincaidGrade = wordCount > 0
+    ? round(Math.max(0, 0.39 * wordsPerSentence + 11.8 * syllablesPerWord - 15.59), 1)
+    : 0;
+
+  const longSentences = sentences.filter(sentence => getWords(sentence).length > LONG_SENTENCE_WORDS).length;
+  const passiveSentences = sentences.filter(isPassive);
+  const passiveVoiceRate = sentenceCount > 0 ? passiveSentences.length / sentenceCount : 0;
+
+  const lowerWords = words.map(word => word.toLowerCase());
+  const youCount = lowerWords.filter(word => (COPY_DICTIONARY.YOU_WORDS as readonly string[]).includes(word)).length;
+  const weCount = lowerWords.filter(word => (COPY_DICTIONARY.WE_WORDS as readonly string[]).includes(word)).length;
+  const youWeRatio = youCount + weCount > 0 ? youCount / (youCount + weCount) : 0;
+
+  const jargonTerms = [...COPY_DICTIONARY.JARGON_WORDS, ...VALUE_PROPOSITION_DICTIONARY.VAGUE_PHRASES]
+    .filter(term => CTA_HELPERS.phraseToBoundaryRegex(term).test(bodyText));
+  const jargonDensity = wordCount > 0 ? (jargonTerms.length / wordCount) * 100 : 0;
+
+  const headline = copy.headline?.trim() || null;
+  const headlineWordCount = headline ? getWords(headline).length : 0;
+  const longHeadings = copy.headings.filter(heading => getWords(heading).length > HEADLINE_WORD_RANGE.max);
+
+  const readabilityScore = Math.max(0, 100 - Math.max(0, fleschKincaidGrade - TARGET_READING_GRADE) * 12);
+  const sentenceLengthScore = Math.max(0, 100 - Math.max(0, wordsPerSentence - TARGET_SENTENCE_WORDS) * 5);
+  const passiveScore = Math.max(0, 100 - Math.max(0, passiveVoiceRate - 0.1) * 300);
+  // Copy that addresses nobody is neutral rather than company-centric
+  const visitorFocusScore = youCount + weCount > 0 ? Math.min(100, youWeRatio * 200) : 60;
+  const jargonScore = Math.max(0, 100 - Math.max(0, jargonDensity - 1) * 25);
+  const headingScore = headline === null ? 0 : Math.max(0, 100 - longHeadings.length * 20);
+
+  const score = wordCount === 0 ? 0 : Math.round(
+    readabilityScore * 0.3 +
+    sentenceLengthScore * 0.15 +
+    passiveScore * 0.15 +
+    visitorFocusScore * 0.15 +
+    jargonScore * 0.15 +
+    headingScore * 0.1
+  );
+
+  const ctx: RecommendationContext = {
+    url,
+    copyWordCount: wordCount,
+    readingGrade: Math.round(fleschKincaidGrade),
+    averageSentenceLength: Math.round(wordsPerSentence),
+    longSentenceCount: longSentences,
+    passiveVoicePercent: Math.round(passiveVoiceRate * 100),
+    youCount,
+    weCount,
+    jargonTerms,
+    jargonDensity: round(jargonDensity, 1),
+    longHeadingCount: longHeadings.length
+  };
+
+  const generated = getCopyRecommendations(ctx);
+  return {
+    score,
+    wordCount,
+    sentenceCount,
+    fleschReadingEase,
+    fleschKincaidGrade,
+    averageSentenceLength: round(wordsPerSentence, 1),
+    longSentences,
+    passiveVoiceRate: round(passiveVoiceRate, 2),
+    passiveExamples: passiveSentences.slice(0, 3),
+    youCount,
+    weCount,
+    youWeRatio: round(youWeRatio, 2),
+    jargonDensity: round(jargonDensity, 1),
+    jargonTerms,
+    headline,
+    headlineWordCount,
+    longHeadings,
+    issues: generateIssues(ctx),
+    recommendations: generated.legacyStrings,
+    recommendationIds: generated.recommendationIds
+  };
+}
+
+/**
+ * Estimate syllables from vowel groups, ignoring a silent trailing "e"
+ */
+export function countSyllables(word: string): number {
+  const cleaned = word.toLowerCase().replace(/[^a-z]/g, '');
+  if (cleaned.length === 0) return 0;
+  if (cleaned.length <= 3) return 1;
+  const vowelGroups = cleaned
+    .replace(/(?:[^laeiouy]es|ed|[^laeiouy]e)$/, '')
+    .replace(/^y/, '')
+    .match(/[aeiouy]{1,2}/g);
+  return Math.max(1, vowelGroups?.length || 0);
+}
+
+function splitSentences(paragraphs: string[]): string[] {
+  return paragraphs
+    .flatMap(paragraph => paragraph.split(/(?<=[.!?])\s+/))
+    .map(sentence => sentence.trim())
+    .filter(sentence => getWords(sentence).length > 0);
+}
+
+function getWords(text: string): string[] {
+  return text.match(/[A-Za-z][A-Za-z'-]*/g) || [];
+}
+
+function isPassive(sentence: string): boolean {
+  const words = getWords(sentence).map(word => word.toLowerCase());
+  return words.some((word, index) => {
+    if (!(COPY_DICTIONARY.BE_VERBS as readonly string[]).includes(word)) return false;
+    // Allow one adverb between the verb and participle ("is easily built")
+    const next = words[index + 1]?.endsWith('ly') ? words[index + 2] : words[index + 1];
+    return Boolean(next) && (
+      (next.length > 4 && next.endsWith('ed')) ||
+      (COPY_DICTIONARY.IRREGULAR_PARTICIPLES as readonly string[]).includes(next)
+    );
+  });
+}
+
+function round(value: number, decimals: number): number {
+  const factor = 10 ** decimals;
+  return Math.round(value * factor) / factor;
+}
+
+function generateIssues(ctx: RecommendationContext): string[] {
+  const issues: string[] = [];
+
+  if (!ctx.copyWordCount) {
+    issues.push('No body copy found to analyze.');
+    return issues;
+  }
+
+  if ((ctx.readingGrade || 0) > TARGET_READING_GRADE + 2) {
+    issues.push(`Copy reads at a grade ${ctx.readingGrade} level. Most visitors skim comfortably at grade ${TARGET_READING_GRADE} or below.`);
+  }
+
+  if ((ctx.averageSentenceLength || 0) > TARGET_SENTENCE_WORDS) {
+    issues.push(`Sentences average ${ctx.averageSentenceLength} words, making the copy slow to scan.`);
+  } else if ((ctx.longSentenceCount || 0) >= 3) {
+    issues.push(`${ctx.longSentenceCount} sentences run longer than ${LONG_SENTENCE_WORDS} words.`);
+  }
+
+  if ((ctx.passiveVoicePercent || 0) > 15) {
+    issues.push(`${ctx.passiveVoicePercent}% of sentences use passive voice, which weakens the copy.`);
+  }
+
+  if ((ctx.weCount || 0) > (ctx.youCount || 0)) {
+    issues.push(`Copy talks about the company ("we", ${ctx.weCount} times) more than the visitor ("you", ${ctx.youCount} times).`);
+  }
+
+  if ((ctx.jargonDensity || 0) > 1) {
+    issues.push(`Jargon makes the copy harder to understand: ${(ctx.jargonTerms || []).join(', ')}.`);
+  }
+
+  if ((ctx.longHeadingCount || 0) > 0) {
+    const plural = ctx.longHeadingCount !== 1;
+    issues.push(`${ctx.longHeadingCount} heading${plural ? 's are' : ' is'} longer than ${HEADLINE_WORD_RANGE.max} words.`);
+  }
+
+  return issues;
+}
@@ -1,4 +1,4 @@
-import type { Browser, Page } from 'puppeteer-core';
+import type { Browser, Page, Viewport } from 'puppeteer-core';
 import { createPuppeteerBrowser } from './puppeteer-config';
 import { CTA_DICTIONARY, CTA_HELPERS } from './cta-dictionary';
 import { getCtaRecommendations, RecommendationContext } from './recommendations';
@@ -30,13 +30,12 @@ export interface CTAAnalysisResult {
   secondaryCTAs: CTAElement[];
   issues: string[];
   recommendations: string[];
+  recommendationIds?: Record<string, string>;
 }
 
 interface AnalysisOptions {
-  viewport?: {
-    width: number;
-    height: number;
-  };
+  viewport?: Viewport; // Set isMobile/hasTouch for a mobile pass
+  userAgent?: string;
   isHtml?: boolean; // Flag to indicate if input is HTML instead of URL
   puppeteer?: {
     browser?: Browser;
@@ -66,6 +65,9 @@ export async function analyzeCTA(urlOrHtml: string, options: AnalysisOptions = {
     
     const page = await browser.newPage();
     await page.setViewport(viewport);
+    if (options.userAgent) {
+      await page.setUserAgent(options.userAgent);
+    }
     
     if (isHtml) {
       console.log('📄 Setting HTML content directly...');
@@ -466,6 +468,7 @@ export async function analyzeCTA(urlOrHtml: string, options: AnalysisOptions = {
     
     const issues: string[] = [];
     const recommendations: string[] = [];
+    const recommendationIds: Record<string, string> = {};
 
     // Remove duplicate CTAs based on text similarity
     const uniqueCTAs: CTAElement[] = [];
@@ -496,7 +499,7 @@ export async function analyzeCTA(urlOrHtml: string, options: AnalysisOptions = {
     const secondaryCTAs = uniqueCTAs.filter(cta => cta !== primaryCTA);
 
     // Calculate score and generate issues
-    const score = calculateCTAScore(uniqueCTAs, primaryCTA, issues, recommendations);
+    const score = calculateCTAScore(uniqueCTAs, primaryCTA, issues, recommendations, recommendationIds);
 
     console.log(`🎯 CTA Analysis complete: ${uniqueCTAs.length} CTAs found (${ctaData.length} before deduplication), score: ${score}`);
     
@@ -506,7 +509,8 @@ export async function analyzeCTA(urlOrHtml: string, options: AnalysisOptions = {
       primaryCTA,
       secondaryCTAs,
       issues,
-      recommendations
+      recommendations,
+      recommendationIds
     };
     
   } catch (error) {
@@ -581,7 +585,8 @@ function calculateCTAScore(
   ctas: CTAElement[],
   primaryCTA: CTAElement | undefined,
   issues: string[],
-  recommendations: string[]
+  recommendations: string[],
+  recommendationIds: Record<string, string>
 ): number {
   let score = 100;
 
@@ -668,6 +673,7 @@ function calculateCTAScore(
   };
   const generatedRecs = getCtaRecommendations(ctx);
   recommendations.push(...generatedRecs.legacyStrings);
+  Object.assign(recommendationIds, generatedRecs.recommendationIds);
 
   return Math.max(0, Math.min(100, Math.round(score)));
 }
@@ -1,9 +1,12 @@
 import { Resend } from 'resend';
+import { ANALYZER_DEFINITIONS } from '@/lib/analyzers/definitions';
+import { getGrade, type Grade } from '@/lib/grading';
 
 interface AnalysisData {
   id: string;
   url: string;
   overallScore: number;
+  grade?: Grade;
   pageSpeed?: any;
   fonts?: any;
   images?: any;
@@ -14,6 +17,22 @@ interface AnalysisData {
   createdAt: string;
 }
 
+export interface ScoreDrop {
+  /** Analyzer name, or "Overall score" */
+  name: string;
+  previousScore: number;
+  newScore: number;
+  drop: number;
+}
+
+export interface ScoreDropAlert {
+  url: string;
+  previousScore: number | null;
+  newScore: number | null;
+  previousAnalyzedAt: string;
+  drops: ScoreDrop[];
+}
+
 interface EmailResult {
   success: boolean;
   emailId?: string;
@@ -25,6 +44,15 @@ const validateEmail = (email: string): boolean => {
   return emailRegex.test(email);
 };
 
+const escapeHtml = (text: string): string => {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+};
+
 const validateUrl = (url: string): boolean => {
   try {
     new URL(url);
@@ -34,11 +62,10 @@ const validateUrl = (url: string): boolean => {
   }
 };
 
-export async function sendReportEmail(
-  email: string,
-  analysisData: AnalysisData,
-  reportUrl: string
-): Promise<EmailResult> {
+/**
+ * Validate the recipient and report link, then send through Resend
+ */
+async function sendEmail(email: string, reportUrl: string, subject: string, html: string): Promise<EmailResult> {
   try {
     // Validate inputs
     if (!email || !email.trim()) {
@@ -60,16 +87,12 @@ export async function sendReportEmail(
 
     const resend = new Resend(process.env.RESEND_API_KEY);
 
-    // Generate email content
-    const subject = `Your Landing Page Report is Ready (Score: ${analysisData.overallScore}/100)`;
-    const htmlContent = EmailTemplate.generateReportEmail(analysisData, reportUrl);
-
     // Send email
     const result = await resend.emails.send({
       from: 'reports@hi.lansky.tech',
       to: email.trim(),
       subject,
-      html: htmlContent,
+      html,
       replyTo: 'gene@lansky.tech'
     });
 
@@ -88,17 +111,29 @@ export async function sendReportEmail(
   }
 }
 
+export async function sendReportEmail(
+  email: string,
+  analysisData: AnalysisData,
+  reportUrl: string
+): Promise<EmailResult> {
+  const subject = `Your Landing Page Report is Ready (Score: ${analysisData.overallScore}/100)`;
+  return sendEmail(email, reportUrl, subject, EmailTemplate.generateReportEmail(analysisData, reportUrl));
+}
+
+/**
+ * Tell the owner of a monitored page that its latest scan scored lower
+ */
+export async function sendScoreDropAlert(
+  email: string,
+  alert: ScoreDropAlert,
+  reportUrl: string
+): Promise<EmailResult> {
+  const subject = `Score drop on ${alert.url} (${alert.previousScore ?? 'n/a'} → ${alert.newScore ?? 'n/a'})`;
+  return sendEmail(email, reportUrl, subject, EmailTemplate.generateScoreDropAlertEmail(alert, reportUrl));
+}
+
 export class EmailTemplate {
   static generateReportEmail(analysisData: AnalysisData, reportUrl: string): string {
-    const escapeHtml = (text: string): string => {
-      return text
-        .replace(/&/g, '&amp;')
-        .replace(/</g, '&lt;')
-        .replace(/>/g, '&gt;')
-        .replace(/"/g, '&quot;')
-        .replace(/'/g, '&#39;');
-    };
-
     const getScoreColor = (score: number): string => {
       if (score >= 90) return '#10B981'; // green-500
       if (score >= 70) return '#F59E0B'; // amber-500
@@ -113,6 +148,8 @@ export class EmailTemplate {
       return '🔧';
     };
 
+    const grade = analysisData.grade || getGrade(analysisData.overallScore);
+
     return `
 <!DOCTYPE html>
 <html lang="en">
@@ -243,7 +280,7 @@ export class EmailTemplate {
     <div class="content">
       <div style="text-align: center;">
         <div class="score-badge">
-          Overall Score: ${analysisData.overallScore}/100
+          Grade ${grade} &middot; Overall Score: ${analysisData.overallScore}/100
         </div>
       </div>
       
@@ -262,12 +299,7 @@ export class EmailTemplate {
       <div class="highlights">
         <h3>🎯 Key Analysis Areas</h3>
         <ul>
-          <li><strong>Page Load Speed</strong> - Core Web Vitals and performance metrics</li>
-          <li><strong>Font Usage</strong> - Typography consistency and readability</li>
-          <li><strong>Image Optimization</strong> - Format, sizing, and accessibility</li>
-          <li><strong>Call-to-Action Analysis</strong> - Visibility and effectiveness</li>
-          <li><strong>Whitespace Assessment</strong> - Layout density and spacing</li>
-          <li><strong>Social Proof Detection</strong> - Trust signals and credibility</li>
+          ${ANALYZER_DEFINITIONS.map(analyzer => `<li><strong>${analyzer.fullName}</strong> - ${analyzer.description}</li>`).join('\n          ')}
         </ul>
       </div>
       
@@ -304,4 +336,62 @@ export class EmailTemplate {
 </body>
 </html>`;
   }
-}
\ No newline at end of file
+
+  static generateScoreDropAlertEmail(alert: ScoreDropAlert, reportUrl: string): string {
+    const rows = alert.drops.map(drop => `
+          <tr>
+            <td style="padding: 8px 12px; border-top: 1px solid #e5e7eb;">${escapeHtml(drop.name)}</td>
+            <td style="padding: 8px 12px; border-top: 1px solid #e5e7eb; text-align: right;">${drop.previousScore} → ${drop.newScore}</td>
+            <td style="padding: 8px 12px; border-top: 1px solid #e5e7eb; text-align: right; color: #DC2626; font-weight: 700;">-${drop.drop}</td>
+          </tr>`).join('');
+
+    return `
+<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>Landing Page Score Drop</title>
+</head>
+<body style="font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; line-height: 1.6; color: #374151; background-color: #f9fafb; margin: 0; padding: 0;">
+  <div style="max-width: 600px; margin: 0 auto; background-color: #ffffff; border-radius: 8px; overflow: hidden;">
+    <div style="background: linear-gradient(135deg, #1f2937 0%, #111827 100%); color: #ffffff; padding: 32px 24px; text-align: center;">
+      <h1 style="margin: 0; font-size: 24px;">📉 Your landing page score dropped</h1>
+    </div>
+
+    <div style="padding: 32px 24px;">
+      <p>We re-scanned <strong>${escapeHtml(alert.url)}</strong> as part of your scheduled monitoring. Compared with the scan from ${new Date(alert.previousAnalyzedAt).toLocaleDateString('en-US')}, these scores went down:</p>
+
+      <table style="width: 100%; border-collapse: collapse; border: 1px solid #e5e7eb; border-radius: 8px; margin: 24px 0;">
+        <thead>
+          <tr style="background-color: #f3f4f6;">
+            <th style="padding: 8px 12px; text-align: left;">Area</th>
+            <th style="padding: 8px 12px; text-align: right;">Score</th>
+            <th style="padding: 8px 12px; text-align: right;">Change</th>
+          </tr>
+        </thead>
+        <tbody>${rows}
+        </tbody>
+      </table>
+
+      <div style="text-align: center;">
+        <a href="${escapeHtml(reportUrl)}" style="display: inline-block; background-color: #FFCC00; color: #1f2937; padding: 16px 32px; text-decoration: none; border-radius: 8px; font-weight: 600;">
+          🔍 See What Changed
+        </a>
+      </div>
+
+      <p>Best regards,<br>
+      <strong>Gene Kobilansky</strong><br>
+      <em>Founder, lansky.tech</em></p>
+    </div>
+
+    <div style="background-color: #f9fafb; padding: 24px; text-align: center; border-top: 1px solid #e5e7eb;">
+      <p style="margin: 0; font-size: 14px; color: #6b7280;">
+        You get this email because monitoring is turned on for this page. Set your re-scan frequency to manual to stop it.
+      </p>
+    </div>
+  </div>
+</body>
+</html>`;
+  }
+}
@@ -1,5 +1,5 @@
 import { createPuppeteerBrowser } from './puppeteer-config';
-import { getFontRecommendations, RecommendationContext } from './recommendations';
+import { getFontRecommendations, RecommendationContext, RecommendationOutput } from './recommendations';
 
 export interface FontAnalysisResult {
   fontFamilies: string[]
@@ -9,6 +9,7 @@ export interface FontAnalysisResult {
   score: number
   issues: string[]
   recommendations: string[]
+  recommendationIds?: Record<string, string>
 }
 
 import type { Browser } from 'puppeteer-core';
@@ -70,7 +71,7 @@ export async function analyzeFontUsage(url: string, options: FontAnalysisOptions
     
     const score = calculateFontScore(systemFontCount, webFontCount)
     const issues = generateIssues(systemFontCount, webFontCount)
-    const recommendations = generateRecommendationsForFonts(
+    const { legacyStrings: recommendations, recommendationIds } = generateRecommendationsForFonts(
       systemFontCount,
       webFontCount,
       fontFamilyDeclarations,
@@ -86,7 +87,8 @@ export async function analyzeFontUsage(url: string, options: FontAnalysisOptions
       webFontCount,
       score,
       issues,
-      recommendations
+      recommendations,
+      recommendationIds
     }
     
   } finally {
@@ -186,7 +188,7 @@ function generateRecommendationsForFonts(
   webFontCount: number,
   fontFamilies: string[],
   url?: string
-): string[] {
+): RecommendationOutput {
   const ctx: RecommendationContext = {
     systemFontCount,
     webFontCount,
@@ -194,6 +196,5 @@ function generateRecommendationsForFonts(
     url,
   }
 
-  const result = getFontRecommendations(ctx)
-  return result.legacyStrings
+  return getFontRecommendations(ctx)
 }
@@ -0,0 +1,394 @@
+import type { Browser } from 'puppeteer-core';
+import { createPuppeteerBrowser } from './puppeteer-config';
+import { CTA_DICTIONARY, CTA_HELPERS } from './cta-dictionary';
+import { getFormRecommendations, RecommendationContext } from './recommendations';
+
+export type FieldPurpose = 'email' | 'phone' | 'name' | 'address' | 'company' | 'password' | 'other';
+
+/**
+ * A visible form field as extracted from the page
+ */
+export interface ExtractedFormField {
+  tagName: string;
+  type: string;
+  purpose: FieldPurpose;
+  required: boolean;
+  hasLabel: boolean;
+  hasPlaceholder: boolean;
+  autocomplete: string | null;
+}
+
+/**
+ * A form as extracted from the page
+ */
+export interface ExtractedForm {
+  fields: ExtractedFormField[];
+  submitText: string | null;
+  isMultiStep: boolean;
+  isAboveFold: boolean;
+}
+
+export interface FormSummary {
+  score: number;
+  fieldCount: number;
+  requiredCount: number;
+  placeholderOnlyCount: number;
+  missingAutocompleteCount: number;
+  inputTypeIssues: string[];
+  isMultiStep: boolean;
+  isAboveFold: boolean;
+  submitText: string | null;
+  submitActionStrength: 'strong' | 'medium' | 'weak' | null;
+}
+
+export interface FormOptimizationResult {
+  /** Null when the page has no forms to optimize */
+  score: number | null;
+  formCount: number;
+  totalFields: number;
+  requiredFields: number;
+  placeholderOnlyFields: number;
+  missingAutocompleteFields: number;
+  inputTypeMismatches: number;
+  multiStepFormDetected: boolean;
+  forms: FormSummary[];
+  issues: string[];
+  recommendations: string[];
+  recommendationIds?: Record<string, string>;
+}
+
+interface FormOptimizationOptions {
+  viewport?: {
+    width: number;
+    height: number;
+  };
+  isHtml?: boolean; // Flag to indicate if input is HTML instead of URL
+  puppeteer?: {
+    browser?: Browser;
+    forceBrowserless?: boolean;
+  };
+}
+
+/** Fields beyond this count add friction */
+const IDEAL_MAX_FIELDS = 3;
+
+/** Forms longer than this should be split into steps */
+const MULTI_STEP_THRESHOLD = 6;
+
+/** Field purposes that browsers can autofill */
+const AUTOFILL_PURPOSES: FieldPurpose[] = ['email', 'phone', 'name', 'address', 'company'];
+
+export async function analyzeFormOptimization(
+  urlOrHtml: string,
+  options: FormOptimizationOptions = {}
+): Promise<FormOptimizationResult> {
+  console.log('📝 Form optimization analysis starting...');
+
+  const providedBrowser = options.puppeteer?.browser;
+  const shouldCloseBrowser = !providedBrowser;
+  let browser: Browser | null = providedBrowser || null;
+
+  try {
+    const viewport = options.viewport || { width: 1920, height: 1080 };
+
+    if (!browser) {
+      console.log('📱 Launching Puppeteer browser...');
+      browser = await createPuppeteerBrowser({
+        forceBrowserless: options.puppeteer?.forceBrowserless
+      });
+    }
+
+    const page = await browser.newPage();
+    await page.setViewport(viewport);
+
+    if (options.isHtml) {
+      console.log('📄 Setting HTML content directly...');
+      await page.setContent(urlOrHtml);
+    } else {
+      console.log('🌐 Navigating to URL...');
+      await page.goto(urlOrHtml, {
+        waitUntil: 'domcontentloaded',
+        timeout: 60000
+      });
+    }
+
+    console.log('🔍 Extracting forms...');
+    const forms: ExtractedForm[] = await page.evaluate((viewportHeight: number) => {
+      const isVisible = (element: Element): boolean => {
+        const style = window.getComputedStyle(element);
+        const rect = element.getBoundingClientRect();
+        return style.display !== 'none' &&
+          style.visibility !== 'hidden' &&
+          rect.width > 0 &&
+          rect.height > 0;
+      };
+
+      const getLabelText = (field: HTMLElement): string => {
+        const labels = (field as HTMLInputElement).labels;
+        const labelText = labels ? Array.from(labels).map(label => label.textContent || '').join(' ') : '';
+        return [
+          labelText,
+          field.getAttribute('aria-label') || '',
+          field.getAttribute('aria-labelledby')
+            ? document.getElementById(field.getAttribute('aria-labelledby') || '')?.textContent || ''
+            : ''
+        ].join(' ').trim();
+      };
+
+      const inferPurpose = (field: HTMLElement, type: string, labelText: string): string => {
+        const autocomplete = (field.getAttribute('autocomplete') || '').toLowerCase();
+        const hints = [
+          field.getAttribute('name'),
+          field.id,
+          field.getAttribute('placeholder'),
+          labelText,
+          autocomplete
+        ].join(' ').toLowerCase();
+
+        if (type === 'password') return 'password';
+        if (type === 'email' || /e-?mail/.test(hints)) return 'email';
+        if (type === 'tel' || /phone|mobile|\btel\b|telephone/.test(hints)) return 'phone';
+        if (/company|organi[sz]ation|business name/.test(hints)) return 'company';
+        if (/address|street|city|zip|postal|postcode/.test(hints)) return 'address';
+        if (/\bname\b|first.?name|last.?name|full.?name|given-name|family-name|fname|lname/.test(hints)) return 'name';
+        return 'other';
+      };
+
+      const fieldSelector = 'input, select, textarea';
+      const ignoredTypes = ['hidden', 'submit', 'button', 'reset', 'image'];
+
+      return Array.from(document.querySelectorAll('form'))
+        .filter(form => {
+          if (!isVisible(form)) return false;
+          // Site search is not a conversion form
+          if (form.getAttribute('role') === 'search' || form.querySelector('input[type="search"]')) return false;
+          return true;
+        })
+        .map(form => {
+          const fieldElements = Array.from(form.querySelectorAll(fieldSelector))
+            .filter(field => {
+              const type = (field.getAttribute('type') || 'text').toLowerCase();
+              return !ignoredTypes.includes(type) && isVisible(field);
+            }) as HTMLElement[];
+
+          // Radio groups and checkbox groups count as one field per name
+          const seenGroups = new Set<string>();
+          const fields = fieldElements.filter(field => {
+            const type = (field.getAttribute('type') || '').toLowerCase();
+            const name = field.getAttribute('name');
+            if ((type === 'radio' || type === 'checkbox') && name) {
+              if (seenGroups.has(name)) return false;
+              seenGroups.add(name);
+            }
+            return true;
+          }).map(field => {
+            const type = field.tagName === 'INPUT'
+              ? (field.getAttribute('type') || 'text').toLowerCase()
+              : field.tagName.toLowerCase();
+            const labelText = getLabelText(field);
+            return {
+              tagName: field.tagName.toLowerCase(),
+              type,
+              purpose: inferPurpose(field, type, labelText),
+              required: field.hasAttribute('required') || field.getAttribute('aria-required') === 'true',
+              hasLabel: labelText.length > 0,
+              hasPlaceholder: Boolean(field.getAttribute('placeholder')),
+              autocomplete: field.getAttribute('autocomplete')
+            };
+          });
+
+          const submitElement =
+            form.querySelector('button[type="submit"], input[type="submit"]') ||
+            form.querySelector('button:not([type]), button[type=""]');
+          const submitText = submitElement
+            ? ((submitElement as HTMLInputElement).value && submitElement.tagName === 'INPUT'
+              ? (submitElement as HTMLInputElement).value
+              : submitElement.textContent || submitElement.getAttribute('aria-label') || ''
+            ).replace(/\s+/g, ' ').trim()
+            : null;
+
+          const stepContainers = form.querySelectorAll('[data-step], [class*="form-step"], [class*="step-"], fieldset');
+          const isMultiStep =
+            form.querySelector('[role="progressbar"], [class*="progress"], [class*="stepper"]') !== null ||
+            Array.from(stepContainers).filter(step => !isVisible(step)).length > 0;
+
+          const top = form.getBoundingClientRect().top + window.scrollY;
+
+          return {
+            fields,
+            submitText: submitText || null,
+            isMultiStep,
+            isAboveFold: top < viewportHeight
+          };
+        })
+        .filter(form => form.fields.length > 0);
+    }, viewport.height) as ExtractedForm[];
+
+    console.log(`📋 ${forms.length} forms found`);
+
+    const result = scoreForms(forms, options.isHtml ? undefined : urlOrHtml);
+    console.log(`💯 Form optimization score: ${result.score === null ? 'n/a (no forms)' : `${result.score}/100`}`);
+    return result;
+  } finally {
+    if (shouldCloseBrowser && browser) {
+      console.log('🔒 Closing browser...');
+      await browser.close();
+    }
+    console.log('✨ Form optimization analysis complete!');
+  }
+}
+
+/**
+ * Score form friction. The overall score is the average of the per-form
+ * scores; pages without forms get a null score so they are left out of the
+ * overall score.
+ */
+export function scoreForms(forms: ExtractedForm[], url?: string): FormOptimizationResult {
+  const summaries = forms.map(summarizeForm);
+
+  const totalFields = sum(summaries.map(form => form.fieldCount));
+  const requiredFields = sum(summaries.map(form => form.requiredCount));
+  const placeholderOnlyFields = sum(summaries.map(form => form.placeholderOnlyCount));
+  const missingAutocompleteFields = sum(summaries.map(form => form.missingAutocompleteCount));
+  const inputTypeMismatches = sum(summaries.map(form => form.inputTypeIssues.length));
+  const multiStepFormDetected = summaries.some(form => form.isMultiStep);
+
+  const score = summaries.length > 0
+    ? Math.round(sum(summaries.map(form => form.score)) / summaries.length)
+    : null;
+
+  const ctx: RecommendationContext = {
+    url,
+    formCount: summaries.length,
+    maxFormFieldCount: Math.max(0, ...summaries.map(form => form.fieldCount)),
+    optionalFieldCount: totalFields - requiredFields,
+    placeholderOnlyFields,
+    missingAutocompleteFields,
+    inputTypeMismatches,
+    inputTypeIssues: Array.from(new Set(summaries.flatMap(form => form.inputTypeIssues))),
+    weakSubmitText: summaries
+      .filter(form => form.submitActionStrength === 'weak')
+      .map(form => `"${form.submitText}"`),
+    missingSubmitButton: summaries.some(form => form.submitText === null),
+    longFormWithoutSteps: summaries.some(form => form.fieldCount > MULTI_STEP_THRESHOLD && !form.isMultiStep),
+    formAboveFold: summaries.some(form => form.isAboveFold)
+  };
+
+  const generated = getFormRecommendations(ctx);
+  return {
+    score,
+    formCount: summaries.length,
+    totalFields,
+    requiredFields,
+    placeholderOnlyFields,
+    missingAutocompleteFields,
+    inputTypeMismatches,
+    multiStepFormDetected,
+    forms: summaries,
+    issues: generateIssues(ctx),
+    recommendations: generated.legacyStrings,
+    recommendationIds: generated.recommendationIds
+  };
+}
+
+function summarizeForm(form: ExtractedForm): FormSummary {
+  const fieldCount = form.fields.length;
+  const requiredCount = form.fields.filter(field => field.required).length;
+  const placeholderOnlyCount = form.fields.filter(field => !field.hasLabel && field.hasPlaceholder).length;
+  const missingAutocompleteCount = form.fields.filter(field =>
+    AUTOFILL_PURPOSES.includes(field.purpose) &&
+    (!field.autocomplete || field.autocomplete.toLowerCase() === 'off')
+  ).length;
+
+  const inputTypeIssues: string[] = [];
+  if (form.fields.some(field => field.purpose === 'email' && field.type !== 'email')) {
+    inputTypeIssues.push('email field not using type="email"');
+  }
+  if (form.fields.some(field => field.purpose === 'phone' && field.type !== 'tel')) {
+    inputTypeIssues.push('phone field not using type="tel"');
+  }
+
+  const submitActionStrength = form.submitText === null ? null : getActionStrength(form.submitText);
+
+  let score = 100;
+  score -= Math.min(40, Math.max(0, fieldCount - IDEAL_MAX_FIELDS) * 6);
+  score -= Math.min(24, placeholderOnlyCount * 8);
+  score -= Math.min(16, missingAutocompleteCount * 4);
+  score -= inputTypeIssues.length * 6;
+
+  if (submitActionStrength === null) {
+    score -= 15;
+  } else if (submitActionStrength === 'weak') {
+    score -= 10;
+  }
+
+  if (fieldCount > MULTI_STEP_THRESHOLD) {
+    score += form.isMultiStep ? 5 : -10;
+  }
+
+  return {
+    score: Math.max(0, Math.min(100, score)),
+    fieldCount,
+    requiredCount,
+    placeholderOnlyCount,
+    missingAutocompleteCount,
+    inputTypeIssues,
+    isMultiStep: form.isMultiStep,
+    isAboveFold: form.isAboveFold,
+    submitText: form.submitText,
+    submitActionStrength
+  };
+}
+
+/**
+ * Same action-strength rules as CTA analysis, so "Submit" is weak and
+ * "Get my free report" is strong
+ */
+function getActionStrength(text: string): 'strong' | 'medium' | 'weak' {
+  if (!text) return 'weak';
+  if (CTA_HELPERS.containsAnyWord(text, CTA_DICTIONARY.STRONG_ACTION_WORDS)) return 'strong';
+  if (CTA_HELPERS.containsAnyWord(text, CTA_DICTIONARY.WEAK_ACTION_WORDS)) return 'weak';
+  return 'medium';
+}
+
+function sum(values: number[]): number {
+  return values.reduce((total, value) => total + value, 0);
+}
+
+function generateIssues(ctx: RecommendationContext): string[] {
+  const issues: string[] = [];
+
+  if (!ctx.formCount) {
+    return issues;
+  }
+
+  if ((ctx.maxFormFieldCount || 0) > IDEAL_MAX_FIELDS + 2) {
+    issues.push(`Form has ${ctx.maxFormFieldCount} visible fields. Every extra field adds friction and lowers completion rates.`);
+  }
+
+  if ((ctx.placeholderOnlyFields || 0) > 0) {
+    issues.push(`${ctx.placeholderOnlyFields} form fields rely on placeholder text instead of a label, which disappears as soon as visitors type.`);
+  }
+
+  if ((ctx.missingAutocompleteFields || 0) > 0) {
+    issues.push(`${ctx.missingAutocompleteFields} personal-info fields are missing autocomplete attributes, so browsers can't autofill them.`);
+  }
+
+  for (const inputTypeIssue of ctx.inputTypeIssues || []) {
+    issues.push(`Form uses the wrong input type: ${inputTypeIssue}. Mobile visitors get the wrong keyboard.`);
+  }
+
+  if (ctx.missingSubmitButton) {
+    issues.push('Form has no visible submit button.');
+  }
+
+  if ((ctx.weakSubmitText || []).length > 0) {
+    issues.push(`Weak submit button copy: ${ctx.weakSubmitText!.join(', ')}.`);
+  }
+
+  if (ctx.longFormWithoutSteps) {
+    issues.push('Long form is shown all at once instead of being split into steps.');
+  }
+
+  return issues;
+}
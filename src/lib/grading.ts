@@ -0,0 +1,55 @@
+import { ANALYZER_DEFINITIONS } from './analyzers/definitions';
+import type { AnalyzerId } from './analyzers/types';
+
+/**
+ * Letter grades for overall and per-module scores. The report verdict,
+ * score badges and the stored `grade` column all use these thresholds.
+ */
+
+export type Grade = 'A' | 'B' | 'C' | 'D' | 'F';
+
+export const GRADES: Grade[] = ['A', 'B', 'C', 'D', 'F'];
+
+/** Lowest score (inclusive) for each grade; anything lower is an F */
+export const GRADE_THRESHOLDS: Record<Exclude<Grade, 'F'>, number> = {
+  A: 85,
+  B: 70,
+  C: 60,
+  D: 50
+};
+
+export function getGrade(score: number): Grade {
+  const grade = (['A', 'B', 'C', 'D'] as const).find(letter => score >= GRADE_THRESHOLDS[letter]);
+  return grade || 'F';
+}
+
+export function isGrade(value: unknown): value is Grade {
+  return typeof value === 'string' && (GRADES as string[]).includes(value);
+}
+
+/**
+ * Grades for each analyzer that produced a score, keyed by analyzer id
+ */
+export function getModuleGrades(analysisResult: Record<string, any>): Partial<Record<AnalyzerId, Grade>> {
+  const grades: Partial<Record<AnalyzerId, Grade>> = {};
+  for (const analyzer of ANALYZER_DEFINITIONS) {
+    const score = analysisResult[analyzer.resultKey]?.score;
+    if (typeof score === 'number') {
+      grades[analyzer.id] = getGrade(score);
+    }
+  }
+  return grades;
+}
+
+/**
+ * Parse a grade filter such as "A" or "A,B". Throws with a message that can
+ * be shown to the caller.
+ */
+export function parseGradeFilter(value: string): Grade[] {
+  const grades = value.split(',').map(grade => grade.trim().toUpperCase()).filter(Boolean);
+  const invalid = grades.filter(grade => !isGrade(grade));
+  if (grades.length === 0 || invalid.length > 0) {
+    throw new Error(`grade must be one or more of: ${GRADES.join(', ')}`);
+  }
+  return grades as Grade[];
+}
@@ -1,4 +1,4 @@
-import type { Browser } from 'puppeteer-core';
+import type { Browser, Viewport } from 'puppeteer-core';
 import { createPuppeteerBrowser } from './puppeteer-config';
 import { getImageRecommendations, RecommendationContext } from './recommendations';
 
@@ -15,6 +15,7 @@ export interface ImageOptimizationResult {
   aboveFoldImages: number;
   issues: string[];
   recommendations: string[];
+  recommendationIds?: Record<string, string>;
   details: {
     formatBreakdown: Record<string, number>;
     avgImageSize: { width: number; height: number } | null;
@@ -48,6 +49,8 @@ const LEGACY_FORMATS = ['jpg', 'jpeg', 'png', 'gif', 'bmp'];
 const MAX_REASONABLE_SIZE = 2000; // pixels
 
 export interface ImageOptimizationOptions {
+  viewport?: Viewport; // Defaults to the browser's viewport
+  userAgent?: string;
   puppeteer?: {
     browser?: Browser;
     forceBrowserless?: boolean;
@@ -69,6 +72,12 @@ export async function analyzeImageOptimization(url: string, options: ImageOptimi
     }
     
     const page = await browser.newPage();
+    if (options.viewport) {
+      await page.setViewport(options.viewport);
+    }
+    if (options.userAgent) {
+      await page.setUserAgent(options.userAgent);
+    }
     
     console.log('📄 Navigating to page...');
     await page.goto(url, { 
@@ -470,6 +479,7 @@ function analyzeImages(images: ImageData[]): ImageOptimizationResult {
     aboveFoldImages,
     issues,
     recommendations,
+    recommendationIds: generatedRecs.recommendationIds,
     details: {
       formatBreakdown,
       avgImageSize: images.length > 0 ? {
@@ -0,0 +1,243 @@
+import type { Browser, Viewport } from 'puppeteer-core';
+import { createPuppeteerBrowser } from './puppeteer-config';
+import type { PageAuth } from './page-auth';
+import type { ServedPage } from './page-source';
+import {
+  INDUSTRY_SIGNALS,
+  SIGNAL_WEIGHTS,
+  MIN_INDUSTRY_SCORE,
+  CONFIDENT_INDUSTRY_SCORE,
+  IndustryId
+} from './industry-dictionary';
+
+/**
+ * What the classifier reads from a page
+ */
+export interface PageIndustrySignals {
+  title: string;
+  description: string;
+  /** Raw contents of each JSON-LD script */
+  jsonLd: string[];
+  /** Text of buttons, links and submit inputs */
+  ctaTexts: string[];
+  /** Paths of links on the same site */
+  linkPaths: string[];
+  /** Visible body copy, truncated */
+  bodyText: string;
+}
+
+export interface IndustryDetectionResult {
+  /** null when no industry has enough evidence */
+  industry: IndustryId | null;
+  /** 0-1: how far the winner leads the others, scaled down when evidence is thin */
+  confidence: number;
+  scores: Record<IndustryId, number>;
+  /** The evidence behind the detected industry, e.g. "CTA: add to cart" */
+  signals: string[];
+}
+
+interface IndustryDetectionOptions {
+  viewport?: Viewport;
+  isHtml?: boolean; // Flag to indicate if input is HTML instead of URL
+  puppeteer?: {
+    browser?: Browser;
+    forceBrowserless?: boolean;
+    auth?: PageAuth | null;
+    servedPage?: ServedPage | null;
+  };
+}
+
+const BODY_TEXT_LIMIT = 10000;
+
+export async function detectIndustry(
+  urlOrHtml: string,
+  options: IndustryDetectionOptions = {}
+): Promise<IndustryDetectionResult> {
+  console.log('🏷️ Industry detection starting...');
+
+  const providedBrowser = options.puppeteer?.browser;
+  const shouldCloseBrowser = !providedBrowser;
+  let browser: Browser | null = providedBrowser || null;
+
+  try {
+    const viewport = options.viewport || { width: 1920, height: 1080 };
+
+    if (!browser) {
+      console.log('📱 Launching Puppeteer browser...');
+      browser = await createPuppeteerBrowser({
+        forceBrowserless: options.puppeteer?.forceBrowserless,
+        auth: options.puppeteer?.auth,
+        servedPage: options.puppeteer?.servedPage
+      });
+    }
+
+    const page = await browser.newPage();
+    await page.setViewport(viewport);
+
+    if (options.isHtml) {
+      console.log('📄 Setting HTML content directly...');
+      await page.setContent(urlOrHtml);
+    } else {
+      console.log('🌐 Navigating to URL...');
+      await page.goto(urlOrHtml, {
+        waitUntil: 'domcontentloaded',
+        timeout: 60000
+      });
+    }
+
+    console.log('🔍 Reading industry signals...');
+    const signals = await page.evaluate((bodyTextLimit: number): PageIndustrySignals => {
+      const text = (element: Element) => ((element as HTMLElement).innerText || element.textContent || '').replace(/\s+/g, ' ').trim();
+
+      const ctaTexts = Array.from(document.querySelectorAll('button, a, input[type="submit"], input[type="button"], [role="button"]'))
+        .map(element => element instanceof HTMLInputElement ? element.value.trim() : text(element))
+        .filter(value => value.length > 0 && value.length <= 60);
+
+      const linkPaths = Array.from(document.querySelectorAll('a[href]'))
+        .map(link => {
+          try {
+            const url = new URL(link.getAttribute('href') || '', window.location.href);
+            return url.host === window.location.host ? url.pathname : null;
+          } catch {
+            return null;
+          }
+        })
+        .filter((path): path is string => !!path && path !== '/');
+
+      return {
+        title: (document.title || '').trim(),
+        description: document.querySelector('meta[name="description"]')?.getAttribute('content') || '',
+        jsonLd: Array.from(document.querySelectorAll('script[type="application/ld+json"]')).map(script => script.textContent || ''),
+        ctaTexts: Array.from(new Set(ctaTexts)),
+        linkPaths: Array.from(new Set(linkPaths)),
+        bodyText: (document.body?.innerText || '').slice(0, bodyTextLimit)
+      };
+    }, BODY_TEXT_LIMIT);
+
+    console.log(`📝 ${signals.ctaTexts.length} CTAs, ${signals.linkPaths.length} links and ${signals.jsonLd.length} JSON-LD blocks found`);
+
+    const result = classifyIndustry(signals);
+    console.log(result.industry
+      ? `🏷️ Detected industry: ${result.industry} (confidence ${result.confidence})`
+      : '🏷️ No industry detected');
+    return result;
+  } finally {
+    if (shouldCloseBrowser && browser) {
+      console.log('🔒 Closing browser...');
+      await browser.close();
+    }
+    console.log('✨ Industry detection complete!');
+  }
+}
+
+/**
+ * Score each industry on the page's structured data types, CTA wording,
+ * link paths and keywords, and pick the best supported one
+ */
+export function classifyIndustry(page: PageIndustrySignals): IndustryDetectionResult {
+  const types = extractJsonLdTypes(page.jsonLd);
+  const ctaTexts = page.ctaTexts.map(cta => cta.toLowerCase());
+  const metadataText = `${page.title} ${page.description}`.toLowerCase();
+  const bodyText = page.bodyText.toLowerCase();
+
+  const industries = Object.keys(INDUSTRY_SIGNALS) as IndustryId[];
+  const evidence = {} as Record<IndustryId, string[]>;
+  const scores = {} as Record<IndustryId, number>;
+
+  for (const industry of industries) {
+    const dictionary = INDUSTRY_SIGNALS[industry];
+    let score = 0;
+    const found: string[] = [];
+
+    for (const type of dictionary.jsonLdTypes.filter(type => types.includes(type))) {
+      score += SIGNAL_WEIGHTS.jsonLdType;
+      found.push(`JSON-LD: ${type}`);
+    }
+
+    // One phrase per CTA, so "start free trial" doesn't also count as "free trial"
+    const phrases = new Set(ctaTexts
+      .map(cta => dictionary.ctaPhrases.find(phrase => containsPhrase(cta, phrase)))
+      .filter((phrase): phrase is string => !!phrase));
+    for (const phrase of phrases) {
+      score += SIGNAL_WEIGHTS.ctaPhrase;
+      found.push(`CTA: ${phrase}`);
+    }
+
+    for (const pattern of dictionary.linkPatterns) {
+      const path = page.linkPaths.find(linkPath => pattern.test(linkPath.toLowerCase()));
+      if (path) {
+        score += SIGNAL_WEIGHTS.linkPattern;
+        found.push(`Link: ${path}`);
+      }
+    }
+
+    for (const keyword of dictionary.keywords) {
+      if (containsPhrase(metadataText, keyword)) {
+        score += SIGNAL_WEIGHTS.metadataKeyword;
+        found.push(`Keyword: ${keyword}`);
+      } else if (containsPhrase(bodyText, keyword)) {
+        score += SIGNAL_WEIGHTS.bodyKeyword;
+        found.push(`Keyword: ${keyword}`);
+      }
+    }
+
+    scores[industry] = score;
+    evidence[industry] = found;
+  }
+
+  const [top] = [...industries].sort((a, b) => scores[b] - scores[a]);
+  const total = industries.reduce((sum, industry) => sum + scores[industry], 0);
+
+  if (scores[top] < MIN_INDUSTRY_SCORE) {
+    return { industry: null, confidence: 0, scores, signals: [] };
+  }
+
+  const share = scores[top] / total;
+  const strength = Math.min(1, scores[top] / CONFIDENT_INDUSTRY_SCORE);
+  return {
+    industry: top,
+    confidence: Math.round(share * strength * 100) / 100,
+    scores,
+    signals: evidence[top]
+  };
+}
+
+/**
+ * Every @type in the JSON-LD blocks, including @graph members and nested
+ * items such as a Product's offers. Invalid blocks are skipped.
+ */
+export function extractJsonLdTypes(blocks: string[]): string[] {
+  const types = new Set<string>();
+
+  const visit = (value: unknown) => {
+    if (Array.isArray(value)) {
+      value.forEach(visit);
+      return;
+    }
+    if (!value || typeof value !== 'object') {
+      return;
+    }
+    const node = value as Record<string, unknown>;
+    const type = node['@type'];
+    (Array.isArray(type) ? type : [type])
+      .filter((item): item is string => typeof item === 'string')
+      .forEach(item => types.add(item.replace(/^https?:\/\/schema\.org\//, '')));
+    Object.entries(node)
+      .filter(([key]) => key !== '@type' && key !== '@context')
+      .forEach(([, child]) => visit(child));
+  };
+
+  for (const block of blocks) {
+    try {
+      visit(JSON.parse(block));
+    } catch {
+      // Broken JSON-LD is reported by the SEO analysis
+    }
+  }
+  return Array.from(types);
+}
+
+function containsPhrase(text: string, phrase: string): boolean {
+  const escaped = phrase.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  return new RegExp(`(^|[^a-z0-9])${escaped}([^a-z0-9]|$)`).test(text);
+}
@@ -0,0 +1,74 @@
+/**
+ * Industry Dictionary - the signals used to guess what kind of business a
+ * landing page belongs to. Phrases and keywords are lowercase; link
+ * patterns are matched against link paths.
+ */
+
+export type IndustryId = 'saas' | 'ecommerce' | 'agency' | 'consulting' | 'local-service' | 'education';
+
+export interface IndustrySignals {
+  /** schema.org @type values */
+  jsonLdTypes: string[];
+  /** Button and link text */
+  ctaPhrases: string[];
+  /** Link paths, e.g. a pricing or cart page */
+  linkPatterns: RegExp[];
+  /** Words in the title, description and body copy */
+  keywords: string[];
+}
+
+export const INDUSTRY_SIGNALS: Record<IndustryId, IndustrySignals> = {
+  saas: {
+    jsonLdTypes: ['SoftwareApplication', 'WebApplication', 'MobileApplication'],
+    ctaPhrases: ['start free trial', 'start your free trial', 'free trial', 'book a demo', 'book demo', 'request a demo', 'get a demo', 'sign up free', 'try it free', 'try for free', 'get started free', 'start for free'],
+    linkPatterns: [/^\/pricing\b/, /^\/plans\b/, /^\/integrations\b/, /^\/docs\b/, /^\/changelog\b/, /^\/signup\b/, /^\/(login|sign-in|signin)\b/],
+    keywords: ['saas', 'software', 'platform', 'dashboard', 'integrations', 'api', 'workflow', 'automate', 'per user', 'per month', 'no credit card required', 'cancel anytime']
+  },
+  ecommerce: {
+    jsonLdTypes: ['Product', 'ProductGroup', 'OnlineStore', 'Store'],
+    ctaPhrases: ['add to cart', 'add to bag', 'add to basket', 'buy now', 'shop now', 'shop the collection', 'checkout', 'view cart'],
+    linkPatterns: [/^\/cart\b/, /^\/checkout\b/, /^\/products?\//, /^\/collections?\b/, /^\/shop\b/, /^\/store\b/],
+    keywords: ['free shipping', 'in stock', 'out of stock', 'returns', 'sizes', 'sale', 'shop', 'collection', 'delivery']
+  },
+  agency: {
+    jsonLdTypes: ['AdvertisingAgency'],
+    ctaPhrases: ['see our work', 'view our work', 'our work', 'view portfolio', 'start a project', 'let\'s work together', 'work with us', 'view case study'],
+    linkPatterns: [/^\/work\b/, /^\/portfolio\b/, /^\/case-stud(y|ies)\b/, /^\/projects\b/],
+    keywords: ['agency', 'branding', 'creative', 'design studio', 'our clients', 'case studies', 'portfolio', 'campaigns', 'web design']
+  },
+  consulting: {
+    jsonLdTypes: ['ProfessionalService', 'FinancialService', 'LegalService', 'AccountingService'],
+    ctaPhrases: ['free consultation', 'book a consultation', 'schedule a consultation', 'book a call', 'schedule a call', 'book a strategy call', 'talk to an expert'],
+    linkPatterns: [/^\/services\b/, /^\/consulting\b/, /^\/expertise\b/, /^\/industries\b/],
+    keywords: ['consulting', 'consultant', 'advisory', 'strategy', 'expertise', 'engagement', 'transformation', 'coaching']
+  },
+  'local-service': {
+    jsonLdTypes: ['LocalBusiness', 'HomeAndConstructionBusiness', 'Plumber', 'Electrician', 'RoofingContractor', 'HVACBusiness', 'AutoRepair', 'Dentist', 'MedicalClinic', 'HealthAndBeautyBusiness', 'CleaningService', 'MovingCompany', 'Restaurant'],
+    ctaPhrases: ['call now', 'call us', 'call today', 'get a quote', 'get a free quote', 'free estimate', 'get an estimate', 'book an appointment', 'schedule service', 'find a location'],
+    linkPatterns: [/^\/locations?\b/, /^\/service-areas?\b/, /^\/areas-we-serve\b/, /^\/appointments?\b/],
+    keywords: ['licensed', 'insured', 'family owned', 'locally owned', 'near you', 'same-day', 'emergency', 'repair', 'installation', 'estimate']
+  },
+  education: {
+    jsonLdTypes: ['Course', 'EducationalOrganization', 'CollegeOrUniversity', 'School'],
+    ctaPhrases: ['enroll now', 'enroll today', 'apply now', 'start learning', 'join the course', 'view curriculum', 'download syllabus'],
+    linkPatterns: [/^\/courses?\b/, /^\/programs?\b/, /^\/admissions\b/, /^\/curriculum\b/, /^\/students\b/],
+    keywords: ['course', 'curriculum', 'students', 'lessons', 'certificate', 'instructor', 'enroll', 'bootcamp', 'tuition']
+  }
+};
+
+/** Points per distinct signal found */
+export const SIGNAL_WEIGHTS = {
+  jsonLdType: 3,
+  ctaPhrase: 2,
+  linkPattern: 2,
+  /** Keyword in the title or meta description */
+  metadataKeyword: 1,
+  /** Keyword in the body copy */
+  bodyKeyword: 0.5
+};
+
+/** Lowest score that labels a page; below it the industry stays unknown */
+export const MIN_INDUSTRY_SCORE = 2;
+
+/** Score at which the leading industry counts as fully evidenced */
+export const CONFIDENT_INDUSTRY_SCORE = 6;
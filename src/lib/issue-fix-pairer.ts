@@ -20,6 +20,21 @@ const MATCHING_KEYWORDS = [
   'testimonial', 'review', 'rating', 'trust', 'badge', 'social', 'proof', 'customer',
   // Whitespace related
   'whitespace', 'spacing', 'clutter', 'density', 'margin', 'padding', 'layout',
+  // Value proposition related
+  'headline', 'subheadline', 'benefit', 'feature', 'differentiat', 'specific', 'vague',
+  // Form related
+  'form', 'field', 'label', 'placeholder', 'autocomplete', 'autofill', 'submit', 'input type',
+  // Mobile related
+  'tap', 'touch', 'viewport', 'horizontal', 'scroll',
+  // Psychological triggers related
+  'countdown', 'timer', 'deadline', 'urgency', 'scarcity', 'authority', 'free offer', 'decline', 'no thanks',
+  // Copy related
+  'reading level', 'grade', 'sentence', 'passive', 'jargon', 'heading', '"we"', '"you"',
+  // Accessibility related
+  'landmark', 'keyboard', 'link text', 'lang attribute', 'screen reader',
+  // SEO related
+  'title', 'meta description', 'canonical', 'open graph', 'share image', 'twitter', 'noindex', 'nofollow',
+  'hreflang', 'structured data', 'json-ld', 'h1',
   // General
   'above fold', 'below fold', 'mobile', 'desktop', 'accessibility', 'contrast'
 ]
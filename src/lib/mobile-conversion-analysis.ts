@@ -0,0 +1,306 @@
+import type { Browser } from 'puppeteer-core';
+import { createPuppeteerBrowser, MOBILE_DEVICE } from './puppeteer-config';
+import { analyzeCTA } from './cta-analysis';
+import { analyzeWhitespace } from './whitespace-assessment';
+import { analyzeImageOptimization } from './image-optimization';
+import { analyzeSocialProof } from './social-proof-analysis';
+import { calculateOverallScore } from './analyzers/definitions';
+import { getMobileRecommendations, RecommendationContext } from './recommendations';
+
+/** Minimum comfortable touch target size in CSS pixels (Apple HIG / WCAG 2.5.5) */
+export const MIN_TAP_TARGET_SIZE = 44;
+
+/**
+ * Mobile result of one of the desktop analyzers
+ */
+export interface MobileModuleResult {
+  score: number | null;
+  issues: string[];
+  recommendations: string[];
+}
+
+export interface TapTargetCheck {
+  total: number;
+  tooSmall: number;
+  examples: Array<{ text: string; width: number; height: number }>;
+}
+
+export interface HorizontalOverflowCheck {
+  detected: boolean;
+  pageWidth: number;
+  viewportWidth: number;
+  offenders: string[];
+}
+
+export interface MobileConversionResult {
+  score: number;
+  device: {
+    width: number;
+    height: number;
+    userAgent: string;
+  };
+  /** Mobile results keyed by the desktop analyzer's result key; null when the module failed */
+  modules: {
+    ctaAnalysis: MobileModuleResult | null;
+    whitespaceAssessment: MobileModuleResult | null;
+    imageOptimization: MobileModuleResult | null;
+    socialProof: MobileModuleResult | null;
+  };
+  ctasAboveFold: number | null;
+  tapTargets: TapTargetCheck;
+  horizontalOverflow: HorizontalOverflowCheck;
+  hasViewportMeta: boolean;
+  issues: string[];
+  recommendations: string[];
+  recommendationIds?: Record<string, string>;
+}
+
+interface MobileConversionOptions {
+  puppeteer?: {
+    browser?: Browser;
+    forceBrowserless?: boolean;
+  };
+}
+
+interface MobileUsabilityData {
+  tapTargets: TapTargetCheck;
+  horizontalOverflow: HorizontalOverflowCheck;
+  hasViewportMeta: boolean;
+}
+
+/**
+ * Re-run the layout-sensitive analyzers at a phone viewport with touch
+ * emulation, then check tap target sizing and horizontal overflow
+ */
+export async function analyzeMobileConversion(
+  url: string,
+  options: MobileConversionOptions = {}
+): Promise<MobileConversionResult> {
+  console.log('📱 Mobile conversion analysis starting...');
+
+  const providedBrowser = options.puppeteer?.browser;
+  const shouldCloseBrowser = !providedBrowser;
+  let browser: Browser | null = providedBrowser || null;
+
+  try {
+    if (!browser) {
+      browser = await createPuppeteerBrowser({
+        forceBrowserless: options.puppeteer?.forceBrowserless
+      });
+    }
+
+    const deviceOptions = {
+      viewport: MOBILE_DEVICE.viewport,
+      userAgent: MOBILE_DEVICE.userAgent,
+      puppeteer: { browser, forceBrowserless: options.puppeteer?.forceBrowserless }
+    };
+
+    const ctaResult = await runMobileModule('CTA', () => analyzeCTA(url, deviceOptions));
+    const whitespaceResult = await runMobileModule('whitespace', () => analyzeWhitespace(url, deviceOptions));
+    const imageResult = await runMobileModule('image', () => analyzeImageOptimization(url, deviceOptions));
+    const socialProofResult = await runMobileModule('social proof', () => analyzeSocialProof(url, deviceOptions));
+
+    console.log('👆 Checking tap targets and horizontal overflow...');
+    const usability = await checkMobileUsability(browser, url);
+
+    const result = scoreMobileConversion({
+      modules: {
+        ctaAnalysis: toModuleResult(ctaResult),
+        whitespaceAssessment: toModuleResult(whitespaceResult),
+        imageOptimization: toModuleResult(imageResult),
+        socialProof: toModuleResult(socialProofResult)
+      },
+      ctasAboveFold: ctaResult ? ctaResult.ctas.filter(cta => cta.isAboveFold).length : null,
+      ...usability
+    }, url);
+
+    console.log(`💯 Mobile conversion score: ${result.score}/100`);
+    return result;
+  } finally {
+    if (shouldCloseBrowser && browser) {
+      console.log('🔒 Closing browser...');
+      await browser.close();
+    }
+    console.log('✨ Mobile conversion analysis complete!');
+  }
+}
+
+/**
+ * A failing module is left out of the mobile score rather than failing the pass
+ */
+async function runMobileModule<T>(name: string, run: () => Promise<T>): Promise<T | null> {
+  try {
+    console.log(`📱 Running mobile ${name} analysis...`);
+    return await run();
+  } catch (error) {
+    console.error(`⚠️ Mobile ${name} analysis failed:`, error);
+    return null;
+  }
+}
+
+function toModuleResult(result: { score: number | null; issues: string[]; recommendations: string[] } | null): MobileModuleResult | null {
+  if (!result) return null;
+  return {
+    score: result.score,
+    issues: result.issues,
+    recommendations: result.recommendations
+  };
+}
+
+async function checkMobileUsability(browser: Browser, url: string): Promise<MobileUsabilityData> {
+  const page = await browser.newPage();
+  try {
+    await page.setViewport(MOBILE_DEVICE.viewport);
+    await page.setUserAgent(MOBILE_DEVICE.userAgent);
+    await page.goto(url, {
+      waitUntil: 'domcontentloaded',
+      timeout: 60000
+    });
+
+    return await page.evaluate((minSize: number) => {
+      const isVisible = (element: Element): boolean => {
+        const style = window.getComputedStyle(element);
+        const rect = element.getBoundingClientRect();
+        return style.display !== 'none' &&
+          style.visibility !== 'hidden' &&
+          rect.width > 0 &&
+          rect.height > 0;
+      };
+
+      // Links inside running text are exempt from target size rules
+      const isInlineTextLink = (element: Element): boolean =>
+        element.tagName === 'A' &&
+        window.getComputedStyle(element).display === 'inline' &&
+        element.closest('p, li, td, blockquote') !== null;
+
+      const targets = Array.from(document.querySelectorAll(
+        'a[href], button, input:not([type="hidden"]), select, textarea, [role="button"], [onclick]'
+      )).filter(element => isVisible(element) && !isInlineTextLink(element));
+
+      const tooSmall = targets.filter(element => {
+        const rect = element.getBoundingClientRect();
+        return rect.width < minSize || rect.height < minSize;
+      });
+
+      const describe = (element: Element): string => {
+        const id = element.id ? `#${element.id}` : '';
+        const className = typeof element.className === 'string' && element.className.trim()
+          ? `.${element.className.trim().split(/\s+/).slice(0, 2).join('.')}`
+          : '';
+        return `${element.tagName.toLowerCase()}${id}${className}`;
+      };
+
+      const viewportWidth = window.innerWidth;
+      const pageWidth = Math.max(document.documentElement.scrollWidth, document.body?.scrollWidth || 0);
+      const overflowing = Array.from(document.querySelectorAll('body *')).filter(element => {
+        const rect = element.getBoundingClientRect();
+        return rect.width > 0 && rect.right > viewportWidth + 1 && isVisible(element);
+      });
+      // Report the outermost offenders only
+      const offenders = overflowing
+        .filter(element => !overflowing.includes(element.parentElement as Element))
+        .slice(0, 5)
+        .map(describe);
+
+      const viewportMeta = document.querySelector('meta[name="viewport"]');
+
+      return {
+        tapTargets: {
+          total: targets.length,
+          tooSmall: tooSmall.length,
+          examples: tooSmall.slice(0, 5).map(element => {
+            const rect = element.getBoundingClientRect();
+            return {
+              text: (element.textContent || element.getAttribute('aria-label') || describe(element)).replace(/\s+/g, ' ').trim().slice(0, 40),
+              width: Math.round(rect.width),
+              height: Math.round(rect.height)
+            };
+          })
+        },
+        horizontalOverflow: {
+          detected: pageWidth > viewportWidth + 1,
+          pageWidth,
+          viewportWidth,
+          offenders
+        },
+        hasViewportMeta: (viewportMeta?.getAttribute('content') || '').includes('width=device-width')
+      };
+    }, MIN_TAP_TARGET_SIZE);
+  } finally {
+    await page.close();
+  }
+}
+
+/**
+ * Combine the mobile module scores (weighted like the desktop overall score)
+ * with a mobile usability score for tap targets, overflow and viewport setup
+ */
+export function scoreMobileConversion(
+  data: Pick<MobileConversionResult, 'modules' | 'ctasAboveFold' | 'tapTargets' | 'horizontalOverflow' | 'hasViewportMeta'>,
+  url?: string
+): MobileConversionResult {
+  const { modules, ctasAboveFold, tapTargets, horizontalOverflow, hasViewportMeta } = data;
+
+  const smallTapTargetRatio = tapTargets.total > 0 ? tapTargets.tooSmall / tapTargets.total : 0;
+  let usabilityScore = 100;
+  usabilityScore -= Math.round(smallTapTargetRatio * 50);
+  if (horizontalOverflow.detected) usabilityScore -= 30;
+  if (!hasViewportMeta) usabilityScore -= 30;
+  usabilityScore = Math.max(0, usabilityScore);
+
+  const hasModuleScores = Object.values(modules).some(moduleResult => moduleResult !== null);
+  const moduleScore = calculateOverallScore(modules);
+  const score = hasModuleScores
+    ? Math.round(moduleScore * 0.6 + usabilityScore * 0.4)
+    : usabilityScore;
+
+  const ctx: RecommendationContext = {
+    url,
+    tapTargetCount: tapTargets.total,
+    smallTapTargets: tapTargets.tooSmall,
+    horizontalOverflow: horizontalOverflow.detected,
+    hasViewportMeta,
+    mobileCtasAboveFold: ctasAboveFold ?? undefined
+  };
+
+  const generated = getMobileRecommendations(ctx);
+  return {
+    score,
+    device: {
+      width: MOBILE_DEVICE.viewport.width,
+      height: MOBILE_DEVICE.viewport.height,
+      userAgent: MOBILE_DEVICE.userAgent
+    },
+    modules,
+    ctasAboveFold,
+    tapTargets,
+    horizontalOverflow,
+    hasViewportMeta,
+    issues: generateIssues(ctx, horizontalOverflow),
+    recommendations: generated.legacyStrings,
+    recommendationIds: generated.recommendationIds
+  };
+}
+
+function generateIssues(ctx: RecommendationContext, horizontalOverflow: HorizontalOverflowCheck): string[] {
+  const issues: string[] = [];
+
+  if (!ctx.hasViewportMeta) {
+    issues.push('Missing responsive viewport meta tag. Mobile browsers render the desktop layout zoomed out.');
+  }
+
+  if (ctx.horizontalOverflow) {
+    const offenders = horizontalOverflow.offenders.length > 0 ? ` (${horizontalOverflow.offenders.join(', ')})` : '';
+    issues.push(`Page scrolls horizontally on mobile: content is ${horizontalOverflow.pageWidth}px wide on a ${horizontalOverflow.viewportWidth}px screen${offenders}.`);
+  }
+
+  if ((ctx.smallTapTargets || 0) > 0) {
+    issues.push(`${ctx.smallTapTargets} of ${ctx.tapTargetCount} tap targets are smaller than ${MIN_TAP_TARGET_SIZE}x${MIN_TAP_TARGET_SIZE}px, making them hard to tap on mobile.`);
+  }
+
+  if (ctx.mobileCtasAboveFold === 0) {
+    issues.push('No CTA is visible above the fold on mobile.');
+  }
+
+  return issues;
+}
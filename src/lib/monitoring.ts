@@ -0,0 +1,151 @@
+import { supabaseAdmin } from '@/lib/supabase';
+import { enqueueAnalysis } from '@/lib/analysis-queue';
+import { isUploadUrl } from '@/lib/page-source';
+import type { AnalysisJobOptions, MonitoredPage, MonitorFrequency } from '@/types/database';
+
+/** Days between scheduled re-scans of a monitored page */
+export const MONITOR_INTERVAL_DAYS: Record<MonitorFrequency, number> = {
+  weekly: 7,
+  monthly: 30
+};
+
+/** Scheduled re-scans wait behind analyses someone is watching the progress of */
+export const MONITOR_PRIORITY = 0;
+
+/** Most recent analyses looked at per user when grouping them into pages */
+const ANALYSES_PER_USER = 200;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+interface AnalysisRow {
+  id: string;
+  url: string;
+  status: string;
+  overall_score: number | null;
+  grade: MonitoredPage['grade'];
+  created_at: string;
+  job_options?: AnalysisJobOptions | null;
+}
+
+/**
+ * Group a user's analyses (newest first) into one monitored page per URL and
+ * decide whether each page is due for a re-scan
+ */
+export function planMonitoredPages(
+  userId: string,
+  frequency: MonitorFrequency,
+  analyses: AnalysisRow[],
+  now: Date = new Date()
+): Array<MonitoredPage & { due: boolean }> {
+  const byUrl = new Map<string, AnalysisRow[]>();
+  for (const analysis of analyses) {
+    // Uploaded pages have no live URL to re-scan, and the credentials of a
+    // page behind a login are gone once its analysis has run
+    if (isUploadUrl(analysis.url) || analysis.job_options?.requires_auth) {
+      continue;
+    }
+    byUrl.set(analysis.url, [...(byUrl.get(analysis.url) || []), analysis]);
+  }
+
+  const pages: Array<MonitoredPage & { due: boolean }> = [];
+  for (const [url, rows] of Array.from(byUrl.entries())) {
+    const completed = rows.filter(row => row.status === 'completed');
+    const [latest, previous] = completed;
+    if (!latest) {
+      continue;
+    }
+
+    const inProgress = rows.some(row => row.status === 'queued' || row.status === 'processing');
+    const age = now.getTime() - new Date(latest.created_at).getTime();
+    const due = !inProgress && age >= MONITOR_INTERVAL_DAYS[frequency] * DAY_MS;
+
+    pages.push({
+      userId,
+      url,
+      frequency,
+      latestAnalysisId: latest.id,
+      lastAnalyzedAt: latest.created_at,
+      overallScore: latest.overall_score,
+      grade: latest.grade,
+      scoreDelta: previous && latest.overall_score !== null && previous.overall_score !== null
+        ? latest.overall_score - previous.overall_score
+        : null,
+      status: inProgress ? 'in-progress' : 'up-to-date',
+      due
+    });
+  }
+
+  return pages;
+}
+
+/**
+ * Scheduled monitoring run: queue a re-scan of every page whose owner asked
+ * for weekly or monthly re-analysis and whose latest scan is older than
+ * that, then store a digest of all monitored pages. Score drop alerts go out
+ * when the queued re-scans finish.
+ */
+export async function runMonitoring(now: Date = new Date()): Promise<{ digestId: string | null; pages: MonitoredPage[] }> {
+  const { data: preferences, error: preferencesError } = await supabaseAdmin
+    .from('user_preferences')
+    .select('user_id, auto_analyze_frequency')
+    .in('auto_analyze_frequency', Object.keys(MONITOR_INTERVAL_DAYS));
+
+  if (preferencesError) {
+    throw new Error(`Failed to load monitoring preferences: ${preferencesError.message}`);
+  }
+
+  const pages: MonitoredPage[] = [];
+
+  for (const { user_id: userId, auto_analyze_frequency: frequency } of preferences || []) {
+    const { data: analyses, error: analysesError } = await supabaseAdmin
+      .from('analyses')
+      .select('id, url, status, overall_score, grade, created_at, job_options')
+      .eq('user_id', userId)
+      .order('created_at', { ascending: false })
+      .limit(ANALYSES_PER_USER);
+
+    if (analysesError) {
+      console.error(`❌ Failed to load analyses for monitored user ${userId}:`, analysesError);
+      continue;
+    }
+
+    for (const { due, ...page } of planMonitoredPages(userId, frequency, analyses || [], now)) {
+      if (due) {
+        try {
+          const { id } = await enqueueAnalysis({
+            userId,
+            url: page.url,
+            priority: MONITOR_PRIORITY,
+            parentAnalysisId: page.latestAnalysisId,
+            monitored: true
+          });
+          page.status = 'rescan-queued';
+          page.rescanId = id;
+        } catch (error) {
+          console.error(`❌ Failed to queue monitored re-scan of ${page.url}:`, error);
+        }
+      }
+      pages.push(page);
+    }
+  }
+
+  const rescansQueued = pages.filter(page => page.status === 'rescan-queued').length;
+
+  const { data: digest, error: digestError } = await supabaseAdmin
+    .from('monitoring_digests')
+    .insert({
+      run_at: now.toISOString(),
+      page_count: pages.length,
+      rescans_queued: rescansQueued,
+      pages
+    })
+    .select('id')
+    .single();
+
+  if (digestError || !digest) {
+    console.error('❌ Failed to store monitoring digest:', digestError);
+  }
+
+  console.log(`🔭 Monitoring run: ${pages.length} pages, ${rescansQueued} re-scans queued`);
+  return { digestId: digest?.id ?? null, pages };
+}
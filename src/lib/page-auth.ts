@@ -0,0 +1,236 @@
+import type { Browser, BrowserContext, CookieParam, HTTPRequest, Page } from 'puppeteer-core';
+import { onNewPage } from '@/lib/browser-pages';
+import { parseAnalysisUrl } from '@/lib/url-validation';
+
+/** Credentials are forgotten this long after they were handed in, whether or not the job ran */
+export const PAGE_AUTH_TTL_MS = 30 * 60 * 1000;
+
+/** Most extra headers or cookies accepted */
+const MAX_AUTH_ENTRIES = 20;
+
+export interface LoginStep {
+  /** Login page */
+  url: string;
+  /** Inputs to fill, in order */
+  fields: Array<{ selector: string; value: string }>;
+  /** Element clicked to log in */
+  submit: string;
+  /** Element that appears once logged in; without it the login waits for the page to navigate */
+  waitForSelector?: string;
+}
+
+/**
+ * Credentials for a page behind basic auth or a login. Only ever kept in
+ * memory: never put them in job options or anything else that is stored.
+ */
+export interface PageAuth {
+  /** Origin of the analyzed page; basic auth and headers are only sent there */
+  origin: string;
+  basic?: { username: string; password: string };
+  headers?: Record<string, string>;
+  cookies?: CookieParam[];
+  login?: LoginStep;
+}
+
+const isString = (value: unknown): value is string => typeof value === 'string';
+
+/**
+ * Whether `host` belongs to the site of the page at `pageHost`: the same
+ * host, a subdomain of it, or a domain it is under (like a cookie set for
+ * `.example.com`)
+ */
+function isSameSite(host: string, pageHost: string): boolean {
+  return host.includes('.') && (host === pageHost || host.endsWith(`.${pageHost}`) || pageHost.endsWith(`.${host}`));
+}
+
+function parseSiteUrl(value: unknown, pageHost: string, field: string): string {
+  let url: URL;
+  try {
+    url = parseAnalysisUrl(isString(value) ? value : '');
+  } catch {
+    throw new Error(`${field} must be an http(s) URL`);
+  }
+  if (!isSameSite(url.hostname, pageHost)) {
+    throw new Error(`${field} must be on the same site as the analyzed page`);
+  }
+  return url.toString();
+}
+
+/**
+ * Credentials of an analysis request, or null when it has none. Cookies
+ * without a domain are set for `pageUrl`; cookie domains and the login page
+ * must be on its site. Throws with a message for the client when the
+ * credentials are malformed.
+ */
+export function parsePageAuth(value: unknown, pageUrl: string): PageAuth | null {
+  if (value === undefined || value === null) {
+    return null;
+  }
+  if (typeof value !== 'object' || Array.isArray(value)) {
+    throw new Error('auth must be an object');
+  }
+
+  const { basic, headers, cookies, login } = value as Record<string, any>;
+  const page = new URL(pageUrl);
+  const auth: PageAuth = { origin: page.origin };
+
+  if (basic !== undefined) {
+    if (!isString(basic?.username) || !basic.username || !isString(basic.password)) {
+      throw new Error('auth.basic needs a username and password');
+    }
+    auth.basic = { username: basic.username, password: basic.password };
+  }
+
+  if (headers !== undefined) {
+    const entries = typeof headers === 'object' && headers !== null && !Array.isArray(headers) ? Object.entries(headers) : null;
+    if (!entries || entries.length > MAX_AUTH_ENTRIES || entries.some(([name, headerValue]) => !/^[!#$%&'*+.^_`|~0-9A-Za-z-]+$/.test(name) || !isString(headerValue))) {
+      throw new Error(`auth.headers must map up to ${MAX_AUTH_ENTRIES} header names to string values`);
+    }
+    auth.headers = Object.fromEntries(entries) as Record<string, string>;
+  }
+
+  if (cookies !== undefined) {
+    if (!Array.isArray(cookies) || cookies.length > MAX_AUTH_ENTRIES || cookies.some(cookie => !isString(cookie?.name) || !cookie.name || !isString(cookie.value))) {
+      throw new Error(`auth.cookies must be a list of up to ${MAX_AUTH_ENTRIES} cookies with a name and value`);
+    }
+    const foreignCookie = cookies.find(cookie => isString(cookie.domain) && cookie.domain &&
+      !isSameSite(cookie.domain.replace(/^\./, '').toLowerCase(), page.hostname));
+    if (foreignCookie) {
+      throw new Error(`auth.cookies domain ${foreignCookie.domain} is not on the same site as the analyzed page`);
+    }
+    auth.cookies = cookies.map(cookie => ({
+      name: cookie.name,
+      value: cookie.value,
+      ...(isString(cookie.domain) && cookie.domain ? { domain: cookie.domain } : { url: pageUrl }),
+      ...(isString(cookie.path) ? { path: cookie.path } : {})
+    }));
+  }
+
+  if (login !== undefined) {
+    const fields = login?.fields;
+    if (!Array.isArray(fields) || fields.length === 0 || fields.some(field => !isString(field?.selector) || !field.selector || !isString(field.value))) {
+      throw new Error('auth.login.fields must list the inputs to fill, each with a selector and value');
+    }
+    if (!isString(login.submit) || !login.submit) {
+      throw new Error('auth.login.submit must be the selector of the login button');
+    }
+    auth.login = {
+      url: parseSiteUrl(login.url, page.hostname, 'auth.login.url'),
+      fields: fields.map(field => ({ selector: field.selector, value: field.value })),
+      submit: login.submit,
+      ...(isString(login.waitForSelector) && login.waitForSelector ? { waitForSelector: login.waitForSelector } : {})
+    };
+  }
+
+  if (!auth.basic && !auth.headers && !auth.cookies && !auth.login) {
+    throw new Error('auth needs basic, headers, cookies or login');
+  }
+  return auth;
+}
+
+async function logIn(page: Page, login: LoginStep): Promise<void> {
+  console.log('🔐 Running login step...');
+  try {
+    await page.goto(login.url, { waitUntil: 'domcontentloaded', timeout: 60000 });
+    for (const field of login.fields) {
+      await page.waitForSelector(field.selector, { timeout: 10000 });
+      await page.type(field.selector, field.value);
+    }
+    if (login.waitForSelector) {
+      await page.click(login.submit);
+      await page.waitForSelector(login.waitForSelector, { timeout: 30000 });
+    } else {
+      await Promise.all([
+        page.waitForNavigation({ waitUntil: 'domcontentloaded', timeout: 30000 }),
+        page.click(login.submit)
+      ]);
+    }
+  } catch (error) {
+    throw new Error(`Login step failed: ${error instanceof Error ? error.message : 'unknown error'}`);
+  }
+}
+
+/**
+ * Headers sent with every request to the analyzed page's origin: the
+ * client's headers, plus basic auth sent up front
+ */
+function getSiteHeaders(auth: PageAuth): Record<string, string> {
+  const headers: Record<string, string> = {};
+  for (const [name, value] of Object.entries(auth.headers || {})) {
+    headers[name.toLowerCase()] = value;
+  }
+  if (auth.basic) {
+    headers.authorization = `Basic ${Buffer.from(`${auth.basic.username}:${auth.basic.password}`).toString('base64')}`;
+  }
+  return headers;
+}
+
+function addSiteHeaders(request: HTTPRequest, origin: string, headers: Record<string, string>): void {
+  let requestOrigin: string | null = null;
+  try {
+    requestOrigin = new URL(request.url()).origin;
+  } catch {
+    // Not a URL with an origin, so never the analyzed page's
+  }
+  if (requestOrigin === origin) {
+    request.continue({ headers: { ...request.headers(), ...headers } });
+  } else {
+    request.continue();
+  }
+}
+
+/**
+ * Apply credentials to a new page before anything navigates it. Basic auth
+ * and headers only go to the analyzed page's origin, never to third-party
+ * scripts, fonts or analytics the page loads. The login step runs once per
+ * browser context; its session cookies cover every later page in the
+ * context.
+ */
+export async function applyPageAuth(page: Page, auth: PageAuth, loggedIn: WeakSet<BrowserContext>): Promise<void> {
+  const headers = getSiteHeaders(auth);
+  if (Object.keys(headers).length > 0) {
+    await page.setRequestInterception(true);
+    page.on('request', request => addSiteHeaders(request, auth.origin, headers));
+  }
+  if (auth.cookies?.length) {
+    await page.setCookie(...auth.cookies);
+  }
+  const context = page.browserContext();
+  if (auth.login && !loggedIn.has(context)) {
+    await logIn(page, auth.login);
+    loggedIn.add(context);
+  }
+}
+
+/**
+ * Make every page the browser opens, including pages in new browser
+ * contexts, start out authenticated
+ */
+export function withPageAuth(browser: Browser, auth: PageAuth): Browser {
+  const loggedIn = new WeakSet<BrowserContext>();
+  return onNewPage(browser, page => applyPageAuth(page, auth, loggedIn));
+}
+
+const heldCredentials = new Map<string, { auth: PageAuth; expiresAt: number }>();
+
+/**
+ * Keep an analysis's credentials in this process until its job finishes.
+ * A worker in another process never sees them.
+ */
+export function holdPageAuth(analysisId: string, auth: PageAuth): void {
+  heldCredentials.set(analysisId, { auth, expiresAt: Date.now() + PAGE_AUTH_TTL_MS });
+}
+
+export function getHeldPageAuth(analysisId: string): PageAuth | null {
+  const now = Date.now();
+  heldCredentials.forEach((held, id) => {
+    if (held.expiresAt <= now) {
+      heldCredentials.delete(id);
+    }
+  });
+  return heldCredentials.get(analysisId)?.auth ?? null;
+}
+
+export function releasePageAuth(analysisId: string): void {
+  heldCredentials.delete(analysisId);
+}
@@ -1,4 +1,7 @@
+import type { Page } from 'puppeteer-core';
 import { createPuppeteerBrowser } from './puppeteer-config';
+import type { PageAuth } from './page-auth';
+import type { ServedPage } from './page-source';
 
 export interface PageMetadata {
   title: string;
@@ -11,12 +14,32 @@ export interface PageMetadata {
   } | null;
 }
 
-export async function extractPageMetadata(url: string, options: { puppeteer?: { forceBrowserless?: boolean } } = {}): Promise<PageMetadata> {
+/**
+ * Everything in the document head that search engines and social
+ * platforms read, plus the H1 count
+ */
+export interface SeoMetadata extends Omit<PageMetadata, 'schema'> {
+  canonical: string | null;
+  /** Directives from the robots and googlebot meta tags */
+  robots: string[];
+  /** og:* meta tags, keyed by property */
+  openGraph: Record<string, string>;
+  /** twitter:* meta tags, keyed by name */
+  twitter: Record<string, string>;
+  hreflang: Array<{ lang: string; href: string }>;
+  /** Raw contents of each JSON-LD script, parsed by the caller */
+  jsonLd: string[];
+  h1Count: number;
+}
+
+export async function extractPageMetadata(url: string, options: { puppeteer?: { forceBrowserless?: boolean; auth?: PageAuth | null; servedPage?: ServedPage | null } } = {}): Promise<PageMetadata> {
   let browser;
   
   try {
     browser = await createPuppeteerBrowser({ 
-      forceBrowserless: options.puppeteer?.forceBrowserless 
+      forceBrowserless: options.puppeteer?.forceBrowserless,
+      auth: options.puppeteer?.auth,
+      servedPage: options.puppeteer?.servedPage
     });
     const page = await browser.newPage();
     
@@ -92,4 +115,52 @@ export async function extractPageMetadata(url: string, options: { puppeteer?: {
       await browser.close();
     }
   }
-}
\ No newline at end of file
+}
+
+/**
+ * Extract SEO and share metadata from a page that is already loaded
+ */
+export async function extractSeoMetadata(page: Page): Promise<SeoMetadata> {
+  return page.evaluate(() => {
+    const content = (element: Element | null) => (element?.getAttribute('content') || '').trim();
+
+    const metaTags = (attribute: 'property' | 'name', prefix: string) => {
+      const tags: Record<string, string> = {};
+      document.querySelectorAll(`meta[${attribute}^="${prefix}"]`).forEach(meta => {
+        const key = (meta.getAttribute(attribute) || '').toLowerCase();
+        // Keep the first value, e.g. the first of several og:image tags
+        if (key && !(key in tags)) {
+          tags[key] = content(meta);
+        }
+      });
+      return tags;
+    };
+
+    const robots = Array.from(document.querySelectorAll('meta[name="robots" i], meta[name="googlebot" i]'))
+      .flatMap(meta => content(meta).toLowerCase().split(','))
+      .map(directive => directive.trim())
+      .filter(Boolean);
+
+    return {
+      title: (document.title || '').trim(),
+      description: content(document.querySelector('meta[name="description" i]')),
+      url: window.location.href,
+      canonical: document.querySelector('link[rel="canonical"]')?.getAttribute('href')?.trim() || null,
+      robots,
+      openGraph: metaTags('property', 'og:'),
+      twitter: {
+        // Some sites use property= instead of name= for Twitter tags
+        ...metaTags('property', 'twitter:'),
+        ...metaTags('name', 'twitter:')
+      },
+      hreflang: Array.from(document.querySelectorAll('link[rel="alternate"][hreflang]')).map(link => ({
+        lang: (link.getAttribute('hreflang') || '').trim(),
+        href: (link.getAttribute('href') || '').trim()
+      })),
+      jsonLd: Array.from(document.querySelectorAll('script[type="application/ld+json"]'))
+        .map(script => (script.textContent || '').trim())
+        .filter(Boolean),
+      h1Count: document.querySelectorAll('h1').length
+    };
+  });
+}
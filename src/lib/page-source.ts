@@ -0,0 +1,298 @@
+import { createHash, randomBytes } from 'crypto';
+import path from 'path';
+import { inflateRawSync } from 'zlib';
+import { del, put } from '@vercel/blob';
+import type { Browser, HTTPRequest, Page } from 'puppeteer-core';
+import { onNewPage } from '@/lib/browser-pages';
+import type { PageSource } from '@/types/database';
+
+/** Largest HTML document or zip accepted, in bytes */
+export const MAX_UPLOAD_BYTES = 4 * 1024 * 1024;
+
+/** Most files a zipped build may contain */
+export const MAX_ZIP_FILES = 2000;
+
+/** Largest a zipped build may be once extracted, in bytes */
+export const MAX_UNZIPPED_BYTES = 50 * 1024 * 1024;
+
+/** Analyses of uploaded pages are stored under `upload://<digest>/` */
+export const UPLOAD_URL_PREFIX = 'upload://';
+
+/**
+ * Origin the browser opens an uploaded page at. Its requests are answered
+ * from the upload's files; `.invalid` never resolves, so nothing on the
+ * network can answer for it.
+ */
+export const UPLOADED_PAGE_ORIGIN = 'https://uploaded-page.invalid';
+
+const CONTENT_TYPES: Record<string, string> = {
+  '.html': 'text/html; charset=utf-8',
+  '.htm': 'text/html; charset=utf-8',
+  '.css': 'text/css; charset=utf-8',
+  '.js': 'text/javascript; charset=utf-8',
+  '.mjs': 'text/javascript; charset=utf-8',
+  '.json': 'application/json',
+  '.txt': 'text/plain; charset=utf-8',
+  '.xml': 'application/xml',
+  '.svg': 'image/svg+xml',
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.gif': 'image/gif',
+  '.webp': 'image/webp',
+  '.avif': 'image/avif',
+  '.ico': 'image/x-icon',
+  '.woff': 'font/woff',
+  '.woff2': 'font/woff2',
+  '.ttf': 'font/ttf',
+  '.otf': 'font/otf',
+  '.mp4': 'video/mp4',
+  '.webm': 'video/webm'
+};
+
+export interface PageUpload {
+  type: PageSource['type'];
+  content: Buffer;
+  digest: string;
+}
+
+export interface ServedPage {
+  /** URL the browser opens the page's index.html at */
+  url: string;
+  /** Files of the upload keyed by path from the site root */
+  files: Map<string, Buffer>;
+}
+
+export function isUploadUrl(url: string): boolean {
+  return url.startsWith(UPLOAD_URL_PREFIX);
+}
+
+export function getUploadUrl(digest: string): string {
+  return `${UPLOAD_URL_PREFIX}${digest.slice(0, 16)}/`;
+}
+
+/**
+ * The uploaded page of an analysis request: `html` as a string or `zip` as
+ * base64. Returns null when the request has neither. Throws with a message
+ * for the client when the upload can't be analyzed.
+ */
+export function parsePageUpload(body: { html?: unknown; zip?: unknown }): PageUpload | null {
+  const { html, zip } = body;
+  if (html === undefined && zip === undefined) {
+    return null;
+  }
+  if (html !== undefined && zip !== undefined) {
+    throw new Error('Send either html or zip, not both');
+  }
+
+  let upload: Omit<PageUpload, 'digest'>;
+  if (html !== undefined) {
+    if (typeof html !== 'string' || !html.trim()) {
+      throw new Error('html must be a non-empty HTML document');
+    }
+    upload = { type: 'html', content: Buffer.from(html, 'utf8') };
+  } else {
+    if (typeof zip !== 'string' || !zip.trim()) {
+      throw new Error('zip must be a base64-encoded zip file');
+    }
+    upload = { type: 'zip', content: Buffer.from(zip, 'base64') };
+  }
+
+  if (upload.content.length > MAX_UPLOAD_BYTES) {
+    throw new Error(`Uploads are limited to ${MAX_UPLOAD_BYTES / 1024 / 1024} MB`);
+  }
+  // Fails early on a zip that can't be served
+  getSiteFiles(upload.type, upload.content);
+
+  return { ...upload, digest: createHash('sha256').update(upload.content).digest('hex') };
+}
+
+/**
+ * Files of a zip archive keyed by path. Supports stored and deflated
+ * entries, which is what common zip tools write.
+ */
+export function extractZip(zip: Buffer): Map<string, Buffer> {
+  // The end of central directory record is in the last 22 bytes plus an optional comment
+  let end = -1;
+  for (let offset = zip.length - 22; offset >= Math.max(0, zip.length - 22 - 0xffff); offset--) {
+    if (zip.readUInt32LE(offset) === 0x06054b50) {
+      end = offset;
+      break;
+    }
+  }
+  if (end === -1) {
+    throw new Error('zip is not a valid zip file');
+  }
+
+  const entryCount = zip.readUInt16LE(end + 10);
+  if (entryCount > MAX_ZIP_FILES) {
+    throw new Error(`The zip has more than ${MAX_ZIP_FILES} files`);
+  }
+
+  const files = new Map<string, Buffer>();
+  let totalSize = 0;
+  let offset = zip.readUInt32LE(end + 16);
+  for (let index = 0; index < entryCount; index++) {
+    if (offset + 46 > zip.length || zip.readUInt32LE(offset) !== 0x02014b50) {
+      throw new Error('zip is not a valid zip file');
+    }
+    const flags = zip.readUInt16LE(offset + 8);
+    const method = zip.readUInt16LE(offset + 10);
+    const compressedSize = zip.readUInt32LE(offset + 20);
+    const size = zip.readUInt32LE(offset + 24);
+    const nameLength = zip.readUInt16LE(offset + 28);
+    const headerLength = 46 + nameLength + zip.readUInt16LE(offset + 30) + zip.readUInt16LE(offset + 32);
+    const localOffset = zip.readUInt32LE(offset + 42);
+    const name = zip.toString('utf8', offset + 46, offset + 46 + nameLength).replace(/\\/g, '/');
+    offset += headerLength;
+
+    if (name.endsWith('/') || name.startsWith('__MACOSX/')) {
+      continue;
+    }
+    const filePath = path.posix.normalize(name);
+    if (filePath.startsWith('../') || filePath.startsWith('/')) {
+      throw new Error(`The zip contains a file outside its folder: ${name}`);
+    }
+    if (flags & 0x1) {
+      throw new Error('Encrypted zip files are not supported');
+    }
+    if (method !== 0 && method !== 8) {
+      throw new Error(`${name} uses an unsupported zip compression method`);
+    }
+    totalSize += size;
+    if (totalSize > MAX_UNZIPPED_BYTES) {
+      throw new Error(`The zip is larger than ${MAX_UNZIPPED_BYTES / 1024 / 1024} MB once extracted`);
+    }
+
+    const dataStart = localOffset + 30 + zip.readUInt16LE(localOffset + 26) + zip.readUInt16LE(localOffset + 28);
+    const data = zip.subarray(dataStart, dataStart + compressedSize);
+    files.set(filePath, method === 0 ? Buffer.from(data) : inflateRawSync(data, { maxOutputLength: Math.max(size, 1) }));
+  }
+
+  return files;
+}
+
+/**
+ * Files to serve for an upload, keyed by path from the site root. The root
+ * of a zipped build is the folder with the top-most index.html, so a zip of
+ * a `dist/` folder works as well as a zip of its contents.
+ */
+export function getSiteFiles(type: PageSource['type'], content: Buffer): Map<string, Buffer> {
+  if (type === 'html') {
+    return new Map([['index.html', content]]);
+  }
+
+  const files = extractZip(content);
+  const index = Array.from(files.keys())
+    .filter(filePath => path.posix.basename(filePath) === 'index.html')
+    .sort((a, b) => a.split('/').length - b.split('/').length)[0];
+  if (!index) {
+    throw new Error('The zip has no index.html');
+  }
+
+  const root = path.posix.dirname(index);
+  if (root === '.') {
+    return files;
+  }
+  const siteFiles = new Map<string, Buffer>();
+  files.forEach((file, filePath) => {
+    if (filePath.startsWith(`${root}/`)) {
+      siteFiles.set(filePath.slice(root.length + 1), file);
+    }
+  });
+  return siteFiles;
+}
+
+/**
+ * File served for a URL path, resolving `/about/` to `about/index.html` and
+ * `/about` to `about.html` the way static hosts do
+ */
+export function resolveSiteFile(files: Map<string, Buffer>, pathname: string): string | undefined {
+  let requestPath: string;
+  try {
+    requestPath = decodeURIComponent(pathname).replace(/^\/+/, '');
+  } catch {
+    requestPath = '';
+  }
+  const candidates = requestPath === '' || requestPath.endsWith('/')
+    ? [`${requestPath}index.html`]
+    : [requestPath, `${requestPath}/index.html`, `${requestPath}.html`];
+  return candidates.find(candidate => files.has(candidate));
+}
+
+function answerFromFiles(request: HTTPRequest, files: Map<string, Buffer>): void {
+  let url: URL;
+  try {
+    url = new URL(request.url());
+  } catch {
+    request.continue();
+    return;
+  }
+  if (url.origin !== UPLOADED_PAGE_ORIGIN) {
+    request.continue();
+    return;
+  }
+
+  const filePath = resolveSiteFile(files, url.pathname);
+  if (!filePath) {
+    request.respond({ status: 404, contentType: 'text/plain; charset=utf-8', body: 'Not found' });
+    return;
+  }
+  request.respond({
+    status: 200,
+    contentType: CONTENT_TYPES[path.posix.extname(filePath).toLowerCase()] || 'application/octet-stream',
+    body: files.get(filePath)!
+  });
+}
+
+/**
+ * Answer a page's requests to the uploaded page's origin from the upload's
+ * files, letting everything else (CDNs, fonts, analytics) through
+ */
+export async function serveUploadedPage(page: Page, servedPage: ServedPage): Promise<void> {
+  await page.setRequestInterception(true);
+  page.on('request', request => answerFromFiles(request, servedPage.files));
+}
+
+/**
+ * Make every page the browser opens, including pages in new browser
+ * contexts, able to load the uploaded page. Works the same for a local
+ * browser and Browserless, since nothing is served from this machine.
+ */
+export function withServedPage(browser: Browser, servedPage: ServedPage): Browser {
+  return onNewPage(browser, page => serveUploadedPage(page, servedPage));
+}
+
+/**
+ * Keep an upload until its analysis has finished. Blobs are always public,
+ * so the upload is stored under a random name that nothing else refers to
+ * rather than its digest, and its URL is never logged or sent to clients.
+ */
+export async function storePageSource(upload: PageUpload): Promise<PageSource> {
+  const name = randomBytes(32).toString('hex');
+  const blob = await put(`page-sources/${name}.${upload.type}`, upload.content, {
+    access: 'public',
+    contentType: upload.type === 'zip' ? 'application/zip' : 'text/html; charset=utf-8',
+    addRandomSuffix: false
+  });
+  console.log(`📦 Stored uploaded ${upload.type} (${upload.content.length} bytes)`);
+  return { type: upload.type, blob_url: blob.url, digest: upload.digest };
+}
+
+/**
+ * Download a stored upload for the length of an analysis. Browsers created
+ * with it as `servedPage` load it from `url`.
+ */
+export async function servePageSource(source: PageSource): Promise<ServedPage> {
+  const response = await fetch(source.blob_url);
+  if (!response.ok) {
+    throw new Error(`Failed to download uploaded page: ${response.status}`);
+  }
+  const files = getSiteFiles(source.type, Buffer.from(await response.arrayBuffer()));
+  console.log(`🗂️ Serving uploaded ${source.type} (${files.size} files) at ${UPLOADED_PAGE_ORIGIN}/`);
+  return { url: `${UPLOADED_PAGE_ORIGIN}/`, files };
+}
+
+export async function discardPageSource(source: PageSource): Promise<void> {
+  await del(source.blob_url);
+}
@@ -12,6 +12,7 @@ export interface PageSpeedAnalysisResult {
   metrics: PageSpeedMetrics;
   issues: string[];
   recommendations: string[];
+  recommendationIds?: Record<string, string>;
   loadTime: number; // Total analysis time in ms
 }
 
@@ -41,13 +42,14 @@ export async function analyzePageSpeed(
     // Convert to marketing-friendly format
     const marketingMetrics = convertToMarketingMetrics(result.metrics, result.score);
     const marketingIssues = convertToMarketingIssues(result.issues);
-    const marketingRecommendations = convertToMarketingRecommendations(result.recommendations);
+    const { recommendations, recommendationIds } = convertToMarketingRecommendations(result.recommendations, result.recommendationIds);
     
     return {
       score: result.score,
       metrics: marketingMetrics,
       issues: marketingIssues,
-      recommendations: marketingRecommendations,
+      recommendations,
+      recommendationIds,
       loadTime: result.loadTime
     };
   } catch (error) {
@@ -137,28 +139,22 @@ function convertToMarketingIssues(technicalIssues: string[]): string[] {
   }).filter((issue, index, array) => array.indexOf(issue) === index); // Remove duplicates
 }
 
-function convertToMarketingRecommendations(technicalRecs: string[]): string[] {
+/**
+ * Recommendations in marketing language. Each keeps the template id of the
+ * technical recommendation it was rewritten from; recommendations rewritten
+ * to the same text keep the first one's.
+ */
+function convertToMarketingRecommendations(
+  technicalRecs: string[],
+  technicalIds: Record<string, string> = {}
+): { recommendations: string[]; recommendationIds: Record<string, string> } {
+  const recommendationIds: Record<string, string> = {};
   const marketingRecs = technicalRecs.map(rec => {
-    // Convert technical recommendations to marketing language
-    if (rec.includes('image') || rec.includes('WebP') || rec.includes('AVIF')) {
-      return 'Optimize images to load faster and keep visitors engaged';
+    const marketingRec = toMarketingRecommendation(rec);
+    if (technicalIds[rec] && !recommendationIds[marketingRec]) {
+      recommendationIds[marketingRec] = technicalIds[rec];
     }
-    if (rec.includes('CSS') || rec.includes('JavaScript') || rec.includes('JS')) {
-      return 'Optimize code delivery to improve user experience';
-    }
-    if (rec.includes('layout shift') || rec.includes('size attributes') || rec.includes('Add size attributes')) {
-      return 'Prevent content from jumping around to improve user experience';
-    }
-    if (rec.includes('bundle') || rec.includes('minify') || rec.includes('compress')) {
-      return 'Reduce file sizes to make your page load faster';
-    }
-    if (rec.includes('lazy loading')) {
-      return 'Load content as users scroll to improve initial page speed';
-    }
-    if (rec.includes('Excellent performance')) {
-      return 'Great job! Your page loads fast enough to keep visitors happy';
-    }
-    return rec; // Keep as-is if no specific mapping
+    return marketingRec;
   }).filter((rec, index, array) => array.indexOf(rec) === index); // Remove duplicates
   
   // Add business-focused recommendations
@@ -167,5 +163,28 @@ function convertToMarketingRecommendations(technicalRecs: string[]): string[] {
     marketingRecs.push('Fast loading pages improve SEO rankings and conversion rates');
   }
   
-  return marketingRecs;
+  return { recommendations: marketingRecs, recommendationIds };
+}
+
+function toMarketingRecommendation(rec: string): string {
+  // Convert technical recommendations to marketing language
+  if (rec.includes('image') || rec.includes('WebP') || rec.includes('AVIF')) {
+    return 'Optimize images to load faster and keep visitors engaged';
+  }
+  if (rec.includes('CSS') || rec.includes('JavaScript') || rec.includes('JS')) {
+    return 'Optimize code delivery to improve user experience';
+  }
+  if (rec.includes('layout shift') || rec.includes('size attributes') || rec.includes('Add size attributes')) {
+    return 'Prevent content from jumping around to improve user experience';
+  }
+  if (rec.includes('bundle') || rec.includes('minify') || rec.includes('compress')) {
+    return 'Reduce file sizes to make your page load faster';
+  }
+  if (rec.includes('lazy loading')) {
+    return 'Load content as users scroll to improve initial page speed';
+  }
+  if (rec.includes('Excellent performance')) {
+    return 'Great job! Your page loads fast enough to keep visitors happy';
+  }
+  return rec; // Keep as-is if no specific mapping
 }
@@ -18,6 +18,7 @@ export interface PageSpeedAnalysisResult {
   metrics: PageSpeedMetrics;
   issues: string[];
   recommendations: string[];
+  recommendationIds?: Record<string, string>;
   loadTime: number; // Total analysis time in ms
 }
 
@@ -175,7 +176,7 @@ export async function analyzePageSpeedPuppeteer(
     
     // Calculate score based on metrics
     const score = calculatePerformanceScore(metrics);
-    const { issues, recommendations } = generateRecommendations(metrics);
+    const { issues, recommendations, recommendationIds } = generateRecommendations(metrics);
     
     const loadTime = Date.now() - startTime;
     
@@ -186,6 +187,7 @@ export async function analyzePageSpeedPuppeteer(
       metrics,
       issues,
       recommendations,
+      recommendationIds,
       loadTime
     };
 
@@ -237,7 +239,7 @@ function calculatePerformanceScore(metrics: PageSpeedMetrics): number {
 
 function generateRecommendations(
   metrics: PageSpeedMetrics
-): { issues: string[]; recommendations: string[] } {
+): { issues: string[]; recommendations: string[]; recommendationIds: Record<string, string> } {
   const issues: string[] = [];
 
   // LCP issues
@@ -287,5 +289,5 @@ function generateRecommendations(
   };
   const generatedRecs = getSpeedRecommendations(ctx);
 
-  return { issues, recommendations: generatedRecs.legacyStrings };
+  return { issues, recommendations: generatedRecs.legacyStrings, recommendationIds: generatedRecs.recommendationIds };
 }
@@ -4,6 +4,7 @@
  */
 
 import { categorizeContent } from './impact-analyzer'
+import { getAnalyzersInDisplayOrder } from './analyzers/definitions'
 
 export type ImpactLevel = 'Critical' | 'High' | 'Medium'
 
@@ -25,27 +26,23 @@ export interface PriorityFix {
   severity: ImpactLevel
 }
 
-export interface AnalysisResult {
-  pageLoadSpeed?: { score: number; issues?: string[]; recommendations?: string[] }
-  ctaAnalysis?: { score: number; issues?: string[]; recommendations?: string[] }
-  socialProof?: { score: number; issues?: string[]; recommendations?: string[] }
-  whitespaceAssessment?: { score: number; issues?: string[]; recommendations?: string[] }
-  imageOptimization?: { score: number; issues?: string[]; recommendations?: string[] }
-  fontUsage?: { score: number; issues?: string[]; recommendations?: string[] }
+export interface SectionResult {
+  score: number | null
+  issues?: string[]
+  recommendations?: string[]
 }
 
-// Section configuration with weights (higher = more important)
-// CTA (25%), Speed (25%), Social (20%), Whitespace (15%), Images (10%), Fonts (5%)
-const SECTION_CONFIG = [
-  { key: 'ctaAnalysis', name: 'CTA', id: 'cta-section', icon: '🎯', weight: 25 },
-  { key: 'pageLoadSpeed', name: 'Page Speed', id: 'speed-section', icon: '⚡', weight: 25 },
-  { key: 'socialProof', name: 'Social Proof', id: 'social-section', icon: '⭐', weight: 20 },
-  { key: 'whitespaceAssessment', name: 'Whitespace', id: 'whitespace-section', icon: '📐', weight: 15 },
-  { key: 'imageOptimization', name: 'Images', id: 'images-section', icon: '🖼️', weight: 10 },
-  { key: 'fontUsage', name: 'Fonts', id: 'fonts-section', icon: '🔤', weight: 5 }
-] as const
+// Analysis results, with section results keyed by analyzer result key (pageLoadSpeed, ctaAnalysis, ...)
+export type AnalysisResult = Record<string, any>
 
-type SectionKey = typeof SECTION_CONFIG[number]['key']
+// Section configuration with weights (higher = more important), from the analyzer registry
+const SECTION_CONFIG = getAnalyzersInDisplayOrder().map(analyzer => ({
+  key: analyzer.resultKey,
+  name: analyzer.name,
+  id: analyzer.section.sectionId,
+  icon: analyzer.section.icon,
+  weight: analyzer.weight
+}))
 
 /**
  * Get impact level based on score
@@ -85,8 +82,8 @@ function getPrimaryRecommendation(recommendations: string[] = []): string {
  */
 export function generatePriorityInsight(analysisResult: AnalysisResult): PriorityInsight | null {
   const sections = SECTION_CONFIG.map(config => {
-    const section = analysisResult[config.key as SectionKey]
-    if (!section) return null
+    const section: SectionResult | undefined = analysisResult[config.key]
+    if (!section || typeof section.score !== 'number') return null
 
     return {
       ...config,
@@ -135,8 +132,8 @@ export function getTopPriorityFixes(analysisResult: AnalysisResult, limit: numbe
   const COLLAPSE_THRESHOLD = 85
 
   const sections = SECTION_CONFIG.map(config => {
-    const section = analysisResult[config.key as SectionKey]
-    if (!section || section.score >= COLLAPSE_THRESHOLD) return null
+    const section: SectionResult | undefined = analysisResult[config.key]
+    if (!section || typeof section.score !== 'number' || section.score >= COLLAPSE_THRESHOLD) return null
 
     return {
       ...config,
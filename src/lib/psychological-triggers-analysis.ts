@@ -0,0 +1,368 @@
+import type { Browser, Page, Viewport } from 'puppeteer-core';
+import { createPuppeteerBrowser } from './puppeteer-config';
+import { CTA_DICTIONARY, CTA_HELPERS } from './cta-dictionary';
+import {
+  PSYCHOLOGICAL_TRIGGERS_DICTIONARY,
+  TIMER_SAMPLE_MS,
+  TIMER_RESET_TOLERANCE_SECONDS
+} from './psychological-triggers-dictionary';
+import { analyzeSocialProof, SocialProofAnalysisResult } from './social-proof-analysis';
+import { getPsychologyRecommendations, RecommendationContext } from './recommendations';
+
+export interface CountdownTimer {
+  text: string;
+  /** Remaining time in seconds, when the text could be parsed */
+  seconds: number | null;
+  /** Text changed while the page was watched */
+  ticking: boolean;
+  /** Timer started over when the page was loaded again in a fresh session */
+  resetsOnReload: boolean;
+}
+
+/**
+ * Social proof input; the authority counts come from its summary
+ */
+export interface SocialProofSignals {
+  score: number | null;
+  summary: SocialProofAnalysisResult['summary'];
+}
+
+export interface TriggerPageData {
+  text: string;
+  countdownTimers: CountdownTimer[];
+}
+
+export interface PsychologicalTriggersResult {
+  score: number;
+  countdownTimers: CountdownTimer[];
+  scarcityElements: number;
+  scarcityPhrases: string[];
+  urgencyLanguageDetected: boolean;
+  urgencyPhrases: string[];
+  authoritySignals: number;
+  authorityPhrases: string[];
+  reciprocityElements: number;
+  reciprocityOffers: string[];
+  socialProofStrength: number | null;
+  manipulativePatterns: string[];
+  issues: string[];
+  recommendations: string[];
+  recommendationIds?: Record<string, string>;
+}
+
+interface PsychologicalTriggersOptions {
+  viewport?: Viewport;
+  isHtml?: boolean; // Flag to indicate if input is HTML instead of URL
+  puppeteer?: {
+    browser?: Browser;
+    forceBrowserless?: boolean;
+  };
+  /** Result of a social proof analysis that already ran; analyzed here when missing */
+  socialProof?: SocialProofSignals;
+}
+
+interface TimerSample {
+  path: string;
+  text: string;
+}
+
+export async function analyzePsychologicalTriggers(
+  urlOrHtml: string,
+  options: PsychologicalTriggersOptions = {}
+): Promise<PsychologicalTriggersResult> {
+  console.log('🧠 Psychological triggers analysis starting...');
+
+  const providedBrowser = options.puppeteer?.browser;
+  const shouldCloseBrowser = !providedBrowser;
+  let browser: Browser | null = providedBrowser || null;
+
+  try {
+    const viewport = options.viewport || { width: 1920, height: 1080 };
+
+    if (!browser) {
+      console.log('📱 Launching Puppeteer browser...');
+      browser = await createPuppeteerBrowser({
+        forceBrowserless: options.puppeteer?.forceBrowserless
+      });
+    }
+
+    const loadPage = async (page: Page) => {
+      await page.setViewport(viewport);
+      if (options.isHtml) {
+        await page.setContent(urlOrHtml);
+      } else {
+        await page.goto(urlOrHtml, {
+          waitUntil: 'domcontentloaded',
+          timeout: 60000
+        });
+      }
+    };
+
+    const page = await browser.newPage();
+    await loadPage(page);
+
+    console.log('🔍 Reading page copy and countdown timers...');
+    const text: string = await page.evaluate(() => (document.body?.innerText || '').slice(0, 50000));
+    const firstSamples = await sampleTimers(page);
+
+    let countdownTimers: CountdownTimer[] = [];
+    let secondTexts: Array<string | null> = [];
+    let secondSampleAt = Date.now();
+    if (firstSamples.length > 0) {
+      console.log(`⏱️ Watching ${firstSamples.length} possible timers...`);
+      await new Promise(resolve => setTimeout(resolve, TIMER_SAMPLE_MS));
+      secondTexts = await readTimers(page, firstSamples.map(sample => sample.path));
+      secondSampleAt = Date.now();
+
+      countdownTimers = firstSamples.map((sample, index) => ({
+        text: sample.text,
+        seconds: parseCountdownSeconds(sample.text),
+        ticking: secondTexts[index] !== null && secondTexts[index] !== sample.text,
+        resetsOnReload: false
+      }));
+    }
+
+    const tickingPaths = firstSamples.filter((_, index) => countdownTimers[index].ticking).map(sample => sample.path);
+    if (tickingPaths.length > 0) {
+      // A fresh context has no cookies or storage, like a new visitor
+      console.log('🔁 Reloading in a fresh session to check for resetting timers...');
+      const context = await browser.createBrowserContext();
+      try {
+        const reloadPage = await context.newPage();
+        await loadPage(reloadPage);
+        const reloadTexts = await readTimers(reloadPage, tickingPaths);
+        const elapsedSeconds = (Date.now() - secondSampleAt) / 1000;
+
+        // A real deadline keeps counting down from the last value we saw
+        tickingPaths.forEach((path, reloadIndex) => {
+          const timerIndex = firstSamples.findIndex(sample => sample.path === path);
+          const lastSeconds = parseCountdownSeconds(secondTexts[timerIndex] || '');
+          const reloadSeconds = parseCountdownSeconds(reloadTexts[reloadIndex] || '');
+          if (lastSeconds !== null && reloadSeconds !== null) {
+            countdownTimers[timerIndex].resetsOnReload =
+              reloadSeconds > lastSeconds - elapsedSeconds + TIMER_RESET_TOLERANCE_SECONDS;
+          }
+        });
+      } finally {
+        await context.close();
+      }
+    }
+
+    const socialProof = options.socialProof || await analyzeSocialProof(urlOrHtml, {
+      isHtml: options.isHtml,
+      puppeteer: { browser, forceBrowserless: options.puppeteer?.forceBrowserless }
+    });
+
+    const result = scorePsychologicalTriggers({ text, countdownTimers }, socialProof, options.isHtml ? undefined : urlOrHtml);
+    console.log(`💯 Psychological triggers score: ${result.score}/100`);
+    return result;
+  } finally {
+    if (shouldCloseBrowser && browser) {
+      console.log('🔒 Closing browser...');
+      await browser.close();
+    }
+    console.log('✨ Psychological triggers analysis complete!');
+  }
+}
+
+/**
+ * Find elements that look like countdowns, by class/id or by a clock-like text
+ * such as "02:15:30", and record a CSS path so they can be found again
+ */
+async function sampleTimers(page: Page): Promise<TimerSample[]> {
+  return page.evaluate((selectors: string[]) => {
+    const clockPattern = /\b\d{1,3}\s*:\s*\d{2}(\s*:\s*\d{2})?\b|\b\d+\s*(d|days?)\s+\d+\s*(h|hrs?|hours?)\b/i;
+
+    const cssPath = (element: Element): string => {
+      const parts: string[] = [];
+      let current: Element | null = element;
+      while (current && current !== document.body) {
+        const parent: Element | null = current.parentElement;
+        const tagName = current.tagName;
+        const index = parent ? Array.from(parent.children).filter(child => child.tagName === tagName).indexOf(current) + 1 : 1;
+        parts.unshift(`${tagName.toLowerCase()}:nth-of-type(${index})`);
+        current = parent;
+      }
+      return `body > ${parts.join(' > ')}`;
+    };
+
+    const isVisible = (element: Element): boolean => {
+      const style = window.getComputedStyle(element);
+      const rect = element.getBoundingClientRect();
+      return style.display !== 'none' && style.visibility !== 'hidden' && rect.width > 0 && rect.height > 0;
+    };
+
+    const getText = (element: Element) => (element.textContent || '').replace(/\s+/g, ' ').trim();
+
+    const bySelector = Array.from(document.querySelectorAll(selectors.join(', ')))
+      .filter(element => /\d/.test(getText(element)) && getText(element).length <= 80);
+    const byText = Array.from(document.querySelectorAll('body *'))
+      .filter(element => element.children.length === 0 && clockPattern.test(getText(element)) && getText(element).length <= 40);
+
+    const candidates = Array.from(new Set([...bySelector, ...byText])).filter(isVisible);
+    // Keep the outermost element of nested candidates (e.g. a countdown and its digits)
+    return candidates
+      .filter(element => !candidates.some(other => other !== element && other.contains(element)))
+      .slice(0, 10)
+      .map(element => ({ path: cssPath(element), text: getText(element) }));
+  }, [...PSYCHOLOGICAL_TRIGGERS_DICTIONARY.TIMER_SELECTORS]);
+}
+
+async function readTimers(page: Page, paths: string[]): Promise<Array<string | null>> {
+  return page.evaluate((timerPaths: string[]) => timerPaths.map(path => {
+    const element = document.querySelector(path);
+    return element ? (element.textContent || '').replace(/\s+/g, ' ').trim() : null;
+  }), paths);
+}
+
+/**
+ * Parse countdown text like "02:15:30", "1d 04:10:00" or
+ * "2 days 3 hours 15 minutes" into seconds
+ */
+export function parseCountdownSeconds(text: string): number | null {
+  const days = text.match(/(\d+)\s*(?:d|days?)\b/i);
+  const dayCount = days ? parseInt(days[1], 10) : 0;
+
+  const clock = text.match(/(\d{1,3})\s*:\s*(\d{2})(?:\s*:\s*(\d{2}))?/);
+  if (clock) {
+    const [first, second, third] = [clock[1], clock[2], clock[3]].map(value => (value ? parseInt(value, 10) : null));
+    const clockSeconds = third !== null
+      ? first! * 3600 + second! * 60 + third
+      : first! * 60 + second!;
+    return dayCount * 86400 + clockSeconds;
+  }
+
+  const units: Record<string, number> = { h: 3600, m: 60, s: 1 };
+  let seconds = dayCount * 86400;
+  let matched = Boolean(days);
+  for (const [, value, unit] of text.matchAll(/(\d+)\s*(h|hrs?|hours?|m|mins?|minutes?|s|secs?|seconds?)\b/gi)) {
+    seconds += parseInt(value, 10) * units[unit[0].toLowerCase()];
+    matched = true;
+  }
+  return matched ? seconds : null;
+}
+
+/**
+ * Score detected triggers. Authority, reciprocity, genuine urgency and social
+ * proof all help; manipulative patterns such as resetting timers cost points.
+ */
+export function scorePsychologicalTriggers(
+  data: TriggerPageData,
+  socialProof: SocialProofSignals,
+  url?: string
+): PsychologicalTriggersResult {
+  const { text, countdownTimers } = data;
+
+  const scarcityPhrases = unique([
+    ...findPhrases(text, PSYCHOLOGICAL_TRIGGERS_DICTIONARY.SCARCITY_PHRASES),
+    ...findPatterns(text, PSYCHOLOGICAL_TRIGGERS_DICTIONARY.SCARCITY_PATTERNS)
+  ]);
+  // URGENCY_PATTERNS also match "only 3 left"; those are counted as scarcity
+  const urgencyPhrases = unique([
+    ...findPhrases(text, PSYCHOLOGICAL_TRIGGERS_DICTIONARY.URGENCY_PHRASES),
+    ...findPatterns(text, CTA_DICTIONARY.URGENCY_PATTERNS)
+  ]).filter(phrase => !scarcityPhrases.includes(phrase));
+  const authorityPhrases = findPhrases(text, PSYCHOLOGICAL_TRIGGERS_DICTIONARY.AUTHORITY_PHRASES);
+  const reciprocityOffers = findPhrases(text, PSYCHOLOGICAL_TRIGGERS_DICTIONARY.RECIPROCITY_PHRASES);
+  const confirmshamingPhrases = findPatterns(text, PSYCHOLOGICAL_TRIGGERS_DICTIONARY.CONFIRMSHAMING_PATTERNS);
+
+  const liveTimers = countdownTimers.filter(timer => timer.ticking);
+  const resettingTimers = liveTimers.filter(timer => timer.resetsOnReload);
+  const authoritySignals = authorityPhrases.length +
+    socialProof.summary.certifications +
+    socialProof.summary.partnerships +
+    socialProof.summary.newsMentions;
+
+  const manipulativePatterns = [
+    ...resettingTimers.map(timer => `Countdown timer resets on reload ("${timer.text}")`),
+    ...confirmshamingPhrases.map(phrase => `Confirmshaming decline copy ("${phrase}")`)
+  ];
+
+  const authorityScore = authoritySignals === 0 ? 0 : authoritySignals === 1 ? 60 : 100;
+  const reciprocityScore = reciprocityOffers.length > 0 ? 100 : 30;
+  const genuineUrgency = scarcityPhrases.length > 0 || urgencyPhrases.length > 0 || liveTimers.length > resettingTimers.length;
+  const urgencyScore = genuineUrgency ? 100 : 40;
+  const socialProofScore = socialProof.score ?? 0;
+
+  const score = Math.max(0, Math.min(100, Math.round(
+    authorityScore * 0.3 +
+    reciprocityScore * 0.2 +
+    urgencyScore * 0.2 +
+    socialProofScore * 0.3 -
+    resettingTimers.length * 25 -
+    confirmshamingPhrases.length * 15
+  )));
+
+  const ctx: RecommendationContext = {
+    url,
+    countdownTimerCount: liveTimers.length,
+    resettingTimerCount: resettingTimers.length,
+    scarcityPhraseCount: scarcityPhrases.length,
+    urgencyPhraseCount: urgencyPhrases.length,
+    authoritySignalCount: authoritySignals,
+    reciprocityOfferCount: reciprocityOffers.length,
+    confirmshamingPhrases
+  };
+
+  const generated = getPsychologyRecommendations(ctx);
+  return {
+    score,
+    countdownTimers: liveTimers,
+    scarcityElements: scarcityPhrases.length,
+    scarcityPhrases,
+    urgencyLanguageDetected: urgencyPhrases.length > 0,
+    urgencyPhrases,
+    authoritySignals,
+    authorityPhrases,
+    reciprocityElements: reciprocityOffers.length,
+    reciprocityOffers,
+    socialProofStrength: socialProof.score,
+    manipulativePatterns,
+    issues: generateIssues(ctx),
+    recommendations: generated.legacyStrings,
+    recommendationIds: generated.recommendationIds
+  };
+}
+
+function findPhrases(text: string, phrases: readonly string[]): string[] {
+  return phrases.filter(phrase => CTA_HELPERS.phraseToBoundaryRegex(phrase).test(text));
+}
+
+function findPatterns(text: string, patterns: readonly RegExp[]): string[] {
+  return patterns
+    .map(pattern => text.match(pattern)?.[0].trim())
+    .filter((match): match is string => Boolean(match));
+}
+
+function unique(values: string[]): string[] {
+  return Array.from(new Set(values.map(value => value.toLowerCase())));
+}
+
+function generateIssues(ctx: RecommendationContext): string[] {
+  const issues: string[] = [];
+
+  if ((ctx.resettingTimerCount || 0) > 0) {
+    issues.push(`${ctx.resettingTimerCount} countdown timer${ctx.resettingTimerCount === 1 ? '' : 's'} restarted when the page was reloaded. Fake deadlines erode trust.`);
+  }
+
+  if ((ctx.confirmshamingPhrases || []).length > 0) {
+    issues.push(`Decline copy shames visitors for saying no: "${(ctx.confirmshamingPhrases || []).join('", "')}".`);
+  }
+
+  if (ctx.authoritySignalCount === 0) {
+    issues.push('No authority signals found (press mentions, awards, certifications or partners).');
+  }
+
+  if (ctx.reciprocityOfferCount === 0) {
+    issues.push('No free offer (guide, checklist, trial or consultation) to give visitors value up front.');
+  }
+
+  const pressureCount = (ctx.urgencyPhraseCount || 0) + (ctx.scarcityPhraseCount || 0);
+  if (pressureCount === 0 && ctx.countdownTimerCount === 0) {
+    issues.push('No reason to act now: no deadline, limited offer or scarcity message.');
+  } else if (pressureCount >= 6) {
+    issues.push(`${pressureCount} different urgency and scarcity messages compete for attention and can feel pushy.`);
+  }
+
+  return issues;
+}
@@ -0,0 +1,62 @@
+/**
+ * Psychological Triggers Dictionary - phrase lists for persuasion analysis
+ * Urgency and scarcity build on CTA_DICTIONARY.URGENCY_PATTERNS; authority
+ * and reciprocity complement the social proof detection.
+ */
+
+export const PSYCHOLOGICAL_TRIGGERS_DICTIONARY = {
+  // Limited supply: stock, seats or spots running out
+  SCARCITY_PHRASES: [
+    'limited stock', 'low stock', 'limited spots', 'limited seats', 'limited availability',
+    'while supplies last', 'almost gone', 'selling fast', 'few left', 'only a few left',
+    'limited edition', 'spots remaining', 'seats remaining', 'last one', 'nearly sold out'
+  ],
+
+  SCARCITY_PATTERNS: [
+    /\bonly\s+\d+\s+(left|remaining)\b/i,
+    /\b\d+\s+(left|remaining)\s+in\s+stock\b/i,
+    /\b\d+\s+(spots|seats|slots|copies|units|places)\s+(left|remaining)\b/i
+  ],
+
+  // Limited time: deadlines and pressure to act now
+  URGENCY_PHRASES: [
+    'today only', 'ends today', 'ends tonight', 'offer ends', 'sale ends', 'ends soon',
+    'last chance', 'hurry', 'limited time', 'expires', 'deadline', "don't miss out",
+    'act now', "before it's gone", 'final hours', 'closing soon', 'price goes up'
+  ],
+
+  // Borrowed credibility: press, awards, credentials, experts
+  AUTHORITY_PHRASES: [
+    'as seen on', 'as featured in', 'featured in', 'award-winning', 'award winning',
+    'certified', 'accredited', 'endorsed by', 'recommended by', 'backed by',
+    'years of experience', 'industry expert', 'board-certified', 'official partner',
+    'trusted by'
+  ],
+
+  // Something given before anything is asked for
+  RECIPROCITY_PHRASES: [
+    'free guide', 'free ebook', 'free e-book', 'free checklist', 'free template',
+    'free templates', 'free consultation', 'free audit', 'free download', 'free course',
+    'free webinar', 'free sample', 'free samples', 'free report', 'free tool',
+    'free assessment', 'free gift', 'free resources', 'free cheat sheet', 'free workbook'
+  ],
+
+  // Decline copy that shames the visitor for saying no
+  CONFIRMSHAMING_PATTERNS: [
+    /\bno,?\s+thanks?,?\s+i\s+(don'?t|do\s+not)\s+(want|like|need|care)\b[^.!?\n]*/i,
+    /\bno,?\s+i\s+(prefer|like|enjoy)\s+(paying|losing|missing|wasting)\b[^.!?\n]*/i,
+    /\bi('?d|\s+would)\s+rather\s+(pay|lose|miss|stay|keep)\b[^.!?\n]*/i
+  ],
+
+  // Elements likely to hold a countdown
+  TIMER_SELECTORS: [
+    '[class*="countdown" i]', '[id*="countdown" i]', '[class*="timer" i]',
+    '[id*="timer" i]', '[data-countdown]', '[data-timer]'
+  ]
+} as const;
+
+/** How long to watch a timer for changes */
+export const TIMER_SAMPLE_MS = 2000;
+
+/** Slack allowed between a timer's expected and actual value after reload */
+export const TIMER_RESET_TOLERANCE_SECONDS = 1;
@@ -0,0 +1,15 @@
+import { supabaseAdmin } from '@/lib/supabase';
+import { UPLOAD_URL_PREFIX } from '@/lib/page-source';
+
+/**
+ * Query of the analyses public listings may show. Uploaded pages and pages
+ * analyzed with credentials are private to whoever sent them, so they are
+ * left out.
+ */
+export function selectPublicAnalyses<Columns extends string>(columns: Columns, options?: { count?: 'exact'; head?: boolean }) {
+  return supabaseAdmin
+    .from('analyses')
+    .select(columns, options)
+    .not('url', 'like', `${UPLOAD_URL_PREFIX}%`)
+    .is('job_options->>requires_auth', null);
+}
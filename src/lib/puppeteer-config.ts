@@ -1,4 +1,6 @@
 import puppeteer from 'puppeteer-core';
+import { withPageAuth, type PageAuth } from '@/lib/page-auth';
+import { withServedPage, type ServedPage } from '@/lib/page-source';
 
 // Import puppeteer for local development executable path
 let localPuppeteer: any;
@@ -16,10 +18,24 @@ async function getLocalExecutablePath() {
   return localPuppeteer.executablePath();
 }
 
-export async function createPuppeteerBrowser(options: { 
+interface BrowserOptions {
   forceBrowserless?: boolean;
   blockConsentModals?: boolean;
-} = {}) {
+  /** Credentials applied to every page the browser opens */
+  auth?: PageAuth | null;
+  /** Uploaded page every page of the browser can load */
+  servedPage?: ServedPage | null;
+}
+
+export async function createPuppeteerBrowser(options: BrowserOptions = {}) {
+  let browser = await launchBrowser(options);
+  if (options.servedPage) {
+    browser = withServedPage(browser, options.servedPage);
+  }
+  return options.auth ? withPageAuth(browser, options.auth) : browser;
+}
+
+async function launchBrowser(options: BrowserOptions) {
   const isProduction = process.env.NODE_ENV === 'production';
   const browserlessKey = process.env.BLESS_KEY;
   const { forceBrowserless = false, blockConsentModals = false } = options;
@@ -66,4 +82,19 @@ export async function createPuppeteerBrowser(options: {
       headless: true,
     });
   }
-}
\ No newline at end of file
+}
+
+/**
+ * Device used for the mobile analysis pass: an iPhone-sized viewport with
+ * touch emulation and a mobile Safari user agent
+ */
+export const MOBILE_DEVICE = {
+  viewport: {
+    width: 390,
+    height: 844,
+    deviceScaleFactor: 3,
+    isMobile: true,
+    hasTouch: true
+  },
+  userAgent: 'Mozilla/5.0 (iPhone; CPU iPhone OS 17_0 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/17.0 Mobile/15E148 Safari/604.1'
+};
@@ -0,0 +1,56 @@
+export interface RateLimitResult {
+  allowed: boolean;
+  limit: number;
+  remaining: number;
+  /** Epoch milliseconds when the current window ends */
+  resetAt: number;
+}
+
+export interface RateLimiter {
+  /** Count a request against `key`, allowing at most `limit` per window */
+  hit(key: string, limit: number, windowMs: number): RateLimitResult;
+}
+
+/** Windows kept before expired ones are swept out */
+const SWEEP_THRESHOLD = 1000;
+
+/**
+ * Fixed-window rate limiter kept in process memory. Each server instance
+ * counts separately, which is fine for development and a single instance;
+ * several instances need a shared store behind the same interface.
+ */
+export function createMemoryRateLimiter(now: () => number = Date.now): RateLimiter {
+  const windows = new Map<string, { count: number; resetAt: number }>();
+
+  return {
+    hit(key, limit, windowMs) {
+      const time = now();
+
+      if (windows.size > SWEEP_THRESHOLD) {
+        for (const [windowKey, window] of Array.from(windows.entries())) {
+          if (window.resetAt <= time) {
+            windows.delete(windowKey);
+          }
+        }
+      }
+
+      let window = windows.get(key);
+      if (!window || window.resetAt <= time) {
+        window = { count: 0, resetAt: time + windowMs };
+        windows.set(key, window);
+      }
+
+      const allowed = window.count < limit;
+      if (allowed) {
+        window.count++;
+      }
+
+      return {
+        allowed,
+        limit,
+        remaining: Math.max(limit - window.count, 0),
+        resetAt: window.resetAt
+      };
+    }
+  };
+}
@@ -0,0 +1,245 @@
+import { createHash } from 'crypto';
+import { supabaseAdmin } from '@/lib/supabase';
+import { ANALYZER_COLUMNS, getAnalyzersInDisplayOrder, mapAnalyzerColumns } from '@/lib/analyzers/definitions';
+import { findRecommendationTemplate, getRecommendationTemplate, type ImpactLevel, type RecommendationCategory, type RecommendationTemplate } from '@/lib/recommendations';
+import { buildTestPlanFields } from '@/lib/test-plans';
+import type { AnalyzerId } from '@/lib/analyzers/types';
+import type { RecommendationStatus, TestVariant, TrackedRecommendation } from '@/types/database';
+
+export const RECOMMENDATION_STATUSES: RecommendationStatus[] = ['suggested', 'planned', 'testing', 'implemented', 'dismissed'];
+
+/** Longest implementation note accepted */
+export const MAX_IMPLEMENTATION_NOTES_LENGTH = 2000;
+
+const RECOMMENDATION_COLUMNS = 'id, analysis_id, recommendation_key, category, priority, title, description, expected_impact, affected_area, status, implementation_notes, test_hypothesis, suggested_variants, success_metrics, estimated_lift_percentage, created_at, updated_at';
+
+/** Recommendation template category of each analyzer */
+const ANALYZER_CATEGORIES: Record<AnalyzerId, RecommendationCategory> = {
+  speed: 'speed',
+  font: 'fonts',
+  image: 'images',
+  cta: 'cta',
+  whitespace: 'whitespace',
+  socialProof: 'social-proof',
+  valueProposition: 'value-proposition',
+  form: 'forms',
+  mobile: 'mobile',
+  psychologicalTriggers: 'psychology',
+  copy: 'copy',
+  accessibility: 'accessibility',
+  seo: 'seo'
+};
+
+const IMPACT_ORDER: Record<ImpactLevel, number> = { High: 0, Medium: 1, Low: 2 };
+
+export interface RecommendationRow {
+  analysis_id: string;
+  recommendation_key: string;
+  category: RecommendationCategory;
+  priority: number;
+  title: string;
+  description: string;
+  expected_impact: 'low' | 'medium' | 'high';
+  affected_area: string | null;
+  test_hypothesis: string | null;
+  suggested_variants: TestVariant[] | null;
+  success_metrics: string[] | null;
+  estimated_lift_percentage: number | null;
+}
+
+export interface RecommendationUpdate {
+  status?: RecommendationStatus;
+  implementationNotes?: string | null;
+}
+
+export function isRecommendationStatus(value: unknown): value is RecommendationStatus {
+  return RECOMMENDATION_STATUSES.includes(value as RecommendationStatus);
+}
+
+/**
+ * First sentence of a recommendation, used as its checklist title
+ */
+function getTitle(text: string): string {
+  const sentence = text.match(/^.+?[.!?](?=\s|$)/);
+  return (sentence ? sentence[0] : text).trim();
+}
+
+/**
+ * Key for text an analyzer adds outside the template registry; the same
+ * text gets the same key in every analysis
+ */
+function getCustomKey(category: RecommendationCategory, text: string): string {
+  const digest = createHash('sha1').update(text.trim().toLowerCase()).digest('hex').slice(0, 12);
+  return `${category}-custom-${digest}`;
+}
+
+/**
+ * Key and template of a recommendation. Analyzers store the id of the
+ * template behind each text; results stored before they did are matched on
+ * the text instead.
+ */
+function identifyRecommendation(text: string, category: RecommendationCategory, ids: Record<string, string> | undefined): { key: string; template: Pick<RecommendationTemplate, 'impact' | 'affectedArea'> | null } {
+  const id = ids?.[text];
+  if (id) {
+    return { key: id, template: getRecommendationTemplate(id) };
+  }
+  if (ids) {
+    return { key: getCustomKey(category, text), template: null };
+  }
+  const template = findRecommendationTemplate(text, category);
+  return { key: template?.id ?? getCustomKey(category, text), template };
+}
+
+/**
+ * One row per recommendation in an analysis result (keyed by analyzer result
+ * key), keyed by the template that generated it. Priority 1 is the first
+ * high-impact recommendation in report order. High-impact recommendations
+ * come with an A/B test plan.
+ */
+export function buildRecommendationRows(analysisId: string, results: Record<string, any>): RecommendationRow[] {
+  const recommendations: Array<{ key: string; category: RecommendationCategory; text: string; impact: ImpactLevel; affectedArea: string | null; result: any }> = [];
+  const seen = new Set<string>();
+
+  for (const analyzer of getAnalyzersInDisplayOrder()) {
+    const category = ANALYZER_CATEGORIES[analyzer.id];
+    const texts: unknown[] = results[analyzer.resultKey]?.recommendations || [];
+    const ids: Record<string, string> | undefined = results[analyzer.resultKey]?.recommendationIds;
+
+    for (const text of texts) {
+      if (typeof text !== 'string' || !text.trim()) {
+        continue;
+      }
+      const { key, template } = identifyRecommendation(text, category, ids);
+      if (seen.has(key)) {
+        continue;
+      }
+      seen.add(key);
+      recommendations.push({
+        key,
+        category,
+        text: text.trim(),
+        impact: template?.impact ?? 'Medium',
+        affectedArea: template?.affectedArea ?? null,
+        result: results[analyzer.resultKey]
+      });
+    }
+  }
+
+  // Array.prototype.sort is stable, so report order breaks ties
+  recommendations.sort((a, b) => IMPACT_ORDER[a.impact] - IMPACT_ORDER[b.impact]);
+
+  return recommendations.map((recommendation, index) => {
+    const title = getTitle(recommendation.text);
+    const testPlan = recommendation.impact === 'High'
+      ? buildTestPlanFields({ ...recommendation, title, description: recommendation.text }, recommendation.result)
+      : null;
+
+    return {
+      analysis_id: analysisId,
+      recommendation_key: recommendation.key,
+      category: recommendation.category,
+      priority: index + 1,
+      title,
+      description: recommendation.text,
+      expected_impact: recommendation.impact.toLowerCase() as RecommendationRow['expected_impact'],
+      affected_area: recommendation.affectedArea,
+      test_hypothesis: testPlan?.test_hypothesis ?? null,
+      suggested_variants: testPlan?.suggested_variants ?? null,
+      success_metrics: testPlan?.success_metrics ?? null,
+      estimated_lift_percentage: testPlan?.estimated_lift_percentage ?? null
+    };
+  });
+}
+
+/**
+ * Store the recommendations of a completed analysis. Rows that already exist
+ * are left alone, so saving again never resets their status or notes.
+ */
+export async function saveRecommendations(analysisId: string, results: Record<string, any>): Promise<number> {
+  const rows = buildRecommendationRows(analysisId, results);
+  if (rows.length === 0) {
+    return 0;
+  }
+
+  const { error } = await supabaseAdmin
+    .from('recommendations')
+    .upsert(rows, { onConflict: 'analysis_id,recommendation_key', ignoreDuplicates: true });
+
+  if (error) {
+    throw new Error(`Failed to save recommendations: ${error.message}`);
+  }
+
+  console.log(`📝 Saved ${rows.length} recommendations for analysis ${analysisId}`);
+  return rows.length;
+}
+
+async function loadRecommendations(analysisId: string): Promise<TrackedRecommendation[]> {
+  const { data, error } = await supabaseAdmin
+    .from('recommendations')
+    .select(RECOMMENDATION_COLUMNS)
+    .eq('analysis_id', analysisId)
+    .order('priority', { ascending: true });
+
+  if (error) {
+    throw new Error(`Failed to load recommendations: ${error.message}`);
+  }
+
+  return data || [];
+}
+
+/**
+ * Recommendation checklist of an analysis, or null when there is no such
+ * analysis. Analyses completed before recommendations were stored get their
+ * rows created from the stored results on first request.
+ */
+export async function getAnalysisRecommendations(analysisId: string): Promise<TrackedRecommendation[] | null> {
+  const recommendations = await loadRecommendations(analysisId);
+  if (recommendations.length > 0) {
+    return recommendations;
+  }
+
+  const { data, error } = await supabaseAdmin
+    .from('analyses')
+    .select(`id, status, ${ANALYZER_COLUMNS}`)
+    .eq('id', analysisId)
+    .single();
+
+  if (error || !data) {
+    return null;
+  }
+
+  const analysis = data as Record<string, any>;
+  if (analysis.status !== 'completed') {
+    return [];
+  }
+
+  const saved = await saveRecommendations(analysisId, mapAnalyzerColumns(analysis));
+  return saved > 0 ? loadRecommendations(analysisId) : [];
+}
+
+/**
+ * Change the status or implementation notes of a recommendation. Returns
+ * null when there is no recommendation with this ID.
+ */
+export async function updateRecommendation(id: string, update: RecommendationUpdate): Promise<TrackedRecommendation | null> {
+  const changes: Record<string, unknown> = {};
+  if (update.status !== undefined) {
+    changes.status = update.status;
+  }
+  if (update.implementationNotes !== undefined) {
+    changes.implementation_notes = update.implementationNotes;
+  }
+
+  const { data, error } = await supabaseAdmin
+    .from('recommendations')
+    .update(changes)
+    .eq('id', id)
+    .select(RECOMMENDATION_COLUMNS)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to update recommendation: ${error.message}`);
+  }
+
+  return data;
+}
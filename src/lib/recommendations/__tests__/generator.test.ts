@@ -9,6 +9,9 @@ import {
   getSpeedRecommendations,
   getWhitespaceRecommendations,
   getSocialProofRecommendations,
+  findRecommendationTemplate,
+  generateRecommendations,
+  allRecommendations,
   RecommendationContext,
 } from '../index';
 
@@ -236,4 +239,37 @@ describe('Recommendation Generator', () => {
       });
     });
   });
+
+  describe('Matching stored recommendations', () => {
+    it('should map every template variation back to its template', () => {
+      const ctx: RecommendationContext = {
+        url: 'https://example.com',
+        webFontCount: 4,
+        lcp: 4.2,
+        fontFamilies: ['Inter', 'Roboto'],
+      };
+
+      for (const template of allRecommendations) {
+        template.templates.forEach((variation) => {
+          const [rendered] = generateRecommendations(
+            [{ ...template, templates: [variation], condition: () => true }],
+            ctx
+          ).recommendations;
+
+          expect(findRecommendationTemplate(rendered.text, template.category)).toMatchObject({
+            id: template.id,
+            impact: template.impact,
+          });
+        });
+      }
+    });
+
+    it('should not match text from outside the category or the registry', () => {
+      const [rendered] = getCtaRecommendations({ primaryCtaDetected: false, ctasAboveFold: 1, ctaCount: 1 }).recommendations;
+
+      expect(findRecommendationTemplate(rendered.text, 'cta')?.affectedArea).toBe('hero section');
+      expect(findRecommendationTemplate(rendered.text, 'seo')).toBeNull();
+      expect(findRecommendationTemplate('Consider a bolder button colour.', 'cta')).toBeNull();
+    });
+  });
 });
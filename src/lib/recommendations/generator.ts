@@ -104,6 +104,7 @@ export function generateRecommendations(
   return {
     recommendations,
     legacyStrings: recommendations.map((r) => r.text),
+    recommendationIds: Object.fromEntries(recommendations.map((r) => [r.text, r.id])),
   }
 }
 
@@ -12,6 +12,7 @@
 
 export * from './types'
 export * from './generator'
+export * from './matcher'
 
 // Import all template collections
 import { fontRecommendations } from './templates/fonts'
@@ -20,9 +21,17 @@ import { ctaRecommendations } from './templates/cta'
 import { speedRecommendations } from './templates/speed'
 import { whitespaceRecommendations } from './templates/whitespace'
 import { socialProofRecommendations } from './templates/social-proof'
+import { valuePropositionRecommendations } from './templates/value-proposition'
+import { formRecommendations } from './templates/forms'
+import { mobileRecommendations } from './templates/mobile'
+import { psychologyRecommendations } from './templates/psychology'
+import { copyRecommendations } from './templates/copy'
+import { accessibilityRecommendations } from './templates/accessibility'
+import { seoRecommendations } from './templates/seo'
 
 import { RecommendationTemplate, RecommendationContext, RecommendationCategory } from './types'
 import { generateRecommendations, generateCategoryRecommendations } from './generator'
+import { matchRecommendation } from './matcher'
 
 /**
  * Complete registry of all recommendation templates
@@ -34,6 +43,13 @@ export const allRecommendations: RecommendationTemplate[] = [
   ...speedRecommendations,
   ...whitespaceRecommendations,
   ...socialProofRecommendations,
+  ...valuePropositionRecommendations,
+  ...formRecommendations,
+  ...mobileRecommendations,
+  ...psychologyRecommendations,
+  ...copyRecommendations,
+  ...accessibilityRecommendations,
+  ...seoRecommendations,
 ]
 
 /**
@@ -78,6 +94,55 @@ export function getSocialProofRecommendations(ctx: RecommendationContext) {
   return generateCategoryRecommendations(allRecommendations, ctx, 'social-proof')
 }
 
+/**
+ * Get recommendations for value proposition analysis
+ */
+export function getValuePropositionRecommendations(ctx: RecommendationContext) {
+  return generateCategoryRecommendations(allRecommendations, ctx, 'value-proposition')
+}
+
+/**
+ * Get recommendations for form optimization analysis
+ */
+export function getFormRecommendations(ctx: RecommendationContext) {
+  return generateCategoryRecommendations(allRecommendations, ctx, 'forms')
+}
+
+/**
+ * Get recommendations for mobile conversion analysis
+ */
+export function getMobileRecommendations(ctx: RecommendationContext) {
+  return generateCategoryRecommendations(allRecommendations, ctx, 'mobile')
+}
+
+/**
+ * Get recommendations for psychological triggers analysis
+ */
+export function getPsychologyRecommendations(ctx: RecommendationContext) {
+  return generateCategoryRecommendations(allRecommendations, ctx, 'psychology')
+}
+
+/**
+ * Get recommendations for copy effectiveness analysis
+ */
+export function getCopyRecommendations(ctx: RecommendationContext) {
+  return generateCategoryRecommendations(allRecommendations, ctx, 'copy')
+}
+
+/**
+ * Get recommendations for accessibility analysis
+ */
+export function getAccessibilityRecommendations(ctx: RecommendationContext) {
+  return generateCategoryRecommendations(allRecommendations, ctx, 'accessibility')
+}
+
+/**
+ * Get recommendations for SEO and metadata analysis
+ */
+export function getSeoRecommendations(ctx: RecommendationContext) {
+  return generateCategoryRecommendations(allRecommendations, ctx, 'seo')
+}
+
 /**
  * Get all recommendations across all categories
  */
@@ -85,6 +150,21 @@ export function getAllRecommendations(ctx: RecommendationContext) {
   return generateRecommendations(allRecommendations, ctx)
 }
 
+/**
+ * Template with a given id, or null when no template has it (any more)
+ */
+export function getRecommendationTemplate(id: string): RecommendationTemplate | null {
+  return allRecommendations.find((template) => template.id === id) ?? null
+}
+
+/**
+ * Recover the generated recommendation behind a stored recommendation string.
+ * Only for results stored before analyzers kept their recommendation ids.
+ */
+export function findRecommendationTemplate(text: string, category: RecommendationCategory) {
+  return matchRecommendation(allRecommendations, text, category)
+}
+
 /**
  * Export template collections for testing and customization
  */
@@ -95,4 +175,11 @@ export {
   speedRecommendations,
   whitespaceRecommendations,
   socialProofRecommendations,
+  valuePropositionRecommendations,
+  formRecommendations,
+  mobileRecommendations,
+  psychologyRecommendations,
+  copyRecommendations,
+  accessibilityRecommendations,
+  seoRecommendations,
 }
@@ -0,0 +1,78 @@
+/**
+ * Recommendation Matcher
+ *
+ * Analyzer results store recommendations as rendered strings. This maps a
+ * string back to the template that produced it, so the template's stable
+ * id, impact and affected area can be recovered from a stored result.
+ */
+
+import {
+  RecommendationTemplate,
+  GeneratedRecommendation,
+  RecommendationCategory,
+} from './types'
+
+interface TemplatePattern {
+  template: RecommendationTemplate
+  pattern: RegExp
+}
+
+const patternCache = new WeakMap<RecommendationTemplate[], Map<RecommendationCategory, TemplatePattern[]>>()
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+}
+
+/**
+ * A variation as a pattern: literal text with each {{variable}} matching
+ * whatever was interpolated into it
+ */
+function toPattern(variation: string): RegExp {
+  const parts = variation.split(/\{\{\w+\}\}/).map(escapeRegExp)
+  return new RegExp(`^${parts.join('[\\s\\S]+?')}$`)
+}
+
+function getPatterns(
+  templates: RecommendationTemplate[],
+  category: RecommendationCategory
+): TemplatePattern[] {
+  let byCategory = patternCache.get(templates)
+  if (!byCategory) {
+    byCategory = new Map()
+    patternCache.set(templates, byCategory)
+  }
+
+  let patterns = byCategory.get(category)
+  if (!patterns) {
+    patterns = templates
+      .filter((t) => t.category === category)
+      .flatMap((template) =>
+        template.templates.map((variation) => ({ template, pattern: toPattern(variation) }))
+      )
+    byCategory.set(category, patterns)
+  }
+  return patterns
+}
+
+/**
+ * Find the template of a category that rendered `text`. Returns null for
+ * text that analyzers add outside the template registry.
+ */
+export function matchRecommendation(
+  templates: RecommendationTemplate[],
+  text: string,
+  category: RecommendationCategory
+): GeneratedRecommendation | null {
+  const match = getPatterns(templates, category).find(({ pattern }) => pattern.test(text))
+  if (!match) {
+    return null
+  }
+
+  return {
+    id: match.template.id,
+    text,
+    impact: match.template.impact,
+    category: match.template.category,
+    affectedArea: match.template.affectedArea,
+  }
+}
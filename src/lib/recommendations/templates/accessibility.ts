@@ -0,0 +1,115 @@
+/**
+ * Accessibility Recommendation Templates
+ *
+ * Action-oriented recommendations for WCAG basics.
+ * Focused on fixes that let every visitor read the page and reach the CTA.
+ */
+
+import { RecommendationTemplate, RecommendationContext } from '../types'
+
+export const accessibilityRecommendations: RecommendationTemplate[] = [
+  // High Impact - Low contrast text
+  {
+    id: 'accessibility-contrast',
+    category: 'accessibility',
+    impact: 'High',
+    condition: (ctx: RecommendationContext) => (ctx.contrastFailureCount || 0) > 0,
+    templates: [
+      'Raise text contrast to at least 4.5:1 (3:1 for large text) on the {{contrastFailureCount}} failing elements. Darken light grey text or lighten its background.',
+      'Fix {{contrastFailureCount}} low contrast text elements. Pale text on light backgrounds is unreadable in sunlight and for visitors with low vision.',
+    ],
+    affectedArea: 'text colors',
+  },
+
+  // High Impact - Unlabeled form fields
+  {
+    id: 'accessibility-form-labels',
+    category: 'accessibility',
+    impact: 'High',
+    condition: (ctx: RecommendationContext) => (ctx.unlabeledFieldCount || 0) > 0,
+    templates: [
+      'Give each of the {{unlabeledFieldCount}} unlabeled form fields a <label for> or aria-label. Placeholders disappear on typing and are not announced reliably.',
+      'Associate a visible label with every form field ({{unlabeledFieldCount}} missing) so screen readers announce what to enter.',
+    ],
+    affectedArea: 'forms',
+  },
+
+  // High Impact - Click targets without keyboard access
+  {
+    id: 'accessibility-keyboard',
+    category: 'accessibility',
+    impact: 'High',
+    condition: (ctx: RecommendationContext) => (ctx.unfocusableControlCount || 0) > 0,
+    templates: [
+      'Make {{unfocusableControlCount}} clickable elements reachable with the keyboard. Use <button> or <a href> instead of clickable <div>s.',
+      'Replace click handlers on plain elements with real buttons and links so keyboard users can reach them ({{unfocusableControlCount}} found).',
+    ],
+    affectedArea: 'buttons and links',
+  },
+
+  // Medium Impact - Missing lang attribute
+  {
+    id: 'accessibility-lang',
+    category: 'accessibility',
+    impact: 'Medium',
+    condition: (ctx: RecommendationContext) => ctx.hasLangAttribute === false,
+    templates: [
+      'Add a lang attribute to the <html> element, e.g. <html lang="en">, so screen readers use the right pronunciation.',
+      'Declare the page language with <html lang="en"> (or your language code). It also helps translation tools.',
+    ],
+    affectedArea: 'html element',
+  },
+
+  // Medium Impact - Broken heading outline
+  {
+    id: 'accessibility-heading-order',
+    category: 'accessibility',
+    impact: 'Medium',
+    condition: (ctx: RecommendationContext) =>
+      (ctx.headingSkips || []).length > 0 || ctx.hasH1 === false,
+    templates: [
+      'Use heading levels in order, one h1 then h2 and h3, without skipping levels. Style headings with CSS rather than picking a level for its size.',
+      'Fix the heading outline so screen reader users can jump between sections: start with an h1 and never skip a heading level.',
+    ],
+    affectedArea: 'headings',
+  },
+
+  // Medium Impact - Vague link text
+  {
+    id: 'accessibility-link-text',
+    category: 'accessibility',
+    impact: 'Medium',
+    condition: (ctx: RecommendationContext) => (ctx.genericLinkCount || 0) + (ctx.emptyLinkCount || 0) > 0,
+    templates: [
+      'Rewrite vague link text like "Learn more" to say where the link goes, e.g. "See pricing plans". Give icon-only links an aria-label.',
+      'Replace generic link text with descriptive text. Screen reader users often browse a list of links out of context.',
+    ],
+    affectedArea: 'links',
+  },
+
+  // Medium Impact - Missing alt attributes
+  {
+    id: 'accessibility-alt-text',
+    category: 'accessibility',
+    impact: 'Medium',
+    condition: (ctx: RecommendationContext) => (ctx.imagesWithoutAlt || 0) > 0,
+    templates: [
+      'Add alt text to the {{imagesWithoutAlt}} images missing it. Use alt="" for purely decorative images so screen readers skip them.',
+      'Describe the {{imagesWithoutAlt}} images without an alt attribute, or mark decorative ones with alt="".',
+    ],
+    affectedArea: 'images',
+  },
+
+  // Low Impact - Missing landmarks
+  {
+    id: 'accessibility-landmarks',
+    category: 'accessibility',
+    impact: 'Low',
+    condition: (ctx: RecommendationContext) => (ctx.missingLandmarks || []).length > 0,
+    templates: [
+      'Wrap the page in landmark elements (missing: {{missingLandmarks}}). Use <header>, <nav>, <main> and <footer> so visitors can skip straight to the content.',
+      'Add the missing landmark regions ({{missingLandmarks}}) with semantic HTML elements.',
+    ],
+    affectedArea: 'page structure',
+  },
+]
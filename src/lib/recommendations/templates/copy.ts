@@ -0,0 +1,89 @@
+/**
+ * Copy Effectiveness Recommendation Templates
+ *
+ * Action-oriented recommendations for body copy readability.
+ * Focused on copy that visitors can skim and relate to.
+ */
+
+import { RecommendationTemplate, RecommendationContext } from '../types'
+
+export const copyRecommendations: RecommendationTemplate[] = [
+  // High Impact - Hard to read
+  {
+    id: 'copy-reading-level',
+    category: 'copy',
+    impact: 'High',
+    condition: (ctx: RecommendationContext) => (ctx.readingGrade || 0) > 10,
+    templates: [
+      'Simplify your copy from a grade {{readingGrade}} reading level to grade 8. Swap long words for short ones and split long sentences.',
+      'Rewrite dense paragraphs at a grade 8 reading level (currently grade {{readingGrade}}). Plain language converts better, even for expert audiences.',
+    ],
+    affectedArea: 'body copy',
+  },
+
+  // High Impact - Company-centric copy
+  {
+    id: 'copy-you-focus',
+    category: 'copy',
+    impact: 'High',
+    condition: (ctx: RecommendationContext) => (ctx.weCount || 0) > (ctx.youCount || 0),
+    templates: [
+      'Rewrite "we" sentences around the visitor. Turn "We build reports" into "You get reports".',
+      'Talk to the visitor more than about yourself. You use "we" {{weCount}} times and "you" only {{youCount}} times.',
+    ],
+    affectedArea: 'body copy',
+  },
+
+  // Medium Impact - Long sentences
+  {
+    id: 'copy-long-sentences',
+    category: 'copy',
+    impact: 'Medium',
+    condition: (ctx: RecommendationContext) =>
+      (ctx.averageSentenceLength || 0) > 20 || (ctx.longSentenceCount || 0) >= 3,
+    templates: [
+      'Split long sentences. Aim for 15-20 words on average (currently {{averageSentenceLength}}).',
+      'Break up the {{longSentenceCount}} longest sentences into two. Short sentences are easier to scan on screen.',
+    ],
+    affectedArea: 'body copy',
+  },
+
+  // Medium Impact - Passive voice
+  {
+    id: 'copy-passive-voice',
+    category: 'copy',
+    impact: 'Medium',
+    condition: (ctx: RecommendationContext) => (ctx.passiveVoicePercent || 0) > 15,
+    templates: [
+      'Rewrite passive sentences in active voice. "Reports are generated" becomes "You get reports".',
+      'Cut passive voice from {{passiveVoicePercent}}% of sentences to under 10%. Active voice is shorter and more direct.',
+    ],
+    affectedArea: 'body copy',
+  },
+
+  // Medium Impact - Jargon
+  {
+    id: 'copy-jargon',
+    category: 'copy',
+    impact: 'Medium',
+    condition: (ctx: RecommendationContext) => (ctx.jargonDensity || 0) > 1,
+    templates: [
+      'Replace jargon ({{jargonTerms}}) with the words your customers use to describe their problem.',
+      'Swap business-speak like {{jargonTerms}} for concrete descriptions of what the product does.',
+    ],
+    affectedArea: 'body copy',
+  },
+
+  // Low Impact - Long headings
+  {
+    id: 'copy-long-headings',
+    category: 'copy',
+    impact: 'Low',
+    condition: (ctx: RecommendationContext) => (ctx.longHeadingCount || 0) > 0,
+    templates: [
+      'Shorten {{longHeadingCount}} section headings to 12 words or fewer so visitors can skim the page.',
+      'Trim long section headings and move the detail into the paragraph below.',
+    ],
+    affectedArea: 'section headings',
+  },
+]
@@ -0,0 +1,116 @@
+/**
+ * Form Optimization Recommendation Templates
+ *
+ * Action-oriented recommendations for reducing form friction.
+ * Focused on getting more visitors to complete and submit forms.
+ */
+
+import { RecommendationTemplate, RecommendationContext } from '../types'
+
+export const formRecommendations: RecommendationTemplate[] = [
+  // High Impact - Too many fields
+  {
+    id: 'form-too-many-fields',
+    category: 'forms',
+    impact: 'High',
+    condition: (ctx: RecommendationContext) => (ctx.maxFormFieldCount || 0) > 5,
+    templates: [
+      'Cut your form from {{maxFormFieldCount}} fields to the 3 you need to follow up. Ask for the rest later.',
+      'Remove non-essential fields. Each field beyond the first three lowers completion rates.',
+      'Shorten the {{maxFormFieldCount}}-field form. Keep only what you need to take the next step with the lead.',
+    ],
+    affectedArea: 'form',
+  },
+
+  // High Impact - Weak submit copy
+  {
+    id: 'form-weak-submit',
+    category: 'forms',
+    impact: 'High',
+    condition: (ctx: RecommendationContext) => (ctx.weakSubmitText || []).length > 0,
+    templates: [
+      'Replace {{weakSubmitText}} on the submit button with what visitors get, like "Get My Free Quote".',
+      'Rewrite the submit button ({{weakSubmitText}}) as an action with a benefit. "Start My Trial" beats "Submit".',
+    ],
+    affectedArea: 'form submit button',
+  },
+
+  // High Impact - No submit button
+  {
+    id: 'form-no-submit',
+    category: 'forms',
+    impact: 'High',
+    condition: (ctx: RecommendationContext) => ctx.missingSubmitButton === true,
+    templates: [
+      'Add a visible submit button to every form so visitors know how to finish.',
+      'A form is missing a submit button. Add a clear, action-oriented button below the last field.',
+    ],
+    affectedArea: 'form submit button',
+  },
+
+  // Medium Impact - Long form in one step
+  {
+    id: 'form-split-steps',
+    category: 'forms',
+    impact: 'Medium',
+    condition: (ctx: RecommendationContext) => ctx.longFormWithoutSteps === true,
+    templates: [
+      'Split the long form into 2-3 short steps with a progress indicator. Start with the easiest questions.',
+      'Use a multi-step form. Asking for an email first and details second reduces abandonment.',
+    ],
+    affectedArea: 'form',
+  },
+
+  // Medium Impact - Placeholder-only labels
+  {
+    id: 'form-placeholder-labels',
+    category: 'forms',
+    impact: 'Medium',
+    condition: (ctx: RecommendationContext) => (ctx.placeholderOnlyFields || 0) > 0,
+    templates: [
+      'Add visible labels to {{placeholderOnlyFields}} fields that only use placeholder text. Placeholders vanish once visitors type.',
+      'Give every form field a label. Placeholder-only fields hurt accessibility and cause input errors.',
+    ],
+    affectedArea: 'form fields',
+  },
+
+  // Medium Impact - Wrong input types
+  {
+    id: 'form-input-types',
+    category: 'forms',
+    impact: 'Medium',
+    condition: (ctx: RecommendationContext) => (ctx.inputTypeMismatches || 0) > 0,
+    templates: [
+      'Use the right input types ({{inputTypeIssues}}) so mobile visitors get the matching keyboard.',
+      'Fix input types: {{inputTypeIssues}}. The correct type brings up the right mobile keyboard and enables validation.',
+    ],
+    affectedArea: 'form fields',
+  },
+
+  // Medium Impact - Missing autocomplete
+  {
+    id: 'form-autocomplete',
+    category: 'forms',
+    impact: 'Medium',
+    condition: (ctx: RecommendationContext) => (ctx.missingAutocompleteFields || 0) > 0,
+    templates: [
+      'Add autocomplete attributes (email, name, tel) to {{missingAutocompleteFields}} fields so browsers can autofill them.',
+      'Enable autofill on personal-info fields with autocomplete attributes. Autofilled forms are completed much faster.',
+    ],
+    affectedArea: 'form fields',
+  },
+
+  // Low Impact - Optional fields
+  {
+    id: 'form-optional-fields',
+    category: 'forms',
+    impact: 'Low',
+    condition: (ctx: RecommendationContext) =>
+      (ctx.optionalFieldCount || 0) > 0 && (ctx.maxFormFieldCount || 0) > 3,
+    templates: [
+      'Consider removing the {{optionalFieldCount}} optional fields. If they are not required, most can be asked later.',
+      'Review the {{optionalFieldCount}} optional fields. Optional fields still slow visitors down.',
+    ],
+    affectedArea: 'form',
+  },
+]
@@ -0,0 +1,62 @@
+/**
+ * Mobile Conversion Recommendation Templates
+ *
+ * Action-oriented recommendations for the mobile layout.
+ * Focused on making the page easy to read and tap on a phone.
+ */
+
+import { RecommendationTemplate, RecommendationContext } from '../types'
+
+export const mobileRecommendations: RecommendationTemplate[] = [
+  // High Impact - Missing viewport meta
+  {
+    id: 'mobile-viewport-meta',
+    category: 'mobile',
+    impact: 'High',
+    condition: (ctx: RecommendationContext) => ctx.hasViewportMeta === false,
+    templates: [
+      'Add <meta name="viewport" content="width=device-width, initial-scale=1"> so phones render the mobile layout instead of a zoomed-out desktop page.',
+      'Set a responsive viewport meta tag. Without it, mobile visitors have to pinch and zoom to read anything.',
+    ],
+    affectedArea: 'page head',
+  },
+
+  // High Impact - Horizontal overflow
+  {
+    id: 'mobile-horizontal-overflow',
+    category: 'mobile',
+    impact: 'High',
+    condition: (ctx: RecommendationContext) => ctx.horizontalOverflow === true,
+    templates: [
+      'Fix elements wider than the screen. Constrain images, tables and fixed-width containers with max-width: 100%.',
+      'Remove horizontal scrolling on mobile. Sideways scrolling makes the page feel broken and hides content.',
+    ],
+    affectedArea: 'mobile layout',
+  },
+
+  // High Impact - No CTA above the fold on mobile
+  {
+    id: 'mobile-cta-above-fold',
+    category: 'mobile',
+    impact: 'High',
+    condition: (ctx: RecommendationContext) => ctx.mobileCtasAboveFold === 0,
+    templates: [
+      'Move your primary CTA into the first mobile screen. On phones it currently sits below the fold.',
+      'Show a CTA without scrolling on mobile. Shorten the hero copy or use a sticky button.',
+    ],
+    affectedArea: 'mobile hero',
+  },
+
+  // Medium Impact - Small tap targets
+  {
+    id: 'mobile-tap-targets',
+    category: 'mobile',
+    impact: 'Medium',
+    condition: (ctx: RecommendationContext) => (ctx.smallTapTargets || 0) > 0,
+    templates: [
+      'Enlarge {{smallTapTargets}} buttons and links to at least 44x44px so visitors can tap them without mis-taps.',
+      'Add padding to {{smallTapTargets}} small tap targets. Cramped links and buttons frustrate mobile visitors.',
+    ],
+    affectedArea: 'buttons and links',
+  },
+]
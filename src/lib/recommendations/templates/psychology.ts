@@ -0,0 +1,90 @@
+/**
+ * Psychological Triggers Recommendation Templates
+ *
+ * Action-oriented recommendations for persuasion on the page.
+ * Focused on honest urgency, authority and reciprocity, never dark patterns.
+ */
+
+import { RecommendationTemplate, RecommendationContext } from '../types'
+
+export const psychologyRecommendations: RecommendationTemplate[] = [
+  // High Impact - Fake countdown timers
+  {
+    id: 'psychology-fake-timer',
+    category: 'psychology',
+    impact: 'High',
+    condition: (ctx: RecommendationContext) => (ctx.resettingTimerCount || 0) > 0,
+    templates: [
+      'Tie the countdown timer to a real deadline or remove it. It restarts for every new visitor, and people who notice stop trusting the page.',
+      'Replace the resetting countdown with a real end date, like "Launch pricing ends March 31".',
+    ],
+    affectedArea: 'countdown timer',
+  },
+
+  // High Impact - No authority signals
+  {
+    id: 'psychology-authority',
+    category: 'psychology',
+    impact: 'High',
+    condition: (ctx: RecommendationContext) => ctx.authoritySignalCount === 0,
+    templates: [
+      'Add authority signals near your CTA: "As featured in" press logos, awards, certifications or notable partners.',
+      'Show why visitors should trust your expertise. Mention credentials, awards or publications that have covered you.',
+    ],
+    affectedArea: 'trust section',
+  },
+
+  // Medium Impact - Confirmshaming
+  {
+    id: 'psychology-confirmshaming',
+    category: 'psychology',
+    impact: 'Medium',
+    condition: (ctx: RecommendationContext) => (ctx.confirmshamingPhrases || []).length > 0,
+    templates: [
+      'Rewrite decline copy like "{{confirmshamingPhrases}}" as a neutral "No thanks". Shaming visitors hurts your brand more than it helps signups.',
+      'Use a plain "No thanks" instead of "{{confirmshamingPhrases}}". Guilt-tripping decline links read as manipulative.',
+    ],
+    affectedArea: 'popup or opt-in',
+  },
+
+  // Medium Impact - No reciprocity offer
+  {
+    id: 'psychology-reciprocity',
+    category: 'psychology',
+    impact: 'Medium',
+    condition: (ctx: RecommendationContext) => ctx.reciprocityOfferCount === 0,
+    templates: [
+      'Give something useful before you ask for anything: a free guide, checklist, template or audit.',
+      'Add a free resource offer, like a checklist or consultation. Visitors who receive value first are more likely to convert later.',
+    ],
+    affectedArea: 'lead magnet',
+  },
+
+  // Medium Impact - Too much pressure
+  {
+    id: 'psychology-urgency-overload',
+    category: 'psychology',
+    impact: 'Medium',
+    condition: (ctx: RecommendationContext) =>
+      (ctx.urgencyPhraseCount || 0) + (ctx.scarcityPhraseCount || 0) >= 6,
+    templates: [
+      'Cut back to one clear urgency message. Stacking deadlines and "only X left" warnings makes the offer feel pushy.',
+      'Pick your strongest reason to act now and drop the rest. Too many urgency messages read as a sales tactic.',
+    ],
+    affectedArea: 'page copy',
+  },
+
+  // Low Impact - No reason to act now
+  {
+    id: 'psychology-no-urgency',
+    category: 'psychology',
+    impact: 'Low',
+    condition: (ctx: RecommendationContext) =>
+      ctx.urgencyPhraseCount === 0 && ctx.scarcityPhraseCount === 0 && ctx.countdownTimerCount === 0,
+    templates: [
+      'Give visitors a genuine reason to act now, such as a real enrollment deadline, launch pricing or limited onboarding spots.',
+      'Add an honest time-bound incentive near the CTA, like a bonus for signing up this week.',
+    ],
+    affectedArea: 'CTA area',
+  },
+]
@@ -0,0 +1,162 @@
+/**
+ * SEO Recommendation Templates
+ *
+ * Action-oriented recommendations for search and share metadata.
+ * Focused on how the page appears in search results and link previews.
+ */
+
+import { RecommendationTemplate, RecommendationContext } from '../types'
+
+export const seoRecommendations: RecommendationTemplate[] = [
+  // High Impact - Page blocked from search
+  {
+    id: 'seo-noindex',
+    category: 'seo',
+    impact: 'High',
+    condition: (ctx: RecommendationContext) => ctx.noindex === true,
+    templates: [
+      'Remove the noindex directive from the robots meta tag or X-Robots-Tag header unless this page should stay out of search results.',
+      'Drop noindex from this landing page. As long as it is set, no search traffic can reach the page.',
+    ],
+    affectedArea: 'robots directives',
+  },
+
+  // High Impact - Missing or badly sized title
+  {
+    id: 'seo-title',
+    category: 'seo',
+    impact: 'High',
+    condition: (ctx: RecommendationContext) => {
+      const length = ctx.titleLength || 0
+      return length < 30 || length > 60
+    },
+    templates: [
+      'Write a 30-60 character title tag that leads with your main keyword and benefit. It is the headline searchers see before they click.',
+      'Rewrite the title tag to 30-60 characters (currently {{titleLength}}) so it shows in full in search results and names what you offer.',
+    ],
+    affectedArea: 'title tag',
+  },
+
+  // High Impact - Missing Open Graph tags
+  {
+    id: 'seo-open-graph',
+    category: 'seo',
+    impact: 'High',
+    condition: (ctx: RecommendationContext) => (ctx.missingOpenGraphTags || []).length > 0,
+    templates: [
+      'Add the missing Open Graph tags ({{missingOpenGraphTags}}) so links shared on LinkedIn, Slack and Facebook show a proper preview.',
+      'Set {{missingOpenGraphTags}} so shared links get a title, description and image instead of whatever the platform guesses.',
+    ],
+    affectedArea: 'share metadata',
+  },
+
+  // Medium Impact - Meta description
+  {
+    id: 'seo-description',
+    category: 'seo',
+    impact: 'Medium',
+    condition: (ctx: RecommendationContext) => {
+      const length = ctx.descriptionLength || 0
+      return length < 70 || length > 160
+    },
+    templates: [
+      'Write a 70-160 character meta description that states the benefit and ends with a reason to click.',
+      'Rewrite the meta description to 70-160 characters (currently {{descriptionLength}}) so search engines show it instead of a random snippet.',
+    ],
+    affectedArea: 'meta description',
+  },
+
+  // Medium Impact - Canonical URL
+  {
+    id: 'seo-canonical',
+    category: 'seo',
+    impact: 'Medium',
+    condition: (ctx: RecommendationContext) =>
+      ctx.hasCanonical === false || ctx.canonicalIsAbsolute === false || ctx.canonicalMatchesPage === false,
+    templates: [
+      'Add <link rel="canonical"> with the absolute URL of this page so tracking parameters and duplicates don\'t split its ranking.',
+      'Point the canonical tag at this page\'s own absolute URL, e.g. https://example.com/landing, unless another page should rank instead.',
+    ],
+    affectedArea: 'canonical URL',
+  },
+
+  // Medium Impact - Small share image
+  {
+    id: 'seo-share-image',
+    category: 'seo',
+    impact: 'Medium',
+    condition: (ctx: RecommendationContext) => ctx.shareImageBelowRecommended === true,
+    templates: [
+      'Use a 1200x630px og:image (currently {{shareImageWidth}}x{{shareImageHeight}}px) so link previews show a large, sharp image.',
+      'Replace the {{shareImageWidth}}x{{shareImageHeight}}px share image with a 1200x630px one. Smaller images get cropped or shrunk to a thumbnail.',
+    ],
+    affectedArea: 'share image',
+  },
+
+  // Medium Impact - H1 count
+  {
+    id: 'seo-h1',
+    category: 'seo',
+    impact: 'Medium',
+    condition: (ctx: RecommendationContext) => ctx.h1Count !== undefined && ctx.h1Count !== 1,
+    templates: [
+      'Use exactly one H1 that carries your main headline and keyword. Turn other H1s into H2s.',
+      'Give the page a single H1 heading (currently {{h1Count}}) so search engines know what the page is about.',
+    ],
+    affectedArea: 'headings',
+  },
+
+  // Medium Impact - Broken structured data
+  {
+    id: 'seo-structured-data-errors',
+    category: 'seo',
+    impact: 'Medium',
+    condition: (ctx: RecommendationContext) =>
+      (ctx.invalidJsonLdCount || 0) > 0 || (ctx.structuredDataErrors || []).length > 0,
+    templates: [
+      'Fix the structured data errors and check the page in Google\'s Rich Results Test. Incomplete markup is ignored.',
+      'Complete the JSON-LD markup so the page qualifies for rich results like review stars and FAQ dropdowns.',
+    ],
+    affectedArea: 'structured data',
+  },
+
+  // Low Impact - No structured data
+  {
+    id: 'seo-add-structured-data',
+    category: 'seo',
+    impact: 'Low',
+    condition: (ctx: RecommendationContext) => ctx.structuredDataCount === 0,
+    templates: [
+      'Add JSON-LD structured data: Organization for your brand, plus Product, FAQPage or Review where the page has that content.',
+      'Describe the page with schema.org JSON-LD (Organization, Product or FAQPage) to become eligible for rich search results.',
+    ],
+    affectedArea: 'structured data',
+  },
+
+  // Low Impact - Twitter card
+  {
+    id: 'seo-twitter-card',
+    category: 'seo',
+    impact: 'Low',
+    condition: (ctx: RecommendationContext) => ctx.hasTwitterCard === false,
+    templates: [
+      'Add <meta name="twitter:card" content="summary_large_image"> so links shared on X show a large image preview.',
+      'Set twitter:card to summary_large_image. X falls back to your Open Graph tags for the rest.',
+    ],
+    affectedArea: 'share metadata',
+  },
+
+  // Low Impact - hreflang problems
+  {
+    id: 'seo-hreflang',
+    category: 'seo',
+    impact: 'Low',
+    condition: (ctx: RecommendationContext) =>
+      (ctx.invalidHreflang || []).length > 0 || ctx.hreflangMissingXDefault === true,
+    templates: [
+      'Fix the hreflang alternates: use language-region codes like en-GB with absolute URLs, and add an x-default fallback.',
+      'Use valid hreflang codes and absolute URLs for every language version, plus an x-default for everyone else.',
+    ],
+    affectedArea: 'hreflang',
+  },
+]
@@ -0,0 +1,163 @@
+/**
+ * Value Proposition Recommendation Templates
+ *
+ * Action-oriented recommendations for hero headline and supporting copy.
+ * Focused on making the offer clear within the first few seconds.
+ */
+
+import { RecommendationTemplate, RecommendationContext } from '../types'
+
+export const valuePropositionRecommendations: RecommendationTemplate[] = [
+  // High Impact - No headline at all
+  {
+    id: 'vp-no-headline',
+    category: 'value-proposition',
+    impact: 'High',
+    condition: (ctx: RecommendationContext) => ctx.headlineDetected === false,
+    templates: [
+      'Add a clear hero headline that states what you offer and who it is for.',
+      'No hero headline detected. Lead with one sentence that explains the outcome visitors get.',
+      'Missing a headline. Visitors decide in seconds whether to stay, so tell them what they get up front.',
+    ],
+    affectedArea: 'hero section',
+  },
+
+  // High Impact - Generic headline
+  {
+    id: 'vp-generic-headline',
+    category: 'value-proposition',
+    impact: 'High',
+    condition: (ctx: RecommendationContext) => ctx.headlineGeneric === true,
+    templates: [
+      'Replace the generic headline "{{headline}}" with one that names the outcome you deliver.',
+      'Your headline "{{headline}}" says nothing about your offer. Rewrite it around the problem you solve.',
+    ],
+    affectedArea: 'hero headline',
+  },
+
+  // High Impact - Headline not visible on load
+  {
+    id: 'vp-headline-below-fold',
+    category: 'value-proposition',
+    impact: 'High',
+    condition: (ctx: RecommendationContext) =>
+      ctx.headlineDetected === true && ctx.headlineAboveFold === false,
+    templates: [
+      'Move your main headline above the fold. Visitors should see your value proposition without scrolling.',
+      'Your headline only appears after scrolling. Put the value proposition in the first screen.',
+    ],
+    affectedArea: 'above the fold',
+  },
+
+  // High Impact - Feature-heavy copy
+  {
+    id: 'vp-feature-heavy',
+    category: 'value-proposition',
+    impact: 'High',
+    condition: (ctx: RecommendationContext) =>
+      (ctx.featurePhraseCount || 0) > (ctx.benefitPhraseCount || 0),
+    templates: [
+      'Lead with benefits, not features. Rewrite hero copy around what visitors achieve, then mention how.',
+      'Hero copy describes the product more than the outcome. Translate each feature into the result it gives the visitor.',
+      'Swap feature language for benefit language in the hero. "Save 5 hours a week" beats "Built-in automation".',
+    ],
+    affectedArea: 'hero section',
+  },
+
+  // High Impact - No benefit language
+  {
+    id: 'vp-no-benefits',
+    category: 'value-proposition',
+    impact: 'High',
+    condition: (ctx: RecommendationContext) =>
+      ctx.headlineDetected === true &&
+      (ctx.benefitPhraseCount || 0) === 0 &&
+      (ctx.featurePhraseCount || 0) === 0,
+    templates: [
+      'State a concrete benefit in the headline or subheadline. Visitors should know what changes for them.',
+      'No benefit language found in hero copy. Add the outcome visitors get, like time saved or revenue gained.',
+    ],
+    affectedArea: 'hero section',
+  },
+
+  // Medium Impact - Headline too long
+  {
+    id: 'vp-headline-too-long',
+    category: 'value-proposition',
+    impact: 'Medium',
+    condition: (ctx: RecommendationContext) => (ctx.headlineWordCount || 0) > 12,
+    templates: [
+      'Shorten your headline from {{headlineWordCount}} words to 12 or fewer so it can be read at a glance.',
+      'Cut the headline down to under 12 words. Move supporting detail into the subheadline.',
+    ],
+    affectedArea: 'hero headline',
+  },
+
+  // Medium Impact - Vague buzzwords
+  {
+    id: 'vp-vague-language',
+    category: 'value-proposition',
+    impact: 'Medium',
+    condition: (ctx: RecommendationContext) => (ctx.vaguePhrases || []).length > 0,
+    templates: [
+      'Replace vague phrases ({{vaguePhrases}}) with specific claims visitors can verify.',
+      'Drop buzzwords like {{vaguePhrases}}. Say exactly what the product does and for whom.',
+    ],
+    affectedArea: 'hero section',
+  },
+
+  // Medium Impact - No specifics
+  {
+    id: 'vp-not-specific',
+    category: 'value-proposition',
+    impact: 'Medium',
+    condition: (ctx: RecommendationContext) =>
+      ctx.headlineDetected === true && (ctx.specificityCount || 0) === 0,
+    templates: [
+      'Add a specific number to your hero copy: a percentage, time saved, price or customer count.',
+      'Make the value proposition concrete. Numbers like "2x faster" or "10,000 teams" are more believable than adjectives.',
+    ],
+    affectedArea: 'hero section',
+  },
+
+  // Medium Impact - No differentiation
+  {
+    id: 'vp-no-uvp',
+    category: 'value-proposition',
+    impact: 'Medium',
+    condition: (ctx: RecommendationContext) =>
+      ctx.headlineDetected === true && ctx.uvpDetected === false,
+    templates: [
+      'Say what makes you different. Explain why visitors should choose you over the alternatives.',
+      'No differentiator found in hero copy. Add what you do that competitors don\'t, like "the only tool that...".',
+    ],
+    affectedArea: 'hero section',
+  },
+
+  // Medium Impact - No subheadline
+  {
+    id: 'vp-no-subheadline',
+    category: 'value-proposition',
+    impact: 'Medium',
+    condition: (ctx: RecommendationContext) =>
+      ctx.headlineDetected === true && ctx.subheadlineDetected === false,
+    templates: [
+      'Add a subheadline under the main headline that explains how you deliver the promised outcome.',
+      'Support the headline with a one-sentence subheadline covering who it is for and how it works.',
+    ],
+    affectedArea: 'hero section',
+  },
+
+  // Low Impact - Hero copy takes too long to read
+  {
+    id: 'vp-slow-comprehension',
+    category: 'value-proposition',
+    impact: 'Low',
+    condition: (ctx: RecommendationContext) => (ctx.timeToComprehensionSeconds || 0) > 8,
+    templates: [
+      'Trim the headline and subheadline. They take about {{timeToComprehensionSeconds}} seconds to read; aim for under 8.',
+      'Tighten hero copy so the offer can be understood in under 8 seconds (currently about {{timeToComprehensionSeconds}}).',
+    ],
+    affectedArea: 'hero section',
+  },
+]
@@ -17,6 +17,13 @@ export type RecommendationCategory =
   | 'speed'
   | 'whitespace'
   | 'social-proof'
+  | 'value-proposition'
+  | 'forms'
+  | 'mobile'
+  | 'psychology'
+  | 'copy'
+  | 'accessibility'
+  | 'seo'
 
 /**
  * Context data passed to recommendation templates for interpolation
@@ -59,6 +66,96 @@ export interface RecommendationContext {
   trustBadgeCount?: number
   hasAboveFoldProof?: boolean
 
+  // Value proposition context
+  headline?: string
+  headlineDetected?: boolean
+  headlineGeneric?: boolean
+  headlineAboveFold?: boolean
+  headlineWordCount?: number
+  subheadlineDetected?: boolean
+  benefitPhraseCount?: number
+  featurePhraseCount?: number
+  vaguePhrases?: string[]
+  specificityCount?: number
+  uvpDetected?: boolean
+  timeToComprehensionSeconds?: number
+
+  // Form optimization context
+  formCount?: number
+  maxFormFieldCount?: number
+  optionalFieldCount?: number
+  placeholderOnlyFields?: number
+  missingAutocompleteFields?: number
+  inputTypeMismatches?: number
+  inputTypeIssues?: string[]
+  weakSubmitText?: string[]
+  missingSubmitButton?: boolean
+  longFormWithoutSteps?: boolean
+  formAboveFold?: boolean
+
+  // Mobile conversion context
+  tapTargetCount?: number
+  smallTapTargets?: number
+  horizontalOverflow?: boolean
+  hasViewportMeta?: boolean
+  mobileCtasAboveFold?: number
+
+  // Psychological triggers context
+  countdownTimerCount?: number
+  resettingTimerCount?: number
+  scarcityPhraseCount?: number
+  urgencyPhraseCount?: number
+  authoritySignalCount?: number
+  reciprocityOfferCount?: number
+  confirmshamingPhrases?: string[]
+
+  // Copy effectiveness context
+  copyWordCount?: number
+  readingGrade?: number
+  averageSentenceLength?: number
+  longSentenceCount?: number
+  passiveVoicePercent?: number
+  youCount?: number
+  weCount?: number
+  jargonTerms?: string[]
+  jargonDensity?: number
+  longHeadingCount?: number
+
+  // Accessibility context
+  contrastCheckedCount?: number
+  contrastFailureCount?: number
+  headingSkips?: string[]
+  hasH1?: boolean
+  missingLandmarks?: string[]
+  unlabeledFieldCount?: number
+  unfocusableControlCount?: number
+  genericLinkCount?: number
+  genericLinkExamples?: string[]
+  emptyLinkCount?: number
+  hasLangAttribute?: boolean
+
+  // SEO context
+  titleLength?: number
+  descriptionLength?: number
+  hasCanonical?: boolean
+  canonicalIsAbsolute?: boolean
+  canonicalMatchesPage?: boolean
+  canonicalUrl?: string
+  missingOpenGraphTags?: string[]
+  shareImageWidth?: number
+  shareImageHeight?: number
+  shareImageTooSmall?: boolean
+  shareImageBelowRecommended?: boolean
+  hasTwitterCard?: boolean
+  noindex?: boolean
+  nofollow?: boolean
+  invalidHreflang?: string[]
+  hreflangMissingXDefault?: boolean
+  structuredDataCount?: number
+  invalidJsonLdCount?: number
+  structuredDataErrors?: string[]
+  h1Count?: number
+
   // Generic context
   url?: string
   [key: string]: unknown
@@ -124,4 +221,11 @@ export interface RecommendationOutput {
 
   /** Legacy format for backward compatibility */
   legacyStrings: string[]
+
+  /**
+   * Template id of each recommendation, keyed by its text. Analyzers store
+   * this next to their recommendation strings so tracking can recognize a
+   * recommendation however its template is worded.
+   */
+  recommendationIds: Record<string, string>
 }
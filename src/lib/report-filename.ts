@@ -0,0 +1,12 @@
+/**
+ * File name for a downloaded report, e.g. landing-page-report-example.com.csv
+ */
+export function getReportFilename(url: string, extension: string, prefix = 'landing-page-report'): string {
+  let host = 'page';
+  try {
+    host = new URL(url).hostname.replace(/^www\./, '');
+  } catch {
+    // Keep the generic name for URLs that don't parse
+  }
+  return `${prefix}-${host.replace(/[^a-z0-9.-]/gi, '-')}.${extension}`;
+}
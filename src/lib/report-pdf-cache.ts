@@ -0,0 +1,37 @@
+import { getReportPrintUrl, renderReportPdf } from '@/lib/report-pdf';
+
+/** How long a rendered PDF is served before the report is printed again */
+const PDF_CACHE_TTL_MS = 60 * 60 * 1000;
+
+/** Most PDFs kept in memory; the oldest is dropped to make room */
+const MAX_CACHED_PDFS = 20;
+
+const cachedPdfs = new Map<string, { pdf: Promise<Buffer>; expiresAt: number }>();
+
+/**
+ * PDF of a completed report, printed at most once an hour per server
+ * instance. Requests that arrive while the report is printing share that
+ * render, and a failed render is tried again on the next request.
+ */
+export function getReportPdf(analysisId: string, now: number = Date.now()): Promise<Buffer> {
+  const cached = cachedPdfs.get(analysisId);
+  if (cached && cached.expiresAt > now) {
+    return cached.pdf;
+  }
+  cachedPdfs.delete(analysisId);
+
+  if (cachedPdfs.size >= MAX_CACHED_PDFS) {
+    const [oldestId] = Array.from(cachedPdfs.keys());
+    cachedPdfs.delete(oldestId);
+  }
+
+  const pdf = renderReportPdf(getReportPrintUrl(analysisId));
+  cachedPdfs.set(analysisId, { pdf, expiresAt: now + PDF_CACHE_TTL_MS });
+  pdf.catch(() => {
+    if (cachedPdfs.get(analysisId)?.pdf === pdf) {
+      cachedPdfs.delete(analysisId);
+    }
+  });
+
+  return pdf;
+}
@@ -0,0 +1,63 @@
+import { createPuppeteerBrowser } from '@/lib/puppeteer-config';
+import { getReportFilename } from '@/lib/report-filename';
+import { getSiteUrl } from '@/lib/site-url';
+
+/** How long the printable report gets to load before the export gives up */
+const RENDER_TIMEOUT_MS = 60000;
+
+const FOOTER_TEMPLATE = `
+<div style="width: 100%; padding: 0 10mm; font-size: 8px; color: #6b7280; display: flex; justify-content: space-between;">
+  <span>Landing Page Report &middot; lansky.tech</span>
+  <span>Page <span class="pageNumber"></span> of <span class="totalPages"></span></span>
+</div>`;
+
+/**
+ * File name for a report's PDF, e.g. landing-page-report-example.com.pdf
+ */
+export function getReportPdfFilename(url: string): string {
+  return getReportFilename(url, 'pdf');
+}
+
+/**
+ * URL of a report's printable page on the app's public site. Built from the
+ * configured address rather than the request's Host header, which the client
+ * controls.
+ */
+export function getReportPrintUrl(analysisId: string): string {
+  return `${getSiteUrl()}/reports/${encodeURIComponent(analysisId)}/print`;
+}
+
+/**
+ * Render the printable report page at printUrl to an A4 PDF. The page marks
+ * itself with data-report-ready once the report has loaded, or with
+ * data-report-error if it could not be loaded.
+ */
+export async function renderReportPdf(printUrl: string): Promise<Buffer> {
+  console.log(`🖨️ Rendering PDF from ${printUrl}`);
+  const browser = await createPuppeteerBrowser();
+
+  try {
+    const page = await browser.newPage();
+    await page.setViewport({ width: 1200, height: 1600 });
+    await page.goto(printUrl, { waitUntil: 'networkidle0', timeout: RENDER_TIMEOUT_MS });
+    await page.waitForSelector('[data-report-ready], [data-report-error]', { timeout: RENDER_TIMEOUT_MS });
+
+    if (await page.$('[data-report-error]')) {
+      throw new Error('Printable report failed to load');
+    }
+
+    const pdf = await page.pdf({
+      format: 'A4',
+      printBackground: true,
+      displayHeaderFooter: true,
+      headerTemplate: '<div></div>',
+      footerTemplate: FOOTER_TEMPLATE,
+      margin: { top: '10mm', right: '0', bottom: '14mm', left: '0' }
+    });
+
+    console.log(`✅ PDF rendered (${pdf.length} bytes)`);
+    return Buffer.from(pdf);
+  } finally {
+    await browser.close();
+  }
+}
@@ -0,0 +1,97 @@
+import { supabaseAdmin } from '@/lib/supabase';
+import { sendScoreDropAlert, type ScoreDrop } from '@/lib/email-service';
+import { getSiteUrl } from '@/lib/site-url';
+import type { AnalysisChanges } from '@/types/database';
+
+/** Points a score has to fall by before an alert goes out */
+export const SCORE_DROP_THRESHOLDS = {
+  overall: 5,
+  module: 10
+};
+
+/**
+ * Overall and module scores that fell by at least the threshold, biggest drop first
+ */
+export function findScoreDrops(
+  changes: AnalysisChanges,
+  thresholds: typeof SCORE_DROP_THRESHOLDS = SCORE_DROP_THRESHOLDS
+): ScoreDrop[] {
+  const drops: ScoreDrop[] = [];
+
+  if (changes.scoreDelta !== null && -changes.scoreDelta >= thresholds.overall) {
+    drops.push({
+      name: 'Overall score',
+      previousScore: changes.previousScore as number,
+      newScore: changes.newScore as number,
+      drop: -changes.scoreDelta
+    });
+  }
+
+  for (const moduleChange of changes.modules) {
+    if (moduleChange.scoreDelta !== null && -moduleChange.scoreDelta >= thresholds.module) {
+      drops.push({
+        name: moduleChange.name,
+        previousScore: moduleChange.previousScore as number,
+        newScore: moduleChange.newScore as number,
+        drop: -moduleChange.scoreDelta
+      });
+    }
+  }
+
+  return drops.sort((a, b) => b.drop - a.drop);
+}
+
+function getReportUrl(analysisId: string): string {
+  return `${getSiteUrl()}/reports/${analysisId}`;
+}
+
+/**
+ * Email the owner of a monitored page when its re-scan scored lower than the
+ * scan before it. Users who turned email notifications off, or set their email
+ * frequency to 'never', are not alerted. Returns whether an alert was sent.
+ */
+export async function alertOnScoreDrops(
+  job: { id: string; url: string; user_id: string },
+  changes: AnalysisChanges
+): Promise<boolean> {
+  const drops = findScoreDrops(changes);
+  if (drops.length === 0) {
+    return false;
+  }
+
+  const { data: user, error: userError } = await supabaseAdmin
+    .from('users')
+    .select('email, email_frequency, deleted_at')
+    .eq('id', job.user_id)
+    .single();
+
+  if (userError || !user || user.deleted_at || user.email_frequency === 'never') {
+    return false;
+  }
+
+  const { data: preferences } = await supabaseAdmin
+    .from('user_preferences')
+    .select('notification_preferences')
+    .eq('user_id', job.user_id)
+    .single();
+
+  if (preferences?.notification_preferences?.email === false) {
+    return false;
+  }
+
+  const result = await sendScoreDropAlert(user.email, {
+    url: job.url,
+    previousScore: changes.previousScore,
+    newScore: changes.newScore,
+    previousAnalyzedAt: changes.previousAnalyzedAt,
+    drops
+  }, getReportUrl(job.id));
+
+  if (!result.success) {
+    console.error(`❌ Failed to send score drop alert for ${job.url}:`, result.error);
+    return false;
+  }
+
+  console.log(`📉 Sent score drop alert for ${job.url} (${drops.length} drops)`);
+  return true;
+}
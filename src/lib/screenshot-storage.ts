@@ -1,5 +1,7 @@
 import { put } from '@vercel/blob';
 import { createPuppeteerBrowser } from './puppeteer-config';
+import type { PageAuth } from './page-auth';
+import type { ServedPage } from './page-source';
 
 export interface ScreenshotResult {
   url: string;
@@ -21,6 +23,10 @@ export interface ScreenshotOptions {
   puppeteer?: {
     forceBrowserless?: boolean;
     blockConsentModals?: boolean;
+    /** Credentials for a page behind basic auth or a login */
+    auth?: PageAuth | null;
+    /** Uploaded page to load instead of a live URL */
+    servedPage?: ServedPage | null;
   };
 }
 
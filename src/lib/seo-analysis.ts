@@ -0,0 +1,459 @@
+import type { Browser, Page, Viewport } from 'puppeteer-core';
+import { createPuppeteerBrowser } from './puppeteer-config';
+import { extractSeoMetadata, SeoMetadata } from './page-metadata';
+import {
+  TITLE_LENGTH,
+  DESCRIPTION_LENGTH,
+  REQUIRED_OPEN_GRAPH_TAGS,
+  SHARE_IMAGE_SIZE,
+  SHARE_IMAGE_TIMEOUT,
+  STRUCTURED_DATA_RULES,
+  HREFLANG_PATTERN
+} from './seo-dictionary';
+import { getSeoRecommendations, RecommendationContext } from './recommendations';
+
+/**
+ * Page metadata plus the measured share image size, as scored. Robots
+ * directives include the X-Robots-Tag response header.
+ */
+export interface ExtractedSeo extends SeoMetadata {
+  /** Measured size of the og:image (or twitter:image), null when it couldn't be loaded */
+  shareImageSize: { width: number; height: number } | null;
+}
+
+export interface StructuredDataItem {
+  type: string;
+  /** Name of the rule in STRUCTURED_DATA_RULES, e.g. "FAQ" */
+  rule: string;
+  missingRequired: string[];
+  missingRecommended: string[];
+}
+
+export interface StructuredDataReport {
+  blocks: number;
+  invalidBlocks: number;
+  /** Every @type found, including ones without a rule */
+  types: string[];
+  /** Items of the types we validate */
+  items: StructuredDataItem[];
+}
+
+export interface SeoResult {
+  score: number;
+  title: { text: string; length: number };
+  description: { text: string; length: number };
+  canonical: {
+    url: string | null;
+    isAbsolute: boolean;
+    /** False when the canonical points at a different page */
+    matchesPage: boolean;
+  };
+  openGraph: {
+    tags: Record<string, string>;
+    missing: string[];
+    image: { url: string; width: number | null; height: number | null } | null;
+  };
+  twitterCard: {
+    card: string | null;
+    tags: Record<string, string>;
+  };
+  robots: {
+    directives: string[];
+    noindex: boolean;
+    nofollow: boolean;
+  };
+  hreflang: {
+    alternates: Array<{ lang: string; href: string }>;
+    invalid: string[];
+    hasXDefault: boolean;
+  };
+  structuredData: StructuredDataReport;
+  h1Count: number;
+  issues: string[];
+  recommendations: string[];
+  recommendationIds?: Record<string, string>;
+}
+
+interface SeoOptions {
+  viewport?: Viewport;
+  isHtml?: boolean; // Flag to indicate if input is HTML instead of URL
+  puppeteer?: {
+    browser?: Browser;
+    forceBrowserless?: boolean;
+  };
+}
+
+export async function analyzeSeo(
+  urlOrHtml: string,
+  options: SeoOptions = {}
+): Promise<SeoResult> {
+  console.log('🔎 SEO and metadata analysis starting...');
+
+  const providedBrowser = options.puppeteer?.browser;
+  const shouldCloseBrowser = !providedBrowser;
+  let browser: Browser | null = providedBrowser || null;
+
+  try {
+    const viewport = options.viewport || { width: 1920, height: 1080 };
+
+    if (!browser) {
+      console.log('📱 Launching Puppeteer browser...');
+      browser = await createPuppeteerBrowser({
+        forceBrowserless: options.puppeteer?.forceBrowserless
+      });
+    }
+
+    const page = await browser.newPage();
+    await page.setViewport(viewport);
+
+    let robotsHeader: string | undefined;
+    if (options.isHtml) {
+      console.log('📄 Setting HTML content directly...');
+      await page.setContent(urlOrHtml);
+    } else {
+      console.log('🌐 Navigating to URL...');
+      const response = await page.goto(urlOrHtml, {
+        waitUntil: 'domcontentloaded',
+        timeout: 60000
+      });
+      robotsHeader = response?.headers()['x-robots-tag'];
+    }
+
+    console.log('🔍 Reading page metadata...');
+    const metadata = await extractSeoMetadata(page);
+    if (robotsHeader) {
+      metadata.robots.push(...robotsHeader.toLowerCase().split(',').map(directive => directive.trim()).filter(Boolean));
+    }
+
+    const shareImageUrl = resolveUrl(metadata.openGraph['og:image'] || metadata.twitter['twitter:image'], metadata.url);
+    let shareImageSize = shareImageUrl ? await measureImage(page, shareImageUrl) : null;
+    if (!shareImageSize) {
+      // Fall back to the declared size when the image can't be loaded
+      const width = parseInt(metadata.openGraph['og:image:width'], 10);
+      const height = parseInt(metadata.openGraph['og:image:height'], 10);
+      shareImageSize = width > 0 && height > 0 ? { width, height } : null;
+    }
+
+    console.log(`📝 ${Object.keys(metadata.openGraph).length} Open Graph tags and ${metadata.jsonLd.length} JSON-LD blocks found`);
+
+    const result = scoreSeo({ ...metadata, shareImageSize }, options.isHtml ? undefined : urlOrHtml);
+    console.log(`💯 SEO score: ${result.score}/100`);
+    return result;
+  } finally {
+    if (shouldCloseBrowser && browser) {
+      console.log('🔒 Closing browser...');
+      await browser.close();
+    }
+    console.log('✨ SEO analysis complete!');
+  }
+}
+
+async function measureImage(page: Page, src: string): Promise<{ width: number; height: number } | null> {
+  return page.evaluate((imageUrl: string, timeout: number) => new Promise<{ width: number; height: number } | null>(resolve => {
+    const image = new Image();
+    const timer = setTimeout(() => resolve(null), timeout);
+    image.onload = () => {
+      clearTimeout(timer);
+      resolve({ width: image.naturalWidth, height: image.naturalHeight });
+    };
+    image.onerror = () => {
+      clearTimeout(timer);
+      resolve(null);
+    };
+    image.src = imageUrl;
+  }), src, SHARE_IMAGE_TIMEOUT);
+}
+
+function resolveUrl(value: string | undefined, base: string): string | null {
+  if (!value) return null;
+  try {
+    return new URL(value, base).href;
+  } catch {
+    return null;
+  }
+}
+
+function normalizeUrl(value: string): string {
+  const parsed = new URL(value);
+  parsed.hash = '';
+  return parsed.href.replace(/\/$/, '');
+}
+
+function hasValue(value: unknown): boolean {
+  if (Array.isArray(value)) return value.length > 0;
+  return value !== undefined && value !== null && value !== '';
+}
+
+function getPath(item: Record<string, any>, path: string): unknown {
+  return path.split('.').reduce<unknown>((value, key) => {
+    const current = Array.isArray(value) ? value[0] : value;
+    return current && typeof current === 'object' ? (current as Record<string, unknown>)[key] : undefined;
+  }, item);
+}
+
+/**
+ * Parse JSON-LD blocks and check Product, Organization, FAQ and Review
+ * items against their required and recommended properties
+ */
+export function validateStructuredData(blocks: string[]): StructuredDataReport {
+  let invalidBlocks = 0;
+  const nodes: Record<string, any>[] = [];
+
+  for (const block of blocks) {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(block);
+    } catch {
+      invalidBlocks++;
+      continue;
+    }
+
+    const topLevel = Array.isArray(parsed) ? parsed : [parsed];
+    for (const node of topLevel) {
+      if (!node || typeof node !== 'object') continue;
+      if (Array.isArray(node['@graph'])) {
+        nodes.push(...node['@graph'].filter((item: unknown) => item && typeof item === 'object'));
+      } else {
+        nodes.push(node);
+      }
+    }
+  }
+
+  const types = new Set<string>();
+  const items: StructuredDataItem[] = [];
+
+  for (const node of nodes) {
+    const nodeTypes: string[] = (Array.isArray(node['@type']) ? node['@type'] : [node['@type']])
+      .filter((type: unknown): type is string => typeof type === 'string');
+    nodeTypes.forEach(type => types.add(type));
+
+    const ruleName = Object.keys(STRUCTURED_DATA_RULES).find(name =>
+      STRUCTURED_DATA_RULES[name].types.some(type => nodeTypes.includes(type))
+    );
+    if (!ruleName) continue;
+
+    const rule = STRUCTURED_DATA_RULES[ruleName];
+    const missingRequired = rule.required.filter(path => !hasValue(getPath(node, path)));
+
+    if (rule.anyOf && !rule.anyOf.some(path => hasValue(getPath(node, path)))) {
+      missingRequired.push(rule.anyOf.join(' or '));
+    }
+
+    if (rule.each && hasValue(node[rule.each.property])) {
+      const entries = Array.isArray(node[rule.each.property]) ? node[rule.each.property] : [node[rule.each.property]];
+      for (const path of rule.each.required) {
+        if (entries.some((entry: Record<string, any>) => !hasValue(getPath(entry, path)))) {
+          missingRequired.push(`${rule.each.property}[].${path}`);
+        }
+      }
+    }
+
+    items.push({
+      type: nodeTypes.find(type => rule.types.includes(type)) || ruleName,
+      rule: ruleName,
+      missingRequired,
+      missingRecommended: rule.recommended.filter(path => !hasValue(getPath(node, path)))
+    });
+  }
+
+  return {
+    blocks: blocks.length,
+    invalidBlocks,
+    types: Array.from(types),
+    items
+  };
+}
+
+/**
+ * Score extracted metadata: title and description length, canonical URL,
+ * Open Graph and Twitter tags, robots directives, hreflang, structured data
+ * and the one-H1 rule
+ */
+export function scoreSeo(data: ExtractedSeo, url?: string): SeoResult {
+  const titleLength = data.title.length;
+  const descriptionLength = data.description.length;
+
+  const canonicalIsAbsolute = Boolean(data.canonical && /^https?:\/\//i.test(data.canonical));
+  const canonicalMatchesPage = !canonicalIsAbsolute || !/^https?:/i.test(data.url) ||
+    normalizeUrl(data.canonical as string) === normalizeUrl(data.url);
+
+  const missingOpenGraph = REQUIRED_OPEN_GRAPH_TAGS.filter(tag => !data.openGraph[tag]);
+  const shareImageUrl = data.openGraph['og:image'] || data.twitter['twitter:image'] || null;
+  const imageSize = data.shareImageSize;
+  const imageBelowMinimum = Boolean(imageSize &&
+    (imageSize.width < SHARE_IMAGE_SIZE.minimum.width || imageSize.height < SHARE_IMAGE_SIZE.minimum.height));
+  const imageBelowRecommended = Boolean(imageSize &&
+    (imageSize.width < SHARE_IMAGE_SIZE.recommended.width || imageSize.height < SHARE_IMAGE_SIZE.recommended.height));
+
+  const twitterCard = data.twitter['twitter:card'] || null;
+
+  const directives = Array.from(new Set(data.robots));
+  const noindex = directives.some(directive => directive === 'noindex' || directive === 'none');
+  const nofollow = directives.some(directive => directive === 'nofollow' || directive === 'none');
+
+  const invalidHreflang = data.hreflang
+    .filter(alternate => !HREFLANG_PATTERN.test(alternate.lang) || !/^https?:\/\//i.test(alternate.href))
+    .map(alternate => alternate.lang || '(empty)');
+  const hasXDefault = data.hreflang.some(alternate => alternate.lang.toLowerCase() === 'x-default');
+  const missingXDefault = data.hreflang.length > 1 && !hasXDefault;
+
+  const structuredData = validateStructuredData(data.jsonLd);
+  const structuredDataErrors = structuredData.items
+    .filter(item => item.missingRequired.length > 0)
+    .map(item => `${item.type} (missing ${item.missingRequired.join(', ')})`);
+
+  const lengthScore = (length: number, limits: { min: number; max: number }) =>
+    length === 0 ? 0 : length < limits.min || length > limits.max ? 60 : 100;
+
+  // Each check scores 0-100; hreflang only counts when the page declares alternates
+  const checks: Array<{ score: number; weight: number }> = [
+    { score: lengthScore(titleLength, TITLE_LENGTH), weight: 0.15 },
+    { score: lengthScore(descriptionLength, DESCRIPTION_LENGTH), weight: 0.1 },
+    { score: !data.canonical ? 0 : !canonicalIsAbsolute ? 60 : 100, weight: 0.1 },
+    {
+      score: Math.max(0, 100 - missingOpenGraph.length * 20 - (imageBelowMinimum ? 30 : imageBelowRecommended ? 10 : 0)),
+      weight: 0.15
+    },
+    { score: twitterCard ? 100 : 0, weight: 0.05 },
+    { score: noindex ? 0 : nofollow ? 60 : 100, weight: 0.2 },
+    {
+      score: structuredData.blocks === 0
+        ? 50
+        : Math.max(0, 100 - structuredData.invalidBlocks * 30 - structuredDataErrors.length * 20),
+      weight: 0.1
+    },
+    { score: data.h1Count === 1 ? 100 : data.h1Count === 0 ? 0 : 50, weight: 0.15 }
+  ];
+  if (data.hreflang.length > 0) {
+    checks.push({ score: Math.max(0, 100 - invalidHreflang.length * 25 - (missingXDefault ? 20 : 0)), weight: 0.05 });
+  }
+
+  const totalWeight = checks.reduce((sum, check) => sum + check.weight, 0);
+  const score = Math.round(checks.reduce((sum, check) => sum + check.score * check.weight, 0) / totalWeight);
+
+  const ctx: RecommendationContext = {
+    url,
+    titleLength,
+    descriptionLength,
+    hasCanonical: Boolean(data.canonical),
+    canonicalIsAbsolute,
+    canonicalMatchesPage,
+    canonicalUrl: data.canonical || undefined,
+    missingOpenGraphTags: missingOpenGraph,
+    shareImageWidth: imageSize?.width,
+    shareImageHeight: imageSize?.height,
+    shareImageTooSmall: imageBelowMinimum,
+    shareImageBelowRecommended: imageBelowRecommended,
+    hasTwitterCard: Boolean(twitterCard),
+    noindex,
+    nofollow,
+    invalidHreflang,
+    hreflangMissingXDefault: missingXDefault,
+    structuredDataCount: structuredData.blocks,
+    invalidJsonLdCount: structuredData.invalidBlocks,
+    structuredDataErrors,
+    h1Count: data.h1Count
+  };
+
+  const generated = getSeoRecommendations(ctx);
+  return {
+    score,
+    title: { text: data.title, length: titleLength },
+    description: { text: data.description, length: descriptionLength },
+    canonical: {
+      url: data.canonical,
+      isAbsolute: canonicalIsAbsolute,
+      matchesPage: canonicalMatchesPage
+    },
+    openGraph: {
+      tags: data.openGraph,
+      missing: missingOpenGraph,
+      image: shareImageUrl
+        ? { url: shareImageUrl, width: imageSize?.width ?? null, height: imageSize?.height ?? null }
+        : null
+    },
+    twitterCard: {
+      card: twitterCard,
+      tags: data.twitter
+    },
+    robots: { directives, noindex, nofollow },
+    hreflang: {
+      alternates: data.hreflang,
+      invalid: invalidHreflang,
+      hasXDefault
+    },
+    structuredData,
+    h1Count: data.h1Count,
+    issues: generateIssues(ctx),
+    recommendations: generated.legacyStrings,
+    recommendationIds: generated.recommendationIds
+  };
+}
+
+function generateIssues(ctx: RecommendationContext): string[] {
+  const issues: string[] = [];
+  const titleLength = ctx.titleLength || 0;
+  const descriptionLength = ctx.descriptionLength || 0;
+
+  if (ctx.noindex) {
+    issues.push('The page is marked noindex, so search engines will drop it from their results.');
+  } else if (ctx.nofollow) {
+    issues.push('The page is marked nofollow, so search engines won\'t follow its links.');
+  }
+
+  if (titleLength === 0) {
+    issues.push('The page has no title tag.');
+  } else if (titleLength < TITLE_LENGTH.min || titleLength > TITLE_LENGTH.max) {
+    issues.push(`The title is ${titleLength} characters; ${TITLE_LENGTH.min}-${TITLE_LENGTH.max} shows in full in search results.`);
+  }
+
+  if (descriptionLength === 0) {
+    issues.push('The page has no meta description, so search engines pick a snippet themselves.');
+  } else if (descriptionLength < DESCRIPTION_LENGTH.min || descriptionLength > DESCRIPTION_LENGTH.max) {
+    issues.push(`The meta description is ${descriptionLength} characters; aim for ${DESCRIPTION_LENGTH.min}-${DESCRIPTION_LENGTH.max}.`);
+  }
+
+  if (!ctx.hasCanonical) {
+    issues.push('No canonical URL is set.');
+  } else if (!ctx.canonicalIsAbsolute) {
+    issues.push(`The canonical URL "${ctx.canonicalUrl}" is relative; it should be an absolute URL.`);
+  } else if (!ctx.canonicalMatchesPage) {
+    issues.push(`The canonical URL points to a different page (${ctx.canonicalUrl}), so this page won't be indexed itself.`);
+  }
+
+  if ((ctx.h1Count || 0) === 0) {
+    issues.push('The page has no H1 heading.');
+  } else if ((ctx.h1Count || 0) > 1) {
+    issues.push(`The page has ${ctx.h1Count} H1 headings; use exactly one.`);
+  }
+
+  if ((ctx.missingOpenGraphTags || []).length > 0) {
+    issues.push(`Missing Open Graph tags: ${(ctx.missingOpenGraphTags || []).join(', ')}.`);
+  }
+
+  if (ctx.shareImageTooSmall) {
+    issues.push(`The share image is ${ctx.shareImageWidth}x${ctx.shareImageHeight}px, below the ${SHARE_IMAGE_SIZE.minimum.width}x${SHARE_IMAGE_SIZE.minimum.height}px minimum for large link previews.`);
+  }
+
+  if (!ctx.hasTwitterCard) {
+    issues.push('No twitter:card tag, so links shared on X show as a small summary at best.');
+  }
+
+  if ((ctx.invalidJsonLdCount || 0) > 0) {
+    issues.push(`${ctx.invalidJsonLdCount} JSON-LD block${ctx.invalidJsonLdCount === 1 ? ' is' : 's are'} not valid JSON.`);
+  }
+
+  for (const error of ctx.structuredDataErrors || []) {
+    issues.push(`Structured data for ${error} isn't eligible for rich results.`);
+  }
+
+  if ((ctx.invalidHreflang || []).length > 0) {
+    issues.push(`Invalid hreflang alternates: ${(ctx.invalidHreflang || []).join(', ')}.`);
+  }
+
+  if (ctx.hreflangMissingXDefault) {
+    issues.push('hreflang alternates have no x-default fallback.');
+  }
+
+  return issues;
+}
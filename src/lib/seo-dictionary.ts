@@ -0,0 +1,67 @@
+/**
+ * SEO Dictionary - length limits, required share tags and the structured
+ * data rules used by the SEO and metadata analysis.
+ */
+
+/** Title length (characters) that shows in full in search results */
+export const TITLE_LENGTH = { min: 30, max: 60 };
+
+/** Meta description length (characters) before search engines truncate it */
+export const DESCRIPTION_LENGTH = { min: 70, max: 160 };
+
+/** Open Graph tags every shareable page needs */
+export const REQUIRED_OPEN_GRAPH_TAGS = ['og:title', 'og:description', 'og:image', 'og:url'];
+
+/** Share image sizes (px). Below the minimum, Facebook and LinkedIn show a small thumbnail. */
+export const SHARE_IMAGE_SIZE = {
+  recommended: { width: 1200, height: 630 },
+  minimum: { width: 600, height: 315 }
+};
+
+/** Longest wait (ms) to load the share image when measuring it */
+export const SHARE_IMAGE_TIMEOUT = 5000;
+
+export interface StructuredDataRule {
+  /** schema.org @type values the rule applies to */
+  types: string[];
+  /** Properties that must be present (dot paths) */
+  required: string[];
+  /** At least one of these must be present */
+  anyOf?: string[];
+  /** Properties that must be present on every entry of a list property */
+  each?: { property: string; required: string[] };
+  /** Properties that make the item eligible for more rich results */
+  recommended: string[];
+}
+
+/**
+ * Rules for the schema.org types landing pages use for rich results, based
+ * on Google's structured data requirements
+ */
+export const STRUCTURED_DATA_RULES: Record<string, StructuredDataRule> = {
+  Product: {
+    types: ['Product'],
+    required: ['name'],
+    anyOf: ['offers', 'review', 'aggregateRating'],
+    recommended: ['image', 'description', 'brand']
+  },
+  Organization: {
+    types: ['Organization', 'Corporation', 'LocalBusiness', 'OnlineBusiness', 'OnlineStore'],
+    required: ['name'],
+    recommended: ['url', 'logo', 'sameAs']
+  },
+  FAQ: {
+    types: ['FAQPage'],
+    required: ['mainEntity'],
+    each: { property: 'mainEntity', required: ['name', 'acceptedAnswer.text'] },
+    recommended: []
+  },
+  Review: {
+    types: ['Review'],
+    required: ['itemReviewed', 'reviewRating.ratingValue', 'author'],
+    recommended: ['datePublished', 'reviewBody']
+  }
+};
+
+/** Valid hreflang values: a language, optional script and region, or x-default */
+export const HREFLANG_PATTERN = /^([a-z]{2,3}(-[a-z]{4})?(-([a-z]{2}|\d{3}))?|x-default)$/i;
@@ -0,0 +1,23 @@
+/** Address of the production app when no other is configured */
+const DEFAULT_PRODUCTION_URL = 'https://app.lansky.tech';
+
+/**
+ * Public base URL of the app, without a trailing slash, for links in emails
+ * and for pages the server opens itself. NEXT_PUBLIC_APP_URL wins, then the
+ * Vercel project's production domain. VERCEL_URL is not used: it is the
+ * per-deployment host, which changes with every deploy and can be behind
+ * Vercel deployment protection.
+ */
+export function getSiteUrl(): string {
+  const configured = process.env.NEXT_PUBLIC_APP_URL?.trim();
+  if (configured) {
+    return configured.replace(/\/+$/, '');
+  }
+
+  if (process.env.NODE_ENV !== 'production') {
+    return 'http://localhost:3000';
+  }
+
+  const productionHost = process.env.VERCEL_PROJECT_PRODUCTION_URL?.trim();
+  return productionHost ? `https://${productionHost}` : DEFAULT_PRODUCTION_URL;
+}
@@ -1,4 +1,4 @@
-import type { Browser, Page } from 'puppeteer-core';
+import type { Browser, Page, Viewport } from 'puppeteer-core';
 import { createPuppeteerBrowser } from './puppeteer-config';
 import { SOCIAL_PROOF_DICTIONARY } from './social-proof-dictionary';
 import { getSocialProofRecommendations, RecommendationContext } from './recommendations';
@@ -42,13 +42,12 @@ export interface SocialProofAnalysisResult {
   };
   issues: string[];
   recommendations: string[];
+  recommendationIds?: Record<string, string>;
 }
 
 interface AnalysisOptions {
-  viewport?: {
-    width: number;
-    height: number;
-  };
+  viewport?: Viewport; // Set isMobile/hasTouch for a mobile pass
+  userAgent?: string;
   isHtml?: boolean;
   puppeteer?: {
     browser?: Browser;
@@ -81,6 +80,9 @@ export async function analyzeSocialProof(urlOrHtml: string, options: AnalysisOpt
     
     const page = await browser.newPage();
     await page.setViewport(viewport);
+    if (options.userAgent) {
+      await page.setUserAgent(options.userAgent);
+    }
     
     if (isHtml) {
       console.log('📄 Setting HTML content directly...');
@@ -674,6 +676,7 @@ export async function analyzeSocialProof(urlOrHtml: string, options: AnalysisOpt
     
     const issues: string[] = [];
     const recommendations: string[] = [];
+    const recommendationIds: Record<string, string> = {};
 
     // Remove duplicate elements based on text similarity
     const uniqueElements: SocialProofElement[] = [];
@@ -714,7 +717,7 @@ export async function analyzeSocialProof(urlOrHtml: string, options: AnalysisOpt
     };
 
     // Calculate score and generate recommendations
-    const score = calculateSocialProofScore(uniqueElements, summary, issues, recommendations);
+    const score = calculateSocialProofScore(uniqueElements, summary, issues, recommendations, recommendationIds);
 
     console.log(`🎯 Social Proof Analysis complete: ${uniqueElements.length} elements found, score: ${score}`);
     
@@ -723,7 +726,8 @@ export async function analyzeSocialProof(urlOrHtml: string, options: AnalysisOpt
       elements: uniqueElements,
       summary,
       issues,
-      recommendations
+      recommendations,
+      recommendationIds
     };
     
   } catch (error) {
@@ -762,7 +766,8 @@ function calculateSocialProofScore(
   elements: SocialProofElement[],
   summary: any,
   issues: string[],
-  recommendations: string[]
+  recommendations: string[],
+  recommendationIds: Record<string, string>
 ): number {
   let score = 100;
 
@@ -778,6 +783,7 @@ function calculateSocialProofScore(
     };
     const generatedRecs = getSocialProofRecommendations(ctx);
     recommendations.push(...generatedRecs.legacyStrings);
+    Object.assign(recommendationIds, generatedRecs.recommendationIds);
     return 0;
   }
 
@@ -872,6 +878,7 @@ function calculateSocialProofScore(
   };
   const generatedRecs = getSocialProofRecommendations(ctx);
   recommendations.push(...generatedRecs.legacyStrings);
+  Object.assign(recommendationIds, generatedRecs.recommendationIds);
 
   return Math.max(0, Math.min(100, Math.round(score)));
 }
@@ -0,0 +1,324 @@
+import type { RecommendationCategory } from '@/lib/recommendations';
+import type { SampleSizeEstimate, TestPlan, TestVariant, TrackedRecommendation } from '@/types/database';
+
+/** The metric every test is sized on; the baseline rate a user enters is for this metric */
+export const PRIMARY_METRIC = 'Conversion rate';
+
+/** Two-sided significance level and statistical power tests are sized for */
+export const SIGNIFICANCE_LEVEL = 0.05;
+export const STATISTICAL_POWER = 0.8;
+
+const Z_ALPHA = 1.959964; // two-sided, 95%
+const Z_BETA = 0.841621; // 80% power
+
+interface CategoryTestPlan {
+  secondaryMetrics: string[];
+  /** Relative conversion lift, in percent, a fix of this kind is expected to reach */
+  expectedLiftPercentage: number;
+  /** What the analysis detected on the page, as noun phrases ("no primary CTA") */
+  describeCurrent: (result: any) => Array<string | null>;
+}
+
+function plural(count: number, noun: string): string {
+  return `${count} ${noun}${count === 1 ? '' : 's'}`;
+}
+
+function isNumber(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value);
+}
+
+const CATEGORY_TEST_PLANS: Record<RecommendationCategory, CategoryTestPlan> = {
+  speed: {
+    secondaryMetrics: ['Bounce rate', 'Largest Contentful Paint'],
+    expectedLiftPercentage: 8,
+    describeCurrent: result => [
+      isNumber(result.metrics?.loadTime) && result.metrics.loadTime > 0 ? `a ${result.metrics.loadTime}s load time` : null
+    ]
+  },
+  fonts: {
+    secondaryMetrics: ['Bounce rate', 'First Contentful Paint'],
+    expectedLiftPercentage: 5,
+    describeCurrent: result => [
+      isNumber(result.webFontCount) ? plural(result.webFontCount, 'web font') : null
+    ]
+  },
+  images: {
+    secondaryMetrics: ['Bounce rate', 'Page weight'],
+    expectedLiftPercentage: 5,
+    describeCurrent: result => [
+      isNumber(result.totalImages) ? plural(result.totalImages, 'image') : null,
+      isNumber(result.totalImages) && isNumber(result.withAltText) ? `${result.totalImages - result.withAltText} without alt text` : null,
+      isNumber(result.totalImages) && isNumber(result.modernFormats) ? `${result.totalImages - result.modernFormats} not in a modern format` : null
+    ]
+  },
+  cta: {
+    secondaryMetrics: ['CTA click-through rate', 'Scroll depth'],
+    expectedLiftPercentage: 15,
+    describeCurrent: result => {
+      const ctas: any[] = Array.isArray(result.ctas) ? result.ctas : [];
+      const aboveFold = ctas.filter(cta => cta.isAboveFold || cta.aboveFold).length;
+      return [
+        result.primaryCTA?.text ? `the primary CTA "${result.primaryCTA.text}"` : 'no primary CTA',
+        Array.isArray(result.ctas) ? `${plural(ctas.length, 'CTA')} (${aboveFold} above the fold)` : null
+      ];
+    }
+  },
+  whitespace: {
+    secondaryMetrics: ['Scroll depth', 'Bounce rate'],
+    expectedLiftPercentage: 8,
+    describeCurrent: result => [
+      isNumber(result.metrics?.clutterScore) ? `a clutter score of ${result.metrics.clutterScore}` : null,
+      isNumber(result.metrics?.whitespaceRatio) ? `${Math.round(result.metrics.whitespaceRatio * 100)}% whitespace` : null
+    ]
+  },
+  'social-proof': {
+    secondaryMetrics: ['CTA click-through rate', 'Time on page'],
+    expectedLiftPercentage: 10,
+    describeCurrent: result => {
+      const summary = result.summary;
+      if (!summary) {
+        return [];
+      }
+      return [
+        plural(summary.testimonials ?? 0, 'testimonial'),
+        plural(summary.reviews ?? 0, 'review'),
+        plural(summary.trustBadges ?? 0, 'trust badge'),
+        `${plural(summary.aboveFoldElements ?? 0, 'proof element')} above the fold`
+      ];
+    }
+  },
+  'value-proposition': {
+    secondaryMetrics: ['Bounce rate', 'Scroll depth'],
+    expectedLiftPercentage: 12,
+    describeCurrent: result => [
+      result.headline ? `the headline "${result.headline}"` : 'no headline',
+      result.uniqueValuePropositionDetected === false ? 'no unique value proposition' : null
+    ]
+  },
+  forms: {
+    secondaryMetrics: ['Form start rate', 'Form completion rate'],
+    expectedLiftPercentage: 12,
+    describeCurrent: result => [
+      isNumber(result.formCount) && isNumber(result.totalFields)
+        ? `${plural(result.formCount, 'form')} with ${plural(result.totalFields, 'field')}${isNumber(result.requiredFields) ? ` (${result.requiredFields} required)` : ''}`
+        : null
+    ]
+  },
+  mobile: {
+    secondaryMetrics: ['Mobile conversion rate', 'Mobile bounce rate'],
+    expectedLiftPercentage: 10,
+    describeCurrent: result => [
+      result.hasViewportMeta === false ? 'no viewport meta tag' : null,
+      result.horizontalOverflow?.detected ? 'horizontal scrolling on mobile' : null,
+      isNumber(result.ctasAboveFold) ? `${plural(result.ctasAboveFold, 'CTA')} above the mobile fold` : null,
+      isNumber(result.tapTargets?.tooSmall) && result.tapTargets.tooSmall > 0 ? plural(result.tapTargets.tooSmall, 'undersized tap target') : null
+    ]
+  },
+  psychology: {
+    secondaryMetrics: ['CTA click-through rate', 'Refund or complaint rate'],
+    expectedLiftPercentage: 8,
+    describeCurrent: result => {
+      const fakeTimers = Array.isArray(result.countdownTimers)
+        ? result.countdownTimers.filter((timer: any) => timer.resetsOnReload).length
+        : 0;
+      return [
+        fakeTimers > 0 ? `${plural(fakeTimers, 'countdown timer')} restarting on reload` : null,
+        isNumber(result.authoritySignals) ? plural(result.authoritySignals, 'authority signal') : null
+      ];
+    }
+  },
+  copy: {
+    secondaryMetrics: ['Scroll depth', 'Time on page'],
+    expectedLiftPercentage: 8,
+    describeCurrent: result => [
+      isNumber(result.fleschKincaidGrade) ? `a reading grade level of ${Math.round(result.fleschKincaidGrade)}` : null,
+      isNumber(result.youWeRatio) ? `${Math.round(result.youWeRatio * 100)}% "you" among "you" and "we" words` : null
+    ]
+  },
+  accessibility: {
+    secondaryMetrics: ['Form completion rate', 'Bounce rate'],
+    expectedLiftPercentage: 5,
+    describeCurrent: result => [
+      isNumber(result.contrast?.failing) ? `${plural(result.contrast.failing, 'text element')} failing contrast` : null,
+      isNumber(result.formLabels?.unlabeled) && result.formLabels.unlabeled > 0 ? plural(result.formLabels.unlabeled, 'unlabeled form field') : null,
+      isNumber(result.focusability?.unfocusable) && result.focusability.unfocusable > 0 ? `${result.focusability.unfocusable} controls keyboard users can't reach` : null
+    ]
+  },
+  seo: {
+    secondaryMetrics: ['Organic click-through rate', 'Organic sessions'],
+    expectedLiftPercentage: 5,
+    describeCurrent: result => [
+      result.robots?.noindex ? 'a noindex directive' : null,
+      isNumber(result.title?.length) ? `a ${result.title.length}-character title` : null,
+      Array.isArray(result.openGraph?.missing) && result.openGraph.missing.length > 0
+        ? `missing Open Graph tags (${result.openGraph.missing.join(', ')})`
+        : null
+    ]
+  }
+};
+
+function joinPhrases(phrases: string[]): string {
+  if (phrases.length <= 1) {
+    return phrases.join('');
+  }
+  return `${phrases.slice(0, -1).join(', ')} and ${phrases[phrases.length - 1]}`;
+}
+
+/**
+ * Test plan fields stored on a high-impact recommendation: a hypothesis and
+ * control grounded in what the analysis detected, the change to test, and
+ * the metrics to judge it by
+ */
+export function buildTestPlanFields(
+  recommendation: { category: RecommendationCategory; title: string; description: string; affectedArea: string | null },
+  result: any
+): {
+  test_hypothesis: string;
+  suggested_variants: TestVariant[];
+  success_metrics: string[];
+  estimated_lift_percentage: number;
+} {
+  const plan = CATEGORY_TEST_PLANS[recommendation.category];
+  const current = result && typeof result === 'object'
+    ? plan.describeCurrent(result).filter((phrase): phrase is string => Boolean(phrase))
+    : [];
+  const subject = recommendation.affectedArea ? `the ${recommendation.affectedArea}` : 'the page';
+
+  const hypothesis = `Acting on "${recommendation.title.replace(/[.!?]$/, '')}" will increase ${PRIMARY_METRIC.toLowerCase()} by at least ${plan.expectedLiftPercentage}%`
+    + (current.length > 0 ? `, because the page currently has ${joinPhrases(current)}.` : '.');
+
+  return {
+    test_hypothesis: hypothesis,
+    suggested_variants: [
+      {
+        name: 'Control',
+        description: current.length > 0
+          ? `Keep ${subject} as it is: ${joinPhrases(current)}.`
+          : `Keep ${subject} as it is.`
+      },
+      { name: 'Variant', description: recommendation.description }
+    ],
+    success_metrics: [PRIMARY_METRIC, ...plan.secondaryMetrics],
+    estimated_lift_percentage: plan.expectedLiftPercentage
+  };
+}
+
+/**
+ * Visitors per variant needed to detect a relative lift over a baseline
+ * conversion rate with a two-sided test of two proportions, at
+ * SIGNIFICANCE_LEVEL and STATISTICAL_POWER. A rough estimate for planning;
+ * it assumes an even split between two variants.
+ */
+export function estimateSampleSize(
+  baselineRate: number,
+  liftPercentage: number,
+  dailyVisitors: number | null = null
+): SampleSizeEstimate {
+  const targetRate = baselineRate * (1 + liftPercentage / 100);
+  const pooled = (baselineRate + targetRate) / 2;
+  const numerator = Z_ALPHA * Math.sqrt(2 * pooled * (1 - pooled))
+    + Z_BETA * Math.sqrt(baselineRate * (1 - baselineRate) + targetRate * (1 - targetRate));
+  const visitorsPerVariant = Math.ceil(numerator ** 2 / (targetRate - baselineRate) ** 2);
+  const totalVisitors = visitorsPerVariant * 2;
+
+  return {
+    baselineRate,
+    targetRate: Math.round(targetRate * 10000) / 10000,
+    visitorsPerVariant,
+    totalVisitors,
+    estimatedDays: dailyVisitors && dailyVisitors > 0 ? Math.ceil(totalVisitors / dailyVisitors) : null
+  };
+}
+
+/**
+ * Test plan of a tracked recommendation, or null when it has none (it is
+ * not high-impact, or was stored before plans were generated). Sample size is
+ * only estimated when a baseline conversion rate is given.
+ */
+export function toTestPlan(
+  recommendation: TrackedRecommendation,
+  traffic: { baselineRate?: number | null; dailyVisitors?: number | null } = {}
+): TestPlan | null {
+  if (!recommendation.test_hypothesis || !recommendation.estimated_lift_percentage) {
+    return null;
+  }
+
+  const variants = recommendation.suggested_variants || [];
+  const [primaryMetric = PRIMARY_METRIC, ...secondaryMetrics] = recommendation.success_metrics || [];
+  const lift = Number(recommendation.estimated_lift_percentage);
+
+  return {
+    recommendationId: recommendation.id,
+    recommendationKey: recommendation.recommendation_key,
+    category: recommendation.category,
+    title: recommendation.title,
+    status: recommendation.status,
+    hypothesis: recommendation.test_hypothesis,
+    control: variants.find(variant => variant.name === 'Control')?.description || 'The current page.',
+    variant: variants.find(variant => variant.name === 'Variant')?.description || recommendation.description,
+    primaryMetric,
+    secondaryMetrics,
+    expectedLiftPercentage: lift,
+    sampleSize: traffic.baselineRate ? estimateSampleSize(traffic.baselineRate, lift, traffic.dailyVisitors ?? null) : null
+  };
+}
+
+function formatPercent(rate: number): string {
+  return `${Number((rate * 100).toFixed(2))}%`;
+}
+
+/**
+ * Test brief as Markdown: every plan with its hypothesis, variants, metrics
+ * and sample size, ready to hand to whoever runs the tests
+ */
+export function toTestBrief(
+  plans: TestPlan[],
+  context: { url: string; analyzedAt: string; baselineRate?: number | null; dailyVisitors?: number | null }
+): string {
+  const lines: string[] = [
+    `# A/B Test Brief: ${context.url}`,
+    '',
+    `Test plans for the high-impact recommendations of the landing page report from ${context.analyzedAt.slice(0, 10)}.`,
+    ''
+  ];
+
+  if (context.baselineRate) {
+    lines.push(
+      `Sample sizes assume a baseline conversion rate of ${formatPercent(context.baselineRate)}`
+        + (context.dailyVisitors ? ` and ${context.dailyVisitors.toLocaleString('en-US')} visitors a day` : '')
+        + `, a 50/50 split between control and variant, ${Math.round((1 - SIGNIFICANCE_LEVEL) * 100)}% significance and ${Math.round(STATISTICAL_POWER * 100)}% power.`,
+      ''
+    );
+  } else {
+    lines.push('Add a baseline conversion rate to estimate how many visitors each test needs.', '');
+  }
+
+  if (plans.length === 0) {
+    lines.push('This report has no high-impact recommendations to test.');
+  }
+
+  plans.forEach((plan, index) => {
+    lines.push(
+      `## ${index + 1}. ${plan.title}`,
+      '',
+      `**Hypothesis:** ${plan.hypothesis}`,
+      '',
+      `- **Control:** ${plan.control}`,
+      `- **Variant:** ${plan.variant}`,
+      `- **Primary metric:** ${plan.primaryMetric}`,
+      `- **Secondary metrics:** ${plan.secondaryMetrics.join(', ') || 'None'}`,
+      `- **Minimum detectable effect:** +${plan.expectedLiftPercentage}% relative`
+    );
+
+    if (plan.sampleSize) {
+      const { baselineRate, targetRate, visitorsPerVariant, totalVisitors, estimatedDays } = plan.sampleSize;
+      lines.push(
+        `- **Sample size:** ${visitorsPerVariant.toLocaleString('en-US')} visitors per variant (${totalVisitors.toLocaleString('en-US')} total) to detect ${formatPercent(baselineRate)} → ${formatPercent(targetRate)}`
+          + (estimatedDays !== null ? `, about ${plural(estimatedDays, 'day')} at current traffic` : '')
+      );
+    }
+    lines.push('');
+  });
+
+  return lines.join('\n');
+}
@@ -0,0 +1,26 @@
+export const INVALID_URL_MESSAGE = 'Invalid URL format. Please provide a complete URL with a valid domain.';
+
+/**
+ * Parse a URL submitted for analysis. Throws unless it is a complete
+ * http(s) URL with a domain (e.g. example.com).
+ */
+export function parseAnalysisUrl(url: string): URL {
+  const validatedUrl = new URL(url);
+  // Check protocol
+  if (!['http:', 'https:'].includes(validatedUrl.protocol)) {
+    throw new Error('Invalid protocol');
+  }
+  // Check hostname exists and is not empty
+  if (!validatedUrl.hostname || validatedUrl.hostname.trim() === '') {
+    throw new Error('Invalid hostname');
+  }
+  // Check hostname contains at least one dot (domain.tld)
+  if (!validatedUrl.hostname.includes('.')) {
+    throw new Error('Invalid hostname format');
+  }
+  // Check hostname doesn't end with just a dot
+  if (validatedUrl.hostname.endsWith('.')) {
+    throw new Error('Invalid hostname format');
+  }
+  return validatedUrl;
+}
@@ -0,0 +1,87 @@
+import { supabaseAdmin } from '@/lib/supabase';
+
+/** Owner of analyses requested without an email address */
+export const ANONYMOUS_USER_EMAIL = 'system.anonymous@lansky.tech';
+
+/**
+ * Find or create the user an analysis belongs to: the user with this email,
+ * or the system anonymous user when there is none
+ */
+export async function resolveUserId(email?: string): Promise<string> {
+  if (email) {
+    // Handle registered user
+    const { data: existingUser } = await supabaseAdmin
+      .from('users')
+      .select('id')
+      .eq('email', email)
+      .single();
+
+    if (existingUser) {
+      console.log(`✅ Found existing user: ${existingUser.id}`);
+      return existingUser.id;
+    }
+
+    const { data: newUser, error: userError } = await supabaseAdmin
+      .from('users')
+      .insert({
+        email: email,
+        marketing_consent: true
+      })
+      .select('id')
+      .single();
+
+    if (userError || !newUser) {
+      console.error('❌ Failed to create user:', userError);
+      throw new Error('Failed to create user record');
+    }
+
+    console.log(`✅ Created new user: ${newUser.id}`);
+    return newUser.id;
+  }
+
+  // Handle anonymous user - use or create system user
+  const { data: systemUser } = await supabaseAdmin
+    .from('users')
+    .select('id')
+    .eq('email', ANONYMOUS_USER_EMAIL)
+    .single();
+
+  if (systemUser) {
+    console.log(`✅ Using system anonymous user: ${systemUser.id}`);
+    return systemUser.id;
+  }
+
+  const { data: newSystemUser, error: systemUserError } = await supabaseAdmin
+    .from('users')
+    .insert({
+      email: ANONYMOUS_USER_EMAIL,
+      marketing_consent: false,
+      first_name: 'Anonymous',
+      last_name: 'User',
+      lead_score: 0
+    })
+    .select('id')
+    .single();
+
+  if (systemUserError || !newSystemUser) {
+    console.error('❌ Failed to create system user:', systemUserError);
+    throw new Error('Failed to create system user record');
+  }
+
+  console.log(`✅ Created system anonymous user: ${newSystemUser.id}`);
+  return newSystemUser.id;
+}
+
+/**
+ * Whether the user is the system user that owns every anonymous request's
+ * analyses
+ */
+export async function isAnonymousUser(userId: string): Promise<boolean> {
+  const { data: user } = await supabaseAdmin
+    .from('users')
+    .select('email')
+    .eq('id', userId)
+    .single();
+
+  return user?.email === ANONYMOUS_USER_EMAIL;
+}
@@ -0,0 +1,324 @@
+import type { Browser } from 'puppeteer-core';
+import { createPuppeteerBrowser } from './puppeteer-config';
+import { CTA_HELPERS } from './cta-dictionary';
+import {
+  VALUE_PROPOSITION_DICTIONARY,
+  HEADLINE_WORD_RANGE,
+  WORDS_PER_SECOND
+} from './value-proposition-dictionary';
+import { getValuePropositionRecommendations, RecommendationContext } from './recommendations';
+
+/**
+ * Hero copy extracted from the page
+ */
+export interface HeroCopy {
+  headline: string | null;
+  subheadline: string | null;
+  firstParagraph: string | null;
+  headlineAboveFold: boolean;
+}
+
+export interface ValuePropositionResult {
+  score: number;
+  headline: string | null;
+  subheadline: string | null;
+  firstParagraph: string | null;
+  headlineClarityScore: number;
+  /** Share of benefit phrases among benefit and feature phrases (0-1) */
+  benefitVsFeatureRatio: number;
+  benefitPhrases: string[];
+  featurePhrases: string[];
+  vaguePhrases: string[];
+  specificityScore: number;
+  uniqueValuePropositionDetected: boolean;
+  /** Estimated time to read the headline and subheadline */
+  timeToComprehensionMs: number;
+  issues: string[];
+  recommendations: string[];
+  recommendationIds?: Record<string, string>;
+}
+
+interface ValuePropositionOptions {
+  viewport?: {
+    width: number;
+    height: number;
+  };
+  isHtml?: boolean; // Flag to indicate if input is HTML instead of URL
+  puppeteer?: {
+    browser?: Browser;
+    forceBrowserless?: boolean;
+  };
+}
+
+export async function analyzeValueProposition(
+  urlOrHtml: string,
+  options: ValuePropositionOptions = {}
+): Promise<ValuePropositionResult> {
+  console.log('💡 Value proposition analysis starting...');
+
+  const providedBrowser = options.puppeteer?.browser;
+  const shouldCloseBrowser = !providedBrowser;
+  let browser: Browser | null = providedBrowser || null;
+
+  try {
+    const viewport = options.viewport || { width: 1920, height: 1080 };
+
+    if (!browser) {
+      console.log('📱 Launching Puppeteer browser...');
+      browser = await createPuppeteerBrowser({
+        forceBrowserless: options.puppeteer?.forceBrowserless
+      });
+    }
+
+    const page = await browser.newPage();
+    await page.setViewport(viewport);
+
+    if (options.isHtml) {
+      console.log('📄 Setting HTML content directly...');
+      await page.setContent(urlOrHtml);
+    } else {
+      console.log('🌐 Navigating to URL...');
+      await page.goto(urlOrHtml, {
+        waitUntil: 'domcontentloaded',
+        timeout: 60000
+      });
+    }
+
+    console.log('🔍 Extracting hero copy...');
+    const heroCopy: HeroCopy = await page.evaluate((viewportHeight: number) => {
+      const getText = (element: Element | null): string | null => {
+        const text = element?.textContent?.replace(/\s+/g, ' ').trim();
+        return text ? text : null;
+      };
+
+      const isVisible = (element: Element): boolean => {
+        const style = window.getComputedStyle(element);
+        const rect = element.getBoundingClientRect();
+        return style.display !== 'none' &&
+          style.visibility !== 'hidden' &&
+          parseFloat(style.opacity || '1') > 0 &&
+          rect.width > 0 &&
+          rect.height > 0;
+      };
+
+      const follows = (element: Element, reference: Element): boolean =>
+        Boolean(reference.compareDocumentPosition(element) & Node.DOCUMENT_POSITION_FOLLOWING) &&
+        !reference.contains(element);
+
+      // Main headline: first visible h1, falling back to the first visible h2
+      const headlineElement =
+        Array.from(document.querySelectorAll('h1')).find(el => isVisible(el) && getText(el)) ||
+        Array.from(document.querySelectorAll('h2')).find(el => isVisible(el) && getText(el)) ||
+        null;
+
+      if (!headlineElement) {
+        const firstParagraph = Array.from(document.querySelectorAll('p'))
+          .find(el => isVisible(el) && (getText(el)?.length || 0) >= 40);
+        return {
+          headline: null,
+          subheadline: null,
+          firstParagraph: getText(firstParagraph || null),
+          headlineAboveFold: false
+        };
+      }
+
+      const headlineRect = headlineElement.getBoundingClientRect();
+      const headlineTop = headlineRect.top + window.scrollY;
+
+      // Subheadline: the next visible heading or short paragraph close below the headline
+      const subheadlineElement = Array.from(document.querySelectorAll(
+        'h2, h3, p, [class*="subtitle"], [class*="subheading"], [class*="subhead"], [class*="tagline"]'
+      )).find(el => {
+        if (!follows(el, headlineElement) || !isVisible(el)) return false;
+        const text = getText(el) || '';
+        const top = el.getBoundingClientRect().top + window.scrollY;
+        return text.length >= 15 && text.length <= 300 && top - headlineTop < viewportHeight * 0.6;
+      }) || null;
+
+      const firstParagraphElement = Array.from(document.querySelectorAll('p')).find(el =>
+        el !== subheadlineElement &&
+        follows(el, headlineElement) &&
+        isVisible(el) &&
+        (getText(el)?.length || 0) >= 40
+      ) || null;
+
+      return {
+        headline: getText(headlineElement),
+        subheadline: getText(subheadlineElement),
+        firstParagraph: getText(firstParagraphElement),
+        headlineAboveFold: headlineTop < viewportHeight
+      };
+    }, viewport.height);
+
+    console.log(`📰 Headline: "${heroCopy.headline || 'none found'}"`);
+
+    const result = scoreValueProposition(heroCopy, options.isHtml ? undefined : urlOrHtml);
+    console.log(`💯 Value proposition score: ${result.score}/100`);
+    return result;
+  } finally {
+    if (shouldCloseBrowser && browser) {
+      console.log('🔒 Closing browser...');
+      await browser.close();
+    }
+    console.log('✨ Value proposition analysis complete!');
+  }
+}
+
+/**
+ * Score extracted hero copy for clarity, benefit language, specificity and
+ * differentiation
+ */
+export function scoreValueProposition(copy: HeroCopy, url?: string): ValuePropositionResult {
+  const headline = copy.headline?.trim() || null;
+  const heroText = [headline, copy.subheadline, copy.firstParagraph].filter(Boolean).join(' ');
+
+  const benefitPhrases = findPhrases(heroText, VALUE_PROPOSITION_DICTIONARY.BENEFIT_WORDS);
+  const featurePhrases = findPhrases(heroText, VALUE_PROPOSITION_DICTIONARY.FEATURE_WORDS);
+  const vaguePhrases = findPhrases(heroText, VALUE_PROPOSITION_DICTIONARY.VAGUE_PHRASES);
+  const specificityCount = VALUE_PROPOSITION_DICTIONARY.SPECIFICITY_PATTERNS
+    .filter(pattern => pattern.test(heroText)).length;
+  const uniqueValuePropositionDetected = CTA_HELPERS.matchesAnyPattern(heroText, VALUE_PROPOSITION_DICTIONARY.UVP_PATTERNS);
+
+  const headlineWordCount = countWords(headline);
+  const headlineGeneric = headline !== null && VALUE_PROPOSITION_DICTIONARY.GENERIC_HEADLINES
+    .some(generic => headline.toLowerCase().replace(/[^a-z\s]/g, '').trim() === generic);
+
+  const headlineClarityScore = calculateHeadlineClarity(headline, headlineWordCount, headlineGeneric, copy.headlineAboveFold);
+
+  const phraseCount = benefitPhrases.length + featurePhrases.length;
+  const benefitVsFeatureRatio = phraseCount > 0 ? benefitPhrases.length / phraseCount : 0;
+  // No benefit or feature language at all is scored as neutral-to-weak copy
+  const benefitScore = phraseCount > 0 ? Math.round(benefitVsFeatureRatio * 100) : 40;
+
+  const specificityScore = Math.max(0, Math.min(100, (specificityCount === 0 ? 30 : specificityCount === 1 ? 70 : 100) - vaguePhrases.length * 10));
+
+  const timeToComprehensionMs = Math.round(
+    ((headlineWordCount + countWords(copy.subheadline)) / WORDS_PER_SECOND) * 1000
+  );
+
+  const score = headline === null ? 0 : Math.round(
+    headlineClarityScore * 0.35 +
+    benefitScore * 0.25 +
+    specificityScore * 0.2 +
+    (uniqueValuePropositionDetected ? 100 : 0) * 0.1 +
+    (copy.subheadline ? 100 : 0) * 0.1
+  );
+
+  const ctx: RecommendationContext = {
+    url,
+    headline: headline || undefined,
+    headlineDetected: headline !== null,
+    headlineGeneric,
+    headlineAboveFold: copy.headlineAboveFold,
+    headlineWordCount,
+    subheadlineDetected: Boolean(copy.subheadline),
+    benefitPhraseCount: benefitPhrases.length,
+    featurePhraseCount: featurePhrases.length,
+    vaguePhrases,
+    specificityCount,
+    uvpDetected: uniqueValuePropositionDetected,
+    timeToComprehensionSeconds: Math.round(timeToComprehensionMs / 1000)
+  };
+
+  const generated = getValuePropositionRecommendations(ctx);
+  return {
+    score,
+    headline,
+    subheadline: copy.subheadline,
+    firstParagraph: copy.firstParagraph,
+    headlineClarityScore,
+    benefitVsFeatureRatio: Math.round(benefitVsFeatureRatio * 100) / 100,
+    benefitPhrases,
+    featurePhrases,
+    vaguePhrases,
+    specificityScore,
+    uniqueValuePropositionDetected,
+    timeToComprehensionMs,
+    issues: generateIssues(ctx),
+    recommendations: generated.legacyStrings,
+    recommendationIds: generated.recommendationIds
+  };
+}
+
+function findPhrases(text: string, phrases: readonly string[]): string[] {
+  if (!text) return [];
+  return phrases.filter(phrase => CTA_HELPERS.phraseToBoundaryRegex(phrase).test(text));
+}
+
+function countWords(text: string | null | undefined): number {
+  return text ? text.trim().split(/\s+/).filter(Boolean).length : 0;
+}
+
+function calculateHeadlineClarity(
+  headline: string | null,
+  wordCount: number,
+  isGeneric: boolean,
+  isAboveFold: boolean
+): number {
+  if (!headline) return 0;
+
+  let score = 100;
+
+  if (isGeneric) {
+    score -= 60;
+  }
+
+  if (wordCount < HEADLINE_WORD_RANGE.min) {
+    score -= 20;
+  } else if (wordCount > HEADLINE_WORD_RANGE.max) {
+    score -= Math.min(40, (wordCount - HEADLINE_WORD_RANGE.max) * 5);
+  }
+
+  score -= findPhrases(headline, VALUE_PROPOSITION_DICTIONARY.VAGUE_PHRASES).length * 15;
+
+  if (!isAboveFold) {
+    score -= 20;
+  }
+
+  return Math.max(0, Math.min(100, score));
+}
+
+function generateIssues(ctx: RecommendationContext): string[] {
+  const issues: string[] = [];
+
+  if (!ctx.headlineDetected) {
+    issues.push('No hero headline found. Visitors cannot tell what the page offers at a glance.');
+    return issues;
+  }
+
+  if (ctx.headlineGeneric) {
+    issues.push(`Headline "${ctx.headline}" is generic and does not describe the offer.`);
+  }
+
+  if (ctx.headlineAboveFold === false) {
+    issues.push('Main headline is not visible above the fold.');
+  }
+
+  if ((ctx.headlineWordCount || 0) > HEADLINE_WORD_RANGE.max) {
+    issues.push(`Headline is ${ctx.headlineWordCount} words long, too long to read at a glance.`);
+  }
+
+  if ((ctx.featurePhraseCount || 0) > (ctx.benefitPhraseCount || 0)) {
+    issues.push('Hero copy focuses on features rather than benefits to the visitor.');
+  } else if ((ctx.benefitPhraseCount || 0) === 0) {
+    issues.push('Hero copy does not state a clear benefit for the visitor.');
+  }
+
+  if ((ctx.vaguePhrases || []).length > 0) {
+    issues.push(`Vague language in hero copy: ${ctx.vaguePhrases!.join(', ')}.`);
+  }
+
+  if (ctx.specificityCount === 0) {
+    issues.push('Value proposition has no specific numbers, timeframes or results.');
+  }
+
+  if (!ctx.uvpDetected) {
+    issues.push('No differentiator found. The headline does not say why you are different from alternatives.');
+  }
+
+  if (!ctx.subheadlineDetected) {
+    issues.push('No subheadline supports the main headline.');
+  }
+
+  return issues;
+}
@@ -0,0 +1,71 @@
+/**
+ * Value Proposition Dictionary - word/phrase lists for hero copy analysis
+ * Benefit language describes outcomes for the visitor; feature language
+ * describes the product itself.
+ */
+
+export const VALUE_PROPOSITION_DICTIONARY = {
+  // Outcome-oriented words: what the visitor gets
+  BENEFIT_WORDS: [
+    'save', 'saves', 'saving', 'grow', 'grows', 'increase', 'boost', 'reduce',
+    'cut', 'earn', 'win', 'improve', 'avoid', 'stop', 'eliminate', 'double',
+    'faster', 'easier', 'simpler', 'effortless', 'effortlessly', 'instantly',
+    'in minutes', 'in seconds', 'so you can', 'helps you', 'without',
+    'never', 'peace of mind', 'stress-free', 'hassle-free', 'more time',
+    'more customers', 'more sales', 'more revenue', 'less time', 'less work',
+    'results', 'profit', 'roi', 'confidence', 'freedom'
+  ],
+
+  // Product-oriented words: what the product is or has
+  FEATURE_WORDS: [
+    'feature', 'features', 'integration', 'integrations', 'dashboard', 'api',
+    'platform', 'module', 'modules', 'built-in', 'powered by', 'ai-powered',
+    'supports', 'includes', 'compatible', 'plugin', 'technology', 'cloud-based',
+    'analytics', 'software', 'tool', 'tools', 'engine', 'algorithm', 'framework',
+    'infrastructure', 'architecture', 'workflow automation', 'sdk', 'customizable'
+  ],
+
+  // Buzzwords that sound impressive but say nothing specific
+  VAGUE_PHRASES: [
+    'world-class', 'best-in-class', 'cutting-edge', 'innovative', 'next-generation',
+    'next-gen', 'revolutionary', 'industry-leading', 'leading provider', 'solutions',
+    'synergy', 'seamless', 'robust', 'state-of-the-art', 'game-changing',
+    'game changer', 'empower', 'empowering', 'unlock your potential',
+    'take it to the next level', 'one-stop shop', 'all-in-one solution',
+    'the future of', 'reimagined', 'redefined'
+  ],
+
+  // Headlines that don't say anything about the offer
+  GENERIC_HEADLINES: [
+    'welcome', 'welcome to our website', 'home', 'hello', 'about us',
+    'untitled', 'coming soon', 'homepage'
+  ],
+
+  // Concrete details: numbers, percentages, money and timeframes
+  SPECIFICITY_PATTERNS: [
+    /\b\d+(\.\d+)?\s?%/,
+    /\b\d+(\.\d+)?x\b/i,
+    /[$€£]\s?\d/,
+    /\b\d+\s?(seconds?|minutes?|mins?|hours?|days?|weeks?|months?)\b/i,
+    /\b\d{1,3}(,\d{3})+\+?\b|\b\d+k\+?\s/i,
+    /\b\d+\+?\s+(customers|teams|companies|businesses|users|people|brands|stores)\b/i
+  ],
+
+  // Differentiation language that signals a unique value proposition
+  UVP_PATTERNS: [
+    /\bthe only\b/i,
+    /\bunlike (other|traditional|most)\b/i,
+    /\bthe first\b.+\b(to|that)\b/i,
+    /\binstead of\b/i,
+    /\bno more\b/i,
+    /\bwithout (the|any|a|having)\b/i,
+    /#1\b/,
+    /\bnumber one\b/i
+  ]
+} as const;
+
+/** Headline length that can be read and understood at a glance */
+export const HEADLINE_WORD_RANGE = { min: 3, max: 12 };
+
+/** Average reading speed used to estimate time to comprehension */
+export const WORDS_PER_SECOND = 4;
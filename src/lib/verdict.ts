@@ -1,44 +1,38 @@
 /**
  * Verdict utility for generating human-readable status labels
- * Based on overall score thresholds
+ * Based on the letter grade for the overall score
  */
 
+import { getGrade, Grade } from './grading'
+
 export interface Verdict {
+  grade: Grade
   text: string
   colorClass: string
   bgClass: string
 }
 
+const VERDICTS: Record<Grade, Omit<Verdict, 'grade'>> = {
+  A: { text: 'Excellent', colorClass: 'text-white', bgClass: 'bg-emerald-500' },
+  B: { text: 'Good', colorClass: 'text-white', bgClass: 'bg-green-500' },
+  C: { text: 'Fair', colorClass: 'text-white', bgClass: 'bg-amber-500' },
+  D: { text: 'Fair', colorClass: 'text-white', bgClass: 'bg-orange-500' },
+  F: { text: 'Critical', colorClass: 'text-white', bgClass: 'bg-red-500' }
+}
+
 /**
  * Get a human-readable verdict based on the overall score
  * @param score - The overall score (0-100)
- * @returns Verdict object with text and color classes
+ * @returns Verdict object with the grade, text and color classes
  */
 export function getVerdict(score: number): Verdict {
-  if (score >= 85) {
-    return {
-      text: 'Excellent',
-      colorClass: 'text-white',
-      bgClass: 'bg-emerald-500'
-    }
-  }
-  if (score >= 70) {
-    return {
-      text: 'Good',
-      colorClass: 'text-white',
-      bgClass: 'bg-green-500'
-    }
-  }
-  if (score >= 50) {
-    return {
-      text: 'Fair',
-      colorClass: 'text-white',
-      bgClass: 'bg-amber-500'
-    }
-  }
-  return {
-    text: 'Critical',
-    colorClass: 'text-white',
-    bgClass: 'bg-red-500'
-  }
+  const grade = getGrade(score)
+  return { grade, ...VERDICTS[grade] }
+}
+
+/**
+ * Verdict for a stored grade, e.g. the `grade` column of a report
+ */
+export function getGradeVerdict(grade: Grade): Verdict {
+  return { grade, ...VERDICTS[grade] }
 }
@@ -1,4 +1,4 @@
-import type { Browser } from 'puppeteer-core';
+import type { Browser, Viewport } from 'puppeteer-core';
 import { createPuppeteerBrowser } from './puppeteer-config';
 import { getWhitespaceRecommendations, RecommendationContext } from './recommendations';
 
@@ -81,14 +81,13 @@ export interface WhitespaceAnalysisResult {
   metrics: AdaptiveWhitespaceMetrics;
   issues: string[];
   recommendations: string[];
+  recommendationIds?: Record<string, string>;
   loadTime: number; // Total analysis time in ms
 }
 
 interface WhitespaceOptions {
-  viewport?: {
-    width: number;
-    height: number;
-  };
+  viewport?: Viewport; // Set isMobile/hasTouch for a mobile pass
+  userAgent?: string;
   isHtml?: boolean; // Flag to indicate if input is HTML instead of URL
   gridColumns?: number; // Number of grid columns for density analysis
   gridRows?: number; // Number of grid rows for density analysis
@@ -404,6 +403,9 @@ export async function analyzeWhitespace(
 
     const page = await browser.newPage();
     await page.setViewport(viewport);
+    if (options.userAgent) {
+      await page.setUserAgent(options.userAgent);
+    }
 
     console.log('🌐 Navigating to content...');
     if (isHtml) {
@@ -785,7 +787,7 @@ export async function analyzeWhitespace(
     const metrics = calculateWhitespaceMetrics(densityAnalysis, spacingAnalysis, overallMetrics, screenshotAnalysis);
     const adaptiveMetrics = enhanceMetricsWithThemeData(metrics, themeDetection);
     const score = calculateAdaptiveWhitespaceScore(adaptiveMetrics);
-    const { issues, recommendations } = generateWhitespaceRecommendations(adaptiveMetrics);
+    const { issues, recommendations, recommendationIds } = generateWhitespaceRecommendations(adaptiveMetrics);
     
     
     const loadTime = Date.now() - startTime;
@@ -797,6 +799,7 @@ export async function analyzeWhitespace(
       metrics: adaptiveMetrics,
       issues,
       recommendations,
+      recommendationIds,
       loadTime
     };
 
@@ -1033,7 +1036,7 @@ function calculateWhitespaceScore(metrics: WhitespaceMetrics): number {
 
 function generateWhitespaceRecommendations(
   metrics: AdaptiveWhitespaceMetrics
-): { issues: string[]; recommendations: string[] } {
+): { issues: string[]; recommendations: string[]; recommendationIds: Record<string, string> } {
   const issues: string[] = [];
 
   // Check for clutter flags (PRD requirement)
@@ -1104,5 +1107,5 @@ function generateWhitespaceRecommendations(
   };
   const generatedRecs = getWhitespaceRecommendations(ctx);
 
-  return { issues, recommendations: generatedRecs.legacyStrings };
+  return { issues, recommendations: generatedRecs.legacyStrings, recommendationIds: generatedRecs.recommendationIds };
 }
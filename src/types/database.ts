@@ -1,3 +1,9 @@
+import type { AnalyzerWeights, ScoringWeights, WeightProfileId } from '@/lib/analyzers/weight-profiles'
+import type { AnalyzerId } from '@/lib/analyzers/types'
+import type { Grade } from '@/lib/grading'
+
+export type { ScoringWeights }
+
 // ===== NEW DATABASE SCHEMA TYPES =====
 
 export interface User {
@@ -39,11 +45,14 @@ export interface Analysis {
   url: string
   url_title?: string
   url_description?: string
-  detected_industry?: string
+  detected_industry?: string // 'saas', 'ecommerce', 'agency', 'consulting', 'local-service', 'education'
+  industry_confidence?: number // 0-1 confidence of detected_industry
   
   // Processing status
   status: 'pending' | 'processing' | 'completed' | 'failed' | 'queued'
   priority: number
+  progress?: AnalysisProgress
+  job_options?: AnalysisJobOptions
   
   // Core analysis results (current 6 modules)
   page_speed_analysis?: PageSpeedAnalysis
@@ -59,14 +68,18 @@ export interface Analysis {
   form_optimization_analysis?: FormOptimizationAnalysis
   mobile_conversion_analysis?: MobileConversionAnalysis
   copy_effectiveness_analysis?: CopyEffectivenessAnalysis
+  accessibility_analysis?: AccessibilityAnalysis
+  seo_analysis?: SeoAnalysis
   conversion_prediction?: ConversionPrediction
   competitive_analysis?: CompetitiveAnalysis
   
   // Scoring and recommendations
   overall_score?: number
-  industry_adjusted_score?: number
+  industry_adjusted_score?: number // overall score with the weights in scoring_weights
+  scoring_weights?: ScoringWeights
   conversion_probability?: number // 0.0000 to 1.0000
-  grade?: string // A, B, C, D, F
+  grade?: Grade // letter grade for overall_score
+  module_grades?: Partial<Record<AnalyzerId, Grade>> // letter grade per analyzer score
   
   // Analysis metadata
   algorithm_version: string
@@ -86,7 +99,42 @@ export interface Analysis {
   
   // Future features
   is_baseline: boolean // For A/B testing
-  parent_analysis_id?: string // For comparison analyses
+  parent_analysis_id?: string // previous analysis of the same URL that this one re-scans
+}
+
+export type ModuleStatus = 'pending' | 'running' | 'completed' | 'failed'
+
+export interface ModuleProgress {
+  status: ModuleStatus
+  score?: number | null
+  started_at?: string
+  completed_at?: string
+  error?: string
+}
+
+export interface AnalysisProgress {
+  modules: Record<string, ModuleProgress>
+  updated_at: string
+}
+
+export interface AnalysisJobOptions {
+  component?: string
+  force_browserless?: boolean
+  competitor_urls?: string[] // set on the primary analysis of a competitor comparison
+  comparison_id?: string // set on competitor analyses: the primary analysis they are compared with
+  weight_profile?: WeightProfileId // requested weight profile for the industry-adjusted score
+  custom_weights?: Partial<AnalyzerWeights> // only with the 'custom' profile
+  monitored?: boolean // set on re-scans queued by scheduled monitoring; score drops send an alert
+  batch_id?: string // set on analyses of a bulk upload
+  batch_label?: string // the label the URL was uploaded with, if any
+  source?: PageSource // set on analyses of an uploaded page instead of a live URL
+  requires_auth?: boolean // the page was analyzed with credentials, which are only ever held in memory
+}
+
+export interface PageSource {
+  type: 'html' | 'zip' // a single HTML document or a zipped static build
+  blob_url: string // uploaded file, deleted once the analysis has finished
+  digest: string // SHA-256 of the upload, also part of the analysis URL
 }
 
 export interface UserPreferences {
@@ -95,7 +143,7 @@ export interface UserPreferences {
   
   // Analysis preferences
   preferred_analysis_depth: 'quick' | 'standard' | 'comprehensive'
-  auto_analyze_frequency?: string // 'weekly', 'monthly', null for manual only
+  auto_analyze_frequency?: MonitorFrequency | null // null for manual only
   notification_preferences: {
     email: boolean
     sms: boolean
@@ -117,9 +165,11 @@ export interface UserPreferences {
 export interface Recommendation {
   id: string
   analysis_id: string
+  /** ID of the recommendation template, stable across analyses */
+  recommendation_key: string | null
   
   // Recommendation details
-  category: string // 'cta', 'speed', 'social_proof', etc.
+  category: string // 'cta', 'speed', 'social-proof', etc.
   priority: number // 1 = highest priority
   title: string
   description: string
@@ -127,6 +177,8 @@ export interface Recommendation {
   estimated_lift_percentage?: number // Expected conversion lift
   implementation_difficulty: 'easy' | 'medium' | 'hard'
   estimated_hours?: number
+  /** Part of the page the fix applies to, e.g. "hero section" */
+  affected_area?: string | null
   
   // A/B testing suggestions
   test_hypothesis?: string
@@ -147,6 +199,23 @@ export interface Recommendation {
   updated_at: string
 }
 
+export type RecommendationStatus = Recommendation['status']
+
+/**
+ * A recommendation as shown on the report checklist
+ */
+export type TrackedRecommendation = Pick<
+  Recommendation,
+  'id' | 'analysis_id' | 'recommendation_key' | 'category' | 'priority' | 'title' | 'description' | 'expected_impact' | 'affected_area' | 'status' | 'created_at' | 'updated_at'
+> & {
+  implementation_notes: string | null
+  // A/B test plan, filled for high-impact recommendations
+  test_hypothesis: string | null
+  suggested_variants: TestVariant[] | null
+  success_metrics: string[] | null // primary metric first
+  estimated_lift_percentage: number | null
+}
+
 export interface AnalysisHistory {
   id: string
   analysis_id: string
@@ -193,6 +262,7 @@ export interface PageSpeedAnalysis {
     ttfb: number // Time to First Byte
   }
   recommendations: string[]
+  recommendationIds?: Record<string, string> // Template id of each recommendation, keyed by its text
 }
 
 export interface FontAnalysis {
@@ -200,6 +270,7 @@ export interface FontAnalysis {
   font_families: string[]
   font_count: number
   recommendations: string[]
+  recommendationIds?: Record<string, string>
 }
 
 export interface ImageAnalysis {
@@ -209,6 +280,7 @@ export interface ImageAnalysis {
   unoptimized_images: number
   formats_used: string[]
   recommendations: string[]
+  recommendationIds?: Record<string, string>
 }
 
 export interface CtaAnalysis {
@@ -224,6 +296,7 @@ export interface CtaAnalysis {
     cta_visibility: number
   }
   recommendations: string[]
+  recommendationIds?: Record<string, string>
 }
 
 export interface WhitespaceAnalysis {
@@ -231,6 +304,7 @@ export interface WhitespaceAnalysis {
   whitespace_ratio: number
   content_density: number
   recommendations: string[]
+  recommendationIds?: Record<string, string>
 }
 
 export interface SocialProofAnalysis {
@@ -240,58 +314,418 @@ export interface SocialProofAnalysis {
   trust_badges_found: number
   social_media_links: number
   recommendations: string[]
+  recommendationIds?: Record<string, string>
 }
 
-// ===== FUTURE ANALYSIS MODULE TYPES (Phase 2) =====
-
 export interface ValuePropositionAnalysis {
   score: number
-  headline_clarity_score: number
-  benefit_vs_feature_ratio: number
-  unique_value_proposition_detected: boolean
-  time_to_comprehension_ms: number
+  headline: string | null
+  subheadline: string | null
+  headlineClarityScore: number
+  benefitVsFeatureRatio: number // 0.0 to 1.0, share of benefit vs feature phrases
+  benefitPhrases: string[]
+  featurePhrases: string[]
+  vaguePhrases: string[]
+  specificityScore: number
+  uniqueValuePropositionDetected: boolean
+  timeToComprehensionMs: number
+  issues: string[]
+  recommendations: string[]
+  recommendationIds?: Record<string, string>
+}
+
+export interface FormOptimizationAnalysis {
+  score: number | null // null when the page has no forms
+  formCount: number
+  totalFields: number
+  requiredFields: number
+  placeholderOnlyFields: number
+  missingAutocompleteFields: number
+  inputTypeMismatches: number
+  multiStepFormDetected: boolean
+  forms: Array<{
+    score: number
+    fieldCount: number
+    requiredCount: number
+    placeholderOnlyCount: number
+    missingAutocompleteCount: number
+    inputTypeIssues: string[]
+    isMultiStep: boolean
+    isAboveFold: boolean
+    submitText: string | null
+    submitActionStrength: 'strong' | 'medium' | 'weak' | null
+  }>
+  issues: string[]
+  recommendations: string[]
+  recommendationIds?: Record<string, string>
+}
+
+export interface MobileConversionAnalysis {
+  score: number
+  device: {
+    width: number
+    height: number
+    userAgent: string
+  }
+  // Mobile re-run of the layout-sensitive analyzers, keyed by result key; null when a module failed
+  modules: {
+    ctaAnalysis: MobileModuleScore | null
+    whitespaceAssessment: MobileModuleScore | null
+    imageOptimization: MobileModuleScore | null
+    socialProof: MobileModuleScore | null
+  }
+  ctasAboveFold: number | null
+  tapTargets: {
+    total: number
+    tooSmall: number // smaller than 44x44px
+    examples: Array<{ text: string; width: number; height: number }>
+  }
+  horizontalOverflow: {
+    detected: boolean
+    pageWidth: number
+    viewportWidth: number
+    offenders: string[]
+  }
+  hasViewportMeta: boolean
+  issues: string[]
+  recommendations: string[]
+  recommendationIds?: Record<string, string>
+}
+
+export interface MobileModuleScore {
+  score: number | null
+  issues: string[]
   recommendations: string[]
 }
 
 export interface PsychologicalTriggersAnalysis {
   score: number
-  scarcity_elements: number
-  urgency_language_detected: boolean
-  authority_signals: number
-  reciprocity_elements: number
-  social_proof_strength: number
-  countdown_timers: number
+  countdownTimers: Array<{
+    text: string
+    seconds: number | null
+    ticking: boolean
+    resetsOnReload: boolean // restarted for a fresh visitor: fake urgency
+  }>
+  scarcityElements: number
+  scarcityPhrases: string[]
+  urgencyLanguageDetected: boolean
+  urgencyPhrases: string[]
+  authoritySignals: number
+  authorityPhrases: string[]
+  reciprocityElements: number
+  reciprocityOffers: string[]
+  socialProofStrength: number | null
+  manipulativePatterns: string[]
+  issues: string[]
   recommendations: string[]
+  recommendationIds?: Record<string, string>
 }
 
-export interface FormOptimizationAnalysis {
+export interface CopyEffectivenessAnalysis {
   score: number
-  form_field_count: number
-  progressive_disclosure_used: boolean
-  mobile_usability_score: number
-  trust_signals_near_forms: number
-  conversion_barriers: string[]
+  wordCount: number
+  sentenceCount: number
+  fleschReadingEase: number
+  fleschKincaidGrade: number
+  averageSentenceLength: number
+  longSentences: number
+  passiveVoiceRate: number // 0.0 to 1.0
+  passiveExamples: string[]
+  youCount: number
+  weCount: number
+  youWeRatio: number // 0.0 to 1.0, share of "you" among you + we words
+  jargonDensity: number // jargon terms per 100 words
+  jargonTerms: string[]
+  headline: string | null
+  headlineWordCount: number
+  longHeadings: string[]
+  issues: string[]
   recommendations: string[]
+  recommendationIds?: Record<string, string>
 }
 
-export interface MobileConversionAnalysis {
+export interface AccessibilityAnalysis {
   score: number
-  mobile_cta_accessibility: number
-  thumb_friendly_zones: number
-  touch_target_sizing: number
-  mobile_checkout_flow_score: number
-  mobile_specific_barriers: string[]
+  lang: string | null
+  contrast: {
+    checked: number
+    failing: number
+    examples: Array<{
+      text: string
+      ratio: number
+      required: number // 4.5, or 3 for large text (WCAG AA)
+      color: string
+      background: string
+    }>
+  }
+  headings: {
+    levels: number[]
+    hasH1: boolean
+    skippedLevels: string[] // e.g. "h2 → h4"
+  }
+  landmarks: {
+    main: boolean
+    navigation: boolean
+    banner: boolean
+    contentinfo: boolean
+  }
+  formLabels: {
+    total: number
+    unlabeled: number
+    examples: string[]
+  }
+  focusability: {
+    unfocusable: number // clickable elements keyboard users can't reach
+    examples: string[]
+  }
+  linkText: {
+    total: number
+    generic: number
+    empty: number
+    examples: string[]
+  }
+  images: {
+    total: number
+    missingAlt: number
+  }
+  issues: string[]
   recommendations: string[]
+  recommendationIds?: Record<string, string>
 }
 
-export interface CopyEffectivenessAnalysis {
+export interface SeoAnalysis {
   score: number
-  emotional_vs_rational_balance: number
-  reading_level: number
-  clarity_score: number
-  persuasion_techniques: string[]
-  benefit_language_percentage: number
+  title: { text: string; length: number }
+  description: { text: string; length: number }
+  canonical: {
+    url: string | null
+    isAbsolute: boolean
+    matchesPage: boolean // false when the canonical points at another page
+  }
+  openGraph: {
+    tags: Record<string, string>
+    missing: string[]
+    image: { url: string; width: number | null; height: number | null } | null
+  }
+  twitterCard: {
+    card: string | null
+    tags: Record<string, string>
+  }
+  robots: {
+    directives: string[] // robots/googlebot meta tags and X-Robots-Tag header
+    noindex: boolean
+    nofollow: boolean
+  }
+  hreflang: {
+    alternates: Array<{ lang: string; href: string }>
+    invalid: string[]
+    hasXDefault: boolean
+  }
+  structuredData: {
+    blocks: number
+    invalidBlocks: number
+    types: string[]
+    items: Array<{
+      type: string
+      rule: string // Product, Organization, FAQ or Review
+      missingRequired: string[]
+      missingRecommended: string[]
+    }>
+  }
+  h1Count: number
+  issues: string[]
   recommendations: string[]
+  recommendationIds?: Record<string, string>
+}
+
+export interface CompetitiveAnalysis {
+  status: 'pending' | 'completed' | 'failed' // pending until every analysis has finished
+  score: number | null // overall score of the primary page
+  competitorAverage: number | null
+  marketPosition: 'above_average' | 'average' | 'below_average' | null
+  competitors: Array<{
+    analysisId: string
+    url: string
+    status: Analysis['status']
+    overallScore: number | null
+  }>
+  matrix: Array<{
+    analyzerId: string
+    name: string
+    primaryScore: number | null
+    competitorScores: Array<number | null> // same order as competitors
+    leaderUrl: string | null // highest scoring page, primary included
+    outcome: 'win' | 'loss' | 'tie' | null
+  }>
+  wins: string[]
+  losses: string[]
+  patternsToBorrow: Array<{
+    analyzerId: string
+    competitorUrl: string
+    pattern: string
+  }>
+  updatedAt: string
+}
+
+export interface ModuleChange {
+  analyzerId: string
+  name: string
+  previousScore: number | null
+  newScore: number | null
+  scoreDelta: number | null
+  newIssues: string[]
+  resolvedIssues: string[]
+}
+
+export interface SocialProofChange {
+  type: string
+  text: string
+}
+
+/**
+ * What changed between a re-scan and the analysis it re-scans
+ */
+export interface AnalysisChanges {
+  parentAnalysisId: string
+  previousAnalyzedAt: string
+  previousScore: number | null
+  newScore: number | null
+  scoreDelta: number | null
+  modules: ModuleChange[] // display order; only modules scored in both scans have a delta
+  regressions: string[] // analyzer ids that dropped by more than REGRESSION_MARGIN
+  improvements: string[]
+  cta: {
+    previousPrimary: string | null
+    newPrimary: string | null
+    added: string[]
+    removed: string[]
+  } | null
+  socialProof: {
+    added: SocialProofChange[]
+    removed: SocialProofChange[]
+  } | null
+}
+
+export type MonitorFrequency = 'weekly' | 'monthly'
+
+export type MonitoredPageStatus = 'rescan-queued' | 'in-progress' | 'up-to-date'
+
+export interface MonitoredPage {
+  userId: string
+  url: string
+  frequency: MonitorFrequency
+  latestAnalysisId: string
+  lastAnalyzedAt: string
+  overallScore: number | null
+  grade: Grade | null
+  scoreDelta: number | null // since the scan before the latest one
+  status: MonitoredPageStatus
+  rescanId?: string // set when this run queued a re-scan
+}
+
+export interface MonitoringDigest {
+  id: string
+  run_at: string
+  page_count: number
+  rescans_queued: number
+  pages: MonitoredPage[]
+  created_at: string
+}
+
+export interface AnalysisBatch {
+  id: string
+  user_id: string
+  name: string | null
+  status: 'processing' | 'completed' // completed once every analysis has finished
+  item_count: number
+  created_at: string
+  completed_at: string | null
+}
+
+export interface BatchItem {
+  analysisId: string
+  url: string
+  label: string | null
+  status: Analysis['status'] // 'pending' until the batch releases it to the queue
+  overallScore: number | null
+  grade: Grade | null
+  moduleScores: Partial<Record<AnalyzerId, number | null>>
+  error: string | null
+}
+
+export interface BatchSummary {
+  batchId: string
+  name: string | null
+  status: AnalysisBatch['status']
+  createdAt: string
+  completedAt: string | null
+  total: number
+  completed: number
+  failed: number
+  remaining: number
+  averageScore: number | null // over completed analyses
+  items: BatchItem[]
+}
+
+export interface ApiKey {
+  id: string
+  user_id: string
+  name: string
+  key_prefix: string // first characters of the key, to tell keys apart; the key itself is only stored hashed
+  rate_limit_per_minute: number
+  daily_quota: number
+  created_at: string
+  revoked_at: string | null
+}
+
+export interface ApiUsage {
+  id: string
+  api_key_id: string
+  endpoint: string // e.g. 'POST /api/v1/analyze'
+  created_at: string
+}
+
+export interface TestVariant {
+  name: 'Control' | 'Variant'
+  description: string
+}
+
+export interface SampleSizeEstimate {
+  baselineRate: number // 0.0 to 1.0
+  targetRate: number // baseline conversion rate with the expected lift
+  visitorsPerVariant: number
+  totalVisitors: number
+  estimatedDays: number | null // null without a daily traffic figure
+}
+
+/**
+ * A/B test plan for one high-impact recommendation
+ */
+export interface TestPlan {
+  recommendationId: string
+  recommendationKey: string | null
+  category: string
+  title: string
+  status: RecommendationStatus
+  hypothesis: string
+  control: string
+  variant: string
+  primaryMetric: string
+  secondaryMetrics: string[]
+  expectedLiftPercentage: number // relative lift the test is sized to detect
+  sampleSize: SampleSizeEstimate | null // null without a baseline conversion rate
+}
+
+// ===== CONVERSION PREDICTION =====
+
+export interface ConversionFactorContribution {
+  id: string
+  label: string
+  analyzer: AnalyzerId
+  value: number | null // null when the page wasn't measured for this factor
+  display: string | null // value as shown in the report, e.g. "3.1s"
+  contribution: number // log-odds added to the baseline; 0 when not measured
+  effect: number // relative change of the estimate, e.g. -0.12 for 12% fewer conversions
 }
 
 export interface ConversionPrediction {
@@ -300,17 +734,10 @@ export interface ConversionPrediction {
     low: number
     high: number
   }
-  improvement_potential: number
+  improvement_potential: number // rate gained if every factor holding the page back reached its reference
   key_factors: string[]
-  predictions: Record<string, number>
-}
-
-export interface CompetitiveAnalysis {
-  score: number
-  industry_benchmark: number
-  market_position: 'above_average' | 'average' | 'below_average'
-  best_practices_identified: string[]
-  gaps_vs_leaders: string[]
-  competitive_advantages: string[]
-  recommendations: string[]
+  predictions: Record<string, number> // effect per factor ID
+  model_version?: string
+  baseline_rate?: number // conversion rate of an average page the estimate starts from
+  factors?: ConversionFactorContribution[]
 }
\ No newline at end of file
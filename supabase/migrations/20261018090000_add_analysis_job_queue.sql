@@ -0,0 +1,17 @@
+-- Turn analyses into a job queue so /api/analyze can return immediately
+-- and a worker processes queued rows in the background.
+
+-- Per-module progress for the status endpoint, e.g.
+-- {"modules": {"speed": {"status": "completed", "score": 82}, "cta": {"status": "running"}}}
+ALTER TABLE analyses ADD COLUMN progress JSONB DEFAULT NULL;
+
+-- Options the worker needs to run the job (component filter, forceBrowserless)
+ALTER TABLE analyses ADD COLUMN job_options JSONB DEFAULT NULL;
+
+-- Worker picks the next job by priority (higher first), then oldest first
+CREATE INDEX IF NOT EXISTS idx_analyses_queue
+ON analyses(priority DESC, created_at ASC)
+WHERE status = 'queued';
+
+COMMENT ON COLUMN analyses.progress IS 'Per-module job progress written by the analysis worker';
+COMMENT ON COLUMN analyses.job_options IS 'Options used by the analysis worker to run a queued job';
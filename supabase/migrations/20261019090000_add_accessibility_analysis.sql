@@ -0,0 +1,5 @@
+-- Result column for the accessibility analyzer (contrast, headings,
+-- landmarks, form labels, keyboard access, link text and page language)
+ALTER TABLE analyses ADD COLUMN accessibility_analysis JSONB DEFAULT NULL;
+
+COMMENT ON COLUMN analyses.accessibility_analysis IS 'Accessibility audit results';
@@ -0,0 +1,5 @@
+-- Result column for the SEO and metadata analyzer (title, description,
+-- canonical, share tags, robots, hreflang, structured data and H1)
+ALTER TABLE analyses ADD COLUMN seo_analysis JSONB DEFAULT NULL;
+
+COMMENT ON COLUMN analyses.seo_analysis IS 'SEO and share metadata analysis results';
@@ -0,0 +1,5 @@
+-- Weights used for industry_adjusted_score: the weight profile (requested
+-- or picked from detected_industry), how it was chosen and the per-analyzer weights
+ALTER TABLE analyses ADD COLUMN scoring_weights JSONB DEFAULT NULL;
+
+COMMENT ON COLUMN analyses.scoring_weights IS 'Weight profile and per-analyzer weights behind industry_adjusted_score';
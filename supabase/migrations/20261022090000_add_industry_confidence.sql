@@ -0,0 +1,5 @@
+-- How sure the industry classifier was about detected_industry (0-1)
+ALTER TABLE analyses ADD COLUMN industry_confidence NUMERIC(3, 2) DEFAULT NULL
+    CHECK (industry_confidence >= 0 AND industry_confidence <= 1);
+
+COMMENT ON COLUMN analyses.industry_confidence IS 'Confidence of the automatically detected industry';
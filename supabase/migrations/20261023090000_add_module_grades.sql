@@ -0,0 +1,18 @@
+-- Letter grades: grade (overall) was never written, so backfill it from
+-- overall_score with the thresholds in src/lib/grading.ts, and add the
+-- per-module grades
+ALTER TABLE analyses ADD COLUMN module_grades JSONB DEFAULT NULL;
+
+UPDATE analyses
+SET grade = CASE
+    WHEN overall_score >= 85 THEN 'A'
+    WHEN overall_score >= 70 THEN 'B'
+    WHEN overall_score >= 60 THEN 'C'
+    WHEN overall_score >= 50 THEN 'D'
+    ELSE 'F'
+END
+WHERE overall_score IS NOT NULL AND grade IS NULL;
+
+CREATE INDEX idx_analyses_grade ON analyses(grade) WHERE grade IS NOT NULL;
+
+COMMENT ON COLUMN analyses.module_grades IS 'Letter grade per analyzer, keyed by analyzer id';
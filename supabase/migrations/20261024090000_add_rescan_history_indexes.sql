@@ -0,0 +1,5 @@
+-- Re-scans point at the analysis they replace through parent_analysis_id and
+-- record per-module score deltas in analysis_history (module_name is the
+-- analyzer id, or 'overall')
+CREATE INDEX idx_analyses_parent_analysis_id ON analyses(parent_analysis_id) WHERE parent_analysis_id IS NOT NULL;
+CREATE INDEX idx_analysis_history_analysis_id ON analysis_history(analysis_id);
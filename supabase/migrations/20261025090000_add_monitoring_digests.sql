@@ -0,0 +1,19 @@
+-- Scheduled monitoring: users with user_preferences.auto_analyze_frequency set
+-- to 'weekly' or 'monthly' get their pages re-scanned, and each run stores a
+-- digest of every monitored page
+CREATE TABLE monitoring_digests (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    run_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    page_count INTEGER NOT NULL DEFAULT 0,
+    rescans_queued INTEGER NOT NULL DEFAULT 0,
+    pages JSONB NOT NULL DEFAULT '[]',
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX idx_monitoring_digests_run_at ON monitoring_digests(run_at DESC);
+
+-- Only the service role reads or writes digests
+ALTER TABLE monitoring_digests ENABLE ROW LEVEL SECURITY;
+
+CREATE INDEX idx_user_preferences_auto_analyze_frequency ON user_preferences(auto_analyze_frequency)
+    WHERE auto_analyze_frequency IS NOT NULL;
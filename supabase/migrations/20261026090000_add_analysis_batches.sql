@@ -0,0 +1,21 @@
+-- Bulk URL uploads. Each URL becomes an analysis with job_options.batch_id
+-- set; it is inserted as 'pending' and moved to 'queued' a few at a time so
+-- one large upload doesn't hold the shared browser
+CREATE TABLE analysis_batches (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    name TEXT,
+    status TEXT NOT NULL DEFAULT 'processing' CHECK (status IN ('processing', 'completed')),
+    item_count INTEGER NOT NULL DEFAULT 0,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    completed_at TIMESTAMP WITH TIME ZONE
+);
+
+CREATE INDEX idx_analysis_batches_user_id ON analysis_batches(user_id, created_at DESC);
+
+-- Only the service role reads or writes batches
+ALTER TABLE analysis_batches ENABLE ROW LEVEL SECURITY;
+
+-- Analyses of a batch, in upload order
+CREATE INDEX idx_analyses_batch_id ON analyses((job_options->>'batch_id'), created_at)
+    WHERE job_options->>'batch_id' IS NOT NULL;
@@ -0,0 +1,9 @@
+-- Each analysis stores its recommendations as rows so their status and
+-- implementation notes can be tracked. recommendation_key is the ID of the
+-- template that generated the recommendation, stable across analyses
+ALTER TABLE recommendations
+ADD COLUMN recommendation_key TEXT,
+ADD COLUMN affected_area TEXT;
+
+-- One row per recommendation per analysis; saving again leaves tracked rows alone
+CREATE UNIQUE INDEX idx_recommendations_analysis_key ON recommendations(analysis_id, recommendation_key);
@@ -0,0 +1,28 @@
+-- Check a key's daily quota and meter the request in one step, so
+-- concurrent requests can't all pass the check and go over the quota.
+-- Locking the key's row makes requests with the same key take turns.
+-- Returns the requests made with the key since day_start before this one;
+-- the request is only recorded when that is under the quota.
+CREATE OR REPLACE FUNCTION meter_api_request(
+    key_id UUID,
+    request_endpoint TEXT,
+    day_start TIMESTAMP WITH TIME ZONE
+)
+RETURNS INTEGER AS $$
+DECLARE
+    quota INTEGER;
+    used INTEGER;
+BEGIN
+    SELECT daily_quota INTO quota FROM api_keys WHERE id = key_id FOR UPDATE;
+
+    SELECT COUNT(*) INTO used
+    FROM api_usage
+    WHERE api_key_id = key_id AND created_at >= day_start;
+
+    IF used < quota THEN
+        INSERT INTO api_usage (api_key_id, endpoint) VALUES (key_id, request_endpoint);
+    END IF;
+
+    RETURN used;
+END;
+$$ language 'plpgsql';